@@ -0,0 +1,62 @@
+/**
+ * @file supabase.ts
+ * @description Supabase query mocks shared by the unit tests.
+ */
+
+import { vi, type Mock } from 'vitest'
+
+/**
+ * Result a mocked query resolves to
+ */
+export interface QueryResult {
+  data?: unknown
+  error?: unknown
+  count?: number | null
+}
+
+/**
+ * Query builder methods the mock supports; each returns the query itself
+ */
+const QUERY_METHODS = [
+  'select',
+  'insert',
+  'update',
+  'delete',
+  'eq',
+  'neq',
+  'in',
+  'is',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'order',
+  'range',
+  'limit',
+  'single',
+  'maybeSingle',
+] as const
+
+/**
+ * Chainable query mock
+ */
+export type QueryMock = Record<(typeof QUERY_METHODS)[number], Mock> & PromiseLike<QueryResult>
+
+/**
+ * Chainable query mock that resolves to the given result however it is built
+ *
+ * Every builder method (including `single` and `maybeSingle`) returns the
+ * query, and awaiting the query at any point yields `result`.
+ *
+ * @param result - Data, error and count the query resolves to
+ * @returns Query mock whose methods can be asserted on
+ */
+export function createQuery(result: QueryResult): QueryMock {
+  const query: Partial<QueryMock> = {
+    then: (resolve, reject) => Promise.resolve(result).then(resolve, reject),
+  }
+  for (const method of QUERY_METHODS) {
+    query[method] = vi.fn(() => query)
+  }
+  return query as QueryMock
+}
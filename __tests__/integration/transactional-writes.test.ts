@@ -0,0 +1,231 @@
+/**
+ * Integration Test: Transactional Writes
+ *
+ * Tests that the database functions behind language, description and city
+ * saves leave nothing behind when one of their writes fails: a language
+ * without names, a description without text or a city without locales.
+ *
+ * Skipped when no Supabase test database is configured.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// Test environment validation
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Valid UUID that does not exist in any table
+const MISSING_ID = '00000000-0000-4000-8000-000000000000';
+
+describe.skipIf(!supabaseUrl || !supabaseKey)('Transactional Writes Integration Tests', () => {
+  let supabase: SupabaseClient;
+  let testCityId: string;
+  let testCountryId: string;
+  let testTaxonomyTypeId: string;
+  let testTaxonomyValueId: string;
+  const endonym = `Transactional ${Date.now()}`;
+
+  /**
+   * Count the rows of a table that match a column value
+   */
+  async function countRows(table: string, column: string, value: string): Promise<number> {
+    const { count, error } = await supabase
+      .from(table)
+      .select('*', { count: 'exact', head: true })
+      .eq(column, value);
+
+    if (error) throw new Error(`Failed to count ${table}: ${error.message}`);
+    return count ?? 0;
+  }
+
+  beforeAll(async () => {
+    supabase = createClient(supabaseUrl!, supabaseKey!);
+
+    const { data: country } = await supabase.from('countries').select('id').limit(1).single();
+
+    if (!country) {
+      throw new Error('No country found. Please run seed data first.');
+    }
+    testCountryId = country.id;
+
+    const { data: city, error: cityError } = await supabase
+      .from('cities')
+      .insert({
+        slug: `test-transactions-${Date.now()}`,
+        country_id: testCountryId,
+        center_lat: 52.0,
+        center_lng: 4.0
+      })
+      .select('id')
+      .single();
+
+    if (cityError) throw new Error(`Failed to create test city: ${cityError.message}`);
+    testCityId = city.id;
+
+    const { data: taxonomyType, error: typeError } = await supabase
+      .from('taxonomy_types')
+      .insert({ city_id: testCityId, slug: 'test-status' })
+      .select('id')
+      .single();
+
+    if (typeError) throw new Error(`Failed to create taxonomy type: ${typeError.message}`);
+    testTaxonomyTypeId = taxonomyType.id;
+
+    const { data: taxonomyValue, error: valueError } = await supabase
+      .from('taxonomy_values')
+      .insert({ taxonomy_type_id: testTaxonomyTypeId, slug: 'test-value' })
+      .select('id')
+      .single();
+
+    if (valueError) throw new Error(`Failed to create taxonomy value: ${valueError.message}`);
+    testTaxonomyValueId = taxonomyValue.id;
+  });
+
+  afterAll(async () => {
+    // Deleting the city cascades to its languages, descriptions and taxonomies
+    if (testCityId) {
+      await supabase.from('cities').delete().eq('id', testCityId);
+    }
+  });
+
+  describe('create_language', () => {
+    it('should not keep the language when a taxonomy value does not exist', async () => {
+      const { data, error } = await supabase.rpc('create_language', {
+        p_city_id: testCityId,
+        p_language: { endonym, iso_639_3_code: null },
+        p_translations: [{ locale_code: 'en', name: 'Transactional' }],
+        p_taxonomy_value_ids: [MISSING_ID]
+      });
+
+      expect(error).not.toBeNull();
+      expect(data).toBeNull();
+      expect(await countRows('languages', 'endonym', endonym)).toBe(0);
+    });
+
+    it('should not keep the language when a translation locale does not exist', async () => {
+      const { error } = await supabase.rpc('create_language', {
+        p_city_id: testCityId,
+        p_language: { endonym, iso_639_3_code: null },
+        p_translations: [
+          { locale_code: 'en', name: 'Transactional' },
+          { locale_code: 'zz', name: 'Unknown locale' }
+        ],
+        p_taxonomy_value_ids: [testTaxonomyValueId]
+      });
+
+      expect(error).not.toBeNull();
+      expect(await countRows('languages', 'endonym', endonym)).toBe(0);
+    });
+
+    it('should save the language, its names and taxonomies together', async () => {
+      const { data, error } = await supabase.rpc('create_language', {
+        p_city_id: testCityId,
+        p_language: { endonym, iso_639_3_code: null },
+        p_translations: [
+          { locale_code: 'en', name: 'Transactional' },
+          { locale_code: 'nl', name: '' }
+        ],
+        p_taxonomy_value_ids: [testTaxonomyValueId]
+      });
+
+      expect(error).toBeNull();
+      expect(data.endonym).toBe(endonym);
+      expect(await countRows('language_translations', 'language_id', data.id)).toBe(1);
+      expect(await countRows('language_taxonomies', 'language_id', data.id)).toBe(1);
+    });
+  });
+
+  describe('update_language', () => {
+    it('should keep the previous names and taxonomies when the update fails', async () => {
+      const { data: language } = await supabase
+        .from('languages')
+        .select('id')
+        .eq('endonym', endonym)
+        .single();
+
+      expect(language).not.toBeNull();
+
+      const { error } = await supabase.rpc('update_language', {
+        p_language_id: language!.id,
+        p_language: { endonym: `${endonym} (updated)`, iso_639_3_code: null },
+        p_translations: [{ locale_code: 'fr', name: 'Transactionnel' }],
+        p_taxonomy_value_ids: [MISSING_ID]
+      });
+
+      expect(error).not.toBeNull();
+
+      const { data: unchanged } = await supabase
+        .from('languages')
+        .select('endonym, translations:language_translations(locale_code), taxonomies:language_taxonomies(taxonomy_value_id)')
+        .eq('id', language!.id)
+        .single();
+
+      expect(unchanged?.endonym).toBe(endonym);
+      expect(unchanged?.translations).toEqual([{ locale_code: 'en' }]);
+      expect(unchanged?.taxonomies).toEqual([{ taxonomy_value_id: testTaxonomyValueId }]);
+    });
+
+    it('should report a language that does not exist', async () => {
+      const { error } = await supabase.rpc('update_language', {
+        p_language_id: MISSING_ID,
+        p_language: { endonym },
+        p_translations: [],
+        p_taxonomy_value_ids: []
+      });
+
+      expect(error?.code).toBe('P0001');
+      expect(error?.message).toBe('Language not found');
+    });
+  });
+
+  describe('create_description', () => {
+    it('should not keep the description when its text cannot be saved', async () => {
+      const { data: language } = await supabase
+        .from('languages')
+        .select('id')
+        .eq('endonym', endonym)
+        .single();
+
+      const { error } = await supabase.rpc('create_description', {
+        p_city_id: testCityId,
+        p_description: { language_id: language!.id, neighborhood_id: null, is_ai_generated: false },
+        p_translation: { locale: 'zz', text: 'A description in an unknown locale' }
+      });
+
+      expect(error).not.toBeNull();
+      expect(await countRows('descriptions', 'language_id', language!.id)).toBe(0);
+    });
+  });
+
+  describe('create_city', () => {
+    it('should not keep the city when a locale cannot be enabled', async () => {
+      const slug = `test-transactions-city-${Date.now()}`;
+
+      const { error } = await supabase.rpc('create_city', {
+        p_city: { slug, country_id: testCountryId, center_lat: 52.0, center_lng: 4.0 },
+        p_translations: [{ locale_code: 'en', name: 'Test City', description: '' }],
+        p_locale_codes: ['en', 'zz']
+      });
+
+      expect(error).not.toBeNull();
+      expect(await countRows('cities', 'slug', slug)).toBe(0);
+    });
+
+    it('should save the city, its names and locales together', async () => {
+      const slug = `test-transactions-city-${Date.now()}`;
+
+      const { data, error } = await supabase.rpc('create_city', {
+        p_city: { slug, country_id: testCountryId, center_lat: 52.0, center_lng: 4.0 },
+        p_translations: [{ locale_code: 'en', name: 'Test City', description: '' }],
+        p_locale_codes: ['en']
+      });
+
+      expect(error).toBeNull();
+      expect(await countRows('city_translations', 'city_id', data.id)).toBe(1);
+      expect(await countRows('city_locales', 'city_id', data.id)).toBe(1);
+
+      await supabase.from('cities').delete().eq('id', data.id);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Public City Map Page
+ *
+ * Public-facing map of the languages spoken in a city.
+ * The map is centered on the city's configured center and zoom, constrained
+ * to its bounds, and renders language points from the GeoJSON API.
+ */
+
+import { notFound } from 'next/navigation'
+import { getTranslations } from 'next-intl/server'
+import { CityMap } from '@/components/map/city-map'
+import { getPublicCityMapConfig } from '@/lib/map/city'
+
+/**
+ * Page parameters
+ */
+interface PageParams {
+  params: Promise<{
+    locale: string
+    citySlug: string
+  }>
+}
+
+/**
+ * Public City Map Page.
+ * Server component that loads the city map configuration and renders the map.
+ *
+ * @param params - The page parameters containing locale and citySlug
+ * @param params.params.locale - The current locale
+ * @param params.params.citySlug - The slug of the city
+ * @returns JSX element containing the city map
+ */
+export default async function CityMapPage({ params }: PageParams) {
+  const { locale, citySlug } = await params
+
+  // Validate route parameters (anything that is not a city slug is a 404)
+  if (!citySlug || citySlug.length > 50 || !/^[a-z0-9-]+$/.test(citySlug)) {
+    notFound()
+  }
+
+  const city = await getPublicCityMapConfig(citySlug, locale)
+
+  if (!city) {
+    notFound()
+  }
+
+  const t = await getTranslations('map')
+
+  return (
+    <main className="flex h-screen flex-col">
+      <header className="border-b px-6 py-4">
+        <h1 className="text-2xl font-bold tracking-tight">
+          {t('title', { city: city.name })}
+        </h1>
+        <p className="text-sm text-muted-foreground">{t('subtitle')}</p>
+      </header>
+
+      <div className="relative flex-1">
+        <CityMap city={city} locale={locale} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,48 @@
+/**
+ * City Activity Page
+ *
+ * Audit log of every change made to the city's data, invitations and
+ * members, with the values before and after each change.
+ *
+ * NOTE: Uses Client Components for consistent authentication.
+ * NOTE: Authentication and authorization are handled by the parent layout component.
+ * The activity action checks city admin access again.
+ *
+ * @returns The rendered activity page
+ */
+
+'use client'
+
+import { useParams } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CityActivity } from '@/components/admin/city-activity'
+import { History } from 'lucide-react'
+
+export default function CityActivityPage() {
+  const params = useParams()
+  const citySlug = params?.citySlug as string
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Activity</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Every change to this city, who made it and what it looked like before.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <History className="me-2 h-5 w-5" />
+            Audit Log
+          </CardTitle>
+          <CardDescription>Open a change to compare the values before and after it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CityActivity citySlug={citySlug} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+/**
+ * City Data Export Page
+ *
+ * Download links for the full data export of a city: every table as CSV,
+ * a workbook with all tables, the language points as GeoJSON and a
+ * linked-data (JSON-LD) version of everything.
+ *
+ * NOTE: Uses Client Components for consistent authentication.
+ * NOTE: Authentication and authorization are handled by the parent layout component.
+ * The export route checks access again before returning data.
+ *
+ * @returns The rendered export page
+ */
+
+'use client'
+
+import { useParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Download, FileSpreadsheet, Map as MapIcon, Network, Table } from 'lucide-react'
+
+const CSV_TABLES = [
+  { table: 'languages', label: 'Languages', description: 'Names in every locale, family, country, speaker count and taxonomy values' },
+  { table: 'language_points', label: 'Language points', description: 'Coordinates, postal code, community, neighborhood and notes' },
+  { table: 'descriptions', label: 'Descriptions', description: 'Description texts in every locale' },
+  { table: 'districts', label: 'Districts', description: 'District names in every locale' },
+  { table: 'neighborhoods', label: 'Neighborhoods', description: 'Neighborhood names in every locale' },
+]
+
+export default function CityExportPage() {
+  const params = useParams()
+  const citySlug = params?.citySlug as string
+  const locale = (params?.locale as string) || 'en'
+  const exportUrl = (query: string) => `/api/${locale}/${citySlug}/export?${query}`
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Data Export</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Download all data of this city, including unpublished records, in every locale.
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <FileSpreadsheet className="me-2 h-5 w-5" />
+              Excel Workbook
+            </CardTitle>
+            <CardDescription>All tables, one sheet per table</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <a href={exportUrl('format=xlsx')} download>
+              <Button className="w-full justify-start">
+                <Download className="me-2 h-4 w-4" />
+                Download XLSX
+              </Button>
+            </a>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <MapIcon className="me-2 h-5 w-5" />
+              GeoJSON
+            </CardTitle>
+            <CardDescription>Language points with all their properties, for GIS tools</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <a href={exportUrl('format=geojson')} download>
+              <Button className="w-full justify-start" variant="outline">
+                <Download className="me-2 h-4 w-4" />
+                Download GeoJSON
+              </Button>
+            </a>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Network className="me-2 h-5 w-5" />
+              JSON-LD
+            </CardTitle>
+            <CardDescription>Linked data using schema.org terms</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <a href={exportUrl('format=jsonld')} download>
+              <Button className="w-full justify-start" variant="outline">
+                <Download className="me-2 h-4 w-4" />
+                Download JSON-LD
+              </Button>
+            </a>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Table className="me-2 h-5 w-5" />
+            CSV Tables
+          </CardTitle>
+          <CardDescription>One file per table, UTF-8 with comma separators</CardDescription>
+        </CardHeader>
+        <CardContent className="divide-y divide-gray-200">
+          {CSV_TABLES.map(({ table, label, description }) => (
+            <div key={table} className="flex items-center justify-between py-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{label}</p>
+                <p className="text-xs text-gray-600">{description}</p>
+              </div>
+              <a href={exportUrl(`format=csv&table=${table}`)} download>
+                <Button variant="outline" size="sm">
+                  <Download className="me-2 h-4 w-4" />
+                  CSV
+                </Button>
+              </a>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+/**
+ * City Invitations Page
+ *
+ * Invitations to a city: every pending, accepted, expired and revoked
+ * invitation with actions to resend, extend or revoke, and a CSV upload to
+ * invite a whole group at once.
+ *
+ * NOTE: Uses Client Components for consistent authentication.
+ * NOTE: Authentication and authorization are handled by the parent layout component.
+ * The invitation actions check city admin access again.
+ *
+ * @returns The rendered invitations page
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useParams } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { InvitationList } from '@/components/admin/invitation-list'
+import { BulkInvitationUpload } from '@/components/admin/bulk-invitation-upload'
+import { Mail, Upload } from 'lucide-react'
+
+export default function CityInvitationsPage() {
+  const params = useParams()
+  const citySlug = params?.citySlug as string
+  const [reloadKey, setReloadKey] = useState(0)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Invitations</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          People invited to work on this city. Unused invitations expire after 7 days.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Upload className="me-2 h-5 w-5" />
+            Invite a Group
+          </CardTitle>
+          <CardDescription>Send invitations to a list of people in one step</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BulkInvitationUpload citySlug={citySlug} onInvited={() => setReloadKey((key) => key + 1)} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Mail className="me-2 h-5 w-5" />
+            All Invitations
+          </CardTitle>
+          <CardDescription>Resend, extend or revoke invitations that have not been accepted</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <InvitationList citySlug={citySlug} reloadKey={reloadKey} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -13,8 +13,9 @@
 import { useState, useEffect } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import Link from 'next/link'
+import { findTranslation } from '@/lib/i18n/config'
 import { Button } from '@/components/ui/button'
-import { ArrowLeft, Building, Users, Settings } from 'lucide-react'
+import { ArrowLeft, Building, Users, Mail, History, Settings, Download } from 'lucide-react'
 
 export default function CityAdminLayout({
   children,
@@ -77,12 +78,12 @@ export default function CityAdminLayout({
           .select(`
             id,
             slug,
-            translations:city_translations!inner(
+            translations:city_translations(
+              locale_code,
               name
             )
           `)
           .eq('slug', citySlug)
-          .eq('translations.locale_code', locale)
           .single()
 
         console.log('[City Admin Layout] City query result:', { city: cityData, error: cityError?.message })
@@ -93,11 +94,11 @@ export default function CityAdminLayout({
           return
         }
 
-        // Extract city name from translations (translations is an array from the join)
+        // Pick the city name in the locale, falling back to English and the slug
         const cityWithName = {
           id: cityData.id,
           slug: cityData.slug,
-          name: cityData.translations?.[0]?.name || cityData.slug
+          name: findTranslation(cityData.translations, locale)?.name || cityData.slug
         }
 
         setCity(cityWithName)
@@ -158,7 +159,7 @@ export default function CityAdminLayout({
       <div className="flex items-center space-x-4">
         <Link href={`/${locale}/admin`}>
           <Button variant="outline" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             Back to Dashboard
           </Button>
         </Link>
@@ -181,16 +182,37 @@ export default function CityAdminLayout({
             href={`/${locale}/admin/${citySlug}/users`}
             className="border-b-2 border-transparent px-1 pb-4 text-sm font-medium text-gray-600 hover:border-gray-300 hover:text-gray-900"
           >
-            <Users className="mr-1 inline h-4 w-4" />
+            <Users className="me-1 inline h-4 w-4" />
             Users
           </Link>
+          <Link
+            href={`/${locale}/admin/${citySlug}/invitations`}
+            className="border-b-2 border-transparent px-1 pb-4 text-sm font-medium text-gray-600 hover:border-gray-300 hover:text-gray-900"
+          >
+            <Mail className="me-1 inline h-4 w-4" />
+            Invitations
+          </Link>
+          <Link
+            href={`/${locale}/admin/${citySlug}/activity`}
+            className="border-b-2 border-transparent px-1 pb-4 text-sm font-medium text-gray-600 hover:border-gray-300 hover:text-gray-900"
+          >
+            <History className="me-1 inline h-4 w-4" />
+            Activity
+          </Link>
           <Link
             href={`/${locale}/admin/${citySlug}/settings`}
             className="border-b-2 border-transparent px-1 pb-4 text-sm font-medium text-gray-600 hover:border-gray-300 hover:text-gray-900"
           >
-            <Settings className="mr-1 inline h-4 w-4" />
+            <Settings className="me-1 inline h-4 w-4" />
             Settings
           </Link>
+          <Link
+            href={`/${locale}/admin/${citySlug}/export`}
+            className="border-b-2 border-transparent px-1 pb-4 text-sm font-medium text-gray-600 hover:border-gray-300 hover:text-gray-900"
+          >
+            <Download className="me-1 inline h-4 w-4" />
+            Export
+          </Link>
         </nav>
       </div>
 
@@ -20,9 +20,10 @@
 import { useState, useEffect } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { findTranslation } from '@/lib/i18n/config'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Users, FileText, BarChart3, Languages, Settings } from 'lucide-react'
+import { Users, FileText, BarChart3, Languages, Settings, Download } from 'lucide-react'
 
 interface City {
   id: string
@@ -81,12 +82,12 @@ export default function CityAdminPage() {
           .select(`
             id,
             slug,
-            translations:city_translations!inner(
+            translations:city_translations(
+              locale_code,
               name
             )
           `)
           .eq('slug', citySlug)
-          .eq('translations.locale_code', locale)
           .single()
 
         if (cityError || !cityData) {
@@ -109,11 +110,11 @@ export default function CityAdminPage() {
           return
         }
 
-        // Extract city name from translations (translations is an array from the join)
+        // Pick the city name in the locale, falling back to English and the slug
         const cityWithName: City = {
           id: cityData.id,
           slug: cityData.slug,
-          translations: cityData.translations?.[0] ? { name: cityData.translations[0].name } : { name: cityData.slug }
+          translations: { name: findTranslation(cityData.translations, locale)?.name || cityData.slug }
         }
 
         if (!isMounted) return
@@ -125,7 +126,8 @@ export default function CityAdminPage() {
           supabase
             .from('languages')
             .select('*', { count: 'exact', head: true })
-            .eq('city_id', cityData.id),
+            .eq('city_id', cityData.id)
+            .is('deleted_at', null),
 
           // User count for this city
           supabase
@@ -137,7 +139,8 @@ export default function CityAdminPage() {
           supabase
             .from('descriptions')
             .select('*', { count: 'exact', head: true })
-            .eq('city_id', cityData.id),
+            .eq('city_id', cityData.id)
+            .is('deleted_at', null),
         ])
 
         if (!isMounted) return
@@ -336,18 +339,24 @@ export default function CityAdminPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-2">
-            <Link href={`/${locale}/admin/${citySlug}/users/invite`}>
+            <Link href={`/${locale}/admin/${citySlug}/invitations`}>
               <Button className="w-full justify-start">
-                <Users className="mr-2 h-4 w-4" />
+                <Users className="me-2 h-4 w-4" />
                 Invite New Users
               </Button>
             </Link>
             <Link href={`/${locale}/admin/${citySlug}/settings`}>
               <Button className="w-full justify-start" variant="outline">
-                <Settings className="mr-2 h-4 w-4" />
+                <Settings className="me-2 h-4 w-4" />
                 City Settings
               </Button>
             </Link>
+            <Link href={`/${locale}/admin/${citySlug}/export`}>
+              <Button className="w-full justify-start" variant="outline">
+                <Download className="me-2 h-4 w-4" />
+                Export Data
+              </Button>
+            </Link>
           </CardContent>
         </Card>
 
@@ -0,0 +1,55 @@
+/**
+ * City Settings Page
+ *
+ * Settings of a city that apply to all its operators, such as how long
+ * deleted items stay in the trash.
+ *
+ * NOTE: Uses Client Components for consistent authentication.
+ * NOTE: Authentication and authorization are handled by the parent layout component.
+ * The settings actions check city admin access again.
+ *
+ * @returns The rendered city settings page
+ */
+
+'use client'
+
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { TrashRetentionForm } from '@/components/admin/trash-retention-form'
+import { Trash2 } from 'lucide-react'
+
+export default function CitySettingsPage() {
+  const params = useParams()
+  const citySlug = params?.citySlug as string
+  const locale = (params?.locale as string) || 'en'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Settings</h2>
+        <p className="mt-1 text-sm text-gray-600">Settings that apply to everyone working on this city.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Trash2 className="me-2 h-5 w-5" />
+            Trash
+          </CardTitle>
+          <CardDescription>
+            Deleted languages, points, descriptions, neighborhoods, districts and taxonomy values can be restored
+            from the trash until they are purged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TrashRetentionForm citySlug={citySlug} />
+          <Link href={`/${locale}/operator/${citySlug}/trash`}>
+            <Button variant="outline">Open Trash</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+/**
+ * City Users Page
+ *
+ * Members of a city with actions to change their role between operator and
+ * admin or remove their access. Superusers can also deactivate accounts.
+ *
+ * NOTE: Uses Client Components for consistent authentication.
+ * NOTE: Authentication and authorization are handled by the parent layout component.
+ * The member actions check city admin access again.
+ *
+ * @returns The rendered city users page
+ */
+
+'use client'
+
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CityMemberList } from '@/components/admin/city-member-list'
+import { Mail, Users } from 'lucide-react'
+
+export default function CityUsersPage() {
+  const params = useParams()
+  const citySlug = params?.citySlug as string
+  const locale = (params?.locale as string) || 'en'
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Users</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            People with access to this city. Every city keeps at least one admin.
+          </p>
+        </div>
+        <Link href={`/${locale}/admin/${citySlug}/invitations`}>
+          <Button variant="outline">
+            <Mail className="me-2 h-4 w-4" />
+            Invite New Users
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="me-2 h-5 w-5" />
+            City Members
+          </CardTitle>
+          <CardDescription>Change roles or remove access for people who no longer work on this city</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CityMemberList citySlug={citySlug} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -22,6 +22,7 @@
 
 import { useEffect, useState } from 'react'
 import { useRouter, usePathname, useParams } from 'next/navigation'
+import { defaultLocale, isLocaleCode } from '@/lib/i18n/config'
 
 /**
  * Admin layout component that handles authentication for admin routes.
@@ -75,12 +76,11 @@ export default function AdminLayout({
           return
         }
 
-        // Extract locale from pathname - only accept valid locales
-        const validLocales = ['en', 'nl', 'fr']
+        // Extract locale from pathname - only accept locale codes
         const pathParts = pathname?.split('/').filter(Boolean) || []
 
         // For routes like /fr/admin, pathParts would be ['fr', 'admin']
-        const locale = validLocales.includes(pathParts[0]) ? pathParts[0] : 'en'
+        const locale = isLocaleCode(pathParts[0]) ? pathParts[0] : defaultLocale
 
         const { createAuthClient } = await import('@/lib/auth/client')
         const supabase = createAuthClient()
@@ -170,9 +170,11 @@ const createMockSupabaseClient = (user: any, userCities: any = [], languageCount
         return {
           select: vi.fn().mockReturnValue({
             eq: vi.fn().mockReturnValue({
-              // Handle head: true option
-              head: vi.fn().mockResolvedValue({
-                count: languageCount,
+              is: vi.fn().mockReturnValue({
+                // Handle head: true option
+                head: vi.fn().mockResolvedValue({
+                  count: languageCount,
+                }),
               }),
             }),
           }),
@@ -131,6 +131,7 @@ export default function AdminDashboard() {
           .from('languages')
           .select('*', { count: 'exact', head: true })
           .eq('city_id', firstCity.id)
+          .is('deleted_at', null)
 
         if (langError) {
           if (isMounted) {
@@ -326,7 +327,7 @@ export default function AdminDashboard() {
                 variant="outline"
                 onClick={() => router.push(`/${locale}/admin/${firstCity.slug}`)}
               >
-                <Users className="mr-2 h-4 w-4" />
+                <Users className="me-2 h-4 w-4" />
                 View City Dashboard
               </Button>
               <Button
@@ -334,7 +335,7 @@ export default function AdminDashboard() {
                 variant="outline"
                 onClick={() => router.push(`/${locale}/admin/${firstCity.slug}`)}
               >
-                <Settings className="mr-2 h-4 w-4" />
+                <Settings className="me-2 h-4 w-4" />
                 City Settings
               </Button>
             </CardContent>
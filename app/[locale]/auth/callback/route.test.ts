@@ -0,0 +1,76 @@
+/**
+ * @file route.test.ts
+ * @description Tests for the magic link callback route
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { GET } from './route'
+
+vi.mock('@supabase/ssr', () => ({
+  createServerClient: vi.fn(),
+}))
+
+/**
+ * Mock the Supabase client for a user with the given profile role
+ */
+function mockSession(role: string) {
+  vi.mocked(createServerClient).mockReturnValue({
+    auth: {
+      exchangeCodeForSession: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-1', email: 'user@example.com' } },
+        error: null,
+      }),
+    },
+    from: vi.fn().mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          single: vi.fn().mockResolvedValue({ data: { role }, error: null }),
+        }),
+      }),
+    }),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as any)
+}
+
+/**
+ * Call the callback with the given query string and return the redirect path
+ */
+async function callRoute(query: string): Promise<string> {
+  const response = await GET(new NextRequest(`http://localhost:3001/en/auth/callback${query}`))
+  const location = new URL(response.headers.get('location') ?? '')
+  return location.pathname + location.search
+}
+
+describe('GET /[locale]/auth/callback', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('redirects to the dashboard for the user role', async () => {
+    mockSession('admin')
+
+    expect(await callRoute('?code=abc')).toBe('/en/admin')
+  })
+
+  it('returns to the page that sent the magic link', async () => {
+    mockSession('operator')
+
+    expect(await callRoute(`?code=abc&next=${encodeURIComponent('/nl/invite/abc123')}`)).toBe('/nl/invite/abc123')
+  })
+
+  it.each(['/en/login', '/login?error=x', '/signup', 'https://evil.example', '//evil.example'])(
+    'ignores next=%s',
+    async (next) => {
+      mockSession('superuser')
+
+      expect(await callRoute(`?code=abc&next=${encodeURIComponent(next)}`)).toBe('/en/superuser')
+    }
+  )
+
+  it('redirects to login without a code', async () => {
+    expect(await callRoute('')).toBe('/login')
+  })
+})
@@ -2,7 +2,8 @@
  * Auth Callback Route
  *
  * Handles the OAuth callback from Supabase after magic link authentication.
- * Exchanges the authorization code for a session and redirects the user.
+ * Exchanges the authorization code for a session and redirects the user,
+ * either back to the page that sent the magic link or to their dashboard.
  *
  * @module app/auth/callback/route
  */
@@ -12,6 +13,28 @@ import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import type { CookieOptions } from '@supabase/ssr'
 
+/**
+ * Page to return to after signing in, if the magic link asked for one
+ *
+ * Only paths on this site are allowed, and the login and signup pages are
+ * ignored: they pass their own path, and signing in from there should land
+ * on the user's dashboard.
+ *
+ * @param next - Value of the `next` query parameter
+ * @returns Path to redirect to, or null for the role-based default
+ */
+function getNextPath(next: string | null): string | null {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.includes('\\')) {
+    return null
+  }
+
+  if (/^(\/[a-z]{2})?\/(login|signup)(\/|\?|$)/.test(next)) {
+    return null
+  }
+
+  return next
+}
+
 /**
  * GET handler for auth callback
  *
@@ -24,12 +47,12 @@ import type { CookieOptions } from '@supabase/ssr'
 export async function GET(request: NextRequest) {
   const requestUrl = new URL(request.url)
   const code = requestUrl.searchParams.get('code')
-  const next = requestUrl.searchParams.get('next') ?? '/'
+  const next = getNextPath(requestUrl.searchParams.get('next'))
 
   try {
     if (code) {
       // Create response early so we can set cookies on it
-      const response = NextResponse.redirect(new URL(next, request.url))
+      const response = NextResponse.redirect(new URL(next ?? '/', request.url))
 
       const supabase = createServerClient(
         process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -79,6 +102,12 @@ export async function GET(request: NextRequest) {
       // Debug logging
       console.log('[Auth Callback] Session established for user:', data.user.id, 'email:', data.user.email)
 
+      // Return to the page that sent the magic link, such as an invitation
+      if (next) {
+        console.log('[Auth Callback] Redirecting to requested page:', next)
+        return response
+      }
+
       // Get user's role from database to determine redirect
       const { data: profile, error: profileError } = await supabase
         .from('user_profiles')
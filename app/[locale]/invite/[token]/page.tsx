@@ -0,0 +1,50 @@
+/**
+ * Invitation Page
+ *
+ * Landing page of the link in invitation emails. Shows what the invitation
+ * grants, signs the invitee in with a magic link that returns here, and
+ * accepts the invitation once they are signed in with the invited address.
+ *
+ * @module app/[locale]/invite/[token]/page
+ */
+
+import { getInvitationByToken } from '@/app/actions/invitations'
+import { InvitationAcceptance } from '@/components/auth/invitation-acceptance'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+
+/**
+ * Page parameters
+ */
+interface PageParams {
+  params: Promise<{
+    locale: string
+    token: string
+  }>
+}
+
+/**
+ * Invitation page.
+ * Server component that looks up the invitation and the signed-in user.
+ *
+ * @param params - The page parameters containing locale and token
+ * @param params.params.locale - The current locale
+ * @param params.params.token - The invitation token from the email
+ * @returns JSX element for the invitation state
+ */
+export default async function InvitePage({ params }: PageParams) {
+  const { locale, token } = await params
+
+  // Tokens are hex strings; anything else cannot match an invitation
+  const invitation = /^[a-f0-9]{1,255}$/.test(token) ? await getInvitationByToken(token, locale) : null
+
+  const supabase = await getServerSupabaseWithCookies('system')
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12 sm:px-6 lg:px-8">
+      <InvitationAcceptance token={token} invitation={invitation} currentEmail={user?.email ?? null} />
+    </div>
+  )
+}
@@ -2,14 +2,16 @@
  * Locale Layout
  *
  * This layout wraps all pages for a specific locale.
- * It sets up the html lang attribute and provides translations.
+ * It sets up the html lang and dir attributes and provides translations.
  */
 
 import type { Metadata } from 'next'
 import { NextIntlClientProvider } from 'next-intl'
 import { getMessages } from 'next-intl/server'
 import { notFound } from 'next/navigation'
-import { locales } from '@/lib/i18n/config'
+import { locales, getLocaleDirection } from '@/lib/i18n/config'
+import { getActiveLocales } from '@/lib/i18n/active-locales'
+import { DirectionProvider } from '@/components/ui/direction'
 import './globals.css'
 
 export const metadata: Metadata = {
@@ -26,20 +28,28 @@ export default async function LocaleLayout({ children, params }: Props) {
   const { locale } = await params
 
   // Validate locale
-  if (!locales.includes(locale as (typeof locales)[number])) {
+  if (!(await getActiveLocales()).includes(locale)) {
     notFound()
   }
 
   // Providing all messages to the client side is the easiest way to get started
   const messages = await getMessages()
+  const dir = getLocaleDirection(locale)
 
   return (
-    <NextIntlClientProvider messages={messages}>
-      {children}
-    </NextIntlClientProvider>
+    <html lang={locale} dir={dir}>
+      <body>
+        <DirectionProvider dir={dir}>
+          <NextIntlClientProvider messages={messages}>
+            {children}
+          </NextIntlClientProvider>
+        </DirectionProvider>
+      </body>
+    </html>
   )
 }
 
+// Other active locales are rendered on demand
 export function generateStaticParams(): Array<{ locale: string }> {
   return locales.map((locale) => ({ locale }))
 }
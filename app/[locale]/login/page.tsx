@@ -162,14 +162,14 @@ export default function LoginPage() {
             <div className="space-y-2">
               <Label htmlFor="email">{t('emailLabel')}</Label>
               <div className="relative">
-                <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                <Mail className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
                 <Input
                   id="email"
                   type="email"
                   placeholder={t('emailPlaceholder')}
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
-                  className="pl-10"
+                  className="ps-10"
                   required
                   disabled={isLoading}
                   autoComplete="email"
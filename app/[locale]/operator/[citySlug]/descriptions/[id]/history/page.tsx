@@ -0,0 +1,131 @@
+/**
+ * Description History Page
+ *
+ * Saved versions of a description and its texts, with the changes between
+ * them compared word by word, and restore. Also reachable for deleted
+ * descriptions, from the descriptions list.
+ */
+
+import React from 'react'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getTranslations } from 'next-intl/server'
+import { ArrowLeft, History } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { RevisionHistory } from '@/components/revisions/revision-history'
+import { getRevisions } from '@/app/actions/revisions'
+import { getLanguagesForDescription, getNeighborhoodsForDescription } from '@/app/actions/descriptions'
+import { buildRevisionLabels, getSnapshotTitle } from '@/lib/revisions/snapshots'
+
+/**
+ * Page parameters
+ */
+interface PageParams {
+  params: Promise<{
+    locale: string
+    citySlug: string
+    id: string
+  }>
+}
+
+/**
+ * Description History Page component.
+ *
+ * @param params - Page parameters including locale, citySlug, and description ID
+ * @returns Promise resolving to JSX element containing the history page
+ */
+export default async function DescriptionHistoryPage({ params }: PageParams): Promise<React.JSX.Element> {
+  const { locale, citySlug, id } = await params
+
+  if (!id.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+    notFound()
+  }
+
+  const t = await getTranslations('revisions')
+
+  try {
+    const [revisions, languages, neighborhoods] = await Promise.all([
+      getRevisions(citySlug, 'description', id),
+      getLanguagesForDescription(citySlug, locale),
+      getNeighborhoodsForDescription(citySlug, locale),
+    ])
+
+    const labels = buildRevisionLabels([...languages, ...neighborhoods])
+    // The last revision of a deleted description is its delete
+    const exists = revisions[0]?.reason !== 'delete'
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Link
+            href={
+              exists
+                ? `/${locale}/operator/${citySlug}/descriptions/${id}`
+                : `/${locale}/operator/${citySlug}/descriptions`
+            }
+          >
+            <Button variant="outline" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{t('description.title')}</h1>
+            {revisions[0] && (
+              <p className="text-muted-foreground">
+                {getSnapshotTitle(revisions[0].snapshot, labels)}
+                {!exists && ` · ${t('deletedNotice')}`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              {t('versions')}
+            </CardTitle>
+            <CardDescription>{t('description.description')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RevisionHistory
+              citySlug={citySlug}
+              revisions={revisions}
+              labels={labels}
+              exists={exists}
+              editHref={`/${locale}/operator/${citySlug}/descriptions/${id}/translations`}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    )
+  } catch (error) {
+    console.error('Error loading description history page:', {
+      citySlug,
+      locale,
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Link href={`/${locale}/operator/${citySlug}/descriptions`}>
+            <Button variant="outline" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight">{t('description.title')}</h1>
+        </div>
+
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-800">
+          <p className="font-semibold">Failed to load page</p>
+          <p className="mt-1">{error instanceof Error ? error.message : 'An unknown error occurred'}</p>
+        </div>
+      </div>
+    )
+  }
+}
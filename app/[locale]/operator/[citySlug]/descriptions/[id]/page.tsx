@@ -9,7 +9,7 @@ import React from 'react'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
 import { Button } from '@/components/ui/button'
-import { ArrowLeft } from 'lucide-react'
+import { ArrowLeft, History } from 'lucide-react'
 import { DescriptionForm } from '@/components/descriptions/description-form'
 import {
   getDescription,
@@ -71,6 +71,12 @@ export default async function EditDescriptionPage({
               Update description metadata for {description.language_name}
             </p>
           </div>
+          <Link href={`/${locale}/operator/${citySlug}/descriptions/${id}/history`} className="ms-auto">
+            <Button variant="outline">
+              <History className="me-2 h-4 w-4" />
+              History
+            </Button>
+          </Link>
         </div>
 
         {/* Info Box */}
@@ -12,7 +12,7 @@
 import { notFound } from 'next/navigation'
 import { getTranslations } from 'next-intl/server'
 import Link from 'next/link'
-import { ArrowLeft, FileText } from 'lucide-react'
+import { ArrowLeft, FileText, History } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -127,7 +127,7 @@ export default async function DescriptionTranslationsPage({ params }: Descriptio
       <div className="flex items-center gap-4">
         <Link href={`/${locale}/operator/${citySlug}/descriptions`}>
           <Button variant="ghost" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             {tCommon('actions.back')}
           </Button>
         </Link>
@@ -146,6 +146,12 @@ export default async function DescriptionTranslationsPage({ params }: Descriptio
             </span>
           </div>
         </div>
+        <Link href={`/${locale}/operator/${citySlug}/descriptions/${descriptionId}/history`}>
+          <Button variant="outline">
+            <History className="me-2 h-4 w-4" />
+            {t('history')}
+          </Button>
+        </Link>
       </div>
 
       {/* Error Alert */}
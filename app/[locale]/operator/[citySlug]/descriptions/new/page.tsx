@@ -13,6 +13,7 @@ import {
   getLanguagesForDescription,
   getNeighborhoodsForDescription,
 } from '@/app/actions/descriptions'
+import { isAIEnabled } from '@/lib/ai'
 
 /**
  * Page parameters
@@ -71,6 +72,7 @@ export default async function CreateDescriptionPage({
             languages={languages}
             neighborhoods={neighborhoods}
             mode="create"
+            aiEnabled={isAIEnabled()}
           />
         </div>
       </div>
@@ -18,7 +18,10 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import { getDescriptions, deleteDescription } from '@/app/actions/descriptions'
+import { getDescriptions, deleteDescription, getLanguagesForDescription } from '@/app/actions/descriptions'
+import { getDeletedEntities } from '@/app/actions/revisions'
+import { DeletedEntityList } from '@/components/revisions/deleted-entity-list'
+import { buildRevisionLabels, getSnapshotTitle } from '@/lib/revisions/snapshots'
 import { Plus, FileText, Edit, Trash2, Languages } from 'lucide-react'
 
 /**
@@ -117,7 +120,7 @@ async function DescriptionsList({
           <div className="mt-6">
             <Link href={`/${locale}/operator/${citySlug}/descriptions/new`}>
               <Button>
-                <Plus className="mr-2 h-4 w-4" />
+                <Plus className="me-2 h-4 w-4" />
                 {t('form.create')}
               </Button>
             </Link>
@@ -135,7 +138,7 @@ async function DescriptionsList({
               <TableHead>{t('list.columns.neighborhood')}</TableHead>
               <TableHead>{t('list.columns.preview')}</TableHead>
               <TableHead>{t('list.columns.translations')}</TableHead>
-              <TableHead className="text-right">{t('list.columns.actions')}</TableHead>
+              <TableHead className="text-end">{t('list.columns.actions')}</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -149,10 +152,10 @@ async function DescriptionsList({
                 <TableRow key={description.id}>
                   <TableCell className="font-medium">
                     <div className="flex flex-col gap-1">
-                      <span>{description.language_name}</span>
+                      <bdi>{description.language_name}</bdi>
                       {description.language_endonym && (
                         <span className="text-sm text-muted-foreground">
-                          ({description.language_endonym})
+                          (<bdi>{description.language_endonym}</bdi>)
                         </span>
                       )}
                     </div>
@@ -191,7 +194,7 @@ async function DescriptionsList({
                       </span>
                     </div>
                   </TableCell>
-                  <TableCell className="text-right">
+                  <TableCell className="text-end">
                     <div className="flex items-center justify-end gap-2">
                       <Link
                         href={`/${locale}/operator/${citySlug}/descriptions/${description.id}/translations`}
@@ -242,6 +245,49 @@ async function DescriptionsList({
   }
 }
 
+/**
+ * Deleted descriptions component.
+ * Lists the descriptions deleted in the city, linking to their history.
+ * Renders nothing when none were deleted or they cannot be loaded.
+ *
+ * @param citySlug - The slug of the city
+ * @param locale - The current locale
+ * @returns Promise resolving to JSX element containing the deleted descriptions, or null
+ */
+async function DeletedDescriptions({
+  citySlug,
+  locale,
+}: {
+  citySlug: string
+  locale: string
+}) {
+  try {
+    const [deleted, languages] = await Promise.all([
+      getDeletedEntities(citySlug, 'description'),
+      getLanguagesForDescription(citySlug, locale),
+    ])
+    const labels = buildRevisionLabels(languages)
+
+    return (
+      <DeletedEntityList
+        items={deleted.map((entity) => ({
+          entityId: entity.entityId,
+          title: getSnapshotTitle(entity.snapshot, labels),
+          deletedAt: entity.deletedAt,
+          deletedByName: entity.deletedByName,
+        }))}
+        basePath={`/${locale}/operator/${citySlug}/descriptions`}
+      />
+    )
+  } catch (error) {
+    console.error('Error loading deleted descriptions:', {
+      citySlug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return null
+  }
+}
+
 /**
  * Descriptions Page component.
  * Main page component that displays the descriptions list with header and actions.
@@ -254,6 +300,8 @@ export default async function DescriptionsPage({
 }: PageParams): Promise<React.JSX.Element> {
   const { locale, citySlug } = await params
   const t = await getTranslations('descriptions')
+  const tTrash = await getTranslations('trash')
+  const tTranslations = await getTranslations('translationReview')
 
   return (
     <div className="space-y-6">
@@ -265,12 +313,26 @@ export default async function DescriptionsPage({
             {t('description')}
           </p>
         </div>
-        <Link href={`/${locale}/operator/${citySlug}/descriptions/new`}>
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            {t('list.addButton')}
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href={`/${locale}/operator/${citySlug}/translations`}>
+            <Button variant="outline">
+              <Languages className="me-2 h-4 w-4" />
+              {tTranslations('link')}
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/trash`}>
+            <Button variant="outline">
+              <Trash2 className="me-2 h-4 w-4" />
+              {tTrash('link')}
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/descriptions/new`}>
+            <Button>
+              <Plus className="me-2 h-4 w-4" />
+              {t('list.addButton')}
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Descriptions List */}
@@ -283,6 +345,11 @@ export default async function DescriptionsPage({
       >
         <DescriptionsList citySlug={citySlug} locale={locale} />
       </Suspense>
+
+      {/* Deleted Descriptions */}
+      <Suspense fallback={null}>
+        <DeletedDescriptions citySlug={citySlug} locale={locale} />
+      </Suspense>
     </div>
   )
 }
@@ -10,9 +10,12 @@ import Link from 'next/link'
 import { getDistrict, updateDistrict, deleteDistrict } from '@/app/actions/districts'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
 import DistrictForm from '@/components/districts/district-form'
+import { getCityLocaleOptions } from '@/lib/i18n/active-locales'
+import type { TranslationsInput } from '@/lib/validations/translations'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { ArrowLeft, Trash2 } from 'lucide-react'
+import type { MultiPolygon } from 'geojson'
 
 interface Props {
   params: {
@@ -71,6 +74,9 @@ export default async function EditDistrictPage({ params }: Props) {
     redirect(`/${locale}/operator`)
   }
 
+  // Get the locales the city is translated into
+  const cityLocales = await getCityLocaleOptions(supabase, city.id)
+
   // Get district
   const district = await getDistrict(citySlug, id)
 
@@ -91,12 +97,8 @@ export default async function EditDistrictPage({ params }: Props) {
     await updateDistrict(citySlug, id, {
       cityId: city.id,
       slug: data.slug as string,
-      name_en: data.name_en as string,
-      description_en: data.description_en as string | undefined,
-      name_nl: data.name_nl as string | undefined,
-      description_nl: data.description_nl as string | undefined,
-      name_fr: data.name_fr as string | undefined,
-      description_fr: data.description_fr as string | undefined,
+      translations: data.translations as TranslationsInput,
+      boundary: data.boundary as MultiPolygon | null | undefined,
     })
   }
 
@@ -113,7 +115,7 @@ export default async function EditDistrictPage({ params }: Props) {
       <div className="flex items-center gap-4">
         <Link href={`/${locale}/operator/${citySlug}/districts`}>
           <Button variant="ghost" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             Back to Districts
           </Button>
         </Link>
@@ -130,6 +132,7 @@ export default async function EditDistrictPage({ params }: Props) {
         cityId={city.id}
         citySlug={citySlug}
         locale={locale}
+        locales={cityLocales}
         initialData={district}
         onSubmit={handleSubmit}
         submitLabel="Update District"
@@ -147,7 +150,7 @@ export default async function EditDistrictPage({ params }: Props) {
         <CardContent>
           <form action={handleDelete}>
             <Button type="submit" variant="destructive">
-              <Trash2 className="mr-2 h-4 w-4" />
+              <Trash2 className="me-2 h-4 w-4" />
               Delete District
             </Button>
           </form>
@@ -10,8 +10,11 @@ import { redirect } from 'next/navigation'
 import Link from 'next/link'
 import { createDistrict } from '@/app/actions/districts'
 import DistrictForm from '@/components/districts/district-form'
+import { getCityLocaleOptions } from '@/lib/i18n/active-locales'
+import type { TranslationsInput } from '@/lib/validations/translations'
 import { Button } from '@/components/ui/button'
 import { ArrowLeft } from 'lucide-react'
+import type { MultiPolygon } from 'geojson'
 
 interface Props {
   params: {
@@ -69,18 +72,17 @@ export default async function NewDistrictPage({ params }: Props) {
     redirect(`/${locale}/operator`)
   }
 
+  // Get the locales the city is translated into
+  const cityLocales = await getCityLocaleOptions(supabase, city.id)
+
   const handleSubmit = async (data: Record<string, unknown>) => {
     'use server'
 
     await createDistrict(citySlug, {
       cityId: city.id,
       slug: data.slug as string,
-      name_en: data.name_en as string,
-      description_en: data.description_en as string | undefined,
-      name_nl: data.name_nl as string | undefined,
-      description_nl: data.description_nl as string | undefined,
-      name_fr: data.name_fr as string | undefined,
-      description_fr: data.description_fr as string | undefined,
+      translations: data.translations as TranslationsInput,
+      boundary: data.boundary as MultiPolygon | null | undefined,
     })
 
     redirect(`/${locale}/operator/${citySlug}/districts`)
@@ -92,7 +94,7 @@ export default async function NewDistrictPage({ params }: Props) {
       <div className="flex items-center gap-4">
         <Link href={`/${locale}/operator/${citySlug}/districts`}>
           <Button variant="ghost" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             Back to Districts
           </Button>
         </Link>
@@ -109,6 +111,7 @@ export default async function NewDistrictPage({ params }: Props) {
         cityId={city.id}
         citySlug={citySlug}
         locale={locale}
+        locales={cityLocales}
         onSubmit={handleSubmit}
         submitLabel="Create District"
       />
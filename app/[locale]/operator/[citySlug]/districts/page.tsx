@@ -11,7 +11,7 @@ import { getDistricts } from '@/app/actions/districts'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Plus, Edit, MapPin } from 'lucide-react'
+import { Plus, Edit, MapPin, Trash2 } from 'lucide-react'
 
 interface District {
   id: string
@@ -108,12 +108,20 @@ export default async function DistrictsPage({ params }: Props) {
             Manage districts for {cityTranslation?.name || citySlug}
           </p>
         </div>
-        <Link href={`/${locale}/operator/${citySlug}/districts/new`}>
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            Add District
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href={`/${locale}/operator/${citySlug}/trash`}>
+            <Button variant="outline">
+              <Trash2 className="me-2 h-4 w-4" />
+              Trash
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/districts/new`}>
+            <Button>
+              <Plus className="me-2 h-4 w-4" />
+              Add District
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Districts list */}
@@ -128,7 +136,7 @@ export default async function DistrictsPage({ params }: Props) {
           <CardContent>
             <Link href={`/${locale}/operator/${citySlug}/districts/new`}>
               <Button>
-                <Plus className="mr-2 h-4 w-4" />
+                <Plus className="me-2 h-4 w-4" />
                 Create District
               </Button>
             </Link>
@@ -163,7 +171,7 @@ export default async function DistrictsPage({ params }: Props) {
                     <div className="flex items-center gap-2">
                       <Link href={`/${locale}/operator/${citySlug}/districts/${district.id}`}>
                         <Button variant="outline" size="sm">
-                          <Edit className="mr-2 h-4 w-4" />
+                          <Edit className="me-2 h-4 w-4" />
                           Edit
                         </Button>
                       </Link>
@@ -0,0 +1,96 @@
+/**
+ * Import Page
+ *
+ * Bulk import of languages and language points from a spreadsheet.
+ */
+
+import Link from 'next/link'
+import { getTranslations } from 'next-intl/server'
+import { ChevronLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ImportWizard, type ImportTaxonomyType } from '@/components/import/import-wizard'
+import { getTaxonomyTypes } from '@/app/actions/taxonomy-types'
+import { getCityLocales } from '@/app/actions/locales'
+import { defaultLocale, localeNames, type LocaleOption } from '@/lib/i18n/config'
+
+/**
+ * Page parameters
+ */
+interface PageParams {
+  params: {
+    locale: string
+    citySlug: string
+  }
+}
+
+/**
+ * Import Page.
+ * Server component that loads the city's taxonomy types and locales for the mapping step.
+ *
+ * @param params - The page parameters containing locale and citySlug (Promise in Next.js 15+)
+ * @param params.params.locale - The current locale
+ * @param params.params.citySlug - The slug of the city
+ * @returns JSX element containing the import page
+ */
+export default async function ImportPage({ params }: PageParams) {
+  const { locale, citySlug } = await params
+  const t = await getTranslations('import')
+
+  let taxonomyTypes: ImportTaxonomyType[] = []
+  try {
+    taxonomyTypes = (await getTaxonomyTypes(citySlug)).map((type) => ({
+      slug: type.slug,
+      name:
+        type.translations.find((translation) => translation.locale_code === locale)?.name ??
+        type.translations[0]?.name ??
+        type.slug,
+    }))
+  } catch (error) {
+    console.error('Error loading taxonomy types for import:', {
+      citySlug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+
+  // Without the city's locales, only the required default-locale name can be mapped
+  let cityLocales: LocaleOption[] = [
+    { code: defaultLocale, name: localeNames[defaultLocale], nativeName: localeNames[defaultLocale] },
+  ]
+  try {
+    cityLocales = await getCityLocales(citySlug)
+  } catch (error) {
+    console.error('Error loading city locales for import:', {
+      citySlug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Back Button */}
+      <Link href={`/${locale}/operator/${citySlug}/languages`}>
+        <Button variant="ghost" size="sm">
+          <ChevronLeft className="me-2 h-4 w-4" />
+          {t('back')}
+        </Button>
+      </Link>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+        <p className="text-muted-foreground">{t('description')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('upload.title')}</CardTitle>
+          <CardDescription>{t('upload.description')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ImportWizard citySlug={citySlug} taxonomyTypes={taxonomyTypes} locales={cityLocales} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -19,6 +19,7 @@ import {
   CardTitle,
 } from '@/components/ui/card'
 import LanguageFamilyForm from '@/components/language-families/language-family-form'
+import { getActiveLocaleOptions } from '@/lib/i18n/active-locales'
 import { DeleteFamilyButton } from '@/components/language-families/delete-family-button'
 import {
   getLanguageFamily,
@@ -61,6 +62,8 @@ export default async function EditLanguageFamilyPage({
     notFound()
   }
 
+  const locales = await getActiveLocaleOptions()
+
   /**
    * Handle form submission for updating the language family
    *
@@ -109,7 +112,7 @@ export default async function EditLanguageFamilyPage({
         <div className="flex items-center gap-4">
           <Link href={`/${locale}/operator/${citySlug}/language-families`}>
             <Button variant="outline" size="sm">
-              <ChevronLeft className="h-4 w-4 mr-1" />
+              <ChevronLeft className="h-4 w-4 me-1" />
               {t('back')}
             </Button>
           </Link>
@@ -139,6 +142,7 @@ export default async function EditLanguageFamilyPage({
 
       {/* Form */}
       <LanguageFamilyForm
+        locales={locales}
         initialData={family}
         onSubmit={handleSubmit}
         submitLabel={t('updateButton')}
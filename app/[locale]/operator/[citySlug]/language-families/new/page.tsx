@@ -12,6 +12,7 @@ import Link from 'next/link'
 import { ChevronLeft } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import LanguageFamilyForm from '@/components/language-families/language-family-form'
+import { getActiveLocaleOptions } from '@/lib/i18n/active-locales'
 import { createLanguageFamily, type LanguageFamilyInput } from '@/app/actions/language-families'
 
 interface NewLanguageFamilyPageProps {
@@ -33,6 +34,7 @@ export default async function NewLanguageFamilyPage({
   const { locale, citySlug } = await params
   const t = await getTranslations('operator.languageFamilies.create.new')
   const tForm = await getTranslations('operator.languageFamilies.create.form.actions')
+  const locales = await getActiveLocaleOptions()
 
   /**
    * Handle form submission for creating a new language family
@@ -57,7 +59,7 @@ export default async function NewLanguageFamilyPage({
       <div className="flex items-center gap-4">
         <Link href={`/${locale}/operator/${citySlug}/language-families`}>
           <Button variant="outline" size="sm">
-            <ChevronLeft className="h-4 w-4 mr-1" />
+            <ChevronLeft className="h-4 w-4 me-1" />
             {t('back')}
           </Button>
         </Link>
@@ -69,6 +71,7 @@ export default async function NewLanguageFamilyPage({
 
       {/* Form */}
       <LanguageFamilyForm
+        locales={locales}
         onSubmit={handleSubmit}
         submitLabel={tForm('createButton')}
       />
@@ -74,7 +74,7 @@ export default async function LanguageFamiliesPage({
         </div>
         <Link href={`/${locale}/operator/${citySlug}/language-families/new`}>
           <Button>
-            <Plus className="mr-2 h-4 w-4" />
+            <Plus className="me-2 h-4 w-4" />
             {t('createButton')}
           </Button>
         </Link>
@@ -97,7 +97,7 @@ export default async function LanguageFamiliesPage({
             <p className="text-gray-500 text-center mb-4">{t('empty')}</p>
             <Link href={`/${locale}/operator/${citySlug}/language-families/new`}>
               <Button>
-                <Plus className="mr-2 h-4 w-4" />
+                <Plus className="me-2 h-4 w-4" />
                 {t('createFirst')}
               </Button>
             </Link>
@@ -14,6 +14,7 @@ import {
   getLanguagesForPoints,
   getNeighborhoodsForPoints,
 } from '@/app/actions/language-points'
+import { getPublicCityMapConfig } from '@/lib/map/city'
 
 /**
  * Page parameters
@@ -64,10 +65,11 @@ export default async function EditLanguagePointPage({ params }: PageParams) {
 
   try {
     // Fetch all necessary data in parallel
-    const [existingPoint, languages, neighborhoods] = await Promise.all([
+    const [existingPoint, languages, neighborhoods, cityMap] = await Promise.all([
       getLanguagePoint(citySlug, id),
       getLanguagesForPoints(citySlug, locale),
       getNeighborhoodsForPoints(citySlug, locale),
+      getPublicCityMapConfig(citySlug, locale),
     ])
 
     if (!existingPoint) {
@@ -79,7 +81,7 @@ export default async function EditLanguagePointPage({ params }: PageParams) {
         {/* Back Button */}
         <Link href={`/${locale}/operator/${citySlug}/language-points`}>
           <Button variant="ghost" size="sm">
-            <ChevronLeft className="mr-2 h-4 w-4" />
+            <ChevronLeft className="me-2 h-4 w-4" />
             Back to Language Points
           </Button>
         </Link>
@@ -112,6 +114,7 @@ export default async function EditLanguagePointPage({ params }: PageParams) {
               notes: existingPoint.notes,
             }}
             mode="edit"
+            cityMap={cityMap}
           />
         </div>
       </div>
@@ -12,6 +12,7 @@ import {
   getLanguagesForPoints,
   getNeighborhoodsForPoints,
 } from '@/app/actions/language-points'
+import { getPublicCityMapConfig } from '@/lib/map/city'
 
 /**
  * Page parameters
@@ -47,10 +48,11 @@ export default async function CreateLanguagePointPage({ params }: PageParams) {
   }
 
   try {
-    // Fetch languages and neighborhoods in parallel
-    const [languages, neighborhoods] = await Promise.all([
+    // Fetch languages, neighborhoods and the city map settings in parallel
+    const [languages, neighborhoods, cityMap] = await Promise.all([
       getLanguagesForPoints(citySlug, locale),
       getNeighborhoodsForPoints(citySlug, locale),
+      getPublicCityMapConfig(citySlug, locale),
     ])
 
     return (
@@ -58,7 +60,7 @@ export default async function CreateLanguagePointPage({ params }: PageParams) {
         {/* Back Button */}
         <Link href={`/${locale}/operator/${citySlug}/language-points`}>
           <Button variant="ghost" size="sm">
-            <ChevronLeft className="mr-2 h-4 w-4" />
+            <ChevronLeft className="me-2 h-4 w-4" />
             Back to Language Points
           </Button>
         </Link>
@@ -94,6 +96,7 @@ export default async function CreateLanguagePointPage({ params }: PageParams) {
               languages={languages}
               neighborhoods={neighborhoods}
               mode="create"
+              cityMap={cityMap}
             />
           )}
         </div>
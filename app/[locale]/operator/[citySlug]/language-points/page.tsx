@@ -17,7 +17,8 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { getLanguagePoints, deleteLanguagePoint } from '@/app/actions/language-points'
-import { Plus, MapPin, Edit, Trash2 } from 'lucide-react'
+import { ReassignNeighborhoodsButton } from '@/components/language-points/reassign-neighborhoods-button'
+import { Plus, MapPin, Edit, Trash2, Hash } from 'lucide-react'
 
 /**
  * Page parameters
@@ -109,7 +110,7 @@ async function LanguagePointsList({
           <div className="mt-6">
             <Link href={`/${locale}/operator/${citySlug}/language-points/new`}>
               <Button>
-                <Plus className="mr-2 h-4 w-4" />
+                <Plus className="me-2 h-4 w-4" />
                 Create Language Point
               </Button>
             </Link>
@@ -127,18 +128,20 @@ async function LanguagePointsList({
               <TableHead>Neighborhood</TableHead>
               <TableHead>Coordinates</TableHead>
               <TableHead>Community Name</TableHead>
-              <TableHead className="text-right">Actions</TableHead>
+              <TableHead className="text-end">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {points.map((point) => (
               <TableRow key={point.id}>
                 <TableCell className="font-medium">
-                  {point.language
-                    ? point.language.translations?.[0]?.name ||
-                      point.language.endonym ||
-                      'Unknown'
-                    : 'Unknown'}
+                  <bdi>
+                    {point.language
+                      ? point.language.translations?.[0]?.name ||
+                        point.language.endonym ||
+                        'Unknown'
+                      : 'Unknown'}
+                  </bdi>
                 </TableCell>
                 <TableCell>
                   {point.neighborhood
@@ -149,7 +152,7 @@ async function LanguagePointsList({
                   {point.latitude.toFixed(6)}, {point.longitude.toFixed(6)}
                 </TableCell>
                 <TableCell>{point.community_name || '-'}</TableCell>
-                <TableCell className="text-right">
+                <TableCell className="text-end">
                   <div className="flex justify-end gap-2">
                     <Link
                       href={`/${locale}/operator/${citySlug}/language-points/${point.id}`}
@@ -219,12 +222,27 @@ export default async function LanguagePointsPage({ params }: PageParams) {
             Manage geographic locations where languages are spoken
           </p>
         </div>
-        <Link href={`/${locale}/operator/${citySlug}/language-points/new`}>
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Language Point
-          </Button>
-        </Link>
+        <div className="flex items-start gap-2">
+          <ReassignNeighborhoodsButton citySlug={citySlug} />
+          <Link href={`/${locale}/operator/${citySlug}/trash`}>
+            <Button variant="outline">
+              <Trash2 className="me-2 h-4 w-4" />
+              Trash
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/postal-codes`}>
+            <Button variant="outline">
+              <Hash className="me-2 h-4 w-4" />
+              Postal Codes
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/language-points/new`}>
+            <Button>
+              <Plus className="me-2 h-4 w-4" />
+              Add Language Point
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Language Points List */}
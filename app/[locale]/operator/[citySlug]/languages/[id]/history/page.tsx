@@ -0,0 +1,141 @@
+/**
+ * Language History Page
+ * =====================
+ * Saved versions of a language, with the changes between them and restore.
+ * Also reachable for deleted languages, from the languages list.
+ *
+ * @module app/[locale]/operator/[citySlug]/languages/[id]/history/page
+ */
+
+import { notFound } from 'next/navigation'
+import { getTranslations } from 'next-intl/server'
+import Link from 'next/link'
+import { ArrowLeft, History } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { RevisionHistory } from '@/components/revisions/revision-history'
+import { getRevisions, type Revision } from '@/app/actions/revisions'
+import {
+  getCountriesForSelect,
+  getLanguageFamiliesForSelect,
+  getTaxonomyValuesForSelect,
+} from '@/app/actions/languages'
+import { buildRevisionLabels, getSnapshotTitle, type RevisionLabels } from '@/lib/revisions/snapshots'
+
+/**
+ * Props interface for the Language History Page component
+ */
+interface LanguageHistoryPageProps {
+  params: Promise<{
+    locale: string
+    citySlug: string
+    id: string
+  }>
+}
+
+/**
+ * Language History Page Component
+ *
+ * Authentication & Authorization:
+ * - Protected by parent layout (app/[locale]/operator/layout.tsx)
+ * - Revisions are limited to the user's cities by RLS
+ *
+ * @param props - Page props containing route parameters
+ * @returns Language history page
+ */
+export default async function LanguageHistoryPage({ params }: LanguageHistoryPageProps) {
+  const { locale, citySlug, id } = await params
+
+  if (!citySlug.match(/^[a-z0-9-]+$/)) {
+    console.error('[Language History Page] Invalid citySlug format:', citySlug)
+    return notFound()
+  }
+
+  if (!id.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+    console.error('[Language History Page] Invalid language ID format:', id)
+    return notFound()
+  }
+
+  const t = await getTranslations('revisions')
+  const tCommon = await getTranslations('common')
+
+  let revisions: Revision[] = []
+  let labels: RevisionLabels = {}
+  let error: string | null = null
+
+  try {
+    const [languageRevisions, families, countries, taxonomyTypes] = await Promise.all([
+      getRevisions(citySlug, 'language', id),
+      getLanguageFamiliesForSelect(citySlug, locale),
+      getCountriesForSelect(citySlug, locale),
+      getTaxonomyValuesForSelect(citySlug, locale),
+    ])
+
+    revisions = languageRevisions
+    labels = buildRevisionLabels([
+      ...families,
+      ...countries,
+      ...taxonomyTypes.flatMap((type) => type.values ?? []),
+    ])
+  } catch (err) {
+    console.error('[Language History Page] Error fetching revisions:', err instanceof Error ? err.message : err)
+    error = err instanceof Error ? err.message : 'Unknown error'
+  }
+
+  // The last revision of a deleted language is its delete
+  const exists = revisions[0]?.reason !== 'delete'
+  const backHref = exists
+    ? `/${locale}/operator/${citySlug}/languages/${id}`
+    : `/${locale}/operator/${citySlug}/languages`
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href={backHref}>
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="me-2 h-4 w-4" />
+            {tCommon('actions.back')}
+          </Button>
+        </Link>
+      </div>
+
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight">{t('language.title')}</h1>
+        {revisions[0] && (
+          <p className="text-muted-foreground">
+            {getSnapshotTitle(revisions[0].snapshot, labels)}
+            {!exists && ` · ${t('deletedNotice')}`}
+          </p>
+        )}
+      </div>
+
+      {error ? (
+        <Card className="border-destructive/50 bg-destructive/10">
+          <CardHeader>
+            <CardTitle className="text-destructive">{tCommon('error')}</CardTitle>
+            <CardDescription className="text-destructive/80">{error}</CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              {t('versions')}
+            </CardTitle>
+            <CardDescription>{t('language.description')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RevisionHistory
+              citySlug={citySlug}
+              revisions={revisions}
+              labels={labels}
+              exists={exists}
+              editHref={`/${locale}/operator/${citySlug}/languages/${id}`}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
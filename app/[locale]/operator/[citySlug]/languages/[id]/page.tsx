@@ -9,7 +9,7 @@
 import { notFound } from 'next/navigation'
 import { getTranslations } from 'next-intl/server'
 import Link from 'next/link'
-import { ChevronLeft, Languages as LanguagesIcon } from 'lucide-react'
+import { ChevronLeft, History, Languages as LanguagesIcon } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -27,6 +27,8 @@ import {
   getTaxonomyValuesForSelect,
   deleteLanguage,
 } from '@/app/actions/languages'
+import { getCityLocales } from '@/app/actions/locales'
+import { isolateBidi } from '@/lib/i18n/config'
 
 /**
  * Page props
@@ -81,14 +83,16 @@ export default async function EditLanguagePage({ params }: EditLanguagePageProps
   let languageFamilies: Awaited<ReturnType<typeof getLanguageFamiliesForSelect>> = []
   let countries: Awaited<ReturnType<typeof getCountriesForSelect>> = []
   let taxonomyTypes: Awaited<ReturnType<typeof getTaxonomyValuesForSelect>> = []
+  let cityLocales: Awaited<ReturnType<typeof getCityLocales>> = []
   let error: string | null = null
 
   try {
-    ;[language, languageFamilies, countries, taxonomyTypes] = await Promise.all([
+    ;[language, languageFamilies, countries, taxonomyTypes, cityLocales] = await Promise.all([
       getLanguage(citySlug, id),
       getLanguageFamiliesForSelect(citySlug, locale),
       getCountriesForSelect(citySlug, locale),
       getTaxonomyValuesForSelect(citySlug, locale),
+      getCityLocales(citySlug),
     ])
   } catch (err) {
     // ===== CRITICAL FIX 2: Secure Error Logging =====
@@ -112,7 +116,7 @@ export default async function EditLanguagePage({ params }: EditLanguagePageProps
         <div>
           <Link href={`/${locale}/operator/${citySlug}/languages`}>
             <Button variant="ghost" size="sm">
-              <ChevronLeft className="mr-2 h-4 w-4" />
+              <ChevronLeft className="me-2 h-4 w-4" />
               {t('actions.back')}
             </Button>
           </Link>
@@ -149,7 +153,7 @@ export default async function EditLanguagePage({ params }: EditLanguagePageProps
       <div>
         <Link href={`/${locale}/operator/${citySlug}/languages`}>
           <Button variant="ghost" size="sm">
-            <ChevronLeft className="mr-2 h-4 w-4" />
+            <ChevronLeft className="me-2 h-4 w-4" />
             {t('actions.back')}
           </Button>
         </Link>
@@ -160,16 +164,24 @@ export default async function EditLanguagePage({ params }: EditLanguagePageProps
         <div>
           <h1 className="text-3xl font-bold tracking-tight">{t('edit.title')}</h1>
           <p className="text-muted-foreground mt-1">
-            {t('edit.description', { name: language.endonym })}
+            {t('edit.description', { name: isolateBidi(language.endonym ?? '') })}
           </p>
         </div>
-        {/* Delete Button with Confirmation */}
-        <DeleteLanguageButtonClient
-          languageId={language.id}
-          languageName={language.endonym || 'Unknown Language'}
-          citySlug={citySlug}
-          locale={locale}
-        />
+        <div className="flex items-center gap-2">
+          <Link href={`/${locale}/operator/${citySlug}/languages/${id}/history`}>
+            <Button variant="outline">
+              <History className="me-2 h-4 w-4" />
+              {t('actions.history')}
+            </Button>
+          </Link>
+          {/* Delete Button with Confirmation */}
+          <DeleteLanguageButtonClient
+            languageId={language.id}
+            languageName={language.endonym || 'Unknown Language'}
+            citySlug={citySlug}
+            locale={locale}
+          />
+        </div>
       </div>
 
       {/* Translations Management Card */}
@@ -189,7 +201,7 @@ export default async function EditLanguagePage({ params }: EditLanguagePageProps
             </div>
             <Link href={`/${locale}/operator/${citySlug}/languages/${id}/translations`}>
               <Button variant="outline" className="bg-white">
-                <LanguagesIcon className="mr-2 h-4 w-4" />
+                <LanguagesIcon className="me-2 h-4 w-4" />
                 {t('translations.manageButton', { defaultValue: 'Manage Translations' })}
               </Button>
             </Link>
@@ -202,6 +214,7 @@ export default async function EditLanguagePage({ params }: EditLanguagePageProps
         <LanguageForm
           citySlug={citySlug}
           locale={locale}
+          locales={cityLocales}
           languageFamilies={languageFamilies}
           countries={countries}
           taxonomyTypes={taxonomyTypes}
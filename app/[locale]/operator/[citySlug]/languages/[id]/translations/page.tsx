@@ -128,7 +128,7 @@ export default async function LanguageTranslationsPage({ params }: LanguageTrans
       <div className="flex items-center gap-4">
         <Link href={`/${locale}/operator/${citySlug}/languages`}>
           <Button variant="ghost" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             {tCommon('actions.back')}
           </Button>
         </Link>
@@ -141,7 +141,7 @@ export default async function LanguageTranslationsPage({ params }: LanguageTrans
           </h1>
           <div className="flex items-center gap-2 text-muted-foreground">
             <LanguagesIcon className="h-4 w-4" />
-            <span className="font-medium">{language.endonym}</span>
+            <bdi className="font-medium">{language.endonym}</bdi>
           </div>
         </div>
       </div>
@@ -47,7 +47,7 @@ export default function LanguagesError({ error, reset }: ErrorProps) {
       {/* Back Button */}
       <Link href="../">
         <Button variant="ghost" size="sm">
-          <ChevronLeft className="mr-2 h-4 w-4" />
+          <ChevronLeft className="me-2 h-4 w-4" />
           {t('actions.back')}
         </Button>
       </Link>
@@ -73,7 +73,7 @@ export default function LanguagesError({ error, reset }: ErrorProps) {
 
           <div className="flex gap-2">
             <Button onClick={reset} variant="outline" size="sm">
-              <RefreshCcw className="mr-2 h-4 w-4" />
+              <RefreshCcw className="me-2 h-4 w-4" />
               {t('error.tryAgain') || 'Try Again'}
             </Button>
             <Link href="../">
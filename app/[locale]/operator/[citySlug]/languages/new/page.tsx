@@ -17,6 +17,7 @@ import {
   getCountriesForSelect,
   getTaxonomyValuesForSelect,
 } from '@/app/actions/languages'
+import { getCityLocales } from '@/app/actions/locales'
 
 /**
  * Page props
@@ -42,13 +43,15 @@ export default async function NewLanguagePage({ params }: NewLanguagePageProps)
   let languageFamilies: Awaited<ReturnType<typeof getLanguageFamiliesForSelect>> = []
   let countries: Awaited<ReturnType<typeof getCountriesForSelect>> = []
   let taxonomyTypes: Awaited<ReturnType<typeof getTaxonomyValuesForSelect>> = []
+  let cityLocales: Awaited<ReturnType<typeof getCityLocales>> = []
   let error: string | null = null
 
   try {
-    [languageFamilies, countries, taxonomyTypes] = await Promise.all([
+    [languageFamilies, countries, taxonomyTypes, cityLocales] = await Promise.all([
       getLanguageFamiliesForSelect(citySlug, locale),
       getCountriesForSelect(citySlug, locale),
       getTaxonomyValuesForSelect(citySlug, locale),
+      getCityLocales(citySlug),
     ])
   } catch (err) {
     console.error('Error fetching reference data:', err)
@@ -61,7 +64,7 @@ export default async function NewLanguagePage({ params }: NewLanguagePageProps)
         <div>
           <Link href={`/${locale}/operator/${citySlug}/languages`}>
             <Button variant="ghost" size="sm">
-              <ChevronLeft className="mr-2 h-4 w-4" />
+              <ChevronLeft className="me-2 h-4 w-4" />
               {t('actions.back')}
             </Button>
           </Link>
@@ -80,7 +83,7 @@ export default async function NewLanguagePage({ params }: NewLanguagePageProps)
       <div>
         <Link href={`/${locale}/operator/${citySlug}/languages`}>
           <Button variant="ghost" size="sm">
-            <ChevronLeft className="mr-2 h-4 w-4" />
+            <ChevronLeft className="me-2 h-4 w-4" />
             {t('actions.back')}
           </Button>
         </Link>
@@ -97,6 +100,7 @@ export default async function NewLanguagePage({ params }: NewLanguagePageProps)
         <LanguageForm
           citySlug={citySlug}
           locale={locale}
+          locales={cityLocales}
           languageFamilies={languageFamilies}
           countries={countries}
           taxonomyTypes={taxonomyTypes}
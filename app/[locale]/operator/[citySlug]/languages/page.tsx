@@ -9,7 +9,7 @@
 import { notFound } from 'next/navigation'
 import { getTranslations } from 'next-intl/server'
 import Link from 'next/link'
-import { Plus, Edit } from 'lucide-react'
+import { Plus, Edit, FileUp, Trash2, Languages } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -28,6 +28,9 @@ import {
 } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
 import { getLanguages } from '@/app/actions/languages'
+import { getDeletedEntities } from '@/app/actions/revisions'
+import { DeletedEntityList, type DeletedEntityItem } from '@/components/revisions/deleted-entity-list'
+import { getSnapshotTitle } from '@/lib/revisions/snapshots'
 
 /**
  * Language structure returned by getLanguages server action
@@ -139,6 +142,8 @@ export default async function LanguagesPage({ params }: LanguagesPageProps) {
 
   const t = await getTranslations('languages')
   const tCommon = await getTranslations('common')
+  const tTrash = await getTranslations('trash')
+  const tTranslations = await getTranslations('translationReview')
 
   // CRITICAL FIX 2: Type Safety - Explicit type definition
   // Fetch all languages for this city
@@ -152,6 +157,20 @@ export default async function LanguagesPage({ params }: LanguagesPageProps) {
     error = err instanceof Error ? err.message : 'Unknown error'
   }
 
+  // A missing history must not hide the languages themselves
+  let deletedLanguages: DeletedEntityItem[] = []
+
+  try {
+    deletedLanguages = (await getDeletedEntities(citySlug, 'language')).map((entity) => ({
+      entityId: entity.entityId,
+      title: getSnapshotTitle(entity.snapshot),
+      deletedAt: entity.deletedAt,
+      deletedByName: entity.deletedByName,
+    }))
+  } catch (err) {
+    console.error('Error fetching deleted languages:', err)
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -160,12 +179,32 @@ export default async function LanguagesPage({ params }: LanguagesPageProps) {
           <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
           <p className="text-muted-foreground mt-1">{t('description')}</p>
         </div>
-        <Link href={`/${locale}/operator/${citySlug}/languages/new`}>
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            {t('actions.create')}
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href={`/${locale}/operator/${citySlug}/translations`}>
+            <Button variant="outline">
+              <Languages className="me-2 h-4 w-4" />
+              {tTranslations('link')}
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/trash`}>
+            <Button variant="outline">
+              <Trash2 className="me-2 h-4 w-4" />
+              {tTrash('link')}
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/import`}>
+            <Button variant="outline">
+              <FileUp className="me-2 h-4 w-4" />
+              {t('actions.import')}
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/languages/new`}>
+            <Button>
+              <Plus className="me-2 h-4 w-4" />
+              {t('actions.create')}
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Error Alert */}
@@ -185,7 +224,7 @@ export default async function LanguagesPage({ params }: LanguagesPageProps) {
             <p className="text-muted-foreground text-center mb-4">{t('list.empty')}</p>
             <Link href={`/${locale}/operator/${citySlug}/languages/new`}>
               <Button>
-                <Plus className="mr-2 h-4 w-4" />
+                <Plus className="me-2 h-4 w-4" />
                 {t('actions.createFirst')}
               </Button>
             </Link>
@@ -209,7 +248,7 @@ export default async function LanguagesPage({ params }: LanguagesPageProps) {
                   <TableHead>{t('list.columns.name')}</TableHead>
                   <TableHead>{t('list.columns.family')}</TableHead>
                   <TableHead>{t('list.columns.taxonomies')}</TableHead>
-                  <TableHead className="text-right">{t('list.columns.actions')}</TableHead>
+                  <TableHead className="text-end">{t('list.columns.actions')}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -226,9 +265,9 @@ export default async function LanguagesPage({ params }: LanguagesPageProps) {
                   return (
                     <TableRow key={language.id}>
                       <TableCell className="font-medium">
-                        {language.endonym || '-'}
+                        <bdi>{language.endonym || '-'}</bdi>
                         {language.iso_639_3_code && (
-                          <span className="ml-2 text-xs text-muted-foreground">
+                          <span className="ms-2 text-xs text-muted-foreground">
                             [{language.iso_639_3_code}]
                           </span>
                         )}
@@ -271,7 +310,7 @@ export default async function LanguagesPage({ params }: LanguagesPageProps) {
                           )}
                         </div>
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-end">
                         <div className="flex items-center justify-end gap-2">
                           <Link
                             href={`/${locale}/operator/${citySlug}/languages/${language.id}`}
@@ -291,6 +330,8 @@ export default async function LanguagesPage({ params }: LanguagesPageProps) {
         </Card>
       )}
 
+      <DeletedEntityList items={deletedLanguages} basePath={`/${locale}/operator/${citySlug}/languages`} />
+
       {/* Help Card */}
       <Card className="bg-blue-50 border-blue-200">
         <CardHeader>
@@ -10,8 +10,12 @@ import { redirect } from 'next/navigation'
 import Link from 'next/link'
 import { getDistrictsForNeighborhood, createNeighborhood } from '@/app/actions/neighborhoods'
 import NeighborhoodForm from '@/components/neighborhoods/neighborhood-form'
+import { getCityLocaleOptions } from '@/lib/i18n/active-locales'
+import type { TranslationsInput } from '@/lib/validations/translations'
 import { Button } from '@/components/ui/button'
 import { ArrowLeft } from 'lucide-react'
+import type { MultiPolygon } from 'geojson'
+import { findTranslation } from '@/lib/i18n/config'
 
 interface Props {
   params: {
@@ -42,9 +46,8 @@ export default async function NewNeighborhoodPage({ params }: Props) {
   // Get city info
   const { data: city } = await supabase
     .from('cities')
-    .select('id, slug, city_translations!inner(name, locale_code)')
+    .select('id, slug, city_translations(name, locale_code)')
     .eq('slug', citySlug)
-    .eq('city_translations.locale_code', locale)
     .single()
 
   if (!city) {
@@ -70,6 +73,9 @@ export default async function NewNeighborhoodPage({ params }: Props) {
     redirect(`/${locale}/operator`)
   }
 
+  // Get the locales the city is translated into
+  const cityLocales = await getCityLocaleOptions(supabase, city.id)
+
   // Get districts for dropdown
   const districts = await getDistrictsForNeighborhood(citySlug)
 
@@ -79,14 +85,14 @@ export default async function NewNeighborhoodPage({ params }: Props) {
         <div className="flex items-center gap-4">
           <Link href={`/${locale}/operator/${citySlug}/neighborhoods`}>
             <Button variant="ghost" size="sm">
-              <ArrowLeft className="mr-2 h-4 w-4" />
+              <ArrowLeft className="me-2 h-4 w-4" />
               Back to Neighborhoods
             </Button>
           </Link>
           <div className="flex-1">
             <h1 className="text-3xl font-bold">Create Neighborhood</h1>
             <p className="mt-2 text-sm text-gray-600">
-              Create neighborhood for {city.city_translations[0]?.name}
+              Create neighborhood for {findTranslation(city.city_translations, locale)?.name}
             </p>
           </div>
         </div>
@@ -114,12 +120,8 @@ export default async function NewNeighborhoodPage({ params }: Props) {
       cityId: city.id,
       districtId: data.districtId as string,
       slug: data.slug as string,
-      name_en: data.name_en as string,
-      description_en: data.description_en as string | undefined,
-      name_nl: data.name_nl as string | undefined,
-      description_nl: data.description_nl as string | undefined,
-      name_fr: data.name_fr as string | undefined,
-      description_fr: data.description_fr as string | undefined,
+      translations: data.translations as TranslationsInput,
+      boundary: data.boundary as MultiPolygon | null | undefined,
     })
 
     redirect(`/${locale}/operator/${citySlug}/neighborhoods`)
@@ -131,14 +133,14 @@ export default async function NewNeighborhoodPage({ params }: Props) {
       <div className="flex items-center gap-4">
         <Link href={`/${locale}/operator/${citySlug}/neighborhoods`}>
           <Button variant="ghost" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             Back to Neighborhoods
           </Button>
         </Link>
         <div className="flex-1">
           <h1 className="text-3xl font-bold">Create Neighborhood</h1>
           <p className="mt-2 text-sm text-gray-600">
-            Add a new neighborhood to {city.city_translations[0]?.name}
+            Add a new neighborhood to {findTranslation(city.city_translations, locale)?.name}
           </p>
         </div>
       </div>
@@ -148,6 +150,7 @@ export default async function NewNeighborhoodPage({ params }: Props) {
         cityId={city.id}
         citySlug={citySlug}
         locale={locale}
+        locales={cityLocales}
         districts={districts}
         onSubmit={handleSubmit}
         submitLabel="Create Neighborhood"
@@ -11,7 +11,7 @@ import { getNeighborhoods } from '@/app/actions/neighborhoods'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Plus, Edit, MapPin, Home } from 'lucide-react'
+import { Plus, Edit, MapPin, Home, Trash2 } from 'lucide-react'
 
 interface Neighborhood {
   id: string
@@ -101,12 +101,20 @@ export default async function NeighborhoodsPage({ params }: Props) {
             Manage neighborhoods for {cityTranslation?.name || citySlug}
           </p>
         </div>
-        <Link href={`/${locale}/operator/${citySlug}/neighborhoods/new`}>
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Neighborhood
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href={`/${locale}/operator/${citySlug}/trash`}>
+            <Button variant="outline">
+              <Trash2 className="me-2 h-4 w-4" />
+              Trash
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/neighborhoods/new`}>
+            <Button>
+              <Plus className="me-2 h-4 w-4" />
+              Add Neighborhood
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Neighborhoods list */}
@@ -121,7 +129,7 @@ export default async function NeighborhoodsPage({ params }: Props) {
           <CardContent>
             <Link href={`/${locale}/operator/${citySlug}/neighborhoods/new`}>
               <Button>
-                <Plus className="mr-2 h-4 w-4" />
+                <Plus className="me-2 h-4 w-4" />
                 Create Neighborhood
               </Button>
             </Link>
@@ -161,7 +169,7 @@ export default async function NeighborhoodsPage({ params }: Props) {
                     <div className="flex items-center gap-2">
                       <Link href={`/${locale}/operator/${citySlug}/neighborhoods/${neighborhood.id}`}>
                         <Button variant="outline" size="sm">
-                          <Edit className="mr-2 h-4 w-4" />
+                          <Edit className="me-2 h-4 w-4" />
                           Edit
                         </Button>
                       </Link>
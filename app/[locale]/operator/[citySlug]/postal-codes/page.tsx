@@ -0,0 +1,78 @@
+/**
+ * Postal Codes Page
+ *
+ * Shows how many postal code centroids the offline geocoder knows for a
+ * city and lets operators replace them with a CSV upload.
+ */
+
+import Link from 'next/link'
+import { getTranslations } from 'next-intl/server'
+import { ChevronLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { PostalCodeUpload } from '@/components/postal-codes/postal-code-upload'
+import { getPostalCodeCentroidCount } from '@/app/actions/geocoding'
+
+/**
+ * Page parameters
+ */
+interface PageParams {
+  params: {
+    locale: string
+    citySlug: string
+  }
+}
+
+/**
+ * Postal Codes Page.
+ * Server component that renders the centroid count and the upload form.
+ *
+ * @param params - The page parameters containing locale and citySlug (Promise in Next.js 15+)
+ * @param params.params.locale - The current locale
+ * @param params.params.citySlug - The slug of the city
+ * @returns JSX element containing the postal codes page
+ */
+export default async function PostalCodesPage({ params }: PageParams) {
+  const { locale, citySlug } = await params
+  const t = await getTranslations('postalCodes')
+
+  let count: number | null = null
+  try {
+    count = await getPostalCodeCentroidCount(citySlug)
+  } catch (error) {
+    console.error('Error loading postal codes:', {
+      citySlug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Back Button */}
+      <Link href={`/${locale}/operator/${citySlug}/language-points`}>
+        <Button variant="ghost" size="sm">
+          <ChevronLeft className="me-2 h-4 w-4" />
+          {t('back')}
+        </Button>
+      </Link>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+        <p className="text-muted-foreground">{t('description')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('upload.title')}</CardTitle>
+          <CardDescription>
+            {count === null ? t('loadError') : t('count', { count })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PostalCodeUpload citySlug={citySlug} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
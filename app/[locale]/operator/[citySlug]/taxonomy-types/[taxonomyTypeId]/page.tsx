@@ -17,10 +17,13 @@ import { redirect } from 'next/navigation'
 import Link from 'next/link'
 import { getTaxonomyType, updateTaxonomyType, deleteTaxonomyType } from '@/app/actions/taxonomy-types'
 import TaxonomyTypeForm from '@/components/taxonomy-types/taxonomy-type-form'
+import { getCityLocaleOptions } from '@/lib/i18n/active-locales'
+import type { TranslationsInput } from '@/lib/validations/translations'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { ArrowLeft, Trash2 } from 'lucide-react'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { findTranslation } from '@/lib/i18n/config'
 
 interface Props {
   params: {
@@ -52,9 +55,8 @@ export default async function EditTaxonomyTypePage({ params }: Props) {
   // Get city info
   const { data: city } = await supabase
     .from('cities')
-    .select('id, slug, city_translations!inner(name, locale_code)')
+    .select('id, slug, city_translations(name, locale_code)')
     .eq('slug', citySlug)
-    .eq('city_translations.locale_code', locale)
     .single()
 
   if (!city) {
@@ -80,6 +82,9 @@ export default async function EditTaxonomyTypePage({ params }: Props) {
     redirect(`/${locale}/operator`)
   }
 
+  // Get the locales the city is translated into
+  const cityLocales = await getCityLocaleOptions(supabase, city.id)
+
   // Get taxonomy type
   const taxonomyType = await getTaxonomyType(citySlug, taxonomyTypeId)
 
@@ -105,12 +110,7 @@ export default async function EditTaxonomyTypePage({ params }: Props) {
       useForMapStyling: Boolean(data.useForMapStyling),
       useForFiltering: Boolean(data.useForFiltering),
       displayOrder: Number(data.displayOrder) || 0,
-      name_en: String(data.name_en),
-      description_en: data.description_en ? String(data.description_en) : undefined,
-      name_nl: data.name_nl ? String(data.name_nl) : undefined,
-      description_nl: data.description_nl ? String(data.description_nl) : undefined,
-      name_fr: data.name_fr ? String(data.name_fr) : undefined,
-      description_fr: data.description_fr ? String(data.description_fr) : undefined,
+      translations: data.translations as TranslationsInput,
     })
   }
 
@@ -120,14 +120,14 @@ export default async function EditTaxonomyTypePage({ params }: Props) {
       <div className="flex items-center gap-4">
         <Link href={`/${locale}/operator/${citySlug}/taxonomy-types`}>
           <Button variant="ghost" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             Back to Taxonomy Types
           </Button>
         </Link>
         <div className="flex-1">
           <h1 className="text-3xl font-bold">Edit Taxonomy Type</h1>
           <p className="mt-2 text-sm text-gray-600">
-            Update taxonomy type for {city.city_translations[0]?.name}
+            Update taxonomy type for {findTranslation(city.city_translations, locale)?.name}
           </p>
         </div>
       </div>
@@ -137,6 +137,7 @@ export default async function EditTaxonomyTypePage({ params }: Props) {
         cityId={city.id}
         citySlug={citySlug}
         locale={locale}
+        locales={cityLocales}
         initialData={taxonomyType}
         onSubmit={handleSubmit}
         submitLabel="Update Taxonomy Type"
@@ -161,7 +162,7 @@ export default async function EditTaxonomyTypePage({ params }: Props) {
               type="submit"
               variant="destructive"
             >
-              <Trash2 className="mr-2 h-4 w-4" />
+              <Trash2 className="me-2 h-4 w-4" />
               Delete Taxonomy Type
             </Button>
           </form>
@@ -16,6 +16,7 @@
 import { notFound } from 'next/navigation'
 import { getLocale } from 'next-intl/server'
 import { getTaxonomyValue, getTaxonomyTypeForValues } from '@/app/actions/taxonomy-values'
+import { getCityLocales } from '@/app/actions/locales'
 import TaxonomyValueForm from '@/components/taxonomy-values/taxonomy-value-form'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
@@ -34,10 +35,11 @@ export default async function EditTaxonomyValuePage({
   const { citySlug, taxonomyTypeId, valueId } = await params
   const currentLocale = await getLocale()
 
-  // Fetch taxonomy value and type in parallel
-  const [taxonomyValue, taxonomyType] = await Promise.all([
+  // Fetch taxonomy value, type and the locales of the city in parallel
+  const [taxonomyValue, taxonomyType, cityLocales] = await Promise.all([
     getTaxonomyValue(citySlug, valueId),
     getTaxonomyTypeForValues(citySlug, taxonomyTypeId),
+    getCityLocales(citySlug),
   ])
 
   if (!taxonomyValue || !taxonomyType) {
@@ -77,7 +79,7 @@ export default async function EditTaxonomyValuePage({
       <div className="mb-6">
         <Link href={`/${currentLocale}/operator/${citySlug}/taxonomy-types/${taxonomyTypeId}/values`}>
           <Button variant="ghost" className="mb-4">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             Back to Taxonomy Values
           </Button>
         </Link>
@@ -97,6 +99,7 @@ export default async function EditTaxonomyValuePage({
         taxonomyValueId={valueId}
         locale={currentLocale}
         citySlug={citySlug}
+        locales={cityLocales}
         initialData={initialData}
       />
     </div>
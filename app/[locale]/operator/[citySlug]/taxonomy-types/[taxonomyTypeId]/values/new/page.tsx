@@ -15,6 +15,7 @@
 import { notFound } from 'next/navigation'
 import { getLocale } from 'next-intl/server'
 import { getTaxonomyTypeForValues } from '@/app/actions/taxonomy-values'
+import { getCityLocales } from '@/app/actions/locales'
 import TaxonomyValueForm from '@/components/taxonomy-values/taxonomy-value-form'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
@@ -32,8 +33,11 @@ export default async function NewTaxonomyValuePage({
   const { citySlug, taxonomyTypeId } = await params
   const currentLocale = await getLocale()
 
-  // Fetch taxonomy type to verify it exists
-  const taxonomyType = await getTaxonomyTypeForValues(citySlug, taxonomyTypeId)
+  // Fetch taxonomy type to verify it exists, and the locales of the city
+  const [taxonomyType, cityLocales] = await Promise.all([
+    getTaxonomyTypeForValues(citySlug, taxonomyTypeId),
+    getCityLocales(citySlug),
+  ])
 
   if (!taxonomyType) {
     notFound()
@@ -49,7 +53,7 @@ export default async function NewTaxonomyValuePage({
       <div className="mb-6">
         <Link href={`/${currentLocale}/operator/${citySlug}/taxonomy-types/${taxonomyTypeId}/values`}>
           <Button variant="ghost" className="mb-4">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             Back to Taxonomy Values
           </Button>
         </Link>
@@ -68,6 +72,7 @@ export default async function NewTaxonomyValuePage({
         taxonomyTypeId={taxonomyTypeId}
         locale={currentLocale}
         citySlug={citySlug}
+        locales={cityLocales}
       />
     </div>
   )
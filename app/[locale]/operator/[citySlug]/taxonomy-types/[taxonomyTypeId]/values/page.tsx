@@ -53,7 +53,7 @@ export default async function TaxonomyValuesPage({ params }: Props) {
       <div className="mb-6">
         <Link href={`/${currentLocale}/operator/${citySlug}/taxonomy-types`}>
           <Button variant="ghost" className="mb-4">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             Back to Taxonomy Types
           </Button>
         </Link>
@@ -70,7 +70,7 @@ export default async function TaxonomyValuesPage({ params }: Props) {
 
           <Link href={`/${currentLocale}/operator/${citySlug}/taxonomy-types/${taxonomyTypeId}/values/new`}>
             <Button>
-              <Plus className="mr-2 h-4 w-4" />
+              <Plus className="me-2 h-4 w-4" />
               Add Value
             </Button>
           </Link>
@@ -83,7 +83,7 @@ export default async function TaxonomyValuesPage({ params }: Props) {
             <p className="text-muted-foreground mb-4">No values yet</p>
             <Link href={`/${currentLocale}/operator/${citySlug}/taxonomy-types/${taxonomyTypeId}/values/new`}>
               <Button>
-                <Plus className="mr-2 h-4 w-4" />
+                <Plus className="me-2 h-4 w-4" />
                 Create First Value
               </Button>
             </Link>
@@ -139,7 +139,7 @@ export default async function TaxonomyValuesPage({ params }: Props) {
                         href={`/${currentLocale}/operator/${citySlug}/taxonomy-types/${taxonomyTypeId}/values/${value.id}/edit`}
                       >
                         <Button variant="outline" size="sm">
-                          <Edit className="h-4 w-4 mr-2" />
+                          <Edit className="h-4 w-4 me-2" />
                           Edit
                         </Button>
                       </Link>
@@ -38,7 +38,7 @@ export default function Error({ error, reset }: ErrorProps) {
           )}
           <div className="flex gap-4">
             <Button onClick={reset} variant="default">
-              <RefreshCw className="mr-2 h-4 w-4" />
+              <RefreshCw className="me-2 h-4 w-4" />
               Try again
             </Button>
           </div>
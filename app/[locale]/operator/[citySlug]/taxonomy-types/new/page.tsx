@@ -16,9 +16,12 @@ import { redirect } from 'next/navigation'
 import Link from 'next/link'
 import { createTaxonomyType } from '@/app/actions/taxonomy-types'
 import TaxonomyTypeForm from '@/components/taxonomy-types/taxonomy-type-form'
+import { getCityLocaleOptions } from '@/lib/i18n/active-locales'
+import type { TranslationsInput } from '@/lib/validations/translations'
 import { Button } from '@/components/ui/button'
 import { ArrowLeft } from 'lucide-react'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { findTranslation } from '@/lib/i18n/config'
 
 interface Props {
   params: {
@@ -49,9 +52,8 @@ export default async function NewTaxonomyTypePage({ params }: Props) {
   // Get city info
   const { data: city } = await supabase
     .from('cities')
-    .select('id, slug, city_translations!inner(name, locale_code)')
+    .select('id, slug, city_translations(name, locale_code)')
     .eq('slug', citySlug)
-    .eq('city_translations.locale_code', locale)
     .single()
 
   if (!city) {
@@ -77,6 +79,9 @@ export default async function NewTaxonomyTypePage({ params }: Props) {
     redirect(`/${locale}/operator`)
   }
 
+  // Get the locales the city is translated into
+  const cityLocales = await getCityLocaleOptions(supabase, city.id)
+
   const handleSubmit = async (data: Record<string, unknown>) => {
     'use server'
 
@@ -88,12 +93,7 @@ export default async function NewTaxonomyTypePage({ params }: Props) {
       useForMapStyling: Boolean(data.useForMapStyling),
       useForFiltering: Boolean(data.useForFiltering),
       displayOrder: Number(data.displayOrder) || 0,
-      name_en: String(data.name_en),
-      description_en: data.description_en ? String(data.description_en) : undefined,
-      name_nl: data.name_nl ? String(data.name_nl) : undefined,
-      description_nl: data.description_nl ? String(data.description_nl) : undefined,
-      name_fr: data.name_fr ? String(data.name_fr) : undefined,
-      description_fr: data.description_fr ? String(data.description_fr) : undefined,
+      translations: data.translations as TranslationsInput,
     })
 
     redirect(`/${locale}/operator/${citySlug}/taxonomy-types`)
@@ -105,14 +105,14 @@ export default async function NewTaxonomyTypePage({ params }: Props) {
       <div className="flex items-center gap-4">
         <Link href={`/${locale}/operator/${citySlug}/taxonomy-types`}>
           <Button variant="ghost" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             Back to Taxonomy Types
           </Button>
         </Link>
         <div>
           <h1 className="text-3xl font-bold">Create Taxonomy Type</h1>
           <p className="mt-2 text-sm text-gray-600">
-            Add a new classification type to {city.city_translations[0]?.name}
+            Add a new classification type to {findTranslation(city.city_translations, locale)?.name}
           </p>
         </div>
       </div>
@@ -122,6 +122,7 @@ export default async function NewTaxonomyTypePage({ params }: Props) {
         cityId={city.id}
         citySlug={citySlug}
         locale={locale}
+        locales={cityLocales}
         onSubmit={handleSubmit}
         submitLabel="Create Taxonomy Type"
       />
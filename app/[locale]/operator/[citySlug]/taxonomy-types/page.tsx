@@ -14,11 +14,12 @@
 import { getLocale } from 'next-intl/server'
 import Link from 'next/link'
 import { redirect } from 'next/navigation'
-import { getTaxonomyTypes } from '@/app/actions/taxonomy-types'
+import { getTaxonomyTypes, getTaxonomyRuleViolations } from '@/app/actions/taxonomy-types'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Plus, Edit, Tag } from 'lucide-react'
+import { Plus, Edit, Tag, Trash2, AlertTriangle, ListChecks } from 'lucide-react'
+import { findTranslation } from '@/lib/i18n/config'
 
 interface TaxonomyType {
   id: string
@@ -64,9 +65,8 @@ export default async function TaxonomyTypesPage({ params }: Props) {
   // Get city info
   const { data: city } = await supabase
     .from('cities')
-    .select('id, slug, city_translations!inner(name, locale_code)')
+    .select('id, slug, city_translations(name, locale_code)')
     .eq('slug', citySlug)
-    .eq('city_translations.locale_code', locale)
     .single()
 
   if (!city) {
@@ -95,6 +95,13 @@ export default async function TaxonomyTypesPage({ params }: Props) {
   // Get taxonomy types
   const taxonomyTypes = await getTaxonomyTypes(citySlug)
 
+  // Languages that break a rule, e.g. after a type was made required
+  const ruleViolations = await getTaxonomyRuleViolations(citySlug, locale).catch((error) => {
+    console.error('Error loading taxonomy rule violations:', error)
+    return []
+  })
+  const languagesBreakingRules = new Set(ruleViolations.map((violation) => violation.languageId)).size
+
   return (
     <div className="space-y-6">
       {/* Page header */}
@@ -102,17 +109,47 @@ export default async function TaxonomyTypesPage({ params }: Props) {
         <div>
           <h1 className="text-3xl font-bold">Taxonomy Types</h1>
           <p className="mt-2 text-sm text-gray-600">
-            Manage classification types for {city.city_translations[0]?.name || citySlug}
+            Manage classification types for {findTranslation(city.city_translations, locale)?.name || citySlug}
           </p>
         </div>
-        <Link href={`/${locale}/operator/${citySlug}/taxonomy-types/new`}>
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Taxonomy Type
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href={`/${locale}/operator/${citySlug}/taxonomy-types/rule-violations`}>
+            <Button variant="outline">
+              <ListChecks className="me-2 h-4 w-4" />
+              Check Rules
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/trash`}>
+            <Button variant="outline">
+              <Trash2 className="me-2 h-4 w-4" />
+              Trash
+            </Button>
+          </Link>
+          <Link href={`/${locale}/operator/${citySlug}/taxonomy-types/new`}>
+            <Button>
+              <Plus className="me-2 h-4 w-4" />
+              Add Taxonomy Type
+            </Button>
+          </Link>
+        </div>
       </div>
 
+      {languagesBreakingRules > 0 && (
+        <div className="flex items-center justify-between rounded-md border border-orange-200 bg-orange-50 p-4">
+          <p className="flex items-center text-sm text-orange-800">
+            <AlertTriangle className="me-2 h-4 w-4" />
+            {languagesBreakingRules === 1
+              ? '1 language breaks the rules of these taxonomy types.'
+              : `${languagesBreakingRules} languages break the rules of these taxonomy types.`}
+          </p>
+          <Link href={`/${locale}/operator/${citySlug}/taxonomy-types/rule-violations`}>
+            <Button variant="outline" size="sm">
+              View Languages
+            </Button>
+          </Link>
+        </div>
+      )}
+
       {/* Taxonomy types list */}
       {taxonomyTypes.length === 0 ? (
         <Card>
@@ -127,7 +164,7 @@ export default async function TaxonomyTypesPage({ params }: Props) {
           <CardContent>
             <Link href={`/${locale}/operator/${citySlug}/taxonomy-types/new`}>
               <Button>
-                <Plus className="mr-2 h-4 w-4" />
+                <Plus className="me-2 h-4 w-4" />
                 Create Taxonomy Type
               </Button>
             </Link>
@@ -188,7 +225,7 @@ export default async function TaxonomyTypesPage({ params }: Props) {
                     <div className="flex items-center gap-2">
                       <Link href={`/${locale}/operator/${citySlug}/taxonomy-types/${taxonomyType.id}`}>
                         <Button variant="outline" size="sm">
-                          <Edit className="mr-2 h-4 w-4" />
+                          <Edit className="me-2 h-4 w-4" />
                           Edit
                         </Button>
                       </Link>
@@ -214,7 +251,7 @@ export default async function TaxonomyTypesPage({ params }: Props) {
           <div className="space-y-4">
             <div>
               <h4 className="font-medium mb-2">Example Taxonomy Types</h4>
-              <ul className="text-sm text-gray-600 space-y-1 ml-4">
+              <ul className="text-sm text-gray-600 space-y-1 ms-4">
                 <li>• Size (Small/Medium/Large) - for community size</li>
                 <li>• Status (Endangered/Stable) - for endangerment status</li>
                 <li>• Script Type (Logographic/Syllabic/Alphabetic) - for writing systems</li>
@@ -223,7 +260,7 @@ export default async function TaxonomyTypesPage({ params }: Props) {
             </div>
             <div>
               <h4 className="font-medium mb-2">Configuration Options</h4>
-              <ul className="text-sm text-gray-600 space-y-1 ml-4">
+              <ul className="text-sm text-gray-600 space-y-1 ms-4">
                 <li>
                   • <strong>Required:</strong> Languages must have this taxonomy assigned
                 </li>
@@ -0,0 +1,149 @@
+/**
+ * Taxonomy Rule Violations Page
+ * =============================
+ * Lists the languages of a city that break the rules of its taxonomy types:
+ * no value of a required type, or several values of a single-value type.
+ * Changing a rule does not change existing languages, so after making a type
+ * required or single-value this shows which languages to fix.
+ *
+ * @async
+ * @param props - Component props
+ * @param props.params - Route parameters
+ * @param props.params.locale - Current locale code
+ * @param props.params.citySlug - City identifier
+ * @returns Page component JSX
+ */
+
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { getTaxonomyRuleViolations } from '@/app/actions/taxonomy-types'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { describeTaxonomyRuleViolation, type TaxonomyRuleViolation } from '@/lib/taxonomies/rules'
+import { Button } from '@/components/ui/button'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft, CheckCircle2, Edit } from 'lucide-react'
+
+interface Props {
+  params: {
+    locale: string
+    citySlug: string
+  }
+}
+
+export default async function TaxonomyRuleViolationsPage({ params }: Props) {
+  const { locale, citySlug } = await params
+
+  const supabase = await getServerSupabaseWithCookies(citySlug)
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect(`/${locale}/login`)
+  }
+
+  let violations: TaxonomyRuleViolation[] = []
+  let errorMessage: string | null = null
+
+  try {
+    violations = await getTaxonomyRuleViolations(citySlug, locale)
+  } catch (error) {
+    console.error('Error loading taxonomy rule violations:', { citySlug, error })
+    errorMessage = error instanceof Error ? error.message : 'Unknown error'
+  }
+
+  const languageCount = new Set(violations.map((violation) => violation.languageId)).size
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Taxonomy Rule Violations</h1>
+          <p className="mt-2 text-sm text-gray-600">
+            Languages without a value of a required taxonomy type, or with several values of a type
+            that allows only one
+          </p>
+        </div>
+        <Link href={`/${locale}/operator/${citySlug}/taxonomy-types`}>
+          <Button variant="outline">
+            <ArrowLeft className="me-2 h-4 w-4" />
+            Taxonomy Types
+          </Button>
+        </Link>
+      </div>
+
+      {errorMessage ? (
+        <div className="text-center py-12">
+          <p className="text-sm text-red-600">
+            Failed to load taxonomy rule violations: {errorMessage}. Please try again.
+          </p>
+        </div>
+      ) : violations.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+              All Languages Follow the Rules
+            </CardTitle>
+            <CardDescription>
+              Every language has a value of each required taxonomy type and at most one value of each
+              single-value type.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {languageCount === 1 ? '1 language needs' : `${languageCount} languages need`} fixing.
+            Languages that break a rule cannot be saved until their taxonomies are corrected.
+          </p>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Taxonomy Type</TableHead>
+                  <TableHead>Problem</TableHead>
+                  <TableHead className="text-end">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {violations.map((violation) => (
+                  <TableRow key={`${violation.languageId}-${violation.taxonomyTypeId}`}>
+                    <TableCell className="font-medium">
+                      <bdi>{violation.endonym || 'Unknown'}</bdi>
+                    </TableCell>
+                    <TableCell>{violation.taxonomyTypeName}</TableCell>
+                    <TableCell>
+                      {describeTaxonomyRuleViolation(violation.taxonomyTypeName, violation.violation)}
+                      {violation.violation === 'multiple' && ` (has ${violation.valueCount})`}
+                    </TableCell>
+                    <TableCell className="text-end">
+                      <Link href={`/${locale}/operator/${citySlug}/languages/${violation.languageId}`}>
+                        <Button variant="ghost" size="sm">
+                          <Edit className="me-2 h-4 w-4" />
+                          Edit
+                        </Button>
+                      </Link>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
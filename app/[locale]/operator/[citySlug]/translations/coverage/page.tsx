@@ -0,0 +1,131 @@
+/**
+ * Translation Coverage Page
+ *
+ * How complete the translations of a city are, per kind of row and enabled
+ * locale, with the rows still missing a translation or waiting for review
+ * for the cell chosen (`?type=language&target=nl`).
+ */
+
+import React from 'react'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getTranslations } from 'next-intl/server'
+import { BarChart3, ListTodo } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { TranslationCoverageTable } from '@/components/translations/translation-coverage-table'
+import { TranslationGapList } from '@/components/translations/translation-gap-list'
+import { getTranslationCoverage, getTranslationGaps } from '@/app/actions/translation-coverage'
+import { TRANSLATION_ENTITY_TYPES } from '@/lib/translations/entities'
+
+/**
+ * Page parameters
+ */
+interface PageParams {
+  params: Promise<{
+    locale: string
+    citySlug: string
+  }>
+  searchParams: Promise<{
+    type?: string
+    target?: string
+  }>
+}
+
+/**
+ * Translation Coverage Page component.
+ *
+ * @param params - Page parameters including locale and citySlug
+ * @param searchParams - Kind of row and locale to list the gaps of
+ * @returns Promise resolving to JSX element containing the coverage page
+ */
+export default async function TranslationCoveragePage({
+  params,
+  searchParams,
+}: PageParams): Promise<React.JSX.Element> {
+  const { locale, citySlug } = await params
+  const { type, target } = await searchParams
+
+  if (!citySlug.match(/^[a-z0-9-]+$/)) {
+    notFound()
+  }
+
+  const t = await getTranslations('translationCoverage')
+  const basePath = `/${locale}/operator/${citySlug}`
+
+  try {
+    const { locales, coverage } = await getTranslationCoverage(citySlug)
+
+    const selectedType = TRANSLATION_ENTITY_TYPES.find((entityType) => entityType === type)
+    const selectedLocale = locales.find((code) => code === target)
+    const gaps =
+      selectedType && selectedLocale
+        ? await getTranslationGaps(citySlug, selectedType, selectedLocale, locale)
+        : null
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+            <p className="text-muted-foreground">{t('description')}</p>
+          </div>
+          <Link href={`${basePath}/translations`}>
+            <Button variant="outline">
+              <ListTodo className="mr-2 h-4 w-4" />
+              {t('reviewLink')}
+            </Button>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              {t('tableTitle')}
+            </CardTitle>
+            <CardDescription>{t('tableDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TranslationCoverageTable
+              locales={locales}
+              coverage={coverage}
+              gapsHref={`${basePath}/translations/coverage`}
+            />
+          </CardContent>
+        </Card>
+
+        {selectedType && selectedLocale && gaps && (
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {t('gapsTitle', { type: t(`types.${selectedType}`), locale: selectedLocale.toUpperCase() })}
+              </CardTitle>
+              <CardDescription>{t('gapsDescription', { count: gaps.length })}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TranslationGapList basePath={basePath} entityType={selectedType} gaps={gaps} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    )
+  } catch (error) {
+    console.error('Error loading translation coverage page:', {
+      citySlug,
+      locale,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-800">
+          <p className="font-semibold">Failed to load page</p>
+          <p className="mt-1">{error instanceof Error ? error.message : 'An unknown error occurred'}</p>
+        </div>
+      </div>
+    )
+  }
+}
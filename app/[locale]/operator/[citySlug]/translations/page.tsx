@@ -0,0 +1,102 @@
+/**
+ * Translation Review Page
+ *
+ * Fills the locales a city is missing with AI translations and lists the
+ * AI translations waiting for review, to be approved, corrected or
+ * rejected by a translator.
+ */
+
+import React from 'react'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getTranslations } from 'next-intl/server'
+import { BarChart3, Languages } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { TranslateMissingButton } from '@/components/translations/translate-missing-button'
+import { TranslationReviewQueue } from '@/components/translations/translation-review-queue'
+import { getMissingTranslationCount, getTranslationReviewQueue } from '@/app/actions/ai-translations'
+import { isAIEnabled } from '@/lib/ai'
+
+/**
+ * Page parameters
+ */
+interface PageParams {
+  params: Promise<{
+    locale: string
+    citySlug: string
+  }>
+}
+
+/**
+ * Translation Review Page component.
+ *
+ * @param params - Page parameters including locale and citySlug
+ * @returns Promise resolving to JSX element containing the review page
+ */
+export default async function TranslationReviewPage({ params }: PageParams): Promise<React.JSX.Element> {
+  const { locale, citySlug } = await params
+
+  if (!citySlug.match(/^[a-z0-9-]+$/)) {
+    notFound()
+  }
+
+  const t = await getTranslations('translationReview')
+
+  try {
+    const [items, missingCount] = await Promise.all([
+      getTranslationReviewQueue(citySlug, locale),
+      getMissingTranslationCount(citySlug),
+    ])
+
+    return (
+      <div className="space-y-6">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+              <p className="text-muted-foreground">{t('description')}</p>
+            </div>
+            <Link href={`/${locale}/operator/${citySlug}/translations/coverage`}>
+              <Button variant="outline">
+                <BarChart3 className="me-2 h-4 w-4" />
+                {t('coverageLink')}
+              </Button>
+            </Link>
+          </div>
+          <TranslateMissingButton citySlug={citySlug} missingCount={missingCount} aiEnabled={isAIEnabled()} />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Languages className="h-5 w-5" />
+              {t('queueTitle')}
+            </CardTitle>
+            <CardDescription>{t('queueDescription', { count: items.length })}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TranslationReviewQueue citySlug={citySlug} items={items} />
+          </CardContent>
+        </Card>
+      </div>
+    )
+  } catch (error) {
+    console.error('Error loading translation review page:', {
+      citySlug,
+      locale,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-800">
+          <p className="font-semibold">Failed to load page</p>
+          <p className="mt-1">{error instanceof Error ? error.message : 'An unknown error occurred'}</p>
+        </div>
+      </div>
+    )
+  }
+}
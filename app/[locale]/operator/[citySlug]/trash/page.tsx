@@ -0,0 +1,84 @@
+/**
+ * Trash Page
+ *
+ * Languages, language points, descriptions, neighborhoods, districts and
+ * taxonomy values deleted in a city, which can be restored until they are
+ * purged after the retention period of the city.
+ */
+
+import React from 'react'
+import { notFound } from 'next/navigation'
+import { getTranslations } from 'next-intl/server'
+import { Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { TrashList } from '@/components/trash/trash-list'
+import { getTrash } from '@/app/actions/trash'
+
+/**
+ * Page parameters
+ */
+interface PageParams {
+  params: Promise<{
+    locale: string
+    citySlug: string
+  }>
+}
+
+/**
+ * Trash Page component.
+ *
+ * @param params - Page parameters including locale and citySlug
+ * @returns Promise resolving to JSX element containing the trash page
+ */
+export default async function TrashPage({ params }: PageParams): Promise<React.JSX.Element> {
+  const { locale, citySlug } = await params
+
+  if (!citySlug.match(/^[a-z0-9-]+$/)) {
+    notFound()
+  }
+
+  const t = await getTranslations('trash')
+
+  try {
+    const trash = await getTrash(citySlug, locale)
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description', { days: trash.retentionDays })}</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5" />
+              {t('listTitle')}
+            </CardTitle>
+            <CardDescription>{t('listDescription', { count: trash.items.length })}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TrashList citySlug={citySlug} items={trash.items} />
+          </CardContent>
+        </Card>
+      </div>
+    )
+  } catch (error) {
+    console.error('Error loading trash page:', {
+      citySlug,
+      locale,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-800">
+          <p className="font-semibold">Failed to load page</p>
+          <p className="mt-1">{error instanceof Error ? error.message : 'An unknown error occurred'}</p>
+        </div>
+      </div>
+    )
+  }
+}
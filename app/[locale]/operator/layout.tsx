@@ -11,6 +11,7 @@
 
 import { useEffect } from 'react'
 import { useRouter, usePathname } from 'next/navigation'
+import { defaultLocale, isLocaleCode } from '@/lib/i18n/config'
 import { AuthProvider, useAuth } from '@/components/auth/AuthContext'
 
 function OperatorLayoutInner({
@@ -22,11 +23,10 @@ function OperatorLayoutInner({
   const router = useRouter()
   const pathname = usePathname()
 
-  // Extract locale from pathname - only accept valid locales
-  const validLocales = ['en', 'nl', 'fr']
+  // Extract locale from pathname - only accept locale codes
   const pathParts = pathname?.split('/').filter(Boolean) || []
   // For routes like /fr/admin, pathParts would be ['fr', 'admin']
-  const locale = validLocales.includes(pathParts[0]) ? pathParts[0] : 'en'
+  const locale = isLocaleCode(pathParts[0]) ? pathParts[0] : defaultLocale
 
   useEffect(() => {
     // If not loading and not authorized, redirect to login
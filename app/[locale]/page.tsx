@@ -9,6 +9,7 @@
 
 import { useTranslations } from 'next-intl'
 import { Link } from '@/lib/i18n/navigation'
+import { locales, localeNames } from '@/lib/i18n/config'
 import { Button } from '@/components/ui/button'
 
 export default function Home() {
@@ -38,13 +39,6 @@ export default function Home() {
 }
 
 function LocaleSwitcher() {
-  const locales = ['en', 'nl', 'fr'] as const
-  const localeNames = {
-    en: 'English',
-    nl: 'Nederlands',
-    fr: 'Français',
-  }
-
   return (
     <div className="flex gap-2">
       {locales.map((locale) => (
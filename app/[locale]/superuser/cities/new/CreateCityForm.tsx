@@ -1,8 +1,8 @@
 /**
  * @file CreateCityForm.tsx
  * @description Client-side form component for creating new cities with multilingual
- * translations (English, Dutch, French). Features client-side validation, error handling,
- * and integration with the createCity server action.
+ * translations for the locales the city is enabled for. Features client-side validation,
+ * error handling, and integration with the createCity server action.
  */
 
 'use client'
@@ -14,11 +14,13 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Loader2, AlertCircle } from 'lucide-react'
 import { createCity } from '@/app/actions/cities'
 import { createCityFormSchema, type CreateCityFormData } from '@/lib/validations/city'
+import { defaultLocale, type LocaleOption } from '@/lib/i18n/config'
 
 type Country = {
   id: string
@@ -31,16 +33,21 @@ type Country = {
 
 type CreateCityFormProps = {
   countries: Country[]
+  /** Active locales of the platform, default locale first */
+  locales: LocaleOption[]
   locale: string
 }
 
-type ValidationErrors = Partial<Record<keyof CreateCityFormData, string>>
+// Keyed by form field name; translation errors use `name_<locale>` and `description_<locale>`
+type ValidationErrors = Partial<Record<Exclude<keyof CreateCityFormData, 'translations'>, string>> &
+  Record<string, string | undefined>
 
 /**
  * Create City Form Component
  *
  * Client-side form component for creating new cities in the superuser dashboard.
- * Supports multilingual city data for English, Dutch, and French locales.
+ * Supports multilingual city data for any active locale; English is always enabled,
+ * the other locales can be enabled per city.
  *
  * Features:
  * - Client-side validation with Zod schemas
@@ -50,16 +57,30 @@ type ValidationErrors = Partial<Record<keyof CreateCityFormData, string>>
  * - Shadcn/ui components for consistent UI
  *
  * @param countries - Array of available countries for selection
+ * @param locales - Active locales the city can be enabled for
  * @param locale - Current locale code (e.g., 'en', 'nl', 'fr')
  *
  * @example
- * <CreateCityForm countries={countries} locale="en" />
+ * <CreateCityForm countries={countries} locales={locales} locale="en" />
  */
-export function CreateCityForm({ countries, locale }: CreateCityFormProps) {
+export function CreateCityForm({ countries, locales, locale }: CreateCityFormProps) {
   const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [fieldErrors, setFieldErrors] = useState<ValidationErrors>({})
+  const [enabledLocales, setEnabledLocales] = useState<string[]>([defaultLocale])
+
+  /**
+   * Enables or disables a locale for the city; the default locale stays enabled
+   *
+   * @param code - Locale code
+   * @param enabled - Whether the city is enabled for the locale
+   */
+  function toggleLocale(code: string, enabled: boolean) {
+    setEnabledLocales((current) =>
+      enabled ? [...current, code] : current.filter((candidate) => candidate !== code)
+    )
+  }
 
   /**
    * Handles form submission with client-side validation
@@ -75,18 +96,21 @@ export function CreateCityForm({ countries, locale }: CreateCityFormProps) {
     const formData = new FormData(event.currentTarget)
 
     // Extract form data as strings (before conversion)
-    const rawData: Record<string, string> = {
+    const rawData = {
       slug: (formData.get('slug') as string) || '',
       country_id: (formData.get('country_id') as string) || '',
       center_lat: (formData.get('center_lat') as string) || '',
       center_lng: (formData.get('center_lng') as string) || '',
       default_zoom: (formData.get('default_zoom') as string) || '',
-      name_en: (formData.get('name_en') as string) || '',
-      description_en: (formData.get('description_en') as string) || '',
-      name_nl: (formData.get('name_nl') as string) || '',
-      description_nl: (formData.get('description_nl') as string) || '',
-      name_fr: (formData.get('name_fr') as string) || '',
-      description_fr: (formData.get('description_fr') as string) || '',
+      translations: Object.fromEntries(
+        enabledLocales.map((code) => [
+          code,
+          {
+            name: (formData.get(`name_${code}`) as string) || '',
+            description: (formData.get(`description_${code}`) as string) || '',
+          },
+        ])
+      ),
     }
 
     // Validate using Zod schema with string inputs (will coerce in schema)
@@ -96,8 +120,8 @@ export function CreateCityForm({ countries, locale }: CreateCityFormProps) {
       // Convert Zod errors to field-level errors
       const errors: ValidationErrors = {}
       validation.error.issues.forEach((issue) => {
-        const field = issue.path[0] as keyof CreateCityFormData
-        errors[field] = issue.message
+        const [field, code, translationField] = issue.path.map(String)
+        errors[field === 'translations' ? `${translationField}_${code}` : field] = issue.message
       })
       setFieldErrors(errors)
       setError('Please fix the errors below and try again.')
@@ -259,149 +283,79 @@ export function CreateCityForm({ countries, locale }: CreateCityFormProps) {
           </CardContent>
         </Card>
 
-        {/* English Translations */}
-        <Card>
-          <CardHeader>
-            <CardTitle>English Translations</CardTitle>
-            <CardDescription>
-              English name and description for the city
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <Label htmlFor="name_en">City Name (English) *</Label>
-              <Input
-                id="name_en"
-                name="name_en"
-                placeholder="Amsterdam"
-                required
-                disabled={isSubmitting}
-                aria-invalid={!!fieldErrors.name_en}
-                aria-describedby={fieldErrors.name_en ? 'name_en-error' : undefined}
-              />
-              {fieldErrors.name_en && (
-                <p id="name_en-error" className="text-sm text-red-600 mt-1">
-                  {fieldErrors.name_en}
-                </p>
-              )}
-            </div>
-
-            <div>
-              <Label htmlFor="description_en">Description (English) *</Label>
-              <Textarea
-                id="description_en"
-                name="description_en"
-                placeholder="Amsterdam is the capital and most populous city of the Netherlands..."
-                required
-                rows={4}
-                disabled={isSubmitting}
-                aria-invalid={!!fieldErrors.description_en}
-                aria-describedby={fieldErrors.description_en ? 'description_en-error' : undefined}
-              />
-              {fieldErrors.description_en && (
-                <p id="description_en-error" className="text-sm text-red-600 mt-1">
-                  {fieldErrors.description_en}
-                </p>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Dutch Translations */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Dutch Translations</CardTitle>
-            <CardDescription>
-              Dutch name and description for the city
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <Label htmlFor="name_nl">City Name (Dutch) *</Label>
-              <Input
-                id="name_nl"
-                name="name_nl"
-                placeholder="Amsterdam"
-                required
-                disabled={isSubmitting}
-                aria-invalid={!!fieldErrors.name_nl}
-                aria-describedby={fieldErrors.name_nl ? 'name_nl-error' : undefined}
-              />
-              {fieldErrors.name_nl && (
-                <p id="name_nl-error" className="text-sm text-red-600 mt-1">
-                  {fieldErrors.name_nl}
-                </p>
-              )}
-            </div>
+        {/* Translations per locale */}
+        {locales.map((option) => {
+          const isDefault = option.code === defaultLocale
+          const isEnabled = enabledLocales.includes(option.code)
+          const nameField = `name_${option.code}`
+          const descriptionField = `description_${option.code}`
 
-            <div>
-              <Label htmlFor="description_nl">Description (Dutch) *</Label>
-              <Textarea
-                id="description_nl"
-                name="description_nl"
-                placeholder="Amsterdam is de hoofdstad en grootste stad van Nederland..."
-                required
-                rows={4}
-                disabled={isSubmitting}
-                aria-invalid={!!fieldErrors.description_nl}
-                aria-describedby={fieldErrors.description_nl ? 'description_nl-error' : undefined}
-              />
-              {fieldErrors.description_nl && (
-                <p id="description_nl-error" className="text-sm text-red-600 mt-1">
-                  {fieldErrors.description_nl}
-                </p>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+          return (
+            <Card key={option.code}>
+              <CardHeader>
+                <CardTitle>{option.nativeName}</CardTitle>
+                <CardDescription>
+                  {isDefault
+                    ? `${option.name} name and description for the city (required)`
+                    : `Enable ${option.name} to add a name and description for the city`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!isDefault && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`enable_${option.code}`}
+                      checked={isEnabled}
+                      onCheckedChange={(checked) => toggleLocale(option.code, checked === true)}
+                      disabled={isSubmitting}
+                    />
+                    <Label htmlFor={`enable_${option.code}`}>Enable {option.name}</Label>
+                  </div>
+                )}
 
-        {/* French Translations */}
-        <Card>
-          <CardHeader>
-            <CardTitle>French Translations</CardTitle>
-            <CardDescription>
-              French name and description for the city
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <Label htmlFor="name_fr">City Name (French) *</Label>
-              <Input
-                id="name_fr"
-                name="name_fr"
-                placeholder="Amsterdam"
-                required
-                disabled={isSubmitting}
-                aria-invalid={!!fieldErrors.name_fr}
-                aria-describedby={fieldErrors.name_fr ? 'name_fr-error' : undefined}
-              />
-              {fieldErrors.name_fr && (
-                <p id="name_fr-error" className="text-sm text-red-600 mt-1">
-                  {fieldErrors.name_fr}
-                </p>
-              )}
-            </div>
+                {isEnabled && (
+                  <>
+                    <div>
+                      <Label htmlFor={nameField}>City Name ({option.name}) *</Label>
+                      <Input
+                        id={nameField}
+                        name={nameField}
+                        placeholder="Amsterdam"
+                        required
+                        disabled={isSubmitting}
+                        aria-invalid={!!fieldErrors[nameField]}
+                        aria-describedby={fieldErrors[nameField] ? `${nameField}-error` : undefined}
+                      />
+                      {fieldErrors[nameField] && (
+                        <p id={`${nameField}-error`} className="text-sm text-red-600 mt-1">
+                          {fieldErrors[nameField]}
+                        </p>
+                      )}
+                    </div>
 
-            <div>
-              <Label htmlFor="description_fr">Description (French) *</Label>
-              <Textarea
-                id="description_fr"
-                name="description_fr"
-                placeholder="Amsterdam est la capitale et la ville la plus peuplée des Pays-Bas..."
-                required
-                rows={4}
-                disabled={isSubmitting}
-                aria-invalid={!!fieldErrors.description_fr}
-                aria-describedby={fieldErrors.description_fr ? 'description_fr-error' : undefined}
-              />
-              {fieldErrors.description_fr && (
-                <p id="description_fr-error" className="text-sm text-red-600 mt-1">
-                  {fieldErrors.description_fr}
-                </p>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+                    <div>
+                      <Label htmlFor={descriptionField}>Description ({option.name}) *</Label>
+                      <Textarea
+                        id={descriptionField}
+                        name={descriptionField}
+                        required
+                        rows={4}
+                        disabled={isSubmitting}
+                        aria-invalid={!!fieldErrors[descriptionField]}
+                        aria-describedby={fieldErrors[descriptionField] ? `${descriptionField}-error` : undefined}
+                      />
+                      {fieldErrors[descriptionField] && (
+                        <p id={`${descriptionField}-error`} className="text-sm text-red-600 mt-1">
+                          {fieldErrors[descriptionField]}
+                        </p>
+                      )}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )
+        })}
       </div>
 
       {/* Submit button */}
@@ -409,7 +363,7 @@ export function CreateCityForm({ countries, locale }: CreateCityFormProps) {
         <Button type="submit" size="lg" disabled={isSubmitting}>
           {isSubmitting ? (
             <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              <Loader2 className="me-2 h-4 w-4 animate-spin" />
               Creating City...
             </>
           ) : (
@@ -13,6 +13,8 @@ import { redirect } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { ArrowLeft } from 'lucide-react'
 import Link from 'next/link'
+import { getActiveLocaleOptions } from '@/lib/i18n/active-locales'
+import { pickTranslations } from '@/lib/i18n/config'
 import { CreateCityForm } from './CreateCityForm'
 
 // TypeScript interfaces for type safety
@@ -79,12 +81,11 @@ export default async function NewCityPage() {
       .select(`
         id,
         slug,
-        translations:country_translations!inner(
+        translations:country_translations(
           name,
           locale_code
         )
       `)
-      .eq('translations.locale_code', locale)
       .order('slug')
 
     if (error) {
@@ -96,7 +97,10 @@ export default async function NewCityPage() {
       throw new Error('Invalid countries data received from database')
     }
 
-    countries = data
+    countries = data.map((country) => ({
+      ...country,
+      translations: pickTranslations(country.translations, locale),
+    }))
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to load countries: ${error.message}`)
@@ -119,13 +123,16 @@ export default async function NewCityPage() {
     return nameA.localeCompare(nameB)
   })
 
+  // Locales the new city can be enabled for
+  const locales = await getActiveLocaleOptions()
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center space-x-4">
         <Link href={`/${locale}/superuser`}>
           <Button variant="outline" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
+            <ArrowLeft className="me-2 h-4 w-4" />
             Back
           </Button>
         </Link>
@@ -137,7 +144,7 @@ export default async function NewCityPage() {
         </div>
       </div>
 
-      <CreateCityForm countries={sortedCountries || []} locale={locale} />
+      <CreateCityForm countries={sortedCountries || []} locales={locales} locale={locale} />
     </div>
   )
 }
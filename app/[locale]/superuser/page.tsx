@@ -142,7 +142,7 @@ export default function SuperuserDashboard() {
           <CardContent className="space-y-2">
             <Link href={`/en/superuser/cities/new`}>
               <Button className="w-full justify-start">
-                <Plus className="mr-2 h-4 w-4" />
+                <Plus className="me-2 h-4 w-4" />
                 Add New City
               </Button>
             </Link>
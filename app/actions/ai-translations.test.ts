@@ -0,0 +1,349 @@
+/**
+ * AI Translation Server Actions Tests
+ *
+ * Tests for filling missing locales with AI translations and for the
+ * review queue.
+ *
+ * @module app/actions/ai-translations.test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  approveTranslation,
+  getMissingTranslationCount,
+  getTranslationReviewQueue,
+  rejectTranslation,
+  translateMissingLocales,
+} from './ai-translations'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { recordRevision } from '@/lib/revisions/record'
+import { AI_TRANSLATION_BATCH_SIZE } from '@/lib/translations/entities'
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(),
+}))
+
+vi.mock('@/lib/revisions/record', () => ({
+  recordRevision: vi.fn(),
+}))
+
+const LANGUAGE_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c02'
+const DISTRICT_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c04'
+
+function createMockSupabase() {
+  const city = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    maybeSingle: vi.fn().mockResolvedValue({ data: { id: 'city-1' }, error: null }),
+  }
+
+  return {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'user-1' } } }) },
+    from: vi.fn(() => city),
+    rpc: vi.fn(),
+  }
+}
+
+describe('AI translation actions', () => {
+  let supabase: ReturnType<typeof createMockSupabase>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('NEXT_PUBLIC_ENABLE_AI_FEATURES', 'true')
+    vi.stubEnv('AI_PROVIDER', 'local')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    supabase = createMockSupabase()
+    vi.mocked(getServerSupabaseWithCookies).mockResolvedValue(supabase as never)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  describe('translateMissingLocales', () => {
+    it('should save a translation of every text column for review', async () => {
+      supabase.rpc.mockImplementation(async (fn: string) => {
+        if (fn === 'get_missing_translations') {
+          return {
+            data: [
+              {
+                entity_type: 'district',
+                entity_id: DISTRICT_ID,
+                locale: 'nl',
+                source_locale: 'en',
+                source_fields: { name: 'Centre', description: null },
+                total_missing: 3,
+              },
+              {
+                entity_type: 'language',
+                entity_id: LANGUAGE_ID,
+                locale: 'fr',
+                source_locale: 'en',
+                source_fields: { name: 'Turkish' },
+                total_missing: 3,
+              },
+            ],
+            error: null,
+          }
+        }
+        return { data: true, error: null }
+      })
+
+      const run = await translateMissingLocales('amsterdam')
+
+      expect(supabase.rpc).toHaveBeenCalledWith('get_missing_translations', {
+        p_city_id: 'city-1',
+        p_source_locale: 'en',
+        p_limit: AI_TRANSLATION_BATCH_SIZE,
+      })
+      expect(supabase.rpc).toHaveBeenCalledWith('save_ai_translation', {
+        p_entity_type: 'district',
+        p_entity_id: DISTRICT_ID,
+        p_locale: 'nl',
+        p_fields: { name: 'Centre', description: null },
+        p_model: 'local-stub',
+      })
+      expect(supabase.rpc).toHaveBeenCalledWith('save_ai_translation', {
+        p_entity_type: 'language',
+        p_entity_id: LANGUAGE_ID,
+        p_locale: 'fr',
+        p_fields: { name: 'Turkish' },
+        p_model: 'local-stub',
+      })
+      expect(recordRevision).toHaveBeenCalledTimes(1)
+      expect(recordRevision).toHaveBeenCalledWith(supabase, 'language', LANGUAGE_ID)
+      expect(run).toEqual({ translated: 2, skipped: 0, failed: 0, remaining: 1 })
+    })
+
+    it('should count translations entered meanwhile and failed saves', async () => {
+      supabase.rpc.mockImplementation(async (fn: string, args: { p_locale?: string }) => {
+        if (fn === 'has_city_access' || fn === 'record_ai_translation_failure') {
+          return { data: fn === 'has_city_access', error: null }
+        }
+        if (fn === 'get_missing_translations') {
+          return {
+            data: ['nl', 'fr'].map((locale) => ({
+              entity_type: 'district',
+              entity_id: DISTRICT_ID,
+              locale,
+              source_locale: 'en',
+              source_fields: { name: 'Centre', description: 'Old town' },
+              total_missing: 2,
+            })),
+            error: null,
+          }
+        }
+        return args.p_locale === 'nl'
+          ? { data: false, error: null }
+          : { data: null, error: { code: '42501', message: 'permission denied' } }
+      })
+
+      const run = await translateMissingLocales('amsterdam')
+
+      expect(supabase.rpc).toHaveBeenCalledWith('record_ai_translation_failure', {
+        p_city_id: 'city-1',
+        p_entity_type: 'district',
+        p_entity_id: DISTRICT_ID,
+        p_locale: 'fr',
+        p_source_fields: { name: 'Centre', description: 'Old town' },
+      })
+      expect(run).toEqual({ translated: 0, skipped: 1, failed: 1, remaining: 0 })
+    })
+
+    it('should stop the batch when the AI provider fails', async () => {
+      vi.stubEnv('AI_PROVIDER', 'openai')
+      vi.stubEnv('OPENAI_API_KEY', 'test-key')
+      const fetchMock = vi.fn().mockResolvedValue(new Response('Service unavailable', { status: 503 }))
+      vi.stubGlobal('fetch', fetchMock)
+
+      supabase.rpc.mockImplementation(async (fn: string) => {
+        if (fn === 'get_missing_translations') {
+          return {
+            data: ['nl', 'fr'].map((locale) => ({
+              entity_type: 'district',
+              entity_id: DISTRICT_ID,
+              locale,
+              source_locale: 'en',
+              source_fields: { name: 'Centre', description: null },
+              total_missing: 5,
+            })),
+            error: null,
+          }
+        }
+        return { data: true, error: null }
+      })
+
+      const run = await translateMissingLocales('amsterdam')
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(supabase.rpc).toHaveBeenCalledWith(
+        'record_ai_translation_failure',
+        expect.objectContaining({ p_locale: 'nl' })
+      )
+      expect(supabase.rpc).not.toHaveBeenCalledWith('save_ai_translation', expect.anything())
+      expect(run).toEqual({ translated: 0, skipped: 0, failed: 1, remaining: 4 })
+    })
+
+    it('should refuse users without a role in the city', async () => {
+      supabase.rpc.mockResolvedValue({ data: false, error: null })
+
+      await expect(translateMissingLocales('amsterdam')).rejects.toThrow('Insufficient permissions')
+      expect(supabase.rpc).toHaveBeenCalledWith('has_city_access', { p_user_id: 'user-1', p_city_id: 'city-1' })
+      expect(supabase.rpc).not.toHaveBeenCalledWith('get_missing_translations', expect.anything())
+    })
+
+    it('should refuse to run without an AI provider', async () => {
+      vi.stubEnv('AI_PROVIDER', '')
+      vi.stubEnv('ANTHROPIC_API_KEY', '')
+      vi.stubEnv('OPENAI_API_KEY', '')
+
+      await expect(translateMissingLocales('amsterdam')).rejects.toThrow('AI translation is not configured')
+      expect(supabase.rpc).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getMissingTranslationCount', () => {
+    it('should return the total number of missing translations', async () => {
+      supabase.rpc.mockResolvedValue({ data: [{ total_missing: 42 }], error: null })
+
+      await expect(getMissingTranslationCount('amsterdam')).resolves.toBe(42)
+      expect(supabase.rpc).toHaveBeenCalledWith('get_missing_translations', {
+        p_city_id: 'city-1',
+        p_source_locale: 'en',
+        p_limit: 1,
+      })
+    })
+
+    it('should return zero when nothing is missing', async () => {
+      supabase.rpc.mockResolvedValue({ data: [], error: null })
+
+      await expect(getMissingTranslationCount('amsterdam')).resolves.toBe(0)
+    })
+  })
+
+  describe('getTranslationReviewQueue', () => {
+    it('should map the queue rows', async () => {
+      supabase.rpc.mockResolvedValue({
+        data: [
+          {
+            entity_type: 'language',
+            entity_id: LANGUAGE_ID,
+            locale: 'nl',
+            label: 'Turkish',
+            fields: { name: 'Turks' },
+            source_locale: 'en',
+            source_fields: { name: 'Turkish' },
+            ai_model: 'local-stub',
+            ai_translated_at: '2025-03-01T10:00:00Z',
+          },
+        ],
+        error: null,
+      })
+
+      const items = await getTranslationReviewQueue('amsterdam', 'en')
+
+      expect(supabase.rpc).toHaveBeenCalledWith('get_translation_review_queue', { p_city_id: 'city-1', p_locale: 'en' })
+      expect(items).toEqual([
+        {
+          entityType: 'language',
+          entityId: LANGUAGE_ID,
+          locale: 'nl',
+          label: 'Turkish',
+          fields: { name: 'Turks' },
+          sourceLocale: 'en',
+          sourceFields: { name: 'Turkish' },
+          aiModel: 'local-stub',
+          aiTranslatedAt: '2025-03-01T10:00:00Z',
+        },
+      ])
+    })
+  })
+
+  describe('approveTranslation', () => {
+    it('should approve with the corrected columns only', async () => {
+      supabase.rpc.mockResolvedValue({ data: null, error: null })
+
+      await approveTranslation(
+        'amsterdam',
+        { entityType: 'district', entityId: DISTRICT_ID, locale: 'nl' },
+        { description: '' }
+      )
+
+      expect(supabase.rpc).toHaveBeenCalledWith('approve_translation', {
+        p_entity_type: 'district',
+        p_entity_id: DISTRICT_ID,
+        p_locale: 'nl',
+        p_fields: { description: null },
+      })
+      expect(recordRevision).not.toHaveBeenCalled()
+    })
+
+    it('should approve unchanged translations and record a revision of languages', async () => {
+      supabase.rpc.mockResolvedValue({ data: null, error: null })
+
+      await approveTranslation('amsterdam', { entityType: 'language', entityId: LANGUAGE_ID, locale: 'nl' })
+
+      expect(supabase.rpc).toHaveBeenCalledWith('approve_translation', {
+        p_entity_type: 'language',
+        p_entity_id: LANGUAGE_ID,
+        p_locale: 'nl',
+        p_fields: null,
+      })
+      expect(recordRevision).toHaveBeenCalledWith(supabase, 'language', LANGUAGE_ID)
+    })
+
+    it('should reject an empty name', async () => {
+      await expect(
+        approveTranslation('amsterdam', { entityType: 'language', entityId: LANGUAGE_ID, locale: 'nl' }, { name: ' ' })
+      ).rejects.toThrow('Validation failed: Name is required')
+      expect(supabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should pass on database messages', async () => {
+      supabase.rpc.mockResolvedValue({
+        data: null,
+        error: { code: 'P0001', message: 'Translation not found or already reviewed' },
+      })
+
+      await expect(
+        approveTranslation('amsterdam', { entityType: 'language', entityId: LANGUAGE_ID, locale: 'nl' })
+      ).rejects.toThrow('Translation not found or already reviewed')
+    })
+  })
+
+  describe('rejectTranslation', () => {
+    it('should delete the translation', async () => {
+      supabase.rpc.mockResolvedValue({ data: null, error: null })
+
+      await rejectTranslation('amsterdam', { entityType: 'description', entityId: LANGUAGE_ID, locale: 'fr' })
+
+      expect(supabase.rpc).toHaveBeenCalledWith('reject_translation', {
+        p_city_id: 'city-1',
+        p_entity_type: 'description',
+        p_entity_id: LANGUAGE_ID,
+        p_locale: 'fr',
+      })
+      expect(recordRevision).toHaveBeenCalledWith(supabase, 'description', LANGUAGE_ID)
+    })
+
+    it('should hide unexpected database errors', async () => {
+      supabase.rpc.mockResolvedValue({ data: null, error: { code: '42501', message: 'permission denied' } })
+
+      await expect(
+        rejectTranslation('amsterdam', { entityType: 'city', entityId: LANGUAGE_ID, locale: 'fr' })
+      ).rejects.toThrow('Failed to reject translation')
+    })
+
+    it('should validate the translation key', async () => {
+      await expect(
+        rejectTranslation('amsterdam', { entityType: 'country' as never, entityId: 'x', locale: 'fr' })
+      ).rejects.toThrow('Validation failed')
+    })
+  })
+})
@@ -0,0 +1,497 @@
+/**
+ * AI Translation Server Actions
+ *
+ * Server-side actions that fill the locales a city is missing with AI
+ * translations, and the review queue where translators check them.
+ *
+ * This module provides:
+ * - translateMissingLocales: Translate the next batch of missing translations
+ * - getMissingTranslationCount: Count the translations a city is missing
+ * - getTranslationReviewQueue: List the AI translations waiting for review
+ * - approveTranslation: Approve an AI translation, optionally corrected
+ * - rejectTranslation: Delete an AI translation and keep it from being made again
+ *
+ * Covers the city, its districts, neighborhoods, languages, descriptions,
+ * taxonomy types and taxonomy values (see lib/translations/entities). AI
+ * translations are saved with is_ai_translated, ai_model and
+ * ai_translated_at; approving one stamps reviewed_by and reviewed_at.
+ *
+ * Security features:
+ * - Only users with a role in the city may run the AI translation job
+ * - The database functions run with the user's session, so the RLS
+ *   policies of the translation tables decide who may translate and review
+ * - Text from the model and from reviewers is sanitized before it is saved
+ * - Input validation with Zod
+ *
+ * @module app/actions/ai-translations
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { recordRevision } from '@/lib/revisions/record'
+import { createTextGenerator, isAIEnabled } from '@/lib/ai'
+import { buildTranslationPrompt } from '@/lib/ai/translation-prompt'
+import { sanitizeDescription, sanitizeText, VALIDATION_LIMITS } from '@/lib/sanitization'
+import {
+  AI_TRANSLATION_BATCH_SIZE,
+  TRANSLATION_ENTITY_TYPES,
+  TRANSLATION_FIELDS,
+  type TranslationEntityType,
+  type TranslationField,
+  type TranslationFields,
+} from '@/lib/translations/entities'
+import { z } from 'zod'
+
+/**
+ * Postgres error code of RAISE EXCEPTION; its messages are meant for users
+ */
+const RAISE_EXCEPTION_CODE = 'P0001'
+
+/**
+ * Locale translated from when a row has a translation in it
+ */
+const SOURCE_LOCALE = 'en'
+
+const citySlugSchema = z.string().regex(/^[a-z0-9-]+$/, 'Invalid city slug')
+
+const translationKeySchema = z.object({
+  entityType: z.enum(TRANSLATION_ENTITY_TYPES as [TranslationEntityType, ...TranslationEntityType[]]),
+  entityId: z.string().uuid('Invalid ID'),
+  locale: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, 'Invalid locale code'),
+})
+
+const fieldsSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(VALIDATION_LIMITS.NAME_MAX_LENGTH).optional(),
+    description: z.string().max(VALIDATION_LIMITS.DESCRIPTION_MAX_LENGTH).nullable().optional(),
+    text: z.string().trim().min(1, 'Text is required').max(VALIDATION_LIMITS.DESCRIPTION_MAX_LENGTH).optional(),
+  })
+  .strict()
+
+/**
+ * Identifies a translation: the translated row and the locale
+ */
+export type TranslationKey = z.infer<typeof translationKeySchema>
+
+/**
+ * Outcome of a run of the AI translation job
+ */
+export interface AITranslationRun {
+  /** Translations written and saved for review */
+  translated: number
+  /** Translations someone entered while the run was in progress */
+  skipped: number
+  /** Translations that could not be written or saved; left alone for a day */
+  failed: number
+  /** Translations still missing after this run */
+  remaining: number
+}
+
+/**
+ * AI translation waiting for review
+ */
+export interface TranslationReviewItem extends TranslationKey {
+  /** Name of the translated row, or of the language of a description */
+  label: string | null
+  fields: TranslationFields
+  /** Translation written or reviewed by a person that it was most likely made from */
+  sourceLocale: string | null
+  sourceFields: TranslationFields | null
+  aiModel: string | null
+  aiTranslatedAt: string | null
+}
+
+interface MissingTranslationRow {
+  entity_type: TranslationEntityType
+  entity_id: string
+  locale: string
+  source_locale: string
+  source_fields: TranslationFields
+  total_missing: number
+}
+
+interface ReviewQueueRow {
+  entity_type: TranslationEntityType
+  entity_id: string
+  locale: string
+  label: string | null
+  fields: TranslationFields
+  source_locale: string | null
+  source_fields: TranslationFields | null
+  ai_model: string | null
+  ai_translated_at: string | null
+}
+
+/**
+ * Throw a validation error for a failed Zod parse
+ */
+function assertValid<T>(result: z.ZodSafeParseResult<T>): T {
+  if (!result.success) {
+    const errors = result.error.issues.map((issue) => issue.message).join(', ')
+    throw new Error(`Validation failed: ${errors}`)
+  }
+  return result.data
+}
+
+/**
+ * Get the session client of a signed-in user and the city, or throw
+ */
+async function requireCity(citySlug: string) {
+  const supabase = await getServerSupabaseWithCookies(citySlug)
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('Authentication required')
+  }
+
+  const { data: city, error } = await supabase.from('cities').select('id').eq('slug', citySlug).maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch city: ${error.message}`)
+  }
+  if (!city) {
+    throw new Error('City not found')
+  }
+
+  return { supabase, user, city: city as { id: string } }
+}
+
+/**
+ * Sanitize the text of a translation column
+ */
+function sanitizeField(field: TranslationField, value: string): string {
+  return field === 'name' ? sanitizeText(value, VALIDATION_LIMITS.NAME_MAX_LENGTH) : sanitizeDescription(value)
+}
+
+/**
+ * Record a revision when the translations of a language or description change
+ */
+async function recordTranslationRevision(
+  supabase: SupabaseClient,
+  entityType: TranslationEntityType,
+  entityId: string
+) {
+  if (entityType === 'language' || entityType === 'description') {
+    await recordRevision(supabase, entityType, entityId)
+  }
+}
+
+/**
+ * Revalidate the operator pages that show translations
+ */
+function revalidateTranslations() {
+  revalidatePath('/[locale]/operator/[citySlug]', 'layout')
+}
+
+/**
+ * Translate the next batch of translations a city is missing
+ *
+ * Fills the enabled locales of the city that a row has no translation in,
+ * translating from English where the row has it and otherwise from another
+ * translation written or reviewed by a person. At most
+ * AI_TRANSLATION_BATCH_SIZE translations are written per run; run again
+ * until none remain. A translation that fails is counted, left missing and
+ * skipped by the next runs for a day; when the AI provider fails, the run
+ * stops there.
+ *
+ * @param citySlug - City identifier slug
+ * @returns Promise resolving to what the run did and how many translations remain
+ * @throws Error if validation fails, AI translation is not configured, the
+ *   user is not signed in or has no role in the city, the city does not
+ *   exist, or the fetch fails
+ */
+export async function translateMissingLocales(citySlug: string): Promise<AITranslationRun> {
+  assertValid(citySlugSchema.safeParse(citySlug))
+
+  if (!isAIEnabled()) {
+    throw new Error('AI translation is not configured')
+  }
+
+  try {
+    const { supabase, user, city } = await requireCity(citySlug)
+
+    const { data: hasAccess, error: accessError } = await supabase.rpc('has_city_access', {
+      p_user_id: user.id,
+      p_city_id: city.id,
+    })
+
+    if (accessError) {
+      throw new Error(`Failed to check permissions: ${accessError.message}`)
+    }
+    if (!hasAccess) {
+      throw new Error('Insufficient permissions')
+    }
+
+    const { data, error } = await supabase.rpc('get_missing_translations', {
+      p_city_id: city.id,
+      p_source_locale: SOURCE_LOCALE,
+      p_limit: AI_TRANSLATION_BATCH_SIZE,
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch missing translations: ${error.message}`)
+    }
+
+    const rows = (data ?? []) as MissingTranslationRow[]
+    const generator = createTextGenerator()
+    const run: AITranslationRun = { translated: 0, skipped: 0, failed: 0, remaining: 0 }
+
+    for (const row of rows) {
+      let providerFailed = false
+
+      try {
+        const fields: TranslationFields = {}
+        let model: string | null = null
+
+        for (const field of TRANSLATION_FIELDS[row.entity_type]) {
+          const source = row.source_fields[field]
+          if (!source) {
+            fields[field] = null
+            continue
+          }
+
+          providerFailed = true
+          const result = await generator.generate(
+            buildTranslationPrompt(source, {
+              entityType: row.entity_type,
+              field,
+              sourceLocale: row.source_locale,
+              targetLocale: row.locale,
+            })
+          )
+          providerFailed = false
+          fields[field] = sanitizeField(field, result.text)
+          model = result.model
+        }
+
+        if (!model || !fields[TRANSLATION_FIELDS[row.entity_type][0]]) {
+          throw new Error('Nothing to translate')
+        }
+
+        const { data: saved, error: saveError } = await supabase.rpc('save_ai_translation', {
+          p_entity_type: row.entity_type,
+          p_entity_id: row.entity_id,
+          p_locale: row.locale,
+          p_fields: fields,
+          p_model: model,
+        })
+
+        if (saveError) {
+          throw saveError
+        }
+
+        if (saved) {
+          run.translated++
+          await recordTranslationRevision(supabase, row.entity_type, row.entity_id)
+        } else {
+          run.skipped++
+        }
+      } catch (error) {
+        console.error('Error translating:', {
+          entityType: row.entity_type,
+          entityId: row.entity_id,
+          locale: row.locale,
+          error,
+        })
+        run.failed++
+
+        const { error: recordError } = await supabase.rpc('record_ai_translation_failure', {
+          p_city_id: city.id,
+          p_entity_type: row.entity_type,
+          p_entity_id: row.entity_id,
+          p_locale: row.locale,
+          p_source_fields: row.source_fields,
+        })
+        if (recordError) {
+          console.error('Error recording failed translation:', recordError)
+        }
+
+        // The rest of the batch would most likely fail the same way
+        if (providerFailed) {
+          break
+        }
+      }
+    }
+
+    const totalMissing = rows.length > 0 ? Number(rows[0].total_missing) : 0
+    run.remaining = totalMissing - run.translated - run.skipped - run.failed
+
+    if (run.translated > 0) {
+      revalidateTranslations()
+    }
+
+    return run
+  } catch (error) {
+    console.error('Error translating missing locales:', error)
+    throw error instanceof Error ? error : new Error('Failed to translate missing locales')
+  }
+}
+
+/**
+ * Count the translations a city is missing in its enabled locales
+ *
+ * Only rows with a translation to translate from are counted, as in
+ * translateMissingLocales.
+ *
+ * @param citySlug - City identifier slug
+ * @returns Promise resolving to the number of missing translations
+ * @throws Error if validation fails, the user is not signed in, the city
+ *   does not exist, or the fetch fails
+ */
+export async function getMissingTranslationCount(citySlug: string): Promise<number> {
+  assertValid(citySlugSchema.safeParse(citySlug))
+
+  try {
+    const { supabase, city } = await requireCity(citySlug)
+
+    const { data, error } = await supabase.rpc('get_missing_translations', {
+      p_city_id: city.id,
+      p_source_locale: SOURCE_LOCALE,
+      p_limit: 1,
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch missing translations: ${error.message}`)
+    }
+
+    const rows = (data ?? []) as MissingTranslationRow[]
+    return rows.length > 0 ? Number(rows[0].total_missing) : 0
+  } catch (error) {
+    console.error('Error counting missing translations:', error)
+    throw error instanceof Error ? error : new Error('Failed to count missing translations')
+  }
+}
+
+/**
+ * Get the AI translations of a city waiting for review
+ *
+ * @param citySlug - City identifier slug
+ * @param locale - Locale for the names of the translated rows
+ * @returns Promise resolving to the translations, oldest first
+ * @throws Error if validation fails, the user is not signed in, the city
+ *   does not exist, or the fetch fails
+ */
+export async function getTranslationReviewQueue(citySlug: string, locale: string): Promise<TranslationReviewItem[]> {
+  assertValid(citySlugSchema.safeParse(citySlug))
+
+  try {
+    const { supabase, city } = await requireCity(citySlug)
+
+    const { data, error } = await supabase.rpc('get_translation_review_queue', {
+      p_city_id: city.id,
+      p_locale: locale,
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch review queue: ${error.message}`)
+    }
+
+    return ((data ?? []) as ReviewQueueRow[]).map((row) => ({
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      locale: row.locale,
+      label: row.label,
+      fields: row.fields,
+      sourceLocale: row.source_locale,
+      sourceFields: row.source_fields,
+      aiModel: row.ai_model,
+      aiTranslatedAt: row.ai_translated_at,
+    }))
+  } catch (error) {
+    console.error('Error fetching translation review queue:', error)
+    throw error instanceof Error ? error : new Error('Failed to fetch review queue')
+  }
+}
+
+/**
+ * Approve an AI translation, stamping who reviewed it and when
+ *
+ * @param citySlug - City identifier slug
+ * @param key - Translated row and locale
+ * @param fields - Corrected text; columns left out keep the AI text
+ * @returns Promise resolving when the translation is approved
+ * @throws Error if validation fails, the translation is not waiting for
+ *   review, or the update fails
+ */
+export async function approveTranslation(
+  citySlug: string,
+  key: TranslationKey,
+  fields?: TranslationFields
+): Promise<void> {
+  assertValid(citySlugSchema.safeParse(citySlug))
+  const { entityType, entityId, locale } = assertValid(translationKeySchema.safeParse(key))
+  const corrections = assertValid(fieldsSchema.safeParse(fields ?? {}))
+
+  const sanitized: TranslationFields = {}
+  for (const field of TRANSLATION_FIELDS[entityType]) {
+    const value = corrections[field]
+    if (value !== undefined) {
+      sanitized[field] = value === null || value.trim() === '' ? null : sanitizeField(field, value)
+    }
+  }
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+
+    const { error } = await supabase.rpc('approve_translation', {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+      p_locale: locale,
+      p_fields: Object.keys(sanitized).length > 0 ? sanitized : null,
+    })
+
+    if (error) {
+      throw new Error(error.code === RAISE_EXCEPTION_CODE ? error.message : 'Failed to approve translation')
+    }
+
+    await recordTranslationRevision(supabase, entityType, entityId)
+    revalidateTranslations()
+  } catch (error) {
+    console.error('Error approving translation:', error)
+    throw error instanceof Error ? error : new Error('Failed to approve translation')
+  }
+}
+
+/**
+ * Reject an AI translation by deleting it
+ *
+ * The locale is missing again afterwards, but translateMissingLocales does
+ * not translate it again until someone edits the text it was made from.
+ *
+ * @param citySlug - City identifier slug
+ * @param key - Translated row and locale
+ * @returns Promise resolving when the translation is deleted
+ * @throws Error if validation fails, the user is not signed in, the city
+ *   does not exist, the translation is not waiting for review, or the
+ *   delete fails
+ */
+export async function rejectTranslation(citySlug: string, key: TranslationKey): Promise<void> {
+  assertValid(citySlugSchema.safeParse(citySlug))
+  const { entityType, entityId, locale } = assertValid(translationKeySchema.safeParse(key))
+
+  try {
+    const { supabase, city } = await requireCity(citySlug)
+
+    const { error } = await supabase.rpc('reject_translation', {
+      p_city_id: city.id,
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+      p_locale: locale,
+    })
+
+    if (error) {
+      throw new Error(error.code === RAISE_EXCEPTION_CODE ? error.message : 'Failed to reject translation')
+    }
+
+    await recordTranslationRevision(supabase, entityType, entityId)
+    revalidateTranslations()
+  } catch (error) {
+    console.error('Error rejecting translation:', error)
+    throw error instanceof Error ? error : new Error('Failed to reject translation')
+  }
+}
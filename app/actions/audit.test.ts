@@ -0,0 +1,131 @@
+/**
+ * Audit Server Actions Tests
+ *
+ * Tests for reading the activity of a city.
+ *
+ * @module app/actions/audit.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getCityActivity } from './audit'
+import { getCityAdminAccess } from '@/lib/auth/city-admin'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { createQuery } from '@/__tests__/helpers/supabase'
+
+vi.mock('@/lib/database/client', () => ({
+  getDatabaseAdminClient: vi.fn(),
+}))
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/city-admin', () => ({
+  getCityAdminAccess: vi.fn(),
+}))
+
+const ACTOR_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c01'
+
+const deletedLanguage = {
+  id: 'event-1',
+  occurred_at: '2025-03-01T10:00:00Z',
+  action: 'delete',
+  entity_type: 'languages',
+  entity_id: 'language-1',
+  entity_label: 'Türkçe',
+  actor_id: ACTOR_ID,
+  before: { id: 'language-1', endonym: 'Türkçe', speaker_count: 100 },
+  after: null,
+}
+
+describe('getCityActivity', () => {
+  let events: ReturnType<typeof createQuery>
+  let profiles: ReturnType<typeof createQuery>
+  let session: { from: ReturnType<typeof vi.fn>; rpc: ReturnType<typeof vi.fn> }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCityAdminAccess).mockResolvedValue({ status: 'granted', userId: ACTOR_ID, cityId: 'city-1' })
+
+    events = createQuery({ data: [deletedLanguage], error: null, count: 51 })
+    session = {
+      from: vi.fn(() => events),
+      rpc: vi.fn().mockResolvedValue({ data: [{ actor_id: ACTOR_ID }], error: null }),
+    }
+    vi.mocked(getServerSupabaseWithCookies).mockResolvedValue(session as never)
+
+    profiles = createQuery({ data: [{ id: ACTOR_ID, full_name: null, email: 'alice@example.com' }], error: null })
+    vi.mocked(getDatabaseAdminClient).mockReturnValue({ from: vi.fn(() => profiles) } as never)
+  })
+
+  it('should return the events of the city with their actors', async () => {
+    const activity = await getCityActivity('amsterdam')
+
+    expect(session.from).toHaveBeenCalledWith('audit_events')
+    expect(events.eq).toHaveBeenCalledWith('city_id', 'city-1')
+    expect(events.range).toHaveBeenCalledWith(0, 49)
+    expect(session.rpc).toHaveBeenCalledWith('get_audit_actors', { p_city_id: 'city-1' })
+    expect(activity).toEqual({
+      events: [
+        {
+          id: 'event-1',
+          occurredAt: '2025-03-01T10:00:00Z',
+          action: 'delete',
+          entityType: 'languages',
+          entityId: 'language-1',
+          entityLabel: 'Türkçe',
+          actorId: ACTOR_ID,
+          actorName: 'alice@example.com',
+          before: deletedLanguage.before,
+          after: null,
+        },
+      ],
+      total: 51,
+      page: 1,
+      pageSize: 50,
+      actors: [{ id: ACTOR_ID, name: 'alice@example.com' }],
+    })
+  })
+
+  it('should apply the filters', async () => {
+    await getCityActivity('amsterdam', {
+      actorId: ACTOR_ID,
+      entityGroup: 'descriptions',
+      action: 'delete',
+      from: '2025-03-01',
+      to: '2025-03-31',
+      page: 2,
+    })
+
+    expect(events.eq).toHaveBeenCalledWith('actor_id', ACTOR_ID)
+    expect(events.eq).toHaveBeenCalledWith('action', 'delete')
+    expect(events.in).toHaveBeenCalledWith('entity_type', ['descriptions', 'description_translations'])
+    expect(events.gte).toHaveBeenCalledWith('occurred_at', '2025-03-01T00:00:00.000Z')
+    expect(events.lt).toHaveBeenCalledWith('occurred_at', '2025-04-01T00:00:00.000Z')
+    expect(events.range).toHaveBeenCalledWith(50, 99)
+  })
+
+  it('should reject invalid filters before checking access', async () => {
+    await expect(getCityActivity('amsterdam', { from: '01-03-2025' })).rejects.toThrow('Validation failed')
+    await expect(
+      getCityActivity('amsterdam', { entityGroup: 'user_profiles' as unknown as 'languages' })
+    ).rejects.toThrow('Validation failed')
+    expect(getCityAdminAccess).not.toHaveBeenCalled()
+  })
+
+  it('should refuse users who do not administer the city', async () => {
+    vi.mocked(getCityAdminAccess).mockResolvedValue({ status: 'forbidden' })
+
+    await expect(getCityActivity('amsterdam')).rejects.toThrow(
+      'Insufficient permissions to view the activity of this city'
+    )
+    expect(session.from).not.toHaveBeenCalled()
+  })
+
+  it('should report failed fetches', async () => {
+    events = createQuery({ data: null, error: { message: 'permission denied' } })
+
+    await expect(getCityActivity('amsterdam')).rejects.toThrow('Failed to fetch activity: permission denied')
+  })
+})
@@ -0,0 +1,220 @@
+/**
+ * Audit Server Actions
+ *
+ * Server-side actions for reading the audit log of a city.
+ *
+ * This module provides:
+ * - getCityActivity: Page through the changes made in a city, filtered by
+ *   user, entity and date
+ *
+ * The log itself is written by database triggers (see lib/audit/events);
+ * there are no actions to write or change it.
+ *
+ * Security features:
+ * - City admin check with getCityAdminAccess
+ * - Events are read with the user's session, so the audit_events RLS policy applies
+ * - Input validation with Zod
+ *
+ * @module app/actions/audit
+ */
+
+'use server'
+
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getCityAdminAccess } from '@/lib/auth/city-admin'
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_GROUPS,
+  type AuditAction,
+  type AuditEntityGroup,
+  type AuditEntityType,
+} from '@/lib/audit/events'
+import { z } from 'zod'
+
+/**
+ * Events per page
+ */
+const ACTIVITY_PAGE_SIZE = 50
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Schema for activity filters
+ */
+const activityFiltersSchema = z.object({
+  actorId: z.string().uuid('Invalid user ID').optional(),
+  entityGroup: z.enum(Object.keys(AUDIT_ENTITY_GROUPS) as [AuditEntityGroup, ...AuditEntityGroup[]]).optional(),
+  action: z.enum(AUDIT_ACTIONS as [AuditAction, ...AuditAction[]]).optional(),
+  from: z.string().regex(DATE_PATTERN, 'Invalid start date').optional(),
+  to: z.string().regex(DATE_PATTERN, 'Invalid end date').optional(),
+  page: z.number().int().min(1).default(1),
+})
+
+/**
+ * Filters for the activity of a city
+ *
+ * Dates are days (YYYY-MM-DD, UTC); both ends are included.
+ */
+export type CityActivityFilters = z.input<typeof activityFiltersSchema>
+
+/**
+ * One recorded change
+ */
+export interface AuditEvent {
+  id: string
+  occurredAt: string
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId: string
+  entityLabel: string | null
+  actorId: string | null
+  /** Name or email of the actor; null for system changes or unknown users */
+  actorName: string | null
+  /** Whole row for deletes, changed columns for updates, null for creates */
+  before: Record<string, unknown> | null
+  /** Whole row for creates, changed columns for updates, null for deletes */
+  after: Record<string, unknown> | null
+}
+
+/**
+ * A page of a city's activity
+ */
+export interface CityActivity {
+  events: AuditEvent[]
+  total: number
+  page: number
+  pageSize: number
+  /** Everyone who changed something in the city, for the user filter */
+  actors: Array<{ id: string; name: string }>
+}
+
+/**
+ * The day after a YYYY-MM-DD date, as an ISO timestamp
+ */
+function getNextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + 1)
+  return next.toISOString()
+}
+
+/**
+ * Get the changes made in a city, newest first
+ *
+ * @param citySlug - City identifier slug
+ * @param filters - User, entity group, action, date range and page
+ * @returns Promise resolving to one page of events
+ * @throws Error if validation fails, the user does not administer the city,
+ * or the fetch fails
+ */
+export async function getCityActivity(citySlug: string, filters: CityActivityFilters = {}): Promise<CityActivity> {
+  const validation = activityFiltersSchema.safeParse(filters)
+
+  if (!validation.success) {
+    const errors = validation.error.issues.map((issue) => issue.message).join(', ')
+    throw new Error(`Validation failed: ${errors}`)
+  }
+
+  const { actorId, entityGroup, action, from, to, page } = validation.data
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+    const access = await getCityAdminAccess(supabase, citySlug)
+
+    if (access.status !== 'granted') {
+      throw new Error(
+        access.status === 'unauthenticated'
+          ? 'Authentication required'
+          : access.status === 'notFound'
+            ? 'City not found'
+            : 'Insufficient permissions to view the activity of this city'
+      )
+    }
+
+    let query = supabase
+      .from('audit_events')
+      .select('id, occurred_at, action, entity_type, entity_id, entity_label, actor_id, before, after', {
+        count: 'exact',
+      })
+      .eq('city_id', access.cityId)
+
+    if (actorId) {
+      query = query.eq('actor_id', actorId)
+    }
+    if (entityGroup) {
+      query = query.in('entity_type', [...AUDIT_ENTITY_GROUPS[entityGroup]])
+    }
+    if (action) {
+      query = query.eq('action', action)
+    }
+    if (from) {
+      query = query.gte('occurred_at', `${from}T00:00:00.000Z`)
+    }
+    if (to) {
+      query = query.lt('occurred_at', getNextDay(to))
+    }
+
+    const start = (page - 1) * ACTIVITY_PAGE_SIZE
+    const { data, error, count } = await query
+      .order('occurred_at', { ascending: false })
+      .range(start, start + ACTIVITY_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch activity: ${error.message}`)
+    }
+
+    const { data: actorRows, error: actorsError } = await supabase.rpc('get_audit_actors', {
+      p_city_id: access.cityId,
+    })
+
+    if (actorsError) {
+      throw new Error(`Failed to fetch activity: ${actorsError.message}`)
+    }
+
+    // Actors are not necessarily members of the city, so their profiles
+    // may be hidden from the admin by RLS
+    const actorIds = ((actorRows ?? []) as Array<{ actor_id: string }>).map((row) => row.actor_id)
+    const actorNames = new Map<string, string>()
+
+    if (actorIds.length > 0) {
+      const { data: profiles, error: profilesError } = await getDatabaseAdminClient('system')
+        .from('user_profiles')
+        .select('id, full_name, email')
+        .in('id', actorIds)
+
+      if (profilesError) {
+        throw new Error(`Failed to fetch user profiles: ${profilesError.message}`)
+      }
+
+      for (const profile of profiles ?? []) {
+        actorNames.set(profile.id, profile.full_name || profile.email)
+      }
+    }
+
+    return {
+      events: (data ?? []).map((event) => ({
+        id: event.id,
+        occurredAt: event.occurred_at,
+        action: event.action as AuditAction,
+        entityType: event.entity_type as AuditEntityType,
+        entityId: event.entity_id,
+        entityLabel: event.entity_label,
+        actorId: event.actor_id,
+        actorName: event.actor_id ? actorNames.get(event.actor_id) ?? null : null,
+        before: event.before,
+        after: event.after,
+      })),
+      total: count ?? 0,
+      page,
+      pageSize: ACTIVITY_PAGE_SIZE,
+      actors: [...actorNames]
+        .map(([id, name]) => ({ id, name }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    }
+  } catch (error) {
+    console.error('Error fetching city activity:', error)
+    throw error instanceof Error
+      ? error
+      : new Error('Failed to fetch activity')
+  }
+}
@@ -12,6 +12,7 @@
 import { revalidatePath } from 'next/cache'
 import { redirect } from 'next/navigation'
 import { getDatabaseAdminClient } from '@/lib/database/client'
+import { defaultLocale, isLocaleCode } from '@/lib/i18n/config'
 
 /**
  * Sign out the current user
@@ -27,14 +28,13 @@ import { getDatabaseAdminClient } from '@/lib/database/client'
  */
 export async function signOutAction(locale: string = 'en'): Promise<void> {
   // Validate locale parameter
-  const validLocales = ['en', 'nl', 'fr'] // From lib/i18n/config.ts
   if (typeof locale !== 'string' || !locale || !locale.trim()) {
     throw new Error('Locale must be a valid string')
   }
 
-  if (!validLocales.includes(locale)) {
-    console.warn(`Invalid locale "${locale}", falling back to "en"`)
-    locale = 'en'
+  if (!isLocaleCode(locale)) {
+    console.warn(`Invalid locale "${locale}", falling back to "${defaultLocale}"`)
+    locale = defaultLocale
   }
 
   try {
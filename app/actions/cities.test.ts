@@ -94,24 +94,12 @@ describe('createCity', () => {
               }),
             }),
           }),
-        })
-        // Third call: create city
-        .mockReturnValueOnce({
-          insert: vi.fn().mockReturnValue({
-            select: vi.fn().mockReturnValue({
-              single: vi.fn().mockResolvedValue({
-                data: mockCity,
-                error: null,
-              }),
-            }),
-          }),
-        })
-        // Fourth call: insert translations
-        .mockReturnValueOnce({
-          insert: vi.fn().mockResolvedValue({
-            error: null,
-          }),
         }),
+      // Create city, translations and locales in one transaction
+      rpc: vi.fn().mockResolvedValue({
+        data: mockCity,
+        error: null,
+      }),
     }
 
     const { getDatabaseAdminClient } = await import('@/lib/database/client')
@@ -127,12 +115,11 @@ describe('createCity', () => {
       center_lat: 52.3676,
       center_lng: 4.9041,
       default_zoom: 10,
-      name_en: 'Amsterdam',
-      description_en: 'Capital city of the Netherlands',
-      name_nl: 'Amsterdam',
-      description_nl: 'Hoofdstad van Nederland',
-      name_fr: 'Amsterdam',
-      description_fr: 'Capitale des Pays-Bas',
+      translations: {
+        en: { name: 'Amsterdam', description: 'Capital city of the Netherlands' },
+        nl: { name: 'Amsterdam', description: 'Hoofdstad van Nederland' },
+        fr: { name: 'Amsterdam', description: 'Capitale des Pays-Bas' },
+      },
     })
 
     if (result.success) {
@@ -141,6 +128,21 @@ describe('createCity', () => {
     } else {
       throw new Error('Expected success but got error: ' + result.error)
     }
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('create_city', {
+      p_city: {
+        slug: 'amsterdam',
+        country_id: '550e8400-e29b-41d4-a716-446655440000',
+        center_lat: 52.3676,
+        center_lng: 4.9041,
+        default_zoom: 10,
+      },
+      p_translations: [
+        { locale_code: 'en', name: 'Amsterdam', description: 'Capital city of the Netherlands' },
+        { locale_code: 'nl', name: 'Amsterdam', description: 'Hoofdstad van Nederland' },
+        { locale_code: 'fr', name: 'Amsterdam', description: 'Capitale des Pays-Bas' },
+      ],
+      p_locale_codes: ['en', 'nl', 'fr'],
+    })
   })
 
   it('should return error for invalid slug format', async () => {
@@ -150,12 +152,11 @@ describe('createCity', () => {
       center_lat: 52.3676,
       center_lng: 4.9041,
       default_zoom: 10,
-      name_en: 'Amsterdam',
-      description_en: 'Capital city',
-      name_nl: 'Amsterdam',
-      description_nl: 'Hoofdstad',
-      name_fr: 'Amsterdam',
-      description_fr: 'Capitale',
+      translations: {
+        en: { name: 'Amsterdam', description: 'Capital city' },
+        nl: { name: 'Amsterdam', description: 'Hoofdstad' },
+        fr: { name: 'Amsterdam', description: 'Capitale' },
+      },
     })
 
     expect(result.success).toBe(false)
@@ -171,12 +172,11 @@ describe('createCity', () => {
       center_lat: 999, // Invalid: out of range
       center_lng: 4.9041,
       default_zoom: 10,
-      name_en: 'Test',
-      description_en: 'Test',
-      name_nl: 'Test',
-      description_nl: 'Test',
-      name_fr: 'Test',
-      description_fr: 'Test',
+      translations: {
+        en: { name: 'Test', description: 'Test' },
+        nl: { name: 'Test', description: 'Test' },
+        fr: { name: 'Test', description: 'Test' },
+      },
     })
 
     expect(result.success).toBe(false)
@@ -185,6 +185,31 @@ describe('createCity', () => {
     }
   })
 
+  it('should return error when English is missing or a locale code is invalid', async () => {
+    const city = {
+      slug: 'berlin',
+      country_id: '550e8400-e29b-41d4-a716-446655440000',
+      center_lat: 52.52,
+      center_lng: 13.405,
+      default_zoom: 10,
+    }
+
+    const withoutEnglish = await createCity({
+      ...city,
+      translations: { de: { name: 'Berlin', description: 'Hauptstadt' } },
+    })
+    const invalidLocale = await createCity({
+      ...city,
+      translations: {
+        en: { name: 'Berlin', description: 'Capital' },
+        german: { name: 'Berlin', description: 'Hauptstadt' },
+      },
+    })
+
+    expect(withoutEnglish).toEqual({ success: false, error: 'Validation failed: English name is required' })
+    expect(invalidLocale).toEqual({ success: false, error: 'Validation failed: Invalid key in record' })
+  })
+
   it('should return error if user not authenticated', async () => {
     const mockAuthSupabase = {
       auth: {
@@ -208,12 +233,11 @@ describe('createCity', () => {
       center_lat: 52.3676,
       center_lng: 4.9041,
       default_zoom: 10,
-      name_en: 'Test',
-      description_en: 'Test',
-      name_nl: 'Test',
-      description_nl: 'Test',
-      name_fr: 'Test',
-      description_fr: 'Test',
+      translations: {
+        en: { name: 'Test', description: 'Test' },
+        nl: { name: 'Test', description: 'Test' },
+        fr: { name: 'Test', description: 'Test' },
+      },
     })
 
     expect(result.success).toBe(false)
@@ -264,12 +288,11 @@ describe('createCity', () => {
       center_lat: 52.3676,
       center_lng: 4.9041,
       default_zoom: 10,
-      name_en: 'Test',
-      description_en: 'Test',
-      name_nl: 'Test',
-      description_nl: 'Test',
-      name_fr: 'Test',
-      description_fr: 'Test',
+      translations: {
+        en: { name: 'Test', description: 'Test' },
+        nl: { name: 'Test', description: 'Test' },
+        fr: { name: 'Test', description: 'Test' },
+      },
     })
 
     expect(result.success).toBe(false)
@@ -333,12 +356,11 @@ describe('createCity', () => {
       center_lat: 52.3676,
       center_lng: 4.9041,
       default_zoom: 10,
-      name_en: 'Test',
-      description_en: 'Test',
-      name_nl: 'Test',
-      description_nl: 'Test',
-      name_fr: 'Test',
-      description_fr: 'Test',
+      translations: {
+        en: { name: 'Test', description: 'Test' },
+        nl: { name: 'Test', description: 'Test' },
+        fr: { name: 'Test', description: 'Test' },
+      },
     })
 
     expect(result.success).toBe(false)
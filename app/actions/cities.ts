@@ -9,7 +9,7 @@
  * Security features:
  * - Superuser role required
  * - Input validation with Zod
- * - Database transaction for atomic operations
+ * - Database transaction for atomic operations (create_city)
  *
  * @module app/actions/cities
  */
@@ -22,7 +22,7 @@ import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
 import { createCityFormSchema } from '@/lib/validations/city'
 
 /**
- * Create a new city with multilingual translations
+ * Create a new city with multilingual translations and its enabled locales
  *
  * @param input - City creation data
  * @returns Promise resolving to success result or error
@@ -33,12 +33,8 @@ export async function createCity(input: {
   center_lat: number
   center_lng: number
   default_zoom: number
-  name_en: string
-  description_en: string
-  name_nl: string
-  description_nl: string
-  name_fr: string
-  description_fr: string
+  /** Name and description per locale; the city is enabled for these locales */
+  translations: Record<string, { name: string; description: string }>
 }): Promise<{ success: true; data: { id: string; slug: string } } | { success: false; error: string }> {
   // Validate input
   const validation = createCityFormSchema.safeParse(input)
@@ -65,7 +61,7 @@ export async function createCity(input: {
     }
 
     // Use admin client for database operations
-    const supabase = getDatabaseAdminClient('system')
+    const supabase = getDatabaseAdminClient('system', { actorId: user.id })
 
     // Check if user is superuser
     const { data: profile } = await supabase
@@ -89,54 +85,25 @@ export async function createCity(input: {
       return { success: false, error: 'A city with this slug already exists' }
     }
 
-    // Use a transaction to ensure atomic operations
-    // 1. Create the city
-    const { data: city, error: cityError } = await supabase
-      .from('cities')
-      .insert({
+    // Create the city, its translations and enabled locales in one transaction
+    const { data: city, error: cityError } = await supabase.rpc('create_city', {
+      p_city: {
         slug,
         country_id,
         center_lat,
         center_lng,
         default_zoom,
-      })
-      .select()
-      .single()
-
-    if (cityError) {
-      return { success: false, error: `Failed to create city: ${cityError.message}` }
-    }
-
-    // 2. Create city translations for each locale
-    const translations = [
-      {
-        city_id: city.id,
-        locale_code: 'en',
-        name: data.name_en,
-        description: data.description_en,
       },
-      {
-        city_id: city.id,
-        locale_code: 'nl',
-        name: data.name_nl,
-        description: data.description_nl,
-      },
-      {
-        city_id: city.id,
-        locale_code: 'fr',
-        name: data.name_fr,
-        description: data.description_fr,
-      },
-    ]
-
-    const { error: translationError } = await supabase
-      .from('city_translations')
-      .insert(translations)
-
-    if (translationError) {
-      // Rollback: Delete the city if translations fail
-      await supabase.from('cities').delete().eq('id', city.id)
-      return { success: false, error: `Failed to create translations: ${translationError.message}` }
+      p_translations: Object.entries(data.translations).map(([locale_code, translation]) => ({
+        locale_code,
+        name: translation.name,
+        description: translation.description,
+      })),
+      p_locale_codes: Object.keys(data.translations),
+    })
+
+    if (cityError || !city) {
+      return { success: false, error: `Failed to create city: ${cityError?.message ?? 'Unknown error'}` }
     }
 
     // Revalidate paths
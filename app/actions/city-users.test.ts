@@ -0,0 +1,236 @@
+/**
+ * City User Server Actions Tests
+ *
+ * Tests for listing city members, changing their roles, revoking their
+ * access and deactivating accounts.
+ *
+ * @module app/actions/city-users.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getCityMembers, updateCityMemberRole, removeCityMember, setUserActive } from './city-users'
+import { getCityAdminAccess } from '@/lib/auth/city-admin'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { createQuery } from '@/__tests__/helpers/supabase'
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock('@/lib/database/client', () => ({
+  getDatabaseAdminClient: vi.fn(),
+}))
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/city-admin', () => ({
+  getCityAdminAccess: vi.fn(),
+}))
+
+const ADMIN_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c01'
+const MEMBER_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c02'
+const SUPERUSER_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c03'
+
+/**
+ * Session client mock whose profiles have the given account roles
+ */
+function createSessionClient(options: {
+  userId?: string
+  roles?: Record<string, string>
+  cityUsers?: unknown[]
+  rpcError?: { code?: string; message: string } | null
+}) {
+  const { userId = ADMIN_ID, roles = { [ADMIN_ID]: 'admin', [MEMBER_ID]: 'operator' }, cityUsers = [], rpcError = null } =
+    options
+  const updates = createQuery({ error: null })
+
+  const client = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }) },
+    from: vi.fn((table: string) => {
+      if (table === 'city_users') {
+        return createQuery({ data: cityUsers, error: null })
+      }
+
+      const profiles = createQuery({ data: null, error: null })
+      profiles.in = vi.fn((_column: string, ids: string[]) =>
+        createQuery({
+          data: ids.filter((id) => roles[id]).map((id) => ({ id, role: roles[id] })),
+          error: null,
+        })
+      )
+      profiles.update = vi.fn(() => updates)
+      return profiles
+    }),
+    rpc: vi.fn().mockResolvedValue({ error: rpcError }),
+  }
+
+  vi.mocked(getServerSupabaseWithCookies).mockResolvedValue(client as never)
+  return { client, updates }
+}
+
+describe('city user actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCityAdminAccess).mockResolvedValue({ status: 'granted', userId: ADMIN_ID, cityId: 'city-1' })
+  })
+
+  describe('getCityMembers', () => {
+    it('should list members with what the admin may do with them', async () => {
+      createSessionClient({
+        roles: { [ADMIN_ID]: 'admin' },
+        cityUsers: [
+          {
+            user_id: MEMBER_ID,
+            role: 'operator',
+            granted_at: '2025-01-02T00:00:00Z',
+            member: { email: 'ana@example.com', full_name: 'Ana', role: 'operator', is_active: true },
+            granter: { full_name: null, email: 'admin@example.com' },
+          },
+          {
+            user_id: SUPERUSER_ID,
+            role: 'admin',
+            granted_at: '2025-01-01T00:00:00Z',
+            member: { email: 'root@example.com', full_name: 'Root', role: 'superuser', is_active: true },
+            granter: null,
+          },
+          {
+            user_id: ADMIN_ID,
+            role: 'admin',
+            granted_at: '2025-01-01T00:00:00Z',
+            member: { email: 'admin@example.com', full_name: 'Alice', role: 'admin', is_active: true },
+            granter: null,
+          },
+        ],
+      })
+
+      const result = await getCityMembers('amsterdam')
+
+      expect(result.canDeactivate).toBe(false)
+      expect(result.members.map((member) => [member.fullName, member.cityRole, member.isSelf, member.canManage])).toEqual([
+        ['Alice', 'admin', true, false],
+        ['Root', 'admin', false, false],
+        ['Ana', 'operator', false, true],
+      ])
+      expect(result.members[2].grantedByName).toBe('admin@example.com')
+    })
+
+    it('should let superusers deactivate accounts', async () => {
+      createSessionClient({ roles: { [ADMIN_ID]: 'superuser' } })
+
+      expect((await getCityMembers('amsterdam')).canDeactivate).toBe(true)
+    })
+
+    it('should refuse users who do not administer the city', async () => {
+      createSessionClient({})
+      vi.mocked(getCityAdminAccess).mockResolvedValue({ status: 'forbidden' })
+
+      await expect(getCityMembers('amsterdam')).rejects.toThrow('Insufficient permissions to manage users of this city')
+    })
+  })
+
+  describe('updateCityMemberRole', () => {
+    it('should change the role through the database function', async () => {
+      const { client } = createSessionClient({})
+
+      const result = await updateCityMemberRole('amsterdam', MEMBER_ID, 'admin')
+
+      expect(result.success).toBe(true)
+      expect(client.rpc).toHaveBeenCalledWith('set_city_user_role', {
+        p_city_id: 'city-1',
+        p_user_id: MEMBER_ID,
+        p_role: 'admin',
+      })
+    })
+
+    it('should refuse changes to the admin themselves and to superusers', async () => {
+      const { client } = createSessionClient({ roles: { [ADMIN_ID]: 'admin', [SUPERUSER_ID]: 'superuser' } })
+
+      await expect(updateCityMemberRole('amsterdam', ADMIN_ID, 'operator')).rejects.toThrow(
+        'You cannot change your own access'
+      )
+      await expect(updateCityMemberRole('amsterdam', SUPERUSER_ID, 'operator')).rejects.toThrow(
+        'Only superusers can manage superusers'
+      )
+      expect(client.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should pass on checks raised by the database', async () => {
+      createSessionClient({ rpcError: { code: 'P0001', message: 'A city needs at least one admin' } })
+
+      await expect(updateCityMemberRole('amsterdam', MEMBER_ID, 'operator')).rejects.toThrow(
+        'A city needs at least one admin'
+      )
+    })
+
+    it('should hide other database errors', async () => {
+      createSessionClient({ rpcError: { code: '08006', message: 'connection failure' } })
+
+      await expect(updateCityMemberRole('amsterdam', MEMBER_ID, 'operator')).rejects.toThrow('Failed to update role')
+    })
+
+    it('should validate the input', async () => {
+      await expect(updateCityMemberRole('amsterdam', 'not-a-uuid', 'admin')).rejects.toThrow('Validation failed')
+      await expect(
+        updateCityMemberRole('amsterdam', MEMBER_ID, 'superuser' as unknown as 'admin')
+      ).rejects.toThrow('Validation failed')
+      expect(getCityAdminAccess).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('removeCityMember', () => {
+    it('should revoke access through the database function', async () => {
+      const { client } = createSessionClient({})
+
+      await removeCityMember('amsterdam', MEMBER_ID)
+
+      expect(client.rpc).toHaveBeenCalledWith('remove_city_user', { p_city_id: 'city-1', p_user_id: MEMBER_ID })
+    })
+
+    it('should refuse members who are not in the city', async () => {
+      const { client } = createSessionClient({ roles: { [ADMIN_ID]: 'admin' } })
+
+      await expect(removeCityMember('amsterdam', MEMBER_ID)).rejects.toThrow('User is not a member of this city')
+      expect(client.rpc).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('setUserActive', () => {
+    let updateUserById: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      updateUserById = vi.fn().mockResolvedValue({ error: null })
+      vi.mocked(getDatabaseAdminClient).mockReturnValue({ auth: { admin: { updateUserById } } } as never)
+    })
+
+    it('should ban and mark the account inactive', async () => {
+      const { updates } = createSessionClient({ roles: { [ADMIN_ID]: 'superuser', [MEMBER_ID]: 'operator' } })
+
+      const result = await setUserActive(MEMBER_ID, false)
+
+      expect(result.message).toBe('Account deactivated successfully')
+      expect(updateUserById).toHaveBeenCalledWith(MEMBER_ID, { ban_duration: '876000h' })
+      expect(updates.eq).toHaveBeenCalledWith('id', MEMBER_ID)
+    })
+
+    it('should lift the ban when reactivating', async () => {
+      createSessionClient({ roles: { [ADMIN_ID]: 'superuser', [MEMBER_ID]: 'operator' } })
+
+      await setUserActive(MEMBER_ID, true)
+
+      expect(updateUserById).toHaveBeenCalledWith(MEMBER_ID, { ban_duration: 'none' })
+    })
+
+    it('should only let superusers deactivate other accounts', async () => {
+      createSessionClient({})
+      await expect(setUserActive(MEMBER_ID, false)).rejects.toThrow('Only superusers can deactivate accounts')
+
+      createSessionClient({ roles: { [ADMIN_ID]: 'superuser' } })
+      await expect(setUserActive(ADMIN_ID, false)).rejects.toThrow('You cannot deactivate your own account')
+
+      expect(updateUserById).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,405 @@
+/**
+ * City User Server Actions
+ *
+ * Server-side actions for managing the members of a city.
+ *
+ * This module provides:
+ * - getCityMembers: List the members of a city for its admins
+ * - updateCityMemberRole: Promote an operator to admin or demote an admin
+ * - removeCityMember: Revoke a member's access to a city
+ * - setUserActive: Deactivate or reactivate an account (superusers only)
+ *
+ * Security features:
+ * - City admin checks with getCityAdminAccess, repeated in the database by
+ *   the set_city_user_role and remove_city_user functions (is_city_admin)
+ * - Queries run with the user's session, so RLS policies apply
+ * - Members whose account role outranks the admin (ROLE_LEVEL) cannot be changed
+ * - Every city keeps at least one admin
+ * - Input validation with Zod
+ *
+ * @module app/actions/city-users
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getCityAdminAccess } from '@/lib/auth/city-admin'
+import { isSuperuser, isValidRole, ROLE_LEVEL, type UserRole } from '@/lib/auth/authorization'
+import { z } from 'zod'
+
+/**
+ * How long a deactivated account is banned from signing in (about 100 years)
+ */
+const DEACTIVATED_BAN_DURATION = '876000h'
+
+/**
+ * Postgres error code of RAISE EXCEPTION; its messages are meant for users
+ */
+const RAISE_EXCEPTION_CODE = 'P0001'
+
+/**
+ * Schema for a member change
+ */
+const memberSchema = z.object({
+  citySlug: z.string().min(1, 'Invalid city slug'),
+  userId: z.string().uuid('Invalid user ID'),
+})
+
+const memberRoleSchema = memberSchema.extend({
+  role: z.enum(['admin', 'operator'] as const),
+})
+
+/**
+ * Role of a member within one city
+ */
+export type CityMemberRole = 'admin' | 'operator'
+
+/**
+ * Member of a city, as listed for its admins
+ */
+export interface CityMember {
+  userId: string
+  email: string
+  fullName: string | null
+  cityRole: CityMemberRole
+  accountRole: UserRole
+  isActive: boolean
+  grantedAt: string
+  grantedByName: string | null
+  isSelf: boolean
+  /** Whether the viewer may change the member's role or remove them */
+  canManage: boolean
+}
+
+/**
+ * Members of a city and what the viewer may do with them
+ */
+export interface CityMembers {
+  members: CityMember[]
+  /** Whether the viewer may deactivate and reactivate accounts */
+  canDeactivate: boolean
+}
+
+/**
+ * Check whether an account may be managed by another
+ *
+ * Nobody manages their own membership, and an admin cannot change a
+ * superuser.
+ */
+function canManageAccount(actor: { id: string; role: UserRole }, target: { id: string; role: UserRole }): boolean {
+  return actor.id !== target.id && ROLE_LEVEL[target.role] <= ROLE_LEVEL[actor.role]
+}
+
+/**
+ * Get the session client and IDs of a city admin, or throw
+ */
+async function requireCityAdmin(
+  citySlug: string
+): Promise<{ supabase: SupabaseClient; userId: string; cityId: string }> {
+  const supabase = await getServerSupabaseWithCookies(citySlug)
+  const access = await getCityAdminAccess(supabase, citySlug)
+
+  switch (access.status) {
+    case 'granted':
+      return { supabase, userId: access.userId, cityId: access.cityId }
+    case 'unauthenticated':
+      throw new Error('Authentication required')
+    case 'notFound':
+      throw new Error('City not found')
+    case 'forbidden':
+      throw new Error('Insufficient permissions to manage users of this city')
+  }
+}
+
+/**
+ * Get the account roles of users, by ID
+ */
+async function getAccountRoles(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, UserRole>> {
+  const { data, error } = await supabase.from('user_profiles').select('id, role').in('id', userIds)
+
+  if (error) {
+    throw new Error(`Failed to fetch user profiles: ${error.message}`)
+  }
+
+  return new Map(
+    (data ?? []).flatMap((profile) => (isValidRole(profile.role) ? [[profile.id, profile.role] as const] : []))
+  )
+}
+
+/**
+ * Check that the signed-in admin may change a member of their city
+ *
+ * @returns The session client and the city ID
+ */
+async function requireManageableMember(
+  citySlug: string,
+  userId: string
+): Promise<{ supabase: SupabaseClient; cityId: string }> {
+  const { supabase, userId: actorId, cityId } = await requireCityAdmin(citySlug)
+
+  if (actorId === userId) {
+    throw new Error('You cannot change your own access')
+  }
+
+  const roles = await getAccountRoles(supabase, [actorId, userId])
+  const actorRole = roles.get(actorId)
+  const memberRole = roles.get(userId)
+
+  if (!actorRole || !memberRole) {
+    throw new Error('User is not a member of this city')
+  }
+
+  if (!canManageAccount({ id: actorId, role: actorRole }, { id: userId, role: memberRole })) {
+    throw new Error('Only superusers can manage superusers')
+  }
+
+  return { supabase, cityId }
+}
+
+/**
+ * Error for a failed member function call
+ *
+ * Checks raised by the database function are passed on as they are.
+ */
+function toMemberError(error: { code?: string; message: string }, fallback: string): Error {
+  return new Error(error.code === RAISE_EXCEPTION_CODE ? error.message : fallback)
+}
+
+/**
+ * Get the members of a city
+ *
+ * @param citySlug - City identifier slug
+ * @returns Promise resolving to the members, admins first, then by name
+ * @throws Error if the user does not administer the city or the fetch fails
+ */
+export async function getCityMembers(citySlug: string): Promise<CityMembers> {
+  try {
+    const { supabase, userId, cityId } = await requireCityAdmin(citySlug)
+
+    const { data, error } = await supabase
+      .from('city_users')
+      .select(`
+        user_id,
+        role,
+        granted_at,
+        member:user_profiles!city_users_user_id_fkey (email, full_name, role, is_active),
+        granter:user_profiles!city_users_granted_by_fkey (full_name, email)
+      `)
+      .eq('city_id', cityId)
+
+    if (error) {
+      throw new Error(`Failed to fetch city members: ${error.message}`)
+    }
+
+    const actorRole = (await getAccountRoles(supabase, [userId])).get(userId) ?? 'operator'
+    const actor = { id: userId, role: actorRole }
+
+    const members = (data ?? []).map((row): CityMember => {
+      const member = row.member as unknown as {
+        email: string
+        full_name: string | null
+        role: string
+        is_active: boolean
+      } | null
+      const granter = row.granter as unknown as { full_name: string | null; email: string } | null
+      const accountRole = isValidRole(member?.role) ? member.role : 'operator'
+
+      return {
+        userId: row.user_id,
+        email: member?.email ?? '',
+        fullName: member?.full_name ?? null,
+        cityRole: row.role === 'admin' ? 'admin' : 'operator',
+        accountRole,
+        isActive: member?.is_active ?? true,
+        grantedAt: row.granted_at,
+        grantedByName: granter ? granter.full_name || granter.email : null,
+        isSelf: row.user_id === userId,
+        canManage: canManageAccount(actor, { id: row.user_id, role: accountRole }),
+      }
+    })
+
+    members.sort(
+      (a, b) =>
+        Number(b.cityRole === 'admin') - Number(a.cityRole === 'admin') ||
+        (a.fullName ?? a.email).localeCompare(b.fullName ?? b.email)
+    )
+
+    return { members, canDeactivate: isSuperuser(actorRole) }
+  } catch (error) {
+    console.error('Error fetching city members:', error)
+    throw error instanceof Error
+      ? error
+      : new Error('Failed to fetch city members')
+  }
+}
+
+/**
+ * Change the role of a city member
+ *
+ * Promoting an operator also gives their account the admin role, so they can
+ * open the admin pages; demoting an admin's last admin city takes it away.
+ *
+ * @param citySlug - City identifier slug
+ * @param userId - ID of the member
+ * @param role - New role in the city
+ * @returns Promise resolving to the result
+ * @throws Error if validation fails, the user may not change the member, or
+ * the change would leave the city without an admin
+ */
+export async function updateCityMemberRole(citySlug: string, userId: string, role: CityMemberRole) {
+  const validation = memberRoleSchema.safeParse({ citySlug, userId, role })
+
+  if (!validation.success) {
+    const errors = validation.error.issues.map((issue) => issue.message).join(', ')
+    throw new Error(`Validation failed: ${errors}`)
+  }
+
+  try {
+    const { supabase, cityId } = await requireManageableMember(citySlug, userId)
+
+    const { error } = await supabase.rpc('set_city_user_role', {
+      p_city_id: cityId,
+      p_user_id: userId,
+      p_role: role,
+    })
+
+    if (error) {
+      throw toMemberError(error, 'Failed to update role')
+    }
+
+    revalidatePath('/[locale]/admin/[citySlug]/users', 'page')
+
+    return { success: true, message: 'Role updated successfully' }
+  } catch (error) {
+    console.error('Error updating city member role:', error)
+    throw error instanceof Error
+      ? error
+      : new Error('Failed to update role')
+  }
+}
+
+/**
+ * Revoke a member's access to a city
+ *
+ * @param citySlug - City identifier slug
+ * @param userId - ID of the member
+ * @returns Promise resolving to the result
+ * @throws Error if validation fails, the user may not change the member, or
+ * the member is the city's last admin
+ */
+export async function removeCityMember(citySlug: string, userId: string) {
+  const validation = memberSchema.safeParse({ citySlug, userId })
+
+  if (!validation.success) {
+    const errors = validation.error.issues.map((issue) => issue.message).join(', ')
+    throw new Error(`Validation failed: ${errors}`)
+  }
+
+  try {
+    const { supabase, cityId } = await requireManageableMember(citySlug, userId)
+
+    const { error } = await supabase.rpc('remove_city_user', {
+      p_city_id: cityId,
+      p_user_id: userId,
+    })
+
+    if (error) {
+      throw toMemberError(error, 'Failed to remove user')
+    }
+
+    revalidatePath('/[locale]/admin/[citySlug]/users', 'page')
+
+    return { success: true, message: 'City access revoked successfully' }
+  } catch (error) {
+    console.error('Error removing city member:', error)
+    throw error instanceof Error
+      ? error
+      : new Error('Failed to remove user')
+  }
+}
+
+/**
+ * Deactivate or reactivate an account
+ *
+ * A deactivated account keeps its city roles but cannot sign in: it is
+ * banned in Supabase Auth and marked inactive in its profile.
+ *
+ * @param userId - ID of the account
+ * @param active - Whether the account should be active
+ * @returns Promise resolving to the result
+ * @throws Error if the user is not a superuser, targets their own account,
+ * or the update fails
+ */
+export async function setUserActive(userId: string, active: boolean) {
+  const validation = z
+    .object({ userId: z.string().uuid('Invalid user ID'), active: z.boolean() })
+    .safeParse({ userId, active })
+
+  if (!validation.success) {
+    const errors = validation.error.issues.map((issue) => issue.message).join(', ')
+    throw new Error(`Validation failed: ${errors}`)
+  }
+
+  try {
+    const supabase = await getServerSupabaseWithCookies('system')
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      throw new Error('Authentication required')
+    }
+
+    if (user.id === userId) {
+      throw new Error('You cannot deactivate your own account')
+    }
+
+    const roles = await getAccountRoles(supabase, [user.id, userId])
+    const actorRole = roles.get(user.id)
+    const targetRole = roles.get(userId)
+
+    if (!isSuperuser(actorRole)) {
+      throw new Error('Only superusers can deactivate accounts')
+    }
+
+    if (!targetRole) {
+      throw new Error('User not found')
+    }
+
+    // Block or allow sign-in first; the profile flag follows
+    const { error: banError } = await getDatabaseAdminClient('system').auth.admin.updateUserById(userId, {
+      ban_duration: active ? 'none' : DEACTIVATED_BAN_DURATION,
+    })
+
+    if (banError) {
+      throw new Error(`Failed to update sign-in access: ${banError.message}`)
+    }
+
+    // Superusers may update every profile (RLS)
+    const { error: updateError } = await supabase
+      .from('user_profiles')
+      .update({ is_active: active, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+
+    if (updateError) {
+      throw new Error(`Failed to update account: ${updateError.message}`)
+    }
+
+    revalidatePath('/[locale]/admin/[citySlug]/users', 'page')
+
+    return {
+      success: true,
+      message: active ? 'Account reactivated successfully' : 'Account deactivated successfully',
+    }
+  } catch (error) {
+    console.error('Error updating account status:', error)
+    throw error instanceof Error
+      ? error
+      : new Error('Failed to update account')
+  }
+}
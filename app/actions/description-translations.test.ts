@@ -104,9 +104,11 @@ describe('getDescriptionTranslations', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: mockDescriptionId, city_id: 'city-1' },
-                  error: null,
+                is: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({
+                    data: { id: mockDescriptionId, city_id: 'city-1' },
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -166,9 +168,11 @@ describe('getDescriptionTranslations', () => {
       from: vi.fn(() => ({
         select: vi.fn().mockReturnValue({
           eq: vi.fn().mockReturnValue({
-            single: vi.fn().mockResolvedValue({
-              data: null,
-              error: { message: 'Not found', code: 'PGRST116' },
+            is: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: null,
+                error: { message: 'Not found', code: 'PGRST116' },
+              }),
             }),
           }),
         }),
@@ -187,9 +191,11 @@ describe('getDescriptionTranslations', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: mockDescriptionId, city_id: 'city-1' },
-                  error: null,
+                is: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({
+                    data: { id: mockDescriptionId, city_id: 'city-1' },
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -223,9 +229,11 @@ describe('getDescriptionTranslations', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: mockDescriptionId, city_id: 'city-1' },
-                  error: null,
+                is: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({
+                    data: { id: mockDescriptionId, city_id: 'city-1' },
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -265,9 +273,11 @@ describe('upsertDescriptionTranslation', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: mockDescriptionId, city_id: 'city-1' },
-                  error: null,
+                is: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({
+                    data: { id: mockDescriptionId, city_id: 'city-1' },
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -330,9 +340,11 @@ describe('upsertDescriptionTranslation', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: mockDescriptionId, city_id: 'city-1' },
-                  error: null,
+                is: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({
+                    data: { id: mockDescriptionId, city_id: 'city-1' },
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -432,9 +444,11 @@ describe('upsertDescriptionTranslation', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: mockDescriptionId, city_id: 'city-1' },
-                  error: null,
+                is: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({
+                    data: { id: mockDescriptionId, city_id: 'city-1' },
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -471,9 +485,11 @@ describe('upsertDescriptionTranslation', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: mockDescriptionId, city_id: 'city-1' },
-                  error: null,
+                is: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({
+                    data: { id: mockDescriptionId, city_id: 'city-1' },
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -536,9 +552,11 @@ describe('upsertDescriptionTranslation', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: mockDescriptionId, city_id: 'city-1' },
-                  error: null,
+                is: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({
+                    data: { id: mockDescriptionId, city_id: 'city-1' },
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -603,9 +621,11 @@ describe('deleteDescriptionTranslation', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: mockDescriptionId, city_id: 'city-1' },
-                  error: null,
+                is: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({
+                    data: { id: mockDescriptionId, city_id: 'city-1' },
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -673,9 +693,11 @@ describe('deleteDescriptionTranslation', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: mockDescriptionId, city_id: 'city-1' },
-                  error: null,
+                is: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({
+                    data: { id: mockDescriptionId, city_id: 'city-1' },
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -13,6 +13,7 @@
 
 import { revalidatePath } from 'next/cache'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { recordRevision } from '@/lib/revisions/record'
 import { z } from 'zod'
 import { sanitizeDescription, VALIDATION_LIMITS } from '@/lib/sanitization'
 
@@ -88,6 +89,7 @@ export async function getDescriptionTranslations(
       .from('descriptions')
       .select('id, city_id')
       .eq('id', descriptionId)
+      .is('deleted_at', null)
       .single()
 
     if (descriptionError || !description) {
@@ -174,6 +176,7 @@ export async function upsertDescriptionTranslation(
       .from('descriptions')
       .select('id, city_id')
       .eq('id', descriptionId)
+      .is('deleted_at', null)
       .single()
 
     if (descriptionError || !description) {
@@ -276,6 +279,8 @@ export async function upsertDescriptionTranslation(
       translation = newTranslation
     }
 
+    await recordRevision(supabase, 'description', descriptionId)
+
     // Revalidate related pages
     revalidatePath(`/[locale]/operator/${citySlug}/descriptions`)
     revalidatePath(`/[locale]/operator/${citySlug}/descriptions/${descriptionId}`)
@@ -345,6 +350,7 @@ export async function deleteDescriptionTranslation(
       .from('descriptions')
       .select('id, city_id')
       .eq('id', descriptionId)
+      .is('deleted_at', null)
       .single()
 
     if (descriptionError || !description) {
@@ -369,6 +375,8 @@ export async function deleteDescriptionTranslation(
       throw new Error('Failed to delete translation. Please try again or contact support.')
     }
 
+    await recordRevision(supabase, 'description', descriptionId)
+
     // Revalidate related pages
     revalidatePath(`/[locale]/operator/${citySlug}/descriptions`)
     revalidatePath(`/[locale]/operator/${citySlug}/descriptions/${descriptionId}`)
@@ -0,0 +1,151 @@
+/**
+ * Description Server Actions Tests
+ *
+ * Tests for drafting descriptions with AI.
+ *
+ * @module app/actions/descriptions.test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { generateDescriptionDraft } from './descriptions'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { createQuery } from '@/__tests__/helpers/supabase'
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(),
+}))
+
+const LANGUAGE_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c02'
+const NEIGHBORHOOD_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c03'
+
+const language = {
+  id: LANGUAGE_ID,
+  endonym: 'Türkçe',
+  iso_639_3_code: 'tur',
+  translations: [
+    { locale_code: 'en', name: 'Turkish' },
+    { locale_code: 'nl', name: 'Turks' },
+  ],
+  language_family: { translations: [{ locale_code: 'en', name: 'Turkic' }] },
+  country_of_origin: null,
+  taxonomies: [
+    {
+      taxonomy_value: {
+        deleted_at: null,
+        translations: [{ locale_code: 'nl', name: 'Stabiel' }],
+        taxonomy_type: { display_order: 2, translations: [{ locale_code: 'nl', name: 'Status' }] },
+      },
+    },
+    {
+      taxonomy_value: {
+        deleted_at: '2025-03-01T10:00:00Z',
+        translations: [{ locale_code: 'nl', name: 'Klein' }],
+        taxonomy_type: { display_order: 1, translations: [{ locale_code: 'nl', name: 'Grootte' }] },
+      },
+    },
+    {
+      taxonomy_value: {
+        deleted_at: null,
+        translations: [{ locale_code: 'en', name: 'Large' }],
+        taxonomy_type: { display_order: 1, translations: [{ locale_code: 'nl', name: 'Grootte' }] },
+      },
+    },
+  ],
+}
+
+describe('generateDescriptionDraft', () => {
+  let tables: Record<string, ReturnType<typeof createQuery>>
+  let session: {
+    auth: { getUser: ReturnType<typeof vi.fn> }
+    from: ReturnType<typeof vi.fn>
+    rpc: ReturnType<typeof vi.fn>
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('NEXT_PUBLIC_ENABLE_AI_FEATURES', 'true')
+    vi.stubEnv('AI_PROVIDER', 'local')
+
+    tables = {
+      cities: createQuery({
+        data: { id: 'city-1', slug: 'amsterdam', translations: [{ locale_code: 'en', name: 'Amsterdam' }] },
+        error: null,
+      }),
+      languages: createQuery({ data: language, error: null }),
+      neighborhoods: createQuery({
+        data: { slug: 'spaarndammerbuurt', translations: [{ locale_code: 'nl', name: 'Spaarndammerbuurt' }] },
+        error: null,
+      }),
+    }
+    session = {
+      auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }) },
+      from: vi.fn((table: string) => tables[table]),
+      rpc: vi.fn().mockResolvedValue({ data: true, error: null }),
+    }
+    vi.mocked(getServerSupabaseWithCookies).mockResolvedValue(session as never)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should draft a description from what is known about the language', async () => {
+    const draft = await generateDescriptionDraft('amsterdam', {
+      language_id: LANGUAGE_ID,
+      neighborhood_id: NEIGHBORHOOD_ID,
+      locale: 'nl',
+    })
+
+    expect(session.rpc).toHaveBeenCalledWith('has_city_access', { p_user_id: 'user-1', p_city_id: 'city-1' })
+    expect(tables.languages.eq).toHaveBeenCalledWith('id', LANGUAGE_ID)
+    expect(tables.languages.eq).toHaveBeenCalledWith('city_id', 'city-1')
+    expect(tables.languages.is).toHaveBeenCalledWith('deleted_at', null)
+    expect(tables.neighborhoods.eq).toHaveBeenCalledWith('id', NEIGHBORHOOD_ID)
+    expect(draft).toEqual({
+      text:
+        'Draft written without an AI model. Language: Turks. Name in the language itself: Türkçe. ' +
+        'ISO 639-3 code: tur. Language family: Turkic. Neighborhood: Spaarndammerbuurt. ' +
+        'Grootte: Large. Status: Stabiel.',
+      model: 'local-stub',
+    })
+  })
+
+  it('should not draft without a language', async () => {
+    await expect(
+      generateDescriptionDraft('amsterdam', { language_id: '', neighborhood_id: null, locale: 'en' })
+    ).rejects.toThrow('Validation error: Please select a language')
+    expect(session.from).not.toHaveBeenCalled()
+  })
+
+  it('should not draft for users without a role in the city', async () => {
+    session.rpc.mockResolvedValue({ data: false, error: null })
+
+    await expect(
+      generateDescriptionDraft('amsterdam', { language_id: LANGUAGE_ID, neighborhood_id: null, locale: 'en' })
+    ).rejects.toThrow('Failed to generate description: Insufficient permissions')
+    expect(session.from).not.toHaveBeenCalledWith('languages')
+  })
+
+  it('should reject languages of other cities or in the trash', async () => {
+    tables.languages = createQuery({ data: null, error: { code: 'PGRST116', message: 'No rows' } })
+
+    await expect(
+      generateDescriptionDraft('amsterdam', { language_id: LANGUAGE_ID, neighborhood_id: null, locale: 'en' })
+    ).rejects.toThrow('Language not found')
+  })
+
+  it('should report that AI generation is switched off', async () => {
+    vi.stubEnv('AI_PROVIDER', '')
+    vi.stubEnv('ANTHROPIC_API_KEY', '')
+    vi.stubEnv('OPENAI_API_KEY', '')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(
+      generateDescriptionDraft('amsterdam', { language_id: LANGUAGE_ID, neighborhood_id: null, locale: 'en' })
+    ).rejects.toThrow('Failed to generate description')
+  })
+})
@@ -9,6 +9,10 @@
 import { revalidatePath } from 'next/cache'
 import { z } from 'zod'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { recordRevision } from '@/lib/revisions/record'
+import { findTranslation, pickTranslations } from '@/lib/i18n/config'
+import { createTextGenerator } from '@/lib/ai'
+import { buildDescriptionPrompt, type DescriptionPromptContext } from '@/lib/ai/description-prompt'
 
 /**
  * Type definitions for database query results
@@ -73,8 +77,43 @@ const DescriptionTranslationSchema = z.object({
   ai_model: z.string().nullable().optional(),
 })
 
+/**
+ * Validation schema for a description draft request
+ */
+const DescriptionDraftSchema = z.object({
+  language_id: z.string().uuid('Please select a language'),
+  neighborhood_id: z.string().uuid().nullable().optional(),
+  locale: z.string().min(2).max(10),
+})
+
 export type DescriptionFormData = z.infer<typeof DescriptionSchema>
 export type DescriptionTranslationData = z.infer<typeof DescriptionTranslationSchema>
+export type DescriptionDraftRequest = z.infer<typeof DescriptionDraftSchema>
+
+/**
+ * AI-written first draft of a description
+ */
+export interface DescriptionDraft {
+  text: string
+  /** Model that wrote the draft, saved as the description's ai_model */
+  model: string
+}
+
+/**
+ * Translated names as returned by the translation joins
+ */
+type NameTranslations = Array<{ locale_code: string; name: string }> | null
+
+/**
+ * Name in the locale, falling back to English
+ */
+function pickName(translations: NameTranslations, locale: string): string | null {
+  return (
+    translations?.find((t) => t.locale_code === locale)?.name ??
+    translations?.find((t) => t.locale_code === 'en')?.name ??
+    null
+  )
+}
 
 /**
  * Retrieves all descriptions for a city with related data
@@ -140,6 +179,7 @@ export async function getDescriptions(citySlug: string, locale: string) {
         )
       `)
       .eq('city_id', city.id)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -247,12 +287,12 @@ export async function getDescription(
         language:languages(
           id,
           endonym,
-          translations:language_translations!inner(name, locale_code)
+          translations:language_translations(name, locale_code)
         ),
         neighborhood:neighborhoods(
           id,
           slug,
-          translations:neighborhood_translations!inner(name, locale_code)
+          translations:neighborhood_translations(name, locale_code)
         ),
         translations:description_translations(
           text,
@@ -265,7 +305,7 @@ export async function getDescription(
         )
       `)
       .eq('id', descriptionId)
-      .eq('language.translations.locale_code', locale)
+      .is('deleted_at', null)
       .single()
 
     if (error) {
@@ -290,9 +330,9 @@ export async function getDescription(
       created_at: desc.created_at,
       updated_at: desc.updated_at,
       created_by: desc.created_by,
-      language_name: desc.language?.translations?.[0]?.name || 'Unknown',
+      language_name: findTranslation(desc.language?.translations, locale)?.name || 'Unknown',
       language_endonym: desc.language?.endonym || null,
-      neighborhood_name: desc.neighborhood?.translations?.[0]?.name || null,
+      neighborhood_name: findTranslation(desc.neighborhood?.translations, locale)?.name || null,
       translations: desc.translations || [],
     }
   } catch (error) {
@@ -351,65 +391,29 @@ export async function createDescription(
       throw new Error('Failed to create description: User not authenticated')
     }
 
-    // Create description
-    const { data: description, error: descError } = await supabase
-      .from('descriptions')
-      .insert({
-        city_id: city.id,
+    // Create the description and its first translation in one transaction
+    const { data: description, error: descError } = await supabase.rpc('create_description', {
+      p_city_id: city.id,
+      p_description: {
         language_id: validatedData.language_id,
         neighborhood_id: validatedData.neighborhood_id || null,
         is_ai_generated: validatedData.is_ai_generated || false,
         ai_model: validatedData.ai_model || null,
-        ai_generated_at: validatedData.is_ai_generated ? new Date().toISOString() : null,
-        created_by: user.id,
-      })
-      .select()
-      .single()
-
-    if (descError || !description) {
-      throw new Error(`Failed to create description: ${descError?.message || 'Unknown error'}`)
-    }
-
-    // Create initial translation
-    const { error: transError } = await supabase
-      .from('description_translations')
-      .insert({
-        description_id: description.id,
+      },
+      p_translation: {
         locale: validatedTranslation.locale,
         text: validatedTranslation.text,
         is_ai_translated: validatedTranslation.is_ai_translated || false,
         ai_model: validatedTranslation.ai_model || null,
-        ai_translated_at: validatedTranslation.is_ai_translated ? new Date().toISOString() : null,
-      })
-
-    if (transError) {
-      // Rollback: delete the description that was just created
-      // If rollback fails, log it but still throw the original error to inform the user
-      try {
-        const { error: rollbackError } = await supabase
-          .from('descriptions')
-          .delete()
-          .eq('id', description.id)
-
-        if (rollbackError) {
-          console.error('Rollback failed after translation error:', {
-            descriptionId: description.id,
-            citySlug,
-            rollbackError: rollbackError.message,
-            originalError: transError.message,
-          })
-        }
-      } catch (rollbackErr) {
-        console.error('Exception during rollback:', {
-          descriptionId: description.id,
-          citySlug,
-          exception: rollbackErr instanceof Error ? rollbackErr.message : 'Unknown error',
-        })
-      }
+      },
+    })
 
-      throw new Error(`Failed to create translation: ${transError.message}`)
+    if (descError || !description) {
+      throw new Error(`Failed to create description: ${descError?.message || 'Unknown error'}`)
     }
 
+    await recordRevision(supabase, 'description', description.id, 'create')
+
     // Revalidate cache
     revalidatePath(`/[locale]/operator/[citySlug]/descriptions`, 'page')
 
@@ -465,6 +469,7 @@ export async function updateDescription(
         ai_model: validatedData.ai_model || null,
       })
       .eq('id', descriptionId)
+      .is('deleted_at', null)
       .select()
       .single()
 
@@ -479,6 +484,8 @@ export async function updateDescription(
       throw new Error(`Failed to update description: ${error.message}`)
     }
 
+    await recordRevision(supabase, 'description', descriptionId)
+
     // Revalidate cache
     revalidatePath(`/[locale]/operator/[citySlug]/descriptions`, 'page')
     revalidatePath(`/[locale]/operator/[citySlug]/descriptions/[id]`, 'page')
@@ -498,6 +505,9 @@ export async function updateDescription(
 /**
  * Deletes a description and all its translations
  *
+ * Moves the description to the trash; it can be restored from there until
+ * it is purged.
+ *
  * @async
  * @param citySlug - The slug of the city
  * @param descriptionId - The UUID of the description to delete
@@ -517,8 +527,10 @@ export async function deleteDescription(citySlug: string, descriptionId: string)
   try {
     const supabase = await getServerSupabaseWithCookies(citySlug)
 
-    // Delete description (cascade will delete translations)
-    const { error } = await supabase.from('descriptions').delete().eq('id', descriptionId)
+    const { error } = await supabase.rpc('move_to_trash', {
+      p_entity_type: 'description',
+      p_entity_id: descriptionId,
+    })
 
     if (error) {
       // Handle specific error codes for better user feedback
@@ -580,17 +592,20 @@ export async function getLanguagesForDescription(citySlug: string, locale: strin
       .select(`
         id,
         endonym,
-        translations:language_translations!inner(name, locale_code)
+        translations:language_translations(name, locale_code)
       `)
       .eq('city_id', city.id)
-      .eq('translations.locale_code', locale)
+      .is('deleted_at', null)
 
     if (error) {
       throw new Error(`Failed to fetch languages: ${error.message}`)
     }
 
-    // Sort by translation name on the client side
-    const languages = (data || []).sort((a, b) => {
+    // Pick the name and sort by it on the client side
+    const languages = (data || []).map((language) => ({
+      ...language,
+      translations: pickTranslations(language.translations, locale),
+    })).sort((a, b) => {
       const nameA = a.translations?.[0]?.name || ''
       const nameB = b.translations?.[0]?.name || ''
       return nameA.localeCompare(nameB)
@@ -645,18 +660,21 @@ export async function getNeighborhoodsForDescription(citySlug: string, locale: s
         id,
         slug,
         district_id,
-        translations:neighborhood_translations!inner(name, locale_code),
+        translations:neighborhood_translations(name, locale_code),
         district:districts!inner(city_id)
       `)
       .eq('district.city_id', city.id)
-      .eq('translations.locale_code', locale)
+      .is('deleted_at', null)
 
     if (error) {
       throw new Error(`Failed to fetch neighborhoods: ${error.message}`)
     }
 
-    // Sort by translation name on the client side
-    const neighborhoods = (data || []).sort((a, b) => {
+    // Pick the name and sort by it on the client side
+    const neighborhoods = (data || []).map((neighborhood) => ({
+      ...neighborhood,
+      translations: pickTranslations(neighborhood.translations, locale),
+    })).sort((a, b) => {
       const nameA = a.translations?.[0]?.name || ''
       const nameB = b.translations?.[0]?.name || ''
       return nameA.localeCompare(nameB)
@@ -670,3 +688,151 @@ export async function getNeighborhoodsForDescription(citySlug: string, locale: s
     throw new Error('Failed to fetch neighborhoods: Unknown error')
   }
 }
+
+/**
+ * Writes a first draft of a description with the configured AI provider
+ *
+ * The prompt is built from the language's names, family, country of origin
+ * and taxonomy values, and from the neighborhood when one is chosen. The
+ * draft is not saved: the form shows it for editing and saves it as
+ * AI-generated and unreviewed.
+ *
+ * @async
+ * @param citySlug - The slug of the city
+ * @param request - Language, optional neighborhood and locale of the draft
+ * @returns Promise<DescriptionDraft> Draft text and the model that wrote it
+ * @throws {Error} If validation fails, the user has no role in the city, the language is not found or the provider fails
+ */
+export async function generateDescriptionDraft(
+  citySlug: string,
+  request: DescriptionDraftRequest
+): Promise<DescriptionDraft> {
+  // Input validation
+  if (!citySlug || typeof citySlug !== 'string' || citySlug.trim() === '') {
+    throw new Error('City slug is required and must be a non-empty string')
+  }
+
+  const parsed = DescriptionDraftSchema.safeParse(request)
+  if (!parsed.success) {
+    throw new Error(`Validation error: ${parsed.error.issues[0].message}`)
+  }
+  const { language_id, neighborhood_id, locale } = parsed.data
+
+  const supabase = await getServerSupabaseWithCookies(citySlug)
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    throw new Error('Failed to generate description: User not authenticated')
+  }
+
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id, slug, translations:city_translations(locale_code, name)')
+    .eq('slug', citySlug)
+    .single()
+
+  if (cityError || !city) {
+    throw new Error(`Failed to fetch city: City not found for slug "${citySlug}"`)
+  }
+
+  // Nothing is written, so RLS does not stop others from spending the
+  // city's provider quota: only its operators, admins and superusers draft
+  const { data: hasAccess, error: accessError } = await supabase.rpc('has_city_access', {
+    p_user_id: user.id,
+    p_city_id: city.id,
+  })
+
+  if (accessError || !hasAccess) {
+    throw new Error('Failed to generate description: Insufficient permissions')
+  }
+
+  const { data: language, error: languageError } = await supabase
+    .from('languages')
+    .select(`
+      id,
+      endonym,
+      iso_639_3_code,
+      translations:language_translations(locale_code, name),
+      language_family:language_families(
+        translations:language_family_translations(locale_code, name)
+      ),
+      country_of_origin:countries(
+        translations:country_translations(locale_code, name)
+      ),
+      taxonomies:language_taxonomies(
+        taxonomy_value:taxonomy_values(
+          deleted_at,
+          translations:taxonomy_value_translations(locale_code, name),
+          taxonomy_type:taxonomy_types(
+            display_order,
+            translations:taxonomy_type_translations(locale_code, name)
+          )
+        )
+      )
+    `)
+    .eq('id', language_id)
+    .eq('city_id', city.id)
+    .is('deleted_at', null)
+    .single()
+
+  if (languageError || !language) {
+    throw new Error('Failed to generate description: Language not found')
+  }
+
+  let neighborhoodName: string | null = null
+  if (neighborhood_id) {
+    const { data: neighborhood } = await supabase
+      .from('neighborhoods')
+      .select('slug, translations:neighborhood_translations(locale_code, name)')
+      .eq('id', neighborhood_id)
+      .is('deleted_at', null)
+      .single()
+
+    neighborhoodName = neighborhood ? pickName(neighborhood.translations, locale) ?? neighborhood.slug : null
+  }
+
+  const assignments = (language.taxonomies ?? []) as unknown as Array<{
+    taxonomy_value: {
+      deleted_at: string | null
+      translations: NameTranslations
+      taxonomy_type: { display_order: number; translations: NameTranslations } | null
+    } | null
+  }>
+
+  // Live values only, in the order of their taxonomy types
+  const taxonomies = assignments
+    .flatMap(({ taxonomy_value: value }) =>
+      value && !value.deleted_at && value.taxonomy_type ? [{ value, type: value.taxonomy_type }] : []
+    )
+    .sort((a, b) => a.type.display_order - b.type.display_order)
+    .flatMap(({ value, type }) => {
+      const typeName = pickName(type.translations, locale)
+      const valueName = pickName(value.translations, locale)
+      return typeName && valueName ? [{ typeName, valueName }] : []
+    })
+
+  const family = language.language_family as unknown as { translations: NameTranslations } | null
+  const country = language.country_of_origin as unknown as { translations: NameTranslations } | null
+
+  const context: DescriptionPromptContext = {
+    cityName: pickName(city.translations, locale) ?? city.slug,
+    languageName: pickName(language.translations, locale),
+    endonym: language.endonym,
+    isoCode: language.iso_639_3_code,
+    familyName: family ? pickName(family.translations, locale) : null,
+    countryName: country ? pickName(country.translations, locale) : null,
+    neighborhoodName,
+    taxonomies,
+  }
+
+  try {
+    return await createTextGenerator().generate(buildDescriptionPrompt(context, locale))
+  } catch (error) {
+    console.error('Error generating description draft:', { citySlug, languageId: language_id, error })
+    throw new Error('Failed to generate description')
+  }
+}
@@ -11,6 +11,8 @@ import {
   updateDistrict,
   deleteDistrict,
 } from './districts'
+import { z } from 'zod'
+import { assertCityLocales } from '@/lib/i18n/active-locales'
 
 // Mock types with improved type safety
 type MockFunction<T extends (...args: unknown[]) => unknown = (...args: unknown[]) => unknown> = ReturnType<typeof vi.fn<T>>
@@ -18,21 +20,24 @@ type MockFunction<T extends (...args: unknown[]) => unknown = (...args: unknown[
 interface QueryChain extends Record<string, MockFunction> {
   select: MockFunction
   eq: MockFunction
+  is: MockFunction
   single: MockFunction
   order: MockFunction
   insert: MockFunction
   update: MockFunction
   delete: MockFunction
+  in: MockFunction
 }
 
 interface AuthQuery {
   getUser: MockFunction
 }
 
-// Query type for district queries (only select, eq, and single are used)
+// Query type for district queries (only select, eq, is, and single are used)
 interface DistrictQuery {
   select: MockFunction
   eq: MockFunction
+  is: MockFunction
   single: MockFunction
 }
 
@@ -48,20 +53,24 @@ const createMockSupabase = () => {
   const chain: QueryChain = {
     select: vi.fn().mockReturnThis(),
     eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockReturnThis(),
     single: vi.fn(),
     order: vi.fn().mockReturnThis(),
     insert: vi.fn().mockReturnThis(),
     update: vi.fn().mockReturnThis(),
     delete: vi.fn().mockReturnThis(),
+    in: vi.fn().mockReturnThis(),
   }
 
   const client: {
     auth: AuthQuery
     from: MockFunction
+    rpc: MockFunction
   } = {
     auth: {
       getUser: vi.fn(),
     },
+    rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
     from: vi.fn(() => {
       // Reset and return chain
       Object.keys(chain).forEach((key) => {
@@ -78,6 +87,12 @@ const createMockSupabase = () => {
 
 let mockSupabase: ReturnType<typeof createMockSupabase>
 
+// Closed square around central Amsterdam
+const boundary = {
+  type: 'MultiPolygon' as const,
+  coordinates: [[[[4.88, 52.36], [4.92, 52.36], [4.92, 52.38], [4.88, 52.38], [4.88, 52.36]]]],
+}
+
 // Mock the module dependencies
 vi.mock('@/lib/database/client', () => ({
   getDatabaseClient: vi.fn(() => mockSupabase),
@@ -91,6 +106,10 @@ vi.mock('next/cache', () => ({
   revalidatePath: vi.fn(),
 }))
 
+vi.mock('@/lib/i18n/active-locales', () => ({
+  assertCityLocales: vi.fn(),
+}))
+
 vi.mock('next/headers', () => ({
   cookies: vi.fn(() => ({
     get: vi.fn(),
@@ -131,6 +150,7 @@ describe('districts', () => {
       const districtsQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         order: vi.fn().mockResolvedValue({ data: mockDistricts, error: null }),
       }
       mockSupabase.from.mockReturnValueOnce(districtsQuery)
@@ -170,6 +190,7 @@ describe('districts', () => {
       const districtsQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         order: vi.fn().mockResolvedValue({
           data: null,
           error: { message: 'Database error' },
@@ -204,6 +225,7 @@ describe('districts', () => {
       const districtQuery: DistrictQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         single: vi.fn().mockResolvedValue({
           data: mockDistrict,
           error: null,
@@ -233,6 +255,7 @@ describe('districts', () => {
       const districtQuery: DistrictQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         single: vi.fn().mockResolvedValue({ data: null, error: { message: 'Not found' } }),
       }
       mockSupabase.from.mockReturnValueOnce(districtQuery)
@@ -252,10 +275,10 @@ describe('districts', () => {
       const districtInput = {
         cityId: '123e4567-e89b-12d3-a456-426614174001',
         slug: 'new-district',
-        name_en: 'New District',
-        description_en: 'A new district',
-        name_nl: 'Nieuw District',
-        description_nl: 'Een nieuw district',
+        translations: {
+          en: { name: 'New District', description: 'A new district' },
+          nl: { name: 'Nieuw District', description: 'Een nieuw district' },
+        },
       }
 
       const mockCreatedDistrict = {
@@ -295,12 +318,92 @@ describe('districts', () => {
       expect(mockSupabase.from).toHaveBeenCalledWith('districts')
     })
 
+    it('should save the boundary after creating the district', async () => {
+      const createdDistrict = { id: '123e4567-e89b-12d3-a456-426614174020', slug: 'centrum' }
+
+      mockSupabase.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { city_id: '123e4567-e89b-12d3-a456-426614174001' }, error: null }),
+      })
+      mockSupabase.from.mockReturnValueOnce({
+        insert: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: createdDistrict, error: null }),
+      })
+      mockSupabase.from.mockReturnValueOnce({
+        insert: vi.fn().mockResolvedValue({ error: null }),
+      })
+
+      await createDistrict('amsterdam', {
+        cityId: '123e4567-e89b-12d3-a456-426614174001',
+        slug: 'centrum',
+        translations: { en: { name: 'Centrum' } },
+        boundary,
+      })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('set_district_boundary', {
+        p_district_id: createdDistrict.id,
+        p_boundary: boundary,
+      })
+    })
+
+    it('should rollback district creation when saving the boundary fails', async () => {
+      const deleteQuery = {
+        delete: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ error: null }),
+      }
+
+      mockSupabase.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { city_id: '123e4567-e89b-12d3-a456-426614174001' }, error: null }),
+      })
+      mockSupabase.from.mockReturnValueOnce({
+        insert: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: '123e4567-e89b-12d3-a456-426614174020' }, error: null }),
+      })
+      mockSupabase.from.mockReturnValueOnce({
+        insert: vi.fn().mockResolvedValue({ error: null }),
+      })
+      mockSupabase.from.mockReturnValueOnce(deleteQuery)
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'Boundary does not contain a valid polygon' } })
+
+      await expect(
+        createDistrict('amsterdam', {
+          cityId: '123e4567-e89b-12d3-a456-426614174001',
+          slug: 'centrum',
+          translations: { en: { name: 'Centrum' } },
+          boundary,
+        })
+      ).rejects.toThrow('Failed to save boundary')
+
+      expect(deleteQuery.eq).toHaveBeenCalledWith('id', '123e4567-e89b-12d3-a456-426614174020')
+    })
+
+    it('should reject boundaries with open rings', async () => {
+      await expect(
+        createDistrict('amsterdam', {
+          cityId: '123e4567-e89b-12d3-a456-426614174001',
+          slug: 'centrum',
+          translations: { en: { name: 'Centrum' } },
+          boundary: {
+            type: 'MultiPolygon',
+            coordinates: [[[[4.88, 52.36], [4.92, 52.36], [4.92, 52.38], [4.88, 52.38]]]],
+          },
+        })
+      ).rejects.toThrow()
+
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+
     it('should create a district with only English translation', async () => {
       const districtInput = {
         cityId: '123e4567-e89b-12d3-a456-426614174001',
         slug: 'english-only',
-        name_en: 'English District',
-        description_en: 'English only',
+        translations: { en: { name: 'English District', description: 'English only' } },
       }
 
       const mockCreatedDistrict = {
@@ -346,7 +449,7 @@ describe('districts', () => {
         createDistrict('amsterdam', {
           cityId: '123e4567-e89b-12d3-a456-426614174001',
           slug: 'test',
-          name_en: 'Test',
+          translations: { en: { name: 'Test' } },
         })
       ).rejects.toThrow('Unauthorized')
     })
@@ -363,6 +466,7 @@ describe('districts', () => {
           insert: vi.fn().mockReturnThis(),
           update: vi.fn().mockReturnThis(),
           delete: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
         }
 
         // City access check - return no access
@@ -378,7 +482,7 @@ describe('districts', () => {
         createDistrict('amsterdam', {
           cityId: '123e4567-e89b-12d3-a456-426614174001',
           slug: 'test',
-          name_en: 'Test',
+          translations: { en: { name: 'Test' } },
         })
       ).rejects.toThrow('Insufficient permissions')
     })
@@ -387,7 +491,7 @@ describe('districts', () => {
       const districtInput = {
         cityId: '123e4567-e89b-12d3-a456-426614174001',
         slug: 'test',
-        name_en: 'Test',
+        translations: { en: { name: 'Test' } },
       }
 
       const mockCreatedDistrict = { id: '123e4567-e89b-12d3-a456-426614174020', city_id: '123e4567-e89b-12d3-a456-426614174001', slug: 'test' }
@@ -403,6 +507,7 @@ describe('districts', () => {
           insert: vi.fn().mockReturnThis(),
           update: vi.fn().mockReturnThis(),
           delete: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
         }
 
         // 1st call: city access
@@ -454,8 +559,7 @@ describe('districts', () => {
       const districtInput = {
         cityId: '123e4567-e89b-12d3-a456-426614174001',
         slug: 'updated-district',
-        name_en: 'Updated District',
-        description_en: 'Updated description',
+        translations: { en: { name: 'Updated District', description: 'Updated description' } },
       }
 
       let callCount = 0
@@ -469,6 +573,7 @@ describe('districts', () => {
           insert: vi.fn().mockReturnThis(),
           update: vi.fn().mockReturnThis(),
           delete: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
         }
 
         // 1st call: city access
@@ -486,25 +591,122 @@ describe('districts', () => {
           return query
         }
 
-        // 3rd call: delete existing translations
-        if (callCount === 3 && table === 'district_translations') {
-          query.delete = vi.fn().mockReturnThis()
-          query.eq = vi.fn().mockResolvedValue({ error: null })
-          return query
-        }
-
-        // 4th call: insert new translations
-        if (callCount === 4 && table === 'district_translations') {
-          query.insert = vi.fn().mockResolvedValue({ error: null })
-          return query
-        }
-
         return query
       })
 
       const result = await updateDistrict('amsterdam', '123e4567-e89b-12d3-a456-426614174000', districtInput)
 
       expect(result).toEqual({ success: true })
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('save_translations', {
+        p_entity_type: 'district',
+        p_entity_id: '123e4567-e89b-12d3-a456-426614174000',
+        p_translations: [{ locale_code: 'en', name: 'Updated District', description: 'Updated description' }],
+        p_locales: ['en'],
+      })
+    })
+
+    it('should clear the boundary when null is submitted', async () => {
+      mockSupabase.from.mockImplementation((table) => ({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockImplementation(function (this: unknown) {
+          return table === 'city_users' ? this : Promise.resolve({ error: null })
+        }),
+        single: vi.fn().mockResolvedValue({ data: { city_id: '123e4567-e89b-12d3-a456-426614174001' }, error: null }),
+        insert: vi.fn().mockResolvedValue({ error: null }),
+        update: vi.fn().mockReturnThis(),
+        delete: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
+      }))
+
+      await updateDistrict('amsterdam', '123e4567-e89b-12d3-a456-426614174000', {
+        cityId: '123e4567-e89b-12d3-a456-426614174001',
+        slug: 'centrum',
+        translations: { en: { name: 'Centrum' } },
+        boundary: null,
+      })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('set_district_boundary', {
+        p_district_id: '123e4567-e89b-12d3-a456-426614174000',
+        p_boundary: null,
+      })
+    })
+
+    it('should leave the boundary unchanged when it is omitted', async () => {
+      mockSupabase.from.mockImplementation((table) => ({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockImplementation(function (this: unknown) {
+          return table === 'city_users' ? this : Promise.resolve({ error: null })
+        }),
+        single: vi.fn().mockResolvedValue({ data: { city_id: '123e4567-e89b-12d3-a456-426614174001' }, error: null }),
+        insert: vi.fn().mockResolvedValue({ error: null }),
+        update: vi.fn().mockReturnThis(),
+        delete: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
+      }))
+
+      await updateDistrict('amsterdam', '123e4567-e89b-12d3-a456-426614174000', {
+        cityId: '123e4567-e89b-12d3-a456-426614174001',
+        slug: 'centrum',
+        translations: { en: { name: 'Centrum' } },
+      })
+
+      expect(mockSupabase.rpc).not.toHaveBeenCalledWith('set_district_boundary', expect.anything())
+    })
+
+    it('should only save the translations of the submitted locales', async () => {
+      mockSupabase.from.mockImplementation((table) => ({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockImplementation(function (this: unknown) {
+          return table === 'city_users' ? this : Promise.resolve({ error: null })
+        }),
+        single: vi.fn().mockResolvedValue({ data: { city_id: '123e4567-e89b-12d3-a456-426614174001' }, error: null }),
+        update: vi.fn().mockReturnThis(),
+      }))
+
+      await updateDistrict('amsterdam', '123e4567-e89b-12d3-a456-426614174000', {
+        cityId: '123e4567-e89b-12d3-a456-426614174001',
+        slug: 'centrum',
+        translations: { en: { name: 'Centrum' }, de: { name: '', description: '' } },
+      })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('save_translations', {
+        p_entity_type: 'district',
+        p_entity_id: '123e4567-e89b-12d3-a456-426614174000',
+        p_translations: [{ locale_code: 'en', name: 'Centrum', description: null }],
+        p_locales: ['en', 'de'],
+      })
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('district_translations')
+    })
+
+    it('should reject translations in locales the city has not enabled', async () => {
+      mockSupabase.from.mockImplementation(() => ({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { city_id: '123e4567-e89b-12d3-a456-426614174001' }, error: null }),
+        update: vi.fn().mockReturnThis(),
+      }))
+      vi.mocked(assertCityLocales).mockRejectedValueOnce(
+        new z.ZodError([
+          { code: 'custom', path: ['translations', 'de'], message: "Locale 'de' is not enabled for this city", input: 'de' },
+        ])
+      )
+
+      await expect(
+        updateDistrict('amsterdam', '123e4567-e89b-12d3-a456-426614174000', {
+          cityId: '123e4567-e89b-12d3-a456-426614174001',
+          slug: 'centrum',
+          translations: { en: { name: 'Centrum' }, de: { name: 'Zentrum' } },
+        })
+      ).rejects.toThrow("Locale 'de' is not enabled for this city")
+
+      expect(assertCityLocales).toHaveBeenCalledWith(
+        mockSupabase,
+        '123e4567-e89b-12d3-a456-426614174001',
+        'translations',
+        ['en', 'de']
+      )
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('districts')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
     })
 
     it('should throw error when user is not authenticated', async () => {
@@ -514,7 +716,7 @@ describe('districts', () => {
         updateDistrict('amsterdam', '123e4567-e89b-12d3-a456-426614174000', {
           cityId: '123e4567-e89b-12d3-a456-426614174001',
           slug: 'test',
-          name_en: 'Test',
+          translations: { en: { name: 'Test' } },
         })
       ).rejects.toThrow('Unauthorized')
     })
@@ -523,7 +725,7 @@ describe('districts', () => {
       const districtInput = {
         cityId: '123e4567-e89b-12d3-a456-426614174001',
         slug: 'test',
-        name_en: 'Test',
+        translations: { en: { name: 'Test' } },
       }
 
       let callCount = 0
@@ -537,6 +739,7 @@ describe('districts', () => {
           insert: vi.fn().mockReturnThis(),
           update: vi.fn().mockReturnThis(),
           delete: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
         }
 
         // 1st call: city access
@@ -554,21 +757,9 @@ describe('districts', () => {
           return query
         }
 
-        // 3rd call: delete existing translations
-        if (callCount === 3 && table === 'district_translations') {
-          query.delete = vi.fn().mockReturnThis()
-          query.eq = vi.fn().mockResolvedValue({ error: null })
-          return query
-        }
-
-        // 4th call: insert new translations (should fail)
-        if (callCount === 4 && table === 'district_translations') {
-          query.insert = vi.fn().mockResolvedValue({ error: { message: 'Insert failed' } })
-          return query
-        }
-
         return query
       })
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'Save failed' } })
 
       await expect(updateDistrict('amsterdam', '123e4567-e89b-12d3-a456-426614174000', districtInput)).rejects.toThrow(
         'Failed to update translations'
@@ -583,17 +774,15 @@ describe('districts', () => {
       })
     })
 
-    it('should delete a district successfully', async () => {
-      mockSupabase.from.mockReturnValue({
-        delete: vi.fn().mockReturnValue({
-          eq: vi.fn().mockResolvedValue({ error: null }),
-        }),
-      })
-
+    it('should move the district to the trash', async () => {
       const result = await deleteDistrict('amsterdam', '123e4567-e89b-12d3-a456-426614174000')
 
       expect(result).toEqual({ success: true })
-      expect(mockSupabase.from).toHaveBeenCalledWith('districts')
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('move_to_trash', {
+        p_entity_type: 'district',
+        p_entity_id: '123e4567-e89b-12d3-a456-426614174000',
+      })
+      expect(mockSupabase.from).not.toHaveBeenCalled()
     })
 
     it('should throw error when user is not authenticated', async () => {
@@ -603,11 +792,7 @@ describe('districts', () => {
     })
 
     it('should throw error when delete operation fails', async () => {
-      mockSupabase.from.mockReturnValue({
-        delete: vi.fn().mockReturnValue({
-          eq: vi.fn().mockResolvedValue({ error: { message: 'Delete failed' } }),
-        }),
-      })
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'Delete failed' } })
 
       await expect(deleteDistrict('amsterdam', '123e4567-e89b-12d3-a456-426614174000')).rejects.toThrow('Failed to delete district')
     })
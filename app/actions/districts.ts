@@ -9,6 +9,9 @@
 import { revalidatePath } from 'next/cache'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
 import { z } from 'zod'
+import { boundarySchema } from '@/lib/map/boundary-files'
+import { getTranslationRows, translationsSchema } from '@/lib/validations/translations'
+import { assertCityLocales } from '@/lib/i18n/active-locales'
 
 /**
  * Validation schema for district creation/update
@@ -19,13 +22,10 @@ const districtSchema = z.object({
     .string()
     .min(1, 'Slug is required')
     .regex(/^[a-z0-9-]+$/, 'Slug must contain only lowercase letters, numbers, and hyphens'),
-  // Translations
-  name_en: z.string().min(1, 'English name is required'),
-  description_en: z.string().optional(),
-  name_nl: z.string().optional(),
-  description_nl: z.string().optional(),
-  name_fr: z.string().optional(),
-  description_fr: z.string().optional(),
+  // Name and description per locale of the city
+  translations: translationsSchema,
+  // Boundary: MultiPolygon to set, null to remove, omitted to keep unchanged
+  boundary: boundarySchema.nullable().optional(),
 })
 
 /**
@@ -86,6 +86,7 @@ export async function getDistricts(citySlug: string) {
         )
       `)
       .eq('city_id', city.id)
+      .is('deleted_at', null)
       .order('created_at', { ascending: true })
 
     if (districtsError) {
@@ -153,6 +154,7 @@ export async function getDistrict(citySlug: string, districtId: string) {
         slug,
         created_at,
         updated_at,
+        has_boundary,
         translations:district_translations (
           id,
           locale_code,
@@ -162,6 +164,7 @@ export async function getDistrict(citySlug: string, districtId: string) {
       `)
       .eq('city_id', city.id)
       .eq('id', districtId)
+      .is('deleted_at', null)
       .single()
 
     if (districtError) {
@@ -216,6 +219,9 @@ export async function createDistrict(citySlug: string, input: DistrictInput) {
     throw new Error('Insufficient permissions')
   }
 
+  // Only accept translations in the locales the city has enabled
+  await assertCityLocales(supabase, validatedInput.cityId, 'translations', Object.keys(validatedInput.translations))
+
   // Create district with transaction
   const { data: district, error: districtError } = await supabase
     .from('districts')
@@ -232,37 +238,10 @@ export async function createDistrict(citySlug: string, input: DistrictInput) {
   }
 
   // Insert translations
-  const translations = []
-
-  // English translation (required)
-  if (validatedInput.name_en) {
-    translations.push({
-      district_id: district.id,
-      locale_code: 'en',
-      name: validatedInput.name_en,
-      description: validatedInput.description_en || null,
-    })
-  }
-
-  // Dutch translation (optional)
-  if (validatedInput.name_nl) {
-    translations.push({
-      district_id: district.id,
-      locale_code: 'nl',
-      name: validatedInput.name_nl,
-      description: validatedInput.description_nl || null,
-    })
-  }
-
-  // French translation (optional)
-  if (validatedInput.name_fr) {
-    translations.push({
-      district_id: district.id,
-      locale_code: 'fr',
-      name: validatedInput.name_fr,
-      description: validatedInput.description_fr || null,
-    })
-  }
+  const translations = getTranslationRows(validatedInput.translations).map((translation) => ({
+    district_id: district.id,
+    ...translation,
+  }))
 
   if (translations.length > 0) {
     const { error: translationError } = await supabase
@@ -277,6 +256,20 @@ export async function createDistrict(citySlug: string, input: DistrictInput) {
     }
   }
 
+  if (validatedInput.boundary) {
+    const { error: boundaryError } = await supabase.rpc('set_district_boundary', {
+      p_district_id: district.id,
+      p_boundary: validatedInput.boundary,
+    })
+
+    if (boundaryError) {
+      console.error('Error saving district boundary:', boundaryError)
+      // Rollback district creation
+      await supabase.from('districts').delete().eq('id', district.id)
+      throw new Error('Failed to save boundary')
+    }
+  }
+
   revalidatePath(`/${citySlug}/operator/districts`)
   return district
 }
@@ -320,6 +313,9 @@ export async function updateDistrict(
     throw new Error('Insufficient permissions')
   }
 
+  // Only accept translations in the locales the city has enabled
+  await assertCityLocales(supabase, validatedInput.cityId, 'translations', Object.keys(validatedInput.translations))
+
   // Update district
   const { error: districtError } = await supabase
     .from('districts')
@@ -333,53 +329,29 @@ export async function updateDistrict(
     throw new Error('Failed to update district')
   }
 
-  // Delete existing translations
-  await supabase
-    .from('district_translations')
-    .delete()
-    .eq('district_id', districtId)
-
-  // Insert updated translations
-  const translations = []
-
-  // English translation (required)
-  if (validatedInput.name_en) {
-    translations.push({
-      district_id: districtId,
-      locale_code: 'en',
-      name: validatedInput.name_en,
-      description: validatedInput.description_en || null,
-    })
+  // Save the translations of the submitted locales; other locales are kept,
+  // and so are the AI and review columns of translations left unchanged
+  const { error: translationError } = await supabase.rpc('save_translations', {
+    p_entity_type: 'district',
+    p_entity_id: districtId,
+    p_translations: getTranslationRows(validatedInput.translations),
+    p_locales: Object.keys(validatedInput.translations),
+  })
+
+  if (translationError) {
+    console.error('Error updating translations:', translationError)
+    throw new Error('Failed to update translations')
   }
 
-  // Dutch translation (optional)
-  if (validatedInput.name_nl) {
-    translations.push({
-      district_id: districtId,
-      locale_code: 'nl',
-      name: validatedInput.name_nl,
-      description: validatedInput.description_nl || null,
+  if (validatedInput.boundary !== undefined) {
+    const { error: boundaryError } = await supabase.rpc('set_district_boundary', {
+      p_district_id: districtId,
+      p_boundary: validatedInput.boundary,
     })
-  }
-
-  // French translation (optional)
-  if (validatedInput.name_fr) {
-    translations.push({
-      district_id: districtId,
-      locale_code: 'fr',
-      name: validatedInput.name_fr,
-      description: validatedInput.description_fr || null,
-    })
-  }
 
-  if (translations.length > 0) {
-    const { error: translationError } = await supabase
-      .from('district_translations')
-      .insert(translations)
-
-    if (translationError) {
-      console.error('Error updating translations:', translationError)
-      throw new Error('Failed to update translations')
+    if (boundaryError) {
+      console.error('Error saving district boundary:', boundaryError)
+      throw new Error('Failed to save boundary')
     }
   }
 
@@ -391,6 +363,9 @@ export async function updateDistrict(
 /**
  * Delete a district
  *
+ * Moves the district to the trash, together with its neighborhoods; it can
+ * be restored from there until it is purged.
+ *
  * @async
  * @param citySlug - The city identifier
  * @param districtId - The district identifier
@@ -408,8 +383,10 @@ export async function deleteDistrict(citySlug: string, districtId: string) {
     throw new Error('Unauthorized')
   }
 
-  // Delete district (translations will be deleted via foreign key cascade)
-  const { error } = await supabase.from('districts').delete().eq('id', districtId)
+  const { error } = await supabase.rpc('move_to_trash', {
+    p_entity_type: 'district',
+    p_entity_id: districtId,
+  })
 
   if (error) {
     console.error('Error deleting district:', error)
@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Unit tests for geocoding server actions
+ * @description Tests address lookup against the postal code centroids and
+ * the centroid CSV upload
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { geocodeAddress, uploadPostalCodeCentroids } from './geocoding'
+
+type MockFunction = ReturnType<typeof vi.fn>
+
+const CITY_ID = '123e4567-e89b-12d3-a456-426614174001'
+
+/**
+ * Create a Supabase mock: `from('cities')` serves the city lookup and
+ * `from('postal_code_centroids')` the centroid lookup
+ */
+const createMockSupabase = () => {
+  const cityQuery = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: {
+        id: CITY_ID,
+        bounds_min_lat: '52.27',
+        bounds_max_lat: '52.43',
+        bounds_min_lng: '4.73',
+        bounds_max_lng: '5.07',
+      },
+      error: null,
+    }),
+  }
+
+  const centroidQuery = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    in: vi.fn().mockResolvedValue({
+      data: [{ postal_code: '1012LG', latitude: '52.37630000', longitude: '4.89710000' }],
+      error: null,
+    }),
+  }
+
+  const client: {
+    auth: { getUser: MockFunction }
+    from: MockFunction
+    rpc: MockFunction
+    cityQuery: typeof cityQuery
+    centroidQuery: typeof centroidQuery
+  } = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'user-1' } } }),
+    },
+    from: vi.fn((table) => (table === 'cities' ? cityQuery : centroidQuery)),
+    rpc: vi.fn().mockResolvedValue({ data: 2, error: null }),
+    cityQuery,
+    centroidQuery,
+  }
+
+  return client
+}
+
+let mockSupabase: ReturnType<typeof createMockSupabase>
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(() => mockSupabase),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+describe('geocoding', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockSupabase = createMockSupabase()
+  })
+
+  describe('geocodeAddress', () => {
+    it('should resolve a postal code from the city centroids', async () => {
+      const results = await geocodeAddress('amsterdam', 'nl', 'Damrak 1, 1012 LG')
+
+      expect(mockSupabase.centroidQuery.eq).toHaveBeenCalledWith('city_id', CITY_ID)
+      expect(mockSupabase.centroidQuery.in).toHaveBeenCalledWith('postal_code', ['1012LG', '1012'])
+      expect(results).toEqual([
+        { latitude: 52.3763, longitude: 4.8971, label: '1012LG', postalCode: '1012LG', source: 'postal-code' },
+      ])
+    })
+
+    it('should drop matches outside the city bounds', async () => {
+      mockSupabase.centroidQuery.in.mockResolvedValueOnce({
+        data: [{ postal_code: '3011', latitude: '51.9225', longitude: '4.4792' }],
+        error: null,
+      })
+
+      await expect(geocodeAddress('amsterdam', 'nl', '3011')).resolves.toEqual([])
+    })
+
+    it('should throw error when the lookup fails', async () => {
+      mockSupabase.centroidQuery.in.mockResolvedValueOnce({ data: null, error: { message: 'timeout' } })
+
+      await expect(geocodeAddress('amsterdam', 'nl', '1012LG')).rejects.toThrow('Failed to geocode address')
+    })
+
+    it('should throw error when user is not authenticated', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null } })
+
+      await expect(geocodeAddress('amsterdam', 'nl', '1012LG')).rejects.toThrow('Unauthorized')
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should throw error when the user has no access to the city', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: false, error: null })
+
+      await expect(geocodeAddress('amsterdam', 'nl', '1012LG')).rejects.toThrow('Insufficient permissions')
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('has_city_access', { p_user_id: 'user-1', p_city_id: CITY_ID })
+      expect(mockSupabase.centroidQuery.in).not.toHaveBeenCalled()
+    })
+
+    it('should reject an empty query', async () => {
+      await expect(geocodeAddress('amsterdam', 'nl', '  ')).rejects.toThrow(
+        'Address or postal code is required'
+      )
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('uploadPostalCodeCentroids', () => {
+    it('should replace the centroids with the valid rows of the file', async () => {
+      const csv = 'postcode;lat;lon\n1012 LG;52,3763;4,8971\n1013;52.3889;4.8795\nXX;1;1\n'
+
+      const result = await uploadPostalCodeCentroids('amsterdam', csv)
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('replace_postal_code_centroids', {
+        p_city_id: CITY_ID,
+        p_centroids: [
+          { postal_code: '1012LG', latitude: 52.3763, longitude: 4.8971 },
+          { postal_code: '1013', latitude: 52.3889, longitude: 4.8795 },
+        ],
+      })
+      expect(result).toEqual({ stored: 2, skipped: 1 })
+    })
+
+    it('should reject files without the required columns', async () => {
+      await expect(uploadPostalCodeCentroids('amsterdam', 'code,x,y\n1012LG,1,2')).rejects.toThrow(
+        'Invalid postal code file: missingColumns'
+      )
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should throw error when user is not authenticated', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null } })
+
+      await expect(
+        uploadPostalCodeCentroids('amsterdam', 'postal_code,latitude,longitude\n1012LG,52.37,4.89')
+      ).rejects.toThrow('Unauthorized')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,227 @@
+/**
+ * Server actions for geocoding
+ * Resolves addresses and postal codes to coordinates for the language point
+ * form, and manages the per-city postal code centroids used by the offline
+ * geocoder.
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { createGeocoder, type GeocodingResult } from '@/lib/geocoding'
+import { createDatabasePostalCodeLookup } from '@/lib/geocoding/centroids'
+import { parsePostalCodeCsv } from '@/lib/geocoding/postal-codes'
+import { isWithinCityBounds, parseCityBounds } from '@/lib/map/bounds'
+
+/**
+ * Maximum length of a geocoding query
+ */
+const MAX_QUERY_LENGTH = 200
+
+/**
+ * Result of uploading a postal code centroid file
+ */
+export interface PostalCodeUploadResult {
+  /** Centroids stored (replacing the previous table) */
+  stored: number
+  /** Rows left out because they were invalid or duplicated */
+  skipped: number
+}
+
+/**
+ * Geocodes an address or postal code within a city
+ *
+ * The city's postal code centroids are tried first; depending on
+ * `GEOCODING_PROVIDER` a Nominatim-compatible service handles the rest.
+ * Results outside the city bounds are dropped. Only users with access to
+ * the city may geocode, since every query can reach the external service.
+ *
+ * @async
+ * @param citySlug - The slug of the city
+ * @param locale - The current locale (preferred result language)
+ * @param query - Address or postal code
+ * @returns Promise<GeocodingResult[]> Matches ordered by relevance
+ * @throws {Error} If parameters are invalid, the user has no access to the city, the city is not found or the provider fails
+ */
+export async function geocodeAddress(
+  citySlug: string,
+  locale: string,
+  query: string
+): Promise<GeocodingResult[]> {
+  // Input validation
+  if (!citySlug || typeof citySlug !== 'string' || citySlug.trim() === '') {
+    throw new Error('City slug is required and must be a non-empty string')
+  }
+
+  if (!query || typeof query !== 'string' || query.trim() === '') {
+    throw new Error('Address or postal code is required')
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new Error(`Address must be at most ${MAX_QUERY_LENGTH} characters`)
+  }
+
+  const supabase = await getServerSupabaseWithCookies(citySlug)
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('Unauthorized')
+  }
+
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id, bounds_min_lat, bounds_max_lat, bounds_min_lng, bounds_max_lng')
+    .eq('slug', citySlug)
+    .single()
+
+  if (cityError || !city) {
+    throw new Error(`City not found: ${citySlug}`)
+  }
+
+  const { data: hasAccess, error: accessError } = await supabase.rpc('has_city_access', {
+    p_user_id: user.id,
+    p_city_id: city.id,
+  })
+
+  if (accessError || !hasAccess) {
+    throw new Error('Insufficient permissions')
+  }
+
+  const bounds = parseCityBounds(city)
+  const geocoder = createGeocoder({
+    postalCodeLookup: createDatabasePostalCodeLookup(supabase, city.id),
+    language: locale,
+  })
+
+  try {
+    const results = await geocoder.geocode({ query, bounds })
+    return results.filter((result) => isWithinCityBounds(bounds, result.latitude, result.longitude))
+  } catch (error) {
+    console.error('Error geocoding address:', error)
+    throw new Error('Failed to geocode address')
+  }
+}
+
+/**
+ * Counts the postal code centroids stored for a city
+ *
+ * @async
+ * @param citySlug - The slug of the city
+ * @returns Promise<number> Number of centroids
+ * @throws {Error} If the city is not found or the database query fails
+ */
+export async function getPostalCodeCentroidCount(citySlug: string): Promise<number> {
+  // Input validation
+  if (!citySlug || typeof citySlug !== 'string' || citySlug.trim() === '') {
+    throw new Error('City slug is required and must be a non-empty string')
+  }
+
+  const supabase = await getServerSupabaseWithCookies(citySlug)
+
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id')
+    .eq('slug', citySlug)
+    .single()
+
+  if (cityError || !city) {
+    throw new Error(`City not found: ${citySlug}`)
+  }
+
+  const { count, error } = await supabase
+    .from('postal_code_centroids')
+    .select('id', { count: 'exact', head: true })
+    .eq('city_id', city.id)
+
+  if (error) {
+    console.error('Error counting postal code centroids:', error)
+    throw new Error('Failed to fetch postal codes')
+  }
+
+  return count ?? 0
+}
+
+/**
+ * Replaces the postal code centroids of a city with an uploaded CSV file
+ *
+ * Invalid and duplicate rows are skipped; a file without valid rows is
+ * rejected and leaves the stored centroids untouched.
+ *
+ * @async
+ * @param citySlug - The slug of the city
+ * @param csvText - Contents of the CSV file (postal code, latitude, longitude columns)
+ * @returns Promise<PostalCodeUploadResult> Number of centroids stored and rows skipped
+ * @throws {Error} If the user is not authenticated, the file is invalid or the database operation fails
+ */
+export async function uploadPostalCodeCentroids(
+  citySlug: string,
+  csvText: string
+): Promise<PostalCodeUploadResult> {
+  // Input validation
+  if (!citySlug || typeof citySlug !== 'string' || citySlug.trim() === '') {
+    throw new Error('City slug is required and must be a non-empty string')
+  }
+
+  if (!csvText || typeof csvText !== 'string') {
+    throw new Error('Postal code file is required')
+  }
+
+  const parsed = parsePostalCodeCsv(csvText)
+  if (parsed.error !== null) {
+    throw new Error(`Invalid postal code file: ${parsed.error}`)
+  }
+
+  if (parsed.centroids.length === 0) {
+    throw new Error('Invalid postal code file: no valid rows')
+  }
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      throw new Error('Unauthorized')
+    }
+
+    const { data: city, error: cityError } = await supabase
+      .from('cities')
+      .select('id')
+      .eq('slug', citySlug)
+      .single()
+
+    if (cityError || !city) {
+      throw new Error(`City not found: ${citySlug}`)
+    }
+
+    const { data, error } = await supabase.rpc('replace_postal_code_centroids', {
+      p_city_id: city.id,
+      p_centroids: parsed.centroids.map((centroid) => ({
+        postal_code: centroid.postalCode,
+        latitude: centroid.latitude,
+        longitude: centroid.longitude,
+      })),
+    })
+
+    if (error) {
+      console.error('Error replacing postal code centroids:', error)
+      throw new Error('Failed to save postal codes')
+    }
+
+    revalidatePath(`/operator/${citySlug}/postal-codes`)
+
+    return {
+      stored: (data as number | null) ?? parsed.centroids.length,
+      skipped: parsed.rowErrors.length,
+    }
+  } catch (error) {
+    console.error('Error in uploadPostalCodeCentroids:', error)
+    throw error
+  }
+}
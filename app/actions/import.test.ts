@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Unit tests for bulk import server actions
+ * @description Tests previewing and committing an import against mocked
+ * city reference data
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { revalidatePath } from 'next/cache'
+import { commitImport, previewImport } from './import'
+import type { ImportColumnMapping, ImportTable } from '@/lib/import/fields'
+import { createQuery } from '@/__tests__/helpers/supabase'
+
+type MockFunction = ReturnType<typeof vi.fn>
+
+const CITY_ID = '123e4567-e89b-12d3-a456-426614174001'
+const FAMILY_ID = '123e4567-e89b-12d3-a456-426614174010'
+const EXISTING_ID = '123e4567-e89b-12d3-a456-426614174050'
+
+/**
+ * Create a Supabase mock serving one query per table
+ */
+const createMockSupabase = () => {
+  const queries: Record<string, ReturnType<typeof createQuery>> = {
+    cities: createQuery({
+      data: {
+        id: CITY_ID,
+        bounds_min_lat: 52.27,
+        bounds_max_lat: 52.43,
+        bounds_min_lng: 4.73,
+        bounds_max_lng: 5.07,
+      },
+      error: null,
+    }),
+    language_families: createQuery({
+      data: [{ id: FAMILY_ID, slug: 'turkic', translations: [{ name: 'Turkse talen' }] }],
+      error: null,
+    }),
+    countries: createQuery({ data: [], error: null }),
+    taxonomy_types: createQuery({ data: [], error: null }),
+    districts: createQuery({ data: [], error: null }),
+    languages: createQuery({
+      data: [{ id: EXISTING_ID, iso_639_3_code: 'nld', endonym: 'Nederlands' }],
+      error: null,
+    }),
+    postal_code_centroids: createQuery({
+      data: [{ postal_code: '1012LG', latitude: '52.3763', longitude: '4.8971' }],
+      error: null,
+    }),
+  }
+
+  const client: {
+    auth: { getUser: MockFunction }
+    from: MockFunction
+    rpc: MockFunction
+    queries: typeof queries
+  } = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'user-1' } } }),
+    },
+    from: vi.fn((table: string) => queries[table]),
+    rpc: vi.fn().mockResolvedValue({ data: [{ languages_created: 1, points_created: 2 }], error: null }),
+    queries,
+  }
+
+  return client
+}
+
+let mockSupabase: ReturnType<typeof createMockSupabase>
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(() => mockSupabase),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock('@/lib/i18n/active-locales', () => ({
+  getCityLocaleOptions: vi.fn().mockResolvedValue([
+    { code: 'en', name: 'English', nativeName: 'English' },
+    { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  ]),
+}))
+
+const mapping: ImportColumnMapping = {
+  fields: {
+    endonym: 'endonym',
+    iso_639_3_code: 'iso',
+    name_en: 'name',
+    language_family: 'family',
+    latitude: 'lat',
+    longitude: 'lng',
+    postal_code: 'postcode',
+  },
+  taxonomies: {},
+}
+
+const row = (values: Partial<Record<'endonym' | 'iso' | 'name' | 'family' | 'lat' | 'lng' | 'postcode', string>>) => ({
+  endonym: '',
+  iso: '',
+  name: '',
+  family: '',
+  lat: '',
+  lng: '',
+  postcode: '',
+  ...values,
+})
+
+const table: ImportTable = {
+  headers: ['endonym', 'iso', 'name', 'family', 'lat', 'lng', 'postcode'],
+  rows: [
+    row({ endonym: 'Türkçe', iso: 'tur', name: 'Turkish', family: 'Turkse talen', lat: '52.37', lng: '4.89' }),
+    row({ endonym: 'Türkçe', iso: 'tur', name: 'Turkish', postcode: '1012 LG' }),
+    row({ endonym: 'Nederlands', name: 'Dutch', lat: '52.36', lng: '4.90' }),
+  ],
+}
+
+describe('import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockSupabase = createMockSupabase()
+  })
+
+  describe('previewImport', () => {
+    it('should summarize the import and geocode postal codes from one lookup', async () => {
+      const preview = await previewImport('amsterdam', table, mapping)
+
+      expect(preview).toEqual({
+        newLanguages: 1,
+        existingLanguages: 1,
+        points: 3,
+        geocodedPoints: 1,
+        issues: [],
+      })
+      expect(mockSupabase.queries.postal_code_centroids.in).toHaveBeenCalledTimes(1)
+      expect(mockSupabase.queries.postal_code_centroids.in).toHaveBeenCalledWith('postal_code', ['1012LG'])
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should match rows against live rows only', async () => {
+      await previewImport('amsterdam', table, mapping)
+
+      expect(mockSupabase.queries.languages.is).toHaveBeenCalledWith('deleted_at', null)
+      expect(mockSupabase.queries.districts.is).toHaveBeenCalledWith('deleted_at', null)
+      expect(mockSupabase.queries.taxonomy_types.is).toHaveBeenCalledWith('values.deleted_at', null)
+    })
+
+    it('should report rows that do not match city data', async () => {
+      const preview = await previewImport(
+        'amsterdam',
+        { ...table, rows: [row({ endonym: 'Türkçe', name: 'Turkish', family: 'Bantu' })] },
+        mapping
+      )
+
+      expect(preview.issues).toEqual([
+        { line: 2, field: 'language_family', message: 'Unknown language family "Bantu"' },
+      ])
+    })
+
+    it('should reject a mapping without the required fields', async () => {
+      await expect(
+        previewImport('amsterdam', table, { fields: { endonym: 'endonym' }, taxonomies: {} })
+      ).rejects.toThrow('Required fields are not mapped: name_en')
+    })
+
+    it('should fail when reference data cannot be loaded', async () => {
+      mockSupabase.queries.countries = createQuery({ data: null, error: { message: 'boom' } })
+
+      await expect(previewImport('amsterdam', table, mapping)).rejects.toThrow(
+        'Failed to load city data for import'
+      )
+    })
+  })
+
+  describe('commitImport', () => {
+    it('should write new languages and all points in one RPC call', async () => {
+      const result = await commitImport('amsterdam', table, mapping)
+
+      expect(result).toEqual({ languagesCreated: 1, pointsCreated: 2 })
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('import_languages_and_points', {
+        p_city_id: CITY_ID,
+        p_languages: [
+          expect.objectContaining({ key: 'iso:tur', existing_id: null, language_family_id: FAMILY_ID }),
+          expect.objectContaining({ key: 'endonym:nederlands', existing_id: EXISTING_ID }),
+        ],
+        p_points: [
+          expect.objectContaining({ language_key: 'iso:tur', latitude: 52.37 }),
+          expect.objectContaining({ language_key: 'iso:tur', latitude: 52.3763, postal_code: '1012 LG' }),
+          expect.objectContaining({ language_key: 'endonym:nederlands', latitude: 52.36 }),
+        ],
+      })
+      expect(revalidatePath).toHaveBeenCalledWith('/operator/amsterdam/languages')
+      expect(revalidatePath).toHaveBeenCalledWith('/operator/amsterdam/language-points')
+    })
+
+    it('should reject an import with invalid rows', async () => {
+      await expect(
+        commitImport('amsterdam', { ...table, rows: [row({ endonym: 'Türkçe' })] }, mapping)
+      ).rejects.toThrow('Import has 1 invalid rows')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should require authentication', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null } })
+
+      await expect(commitImport('amsterdam', table, mapping)).rejects.toThrow('Unauthorized')
+    })
+
+    it('should throw when the RPC fails', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'violates policy' } })
+
+      await expect(commitImport('amsterdam', table, mapping)).rejects.toThrow('Failed to import languages')
+    })
+
+    it('should pass on taxonomy rule errors raised by the database', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: 'P0001', message: '"Size" is required' } })
+
+      await expect(commitImport('amsterdam', table, mapping)).rejects.toThrow('"Size" is required')
+    })
+  })
+})
@@ -0,0 +1,393 @@
+/**
+ * Server actions for the bulk import
+ * Validates mapped spreadsheet rows against the city's data and creates the
+ * resulting languages and language points in one batch.
+ */
+
+'use server'
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { revalidatePath } from 'next/cache'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { createDatabasePostalCodeLookup } from '@/lib/geocoding/centroids'
+import {
+  createPostalCodeGeocoder,
+  findPostalCodeCandidates,
+  type PostalCodeCentroid,
+} from '@/lib/geocoding/postal-codes'
+import { parseCityBounds } from '@/lib/map/bounds'
+import { getCityLocaleOptions } from '@/lib/i18n/active-locales'
+import { defaultLocale, findTranslation } from '@/lib/i18n/config'
+import {
+  getMissingRequiredFields,
+  MAX_IMPORT_ROWS,
+  type ImportColumnMapping,
+  type ImportTable,
+} from '@/lib/import/fields'
+import {
+  buildNameLookup,
+  planImport,
+  toLanguageKeys,
+  type ImportIssue,
+  type ImportPlan,
+  type ImportReference,
+  type NamedRow,
+} from '@/lib/import/plan'
+
+/**
+ * Postgres error code of RAISE EXCEPTION; its messages are meant for users
+ */
+const RAISE_EXCEPTION_CODE = 'P0001'
+
+/**
+ * Number of postal codes looked up per query
+ */
+const POSTAL_CODE_QUERY_CHUNK_SIZE = 200
+
+/**
+ * What an import would do, shown before committing it
+ */
+export interface ImportPreview {
+  /** Languages that will be created */
+  newLanguages: number
+  /** Existing languages that receive points */
+  existingLanguages: number
+  /** Language points that will be created */
+  points: number
+  /** Points whose coordinates come from the postal code */
+  geocodedPoints: number
+  /** Problems that block the import */
+  issues: ImportIssue[]
+}
+
+/**
+ * Result of a committed import
+ */
+export interface ImportResult {
+  languagesCreated: number
+  pointsCreated: number
+}
+
+/**
+ * Validate the spreadsheet and mapping sent by the client
+ */
+function validateImportInput(citySlug: string, table: ImportTable, mapping: ImportColumnMapping) {
+  if (!citySlug || typeof citySlug !== 'string' || citySlug.trim() === '') {
+    throw new Error('City slug is required and must be a non-empty string')
+  }
+
+  if (!table || !Array.isArray(table.headers) || !Array.isArray(table.rows)) {
+    throw new Error('Import table is required')
+  }
+
+  if (table.rows.length === 0) {
+    throw new Error('Import table has no rows')
+  }
+
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import table must have at most ${MAX_IMPORT_ROWS} rows`)
+  }
+
+  if (!mapping || typeof mapping.fields !== 'object' || typeof mapping.taxonomies !== 'object') {
+    throw new Error('Column mapping is required')
+  }
+
+  const missing = getMissingRequiredFields(mapping)
+  if (missing.length > 0) {
+    throw new Error(`Required fields are not mapped: ${missing.join(', ')}`)
+  }
+}
+
+/**
+ * Load the city data that imported names are matched against
+ */
+async function loadImportReference(
+  supabase: SupabaseClient,
+  cityId: string,
+  bounds: ImportReference['bounds']
+): Promise<ImportReference> {
+  const [families, countries, taxonomyTypes, districts, languages, locales] = await Promise.all([
+    supabase.from('language_families').select('id, slug, translations:language_family_translations (name)'),
+    supabase
+      .from('countries')
+      .select('id, iso_code_2, iso_code_3, translations:country_translations (name)'),
+    supabase
+      .from('taxonomy_types')
+      .select(`
+        id,
+        slug,
+        is_required,
+        allow_multiple,
+        translations:taxonomy_type_translations (locale_code, name),
+        values:taxonomy_values (
+          id,
+          slug,
+          translations:taxonomy_value_translations (name)
+        )
+      `)
+      .eq('city_id', cityId)
+      .is('values.deleted_at', null),
+    supabase.from('districts').select('id').eq('city_id', cityId).is('deleted_at', null),
+    supabase.from('languages').select('id, iso_639_3_code, endonym').eq('city_id', cityId).is('deleted_at', null),
+    getCityLocaleOptions(supabase, cityId),
+  ])
+
+  const failed = [families, countries, taxonomyTypes, districts, languages].find((result) => result.error)
+  if (failed) {
+    console.error('Error loading import reference data:', failed.error)
+    throw new Error('Failed to load city data for import')
+  }
+
+  const districtIds = (districts.data ?? []).map((district) => district.id as string)
+  let neighborhoodRows: NamedRow[] = []
+
+  if (districtIds.length > 0) {
+    const { data, error } = await supabase
+      .from('neighborhoods')
+      .select('id, slug, translations:neighborhood_translations (name)')
+      .in('district_id', districtIds)
+      .is('deleted_at', null)
+
+    if (error) {
+      console.error('Error loading neighborhoods for import:', error)
+      throw new Error('Failed to load city data for import')
+    }
+
+    neighborhoodRows = (data ?? []) as NamedRow[]
+  }
+
+  const taxonomyValues = new Map<string, Map<string, string>>()
+  const taxonomyRules: ImportReference['taxonomyRules'] = []
+  for (const type of (taxonomyTypes.data ?? []) as Array<{
+    id: string
+    slug: string
+    is_required: boolean
+    allow_multiple: boolean
+    translations: Array<{ locale_code: string; name: string }> | null
+    values: NamedRow[] | null
+  }>) {
+    taxonomyValues.set(type.slug, buildNameLookup(type.values))
+    taxonomyRules.push({
+      id: type.id,
+      slug: type.slug,
+      // Named in the city's first locale, like the database's rule messages
+      name: findTranslation(type.translations, locales[0]?.code ?? defaultLocale)?.name ?? type.slug,
+      is_required: type.is_required,
+      allow_multiple: type.allow_multiple,
+      valueIds: (type.values ?? []).map((value) => value.id),
+    })
+  }
+
+  const existingLanguages = new Map<string, string>()
+  for (const language of (languages.data ?? []) as Array<{
+    id: string
+    iso_639_3_code: string | null
+    endonym: string
+  }>) {
+    for (const key of toLanguageKeys(language.iso_639_3_code, language.endonym)) {
+      if (!existingLanguages.has(key)) {
+        existingLanguages.set(key, language.id)
+      }
+    }
+  }
+
+  return {
+    bounds,
+    locales: locales.map((locale) => locale.code),
+    families: buildNameLookup(families.data as NamedRow[] | null),
+    countries: buildNameLookup(
+      countries.data as Array<NamedRow & { iso_code_2: string | null; iso_code_3: string | null }> | null,
+      (country) => [country.iso_code_2, country.iso_code_3]
+    ),
+    taxonomyValues,
+    taxonomyRules,
+    neighborhoods: buildNameLookup(neighborhoodRows),
+    existingLanguages,
+  }
+}
+
+/**
+ * Load the centroids of the postal codes in the spreadsheet
+ *
+ * Looking them up once keeps planning from querying the database per row.
+ */
+async function loadPostalCodeCentroids(
+  supabase: SupabaseClient,
+  cityId: string,
+  table: ImportTable,
+  mapping: ImportColumnMapping
+): Promise<Map<string, PostalCodeCentroid>> {
+  const header = mapping.fields.postal_code
+  const centroids = new Map<string, PostalCodeCentroid>()
+
+  if (!header) {
+    return centroids
+  }
+
+  const codes = [
+    ...new Set(table.rows.flatMap((row) => findPostalCodeCandidates(row[header] ?? ''))),
+  ]
+  const lookup = createDatabasePostalCodeLookup(supabase, cityId)
+
+  for (let start = 0; start < codes.length; start += POSTAL_CODE_QUERY_CHUNK_SIZE) {
+    const found = await lookup(codes.slice(start, start + POSTAL_CODE_QUERY_CHUNK_SIZE))
+    for (const centroid of found) {
+      centroids.set(centroid.postalCode, centroid)
+    }
+  }
+
+  return centroids
+}
+
+/**
+ * Resolve the city and plan the import against its data
+ */
+async function planCityImport(
+  supabase: SupabaseClient,
+  citySlug: string,
+  table: ImportTable,
+  mapping: ImportColumnMapping
+): Promise<{ cityId: string; plan: ImportPlan }> {
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id, bounds_min_lat, bounds_max_lat, bounds_min_lng, bounds_max_lng')
+    .eq('slug', citySlug)
+    .single()
+
+  if (cityError || !city) {
+    throw new Error(`City not found: ${citySlug}`)
+  }
+
+  const [reference, centroids] = await Promise.all([
+    loadImportReference(supabase, city.id, parseCityBounds(city)),
+    loadPostalCodeCentroids(supabase, city.id, table, mapping),
+  ])
+
+  const geocoder = createPostalCodeGeocoder(async (codes) =>
+    codes
+      .map((code) => centroids.get(code))
+      .filter((centroid): centroid is PostalCodeCentroid => centroid !== undefined)
+  )
+
+  return { cityId: city.id, plan: await planImport(table, mapping, reference, geocoder) }
+}
+
+/**
+ * Validates an import without writing anything
+ *
+ * @async
+ * @param citySlug - The slug of the city
+ * @param table - Spreadsheet contents
+ * @param mapping - Column chosen for each field and taxonomy type
+ * @returns Promise<ImportPreview> Counts of what would be created and the problems per row
+ * @throws {Error} If parameters are invalid, the city is not found or the database query fails
+ */
+export async function previewImport(
+  citySlug: string,
+  table: ImportTable,
+  mapping: ImportColumnMapping
+): Promise<ImportPreview> {
+  validateImportInput(citySlug, table, mapping)
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+    const { plan } = await planCityImport(supabase, citySlug, table, mapping)
+
+    return {
+      newLanguages: plan.languages.filter((language) => !language.existingId).length,
+      existingLanguages: plan.languages.filter((language) => language.existingId).length,
+      points: plan.points.length,
+      geocodedPoints: plan.points.filter((point) => point.geocoded).length,
+      issues: plan.issues,
+    }
+  } catch (error) {
+    console.error('Error in previewImport:', error)
+    throw error
+  }
+}
+
+/**
+ * Imports languages and language points in one transaction
+ *
+ * The rows are validated again on the server; an import with any problem
+ * is rejected as a whole.
+ *
+ * @async
+ * @param citySlug - The slug of the city
+ * @param table - Spreadsheet contents
+ * @param mapping - Column chosen for each field and taxonomy type
+ * @returns Promise<ImportResult> Number of languages and points created
+ * @throws {Error} If the user is not authenticated, rows are invalid or the database operation fails
+ */
+export async function commitImport(
+  citySlug: string,
+  table: ImportTable,
+  mapping: ImportColumnMapping
+): Promise<ImportResult> {
+  validateImportInput(citySlug, table, mapping)
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      throw new Error('Unauthorized')
+    }
+
+    const { cityId, plan } = await planCityImport(supabase, citySlug, table, mapping)
+
+    if (plan.issues.length > 0) {
+      throw new Error(`Import has ${plan.issues.length} invalid rows`)
+    }
+
+    if (plan.points.length === 0 && plan.languages.every((language) => language.existingId)) {
+      throw new Error('Import contains nothing to create')
+    }
+
+    const { data, error } = await supabase.rpc('import_languages_and_points', {
+      p_city_id: cityId,
+      p_languages: plan.languages.map((language) => ({
+        key: language.key,
+        existing_id: language.existingId,
+        endonym: language.endonym,
+        iso_639_3_code: language.iso_639_3_code,
+        language_family_id: language.language_family_id,
+        country_of_origin_id: language.country_of_origin_id,
+        speaker_count: language.speaker_count,
+        translations: language.translations,
+        taxonomy_value_ids: language.taxonomy_value_ids,
+      })),
+      p_points: plan.points.map((point) => ({
+        language_key: point.language_key,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        neighborhood_id: point.neighborhood_id,
+        postal_code: point.postal_code,
+        community_name: point.community_name,
+        notes: point.notes,
+      })),
+    })
+
+    if (error) {
+      console.error('Error importing languages:', error)
+      // A taxonomy rule can change between preview and commit
+      throw new Error(error.code === RAISE_EXCEPTION_CODE ? error.message : 'Failed to import languages')
+    }
+
+    const [counts] = (data ?? []) as Array<{ languages_created: number; points_created: number }>
+
+    revalidatePath(`/operator/${citySlug}/languages`)
+    revalidatePath(`/operator/${citySlug}/language-points`)
+
+    return {
+      languagesCreated: counts?.languages_created ?? 0,
+      pointsCreated: counts?.points_created ?? 0,
+    }
+  } catch (error) {
+    console.error('Error in commitImport:', error)
+    throw error
+  }
+}
@@ -9,10 +9,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import {
   createInvitation,
+  getInvitationByToken,
   acceptInvitation,
   revokeInvitation,
+  sendInvitationReminder,
+  extendInvitation,
   getInvitations,
+  getCityInvitations,
+  createBulkInvitations,
 } from './invitations'
+import { getCityAdminAccess } from '@/lib/auth/city-admin'
+import { sendMail } from '@/lib/mail'
+import { createQuery } from '@/__tests__/helpers/supabase'
 
 // Mock the Supabase client and related modules
 vi.mock('@supabase/ssr', () => ({
@@ -41,6 +49,32 @@ vi.mock('@/lib/database/client', () => ({
   getDatabaseAdminClient: vi.fn(),
 }))
 
+// Mock the session client used to identify the invitee
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/city-admin', () => ({
+  getCityAdminAccess: vi.fn(),
+}))
+
+// Mock mail delivery; templates are rendered for real
+vi.mock('@/lib/mail', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/mail')>()),
+  sendMail: vi.fn(),
+}))
+
+// Unless a test signs someone in explicitly, the session user is the one
+// returned by the admin client mock's auth.getUser
+beforeEach(async () => {
+  const { getServerSupabaseWithCookies } = await import('@/lib/supabase/server-client')
+  const { getDatabaseAdminClient } = await import('@/lib/database/client')
+  vi.mocked(getServerSupabaseWithCookies).mockImplementation(async () =>
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    getDatabaseAdminClient('system') as any
+  )
+})
+
 // Test data
 const mockUser = {
   id: '00000000-0000-0000-0000-000000000001',
@@ -385,15 +419,389 @@ describe('createInvitation', () => {
   })
 })
 
-describe('acceptInvitation', () => {
-  it('should accept invitation successfully', async () => {
+/**
+ * Query returning the invitation with its inviter and cities, as loaded for emails
+ */
+const createEmailQuery = (locale = 'en') => ({
+  select: vi.fn().mockReturnValue({
+    eq: vi.fn().mockReturnValue({
+      single: vi.fn().mockResolvedValue({
+        data: {
+          ...mockInvitation,
+          locale,
+          inviter: { full_name: 'Jan de Vries', email: mockUser.email },
+          city_grants: [
+            {
+              city: {
+                slug: 'amsterdam',
+                translations: [
+                  { locale_code: 'en', name: 'Amsterdam' },
+                  { locale_code: 'nl', name: 'Amsterdam (NL)' },
+                ],
+              },
+            },
+          ],
+        },
+        error: null,
+      }),
+    }),
+  }),
+})
+
+/**
+ * Query recording the email send time
+ */
+const createSentAtUpdate = () => {
+  const update = vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) })
+  return { update }
+}
+
+describe('invitation emails', () => {
+  beforeEach(() => {
+    vi.mocked(sendMail).mockReset()
+  })
+
+  /**
+   * Mock the queries of a successful createInvitation by a superuser
+   */
+  const mockCreateQueries = (...emailQueries: object[]) => {
+    const noRow = { data: null, error: { code: 'PGRST116' } }
+    const from = vi.fn()
+    const queries: object[] = [
+      { select: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ single: vi.fn().mockResolvedValue({ data: { role: 'superuser' }, error: null }) }) }) },
+      { select: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ single: vi.fn().mockResolvedValue(noRow) }) }) },
+      {
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            is: vi.fn().mockReturnValue({
+              is: vi.fn().mockReturnValue({ gt: vi.fn().mockReturnValue({ single: vi.fn().mockResolvedValue(noRow) }) }),
+            }),
+          }),
+        }),
+      },
+      { insert: vi.fn().mockReturnValue({ select: vi.fn().mockReturnValue({ single: vi.fn().mockResolvedValue({ data: mockInvitation, error: null }) }) }) },
+      { insert: vi.fn().mockResolvedValue({ error: null }) },
+      ...emailQueries,
+    ]
+    queries.forEach((query) => from.mockReturnValueOnce(query))
+
+    return {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({ data: { user: mockUser }, error: null }),
+      },
+      from,
+    }
+  }
+
+  it('should email the invitation in the invitee locale', async () => {
+    const sentAt = createSentAtUpdate()
+    const mockSupabase = mockCreateQueries(createEmailQuery('nl'), sentAt)
+
+    const { getDatabaseAdminClient } = await import('@/lib/database/client')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(getDatabaseAdminClient).mockReturnValue(mockSupabase as any)
+
+    const result = await createInvitation({
+      email: 'invited@example.com',
+      fullName: 'Invited User',
+      role: 'admin',
+      cityIds: ['123e4567-e89b-12d3-a456-426614174000'],
+      locale: 'nl',
+    })
+
+    expect(result.emailSent).toBe(true)
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'invited@example.com',
+        subject: 'Je bent uitgenodigd voor de Language Map',
+        text: expect.stringContaining('/nl/invite/test-token-123'),
+      })
+    )
+    expect(vi.mocked(sendMail).mock.calls[0][0].text).toContain('Jan de Vries nodigt je uit om als beheerder mee te werken aan de Language Map voor Amsterdam (NL).')
+    expect(sentAt.update).toHaveBeenCalledWith({ email_sent_at: expect.any(String) })
+  })
+
+  it('should keep the invitation when the email fails', async () => {
+    vi.mocked(sendMail).mockRejectedValue(new Error('Connection refused'))
+    const mockSupabase = mockCreateQueries(createEmailQuery())
+
+    const { getDatabaseAdminClient } = await import('@/lib/database/client')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(getDatabaseAdminClient).mockReturnValue(mockSupabase as any)
+
+    const result = await createInvitation({
+      email: 'invited@example.com',
+      fullName: 'Invited User',
+      role: 'admin',
+      cityIds: ['123e4567-e89b-12d3-a456-426614174000'],
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.emailSent).toBe(false)
+    expect(result.invitation.token).toBe('test-token-123')
+  })
+
+  it('should reject invalid locales', async () => {
+    await expect(
+      createInvitation({
+        email: 'invited@example.com',
+        fullName: 'Invited User',
+        role: 'admin',
+        cityIds: ['123e4567-e89b-12d3-a456-426614174000'],
+        locale: 'xx',
+      })
+    ).rejects.toThrow('Validation failed')
+  })
+
+  it('should email the invitee when a pending invitation is revoked', async () => {
     const mockSupabase = {
       auth: {
-        getUser: vi.fn().mockResolvedValue({
-          data: { user: mockUser },
-          error: null,
+        getUser: vi.fn().mockResolvedValue({ data: { user: mockUser }, error: null }),
+      },
+      from: vi.fn()
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: { invited_by: mockUser.id, accepted_at: null, revoked_at: null },
+                error: null,
+              }),
+            }),
+          }),
+        })
+        .mockReturnValueOnce(createSentAtUpdate())
+        .mockReturnValueOnce(createEmailQuery()),
+    }
+
+    const { getDatabaseAdminClient } = await import('@/lib/database/client')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(getDatabaseAdminClient).mockReturnValue(mockSupabase as any)
+
+    await revokeInvitation('invitation-123')
+
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ subject: 'Your invitation to the Language Map was withdrawn' })
+    )
+  })
+
+  it('should send a reminder for a pending invitation', async () => {
+    const sentAt = createSentAtUpdate()
+    const mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({ data: { user: mockUser }, error: null }),
+      },
+      from: vi.fn()
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: { invited_by: mockUser.id, accepted_at: null, revoked_at: null, expires_at: mockInvitation.expires_at },
+                error: null,
+              }),
+            }),
+          }),
+        })
+        .mockReturnValueOnce(createEmailQuery())
+        .mockReturnValueOnce(sentAt),
+    }
+
+    const { getDatabaseAdminClient } = await import('@/lib/database/client')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(getDatabaseAdminClient).mockReturnValue(mockSupabase as any)
+
+    const result = await sendInvitationReminder('invitation-123')
+
+    expect(result).toEqual({ success: true, message: 'Reminder sent successfully' })
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ subject: 'Reminder: your invitation to the Language Map' })
+    )
+    expect(sentAt.update).toHaveBeenCalledWith({ reminder_sent_at: expect.any(String) })
+  })
+
+  it('should not remind accepted invitations', async () => {
+    const mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({ data: { user: mockUser }, error: null }),
+      },
+      from: vi.fn().mockReturnValueOnce({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: {
+                invited_by: mockUser.id,
+                accepted_at: new Date().toISOString(),
+                revoked_at: null,
+                expires_at: mockInvitation.expires_at,
+              },
+              error: null,
+            }),
+          }),
         }),
+      }),
+    }
+
+    const { getDatabaseAdminClient } = await import('@/lib/database/client')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(getDatabaseAdminClient).mockReturnValue(mockSupabase as any)
+
+    await expect(sendInvitationReminder('invitation-123')).rejects.toThrow('Only pending invitations can be reminded')
+    expect(sendMail).not.toHaveBeenCalled()
+  })
+
+  it('should fail the reminder when the email cannot be sent', async () => {
+    vi.mocked(sendMail).mockRejectedValue(new Error('Connection refused'))
+    const mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({ data: { user: mockUser }, error: null }),
+      },
+      from: vi.fn()
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({
+                data: { invited_by: mockUser.id, accepted_at: null, revoked_at: null, expires_at: mockInvitation.expires_at },
+                error: null,
+              }),
+            }),
+          }),
+        })
+        .mockReturnValueOnce(createEmailQuery()),
+    }
+
+    const { getDatabaseAdminClient } = await import('@/lib/database/client')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(getDatabaseAdminClient).mockReturnValue(mockSupabase as any)
+
+    await expect(sendInvitationReminder('invitation-123')).rejects.toThrow('Failed to send reminder email')
+  })
+})
+
+/**
+ * Create a session client signed in as the given user (or signed out)
+ */
+async function mockSessionUser(user: typeof mockUser | null) {
+  const { getServerSupabaseWithCookies } = await import('@/lib/supabase/server-client')
+  vi.mocked(getServerSupabaseWithCookies).mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user },
+        error: user ? null : { message: 'Not authenticated' },
+      }),
+    },
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as any)
+}
+
+describe('getInvitationByToken', () => {
+  /**
+   * Mock the invitation lookup by token
+   */
+  async function mockLookup(data: Record<string, unknown> | null, error: { message: string } | null = null) {
+    const eq = vi.fn().mockReturnValue({
+      maybeSingle: vi.fn().mockResolvedValue({ data, error }),
+    })
+    const mockSupabase = {
+      from: vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({ eq }),
+      }),
+    }
+
+    const { getDatabaseAdminClient } = await import('@/lib/database/client')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(getDatabaseAdminClient).mockReturnValue(mockSupabase as any)
+    return eq
+  }
+
+  const storedInvitation = {
+    email: mockInvitation.email,
+    full_name: mockInvitation.full_name,
+    role: 'admin',
+    expires_at: mockInvitation.expires_at,
+    accepted_at: null,
+    revoked_at: null,
+    inviter: { full_name: 'Alice Admin', email: 'alice@example.com' },
+    city_grants: [
+      {
+        role: 'admin',
+        city: {
+          slug: 'amsterdam',
+          translations: [
+            { locale_code: 'en', name: 'Amsterdam' },
+            { locale_code: 'fr', name: 'Amsterdam (FR)' },
+          ],
+        },
+      },
+      {
+        role: 'admin',
+        city: { slug: 'utrecht', translations: [] },
       },
+    ],
+  }
+
+  it('should return a pending invitation with localized city names', async () => {
+    const eq = await mockLookup(storedInvitation)
+
+    const result = await getInvitationByToken('test-token-123', 'fr')
+
+    expect(eq).toHaveBeenCalledWith('token', 'test-token-123')
+    expect(result).toEqual({
+      status: 'pending',
+      email: 'invited@example.com',
+      fullName: 'Invited User',
+      role: 'admin',
+      inviterName: 'Alice Admin',
+      expiresAt: mockInvitation.expires_at,
+      cities: [
+        { slug: 'amsterdam', name: 'Amsterdam (FR)', role: 'admin' },
+        { slug: 'utrecht', name: 'utrecht', role: 'admin' },
+      ],
+    })
+  })
+
+  it('should return null for an unknown token', async () => {
+    await mockLookup(null)
+
+    expect(await getInvitationByToken('unknown', 'en')).toBeNull()
+  })
+
+  it('should return null for an empty token without querying', async () => {
+    const eq = await mockLookup(storedInvitation)
+
+    expect(await getInvitationByToken('', 'en')).toBeNull()
+    expect(eq).not.toHaveBeenCalled()
+  })
+
+  it('should report expired invitations', async () => {
+    await mockLookup({ ...storedInvitation, expires_at: '2020-01-01T00:00:00Z' })
+
+    const result = await getInvitationByToken('test-token-123', 'en')
+
+    expect(result?.status).toBe('expired')
+  })
+
+  it('should report revoked and accepted invitations even after they expire', async () => {
+    const expired = { ...storedInvitation, expires_at: '2020-01-01T00:00:00Z' }
+
+    await mockLookup({ ...expired, revoked_at: '2019-12-01T00:00:00Z' })
+    expect((await getInvitationByToken('test-token-123', 'en'))?.status).toBe('revoked')
+
+    await mockLookup({ ...expired, accepted_at: '2019-12-01T00:00:00Z' })
+    expect((await getInvitationByToken('test-token-123', 'en'))?.status).toBe('accepted')
+  })
+
+  it('should throw when the lookup fails', async () => {
+    await mockLookup(null, { message: 'connection refused' })
+
+    await expect(getInvitationByToken('test-token-123', 'en')).rejects.toThrow(
+      'Failed to fetch invitation: connection refused'
+    )
+  })
+})
+
+describe('acceptInvitation', () => {
+  it('should accept invitation for the signed-in user', async () => {
+    await mockSessionUser(mockUser)
+    const mockSupabase = {
       rpc: vi.fn().mockResolvedValue({
         data: { success: true, message: 'Invitation accepted' },
         error: null,
@@ -408,6 +816,10 @@ describe('acceptInvitation', () => {
 
     expect(result.success).toBe(true)
     expect(result.message).toBe('Invitation accepted')
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('accept_invitation', {
+      p_token: 'valid-token',
+      p_user_id: mockUser.id,
+    })
   })
 
   it('should throw error for invalid token', async () => {
@@ -415,30 +827,20 @@ describe('acceptInvitation', () => {
   })
 
   it('should throw error if user not authenticated', async () => {
-    const mockSupabase = {
-      auth: {
-        getUser: vi.fn().mockResolvedValue({
-          data: { user: null },
-          error: { message: 'Not authenticated' },
-        }),
-      },
-    }
+    await mockSessionUser(null)
+    const mockSupabase = { rpc: vi.fn() }
 
     const { getDatabaseAdminClient } = await import('@/lib/database/client')
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     vi.mocked(getDatabaseAdminClient).mockReturnValue(mockSupabase as any)
 
     await expect(acceptInvitation('test-token')).rejects.toThrow('Authentication required')
+    expect(mockSupabase.rpc).not.toHaveBeenCalled()
   })
 
   it('should throw error if invitation RPC fails', async () => {
+    await mockSessionUser(mockUser)
     const mockSupabase = {
-      auth: {
-        getUser: vi.fn().mockResolvedValue({
-          data: { user: mockUser },
-          error: null,
-        }),
-      },
       rpc: vi.fn().mockResolvedValue({
         data: null,
         error: { message: 'Invitation not found' },
@@ -453,15 +855,10 @@ describe('acceptInvitation', () => {
   })
 
   it('should throw error if invitation returns unsuccessful', async () => {
+    await mockSessionUser(mockUser)
     const mockSupabase = {
-      auth: {
-        getUser: vi.fn().mockResolvedValue({
-          data: { user: mockUser },
-          error: null,
-        }),
-      },
       rpc: vi.fn().mockResolvedValue({
-        data: { success: false, error: 'Invitation expired' },
+        data: { success: false, error: 'Invitation was sent to a different email address' },
         error: null,
       }),
     }
@@ -470,7 +867,9 @@ describe('acceptInvitation', () => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     vi.mocked(getDatabaseAdminClient).mockReturnValue(mockSupabase as any)
 
-    await expect(acceptInvitation('expired-token')).rejects.toThrow('Invitation expired')
+    await expect(acceptInvitation('other-token')).rejects.toThrow(
+      'Invitation was sent to a different email address'
+    )
   })
 })
 
@@ -633,7 +1032,10 @@ describe('revokeInvitation', () => {
               }),
             }),
           }),
-        }),
+        })
+        // Invitation grants a city the user does not administer
+        .mockReturnValueOnce(createQuery({ data: [{ city_id: 'city-2' }], error: null }))
+        .mockReturnValueOnce(createQuery({ data: [], error: null })),
     }
 
     const { getDatabaseAdminClient } = await import('@/lib/database/client')
@@ -885,3 +1287,201 @@ describe('getInvitations', () => {
     await expect(getInvitations()).rejects.toThrow('Failed to fetch invitations')
   })
 })
+
+describe('invitation management', () => {
+  const cityAdminSupabase = (...queries: object[]) => {
+    const from = vi.fn()
+    queries.forEach((query) => from.mockReturnValueOnce(query))
+    return {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({ data: { user: mockUser }, error: null }),
+      },
+      from,
+    }
+  }
+
+  const useSupabase = async (mockSupabase: object) => {
+    const { getDatabaseAdminClient } = await import('@/lib/database/client')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(getDatabaseAdminClient).mockReturnValue(mockSupabase as any)
+  }
+
+  beforeEach(() => {
+    vi.mocked(sendMail).mockReset()
+    vi.mocked(getCityAdminAccess).mockReset()
+    vi.mocked(getCityAdminAccess).mockResolvedValue({ status: 'granted', userId: mockUser.id, cityId: 'city-1' })
+  })
+
+  describe('revokeInvitation', () => {
+    it('should let a city admin revoke an invitation someone else sent to their city', async () => {
+      const update = createQuery({ error: null })
+      await useSupabase(
+        cityAdminSupabase(
+          createQuery({ data: { invited_by: 'other-user-id', accepted_at: null, revoked_at: null }, error: null }),
+          createQuery({ data: { role: 'admin' }, error: null }),
+          createQuery({ data: [{ city_id: 'city-1' }], error: null }),
+          createQuery({ data: [{ city_id: 'city-1' }], error: null }),
+          update
+        )
+      )
+
+      const result = await revokeInvitation('invitation-123')
+
+      expect(result.success).toBe(true)
+      expect(update.update).toHaveBeenCalledWith(expect.objectContaining({ revoked_at: expect.any(String) }))
+    })
+  })
+
+  describe('extendInvitation', () => {
+    it('should move the expiry date and clear the expired mark', async () => {
+      const update = createQuery({ error: null })
+      await useSupabase(
+        cityAdminSupabase(
+          createQuery({ data: { invited_by: mockUser.id, accepted_at: null, revoked_at: null }, error: null }),
+          update
+        )
+      )
+
+      const result = await extendInvitation('invitation-123', 14)
+
+      const expected = Date.now() + 14 * 24 * 60 * 60 * 1000
+      expect(Math.abs(new Date(result.expiresAt).getTime() - expected)).toBeLessThan(2 * 60 * 60 * 1000)
+      expect(update.update).toHaveBeenCalledWith({
+        expires_at: result.expiresAt,
+        expired_at: null,
+        updated_at: expect.any(String),
+      })
+      expect(update.eq).toHaveBeenCalledWith('id', 'invitation-123')
+    })
+
+    it('should not extend accepted or revoked invitations', async () => {
+      await useSupabase(
+        cityAdminSupabase(
+          createQuery({ data: { invited_by: mockUser.id, accepted_at: '2025-01-01T00:00:00Z', revoked_at: null }, error: null })
+        )
+      )
+
+      await expect(extendInvitation('invitation-123')).rejects.toThrow('Only pending or expired invitations can be extended')
+    })
+
+    it('should reject other users', async () => {
+      await useSupabase(
+        cityAdminSupabase(
+          createQuery({ data: { invited_by: 'other-user-id', accepted_at: null, revoked_at: null }, error: null }),
+          createQuery({ data: { role: 'operator' }, error: null })
+        )
+      )
+
+      await expect(extendInvitation('invitation-123')).rejects.toThrow('You can only extend invitations you created')
+    })
+
+    it('should reject invalid durations', async () => {
+      await expect(extendInvitation('invitation-123', 0)).rejects.toThrow('Invitations can be extended by 1 to 30 days')
+      await expect(extendInvitation('invitation-123', 31)).rejects.toThrow('Invitations can be extended by 1 to 30 days')
+    })
+  })
+
+  describe('getCityInvitations', () => {
+    it('should list the invitations to the city with their status', async () => {
+      const query = createQuery({
+        data: [
+          {
+            id: 'invitation-1',
+            email: 'ana@example.com',
+            full_name: 'Ana',
+            role: 'operator',
+            locale: 'nl',
+            created_at: '2025-01-01T00:00:00Z',
+            expires_at: '2025-01-08T00:00:00Z',
+            accepted_at: null,
+            revoked_at: null,
+            email_sent_at: '2025-01-01T00:00:01Z',
+            reminder_sent_at: null,
+            inviter: { full_name: null, email: 'alice@example.com' },
+            city_grants: [
+              { city: { slug: 'amsterdam', translations: [{ locale_code: 'nl', name: 'Amsterdam (NL)' }] } },
+            ],
+          },
+        ],
+        error: null,
+      })
+      await useSupabase(cityAdminSupabase(query))
+
+      const result = await getCityInvitations('amsterdam', 'nl')
+
+      expect(getCityAdminAccess).toHaveBeenCalledWith(expect.anything(), 'amsterdam')
+      expect(query.eq).toHaveBeenCalledWith('city_filter.city_id', 'city-1')
+      expect(result).toEqual([
+        {
+          id: 'invitation-1',
+          email: 'ana@example.com',
+          fullName: 'Ana',
+          role: 'operator',
+          locale: 'nl',
+          status: 'expired',
+          inviterName: 'alice@example.com',
+          createdAt: '2025-01-01T00:00:00Z',
+          expiresAt: '2025-01-08T00:00:00Z',
+          acceptedAt: null,
+          revokedAt: null,
+          emailSentAt: '2025-01-01T00:00:01Z',
+          reminderSentAt: null,
+          cities: [{ slug: 'amsterdam', name: 'Amsterdam (NL)' }],
+        },
+      ])
+    })
+
+    it('should reject users who do not administer the city', async () => {
+      vi.mocked(getCityAdminAccess).mockResolvedValue({ status: 'forbidden' })
+
+      await expect(getCityInvitations('amsterdam')).rejects.toThrow(
+        'Insufficient permissions to manage invitations for this city'
+      )
+    })
+  })
+
+  describe('createBulkInvitations', () => {
+    it('should invite each person and report the ones that fail', async () => {
+      const insert = createQuery({ data: mockInvitation, error: null })
+      const grants = createQuery({ error: null })
+      await useSupabase(
+        cityAdminSupabase(
+          // ana@example.com: no account, no pending invitation
+          createQuery({ data: null, error: { code: 'PGRST116' } }),
+          createQuery({ data: null, error: { code: 'PGRST116' } }),
+          insert,
+          grants,
+          createEmailQuery('fr'),
+          createSentAtUpdate(),
+          // ben@example.com: already has an account
+          createQuery({ data: { id: 'user-2' }, error: null })
+        )
+      )
+
+      const result = await createBulkInvitations('amsterdam', [
+        { email: 'ana@example.com', fullName: 'Ana', role: 'operator', locale: 'fr' },
+        { email: 'ben@example.com', fullName: 'Ben', role: 'admin', locale: 'en' },
+      ])
+
+      expect(result.invited).toBe(1)
+      expect(result.failed).toBe(1)
+      expect(result.results).toEqual([
+        { email: 'ana@example.com', success: true, emailSent: true },
+        { email: 'ben@example.com', success: false, emailSent: false, error: 'A user with this email already exists' },
+      ])
+      expect(insert.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'ana@example.com', role: 'operator', locale: 'fr', invited_by: mockUser.id })
+      )
+      expect(grants.insert).toHaveBeenCalledWith([{ invitation_id: mockInvitation.id, city_id: 'city-1', role: 'operator' }])
+      expect(sendMail).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject an invalid list before doing anything', async () => {
+      await expect(
+        createBulkInvitations('amsterdam', [{ email: 'not-an-email', fullName: 'Ana', role: 'operator', locale: 'en' }])
+      ).rejects.toThrow('Validation failed')
+      await expect(createBulkInvitations('amsterdam', [])).rejects.toThrow('Validation failed')
+      expect(getCityAdminAccess).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -6,9 +6,19 @@
  *
  * This module provides:
  * - createInvitation: Create new user invitations with city access grants
+ * - createBulkInvitations: Invite a list of people to a city in one step
+ * - getInvitationByToken: Look up an invitation for the acceptance page
  * - acceptInvitation: Accept invitation and grant city access
  * - revokeInvitation: Revoke pending invitations
+ * - sendInvitationReminder: Email a reminder for a pending invitation
+ * - extendInvitation: Move the expiry date of a pending or expired invitation
  * - getInvitations: Fetch invitations list for admin review
+ * - getCityInvitations: Fetch the invitations to a city for its admins
+ *
+ * Invitees are emailed in their locale when an invitation is created, on
+ * reminders and when a pending invitation is revoked (see lib/mail). A
+ * failed email does not undo the invitation; the result reports it so the
+ * link can be shared another way.
  *
  * Security features:
  * - Token-based invitation acceptance
@@ -23,10 +33,21 @@
 'use server'
 
 import { revalidatePath } from 'next/cache'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { getDatabaseAdminClient } from '@/lib/database/client'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getCityAdminAccess } from '@/lib/auth/city-admin'
+import { bulkInvitationSchema, MAX_BULK_INVITATIONS, type BulkInvitation } from '@/lib/invitations/bulk'
+import { locales } from '@/lib/i18n/config'
+import { renderInvitationEmail, sendMail, type InvitationEmailKind } from '@/lib/mail'
 import { randomBytes } from 'crypto'
 import { z } from 'zod'
 
+/**
+ * Days an invitation can be accepted, from creation or extension
+ */
+const INVITATION_VALIDITY_DAYS = 7
+
 /**
  * Schema for creating an invitation
  */
@@ -35,8 +56,257 @@ const createInvitationSchema = z.object({
   fullName: z.string().min(1, 'Full name is required').max(255, 'Name too long'),
   role: z.enum(['admin', 'operator'] as const),
   cityIds: z.array(z.string().uuid('Invalid city ID')).min(1, 'At least one city is required'),
+  locale: z.enum(locales).default('en'),
 })
 
+/**
+ * Link that opens the invitation acceptance page
+ */
+function getInvitationUrl(locale: string, token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001'
+  return `${appUrl}/${locale}/invite/${token}`
+}
+
+/**
+ * City with its translated names, as selected for invitations
+ */
+type InvitationCity = {
+  slug: string
+  translations: Array<{ locale_code: string; name: string }> | null
+}
+
+/**
+ * Name of a city in the given locale, falling back to English and the slug
+ */
+function getCityName(city: InvitationCity, locale: string): string {
+  const translations = city.translations ?? []
+  return (
+    translations.find((translation) => translation.locale_code === locale)?.name ??
+    translations.find((translation) => translation.locale_code === 'en')?.name ??
+    city.slug
+  )
+}
+
+/**
+ * Email the invitee about an invitation
+ *
+ * Loads the invitation, its cities and the inviter, renders the email in
+ * the invitation's locale and sends it. Failures are logged, not thrown:
+ * the invitation itself has already been saved.
+ *
+ * @returns True if the email was handed to the mail transport
+ */
+async function sendInvitationEmail(
+  supabase: SupabaseClient,
+  kind: InvitationEmailKind,
+  invitationId: string
+): Promise<boolean> {
+  try {
+    const { data: invitation, error } = await supabase
+      .from('invitations')
+      .select(`
+        email,
+        full_name,
+        role,
+        locale,
+        token,
+        expires_at,
+        inviter:user_profiles!invitations_invited_by_fkey (full_name, email),
+        city_grants:invitation_city_grants (
+          city:cities (
+            slug,
+            translations:city_translations (locale_code, name)
+          )
+        )
+      `)
+      .eq('id', invitationId)
+      .single()
+
+    if (error || !invitation?.email) {
+      throw new Error(`Invitation not found: ${error?.message ?? invitationId}`)
+    }
+
+    const locale = (invitation.locale as string | null) ?? 'en'
+    const inviter = invitation.inviter as unknown as { full_name: string | null; email: string } | null
+    const grants = (invitation.city_grants ?? []) as unknown as Array<{ city: InvitationCity | null }>
+
+    const cities = grants.flatMap(({ city }) => (city ? [getCityName(city, locale)] : []))
+
+    const content = renderInvitationEmail(kind, {
+      locale,
+      fullName: invitation.full_name,
+      role: invitation.role,
+      cities,
+      inviterName: inviter?.full_name || inviter?.email || null,
+      url: getInvitationUrl(locale, invitation.token),
+      expiresAt: invitation.expires_at,
+    })
+
+    await sendMail({ to: invitation.email, ...content })
+
+    if (kind !== 'revocation') {
+      const sentAt = new Date().toISOString()
+      await supabase
+        .from('invitations')
+        .update(kind === 'invitation' ? { email_sent_at: sentAt } : { reminder_sent_at: sentAt })
+        .eq('id', invitationId)
+    }
+
+    return true
+  } catch (error) {
+    console.error(`Error sending ${kind} email:`, error)
+    return false
+  }
+}
+
+/**
+ * Whether a user may revoke, remind or extend an invitation
+ *
+ * Inviters manage their own invitations and superusers all of them; admins
+ * manage invitations to a city they administer, so a colleague can follow
+ * up on an invitation someone else sent.
+ */
+async function canManageInvitation(
+  supabase: SupabaseClient,
+  userId: string,
+  invitation: { id: string; invited_by: string }
+): Promise<boolean> {
+  if (invitation.invited_by === userId) {
+    return true
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', userId)
+    .single()
+
+  if (profile?.role === 'superuser') {
+    return true
+  }
+
+  if (profile?.role !== 'admin') {
+    return false
+  }
+
+  const { data: grants } = await supabase
+    .from('invitation_city_grants')
+    .select('city_id')
+    .eq('invitation_id', invitation.id)
+
+  const cityIds = (grants ?? []).map((grant) => grant.city_id)
+
+  if (cityIds.length === 0) {
+    return false
+  }
+
+  const { data: adminCities } = await supabase
+    .from('city_users')
+    .select('city_id')
+    .eq('user_id', userId)
+    .eq('role', 'admin')
+    .in('city_id', cityIds)
+
+  return (adminCities ?? []).length > 0
+}
+
+/**
+ * Save an invitation with its city grants and email the invitee
+ *
+ * The caller has checked that the inviter may invite to these cities.
+ *
+ * @returns The saved invitation and whether the email was sent
+ * @throws Error if the invitee already has an account or a pending invitation, or saving fails
+ */
+async function insertInvitation(
+  supabase: SupabaseClient,
+  inviterId: string,
+  input: z.infer<typeof createInvitationSchema>
+): Promise<{
+  invitation: { id: string; email: string; token: string; role: string; full_name: string; expires_at: string }
+  emailSent: boolean
+}> {
+  const { email, fullName, role, cityIds, locale } = input
+
+  // Check if user already exists in the system
+  // This prevents duplicate accounts and ensures email uniqueness
+  const { data: existingUser } = await supabase
+    .from('user_profiles')
+    .select('id')
+    .eq('email', email)
+    .single()
+
+  if (existingUser) {
+    throw new Error('A user with this email already exists')
+  }
+
+  // Check for existing pending invitations to this email
+  // We only allow one pending invitation per email to avoid spam and confusion
+  // Query filters: not accepted, not revoked, not expired
+  const { data: existingInvitation } = await supabase
+    .from('invitations')
+    .select('id')
+    .eq('email', email)
+    .is('accepted_at', null)       // Not yet accepted
+    .is('revoked_at', null)        // Not revoked
+    .gt('expires_at', new Date().toISOString())  // Not expired
+    .single()
+
+  if (existingInvitation) {
+    throw new Error('A pending invitation already exists for this email')
+  }
+
+  // Generate invitation token
+  const token = randomBytes(32).toString('hex')
+
+  // Set expiration
+  const expiresAt = new Date()
+  expiresAt.setDate(expiresAt.getDate() + INVITATION_VALIDITY_DAYS)
+
+  // Create invitation
+  const { data: invitation, error: invitationError } = await supabase
+    .from('invitations')
+    .insert({
+      email,
+      token,
+      role,
+      full_name: fullName,
+      locale,
+      invited_by: inviterId,
+      expires_at: expiresAt.toISOString(),
+    })
+    .select()
+    .single()
+
+  if (invitationError) {
+    throw new Error(`Failed to create invitation: ${invitationError.message}`)
+  }
+
+  // Create city access grants for this invitation
+  // Each grant maps an invitation to a city with a specific role
+  // These grants are used when the invitation is accepted to automatically grant access
+  const cityGrants = cityIds.map((cityId) => ({
+    invitation_id: invitation.id,
+    city_id: cityId,
+    role,
+  }))
+
+  const { error: grantsError } = await supabase
+    .from('invitation_city_grants')
+    .insert(cityGrants)
+
+  if (grantsError) {
+    // Rollback: Clean up invitation if grants fail
+    // This ensures we don't have orphaned invitations without grants
+    await supabase.from('invitations').delete().eq('id', invitation.id)
+    throw new Error(`Failed to create city grants: ${grantsError.message}`)
+  }
+
+  const emailSent = await sendInvitationEmail(supabase, 'invitation', invitation.id)
+
+  return { invitation, emailSent }
+}
+
 /**
  * Create a new invitation
  *
@@ -45,7 +315,8 @@ const createInvitationSchema = z.object({
  * @param input.fullName - Full name of the invited user
  * @param input.role - Role to grant (admin or operator)
  * @param input.cityIds - Array of city IDs to grant access to
- * @returns Promise resolving to invitation data
+ * @param input.locale - Language of the emails to the invitee (default 'en')
+ * @returns Promise resolving to invitation data and whether the invitation email was sent
  * @throws Error if invitation creation fails
  */
 export async function createInvitation(input: {
@@ -53,7 +324,8 @@ export async function createInvitation(input: {
   fullName: string
   role: 'admin' | 'operator'
   cityIds: string[]
-}): Promise<{ success: boolean; invitation: {
+  locale?: string
+}): Promise<{ success: boolean; emailSent: boolean; invitation: {
   id: string
   email: string
   token: string
@@ -69,21 +341,22 @@ export async function createInvitation(input: {
     )
   }
 
-  const { email, fullName, role, cityIds } = validation.data
+  const { email, fullName, role, cityIds, locale } = validation.data
 
   try {
-    const supabase = getDatabaseAdminClient('system')
-
-    // Get current user
+    // Get current user from session cookies
+    const authClient = await getServerSupabaseWithCookies('system')
     const {
       data: { user },
       error: userError,
-    } = await supabase.auth.getUser()
+    } = await authClient.auth.getUser()
 
     if (userError || !user) {
       throw new Error('Authentication required')
     }
 
+    const supabase = getDatabaseAdminClient('system', { actorId: user.id })
+
     // Check if user has permission to invite (admin or superuser)
     const { data: profile } = await supabase
       .from('user_profiles')
@@ -117,113 +390,144 @@ export async function createInvitation(input: {
       }
     }
 
-    // Check if user already exists in the system
-    // This prevents duplicate accounts and ensures email uniqueness
-    const { data: existingUser } = await supabase
-      .from('user_profiles')
-      .select('id')
-      .eq('email', email)
-      .single()
+    const { invitation, emailSent } = await insertInvitation(supabase, user.id, { email, fullName, role, cityIds, locale })
+
+    // Revalidate relevant paths
+    revalidatePath('/admin/invitations')
 
-    if (existingUser) {
-      throw new Error('A user with this email already exists')
+    return {
+      success: true,
+      emailSent,
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        token: invitation.token,
+        role: invitation.role,
+        fullName: invitation.full_name,
+        expiresAt: invitation.expires_at,
+      },
     }
+  } catch (error) {
+    console.error('Error creating invitation:', error)
+    throw error instanceof Error
+      ? error
+      : new Error('Failed to create invitation')
+  }
+}
 
-    // Check for existing pending invitations to this email
-    // We only allow one pending invitation per email to avoid spam and confusion
-    // Query filters: not accepted, not revoked, not expired
-    const { data: existingInvitation } = await supabase
-      .from('invitations')
-      .select('id')
-      .eq('email', email)
-      .is('accepted_at', null)       // Not yet accepted
-      .is('revoked_at', null)        // Not revoked
-      .gt('expires_at', new Date().toISOString())  // Not expired
-      .single()
+/**
+ * State of an invitation as seen by the invitee
+ */
+export type InvitationStatus = 'pending' | 'expired' | 'revoked' | 'accepted'
 
-    if (existingInvitation) {
-      throw new Error('A pending invitation already exists for this email')
-    }
+/**
+ * Invitation details shown on the acceptance page
+ */
+export interface InvitationDetails {
+  status: InvitationStatus
+  email: string
+  fullName: string | null
+  role: 'admin' | 'operator'
+  inviterName: string | null
+  expiresAt: string
+  cities: Array<{ slug: string; name: string; role: 'admin' | 'operator' }>
+}
 
-    // Generate invitation token
-    const token = randomBytes(32).toString('hex')
+/**
+ * State of an invitation; a revoked or accepted invitation keeps that state
+ * after it expires
+ */
+function getInvitationStatus(invitation: {
+  expires_at: string
+  accepted_at: string | null
+  revoked_at: string | null
+}): InvitationStatus {
+  if (invitation.revoked_at) return 'revoked'
+  if (invitation.accepted_at) return 'accepted'
+  if (new Date(invitation.expires_at) < new Date()) return 'expired'
+  return 'pending'
+}
 
-    // Set expiration to 7 days from now
-    const expiresAt = new Date()
-    expiresAt.setDate(expiresAt.getDate() + 7)
+/**
+ * Look up an invitation by its token
+ *
+ * Used by the acceptance page before the invitee has an account, so the
+ * lookup runs with the service role; only the token holder learns anything.
+ *
+ * @param token - Invitation token from the emailed link
+ * @param locale - Locale for the city names
+ * @returns Invitation details, or null if no invitation has this token
+ * @throws Error if the lookup fails
+ */
+export async function getInvitationByToken(token: string, locale: string): Promise<InvitationDetails | null> {
+  try {
+    if (!token || typeof token !== 'string') {
+      return null
+    }
 
-    // Create invitation
-    const { data: invitation, error: invitationError } = await supabase
+    const supabase = getDatabaseAdminClient('system')
+
+    const { data: invitation, error } = await supabase
       .from('invitations')
-      .insert({
+      .select(`
         email,
-        token,
+        full_name,
         role,
-        full_name: fullName,
-        invited_by: user.id,
-        expires_at: expiresAt.toISOString(),
-      })
-      .select()
-      .single()
+        expires_at,
+        accepted_at,
+        revoked_at,
+        inviter:user_profiles!invitations_invited_by_fkey (full_name, email),
+        city_grants:invitation_city_grants (
+          role,
+          city:cities (
+            slug,
+            translations:city_translations (locale_code, name)
+          )
+        )
+      `)
+      .eq('token', token)
+      .maybeSingle()
 
-    if (invitationError) {
-      throw new Error(`Failed to create invitation: ${invitationError.message}`)
+    if (error) {
+      throw new Error(`Failed to fetch invitation: ${error.message}`)
     }
 
-    // Create city access grants for this invitation
-    // Each grant maps an invitation to a city with a specific role
-    // These grants are used when the invitation is accepted to automatically grant access
-    const cityGrants = cityIds.map((cityId) => ({
-      invitation_id: invitation.id,
-      city_id: cityId,
-      role,
-    }))
-
-    const { error: grantsError } = await supabase
-      .from('invitation_city_grants')
-      .insert(cityGrants)
-
-    if (grantsError) {
-      // Rollback: Clean up invitation if grants fail
-      // This ensures we don't have orphaned invitations without grants
-      await supabase.from('invitations').delete().eq('id', invitation.id)
-      throw new Error(`Failed to create city grants: ${grantsError.message}`)
+    if (!invitation) {
+      return null
     }
 
-    // TODO: Send email invitation
-    // This would integrate with an email service (SendGrid, etc.)
-    // For now, we'll just log the invitation link
-    console.log('Invitation created:', {
-      email,
-      token,
-      url: `${process.env.NEXT_PUBLIC_APP_URL}/invitation/accept?token=${token}`,
-    })
-
-    // Revalidate relevant paths
-    revalidatePath('/admin/invitations')
+    const inviter = invitation.inviter as unknown as { full_name: string | null; email: string } | null
+    const grants = (invitation.city_grants ?? []) as unknown as Array<{
+      role: 'admin' | 'operator'
+      city: InvitationCity | null
+    }>
 
     return {
-      success: true,
-      invitation: {
-        id: invitation.id,
-        email: invitation.email,
-        token: invitation.token,
-        role: invitation.role,
-        fullName: invitation.full_name,
-        expiresAt: invitation.expires_at,
-      },
+      status: getInvitationStatus(invitation),
+      email: invitation.email,
+      fullName: invitation.full_name,
+      role: invitation.role,
+      inviterName: inviter?.full_name || inviter?.email || null,
+      expiresAt: invitation.expires_at,
+      cities: grants.flatMap(({ role, city }) =>
+        city ? [{ slug: city.slug, name: getCityName(city, locale), role }] : []
+      ),
     }
   } catch (error) {
-    console.error('Error creating invitation:', error)
+    console.error('Error fetching invitation by token:', error)
     throw error instanceof Error
       ? error
-      : new Error('Failed to create invitation')
+      : new Error('Failed to fetch invitation')
   }
 }
 
 /**
  * Accept an invitation
  *
+ * The invitee must be signed in (the acceptance page sends a magic link)
+ * with the address the invitation was sent to; the database function
+ * checks this and grants the invited cities.
+ *
  * @param token - Invitation token
  * @returns Promise resolving to acceptance result
  * @throws Error if invitation acceptance fails
@@ -234,18 +538,20 @@ export async function acceptInvitation(token: string): Promise<{ success: boolea
       throw new Error('Invalid invitation token')
     }
 
-    const supabase = getDatabaseAdminClient('system')
-
-    // Get current user
+    // Get current user from session cookies
+    const authClient = await getServerSupabaseWithCookies('system')
     const {
       data: { user },
       error: userError,
-    } = await supabase.auth.getUser()
+    } = await authClient.auth.getUser()
 
     if (userError || !user) {
       throw new Error('Authentication required')
     }
 
+    // The function is only executable with the service role
+    const supabase = getDatabaseAdminClient('system', { actorId: user.id })
+
     // Call the database function to accept invitation
     const { data, error } = await supabase.rpc('accept_invitation', {
       p_token: token,
@@ -265,6 +571,7 @@ export async function acceptInvitation(token: string): Promise<{ success: boolea
     // Revalidate relevant paths
     revalidatePath('/admin/invitations')
     revalidatePath('/dashboard')
+    revalidatePath('/[locale]/invite/[token]', 'page')
 
     return {
       success: true,
@@ -291,22 +598,23 @@ export async function revokeInvitation(invitationId: string): Promise<{ success:
       throw new Error('Invalid invitation ID')
     }
 
-    const supabase = getDatabaseAdminClient('system')
-
-    // Get current user
+    // Get current user from session cookies
+    const authClient = await getServerSupabaseWithCookies('system')
     const {
       data: { user },
       error: userError,
-    } = await supabase.auth.getUser()
+    } = await authClient.auth.getUser()
 
     if (userError || !user) {
       throw new Error('Authentication required')
     }
 
+    const supabase = getDatabaseAdminClient('system', { actorId: user.id })
+
     // Check if user can revoke this invitation
     const { data: invitation, error: fetchError } = await supabase
       .from('invitations')
-      .select('invited_by')
+      .select('invited_by, accepted_at, revoked_at')
       .eq('id', invitationId)
       .single()
 
@@ -314,17 +622,8 @@ export async function revokeInvitation(invitationId: string): Promise<{ success:
       throw new Error('Invitation not found')
     }
 
-    if (invitation.invited_by !== user.id) {
-      // Check if user is superuser
-      const { data: profile } = await supabase
-        .from('user_profiles')
-        .select('role')
-        .eq('id', user.id)
-        .single()
-
-      if (!profile || profile.role !== 'superuser') {
-        throw new Error('You can only revoke invitations you created')
-      }
+    if (!(await canManageInvitation(supabase, user.id, { id: invitationId, invited_by: invitation.invited_by }))) {
+      throw new Error('You can only revoke invitations you created or for cities you administer')
     }
 
     // Revoke the invitation
@@ -340,6 +639,11 @@ export async function revokeInvitation(invitationId: string): Promise<{ success:
       throw new Error(`Failed to revoke invitation: ${updateError.message}`)
     }
 
+    // Let the invitee know, unless the invitation was already used or revoked
+    if (!invitation.accepted_at && !invitation.revoked_at) {
+      await sendInvitationEmail(supabase, 'revocation', invitationId)
+    }
+
     // Revalidate relevant paths
     revalidatePath('/admin/invitations')
 
@@ -355,6 +659,158 @@ export async function revokeInvitation(invitationId: string): Promise<{ success:
   }
 }
 
+/**
+ * Send a reminder for a pending invitation
+ *
+ * @param invitationId - ID of the invitation
+ * @returns Promise resolving to the reminder result
+ * @throws Error if the invitation is not pending or the email cannot be sent
+ */
+export async function sendInvitationReminder(invitationId: string): Promise<{ success: boolean; message: string }> {
+  try {
+    if (!invitationId || typeof invitationId !== 'string') {
+      throw new Error('Invalid invitation ID')
+    }
+
+    // Get current user from session cookies
+    const authClient = await getServerSupabaseWithCookies('system')
+    const {
+      data: { user },
+      error: userError,
+    } = await authClient.auth.getUser()
+
+    if (userError || !user) {
+      throw new Error('Authentication required')
+    }
+
+    const supabase = getDatabaseAdminClient('system', { actorId: user.id })
+
+    const { data: invitation, error: fetchError } = await supabase
+      .from('invitations')
+      .select('invited_by, accepted_at, revoked_at, expires_at')
+      .eq('id', invitationId)
+      .single()
+
+    if (fetchError || !invitation) {
+      throw new Error('Invitation not found')
+    }
+
+    if (!(await canManageInvitation(supabase, user.id, { id: invitationId, invited_by: invitation.invited_by }))) {
+      throw new Error('You can only send reminders for invitations you created or for cities you administer')
+    }
+
+    if (invitation.accepted_at || invitation.revoked_at || new Date(invitation.expires_at) <= new Date()) {
+      throw new Error('Only pending invitations can be reminded')
+    }
+
+    const sent = await sendInvitationEmail(supabase, 'reminder', invitationId)
+
+    if (!sent) {
+      throw new Error('Failed to send reminder email')
+    }
+
+    // Revalidate relevant paths
+    revalidatePath('/admin/invitations')
+
+    return {
+      success: true,
+      message: 'Reminder sent successfully',
+    }
+  } catch (error) {
+    console.error('Error sending invitation reminder:', error)
+    throw error instanceof Error
+      ? error
+      : new Error('Failed to send invitation reminder')
+  }
+}
+
+/**
+ * Extend an invitation
+ *
+ * Gives a pending or expired invitation a new expiry date, counted from
+ * now. The invitee is not emailed; send a reminder to share the link again.
+ *
+ * @param invitationId - ID of the invitation
+ * @param days - Days the invitation stays valid (1-30, default 7)
+ * @returns Promise resolving to the new expiry date
+ * @throws Error if the invitation was accepted or revoked, or the update fails
+ */
+export async function extendInvitation(
+  invitationId: string,
+  days: number = INVITATION_VALIDITY_DAYS
+): Promise<{ success: boolean; message: string; expiresAt: string }> {
+  try {
+    if (!invitationId || typeof invitationId !== 'string') {
+      throw new Error('Invalid invitation ID')
+    }
+
+    if (!Number.isInteger(days) || days < 1 || days > 30) {
+      throw new Error('Invitations can be extended by 1 to 30 days')
+    }
+
+    // Get current user from session cookies
+    const authClient = await getServerSupabaseWithCookies('system')
+    const {
+      data: { user },
+      error: userError,
+    } = await authClient.auth.getUser()
+
+    if (userError || !user) {
+      throw new Error('Authentication required')
+    }
+
+    const supabase = getDatabaseAdminClient('system', { actorId: user.id })
+
+    const { data: invitation, error: fetchError } = await supabase
+      .from('invitations')
+      .select('invited_by, accepted_at, revoked_at')
+      .eq('id', invitationId)
+      .single()
+
+    if (fetchError || !invitation) {
+      throw new Error('Invitation not found')
+    }
+
+    if (!(await canManageInvitation(supabase, user.id, { id: invitationId, invited_by: invitation.invited_by }))) {
+      throw new Error('You can only extend invitations you created or for cities you administer')
+    }
+
+    if (invitation.accepted_at || invitation.revoked_at) {
+      throw new Error('Only pending or expired invitations can be extended')
+    }
+
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + days)
+
+    const { error: updateError } = await supabase
+      .from('invitations')
+      .update({
+        expires_at: expiresAt.toISOString(),
+        expired_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', invitationId)
+
+    if (updateError) {
+      throw new Error(`Failed to extend invitation: ${updateError.message}`)
+    }
+
+    // Revalidate relevant paths
+    revalidatePath('/admin/invitations')
+
+    return {
+      success: true,
+      message: 'Invitation extended successfully',
+      expiresAt: expiresAt.toISOString(),
+    }
+  } catch (error) {
+    console.error('Error extending invitation:', error)
+    throw error instanceof Error
+      ? error
+      : new Error('Failed to extend invitation')
+  }
+}
+
 /**
  * Get invitations for the current user
  *
@@ -372,18 +828,19 @@ export async function getInvitations(): Promise<Array<{
   revoked_at: string | null
 }>> {
   try {
-    const supabase = getDatabaseAdminClient('system')
-
-    // Get current user
+    // Get current user from session cookies
+    const authClient = await getServerSupabaseWithCookies('system')
     const {
       data: { user },
       error: userError,
-    } = await supabase.auth.getUser()
+    } = await authClient.auth.getUser()
 
     if (userError || !user) {
       throw new Error('Authentication required')
     }
 
+    const supabase = getDatabaseAdminClient('system')
+
     // Get user profile to check role
     const { data: profile } = await supabase
       .from('user_profiles')
@@ -436,3 +893,186 @@ export async function getInvitations(): Promise<Array<{
       : new Error('Failed to fetch invitations')
   }
 }
+
+/**
+ * Invitation as listed on a city's invitation page
+ */
+export interface CityInvitation {
+  id: string
+  email: string
+  fullName: string | null
+  role: 'admin' | 'operator'
+  locale: string
+  status: InvitationStatus
+  inviterName: string | null
+  createdAt: string
+  expiresAt: string
+  acceptedAt: string | null
+  revokedAt: string | null
+  emailSentAt: string | null
+  reminderSentAt: string | null
+  /** All cities the invitation grants, including this one */
+  cities: Array<{ slug: string; name: string }>
+}
+
+/**
+ * Resolve the city admin access of the signed-in user
+ *
+ * @throws Error unless the user administers the city
+ */
+async function requireCityAdmin(citySlug: string): Promise<{ userId: string; cityId: string }> {
+  if (!citySlug || typeof citySlug !== 'string') {
+    throw new Error('Invalid city slug')
+  }
+
+  const authClient = await getServerSupabaseWithCookies('system')
+  const access = await getCityAdminAccess(authClient, citySlug)
+
+  switch (access.status) {
+    case 'granted':
+      return { userId: access.userId, cityId: access.cityId }
+    case 'unauthenticated':
+      throw new Error('Authentication required')
+    case 'notFound':
+      throw new Error('City not found')
+    case 'forbidden':
+      throw new Error('Insufficient permissions to manage invitations for this city')
+  }
+}
+
+/**
+ * Get the invitations to a city
+ *
+ * Lists every invitation that grants access to the city, newest first, for
+ * all of the city's admins rather than only the inviter.
+ *
+ * @param citySlug - City identifier slug
+ * @param locale - Locale for the city names
+ * @returns Promise resolving to the city's invitations
+ * @throws Error if the user does not administer the city or the fetch fails
+ */
+export async function getCityInvitations(citySlug: string, locale: string = 'en'): Promise<CityInvitation[]> {
+  try {
+    const { cityId } = await requireCityAdmin(citySlug)
+    const supabase = getDatabaseAdminClient('system')
+
+    const { data, error } = await supabase
+      .from('invitations')
+      .select(`
+        id,
+        email,
+        full_name,
+        role,
+        locale,
+        created_at,
+        expires_at,
+        accepted_at,
+        revoked_at,
+        email_sent_at,
+        reminder_sent_at,
+        inviter:user_profiles!invitations_invited_by_fkey (full_name, email),
+        city_filter:invitation_city_grants!inner (city_id),
+        city_grants:invitation_city_grants (
+          city:cities (
+            slug,
+            translations:city_translations (locale_code, name)
+          )
+        )
+      `)
+      .eq('city_filter.city_id', cityId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch invitations: ${error.message}`)
+    }
+
+    return (data ?? []).map((invitation) => {
+      const inviter = invitation.inviter as unknown as { full_name: string | null; email: string } | null
+      const grants = (invitation.city_grants ?? []) as unknown as Array<{ city: InvitationCity | null }>
+
+      return {
+        id: invitation.id,
+        email: invitation.email,
+        fullName: invitation.full_name,
+        role: invitation.role,
+        locale: invitation.locale,
+        status: getInvitationStatus(invitation),
+        inviterName: inviter?.full_name || inviter?.email || null,
+        createdAt: invitation.created_at,
+        expiresAt: invitation.expires_at,
+        acceptedAt: invitation.accepted_at,
+        revokedAt: invitation.revoked_at,
+        emailSentAt: invitation.email_sent_at,
+        reminderSentAt: invitation.reminder_sent_at,
+        cities: grants.flatMap(({ city }) => (city ? [{ slug: city.slug, name: getCityName(city, locale) }] : [])),
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching city invitations:', error)
+    throw error instanceof Error
+      ? error
+      : new Error('Failed to fetch invitations')
+  }
+}
+
+/**
+ * Invite a list of people to a city
+ *
+ * Each person is invited on their own, as with createInvitation: one that
+ * cannot be invited (already a user, already invited) does not stop the
+ * others, and the result reports it.
+ *
+ * @param citySlug - City to grant access to
+ * @param invitations - People to invite (see lib/invitations/bulk)
+ * @returns Promise resolving to the outcome per email address
+ * @throws Error if the user does not administer the city or the list is invalid
+ */
+export async function createBulkInvitations(
+  citySlug: string,
+  invitations: BulkInvitation[]
+): Promise<{
+  invited: number
+  failed: number
+  results: Array<{ email: string; success: boolean; emailSent: boolean; error?: string }>
+}> {
+  const validation = z.array(bulkInvitationSchema).min(1).max(MAX_BULK_INVITATIONS).safeParse(invitations)
+  if (!validation.success) {
+    throw new Error(
+      `Validation failed: ${validation.error.issues.map((e) => e.message).join(', ')}`
+    )
+  }
+
+  try {
+    const { userId, cityId } = await requireCityAdmin(citySlug)
+    const supabase = getDatabaseAdminClient('system', { actorId: userId })
+
+    const results: Array<{ email: string; success: boolean; emailSent: boolean; error?: string }> = []
+
+    // One at a time, so the duplicate checks see the invitations created before
+    for (const { email, fullName, role, locale } of validation.data) {
+      try {
+        const { emailSent } = await insertInvitation(supabase, userId, { email, fullName, role, locale, cityIds: [cityId] })
+        results.push({ email, success: true, emailSent })
+      } catch (error) {
+        results.push({
+          email,
+          success: false,
+          emailSent: false,
+          error: error instanceof Error ? error.message : 'Failed to create invitation',
+        })
+      }
+    }
+
+    // Revalidate relevant paths
+    revalidatePath('/admin/invitations')
+
+    const invited = results.filter((result) => result.success).length
+
+    return { invited, failed: results.length - invited, results }
+  } catch (error) {
+    console.error('Error creating bulk invitations:', error)
+    throw error instanceof Error
+      ? error
+      : new Error('Failed to create invitations')
+  }
+}
@@ -70,6 +70,10 @@ vi.mock('next/cache', () => ({
   revalidatePath: vi.fn(),
 }))
 
+vi.mock('@/lib/i18n/active-locales', () => ({
+  assertActiveLocales: vi.fn(),
+}))
+
 describe('language-families', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -209,12 +213,11 @@ describe('language-families', () => {
     it('should create a language family with all translations', async () => {
       const input: LanguageFamilyInput = {
         slug: 'indo-european',
-        name_en: 'Indo-European',
-        description_en: 'The Indo-European language family',
-        name_nl: 'Indo-Europees',
-        description_nl: 'De Indo-Europese taalfamilie',
-        name_fr: 'Indo-européen',
-        description_fr: 'La famille linguistique indo-européenne',
+        translations: {
+          en: { name: 'Indo-European', description: 'The Indo-European language family' },
+          nl: { name: 'Indo-Europees', description: 'De Indo-Europese taalfamilie' },
+          fr: { name: 'Indo-européen', description: 'La famille linguistique indo-européenne' },
+        },
       }
 
       const mockRpcResult = [
@@ -260,8 +263,7 @@ describe('language-families', () => {
     it('should create a language family with only English translation', async () => {
       const input: LanguageFamilyInput = {
         slug: 'afro-asiatic',
-        name_en: 'Afro-Asiatic',
-        description_en: 'The Afro-Asiatic language family',
+        translations: { en: { name: 'Afro-Asiatic', description: 'The Afro-Asiatic language family' } },
       }
 
       const mockRpcResult = [
@@ -287,7 +289,7 @@ describe('language-families', () => {
       // TODO: Fix this test - validation error handling needs investigation
       const input: LanguageFamilyInput = {
         slug: 'Invalid Slug!',
-        name_en: 'Test Family',
+        translations: { en: { name: 'Test Family' } },
       }
 
       await expect(createLanguageFamily('amsterdam', input)).rejects.toThrow('Validation error')
@@ -296,7 +298,7 @@ describe('language-families', () => {
     it('should throw error when slug already exists', async () => {
       const input: LanguageFamilyInput = {
         slug: 'indo-european',
-        name_en: 'Indo-European',
+        translations: { en: { name: 'Indo-European' } },
       }
 
       mockSupabase.rpc = vi.fn().mockResolvedValue({
@@ -312,7 +314,7 @@ describe('language-families', () => {
     it('should handle atomic transaction failures', async () => {
       const input: LanguageFamilyInput = {
         slug: 'test-family',
-        name_en: 'Test Family',
+        translations: { en: { name: 'Test Family' } },
       }
 
       mockSupabase.rpc = vi.fn().mockResolvedValue({
@@ -330,9 +332,10 @@ describe('language-families', () => {
     it('should update a language family and its translations', async () => {
       const input: LanguageFamilyInput = {
         slug: 'indo-european-updated',
-        name_en: 'Indo-European (Updated)',
-        description_en: 'Updated description',
-        name_nl: 'Indo-Europees (Bijgewerkt)',
+        translations: {
+          en: { name: 'Indo-European (Updated)', description: 'Updated description' },
+          nl: { name: 'Indo-Europees (Bijgewerkt)' },
+        },
       }
 
       const mockRpcResult = [
@@ -362,7 +365,7 @@ describe('language-families', () => {
           {
             locale_code: 'nl',
             name: 'Indo-Europees (Bijgewerkt)',
-            description: '',
+            description: null,
           },
         ],
       })
@@ -377,7 +380,7 @@ describe('language-families', () => {
     it('should throw error for invalid ID format', async () => {
       const input: LanguageFamilyInput = {
         slug: 'test',
-        name_en: 'Test',
+        translations: { en: { name: 'Test' } },
       }
 
       await expect(updateLanguageFamily('amsterdam', 'invalid-id', input)).rejects.toThrow(
@@ -388,7 +391,7 @@ describe('language-families', () => {
     it('should throw error when family not found', async () => {
       const input: LanguageFamilyInput = {
         slug: 'test',
-        name_en: 'Test',
+        translations: { en: { name: 'Test' } },
       }
 
       mockSupabase.rpc = vi.fn().mockResolvedValue({
@@ -14,6 +14,8 @@
 import { revalidatePath } from 'next/cache'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
 import { z } from 'zod'
+import { getTranslationRows, translationsSchema } from '@/lib/validations/translations'
+import { assertActiveLocales } from '@/lib/i18n/active-locales'
 
 /**
  * Validation schema for language family creation/update
@@ -23,13 +25,8 @@ const languageFamilySchema = z.object({
     .string()
     .min(1, 'Slug is required')
     .regex(/^[a-z0-9-]+$/, 'Slug must contain only lowercase letters, numbers, and hyphens'),
-  // Translations
-  name_en: z.string().min(1, 'English name is required'),
-  description_en: z.string().optional(),
-  name_nl: z.string().optional(),
-  description_nl: z.string().optional(),
-  name_fr: z.string().optional(),
-  description_fr: z.string().optional(),
+  // Name and description per active locale
+  translations: translationsSchema,
 })
 
 /**
@@ -183,32 +180,11 @@ export async function createLanguageFamily(citySlug: string, formData: LanguageF
 
     const supabase = await getServerSupabaseWithCookies(citySlug)
 
-    // Build translations array for all provided locales
-    const translations = []
+    // Language families are shared by all cities: accept the active locales
+    await assertActiveLocales('translations', Object.keys(validatedData.translations))
 
-    if (validatedData.name_en) {
-      translations.push({
-        locale_code: 'en',
-        name: validatedData.name_en,
-        description: validatedData.description_en || '',
-      })
-    }
-
-    if (validatedData.name_nl) {
-      translations.push({
-        locale_code: 'nl',
-        name: validatedData.name_nl,
-        description: validatedData.description_nl || '',
-      })
-    }
-
-    if (validatedData.name_fr) {
-      translations.push({
-        locale_code: 'fr',
-        name: validatedData.name_fr,
-        description: validatedData.description_fr || '',
-      })
-    }
+    // Build translations array for the locales that have a name
+    const translations = getTranslationRows(validatedData.translations)
 
     // Validate that at least one translation is provided
     if (translations.length === 0) {
@@ -296,32 +272,11 @@ export async function updateLanguageFamily(
 
     const supabase = await getServerSupabaseWithCookies(citySlug)
 
-    // Build translations array for all provided locales
-    const translations = []
+    // Language families are shared by all cities: accept the active locales
+    await assertActiveLocales('translations', Object.keys(validatedData.translations))
 
-    if (validatedData.name_en) {
-      translations.push({
-        locale_code: 'en',
-        name: validatedData.name_en,
-        description: validatedData.description_en || '',
-      })
-    }
-
-    if (validatedData.name_nl) {
-      translations.push({
-        locale_code: 'nl',
-        name: validatedData.name_nl,
-        description: validatedData.description_nl || '',
-      })
-    }
-
-    if (validatedData.name_fr) {
-      translations.push({
-        locale_code: 'fr',
-        name: validatedData.name_fr,
-        description: validatedData.description_fr || '',
-      })
-    }
+    // Build translations array for the locales that have a name
+    const translations = getTranslationRows(validatedData.translations)
 
     // Validate that at least one translation is provided
     if (translations.length === 0) {
@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Unit tests for language point server actions
+ * @description Tests city bounds validation, boundary-based neighborhood
+ * assignment on create/update and the bulk re-assignment job
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  createLanguagePoint,
+  updateLanguagePoint,
+  findNeighborhoodForCoordinates,
+  reassignLanguagePointNeighborhoods,
+} from './language-points'
+
+type MockFunction = ReturnType<typeof vi.fn>
+
+const CITY_ID = '123e4567-e89b-12d3-a456-426614174001'
+const POINT_ID = '123e4567-e89b-12d3-a456-426614174100'
+const LANGUAGE_ID = '123e4567-e89b-12d3-a456-426614174200'
+const JORDAAN_ID = '123e4567-e89b-12d3-a456-426614174300'
+const DE_PIJP_ID = '123e4567-e89b-12d3-a456-426614174301'
+
+/**
+ * Create a Supabase mock: `from()` serves the city lookup first and the
+ * language point write second; `rpc()` answers the neighborhood lookup
+ */
+const createMockSupabase = () => {
+  const cityQuery = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: {
+        id: CITY_ID,
+        bounds_min_lat: '52.27',
+        bounds_max_lat: '52.43',
+        bounds_min_lng: '4.73',
+        bounds_max_lng: '5.07',
+      },
+      error: null,
+    }),
+  }
+
+  const writeQuery = {
+    insert: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    select: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data: { id: POINT_ID }, error: null }),
+  }
+
+  const client: {
+    auth: { getUser: MockFunction }
+    from: MockFunction
+    rpc: MockFunction
+    cityQuery: typeof cityQuery
+    writeQuery: typeof writeQuery
+  } = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'user-1' } } }),
+    },
+    from: vi.fn((table: string) => (table === 'cities' ? cityQuery : writeQuery)),
+    rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
+    cityQuery,
+    writeQuery,
+  }
+
+  return client
+}
+
+let mockSupabase: ReturnType<typeof createMockSupabase>
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(() => mockSupabase),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+const pointInput = {
+  language_id: LANGUAGE_ID,
+  neighborhood_id: JORDAAN_ID,
+  latitude: 52.3551,
+  longitude: 4.8936,
+}
+
+describe('language points', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockSupabase = createMockSupabase()
+  })
+
+  describe('createLanguagePoint', () => {
+    it('should save the neighborhood whose boundary contains the point', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: DE_PIJP_ID, error: null })
+
+      const result = await createLanguagePoint('amsterdam', pointInput)
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('find_neighborhood_for_point', {
+        p_city_id: CITY_ID,
+        p_latitude: 52.3551,
+        p_longitude: 4.8936,
+      })
+      expect(mockSupabase.writeQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ neighborhood_id: DE_PIJP_ID })
+      )
+      expect(result.neighborhoodMismatch).toEqual({
+        selectedNeighborhoodId: JORDAAN_ID,
+        assignedNeighborhoodId: DE_PIJP_ID,
+      })
+    })
+
+    it('should fill in the neighborhood when none was selected', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: DE_PIJP_ID, error: null })
+
+      const result = await createLanguagePoint('amsterdam', { ...pointInput, neighborhood_id: null })
+
+      expect(mockSupabase.writeQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ neighborhood_id: DE_PIJP_ID })
+      )
+      expect(result.neighborhoodMismatch).toBeNull()
+    })
+
+    it('should keep the selected neighborhood when no boundary contains the point', async () => {
+      const result = await createLanguagePoint('amsterdam', pointInput)
+
+      expect(mockSupabase.writeQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ neighborhood_id: JORDAAN_ID })
+      )
+      expect(result.neighborhoodMismatch).toBeNull()
+    })
+
+    it('should keep the selected neighborhood when the lookup fails', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'function does not exist' } })
+
+      await createLanguagePoint('amsterdam', pointInput)
+
+      expect(mockSupabase.writeQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ neighborhood_id: JORDAAN_ID })
+      )
+    })
+  })
+
+  describe('city bounds', () => {
+    it('should reject points outside the city bounds', async () => {
+      await expect(
+        createLanguagePoint('amsterdam', { ...pointInput, latitude: 51.9225, longitude: 4.4792 })
+      ).rejects.toThrow('Coordinates are outside the city bounds')
+
+      expect(mockSupabase.writeQuery.insert).not.toHaveBeenCalled()
+    })
+
+    it('should point out swapped latitude and longitude', async () => {
+      await expect(
+        updateLanguagePoint('amsterdam', POINT_ID, { ...pointInput, latitude: 4.8936, longitude: 52.3551 })
+      ).rejects.toThrow('Latitude and longitude appear to be swapped')
+
+      expect(mockSupabase.writeQuery.update).not.toHaveBeenCalled()
+    })
+
+    it('should accept any coordinates when the city has no bounds', async () => {
+      mockSupabase.cityQuery.single.mockResolvedValueOnce({ data: { id: CITY_ID }, error: null })
+
+      await createLanguagePoint('amsterdam', { ...pointInput, latitude: 51.9225, longitude: 4.4792 })
+
+      expect(mockSupabase.writeQuery.insert).toHaveBeenCalled()
+    })
+  })
+
+  describe('updateLanguagePoint', () => {
+    it('should replace a mismatching neighborhood with the boundary match', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: DE_PIJP_ID, error: null })
+
+      const result = await updateLanguagePoint('amsterdam', POINT_ID, pointInput)
+
+      expect(mockSupabase.writeQuery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ neighborhood_id: DE_PIJP_ID })
+      )
+      expect(result.neighborhoodMismatch?.assignedNeighborhoodId).toBe(DE_PIJP_ID)
+    })
+
+    it('should not warn when the selection matches the boundary', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: JORDAAN_ID, error: null })
+
+      const result = await updateLanguagePoint('amsterdam', POINT_ID, pointInput)
+
+      expect(result.neighborhoodMismatch).toBeNull()
+    })
+  })
+
+  describe('findNeighborhoodForCoordinates', () => {
+    it('should return the neighborhood containing the coordinates', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: JORDAAN_ID, error: null })
+
+      await expect(findNeighborhoodForCoordinates('amsterdam', 52.3751, 4.8801)).resolves.toBe(JORDAAN_ID)
+    })
+
+    it('should reject out-of-range coordinates', async () => {
+      await expect(findNeighborhoodForCoordinates('amsterdam', 123, 4.88)).rejects.toThrow(
+        'Coordinates are out of range'
+      )
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('reassignLanguagePointNeighborhoods', () => {
+    it('should run the bulk job and return the counts', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({
+        data: [{ total_count: 120, updated_count: 14, unmatched_count: 3 }],
+        error: null,
+      })
+
+      const result = await reassignLanguagePointNeighborhoods('amsterdam')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('reassign_language_point_neighborhoods', {
+        p_city_id: CITY_ID,
+      })
+      expect(result).toEqual({ total: 120, updated: 14, unmatched: 3 })
+    })
+
+    it('should throw error when user is not authenticated', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null } })
+
+      await expect(reassignLanguagePointNeighborhoods('amsterdam')).rejects.toThrow('Unauthorized')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should throw error when the bulk job fails', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } })
+
+      await expect(reassignLanguagePointNeighborhoods('amsterdam')).rejects.toThrow(
+        'Failed to re-assign neighborhoods'
+      )
+    })
+  })
+})
@@ -9,6 +9,13 @@
 import { revalidatePath } from 'next/cache'
 import { z } from 'zod'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import {
+  areCoordinatesSwapped,
+  isWithinCityBounds,
+  parseCityBounds,
+  type CityBoundsColumns,
+} from '@/lib/map/bounds'
+import { pickTranslations } from '@/lib/i18n/config'
 
 /**
  * Type definitions for database query results
@@ -77,6 +84,97 @@ const LanguagePointSchema = z.object({
 
 export type LanguagePointFormData = z.infer<typeof LanguagePointSchema>
 
+/**
+ * Returned when the neighborhood selected by the operator differs from the
+ * neighborhood whose boundary contains the point. The point is saved with
+ * the assigned (boundary) neighborhood.
+ */
+export interface NeighborhoodMismatch {
+  selectedNeighborhoodId: string
+  assignedNeighborhoodId: string
+}
+
+/**
+ * Result of re-assigning all language points of a city
+ */
+export interface NeighborhoodReassignmentResult {
+  total: number
+  updated: number
+  unmatched: number
+}
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof getServerSupabaseWithCookies>>
+
+/**
+ * City columns needed to validate and place a language point
+ */
+const CITY_FOR_POINT_SELECT = 'id, bounds_min_lat, bounds_max_lat, bounds_min_lng, bounds_max_lng'
+
+/**
+ * Reject coordinates outside the city's configured bounds
+ *
+ * @param city - City row with `bounds_*` columns
+ * @param data - Validated language point data
+ * @throws {Error} If the point lies outside the bounds
+ */
+function assertWithinCityBounds(city: CityBoundsColumns, data: LanguagePointFormData): void {
+  const bounds = parseCityBounds(city)
+
+  if (isWithinCityBounds(bounds, data.latitude, data.longitude)) {
+    return
+  }
+
+  if (areCoordinatesSwapped(bounds, data.latitude, data.longitude)) {
+    throw new Error('Coordinates are outside the city bounds. Latitude and longitude appear to be swapped.')
+  }
+  throw new Error('Coordinates are outside the city bounds')
+}
+
+/**
+ * Determine the neighborhood a language point is saved with
+ *
+ * The neighborhood whose boundary contains the coordinates wins over the
+ * operator's selection. Without a matching boundary (or if the lookup
+ * fails) the selection is kept.
+ *
+ * @async
+ * @param supabase - Server Supabase client
+ * @param cityId - UUID of the city
+ * @param data - Validated language point data
+ * @returns Neighborhood to save and a mismatch warning, if any
+ */
+async function resolveNeighborhood(
+  supabase: ServerSupabaseClient,
+  cityId: string,
+  data: LanguagePointFormData
+): Promise<{ neighborhoodId: string | null; mismatch: NeighborhoodMismatch | null }> {
+  const { data: derivedId, error } = await supabase.rpc('find_neighborhood_for_point', {
+    p_city_id: cityId,
+    p_latitude: data.latitude,
+    p_longitude: data.longitude,
+  })
+
+  if (error) {
+    console.error('Error looking up neighborhood for point:', error)
+    return { neighborhoodId: data.neighborhood_id, mismatch: null }
+  }
+
+  if (!derivedId) {
+    return { neighborhoodId: data.neighborhood_id, mismatch: null }
+  }
+
+  const mismatch =
+    data.neighborhood_id && data.neighborhood_id !== derivedId
+      ? { selectedNeighborhoodId: data.neighborhood_id, assignedNeighborhoodId: derivedId as string }
+      : null
+
+  if (mismatch) {
+    console.warn('Selected neighborhood does not contain the language point, using boundary match', mismatch)
+  }
+
+  return { neighborhoodId: derivedId as string, mismatch }
+}
+
 /**
  * Retrieves all language points for a city with related data
  *
@@ -139,6 +237,8 @@ export async function getLanguagePoints(citySlug: string, locale: string) {
         )
       `)
       .eq('city_id', city.id)
+      .is('deleted_at', null)
+      .is('neighborhood.deleted_at', null)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -222,6 +322,7 @@ export async function getLanguagePoint(citySlug: string, pointId: string) {
         )
       `)
       .eq('id', pointId)
+      .is('deleted_at', null)
       .single()
 
     if (error) {
@@ -275,12 +376,13 @@ export async function getLanguagesForPoints(citySlug: string, locale: string) {
       .select(`
         id,
         endonym,
-        translations:language_translations!inner (
+        translations:language_translations (
+          locale_code,
           name
         )
       `)
       .eq('city_id', city.id)
-      .eq('translations.locale_code', locale)
+      .is('deleted_at', null)
       .order('endonym', { ascending: true })
 
     if (error) {
@@ -288,7 +390,10 @@ export async function getLanguagesForPoints(citySlug: string, locale: string) {
       throw new Error('Failed to fetch languages')
     }
 
-    return data || []
+    return (data || []).map((language) => ({
+      ...language,
+      translations: pickTranslations(language.translations, locale),
+    }))
   } catch (error) {
     console.error('Error in getLanguagesForPoints:', error)
     throw error
@@ -333,6 +438,7 @@ export async function getNeighborhoodsForPoints(citySlug: string, locale: string
       .from('districts')
       .select('id')
       .eq('city_id', city.id)
+      .is('deleted_at', null)
 
     if (districtsError) {
       console.error('Error fetching districts:', districtsError)
@@ -351,12 +457,13 @@ export async function getNeighborhoodsForPoints(citySlug: string, locale: string
       .select(`
         id,
         slug,
-        translations:neighborhood_translations!inner (
+        translations:neighborhood_translations (
+          locale_code,
           name
         )
       `)
       .in('district_id', districtIds)
-      .eq('translations.locale_code', locale)
+      .is('deleted_at', null)
       .order('slug', { ascending: true })
 
     if (error) {
@@ -364,7 +471,10 @@ export async function getNeighborhoodsForPoints(citySlug: string, locale: string
       throw new Error('Failed to fetch neighborhoods')
     }
 
-    return data || []
+    return (data || []).map((neighborhood) => ({
+      ...neighborhood,
+      translations: pickTranslations(neighborhood.translations, locale),
+    }))
   } catch (error) {
     console.error('Error in getNeighborhoodsForPoints:', error)
     throw error
@@ -377,8 +487,9 @@ export async function getNeighborhoodsForPoints(citySlug: string, locale: string
  * @async
  * @param citySlug - The slug of the city
  * @param formData - The language point data
- * @returns Promise<Object> Created language point
- * @throws {Error} If validation fails or database operation fails
+ * @returns Promise<Object> Created language point with `neighborhoodMismatch`
+ *   set when the selected neighborhood was replaced by the boundary match
+ * @throws {Error} If validation fails, the point is outside the city bounds, or database operation fails
  */
 export async function createLanguagePoint(
   citySlug: string,
@@ -395,10 +506,10 @@ export async function createLanguagePoint(
 
     const supabase = await getServerSupabaseWithCookies(citySlug)
 
-    // Get city ID
+    // Get city ID and bounds
     const { data: city, error: cityError } = await supabase
       .from('cities')
-      .select('id')
+      .select(CITY_FOR_POINT_SELECT)
       .eq('slug', citySlug)
       .single()
 
@@ -406,13 +517,17 @@ export async function createLanguagePoint(
       throw new Error(`City not found: ${citySlug}`)
     }
 
+    assertWithinCityBounds(city, validatedData)
+
+    const { neighborhoodId, mismatch } = await resolveNeighborhood(supabase, city.id, validatedData)
+
     // Create language point with geom
     const { data, error } = await supabase
       .from('language_points')
       .insert({
         city_id: city.id,
         language_id: validatedData.language_id,
-        neighborhood_id: validatedData.neighborhood_id,
+        neighborhood_id: neighborhoodId,
         latitude: validatedData.latitude,
         longitude: validatedData.longitude,
         postal_code: validatedData.postal_code || null,
@@ -430,7 +545,7 @@ export async function createLanguagePoint(
     // Revalidate the language points list page
     revalidatePath(`/operator/${citySlug}/language-points`)
 
-    return data
+    return { ...data, neighborhoodMismatch: mismatch }
   } catch (error) {
     if (error instanceof z.ZodError) {
       throw new Error(error.issues[0].message)
@@ -447,8 +562,9 @@ export async function createLanguagePoint(
  * @param citySlug - The slug of the city
  * @param pointId - The ID of the language point to update
  * @param formData - The updated language point data
- * @returns Promise<Object> Updated language point
- * @throws {Error} If validation fails or database operation fails
+ * @returns Promise<Object> Updated language point with `neighborhoodMismatch`
+ *   set when the selected neighborhood was replaced by the boundary match
+ * @throws {Error} If validation fails, the point is outside the city bounds, or database operation fails
  */
 export async function updateLanguagePoint(
   citySlug: string,
@@ -476,12 +592,27 @@ export async function updateLanguagePoint(
 
     const supabase = await getServerSupabaseWithCookies(citySlug)
 
+    // Get city ID and bounds
+    const { data: city, error: cityError } = await supabase
+      .from('cities')
+      .select(CITY_FOR_POINT_SELECT)
+      .eq('slug', citySlug)
+      .single()
+
+    if (cityError || !city) {
+      throw new Error(`City not found: ${citySlug}`)
+    }
+
+    assertWithinCityBounds(city, validatedData)
+
+    const { neighborhoodId, mismatch } = await resolveNeighborhood(supabase, city.id, validatedData)
+
     // Update language point
     const { data, error } = await supabase
       .from('language_points')
       .update({
         language_id: validatedData.language_id,
-        neighborhood_id: validatedData.neighborhood_id,
+        neighborhood_id: neighborhoodId,
         latitude: validatedData.latitude,
         longitude: validatedData.longitude,
         postal_code: validatedData.postal_code || null,
@@ -501,7 +632,7 @@ export async function updateLanguagePoint(
     revalidatePath(`/operator/${citySlug}/language-points`)
     revalidatePath(`/operator/${citySlug}/language-points/${pointId}`)
 
-    return data
+    return { ...data, neighborhoodMismatch: mismatch }
   } catch (error) {
     if (error instanceof z.ZodError) {
       throw new Error(error.issues[0].message)
@@ -514,6 +645,8 @@ export async function updateLanguagePoint(
 /**
  * Deletes a language point
  *
+ * Moves the point to the trash; it can be restored from there until it is purged.
+ *
  * @async
  * @param citySlug - The slug of the city
  * @param pointId - The ID of the language point to delete
@@ -539,10 +672,10 @@ export async function deleteLanguagePoint(citySlug: string, pointId: string) {
   try {
     const supabase = await getServerSupabaseWithCookies(citySlug)
 
-    const { error } = await supabase
-      .from('language_points')
-      .delete()
-      .eq('id', pointId)
+    const { error } = await supabase.rpc('move_to_trash', {
+      p_entity_type: 'language_point',
+      p_entity_id: pointId,
+    })
 
     if (error) {
       console.error('Error deleting language point:', error)
@@ -556,3 +689,124 @@ export async function deleteLanguagePoint(citySlug: string, pointId: string) {
     throw error
   }
 }
+
+/**
+ * Finds the neighborhood whose boundary contains the given coordinates
+ *
+ * Used by the language point form to warn about a mismatching selection
+ * before saving.
+ *
+ * @async
+ * @param citySlug - The slug of the city
+ * @param latitude - Latitude of the point
+ * @param longitude - Longitude of the point
+ * @returns Promise<string | null> Neighborhood ID, or null if no boundary contains the point
+ * @throws {Error} If parameters are invalid or the city is not found
+ */
+export async function findNeighborhoodForCoordinates(
+  citySlug: string,
+  latitude: number,
+  longitude: number
+): Promise<string | null> {
+  // Input validation
+  if (!citySlug || typeof citySlug !== 'string' || citySlug.trim() === '') {
+    throw new Error('City slug is required and must be a non-empty string')
+  }
+
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90 ||
+      !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    throw new Error('Coordinates are out of range')
+  }
+
+  const supabase = await getServerSupabaseWithCookies(citySlug)
+
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id')
+    .eq('slug', citySlug)
+    .single()
+
+  if (cityError || !city) {
+    throw new Error(`City not found: ${citySlug}`)
+  }
+
+  const { data, error } = await supabase.rpc('find_neighborhood_for_point', {
+    p_city_id: city.id,
+    p_latitude: latitude,
+    p_longitude: longitude,
+  })
+
+  if (error) {
+    console.error('Error looking up neighborhood for point:', error)
+    throw new Error('Failed to look up neighborhood')
+  }
+
+  return (data as string | null) ?? null
+}
+
+/**
+ * Re-assigns every language point of a city to the neighborhood containing it
+ *
+ * Points outside all neighborhood boundaries keep their current neighborhood.
+ *
+ * @async
+ * @param citySlug - The slug of the city
+ * @returns Promise<NeighborhoodReassignmentResult> Number of points checked, changed and unmatched
+ * @throws {Error} If the city is not found or the database operation fails
+ */
+export async function reassignLanguagePointNeighborhoods(
+  citySlug: string
+): Promise<NeighborhoodReassignmentResult> {
+  // Input validation
+  if (!citySlug || typeof citySlug !== 'string' || citySlug.trim() === '') {
+    throw new Error('City slug is required and must be a non-empty string')
+  }
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      throw new Error('Unauthorized')
+    }
+
+    const { data: city, error: cityError } = await supabase
+      .from('cities')
+      .select('id')
+      .eq('slug', citySlug)
+      .single()
+
+    if (cityError || !city) {
+      throw new Error(`City not found: ${citySlug}`)
+    }
+
+    const { data, error } = await supabase.rpc('reassign_language_point_neighborhoods', {
+      p_city_id: city.id,
+    })
+
+    if (error) {
+      console.error('Error re-assigning neighborhoods:', error)
+      throw new Error('Failed to re-assign neighborhoods')
+    }
+
+    const counts = (Array.isArray(data) ? data[0] : data) as {
+      total_count: number
+      updated_count: number
+      unmatched_count: number
+    } | null
+
+    revalidatePath(`/operator/${citySlug}/language-points`)
+
+    return {
+      total: counts?.total_count ?? 0,
+      updated: counts?.updated_count ?? 0,
+      unmatched: counts?.unmatched_count ?? 0,
+    }
+  } catch (error) {
+    console.error('Error in reassignLanguagePointNeighborhoods:', error)
+    throw error
+  }
+}
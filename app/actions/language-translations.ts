@@ -16,6 +16,7 @@
 
 import { revalidatePath } from 'next/cache'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { recordRevision } from '@/lib/revisions/record'
 import { z } from 'zod'
 import { sanitizeText, VALIDATION_LIMITS } from '@/lib/sanitization'
 
@@ -94,6 +95,7 @@ export async function getLanguageTranslations(
       .from('languages')
       .select('id, city_id')
       .eq('id', languageId)
+      .is('deleted_at', null)
       .single()
 
     if (languageError || !language) {
@@ -178,6 +180,7 @@ export async function upsertLanguageTranslation(
       .from('languages')
       .select('id, city_id')
       .eq('id', languageId)
+      .is('deleted_at', null)
       .single()
 
     if (languageError || !language) {
@@ -257,6 +260,8 @@ export async function upsertLanguageTranslation(
       translation = newTranslation
     }
 
+    await recordRevision(supabase, 'language', languageId)
+
     // Revalidate related pages
     revalidatePath(`/[locale]/operator/${citySlug}/languages`)
     revalidatePath(`/[locale]/operator/${citySlug}/languages/${languageId}`)
@@ -326,6 +331,7 @@ export async function deleteLanguageTranslation(
       .from('languages')
       .select('id, city_id')
       .eq('id', languageId)
+      .is('deleted_at', null)
       .single()
 
     if (languageError || !language) {
@@ -348,6 +354,8 @@ export async function deleteLanguageTranslation(
       throw new Error(`Failed to delete translation: ${deleteError.message}`)
     }
 
+    await recordRevision(supabase, 'language', languageId)
+
     // Revalidate related pages
     revalidatePath(`/[locale]/operator/${citySlug}/languages`)
     revalidatePath(`/[locale]/operator/${citySlug}/languages/${languageId}`)
@@ -23,13 +23,20 @@ vi.mock('next/cache', () => ({
   revalidatePath: vi.fn(),
 }))
 
+// Mock the locale checks
+vi.mock('@/lib/i18n/active-locales', () => ({
+  assertCityLocales: vi.fn(),
+}))
+
 // Mock Supabase server client
 vi.mock('@/lib/supabase/server-client', () => ({
   getServerSupabaseWithCookies: vi.fn(),
 }))
 
 // Import mocked modules
+import { z } from 'zod'
 import { revalidatePath } from 'next/cache'
+import { assertCityLocales } from '@/lib/i18n/active-locales'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
 
 /**
@@ -44,8 +51,10 @@ function createMockSupabaseClient() {
     update: vi.fn(),
     delete: vi.fn(),
     eq: vi.fn(),
+    is: vi.fn(),
     single: vi.fn(),
     order: vi.fn(),
+    rpc: vi.fn(),
     auth: {
       getUser: vi.fn().mockResolvedValue({
         data: { user: { id: 'user-123', role: 'operator' } },
@@ -61,6 +70,7 @@ function createMockSupabaseClient() {
   mockClient.update.mockReturnValue(mockClient)
   mockClient.delete.mockReturnValue(mockClient)
   mockClient.eq.mockReturnValue(mockClient)
+  mockClient.is.mockReturnValue(mockClient)
   mockClient.order.mockReturnValue(mockClient)
 
   return mockClient
@@ -210,14 +220,12 @@ describe('Language Server Actions', () => {
   })
 
   describe('createLanguage', () => {
-    it('should create language with translations and taxonomies successfully', async () => {
+    it('should create language with translations and taxonomies in one transaction', async () => {
       // Arrange
       const formData = {
         iso_639_3_code: 'eng',
         endonym: 'English',
-        name_en: 'English',
-        name_nl: 'Engels',
-        name_fr: 'Anglais',
+        names: { en: 'English', nl: 'Engels', fr: 'Anglais' },
         language_family_id: '550e8400-e29b-41d4-a716-446655440001',
         country_of_origin_id: '550e8400-e29b-41d4-a716-446655440002',
         speaker_count: 1500000000,
@@ -230,38 +238,34 @@ describe('Language Server Actions', () => {
       const mockCity = { id: 'city-1', slug: 'amsterdam' }
       const mockLanguage = { id: '550e8400-e29b-41d4-a716-446655440000', ...formData }
 
-      // Mock city lookup (first from().select().eq().single() call)
-      let callCount = 0
-      mockSupabase.single.mockImplementation(() => {
-        callCount++
-        if (callCount === 1) {
-          // City lookup
-          return Promise.resolve({ data: mockCity, error: null })
-        } else {
-          // Language insert with select().single()
-          return Promise.resolve({ data: mockLanguage, error: null })
-        }
-      })
-
-      // Make insert chainable for the language insert, and resolves for translations/taxonomies
-      let insertCallCount = 0
-      mockSupabase.insert.mockImplementation(() => {
-        insertCallCount++
-        if (insertCallCount === 1) {
-          // Language insert - needs to chain to .select()
-          return mockSupabase
-        } else {
-          // Translations and taxonomies - resolve directly
-          return Promise.resolve({ data: null, error: null })
-        }
-      })
+      mockSupabase.single.mockResolvedValueOnce({ data: mockCity, error: null })
+      mockSupabase.rpc.mockResolvedValue({ data: mockLanguage, error: null })
 
       // Act
       const result = await createLanguage('amsterdam', formData)
 
       // Assert
       expect(result).toEqual(mockLanguage)
-      expect(mockSupabase.insert).toHaveBeenCalledTimes(3) // language + translations + taxonomies
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('create_language', {
+        p_city_id: 'city-1',
+        p_language: {
+          iso_639_3_code: 'eng',
+          endonym: 'English',
+          language_family_id: '550e8400-e29b-41d4-a716-446655440001',
+          country_of_origin_id: '550e8400-e29b-41d4-a716-446655440002',
+          speaker_count: 1500000000,
+        },
+        p_translations: [
+          { locale_code: 'en', name: 'English' },
+          { locale_code: 'nl', name: 'Engels' },
+          { locale_code: 'fr', name: 'Anglais' },
+        ],
+        p_taxonomy_value_ids: [
+          '550e8400-e29b-41d4-a716-446655440003',
+          '550e8400-e29b-41d4-a716-446655440004',
+        ],
+      })
+      expect(mockSupabase.insert).not.toHaveBeenCalled()
       expect(revalidatePath).toHaveBeenCalledWith('/[locale]/operator/amsterdam/languages')
     })
 
@@ -270,9 +274,7 @@ describe('Language Server Actions', () => {
       const formData = {
         iso_639_3_code: 'eng',
         endonym: '', // Missing required field
-        name_en: 'English',
-        name_nl: '',
-        name_fr: '',
+        names: { en: 'English', nl: '', fr: '' },
         language_family_id: '',
         country_of_origin_id: '',
         speaker_count: undefined,
@@ -283,71 +285,110 @@ describe('Language Server Actions', () => {
       await expect(createLanguage('amsterdam', formData)).rejects.toThrow()
     })
 
-    it('should rollback language creation if translations fail', async () => {
+    it('should throw and not revalidate when the transaction fails', async () => {
       // Arrange
       const formData = {
         iso_639_3_code: 'eng',
         endonym: 'English',
-        name_en: 'English',
-        name_nl: 'Engels',
-        name_fr: 'Anglais',
+        names: { en: 'English', nl: 'Engels', fr: 'Anglais' },
         language_family_id: '',
         country_of_origin_id: '',
         speaker_count: undefined,
         taxonomy_value_ids: [],
       }
 
-      const mockCity = { id: 'city-1', slug: 'amsterdam' }
-      const mockLanguage = { id: '550e8400-e29b-41d4-a716-446655440000', ...formData }
-
-      // Mock city lookup and language insert
-      let singleCallCount = 0
-      mockSupabase.single.mockImplementation(() => {
-        singleCallCount++
-        if (singleCallCount === 1) {
-          return Promise.resolve({ data: mockCity, error: null })
-        } else {
-          return Promise.resolve({ data: mockLanguage, error: null })
-        }
+      mockSupabase.single.mockResolvedValueOnce({ data: { id: 'city-1', slug: 'amsterdam' }, error: null })
+      mockSupabase.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: '23503', message: 'insert or update on table "language_translations" violates foreign key constraint' },
       })
 
-      // Mock translation insert failure (first insert succeeds for language, second fails for translations)
-      let insertCallCount = 0
-      mockSupabase.insert.mockImplementation(() => {
-        insertCallCount++
-        if (insertCallCount === 1) {
-          // Language insert - needs to be chainable
-          return mockSupabase
-        } else {
-          // Translation insert - fails
-          return Promise.resolve({
-            data: null,
-            error: { message: 'Translation insert failed' },
-          })
-        }
-      })
+      // Act & Assert
+      await expect(createLanguage('amsterdam', formData)).rejects.toThrow(
+        'Failed to create language for city "amsterdam"'
+      )
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1) // No revision recorded
+      expect(revalidatePath).not.toHaveBeenCalled()
+    })
 
-      // Mock eq() to be chainable for city fetch, but resolve for rollback delete
-      let eqCallCount = 0
-      mockSupabase.eq.mockImplementation(() => {
-        eqCallCount++
-        if (eqCallCount === 1) {
-          // City fetch: from('cities').select().eq().single() - must be chainable
-          return mockSupabase
-        } else {
-          // Rollback delete: from('languages').delete().eq() - resolves
-          return Promise.resolve({ error: null })
-        }
-      })
+    it('should reject names in locales the city has not enabled', async () => {
+      // Arrange
+      const formData = {
+        iso_639_3_code: 'tur',
+        endonym: 'Türkçe',
+        names: { en: 'Turkish', de: 'Türkisch' },
+        language_family_id: '',
+        country_of_origin_id: '',
+        speaker_count: undefined,
+        taxonomy_value_ids: [],
+      }
 
-      // Mock rollback delete - must be chainable
-      mockSupabase.delete.mockReturnValue(mockSupabase)
+      mockSupabase.single.mockResolvedValueOnce({ data: { id: 'city-1', slug: 'amsterdam' }, error: null })
+      vi.mocked(assertCityLocales).mockRejectedValueOnce(
+        new z.ZodError([
+          { code: 'custom', path: ['names', 'de'], message: "Locale 'de' is not enabled for this city", input: 'de' },
+        ])
+      )
 
       // Act & Assert
       await expect(createLanguage('amsterdam', formData)).rejects.toThrow(
-        'Failed to create translations'
+        "Validation error: names.de: Locale 'de' is not enabled for this city"
       )
-      expect(mockSupabase.delete).toHaveBeenCalled() // Rollback happened
+      expect(assertCityLocales).toHaveBeenCalledWith(mockSupabase, 'city-1', 'names', ['en', 'de'])
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should reject taxonomy values that break the rules of their types', async () => {
+      // Arrange
+      const formData = {
+        iso_639_3_code: 'eng',
+        endonym: 'English',
+        names: { en: 'English', nl: '', fr: '' },
+        language_family_id: '',
+        country_of_origin_id: '',
+        speaker_count: undefined,
+        taxonomy_value_ids: [
+          '550e8400-e29b-41d4-a716-446655440003',
+          '550e8400-e29b-41d4-a716-446655440004',
+        ],
+      }
+
+      mockSupabase.single.mockResolvedValueOnce({ data: { id: 'city-1', slug: 'amsterdam' }, error: null })
+      mockSupabase.is.mockResolvedValueOnce({
+        data: [
+          {
+            id: 'type-size',
+            slug: 'size',
+            is_required: false,
+            allow_multiple: false,
+            translations: [
+              { locale_code: 'nl', name: 'Grootte' },
+              { locale_code: 'en', name: 'Size' },
+            ],
+            values: [
+              { id: '550e8400-e29b-41d4-a716-446655440003' },
+              { id: '550e8400-e29b-41d4-a716-446655440004' },
+            ],
+          },
+          {
+            id: 'type-status',
+            slug: 'status',
+            is_required: true,
+            allow_multiple: false,
+            translations: [],
+            values: [{ id: '550e8400-e29b-41d4-a716-446655440005' }],
+          },
+        ],
+        error: null,
+      })
+
+      // Act & Assert
+      await expect(createLanguage('amsterdam', formData)).rejects.toThrow(
+        'Validation error: Only one "Size" value is allowed, "status" is required'
+      )
+      expect(mockSupabase.from).toHaveBeenCalledWith('taxonomy_types')
+      expect(mockSupabase.eq).toHaveBeenCalledWith('city_id', 'city-1')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
     })
 
     it('should sanitize inputs before database insertion', async () => {
@@ -355,114 +396,117 @@ describe('Language Server Actions', () => {
       const formData = {
         iso_639_3_code: 'eng', // Lowercase required by validation
         endonym: '  English  ', // Should be trimmed
-        name_en: '<script>alert("xss")</script>English', // Should remove HTML
-        name_nl: '',
-        name_fr: '',
+        names: { en: '<script>alert("xss")</script>English', nl: '', fr: '' }, // Should remove HTML
         language_family_id: '',
         country_of_origin_id: '',
         speaker_count: undefined,
         taxonomy_value_ids: [],
       }
 
-      const mockCity = { id: 'city-1', slug: 'amsterdam' }
-
-      // Mock both single() calls (city lookup and language insert)
-      let singleCallCount = 0
-      mockSupabase.single.mockImplementation(() => {
-        singleCallCount++
-        if (singleCallCount === 1) {
-          return Promise.resolve({ data: mockCity, error: null })
-        } else {
-          return Promise.resolve({ data: { id: '550e8400-e29b-41d4-a716-446655440000' }, error: null })
-        }
-      })
-
-      mockSupabase.insert.mockReturnValue(mockSupabase) // Make insert chainable
+      mockSupabase.single.mockResolvedValueOnce({ data: { id: 'city-1', slug: 'amsterdam' }, error: null })
+      mockSupabase.rpc.mockResolvedValue({ data: { id: '550e8400-e29b-41d4-a716-446655440000' }, error: null })
 
       // Act
       await createLanguage('amsterdam', formData)
 
       // Assert
-      expect(mockSupabase.insert).toHaveBeenCalled()
-      // Check that the insert was called with sanitized data
-      const insertCall = (mockSupabase.insert as Mock).mock.calls[0][0]
-      expect(insertCall.iso_639_3_code).toBe('eng')
-      expect(insertCall.endonym).toBe('English') // trimmed
+      const [functionName, args] = mockSupabase.rpc.mock.calls[0]
+      expect(functionName).toBe('create_language')
+      expect(args.p_language.iso_639_3_code).toBe('eng')
+      expect(args.p_language.endonym).toBe('English') // trimmed
+      expect(args.p_language.language_family_id).toBeNull()
+      expect(args.p_translations).toHaveLength(1) // empty names are left out
+      expect(args.p_translations[0].name).not.toContain('<script>')
     })
   })
 
   describe('updateLanguage', () => {
-    it('should update language successfully', async () => {
+    it('should update language in one transaction', async () => {
       // Arrange
       const formData = {
         iso_639_3_code: 'eng',
         endonym: 'English (Updated)',
-        name_en: 'English',
-        name_nl: 'Engels',
-        name_fr: 'Anglais',
+        names: { en: 'English', nl: 'Engels', fr: '' },
         language_family_id: '550e8400-e29b-41d4-a716-446655440001',
         country_of_origin_id: '550e8400-e29b-41d4-a716-446655440002',
         speaker_count: 1600000000,
         taxonomy_value_ids: ['550e8400-e29b-41d4-a716-446655440003'],
       }
 
-      const mockExistingLanguage = { id: '550e8400-e29b-41d4-a716-446655440000', city_id: 'city-1' }
       const mockUpdatedLanguage = { id: '550e8400-e29b-41d4-a716-446655440000', ...formData }
 
-      // Mock the single() calls (fetch existing and update result)
-      let singleCallCount = 0
-      mockSupabase.single.mockImplementation(() => {
-        singleCallCount++
-        if (singleCallCount === 1) {
-          return Promise.resolve({ data: mockExistingLanguage, error: null })
-        } else {
-          return Promise.resolve({ data: mockUpdatedLanguage, error: null })
-        }
-      })
-
-      // Make update chainable for the language update operation
-      mockSupabase.update.mockReturnValue(mockSupabase)
-
-      // Make delete chainable for deleting old translations/taxonomies
-      mockSupabase.delete.mockReturnValue(mockSupabase)
-
-      // Mock eq() to be chainable for initial fetch and update, but resolve for deletes
-      let eqCallCount = 0
-      mockSupabase.eq.mockImplementation(() => {
-        eqCallCount++
-        if (eqCallCount === 1 || eqCallCount === 2) {
-          // First: from('languages').select().eq().single() - fetch existing
-          // Second: from('languages').update().eq().select().single() - update language
-          return mockSupabase
-        } else {
-          // Third and beyond: delete operations for translations and taxonomies
-          return Promise.resolve({ error: null })
-        }
-      })
-
-      mockSupabase.insert.mockResolvedValue({ data: null, error: null }) // Insert new translations/taxonomies
+      mockSupabase.single.mockResolvedValueOnce({ data: { id: 'city-1', slug: 'amsterdam' }, error: null })
+      mockSupabase.rpc.mockResolvedValue({ data: mockUpdatedLanguage, error: null })
 
       // Act
       const result = await updateLanguage('amsterdam', '550e8400-e29b-41d4-a716-446655440000', formData)
 
       // Assert
       expect(result).toEqual(mockUpdatedLanguage)
-      expect(mockSupabase.update).toHaveBeenCalled()
-      expect(mockSupabase.delete).toHaveBeenCalledTimes(2) // translations + taxonomies
-      expect(mockSupabase.insert).toHaveBeenCalledTimes(2) // translations + taxonomies
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('update_language', {
+        p_language_id: '550e8400-e29b-41d4-a716-446655440000',
+        p_language: {
+          iso_639_3_code: 'eng',
+          endonym: 'English (Updated)',
+          language_family_id: '550e8400-e29b-41d4-a716-446655440001',
+          country_of_origin_id: '550e8400-e29b-41d4-a716-446655440002',
+          speaker_count: 1600000000,
+        },
+        p_translations: [
+          { locale_code: 'en', name: 'English' },
+          { locale_code: 'nl', name: 'Engels' },
+        ],
+        p_taxonomy_value_ids: ['550e8400-e29b-41d4-a716-446655440003'],
+        p_locales: ['en', 'nl', 'fr'],
+      })
+      expect(mockSupabase.update).not.toHaveBeenCalled()
+      expect(mockSupabase.delete).not.toHaveBeenCalled()
       expect(revalidatePath).toHaveBeenCalled()
     })
 
+    it('should not save a language without a value of a required taxonomy type', async () => {
+      // Arrange
+      mockSupabase.single.mockResolvedValueOnce({ data: { id: 'city-1', slug: 'amsterdam' }, error: null })
+      mockSupabase.is.mockResolvedValueOnce({
+        data: [
+          {
+            id: 'type-status',
+            slug: 'status',
+            is_required: true,
+            allow_multiple: false,
+            translations: [{ locale_code: 'en', name: 'Status' }],
+            values: [{ id: '550e8400-e29b-41d4-a716-446655440005' }],
+          },
+        ],
+        error: null,
+      })
+
+      const formData = {
+        iso_639_3_code: 'eng',
+        endonym: 'English',
+        names: { en: 'English', nl: '', fr: '' },
+        language_family_id: '',
+        country_of_origin_id: '',
+        speaker_count: undefined,
+        taxonomy_value_ids: [],
+      }
+
+      // Act & Assert
+      await expect(
+        updateLanguage('amsterdam', '550e8400-e29b-41d4-a716-446655440000', formData)
+      ).rejects.toThrow('Validation error: "Status" is required')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
     it('should throw error when language does not exist', async () => {
       // Arrange
-      mockSupabase.single.mockResolvedValue({ data: null, error: null })
+      mockSupabase.single.mockResolvedValueOnce({ data: { id: 'city-1', slug: 'amsterdam' }, error: null })
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: 'P0001', message: 'Language not found' } })
 
       const formData = {
         iso_639_3_code: 'eng',
         endonym: 'English',
-        name_en: 'English',
-        name_nl: '',
-        name_fr: '',
+        names: { en: 'English', nl: '', fr: '' },
         language_family_id: '',
         country_of_origin_id: '',
         speaker_count: undefined,
@@ -473,52 +517,43 @@ describe('Language Server Actions', () => {
       await expect(
         updateLanguage('amsterdam', '550e8400-e29b-41d4-a716-446655440000', formData)
       ).rejects.toThrow('Language not found')
+      expect(revalidatePath).not.toHaveBeenCalled()
     })
   })
 
   describe('deleteLanguage', () => {
-    it('should delete language successfully', async () => {
+    it('should move the language to the trash', async () => {
       // Arrange
-      const mockLanguage = { id: '550e8400-e29b-41d4-a716-446655440000', city_id: 'city-1' }
-
-      mockSupabase.single.mockResolvedValue({ data: mockLanguage, error: null })
-
-      // Make delete chainable and resolve at the end
-      mockSupabase.delete.mockReturnValue(mockSupabase)
-      mockSupabase.eq.mockResolvedValue({ error: null })
+      mockSupabase.rpc.mockResolvedValue({ error: null })
 
       // Act
       await deleteLanguage('amsterdam', '550e8400-e29b-41d4-a716-446655440000')
 
       // Assert
-      expect(mockSupabase.delete).toHaveBeenCalled()
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('move_to_trash', {
+        p_entity_type: 'language',
+        p_entity_id: '550e8400-e29b-41d4-a716-446655440000',
+      })
+      expect(mockSupabase.delete).not.toHaveBeenCalled()
       expect(revalidatePath).toHaveBeenCalledWith('/[locale]/operator/amsterdam/languages')
     })
 
-    it('should succeed when language does not exist (idempotent)', async () => {
+    it('should throw error when language does not exist', async () => {
       // Arrange
-      // Mock successful delete operation even if language doesn't exist
-      mockSupabase.delete.mockReturnValue(mockSupabase)
-      mockSupabase.eq.mockResolvedValue({ error: null })
-
-      // Act
-      // Should not throw - deleteLanguage is idempotent
-      await deleteLanguage('amsterdam', '550e8400-e29b-41d4-a716-446655440000')
+      mockSupabase.rpc.mockResolvedValue({
+        error: { code: 'P0001', message: 'Item not found or you do not have permission to delete it' },
+      })
 
-      // Assert
-      expect(mockSupabase.delete).toHaveBeenCalled()
-      expect(revalidatePath).toHaveBeenCalledWith('/[locale]/operator/amsterdam/languages')
+      // Act & Assert
+      await expect(deleteLanguage('amsterdam', '550e8400-e29b-41d4-a716-446655440000')).rejects.toThrow(
+        'Item not found or you do not have permission to delete it'
+      )
+      expect(revalidatePath).not.toHaveBeenCalled()
     })
 
     it('should throw error when delete operation fails', async () => {
       // Arrange
-      const mockLanguage = { id: '550e8400-e29b-41d4-a716-446655440000', city_id: 'city-1' }
-
-      mockSupabase.single.mockResolvedValue({ data: mockLanguage, error: null })
-
-      // Make delete chainable and fail at the end
-      mockSupabase.delete.mockReturnValue(mockSupabase)
-      mockSupabase.eq.mockResolvedValue({ error: { message: 'Foreign key constraint violation' } })
+      mockSupabase.rpc.mockResolvedValue({ error: { message: 'Connection lost' } })
 
       // Act & Assert
       await expect(deleteLanguage('amsterdam', '550e8400-e29b-41d4-a716-446655440000')).rejects.toThrow('Failed to delete language')
@@ -532,12 +567,12 @@ describe('Language Server Actions', () => {
         {
           id: 'fam-1',
           slug: 'indo-european',
-          translations: [{ name: 'Indo-European' }],
+          translations: [{ locale_code: 'en', name: 'Indo-European' }],
         },
         {
           id: 'fam-2',
           slug: 'sino-tibetan',
-          translations: [{ name: 'Sino-Tibetan' }],
+          translations: [{ locale_code: 'en', name: 'Sino-Tibetan' }],
         },
       ]
 
@@ -552,6 +587,31 @@ describe('Language Server Actions', () => {
       expect(mockSupabase.from).toHaveBeenCalledWith('language_families')
     })
 
+    it('should keep families without a name in the locale, named in English', async () => {
+      mockSupabase.order.mockResolvedValue({
+        data: [
+          {
+            id: 'fam-1',
+            slug: 'indo-european',
+            translations: [
+              { locale_code: 'en', name: 'Indo-European' },
+              { locale_code: 'nl', name: 'Indo-Europees' },
+            ],
+          },
+          { id: 'fam-2', slug: 'sino-tibetan', translations: [] },
+        ],
+        error: null,
+      })
+
+      const result = await getLanguageFamiliesForSelect('amsterdam', 'de')
+
+      expect(result).toEqual([
+        { id: 'fam-1', slug: 'indo-european', translations: [{ locale_code: 'en', name: 'Indo-European' }] },
+        { id: 'fam-2', slug: 'sino-tibetan', translations: [] },
+      ])
+      expect(mockSupabase.eq).not.toHaveBeenCalledWith('translations.locale_code', 'de')
+    })
+
     it('should return empty array when no families found', async () => {
       // Arrange
       mockSupabase.order.mockResolvedValue({ data: null, error: null })
@@ -571,12 +631,12 @@ describe('Language Server Actions', () => {
         {
           id: 'country-1',
           iso_code: 'GB',
-          translations: [{ name: 'United Kingdom' }],
+          translations: [{ locale_code: 'en', name: 'United Kingdom' }],
         },
         {
           id: 'country-2',
           iso_code: 'FR',
-          translations: [{ name: 'France' }],
+          translations: [{ locale_code: 'en', name: 'France' }],
         },
       ]
 
@@ -612,14 +672,14 @@ describe('Language Server Actions', () => {
           slug: 'community-size',
           is_required: true,
           allow_multiple: false,
-          translations: [{ name: 'Community Size' }],
+          translations: [{ locale_code: 'en', name: 'Community Size' }],
           values: [
             {
               id: 'val-1',
               slug: 'small',
               color_hex: '#FFA500',
               icon_name: null,
-              translations: [{ name: 'Small' }],
+              translations: [{ locale_code: 'en', name: 'Small' }],
             },
           ],
         },
@@ -10,10 +10,11 @@
  * - Language family assignment
  * - Country of origin
  *
- * NOTE: This module performs multiple database operations without atomic transactions.
- * Supabase JS client doesn't support transactions directly. Rollback is attempted on failure,
- * but in rare cases, partial writes may occur. For production, consider implementing critical
- * operations via Postgres functions (RPC) for true atomicity.
+ * Creating and updating a language writes the language, its translations and its
+ * taxonomy assignments in one transaction, through the create_language and
+ * update_language Postgres functions: a failure never leaves partial data behind.
+ * Before saving, the taxonomy values are checked against the is_required and
+ * allow_multiple rules of the city's taxonomy types.
  *
  * @module actions/languages
  */
@@ -21,6 +22,7 @@
 'use server'
 
 import { revalidatePath } from 'next/cache'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
 import { z } from 'zod'
 import {
@@ -31,51 +33,98 @@ import {
   sanitizeNumber,
   VALIDATION_LIMITS,
 } from '@/lib/sanitization'
-import { isValidISO639_3, getISOCodeErrorMessage } from '@/lib/iso-639-3-codes'
+import { languageSchema } from '@/lib/validations/language'
+import { assertCityLocales } from '@/lib/i18n/active-locales'
+import { pickTranslations } from '@/lib/i18n/config'
+import { recordRevision } from '@/lib/revisions/record'
+import { checkTaxonomyRules, type TaxonomyRuleType } from '@/lib/taxonomies/rules'
 
 /**
- * Validation schema for language creation/update
+ * Postgres error code of RAISE EXCEPTION; its messages are meant for users
  */
-const languageSchema = z.object({
-  // Core fields
-  iso_639_3_code: z.string()
-    .optional()
-    .or(z.literal(''))
-    .superRefine((code, ctx) => {
-      if (code && code.length > 0 && !isValidISO639_3(code)) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: getISOCodeErrorMessage(code),
-        })
-      }
-    }),
-  endonym: z.string()
-    .min(1, 'Endonym is required')
-    .max(VALIDATION_LIMITS.ENDONYM_MAX_LENGTH, `Endonym must not exceed ${VALIDATION_LIMITS.ENDONYM_MAX_LENGTH} characters`),
-  language_family_id: z.string().uuid('Invalid language family ID').optional().or(z.literal('')),
-  country_of_origin_id: z.string().uuid('Invalid country ID').optional().or(z.literal('')),
-  speaker_count: z.number().int().min(0, 'Speaker count must be non-negative').optional(),
-
-  // Translations for each locale
-  name_en: z.string()
-    .min(1, 'English name is required')
-    .max(VALIDATION_LIMITS.NAME_MAX_LENGTH),
-  name_nl: z.string()
-    .max(VALIDATION_LIMITS.NAME_MAX_LENGTH)
-    .optional(),
-  name_fr: z.string()
-    .max(VALIDATION_LIMITS.NAME_MAX_LENGTH)
-    .optional(),
-
-  // Taxonomy assignments (array of taxonomy value IDs)
-  taxonomy_value_ids: z.array(z.string().uuid()).optional(),
-})
+const RAISE_EXCEPTION_CODE = 'P0001'
 
 /**
  * Type for language form input
  */
 export type LanguageInput = z.infer<typeof languageSchema>
 
+/**
+ * Build the language columns passed to create_language and update_language
+ *
+ * @param data - Validated language form data
+ * @returns Sanitized language columns
+ */
+function getLanguageColumns(data: LanguageInput) {
+  return {
+    iso_639_3_code: sanitizeISOCode(data.iso_639_3_code),
+    endonym: sanitizeText(data.endonym, VALIDATION_LIMITS.ENDONYM_MAX_LENGTH),
+    language_family_id: sanitizeUUID(data.language_family_id),
+    country_of_origin_id: sanitizeUUID(data.country_of_origin_id),
+    speaker_count: sanitizeNumber(data.speaker_count),
+  }
+}
+
+/**
+ * Build the translation rows passed to create_language and update_language
+ *
+ * @param data - Validated language form data
+ * @returns Sanitized names of the locales that have one
+ */
+function getTranslationRows(data: LanguageInput) {
+  return Object.entries(data.names).flatMap(([locale, name]) => {
+    const sanitized = sanitizeText(name, VALIDATION_LIMITS.NAME_MAX_LENGTH)
+    return sanitized ? [{ locale_code: locale, name: sanitized }] : []
+  })
+}
+
+/**
+ * Check the taxonomy values of a language against the rules of the city's taxonomy types
+ *
+ * @async
+ * @param supabase - Supabase client with the user's session
+ * @param cityId - UUID of the city
+ * @param valueIds - Taxonomy value IDs chosen for the language
+ * @throws {Error} Naming every broken rule, or if the taxonomy types cannot be loaded
+ */
+async function assertTaxonomyRules(supabase: SupabaseClient, cityId: string, valueIds: string[]): Promise<void> {
+  const { data: taxonomyTypes, error } = await supabase
+    .from('taxonomy_types')
+    .select(`
+      id,
+      slug,
+      is_required,
+      allow_multiple,
+      translations:taxonomy_type_translations (
+        locale_code,
+        name
+      ),
+      values:taxonomy_values (
+        id
+      )
+    `)
+    .eq('city_id', cityId)
+    .is('values.deleted_at', null)
+
+  if (error) {
+    console.error('Error fetching taxonomy rules:', error)
+    throw new Error(`Failed to fetch taxonomy types: ${error.message}`)
+  }
+
+  const rules: TaxonomyRuleType[] = (taxonomyTypes ?? []).map((type) => ({
+    id: type.id,
+    name: type.translations?.find((t: { locale_code: string }) => t.locale_code === 'en')?.name ?? type.slug,
+    is_required: type.is_required,
+    allow_multiple: type.allow_multiple,
+    valueIds: (type.values ?? []).map((value: { id: string }) => value.id),
+  }))
+
+  const violations = checkTaxonomyRules(rules, valueIds)
+  if (violations.length > 0) {
+    throw new Error(`Validation error: ${violations.join(', ')}`)
+  }
+}
+
 /**
  * Get all languages for a city with translations
  *
@@ -167,7 +216,7 @@ export async function getLanguages(citySlug: string, locale: string = 'en'): Pro
           is_ai_translated
         ),
         taxonomies:language_taxonomies (
-          taxonomy_value:taxonomy_values (
+          taxonomy_value:taxonomy_values!inner (
             id,
             slug,
             color_hex,
@@ -180,6 +229,8 @@ export async function getLanguages(citySlug: string, locale: string = 'en'): Pro
         )
       `)
       .eq('city_id', city.id)
+      .is('deleted_at', null)
+      .is('taxonomies.taxonomy_value.deleted_at', null)
       .order('endonym', { ascending: true })
 
     if (languagesError) {
@@ -364,7 +415,7 @@ export async function getLanguage(citySlug: string, id: string): Promise<any> {
         taxonomies:language_taxonomies (
           id,
           taxonomy_value_id,
-          taxonomy_value:taxonomy_values (
+          taxonomy_value:taxonomy_values!inner (
             id,
             slug,
             taxonomy_type_id,
@@ -378,6 +429,8 @@ export async function getLanguage(citySlug: string, id: string): Promise<any> {
         )
       `)
       .eq('id', id)
+      .is('deleted_at', null)
+      .is('taxonomies.taxonomy_value.deleted_at', null)
       .single()
 
     if (error) {
@@ -441,23 +494,19 @@ export async function createLanguage(citySlug: string, formData: LanguageInput):
       throw new Error('User not authenticated')
     }
 
-    // Sanitize inputs before database insert
-    const sanitizedData = {
-      city_id: city.id,
-      iso_639_3_code: sanitizeISOCode(validatedData.iso_639_3_code),
-      endonym: sanitizeText(validatedData.endonym, VALIDATION_LIMITS.ENDONYM_MAX_LENGTH),
-      language_family_id: sanitizeUUID(validatedData.language_family_id),
-      country_of_origin_id: sanitizeUUID(validatedData.country_of_origin_id),
-      speaker_count: sanitizeNumber(validatedData.speaker_count),
-      created_by: user.id,
-    }
+    // Only accept names in the locales the city has enabled
+    await assertCityLocales(supabase, city.id, 'names', Object.keys(validatedData.names))
 
-    // Create the language
-    const { data: language, error: languageError } = await supabase
-      .from('languages')
-      .insert(sanitizedData)
-      .select()
-      .single()
+    const taxonomyValueIds = sanitizeUUIDArray(validatedData.taxonomy_value_ids)
+    await assertTaxonomyRules(supabase, city.id, taxonomyValueIds)
+
+    // Create the language, its translations and taxonomy assignments in one transaction
+    const { data: language, error: languageError } = await supabase.rpc('create_language', {
+      p_city_id: city.id,
+      p_language: getLanguageColumns(validatedData),
+      p_translations: getTranslationRows(validatedData),
+      p_taxonomy_value_ids: taxonomyValueIds,
+    })
 
     if (languageError) {
       console.error('Error creating language:', {
@@ -472,132 +521,7 @@ export async function createLanguage(citySlug: string, formData: LanguageInput):
       throw new Error('Failed to create language - no data returned from database')
     }
 
-    // Create translations
-    const translations = []
-
-    // Sanitize translation names
-    if (validatedData.name_en) {
-      translations.push({
-        language_id: language.id,
-        locale_code: 'en',
-        name: sanitizeText(validatedData.name_en, VALIDATION_LIMITS.NAME_MAX_LENGTH),
-      })
-    }
-
-    if (validatedData.name_nl) {
-      translations.push({
-        language_id: language.id,
-        locale_code: 'nl',
-        name: sanitizeText(validatedData.name_nl, VALIDATION_LIMITS.NAME_MAX_LENGTH),
-      })
-    }
-
-    if (validatedData.name_fr) {
-      translations.push({
-        language_id: language.id,
-        locale_code: 'fr',
-        name: sanitizeText(validatedData.name_fr, VALIDATION_LIMITS.NAME_MAX_LENGTH),
-      })
-    }
-
-    if (translations.length > 0) {
-      const { error: translationsError } = await supabase
-        .from('language_translations')
-        .insert(translations)
-
-      if (translationsError) {
-        console.error('Error creating translations:', {
-          languageId: language.id,
-          error: translationsError,
-          timestamp: new Date().toISOString(),
-        })
-
-        // Rollback: delete the language
-        const { error: rollbackError } = await supabase
-          .from('languages')
-          .delete()
-          .eq('id', language.id)
-
-        if (rollbackError) {
-          // WARNING FIX 4: Improve rollback failure handling
-          console.error('CRITICAL: Rollback failed after translation error:', {
-            languageId: language.id,
-            rollbackError,
-            originalError: translationsError,
-            timestamp: new Date().toISOString(),
-          })
-          // Add audit note for manual cleanup
-          console.error('AUDIT: Manual cleanup required for orphaned language record:', {
-            languageId: language.id,
-            citySlug,
-            timestamp: new Date().toISOString(),
-            requiresCleanup: true,
-          })
-          throw new Error(
-            `Failed to create translations and rollback failed. ` +
-            `Manual cleanup required for language ID: ${language.id}. ` +
-            `Original error: ${translationsError.message}`
-          )
-        }
-
-        throw new Error(`Failed to create translations: ${translationsError.message}`)
-      }
-    }
-
-    // Create taxonomy assignments
-    if (validatedData.taxonomy_value_ids && validatedData.taxonomy_value_ids.length > 0) {
-      // Sanitize taxonomy value IDs
-      const sanitizedTaxonomyIds = sanitizeUUIDArray(validatedData.taxonomy_value_ids)
-
-      if (sanitizedTaxonomyIds.length > 0) {
-        const taxonomyAssignments = sanitizedTaxonomyIds.map(valueId => ({
-          language_id: language.id,
-          taxonomy_value_id: valueId,
-        }))
-
-        const { error: taxonomiesError } = await supabase
-          .from('language_taxonomies')
-          .insert(taxonomyAssignments)
-
-        if (taxonomiesError) {
-          console.error('Error creating taxonomy assignments:', {
-            languageId: language.id,
-            error: taxonomiesError,
-            timestamp: new Date().toISOString(),
-          })
-
-          // Rollback: delete the language (will cascade delete translations)
-          const { error: rollbackError } = await supabase
-            .from('languages')
-            .delete()
-            .eq('id', language.id)
-
-          if (rollbackError) {
-            // WARNING FIX 4: Improve rollback failure handling
-            console.error('CRITICAL: Rollback failed after taxonomy assignment error:', {
-              languageId: language.id,
-              rollbackError,
-              originalError: taxonomiesError,
-              timestamp: new Date().toISOString(),
-            })
-            // Add audit note for manual cleanup
-            console.error('AUDIT: Manual cleanup required for orphaned language record:', {
-              languageId: language.id,
-              citySlug,
-              timestamp: new Date().toISOString(),
-              requiresCleanup: true,
-            })
-            throw new Error(
-              `Failed to create taxonomy assignments and rollback failed. ` +
-              `Manual cleanup required for language ID: ${language.id}. ` +
-              `Original error: ${taxonomiesError.message}`
-            )
-          }
-
-          throw new Error(`Failed to create taxonomy assignments: ${taxonomiesError.message}`)
-        }
-      }
-    }
+    await recordRevision(supabase, 'language', language.id, 'create')
 
     // Revalidate the languages list page
     revalidatePath(`/[locale]/operator/${citySlug}/languages`)
@@ -651,111 +575,43 @@ export async function updateLanguage(citySlug: string, id: string, formData: Lan
 
     const supabase = await getServerSupabaseWithCookies(citySlug)
 
-    // Check if language exists
-    const { data: existingLanguage, error: fetchError } = await supabase
-      .from('languages')
-      .select('id, city_id')
-      .eq('id', id)
-      .single()
-
-    if (fetchError || !existingLanguage) {
-      throw new Error('Language not found')
-    }
-
-    // Update the language
-    const { data: language, error: languageError } = await supabase
-      .from('languages')
-      .update({
-        iso_639_3_code: validatedData.iso_639_3_code || null,
-        endonym: validatedData.endonym,
-        language_family_id: validatedData.language_family_id || null,
-        country_of_origin_id: validatedData.country_of_origin_id || null,
-        speaker_count: validatedData.speaker_count || null,
-      })
-      .eq('id', id)
-      .select()
+    // Get city ID
+    const { data: city, error: cityError } = await supabase
+      .from('cities')
+      .select('id')
+      .eq('slug', citySlug)
       .single()
 
-    if (languageError || !language) {
-      console.error('Error updating language:', languageError)
-      throw new Error(`Failed to update language: ${languageError?.message ?? 'Unknown error'}`)
-    }
-
-    // Update translations (delete and recreate for simplicity)
-    const { error: deleteTranslationsError } = await supabase
-      .from('language_translations')
-      .delete()
-      .eq('language_id', id)
-
-    if (deleteTranslationsError) {
-      console.error('Error deleting old translations:', deleteTranslationsError)
-      throw new Error(`Failed to update translations: ${deleteTranslationsError.message}`)
-    }
-
-    const translations = []
-
-    // CRITICAL FIX 1: Add sanitization to translation names
-    if (validatedData.name_en) {
-      translations.push({
-        language_id: id,
-        locale_code: 'en',
-        name: sanitizeText(validatedData.name_en, VALIDATION_LIMITS.NAME_MAX_LENGTH),
-      })
+    if (cityError || !city) {
+      throw new Error('City not found')
     }
 
-    if (validatedData.name_nl) {
-      translations.push({
-        language_id: id,
-        locale_code: 'nl',
-        name: sanitizeText(validatedData.name_nl, VALIDATION_LIMITS.NAME_MAX_LENGTH),
-      })
-    }
+    // Only accept names in the locales the city has enabled
+    await assertCityLocales(supabase, city.id, 'names', Object.keys(validatedData.names))
 
-    if (validatedData.name_fr) {
-      translations.push({
-        language_id: id,
-        locale_code: 'fr',
-        name: sanitizeText(validatedData.name_fr, VALIDATION_LIMITS.NAME_MAX_LENGTH),
-      })
-    }
+    const taxonomyValueIds = sanitizeUUIDArray(validatedData.taxonomy_value_ids)
+    await assertTaxonomyRules(supabase, city.id, taxonomyValueIds)
 
-    if (translations.length > 0) {
-      const { error: translationsError } = await supabase
-        .from('language_translations')
-        .insert(translations)
+    // Update the language, its names in the submitted locales and its taxonomy
+    // assignments in one transaction; names in other locales are kept
+    const { data: language, error: languageError } = await supabase.rpc('update_language', {
+      p_language_id: id,
+      p_language: getLanguageColumns(validatedData),
+      p_translations: getTranslationRows(validatedData),
+      p_taxonomy_value_ids: taxonomyValueIds,
+      p_locales: Object.keys(validatedData.names),
+    })
 
-      if (translationsError) {
-        console.error('Error creating new translations:', translationsError)
-        throw new Error(`Failed to update translations: ${translationsError.message}`)
-      }
+    if (languageError?.code === RAISE_EXCEPTION_CODE) {
+      throw new Error(languageError.message)
     }
 
-    // Update taxonomy assignments (delete and recreate)
-    const { error: deleteTaxonomiesError } = await supabase
-      .from('language_taxonomies')
-      .delete()
-      .eq('language_id', id)
-
-    if (deleteTaxonomiesError) {
-      console.error('Error deleting old taxonomy assignments:', deleteTaxonomiesError)
-      throw new Error(`Failed to update taxonomy assignments: ${deleteTaxonomiesError.message}`)
+    if (languageError || !language) {
+      console.error('Error updating language:', languageError)
+      throw new Error(`Failed to update language: ${languageError?.message ?? 'Unknown error'}`)
     }
 
-    if (validatedData.taxonomy_value_ids && validatedData.taxonomy_value_ids.length > 0) {
-      const taxonomyAssignments = validatedData.taxonomy_value_ids.map(valueId => ({
-        language_id: id,
-        taxonomy_value_id: valueId,
-      }))
-
-      const { error: taxonomiesError } = await supabase
-        .from('language_taxonomies')
-        .insert(taxonomyAssignments)
-
-      if (taxonomiesError) {
-        console.error('Error creating new taxonomy assignments:', taxonomiesError)
-        throw new Error(`Failed to update taxonomy assignments: ${taxonomiesError.message}`)
-      }
-    }
+    await recordRevision(supabase, 'language', id)
 
     // Revalidate the languages list page and detail page
     revalidatePath(`/[locale]/operator/${citySlug}/languages`)
@@ -782,7 +638,8 @@ export async function updateLanguage(citySlug: string, id: string, formData: Lan
 /**
  * Delete a language
  *
- * Note: This will cascade delete all translations, taxonomy assignments, and related data.
+ * Moves the language to the trash, together with its points and
+ * descriptions; it can be restored from there until it is purged.
  *
  * @async
  * @param citySlug - The city identifier
@@ -808,7 +665,7 @@ export async function deleteLanguage(citySlug: string, id: string): Promise<any>
 
     const supabase = await getServerSupabaseWithCookies(citySlug)
 
-    const { error } = await supabase.from('languages').delete().eq('id', id)
+    const { error } = await supabase.rpc('move_to_trash', { p_entity_type: 'language', p_entity_id: id })
 
     if (error) {
       console.error('Error deleting language:', error)
@@ -853,11 +710,11 @@ export async function getLanguageFamiliesForSelect(citySlug: string, locale: str
       .select(`
         id,
         slug,
-        translations:language_family_translations!inner (
+        translations:language_family_translations (
+          locale_code,
           name
         )
       `)
-      .eq('translations.locale_code', locale)
       .order('slug', { ascending: true })
 
     if (error) {
@@ -865,7 +722,10 @@ export async function getLanguageFamiliesForSelect(citySlug: string, locale: str
       throw new Error(`Failed to fetch language families: ${error.message}`)
     }
 
-    return families ?? []
+    return (families ?? []).map((family) => ({
+      ...family,
+      translations: pickTranslations(family.translations, locale),
+    }))
   } catch (error) {
     if (error instanceof Error) {
       throw error
@@ -903,11 +763,11 @@ export async function getCountriesForSelect(citySlug: string, locale: string = '
         id,
         iso_code_2,
         iso_code_3,
-        translations:country_translations!inner (
+        translations:country_translations (
+          locale_code,
           name
         )
       `)
-      .eq('translations.locale_code', locale)
       .order('iso_code_2', { ascending: true })
 
     if (error) {
@@ -915,7 +775,10 @@ export async function getCountriesForSelect(citySlug: string, locale: string = '
       throw new Error(`Failed to fetch countries: ${error.message}`)
     }
 
-    return countries ?? []
+    return (countries ?? []).map((country) => ({
+      ...country,
+      translations: pickTranslations(country.translations, locale),
+    }))
   } catch (error) {
     if (error instanceof Error) {
       throw error
@@ -965,7 +828,8 @@ export async function getTaxonomyValuesForSelect(citySlug: string, locale: strin
         slug,
         is_required,
         allow_multiple,
-        translations:taxonomy_type_translations!inner (
+        translations:taxonomy_type_translations (
+          locale_code,
           name
         ),
         values:taxonomy_values (
@@ -973,14 +837,14 @@ export async function getTaxonomyValuesForSelect(citySlug: string, locale: strin
           slug,
           color_hex,
           icon_name,
-          translations:taxonomy_value_translations!inner (
+          translations:taxonomy_value_translations (
+            locale_code,
             name
           )
         )
       `)
       .eq('city_id', city.id)
-      .eq('translations.locale_code', locale)
-      .eq('values.translations.locale_code', locale)
+      .is('values.deleted_at', null)
       .order('slug', { ascending: true })
 
     if (error) {
@@ -988,7 +852,14 @@ export async function getTaxonomyValuesForSelect(citySlug: string, locale: strin
       throw new Error(`Failed to fetch taxonomy values: ${error.message}`)
     }
 
-    return taxonomyTypes ?? []
+    return (taxonomyTypes ?? []).map((type) => ({
+      ...type,
+      translations: pickTranslations(type.translations, locale),
+      values: (type.values ?? []).map((value) => ({
+        ...value,
+        translations: pickTranslations(value.translations, locale),
+      })),
+    }))
   } catch (error) {
     if (error instanceof Error) {
       throw error
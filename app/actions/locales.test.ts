@@ -0,0 +1,73 @@
+/**
+ * Locale Server Actions Tests
+ *
+ * Tests for listing the enabled locales of a city.
+ *
+ * @module app/actions/locales.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getCityLocales } from './locales'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { createQuery } from '@/__tests__/helpers/supabase'
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(),
+}))
+
+describe('getCityLocales', () => {
+  let tables: Record<string, ReturnType<typeof createQuery>>
+  let supabase: {
+    auth: { getUser: ReturnType<typeof vi.fn> }
+    from: ReturnType<typeof vi.fn>
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    tables = {
+      cities: createQuery({ data: { id: 'city-1' }, error: null }),
+      city_locales: createQuery({
+        data: [
+          { locale_code: 'de', locale: { name: 'German', native_name: 'Deutsch' } },
+          { locale_code: 'en', locale: { name: 'English', native_name: 'English' } },
+        ],
+        error: null,
+      }),
+    }
+    supabase = {
+      auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'user-1' } } }) },
+      from: vi.fn((table: string) => tables[table]),
+    }
+    vi.mocked(getServerSupabaseWithCookies).mockResolvedValue(supabase as never)
+  })
+
+  it('should list the enabled locales of the city, default locale first', async () => {
+    const locales = await getCityLocales('amsterdam')
+
+    expect(tables.city_locales.eq).toHaveBeenCalledWith('city_id', 'city-1')
+    expect(locales).toEqual([
+      { code: 'en', name: 'English', nativeName: 'English' },
+      { code: 'de', name: 'German', nativeName: 'Deutsch' },
+    ])
+  })
+
+  it('should require a signed-in user', async () => {
+    supabase.auth.getUser.mockResolvedValue({ data: { user: null } })
+
+    await expect(getCityLocales('amsterdam')).rejects.toThrow('Authentication required')
+    expect(supabase.from).not.toHaveBeenCalled()
+  })
+
+  it('should report an unknown city', async () => {
+    tables.cities = createQuery({ data: null, error: null })
+
+    await expect(getCityLocales('atlantis')).rejects.toThrow('City not found')
+  })
+
+  it('should validate the city slug', async () => {
+    await expect(getCityLocales('Amsterdam!')).rejects.toThrow('Validation failed: Invalid city slug')
+    expect(getServerSupabaseWithCookies).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Locale Server Actions
+ *
+ * Server-side actions for the locales content is translated into. The
+ * forms of translated rows offer one name (and description) per locale the
+ * city has enabled, instead of a fixed list.
+ *
+ * This module provides:
+ * - getCityLocales: List the enabled locales of a city with their names
+ *
+ * Security features:
+ * - Runs with the user's session, so the RLS policies of city_locales apply
+ * - Input validation with Zod
+ *
+ * @module app/actions/locales
+ */
+
+'use server'
+
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getCityLocaleOptions } from '@/lib/i18n/active-locales'
+import type { LocaleOption } from '@/lib/i18n/config'
+import { z } from 'zod'
+
+const citySlugSchema = z.string().regex(/^[a-z0-9-]+$/, 'Invalid city slug')
+
+/**
+ * List the enabled locales of a city
+ *
+ * @param citySlug - City identifier slug
+ * @returns Promise resolving to the enabled locales, default locale first
+ * @throws Error if validation fails, the user is not signed in, the city
+ *   does not exist, or the fetch fails
+ */
+export async function getCityLocales(citySlug: string): Promise<LocaleOption[]> {
+  const result = citySlugSchema.safeParse(citySlug)
+  if (!result.success) {
+    throw new Error(`Validation failed: ${result.error.issues.map((issue) => issue.message).join(', ')}`)
+  }
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) {
+      throw new Error('Authentication required')
+    }
+
+    const { data: city, error } = await supabase.from('cities').select('id').eq('slug', citySlug).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch city: ${error.message}`)
+    }
+    if (!city) {
+      throw new Error('City not found')
+    }
+
+    return await getCityLocaleOptions(supabase, city.id)
+  } catch (error) {
+    console.error('Error fetching city locales:', error)
+    throw error instanceof Error ? error : new Error('Failed to fetch city locales')
+  }
+}
@@ -19,11 +19,13 @@ type MockFunction<T extends (...args: unknown[]) => unknown = (...args: unknown[
 interface QueryChain extends Record<string, MockFunction> {
   select: MockFunction
   eq: MockFunction
+  is: MockFunction
   single: MockFunction
   order: MockFunction
   insert: MockFunction
   update: MockFunction
   delete: MockFunction
+  in: MockFunction
 }
 
 interface AuthQuery {
@@ -35,20 +37,24 @@ const createMockSupabase = () => {
   const chain: QueryChain = {
     select: vi.fn().mockReturnThis(),
     eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockReturnThis(),
     single: vi.fn(),
     order: vi.fn().mockReturnThis(),
     insert: vi.fn().mockReturnThis(),
     update: vi.fn().mockReturnThis(),
     delete: vi.fn().mockReturnThis(),
+    in: vi.fn().mockReturnThis(),
   }
 
   const client: {
     auth: AuthQuery
     from: MockFunction
+    rpc: MockFunction
   } = {
     auth: {
       getUser: vi.fn(),
     },
+    rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
     from: vi.fn(() => {
       Object.keys(chain).forEach((key) => {
         if (vi.isMockFunction(chain[key])) {
@@ -77,6 +83,10 @@ vi.mock('next/cache', () => ({
   revalidatePath: vi.fn(),
 }))
 
+vi.mock('@/lib/i18n/active-locales', () => ({
+  assertCityLocales: vi.fn(),
+}))
+
 vi.mock('next/headers', () => ({
   cookies: vi.fn(() => ({
     get: vi.fn(),
@@ -118,6 +128,7 @@ describe('neighborhoods', () => {
       const neighborhoodsQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         order: vi.fn().mockResolvedValue({ data: mockNeighborhoods, error: null }),
       }
       mockSupabase.from.mockReturnValueOnce(neighborhoodsQuery)
@@ -152,6 +163,7 @@ describe('neighborhoods', () => {
       const neighborhoodsQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         order: vi.fn().mockResolvedValue({
           data: null,
           error: { message: 'Database error' },
@@ -188,6 +200,7 @@ describe('neighborhoods', () => {
       const neighborhoodQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         single: vi.fn().mockResolvedValue({
           data: mockNeighborhood,
           error: null,
@@ -213,6 +226,7 @@ describe('neighborhoods', () => {
       const neighborhoodQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         single: vi.fn().mockResolvedValue({ data: null, error: { message: 'Not found' } }),
       }
       mockSupabase.from.mockReturnValueOnce(cityQuery)
@@ -247,6 +261,7 @@ describe('neighborhoods', () => {
       const districtsQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         order: vi.fn().mockResolvedValue({
           data: mockDistricts,
           error: null,
@@ -285,10 +300,10 @@ describe('neighborhoods', () => {
         districtId: '123e4567-e89b-12d3-a456-426614174002',
         slug: 'new-neighborhood',
         is_active: true,
-        name_en: 'New Neighborhood',
-        description_en: 'A new neighborhood',
-        name_nl: 'Nieuwe Buurt',
-        description_nl: 'Een nieuwe buurt',
+        translations: {
+          en: { name: 'New Neighborhood', description: 'A new neighborhood' },
+          nl: { name: 'Nieuwe Buurt', description: 'Een nieuwe buurt' },
+        },
       }
 
       const mockCreatedNeighborhood = {
@@ -305,11 +320,13 @@ describe('neighborhoods', () => {
         const query = {
           select: vi.fn().mockReturnThis(),
           eq: vi.fn().mockReturnThis(),
+          is: vi.fn().mockReturnThis(),
           single: vi.fn().mockResolvedValue({ data: null, error: null }),
           order: vi.fn().mockResolvedValue({ data: [], error: null }),
           insert: vi.fn().mockReturnThis(),
           update: vi.fn().mockReturnThis(),
           delete: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
         }
 
         // 1st call: city access
@@ -363,8 +380,7 @@ describe('neighborhoods', () => {
         districtId: '123e4567-e89b-12d3-a456-426614174002',
         slug: 'english-only',
         is_active: true,
-        name_en: 'English Neighborhood',
-        description_en: 'English only',
+        translations: { en: { name: 'English Neighborhood', description: 'English only' } },
       }
 
       const mockCreatedNeighborhood = {
@@ -385,6 +401,7 @@ describe('neighborhoods', () => {
       const districtQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         single: vi.fn().mockResolvedValue({ data: { id: '123e4567-e89b-12d3-a456-426614174002' }, error: null }),
       }
       mockSupabase.from.mockReturnValueOnce(districtQuery)
@@ -417,7 +434,7 @@ describe('neighborhoods', () => {
           cityId: '123e4567-e89b-12d3-a456-426614174001',
           districtId: '123e4567-e89b-12d3-a456-426614174002',
           slug: 'test',
-          name_en: 'Test',
+          translations: { en: { name: 'Test' } },
         })
       ).rejects.toThrow('Unauthorized')
     })
@@ -435,7 +452,7 @@ describe('neighborhoods', () => {
           cityId: '123e4567-e89b-12d3-a456-426614174001',
           districtId: '123e4567-e89b-12d3-a456-426614174002',
           slug: 'test',
-          name_en: 'Test',
+          translations: { en: { name: 'Test' } },
         })
       ).rejects.toThrow('Insufficient permissions')
     })
@@ -451,6 +468,7 @@ describe('neighborhoods', () => {
       const districtQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         single: vi.fn().mockResolvedValue({ data: null, error: null }),
       }
       mockSupabase.from.mockReturnValueOnce(districtQuery)
@@ -460,7 +478,7 @@ describe('neighborhoods', () => {
           cityId: '123e4567-e89b-12d3-a456-426614174001',
           districtId: '123e4567-e89b-12d3-a456-426614174999', // Valid UUID format but doesn't exist
           slug: 'test',
-          name_en: 'Test',
+          translations: { en: { name: 'Test' } },
         })
       ).rejects.toThrow('Invalid district selected')
     })
@@ -470,7 +488,7 @@ describe('neighborhoods', () => {
         cityId: '123e4567-e89b-12d3-a456-426614174001',
         districtId: '123e4567-e89b-12d3-a456-426614174002',
         slug: 'test',
-        name_en: 'Test',
+        translations: { en: { name: 'Test' } },
       }
 
       const mockCreatedNeighborhood = { id: '123e4567-e89b-12d3-a456-426614174010', city_id: '123e4567-e89b-12d3-a456-426614174001', district_id: '123e4567-e89b-12d3-a456-426614174002', slug: 'test', is_active: true }
@@ -481,11 +499,13 @@ describe('neighborhoods', () => {
         const query = {
           select: vi.fn().mockReturnThis(),
           eq: vi.fn().mockReturnThis(),
+          is: vi.fn().mockReturnThis(),
           single: vi.fn().mockResolvedValue({ data: null, error: null }),
           order: vi.fn().mockResolvedValue({ data: [], error: null }),
           insert: vi.fn().mockReturnThis(),
           update: vi.fn().mockReturnThis(),
           delete: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
         }
 
         // 1st call: city access
@@ -543,8 +563,7 @@ describe('neighborhoods', () => {
         districtId: '123e4567-e89b-12d3-a456-426614174003',
         slug: 'updated-neighborhood',
         is_active: false,
-        name_en: 'Updated Neighborhood',
-        description_en: 'Updated description',
+        translations: { en: { name: 'Updated Neighborhood', description: 'Updated description' } },
       }
 
       const cityAccessQuery = {
@@ -557,6 +576,7 @@ describe('neighborhoods', () => {
       const districtQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         single: vi.fn().mockResolvedValue({ data: { id: '123e4567-e89b-12d3-a456-426614174003' }, error: null }),
       }
       mockSupabase.from.mockReturnValueOnce(districtQuery)
@@ -567,20 +587,56 @@ describe('neighborhoods', () => {
       }
       mockSupabase.from.mockReturnValueOnce(updateQuery)
 
-      const deleteQuery = {
-        delete: vi.fn().mockReturnThis(),
+      const result = await updateNeighborhood('amsterdam', '123e4567-e89b-12d3-a456-426614174010', neighborhoodInput)
+
+      expect(result).toEqual({ success: true })
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('save_translations', {
+        p_entity_type: 'neighborhood',
+        p_entity_id: '123e4567-e89b-12d3-a456-426614174010',
+        p_translations: [{ locale_code: 'en', name: 'Updated Neighborhood', description: 'Updated description' }],
+        p_locales: ['en'],
+      })
+    })
+
+    it('should throw error when saving the boundary fails', async () => {
+      mockSupabase.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { city_id: '123e4567-e89b-12d3-a456-426614174001' }, error: null }),
+      })
+      mockSupabase.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: '123e4567-e89b-12d3-a456-426614174003' }, error: null }),
+      })
+      mockSupabase.from.mockReturnValueOnce({
+        update: vi.fn().mockReturnThis(),
         eq: vi.fn().mockResolvedValue({ error: null }),
-      }
-      mockSupabase.from.mockReturnValueOnce(deleteQuery)
+      })
+      // Translations are saved, the boundary is not
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: null })
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'Neighborhood not found' } })
 
-      const insertQuery = {
-        insert: vi.fn().mockReturnThis(),
+      const boundary = {
+        type: 'MultiPolygon' as const,
+        coordinates: [[[[4.88, 52.36], [4.92, 52.36], [4.92, 52.38], [4.88, 52.38], [4.88, 52.36]]]],
       }
-      mockSupabase.from.mockReturnValueOnce(insertQuery)
 
-      const result = await updateNeighborhood('amsterdam', '123e4567-e89b-12d3-a456-426614174010', neighborhoodInput)
+      await expect(
+        updateNeighborhood('amsterdam', '123e4567-e89b-12d3-a456-426614174010', {
+          cityId: '123e4567-e89b-12d3-a456-426614174001',
+          districtId: '123e4567-e89b-12d3-a456-426614174003',
+          slug: 'jordaan',
+          translations: { en: { name: 'Jordaan' } },
+          boundary,
+        })
+      ).rejects.toThrow('Failed to save boundary')
 
-      expect(result).toEqual({ success: true })
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('set_neighborhood_boundary', {
+        p_neighborhood_id: '123e4567-e89b-12d3-a456-426614174010',
+        p_boundary: boundary,
+      })
     })
 
     it('should throw error when user is not authenticated', async () => {
@@ -591,7 +647,7 @@ describe('neighborhoods', () => {
           cityId: '123e4567-e89b-12d3-a456-426614174001',
           districtId: '123e4567-e89b-12d3-a456-426614174002',
           slug: 'test',
-          name_en: 'Test',
+          translations: { en: { name: 'Test' } },
         })
       ).rejects.toThrow('Unauthorized')
     })
@@ -601,7 +657,7 @@ describe('neighborhoods', () => {
         cityId: '123e4567-e89b-12d3-a456-426614174001',
         districtId: '123e4567-e89b-12d3-a456-426614174002',
         slug: 'test',
-        name_en: 'Test',
+        translations: { en: { name: 'Test' } },
       }
 
       let callCount = 0
@@ -610,11 +666,13 @@ describe('neighborhoods', () => {
         const query = {
           select: vi.fn().mockReturnThis(),
           eq: vi.fn().mockReturnThis(),
+          is: vi.fn().mockReturnThis(),
           single: vi.fn().mockResolvedValue({ data: null, error: null }),
           order: vi.fn().mockResolvedValue({ data: [], error: null }),
           insert: vi.fn().mockReturnThis(),
           update: vi.fn().mockReturnThis(),
           delete: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
         }
 
         // 1st call: city access
@@ -636,21 +694,9 @@ describe('neighborhoods', () => {
           return query
         }
 
-        // 4th call: delete existing translations
-        if (callCount === 4 && table === 'neighborhood_translations') {
-          query.delete = vi.fn().mockReturnThis()
-          query.eq = vi.fn().mockResolvedValue({ error: null })
-          return query
-        }
-
-        // 5th call: insert new translations (should fail)
-        if (callCount === 5 && table === 'neighborhood_translations') {
-          query.insert = vi.fn().mockResolvedValue({ error: { message: 'Translation update failed' } })
-          return query
-        }
-
         return query
       })
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'Translation update failed' } })
 
       await expect(updateNeighborhood('amsterdam', '123e4567-e89b-12d3-a456-426614174010', neighborhoodInput)).rejects.toThrow(
         'Failed to update translations'
@@ -665,17 +711,15 @@ describe('neighborhoods', () => {
       })
     })
 
-    it('should delete a neighborhood successfully', async () => {
-      mockSupabase.from.mockReturnValue({
-        delete: vi.fn().mockReturnValue({
-          eq: vi.fn().mockResolvedValue({ error: null }),
-        }),
-      })
-
+    it('should move the neighborhood to the trash', async () => {
       const result = await deleteNeighborhood('amsterdam', 'neighborhood-1')
 
       expect(result).toEqual({ success: true })
-      expect(mockSupabase.from).toHaveBeenCalledWith('neighborhoods')
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('move_to_trash', {
+        p_entity_type: 'neighborhood',
+        p_entity_id: 'neighborhood-1',
+      })
+      expect(mockSupabase.from).not.toHaveBeenCalled()
     })
 
     it('should throw error when user is not authenticated', async () => {
@@ -685,11 +729,7 @@ describe('neighborhoods', () => {
     })
 
     it('should throw error when delete operation fails', async () => {
-      mockSupabase.from.mockReturnValue({
-        delete: vi.fn().mockReturnValue({
-          eq: vi.fn().mockResolvedValue({ error: { message: 'Delete failed' } }),
-        }),
-      })
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'Delete failed' } })
 
       await expect(deleteNeighborhood('amsterdam', 'neighborhood-1')).rejects.toThrow('Failed to delete neighborhood')
     })
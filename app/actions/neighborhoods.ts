@@ -10,6 +10,9 @@
 import { revalidatePath } from 'next/cache'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
 import { z } from 'zod'
+import { boundarySchema } from '@/lib/map/boundary-files'
+import { getTranslationRows, translationsSchema } from '@/lib/validations/translations'
+import { assertCityLocales } from '@/lib/i18n/active-locales'
 
 /**
  * Validation schema for neighborhood creation/update
@@ -21,13 +24,10 @@ const neighborhoodSchema = z.object({
     .string()
     .min(1, 'Slug is required')
     .regex(/^[a-z0-9-]+$/, 'Slug must contain only lowercase letters, numbers, and hyphens'),
-  // Translations
-  name_en: z.string().min(1, 'English name is required'),
-  description_en: z.string().optional(),
-  name_nl: z.string().optional(),
-  description_nl: z.string().optional(),
-  name_fr: z.string().optional(),
-  description_fr: z.string().optional(),
+  // Name and description per locale of the city
+  translations: translationsSchema,
+  // Boundary: MultiPolygon to set, null to remove, omitted to keep unchanged
+  boundary: boundarySchema.nullable().optional(),
 })
 
 /**
@@ -91,6 +91,7 @@ export async function getNeighborhoods(citySlug: string) {
         )
       `)
       .eq('district.city_id', city.id)
+      .is('deleted_at', null)
       .order('created_at', { ascending: true })
 
     if (neighborhoodsError) {
@@ -159,6 +160,7 @@ export async function getNeighborhood(citySlug: string, neighborhoodId: string)
         slug,
         created_at,
         updated_at,
+        has_boundary,
         translations:neighborhood_translations (
           id,
           locale_code,
@@ -167,6 +169,7 @@ export async function getNeighborhood(citySlug: string, neighborhoodId: string)
         )
       `)
       .eq('id', neighborhoodId)
+      .is('deleted_at', null)
       .single()
 
     if (neighborhoodError) {
@@ -226,6 +229,7 @@ export async function getDistrictsForNeighborhood(citySlug: string) {
         )
       `)
       .eq('city_id', city.id)
+      .is('deleted_at', null)
       .order('created_at', { ascending: true })
 
     if (districtsError) {
@@ -276,12 +280,16 @@ export async function createNeighborhood(citySlug: string, input: NeighborhoodIn
     throw new Error('Insufficient permissions')
   }
 
+  // Only accept translations in the locales the city has enabled
+  await assertCityLocales(supabase, validatedInput.cityId, 'translations', Object.keys(validatedInput.translations))
+
   // Verify district belongs to this city
   const { data: districtCheck } = await supabase
     .from('districts')
     .select('id')
     .eq('id', validatedInput.districtId)
     .eq('city_id', validatedInput.cityId)
+    .is('deleted_at', null)
     .single()
 
   if (!districtCheck) {
@@ -304,37 +312,10 @@ export async function createNeighborhood(citySlug: string, input: NeighborhoodIn
   }
 
   // Insert translations
-  const translations = []
-
-  // English translation (required)
-  if (validatedInput.name_en) {
-    translations.push({
-      neighborhood_id: neighborhood.id,
-      locale_code: 'en',
-      name: validatedInput.name_en,
-      description: validatedInput.description_en || null,
-    })
-  }
-
-  // Dutch translation (optional)
-  if (validatedInput.name_nl) {
-    translations.push({
-      neighborhood_id: neighborhood.id,
-      locale_code: 'nl',
-      name: validatedInput.name_nl,
-      description: validatedInput.description_nl || null,
-    })
-  }
-
-  // French translation (optional)
-  if (validatedInput.name_fr) {
-    translations.push({
-      neighborhood_id: neighborhood.id,
-      locale_code: 'fr',
-      name: validatedInput.name_fr,
-      description: validatedInput.description_fr || null,
-    })
-  }
+  const translations = getTranslationRows(validatedInput.translations).map((translation) => ({
+    neighborhood_id: neighborhood.id,
+    ...translation,
+  }))
 
   if (translations.length > 0) {
     const { error: translationError } = await supabase
@@ -349,6 +330,20 @@ export async function createNeighborhood(citySlug: string, input: NeighborhoodIn
     }
   }
 
+  if (validatedInput.boundary) {
+    const { error: boundaryError } = await supabase.rpc('set_neighborhood_boundary', {
+      p_neighborhood_id: neighborhood.id,
+      p_boundary: validatedInput.boundary,
+    })
+
+    if (boundaryError) {
+      console.error('Error saving neighborhood boundary:', boundaryError)
+      // Rollback neighborhood creation
+      await supabase.from('neighborhoods').delete().eq('id', neighborhood.id)
+      throw new Error('Failed to save boundary')
+    }
+  }
+
   revalidatePath(`/${citySlug}/operator/neighborhoods`)
   return neighborhood
 }
@@ -392,12 +387,16 @@ export async function updateNeighborhood(
     throw new Error('Insufficient permissions')
   }
 
+  // Only accept translations in the locales the city has enabled
+  await assertCityLocales(supabase, validatedInput.cityId, 'translations', Object.keys(validatedInput.translations))
+
   // Verify district belongs to this city
   const { data: districtCheck } = await supabase
     .from('districts')
     .select('id')
     .eq('id', validatedInput.districtId)
     .eq('city_id', validatedInput.cityId)
+    .is('deleted_at', null)
     .single()
 
   if (!districtCheck) {
@@ -418,53 +417,29 @@ export async function updateNeighborhood(
     throw new Error('Failed to update neighborhood')
   }
 
-  // Delete existing translations
-  await supabase
-    .from('neighborhood_translations')
-    .delete()
-    .eq('neighborhood_id', neighborhoodId)
-
-  // Insert updated translations
-  const translations = []
-
-  // English translation (required)
-  if (validatedInput.name_en) {
-    translations.push({
-      neighborhood_id: neighborhoodId,
-      locale_code: 'en',
-      name: validatedInput.name_en,
-      description: validatedInput.description_en || null,
-    })
+  // Save the translations of the submitted locales; other locales are kept,
+  // and so are the AI and review columns of translations left unchanged
+  const { error: translationError } = await supabase.rpc('save_translations', {
+    p_entity_type: 'neighborhood',
+    p_entity_id: neighborhoodId,
+    p_translations: getTranslationRows(validatedInput.translations),
+    p_locales: Object.keys(validatedInput.translations),
+  })
+
+  if (translationError) {
+    console.error('Error updating translations:', translationError)
+    throw new Error('Failed to update translations')
   }
 
-  // Dutch translation (optional)
-  if (validatedInput.name_nl) {
-    translations.push({
-      neighborhood_id: neighborhoodId,
-      locale_code: 'nl',
-      name: validatedInput.name_nl,
-      description: validatedInput.description_nl || null,
+  if (validatedInput.boundary !== undefined) {
+    const { error: boundaryError } = await supabase.rpc('set_neighborhood_boundary', {
+      p_neighborhood_id: neighborhoodId,
+      p_boundary: validatedInput.boundary,
     })
-  }
-
-  // French translation (optional)
-  if (validatedInput.name_fr) {
-    translations.push({
-      neighborhood_id: neighborhoodId,
-      locale_code: 'fr',
-      name: validatedInput.name_fr,
-      description: validatedInput.description_fr || null,
-    })
-  }
 
-  if (translations.length > 0) {
-    const { error: translationError } = await supabase
-      .from('neighborhood_translations')
-      .insert(translations)
-
-    if (translationError) {
-      console.error('Error updating translations:', translationError)
-      throw new Error('Failed to update translations')
+    if (boundaryError) {
+      console.error('Error saving neighborhood boundary:', boundaryError)
+      throw new Error('Failed to save boundary')
     }
   }
 
@@ -476,6 +451,9 @@ export async function updateNeighborhood(
 /**
  * Delete a neighborhood
  *
+ * Moves the neighborhood to the trash, together with its descriptions; it
+ * can be restored from there until it is purged.
+ *
  * @async
  * @param citySlug - The city identifier
  * @param neighborhoodId - The neighborhood identifier
@@ -493,8 +471,10 @@ export async function deleteNeighborhood(citySlug: string, neighborhoodId: strin
     throw new Error('Unauthorized')
   }
 
-  // Delete neighborhood (translations will be deleted via foreign key cascade)
-  const { error } = await supabase.from('neighborhoods').delete().eq('id', neighborhoodId)
+  const { error } = await supabase.rpc('move_to_trash', {
+    p_entity_type: 'neighborhood',
+    p_entity_id: neighborhoodId,
+  })
 
   if (error) {
     console.error('Error deleting neighborhood:', error)
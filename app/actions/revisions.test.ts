@@ -0,0 +1,165 @@
+/**
+ * Revision Server Actions Tests
+ *
+ * Tests for listing the versions of languages and descriptions, listing
+ * deleted ones and restoring a version.
+ *
+ * @module app/actions/revisions.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { revalidatePath } from 'next/cache'
+import { getRevisions, getDeletedEntities, restoreRevision } from './revisions'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { createQuery } from '@/__tests__/helpers/supabase'
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock('@/lib/database/client', () => ({
+  getDatabaseAdminClient: vi.fn(),
+}))
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(),
+}))
+
+const USER_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c01'
+const LANGUAGE_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c02'
+const REVISION_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c03'
+
+const snapshot = {
+  language: { id: LANGUAGE_ID, city_id: 'city-1', endonym: 'Türkçe' },
+  translations: [],
+  taxonomy_value_ids: [],
+  points: [],
+}
+
+const revisionRow = {
+  id: REVISION_ID,
+  entity_id: LANGUAGE_ID,
+  revision: 2,
+  reason: 'delete',
+  snapshot,
+  created_by: USER_ID,
+  created_at: '2025-03-01T10:00:00Z',
+}
+
+describe('revision actions', () => {
+  let tables: Record<string, ReturnType<typeof createQuery>>
+  let session: {
+    auth: { getUser: ReturnType<typeof vi.fn> }
+    from: ReturnType<typeof vi.fn>
+    rpc: ReturnType<typeof vi.fn>
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    tables = {
+      revisions: createQuery({ data: [revisionRow], error: null }),
+      cities: createQuery({ data: { id: 'city-1' }, error: null }),
+    }
+    session = {
+      auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: USER_ID } } }) },
+      from: vi.fn((table: string) => tables[table]),
+      rpc: vi.fn().mockResolvedValue({ data: [revisionRow], error: null }),
+    }
+    vi.mocked(getServerSupabaseWithCookies).mockResolvedValue(session as never)
+
+    const profiles = createQuery({ data: [{ id: USER_ID, full_name: 'Alice', email: 'alice@example.com' }], error: null })
+    vi.mocked(getDatabaseAdminClient).mockReturnValue({ from: vi.fn(() => profiles) } as never)
+  })
+
+  describe('getRevisions', () => {
+    it('should return the revisions of an entity with their authors', async () => {
+      const revisions = await getRevisions('amsterdam', 'language', LANGUAGE_ID)
+
+      expect(tables.revisions.eq).toHaveBeenCalledWith('entity_type', 'language')
+      expect(tables.revisions.eq).toHaveBeenCalledWith('entity_id', LANGUAGE_ID)
+      expect(tables.revisions.order).toHaveBeenCalledWith('revision', { ascending: false })
+      expect(revisions).toEqual([
+        {
+          id: REVISION_ID,
+          revision: 2,
+          reason: 'delete',
+          createdAt: '2025-03-01T10:00:00Z',
+          authorName: 'Alice',
+          snapshot,
+        },
+      ])
+    })
+
+    it('should reject invalid input and anonymous users', async () => {
+      await expect(getRevisions('amsterdam', 'point' as never, LANGUAGE_ID)).rejects.toThrow('Validation failed')
+      await expect(getRevisions('amsterdam', 'language', 'not-a-uuid')).rejects.toThrow('Validation failed')
+
+      session.auth.getUser.mockResolvedValue({ data: { user: null } })
+      await expect(getRevisions('amsterdam', 'language', LANGUAGE_ID)).rejects.toThrow('Authentication required')
+    })
+  })
+
+  describe('getDeletedEntities', () => {
+    it('should return the deleted entities of the city', async () => {
+      const deleted = await getDeletedEntities('amsterdam', 'language')
+
+      expect(tables.cities.eq).toHaveBeenCalledWith('slug', 'amsterdam')
+      expect(session.rpc).toHaveBeenCalledWith('get_deleted_revisions', {
+        p_city_id: 'city-1',
+        p_entity_type: 'language',
+      })
+      expect(deleted).toEqual([
+        {
+          entityId: LANGUAGE_ID,
+          revisionId: REVISION_ID,
+          deletedAt: '2025-03-01T10:00:00Z',
+          deletedByName: 'Alice',
+          snapshot,
+        },
+      ])
+    })
+  })
+
+  describe('restoreRevision', () => {
+    beforeEach(() => {
+      tables.revisions = createQuery({ data: { entity_type: 'language' }, error: null })
+      session.rpc.mockResolvedValue({ data: LANGUAGE_ID, error: null })
+    })
+
+    it('should restore the revision and refresh the pages', async () => {
+      const result = await restoreRevision('amsterdam', REVISION_ID)
+
+      expect(session.rpc).toHaveBeenCalledWith('restore_revision', { p_revision_id: REVISION_ID })
+      expect(result).toEqual({ entityType: 'language', entityId: LANGUAGE_ID })
+      expect(revalidatePath).toHaveBeenCalledWith('/[locale]/operator/[citySlug]/languages', 'page')
+      expect(revalidatePath).toHaveBeenCalledWith('/[locale]/operator/[citySlug]/language-points', 'page')
+    })
+
+    it('should report the reason a restore was refused', async () => {
+      session.rpc.mockResolvedValue({
+        data: null,
+        error: { code: 'P0001', message: 'Restore the language of this description first' },
+      })
+
+      await expect(restoreRevision('amsterdam', REVISION_ID)).rejects.toThrow(
+        'Restore the language of this description first'
+      )
+      expect(revalidatePath).not.toHaveBeenCalled()
+    })
+
+    it('should hide unexpected database errors', async () => {
+      session.rpc.mockResolvedValue({ data: null, error: { code: '42501', message: 'permission denied' } })
+
+      await expect(restoreRevision('amsterdam', REVISION_ID)).rejects.toThrow('Failed to restore revision')
+    })
+
+    it('should report unknown revisions', async () => {
+      tables.revisions = createQuery({ data: null, error: null })
+
+      await expect(restoreRevision('amsterdam', REVISION_ID)).rejects.toThrow('Revision not found')
+      expect(session.rpc).not.toHaveBeenCalled()
+    })
+  })
+})
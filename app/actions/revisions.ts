@@ -0,0 +1,312 @@
+/**
+ * Revision Server Actions
+ *
+ * Server-side actions for the version history of languages and
+ * descriptions.
+ *
+ * This module provides:
+ * - getRevisions: List the saved versions of a language or description
+ * - getDeletedEntities: List the deleted languages or descriptions of a city
+ * - restoreRevision: Put a language or description back in an earlier state,
+ *   including one that was deleted
+ *
+ * Revisions are written by the database (see lib/revisions/record and the
+ * save_revision function); there are no actions to change them.
+ *
+ * Security features:
+ * - Queries run with the user's session, so the revisions RLS policy
+ *   limits them to the cities the user works on
+ * - restore_revision checks city access again in the database
+ * - Input validation with Zod
+ *
+ * @module app/actions/revisions
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import {
+  REVISION_ENTITY_TYPES,
+  type RevisionEntityType,
+  type RevisionReason,
+  type RevisionSnapshot,
+} from '@/lib/revisions/snapshots'
+import { z } from 'zod'
+
+/**
+ * Postgres error code of RAISE EXCEPTION; its messages are meant for users
+ */
+const RAISE_EXCEPTION_CODE = 'P0001'
+
+const entityTypeSchema = z.enum(REVISION_ENTITY_TYPES as [RevisionEntityType, ...RevisionEntityType[]])
+
+const entitySchema = z.object({
+  citySlug: z.string().regex(/^[a-z0-9-]+$/, 'Invalid city slug'),
+  entityType: entityTypeSchema,
+  entityId: z.string().uuid('Invalid ID'),
+})
+
+const deletedEntitiesSchema = entitySchema.pick({ citySlug: true, entityType: true })
+
+const restoreSchema = z.object({
+  citySlug: entitySchema.shape.citySlug,
+  revisionId: z.string().uuid('Invalid revision ID'),
+})
+
+/**
+ * Saved version of a language or description
+ */
+export interface Revision {
+  id: string
+  revision: number
+  reason: RevisionReason
+  createdAt: string
+  /** Name or email of the author; null for system changes or unknown users */
+  authorName: string | null
+  snapshot: RevisionSnapshot
+}
+
+/**
+ * Language or description that no longer exists
+ */
+export interface DeletedEntity {
+  entityId: string
+  /** The revision saved when it was deleted */
+  revisionId: string
+  deletedAt: string
+  deletedByName: string | null
+  snapshot: RevisionSnapshot
+}
+
+interface RevisionRow {
+  id: string
+  entity_id: string
+  revision: number
+  reason: RevisionReason
+  snapshot: RevisionSnapshot
+  created_by: string | null
+  created_at: string
+}
+
+/**
+ * Throw a validation error for a failed Zod parse
+ */
+function assertValid<T>(result: z.ZodSafeParseResult<T>): T {
+  if (!result.success) {
+    const errors = result.error.issues.map((issue) => issue.message).join(', ')
+    throw new Error(`Validation failed: ${errors}`)
+  }
+  return result.data
+}
+
+/**
+ * Get the names of revision authors, by ID
+ *
+ * Authors need not be members of the city, so their profiles may be hidden
+ * from the user by RLS; they are read with the admin client.
+ */
+async function getAuthorNames(rows: RevisionRow[]): Promise<Map<string, string>> {
+  const authorIds = [...new Set(rows.map((row) => row.created_by).filter((id): id is string => Boolean(id)))]
+  const names = new Map<string, string>()
+
+  if (authorIds.length === 0) {
+    return names
+  }
+
+  const { data: profiles, error } = await getDatabaseAdminClient('system')
+    .from('user_profiles')
+    .select('id, full_name, email')
+    .in('id', authorIds)
+
+  if (error) {
+    throw new Error(`Failed to fetch user profiles: ${error.message}`)
+  }
+
+  for (const profile of profiles ?? []) {
+    names.set(profile.id, profile.full_name || profile.email)
+  }
+
+  return names
+}
+
+/**
+ * Get the saved versions of a language or description, newest first
+ *
+ * Also works for deleted entities: their last revision is the state in
+ * which they were deleted.
+ *
+ * @param citySlug - City identifier slug
+ * @param entityType - 'language' or 'description'
+ * @param entityId - UUID of the language or description
+ * @returns Promise resolving to the revisions; empty when there are none
+ *   or the user cannot see them
+ * @throws Error if validation fails, the user is not signed in, or the fetch fails
+ */
+export async function getRevisions(
+  citySlug: string,
+  entityType: RevisionEntityType,
+  entityId: string
+): Promise<Revision[]> {
+  assertValid(entitySchema.safeParse({ citySlug, entityType, entityId }))
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) {
+      throw new Error('Authentication required')
+    }
+
+    const { data, error } = await supabase
+      .from('revisions')
+      .select('id, entity_id, revision, reason, snapshot, created_by, created_at')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('revision', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch revisions: ${error.message}`)
+    }
+
+    const rows = (data ?? []) as RevisionRow[]
+    const authorNames = await getAuthorNames(rows)
+
+    return rows.map((row) => ({
+      id: row.id,
+      revision: row.revision,
+      reason: row.reason,
+      createdAt: row.created_at,
+      authorName: row.created_by ? authorNames.get(row.created_by) ?? null : null,
+      snapshot: row.snapshot,
+    }))
+  } catch (error) {
+    console.error('Error fetching revisions:', error)
+    throw error instanceof Error ? error : new Error('Failed to fetch revisions')
+  }
+}
+
+/**
+ * Get the languages or descriptions of a city that have been deleted
+ *
+ * @param citySlug - City identifier slug
+ * @param entityType - 'language' or 'description'
+ * @returns Promise resolving to the deleted entities, most recently deleted first
+ * @throws Error if validation fails, the user is not signed in, the city
+ *   does not exist, or the fetch fails
+ */
+export async function getDeletedEntities(
+  citySlug: string,
+  entityType: RevisionEntityType
+): Promise<DeletedEntity[]> {
+  assertValid(deletedEntitiesSchema.safeParse({ citySlug, entityType }))
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) {
+      throw new Error('Authentication required')
+    }
+
+    const { data: city, error: cityError } = await supabase
+      .from('cities')
+      .select('id')
+      .eq('slug', citySlug)
+      .maybeSingle()
+
+    if (cityError) {
+      throw new Error(`Failed to fetch city: ${cityError.message}`)
+    }
+    if (!city) {
+      throw new Error('City not found')
+    }
+
+    const { data, error } = await supabase.rpc('get_deleted_revisions', {
+      p_city_id: city.id,
+      p_entity_type: entityType,
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch deleted ${entityType}s: ${error.message}`)
+    }
+
+    const rows = (data ?? []) as RevisionRow[]
+    const authorNames = await getAuthorNames(rows)
+
+    return rows.map((row) => ({
+      entityId: row.entity_id,
+      revisionId: row.id,
+      deletedAt: row.created_at,
+      deletedByName: row.created_by ? authorNames.get(row.created_by) ?? null : null,
+      snapshot: row.snapshot,
+    }))
+  } catch (error) {
+    console.error('Error fetching deleted entities:', error)
+    throw error instanceof Error ? error : new Error('Failed to fetch deleted entities')
+  }
+}
+
+/**
+ * Restore a language or description to a revision
+ *
+ * The current state is kept as a revision of its own, so the restore can
+ * be undone. A deleted language comes back with its points and with the
+ * descriptions deleted together with it.
+ *
+ * @param citySlug - City identifier slug
+ * @param revisionId - UUID of the revision to restore
+ * @returns Promise resolving to the type and ID of the restored entity
+ * @throws Error if validation fails, the user does not work on the city,
+ *   or the restore fails
+ */
+export async function restoreRevision(
+  citySlug: string,
+  revisionId: string
+): Promise<{ entityType: RevisionEntityType; entityId: string }> {
+  assertValid(restoreSchema.safeParse({ citySlug, revisionId }))
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+
+    const { data: revision, error: revisionError } = await supabase
+      .from('revisions')
+      .select('entity_type')
+      .eq('id', revisionId)
+      .maybeSingle()
+
+    if (revisionError) {
+      throw new Error(`Failed to fetch revision: ${revisionError.message}`)
+    }
+    if (!revision) {
+      throw new Error('Revision not found')
+    }
+
+    const { data: entityId, error } = await supabase.rpc('restore_revision', { p_revision_id: revisionId })
+
+    if (error) {
+      throw new Error(error.code === RAISE_EXCEPTION_CODE ? error.message : 'Failed to restore revision')
+    }
+
+    const entityType = revision.entity_type as RevisionEntityType
+    const section = entityType === 'language' ? 'languages' : 'descriptions'
+
+    revalidatePath(`/[locale]/operator/[citySlug]/${section}`, 'page')
+    revalidatePath(`/[locale]/operator/[citySlug]/${section}/[id]`, 'page')
+    revalidatePath(`/[locale]/operator/[citySlug]/${section}/[id]/history`, 'page')
+    if (entityType === 'language') {
+      revalidatePath('/[locale]/operator/[citySlug]/descriptions', 'page')
+      revalidatePath('/[locale]/operator/[citySlug]/language-points', 'page')
+    }
+
+    return { entityType, entityId: entityId as string }
+  } catch (error) {
+    console.error('Error restoring revision:', error)
+    throw error instanceof Error ? error : new Error('Failed to restore revision')
+  }
+}
@@ -10,6 +10,7 @@ import {
   createTaxonomyType,
   updateTaxonomyType,
   deleteTaxonomyType,
+  getTaxonomyRuleViolations,
 } from './taxonomy-types'
 
 // Mock Supabase client with proper chaining
@@ -22,6 +23,7 @@ const createMockSupabase = () => {
     insert: vi.fn().mockReturnThis(),
     update: vi.fn().mockReturnThis(),
     delete: vi.fn().mockReturnThis(),
+    in: vi.fn().mockReturnThis(),
   }
 
   interface MockClient {
@@ -29,6 +31,7 @@ const createMockSupabase = () => {
       getUser: ReturnType<typeof vi.fn>
     }
     from: ReturnType<typeof vi.fn>
+    rpc: ReturnType<typeof vi.fn>
   }
 
   const client = {
@@ -44,6 +47,7 @@ const createMockSupabase = () => {
       })
       return { ...chain }
     }),
+    rpc: vi.fn(),
   } as MockClient
 
   return client
@@ -60,6 +64,10 @@ vi.mock('next/cache', () => ({
   revalidatePath: vi.fn(),
 }))
 
+vi.mock('@/lib/i18n/active-locales', () => ({
+  assertCityLocales: vi.fn(),
+}))
+
 vi.mock('next/headers', () => ({
   cookies: vi.fn(() => ({
     get: vi.fn(),
@@ -241,10 +249,10 @@ describe('taxonomy-types', () => {
       useForMapStyling: true,
       useForFiltering: true,
       displayOrder: 0,
-      name_en: 'Community Size',
-      description_en: 'Size of the language community',
-      name_nl: 'Gemeenschapsgrootte',
-      description_nl: 'Grootte van de taalgemeenschap',
+      translations: {
+        en: { name: 'Community Size', description: 'Size of the language community' },
+        nl: { name: 'Gemeenschapsgrootte', description: 'Grootte van de taalgemeenschap' },
+      },
     }
 
     it('should create a taxonomy type successfully', async () => {
@@ -349,6 +357,7 @@ describe('taxonomy-types', () => {
       // Mock delete on rollback
       const deleteQuery = {
         delete: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
         eq: vi.fn().mockResolvedValue({ error: null }),
       }
       mockSupabase.from.mockReturnValueOnce(deleteQuery)
@@ -391,10 +400,10 @@ describe('taxonomy-types', () => {
       useForMapStyling: true,
       useForFiltering: true,
       displayOrder: 0,
-      name_en: 'Community Size Updated',
-      description_en: 'Updated description',
-      name_nl: 'Gemeenschapsgrootte',
-      description_nl: 'Grootte van de taalgemeenschap',
+      translations: {
+        en: { name: 'Community Size Updated', description: 'Updated description' },
+        nl: { name: 'Gemeenschapsgrootte', description: 'Grootte van de taalgemeenschap' },
+      },
     }
 
     it('should update a taxonomy type successfully', async () => {
@@ -419,23 +428,21 @@ describe('taxonomy-types', () => {
       }
       mockSupabase.from.mockReturnValueOnce(taxonomyTypeUpdateQuery)
 
-      // Mock translation deletion
-      const translationDeleteQuery = {
-        delete: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockResolvedValue({ error: null }),
-      }
-      mockSupabase.from.mockReturnValueOnce(translationDeleteQuery)
-
-      // Mock translation insertion
-      const translationInsertQuery = {
-        insert: vi.fn().mockResolvedValue({ error: null }),
-      }
-      mockSupabase.from.mockReturnValueOnce(translationInsertQuery)
+      // Mock translation save
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: null })
 
       await updateTaxonomyType('amsterdam', '123e4567-e89b-12d3-a456-426614174000', validInput)
 
       expect(mockSupabase.from).toHaveBeenCalledWith('taxonomy_types')
-      expect(mockSupabase.from).toHaveBeenCalledWith('taxonomy_type_translations')
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('save_translations', {
+        p_entity_type: 'taxonomy_type',
+        p_entity_id: '123e4567-e89b-12d3-a456-426614174000',
+        p_translations: [
+          { locale_code: 'en', name: 'Community Size Updated', description: 'Updated description' },
+          { locale_code: 'nl', name: 'Gemeenschapsgrootte', description: 'Grootte van de taalgemeenschap' },
+        ],
+        p_locales: ['en', 'nl'],
+      })
     })
 
     it('should throw error when user is not authenticated', async () => {
@@ -471,18 +478,8 @@ describe('taxonomy-types', () => {
       }
       mockSupabase.from.mockReturnValueOnce(taxonomyTypeUpdateQuery)
 
-      // Mock translation deletion
-      const translationDeleteQuery = {
-        delete: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockResolvedValue({ error: null }),
-      }
-      mockSupabase.from.mockReturnValueOnce(translationDeleteQuery)
-
-      // Mock translation insertion failure
-      const translationInsertQuery = {
-        insert: vi.fn().mockResolvedValue({ error: { message: 'Insert failed' } }),
-      }
-      mockSupabase.from.mockReturnValueOnce(translationInsertQuery)
+      // Mock translation save failure
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'Save failed' } })
 
       await expect(
         updateTaxonomyType('amsterdam', '123e4567-e89b-12d3-a456-426614174000', validInput)
@@ -501,6 +498,7 @@ describe('taxonomy-types', () => {
       // Mock taxonomy type deletion
       const deleteQuery = {
         delete: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
         eq: vi.fn().mockResolvedValue({ error: null }),
       }
       mockSupabase.from.mockReturnValueOnce(deleteQuery)
@@ -531,6 +529,7 @@ describe('taxonomy-types', () => {
       // Mock taxonomy type deletion failure
       const deleteQuery = {
         delete: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
         eq: vi.fn().mockResolvedValue({ error: { message: 'Delete failed' } }),
       }
       mockSupabase.from.mockReturnValueOnce(deleteQuery)
@@ -540,4 +539,64 @@ describe('taxonomy-types', () => {
       ).rejects.toThrow('Failed to delete taxonomy type')
     })
   })
+
+  describe('getTaxonomyRuleViolations', () => {
+    it('should list the languages that break a rule', async () => {
+      const cityQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: 'city-id' }, error: null }),
+      }
+      mockSupabase.from.mockReturnValueOnce(cityQuery)
+      mockSupabase.rpc.mockResolvedValue({
+        data: [
+          {
+            language_id: 'language-id',
+            endonym: 'Türkçe',
+            taxonomy_type_id: 'type-id',
+            taxonomy_type_name: 'Grootte',
+            violation: 'multiple',
+            value_count: 2,
+          },
+        ],
+        error: null,
+      })
+
+      const result = await getTaxonomyRuleViolations('amsterdam', 'nl')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_taxonomy_rule_violations', {
+        p_city_id: 'city-id',
+        p_locale: 'nl',
+      })
+      expect(result).toEqual([
+        {
+          languageId: 'language-id',
+          endonym: 'Türkçe',
+          taxonomyTypeId: 'type-id',
+          taxonomyTypeName: 'Grootte',
+          violation: 'multiple',
+          valueCount: 2,
+        },
+      ])
+    })
+
+    it('should throw error when the check fails', async () => {
+      const cityQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: 'city-id' }, error: null }),
+      }
+      mockSupabase.from.mockReturnValueOnce(cityQuery)
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'Database error' } })
+
+      await expect(getTaxonomyRuleViolations('amsterdam')).rejects.toThrow(
+        'Failed to fetch taxonomy rule violations: Database error'
+      )
+    })
+
+    it('should throw error for invalid city slug format', async () => {
+      await expect(getTaxonomyRuleViolations('Invalid@City')).rejects.toThrow('Invalid city slug format')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -12,6 +12,9 @@
 import { revalidatePath } from 'next/cache'
 import { z } from 'zod'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getTranslationRows, translationsSchema } from '@/lib/validations/translations'
+import { assertCityLocales } from '@/lib/i18n/active-locales'
+import type { TaxonomyRuleViolation, TaxonomyRuleViolationKind } from '@/lib/taxonomies/rules'
 
 /**
  * Validation schema for taxonomy type creation/update
@@ -27,13 +30,8 @@ const taxonomyTypeSchema = z.object({
   useForMapStyling: z.boolean().default(false),
   useForFiltering: z.boolean().default(true),
   displayOrder: z.number().int().min(0).default(0),
-  // Translations
-  name_en: z.string().min(1, 'English name is required'),
-  description_en: z.string().optional(),
-  name_nl: z.string().optional(),
-  description_nl: z.string().optional(),
-  name_fr: z.string().optional(),
-  description_fr: z.string().optional(),
+  // Name and description per locale of the city
+  translations: translationsSchema,
 })
 
 /**
@@ -241,6 +239,9 @@ export async function createTaxonomyType(citySlug: string, input: TaxonomyTypeIn
     throw new Error('Insufficient permissions')
   }
 
+  // Only accept translations in the locales the city has enabled
+  await assertCityLocales(supabase, validatedInput.cityId, 'translations', Object.keys(validatedInput.translations))
+
   // Create taxonomy type with transaction
   const { data: taxonomyType, error: taxonomyTypeError } = await supabase
     .from('taxonomy_types')
@@ -261,37 +262,10 @@ export async function createTaxonomyType(citySlug: string, input: TaxonomyTypeIn
   }
 
   // Insert translations
-  const translations = []
-
-  // English translation (required)
-  if (validatedInput.name_en) {
-    translations.push({
-      taxonomy_type_id: taxonomyType.id,
-      locale_code: 'en',
-      name: validatedInput.name_en,
-      description: validatedInput.description_en || null,
-    })
-  }
-
-  // Dutch translation (optional)
-  if (validatedInput.name_nl) {
-    translations.push({
-      taxonomy_type_id: taxonomyType.id,
-      locale_code: 'nl',
-      name: validatedInput.name_nl,
-      description: validatedInput.description_nl || null,
-    })
-  }
-
-  // French translation (optional)
-  if (validatedInput.name_fr) {
-    translations.push({
-      taxonomy_type_id: taxonomyType.id,
-      locale_code: 'fr',
-      name: validatedInput.name_fr,
-      description: validatedInput.description_fr || null,
-    })
-  }
+  const translations = getTranslationRows(validatedInput.translations).map((translation) => ({
+    taxonomy_type_id: taxonomyType.id,
+    ...translation,
+  }))
 
   if (translations.length > 0) {
     const { error: translationError } = await supabase
@@ -349,6 +323,9 @@ export async function updateTaxonomyType(
     throw new Error('Insufficient permissions')
   }
 
+  // Only accept translations in the locales the city has enabled
+  await assertCityLocales(supabase, validatedInput.cityId, 'translations', Object.keys(validatedInput.translations))
+
   // Update taxonomy type
   const { error: taxonomyTypeError } = await supabase
     .from('taxonomy_types')
@@ -366,53 +343,17 @@ export async function updateTaxonomyType(
     throw new Error('Failed to update taxonomy type')
   }
 
-  // Delete existing translations
-  await supabase
-    .from('taxonomy_type_translations')
-    .delete()
-    .eq('taxonomy_type_id', taxonomyTypeId)
-
-  // Insert updated translations
-  const translations = []
-
-  // English translation (required)
-  if (validatedInput.name_en) {
-    translations.push({
-      taxonomy_type_id: taxonomyTypeId,
-      locale_code: 'en',
-      name: validatedInput.name_en,
-      description: validatedInput.description_en || null,
-    })
-  }
-
-  // Dutch translation (optional)
-  if (validatedInput.name_nl) {
-    translations.push({
-      taxonomy_type_id: taxonomyTypeId,
-      locale_code: 'nl',
-      name: validatedInput.name_nl,
-      description: validatedInput.description_nl || null,
-    })
-  }
-
-  // French translation (optional)
-  if (validatedInput.name_fr) {
-    translations.push({
-      taxonomy_type_id: taxonomyTypeId,
-      locale_code: 'fr',
-      name: validatedInput.name_fr,
-      description: validatedInput.description_fr || null,
-    })
-  }
-
-  if (translations.length > 0) {
-    const { error: translationError } = await supabase
-      .from('taxonomy_type_translations')
-      .insert(translations)
-
-    if (translationError) {
-      throw new Error('Failed to update translations')
-    }
+  // Save the translations of the submitted locales; other locales are kept,
+  // and so are the AI and review columns of translations left unchanged
+  const { error: translationError } = await supabase.rpc('save_translations', {
+    p_entity_type: 'taxonomy_type',
+    p_entity_id: taxonomyTypeId,
+    p_translations: getTranslationRows(validatedInput.translations),
+    p_locales: Object.keys(validatedInput.translations),
+  })
+
+  if (translationError) {
+    throw new Error('Failed to update translations')
   }
 
   revalidatePath(`/${citySlug}/operator/taxonomy-types`)
@@ -455,3 +396,73 @@ export async function deleteTaxonomyType(
   revalidatePath(`/${citySlug}/operator/taxonomy-types`)
   return { success: true }
 }
+
+/**
+ * List the languages of a city that break the rules of its taxonomy types
+ *
+ * Changing whether a taxonomy type is required or allows multiple values
+ * does not change existing languages; this lists the ones to fix.
+ *
+ * @async
+ * @param citySlug - The city identifier
+ * @param locale - Locale of the taxonomy type names
+ * @returns Promise that resolves to one entry per language and broken rule, by endonym
+ * @throws {Error} If city slug is invalid, city not found, or database query fails
+ */
+export async function getTaxonomyRuleViolations(
+  citySlug: string,
+  locale: string = 'en'
+): Promise<TaxonomyRuleViolation[]> {
+  // Input validation
+  if (!citySlug || typeof citySlug !== 'string') {
+    throw new Error('City slug is required')
+  }
+
+  if (!citySlug.match(/^[a-z0-9-]+$/)) {
+    throw new Error('Invalid city slug format')
+  }
+
+  const supabase = await getServerSupabaseWithCookies(citySlug)
+
+  // Get city by slug
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id')
+    .eq('slug', citySlug)
+    .single()
+
+  if (cityError) {
+    throw new Error(`Failed to fetch city: ${cityError.message}`)
+  }
+
+  if (!city) {
+    throw new Error(`City '${citySlug}' not found`)
+  }
+
+  const { data, error } = await supabase.rpc('get_taxonomy_rule_violations', {
+    p_city_id: city.id,
+    p_locale: locale,
+  })
+
+  if (error) {
+    throw new Error(`Failed to fetch taxonomy rule violations: ${error.message}`)
+  }
+
+  return (
+    (data ?? []) as Array<{
+      language_id: string
+      endonym: string | null
+      taxonomy_type_id: string
+      taxonomy_type_name: string
+      violation: TaxonomyRuleViolationKind
+      value_count: number
+    }>
+  ).map((row) => ({
+    languageId: row.language_id,
+    endonym: row.endonym,
+    taxonomyTypeId: row.taxonomy_type_id,
+    taxonomyTypeName: row.taxonomy_type_name,
+    violation: row.violation,
+    valueCount: row.value_count,
+  }))
+}
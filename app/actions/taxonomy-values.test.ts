@@ -14,6 +14,10 @@ vi.mock('next/cache', () => ({
   revalidatePath: vi.fn(),
 }))
 
+vi.mock('@/lib/i18n/active-locales', () => ({
+  assertCityLocales: vi.fn(),
+}))
+
 vi.mock('@supabase/supabase-js', () => ({
   createClient: vi.fn(() => ({
     auth: {
@@ -34,6 +38,7 @@ vi.mock('@/lib/supabase/server-client', () => ({
 // Helper function to create a consistent mock client
 function createMockClient() {
   return {
+    rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
     from: vi.fn((table: string) => {
       if (table === 'cities') {
         return {
@@ -111,51 +116,53 @@ function createMockClient() {
 
 // Create a mock for taxonomy_values table operations
 function createTaxonomyValuesMock() {
+  const filtered = {
+    order: vi.fn().mockReturnValue({
+      data: [
+        {
+          id: 'value-1',
+          taxonomy_type_id: 'type-1',
+          slug: 'small',
+          color_hex: '#FFA500',
+          icon_name: 'Circle',
+          icon_size_multiplier: 1.0,
+          sort_order: 0,
+          translations: [
+            { id: 't1', locale_code: 'en', name: 'Small', description: 'Small community', is_ai_translated: false, reviewed_at: null },
+            { id: 't2', locale_code: 'nl', name: 'Klein', description: 'Kleine gemeenschap', is_ai_translated: false, reviewed_at: null }
+          ]
+        }
+      ],
+      error: null
+    }),
+    single: vi.fn().mockResolvedValue({
+      data: {
+        id: 'value-1',
+        taxonomy_type_id: 'type-1',
+        slug: 'small',
+        color_hex: '#FFA500',
+        icon_name: 'Circle',
+        icon_size_multiplier: 1.0,
+        sort_order: 0,
+        translations: [
+          { id: 't1', locale_code: 'en', name: 'Small', description: 'Small community', is_ai_translated: false, reviewed_at: null }
+        ],
+        taxonomy_type: {
+          id: 'type-1',
+          slug: 'size',
+          city_id: 'city-1',
+          translations: [
+            { locale_code: 'en', name: 'Community Size' }
+          ]
+        }
+      },
+      error: null
+    })
+  }
+
   return {
     select: vi.fn().mockReturnValue({
-      eq: vi.fn().mockReturnValue({
-        order: vi.fn().mockReturnValue({
-          data: [
-            {
-              id: 'value-1',
-              taxonomy_type_id: 'type-1',
-              slug: 'small',
-              color_hex: '#FFA500',
-              icon_name: 'Circle',
-              icon_size_multiplier: 1.0,
-              sort_order: 0,
-              translations: [
-                { id: 't1', locale_code: 'en', name: 'Small', description: 'Small community', is_ai_translated: false, reviewed_at: null },
-                { id: 't2', locale_code: 'nl', name: 'Klein', description: 'Kleine gemeenschap', is_ai_translated: false, reviewed_at: null }
-              ]
-            }
-          ],
-          error: null
-        }),
-        single: vi.fn().mockResolvedValue({
-          data: {
-            id: 'value-1',
-            taxonomy_type_id: 'type-1',
-            slug: 'small',
-            color_hex: '#FFA500',
-            icon_name: 'Circle',
-            icon_size_multiplier: 1.0,
-            sort_order: 0,
-            translations: [
-              { id: 't1', locale_code: 'en', name: 'Small', description: 'Small community', is_ai_translated: false, reviewed_at: null }
-            ],
-            taxonomy_type: {
-              id: 'type-1',
-              slug: 'size',
-              city_id: 'city-1',
-              translations: [
-                { locale_code: 'en', name: 'Community Size' }
-              ]
-            }
-          },
-          error: null
-        })
-      })
+      eq: vi.fn().mockReturnValue({ ...filtered, is: vi.fn().mockReturnValue(filtered) })
     }),
     insert: vi.fn().mockReturnValue({
       select: vi.fn().mockReturnValue({
@@ -238,7 +245,9 @@ describe('taxonomy-values', () => {
           return {
             select: vi.fn().mockReturnValue({
               eq: vi.fn().mockReturnValue({
-                order: vi.fn().mockResolvedValue({ data: null, error: { message: 'Database error' } })
+                is: vi.fn().mockReturnValue({
+                  order: vi.fn().mockResolvedValue({ data: null, error: { message: 'Database error' } })
+                })
               })
             })
           }
@@ -279,23 +288,25 @@ describe('taxonomy-values', () => {
           return {
             select: vi.fn(() => ({
               eq: vi.fn(() => ({
-                single: vi.fn(() => Promise.resolve({
-                  data: {
-                    id: 'value-1',
-                    slug: 'small',
-                    color_hex: '#FFA500',
-                    icon_name: 'Circle',
-                    icon_size_multiplier: 1.0,
-                    sort_order: 0,
-                    translations: [],
-                    taxonomy_type: {
-                      id: 'type-1',
-                      slug: 'size',
-                      city_id: 'city-1',
-                      translations: []
-                    }
-                  },
-                  error: null
+                is: vi.fn(() => ({
+                  single: vi.fn(() => Promise.resolve({
+                    data: {
+                      id: 'value-1',
+                      slug: 'small',
+                      color_hex: '#FFA500',
+                      icon_name: 'Circle',
+                      icon_size_multiplier: 1.0,
+                      sort_order: 0,
+                      translations: [],
+                      taxonomy_type: {
+                        id: 'type-1',
+                        slug: 'size',
+                        city_id: 'city-1',
+                        translations: []
+                      }
+                    },
+                    error: null
+                  }))
                 }))
               }))
             }))
@@ -350,9 +361,11 @@ describe('taxonomy-values', () => {
           return {
             select: vi.fn(() => ({
               eq: vi.fn(() => ({
-                single: vi.fn(() => Promise.resolve({
-                  data: null,
-                  error: { message: 'Not found' }
+                is: vi.fn(() => ({
+                  single: vi.fn(() => Promise.resolve({
+                    data: null,
+                    error: { message: 'Not found' }
+                  }))
                 }))
               }))
             }))
@@ -382,10 +395,10 @@ describe('taxonomy-values', () => {
         color_hex: '#FFA500',
         icon_size_multiplier: 1.0,
         sort_order: 0,
-        translations: [
-          { locale_code: 'en', name: 'Small' },
-          { locale_code: 'nl', name: 'Klein' }
-        ]
+        translations: {
+          en: { name: 'Small' },
+          nl: { name: 'Klein' }
+        }
       }
 
       const result = await createTaxonomyValue('amsterdam', input)
@@ -460,9 +473,9 @@ describe('taxonomy-values', () => {
         color_hex: '#FFA500',
         icon_size_multiplier: 1.0,
         sort_order: 0,
-        translations: [
-          { locale_code: 'en', name: 'Small' }
-        ]
+        translations: {
+          en: { name: 'Small' }
+        }
       }
 
       await expect(createTaxonomyValue('amsterdam', input)).rejects.toThrow('Failed to create translations: Translation error')
@@ -475,7 +488,7 @@ describe('taxonomy-values', () => {
         color_hex: '#FFA500',
         icon_size_multiplier: 1.0,
         sort_order: 0,
-        translations: []
+        translations: { en: { name: 'Small' } }
       }
 
       await expect(createTaxonomyValue('amsterdam', input)).rejects.toThrow('Slug must contain only lowercase letters, numbers, and hyphens')
@@ -488,7 +501,7 @@ describe('taxonomy-values', () => {
         color_hex: 'invalid', // Invalid hex color
         icon_size_multiplier: 1.0,
         sort_order: 0,
-        translations: []
+        translations: { en: { name: 'Small' } }
       }
 
       await expect(createTaxonomyValue('amsterdam', input)).rejects.toThrow('Color must be a valid hex color')
@@ -501,7 +514,7 @@ describe('taxonomy-values', () => {
         color_hex: '#FFA500',
         icon_size_multiplier: 5.0, // Too large
         sort_order: 0,
-        translations: []
+        translations: { en: { name: 'Small' } }
       }
 
       await expect(createTaxonomyValue('amsterdam', input)).rejects.toThrow('Icon size multiplier must be at most 3.0')
@@ -516,12 +529,19 @@ describe('taxonomy-values', () => {
 
       const result = await updateTaxonomyValue('amsterdam', 'value-1', {
         slug: 'medium',
-        translations: [
-          { locale_code: 'en', name: 'Medium' }
-        ]
+        translations: {
+          en: { name: 'Medium' },
+          nl: { name: '' }
+        }
       })
 
       expect(result.slug).toBe('medium')
+      expect(mockClient.rpc).toHaveBeenCalledWith('save_translations', {
+        p_entity_type: 'taxonomy_value',
+        p_entity_id: 'value-1',
+        p_translations: [{ locale_code: 'en', name: 'Medium', description: null }],
+        p_locales: ['en', 'nl'],
+      })
     })
 
     it('should handle partial updates', async () => {
@@ -604,7 +624,7 @@ describe('taxonomy-values', () => {
   })
 
   describe('deleteTaxonomyValue', () => {
-    it('should delete a taxonomy value', async () => {
+    it('should move a taxonomy value to the trash', async () => {
       const { getServerSupabaseWithCookies } = await import('@/lib/supabase/server-client')
       const mockClient = createMockClient() as any
       
@@ -613,67 +633,17 @@ describe('taxonomy-values', () => {
       const result = await deleteTaxonomyValue('amsterdam', 'value-1')
 
       expect(result.success).toBe(true)
+      expect(mockClient.rpc).toHaveBeenCalledWith('move_to_trash', {
+        p_entity_type: 'taxonomy_value',
+        p_entity_id: 'value-1',
+      })
     })
 
     it('should handle database errors on delete', async () => {
       const { getServerSupabaseWithCookies } = await import('@/lib/supabase/server-client')
       const mockClient = createMockClient() as any
-      // Override delete to fail
-      mockClient.from = vi.fn((table: string) => {
-        if (table === 'cities') {
-          return {
-            select: vi.fn().mockReturnValue({
-              eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { id: 'city-1', slug: 'amsterdam' },
-                  error: null
-                })
-              })
-            })
-          }
-        }
-        if (table === 'city_users') {
-          return {
-            select: vi.fn().mockReturnValue({
-              eq: vi.fn().mockReturnValue({
-                eq: vi.fn().mockReturnValue({
-                  single: vi.fn().mockResolvedValue({
-                    data: { city_id: 'city-1' },
-                    error: null
-                  })
-                })
-              })
-            })
-          }
-        }
-        if (table === 'taxonomy_values') {
-          return {
-            select: vi.fn().mockReturnValue({
-              eq: vi.fn().mockReturnValue({
-                single: vi.fn().mockResolvedValue({
-                  data: { taxonomy_type_id: 'type-1' },
-                  error: null
-                })
-              })
-            }),
-            delete: vi.fn().mockReturnValue({
-              eq: vi.fn().mockResolvedValue({ error: { message: 'Delete error' } })
-            })
-          }
-        }
-        if (table === 'taxonomy_value_translations') {
-          return {
-            delete: vi.fn().mockReturnValue({
-              eq: vi.fn().mockResolvedValue({ error: null })
-            })
-          }
-        }
-        return {
-          delete: vi.fn().mockReturnValue({
-            eq: vi.fn().mockResolvedValue({ error: { message: 'Delete error' } })
-          })
-        }
-      })
+      // Override the move to the trash to fail
+      mockClient.rpc = vi.fn().mockResolvedValue({ data: null, error: { message: 'Delete error' } })
       
       vi.mocked(getServerSupabaseWithCookies).mockReturnValue(mockClient)
 
@@ -13,6 +13,8 @@
 import { revalidatePath } from 'next/cache'
 import { z } from 'zod'
 import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getTranslationRows, translationsSchema } from '@/lib/validations/translations'
+import { assertCityLocales } from '@/lib/i18n/active-locales'
 
 // Validation schema for taxonomy value form
 const taxonomyValueSchema = z.object({
@@ -33,11 +35,8 @@ const taxonomyValueSchema = z.object({
   sort_order: z.number()
     .int('Sort order must be an integer')
     .min(0, 'Sort order must be non-negative'),
-  translations: z.array(z.object({
-    locale_code: z.string(),
-    name: z.string().min(1, 'Name is required'),
-    description: z.string().optional(),
-  }))
+  // Name and description per locale of the city
+  translations: translationsSchema,
 })
 
 export type TaxonomyValueInput = z.infer<typeof taxonomyValueSchema>
@@ -95,6 +94,7 @@ export async function getTaxonomyValues(citySlug: string, taxonomyTypeId: string
       )
     `)
     .eq('taxonomy_type_id', taxonomyTypeId)
+    .is('deleted_at', null)
     .order('sort_order', { ascending: true })
 
   if (error) {
@@ -172,6 +172,7 @@ export async function getTaxonomyValue(citySlug: string, valueId: string) {
       )
     `)
     .eq('id', valueId)
+    .is('deleted_at', null)
     .single()
 
   if (error) {
@@ -236,6 +237,9 @@ export async function createTaxonomyValue(citySlug: string, input: TaxonomyValue
     throw new Error('Insufficient permissions')
   }
 
+  // Only accept translations in the locales the city has enabled
+  await assertCityLocales(supabase, city.id, 'translations', Object.keys(validatedInput.translations))
+
   // Start transaction
   const { data: taxonomyValue, error: valueError } = await supabase
     .from('taxonomy_values')
@@ -256,11 +260,9 @@ export async function createTaxonomyValue(citySlug: string, input: TaxonomyValue
   }
 
   // Insert translations
-  const translationInserts = validatedInput.translations.map(translation => ({
+  const translationInserts = getTranslationRows(validatedInput.translations).map(translation => ({
     taxonomy_value_id: taxonomyValue.id,
-    locale_code: translation.locale_code,
-    name: translation.name,
-    description: translation.description || null,
+    ...translation,
   }))
 
   const { error: translationError } = await supabase
@@ -347,6 +349,11 @@ export async function updateTaxonomyValue(
   // Validate input (partial validation)
   const validatedInput = taxonomyValueSchema.partial().parse(input)
 
+  // Only accept translations in the locales the city has enabled
+  if (validatedInput.translations) {
+    await assertCityLocales(supabase, city.id, 'translations', Object.keys(validatedInput.translations))
+  }
+
   // Build update object
   const updateData: Partial<{
     taxonomy_type_id: string
@@ -389,25 +396,16 @@ export async function updateTaxonomyValue(
     throw new Error(`Failed to update taxonomy value: ${valueError.message}`)
   }
 
-  // Update translations if provided
+  // Save the translations of the submitted locales if provided; other
+  // locales are kept, and so are the AI and review columns of translations
+  // left unchanged
   if (validatedInput.translations) {
-    // Delete existing translations
-    await supabase
-      .from('taxonomy_value_translations')
-      .delete()
-      .eq('taxonomy_value_id', valueId)
-
-    // Insert new translations
-    const translationInserts = validatedInput.translations.map(translation => ({
-      taxonomy_value_id: valueId,
-      locale_code: translation.locale_code,
-      name: translation.name,
-      description: translation.description || null,
-    }))
-
-    const { error: translationError } = await supabase
-      .from('taxonomy_value_translations')
-      .insert(translationInserts)
+    const { error: translationError } = await supabase.rpc('save_translations', {
+      p_entity_type: 'taxonomy_value',
+      p_entity_id: valueId,
+      p_translations: getTranslationRows(validatedInput.translations),
+      p_locales: Object.keys(validatedInput.translations),
+    })
 
     if (translationError) {
       console.error('Error updating translations:', translationError)
@@ -424,6 +422,9 @@ export async function updateTaxonomyValue(
 /**
  * Delete a taxonomy value
  *
+ * Moves the value to the trash; languages keep it but do not show it until
+ * it is restored.
+ *
  * @async
  * @param citySlug - The city identifier
  * @param valueId - The UUID of the taxonomy value
@@ -483,11 +484,10 @@ export async function deleteTaxonomyValue(citySlug: string, valueId: string) {
     .eq('id', valueId)
     .single()
 
-  // Delete taxonomy value (translations will be deleted via CASCADE)
-  const { error } = await supabase
-    .from('taxonomy_values')
-    .delete()
-    .eq('id', valueId)
+  const { error } = await supabase.rpc('move_to_trash', {
+    p_entity_type: 'taxonomy_value',
+    p_entity_id: valueId,
+  })
 
   if (error) {
     console.error('Error deleting taxonomy value:', error)
@@ -0,0 +1,112 @@
+/**
+ * Translation Coverage Server Actions Tests
+ *
+ * Tests for counting translations per kind of row and locale, and listing
+ * the rows that need work.
+ *
+ * @module app/actions/translation-coverage.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getTranslationCoverage, getTranslationGaps } from './translation-coverage'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { createQuery } from '@/__tests__/helpers/supabase'
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(),
+}))
+
+describe('translation coverage actions', () => {
+  let tables: Record<string, ReturnType<typeof createQuery>>
+  let supabase: {
+    auth: { getUser: ReturnType<typeof vi.fn> }
+    from: ReturnType<typeof vi.fn>
+    rpc: ReturnType<typeof vi.fn>
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    tables = {
+      cities: createQuery({ data: { id: 'city-1' }, error: null }),
+      city_locales: createQuery({
+        data: [{ locale_code: 'en' }, { locale_code: 'fr' }, { locale_code: 'nl' }],
+        error: null,
+      }),
+    }
+    supabase = {
+      auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'user-1' } } }) },
+      from: vi.fn((table: string) => tables[table]),
+      rpc: vi.fn(),
+    }
+    vi.mocked(getServerSupabaseWithCookies).mockResolvedValue(supabase as never)
+  })
+
+  describe('getTranslationCoverage', () => {
+    it('should return the enabled locales and the counts', async () => {
+      supabase.rpc.mockResolvedValue({
+        data: [{ entity_type: 'language', locale: 'nl', total: '12', translated: '7', unreviewed: '2', missing: '3' }],
+        error: null,
+      })
+
+      const result = await getTranslationCoverage('amsterdam')
+
+      expect(tables.city_locales.eq).toHaveBeenCalledWith('city_id', 'city-1')
+      expect(tables.city_locales.eq).toHaveBeenCalledWith('is_enabled', true)
+      expect(supabase.rpc).toHaveBeenCalledWith('get_translation_coverage', { p_city_id: 'city-1' })
+      expect(result).toEqual({
+        locales: ['en', 'fr', 'nl'],
+        coverage: [{ entityType: 'language', locale: 'nl', total: 12, translated: 7, unreviewed: 2, missing: 3 }],
+      })
+    })
+
+    it('should require a signed-in user', async () => {
+      supabase.auth.getUser.mockResolvedValue({ data: { user: null } })
+
+      await expect(getTranslationCoverage('amsterdam')).rejects.toThrow('Authentication required')
+      expect(supabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should report a failed fetch', async () => {
+      supabase.rpc.mockResolvedValue({ data: null, error: { message: 'boom' } })
+
+      await expect(getTranslationCoverage('amsterdam')).rejects.toThrow('Failed to fetch translation coverage: boom')
+    })
+  })
+
+  describe('getTranslationGaps', () => {
+    it('should list the rows that need work', async () => {
+      supabase.rpc.mockResolvedValue({
+        data: [
+          { entity_id: 'v1', parent_id: 't1', label: 'Large', status: 'missing' },
+          { entity_id: 'v2', parent_id: 't1', label: null, status: 'unreviewed' },
+        ],
+        error: null,
+      })
+
+      const gaps = await getTranslationGaps('amsterdam', 'taxonomy_value', 'nl', 'en')
+
+      expect(supabase.rpc).toHaveBeenCalledWith('get_translation_gaps', {
+        p_city_id: 'city-1',
+        p_entity_type: 'taxonomy_value',
+        p_locale: 'nl',
+        p_display_locale: 'en',
+      })
+      expect(gaps).toEqual([
+        { entityId: 'v1', parentId: 't1', label: 'Large', status: 'missing' },
+        { entityId: 'v2', parentId: 't1', label: null, status: 'unreviewed' },
+      ])
+    })
+
+    it('should validate the kind of row and the locale', async () => {
+      await expect(getTranslationGaps('amsterdam', 'country' as never, 'nl', 'en')).rejects.toThrow(
+        'Validation failed'
+      )
+      await expect(getTranslationGaps('amsterdam', 'language', 'dutch', 'en')).rejects.toThrow(
+        'Validation failed: Invalid locale code'
+      )
+      expect(getServerSupabaseWithCookies).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * Translation Coverage Server Actions
+ *
+ * Server-side actions for the translation coverage dashboard: how complete
+ * the translations of a city are per kind of row and enabled locale, and
+ * which rows still need a translation or a review.
+ *
+ * This module provides:
+ * - getTranslationCoverage: Count translated, unreviewed and missing translations
+ * - getTranslationGaps: List the rows of one kind that need work in a locale
+ *
+ * Security features:
+ * - The coverage functions run with the user's session, so the RLS
+ *   policies of the tables apply
+ * - Input validation with Zod
+ *
+ * @module app/actions/translation-coverage
+ */
+
+'use server'
+
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { TRANSLATION_ENTITY_TYPES, type TranslationEntityType } from '@/lib/translations/entities'
+import type { TranslationCoverage, TranslationGapStatus } from '@/lib/translations/coverage'
+import { z } from 'zod'
+
+const citySlugSchema = z.string().regex(/^[a-z0-9-]+$/, 'Invalid city slug')
+
+const gapsSchema = z.object({
+  citySlug: citySlugSchema,
+  entityType: z.enum(TRANSLATION_ENTITY_TYPES as [TranslationEntityType, ...TranslationEntityType[]]),
+  locale: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, 'Invalid locale code'),
+})
+
+/**
+ * Translation coverage of a city
+ */
+export interface CityTranslationCoverage {
+  /** Enabled locales of the city */
+  locales: string[]
+  /** Counts per kind of row and locale; kinds without rows are left out */
+  coverage: TranslationCoverage[]
+}
+
+/**
+ * Row whose translation in a locale is missing or waiting for review
+ */
+export interface TranslationGap {
+  entityId: string
+  /** Taxonomy type of a taxonomy value */
+  parentId: string | null
+  label: string | null
+  status: TranslationGapStatus
+}
+
+interface CoverageRow {
+  entity_type: TranslationEntityType
+  locale: string
+  total: number
+  translated: number
+  unreviewed: number
+  missing: number
+}
+
+interface GapRow {
+  entity_id: string
+  parent_id: string | null
+  label: string | null
+  status: TranslationGapStatus
+}
+
+/**
+ * Throw a validation error for a failed Zod parse
+ */
+function assertValid<T>(result: z.ZodSafeParseResult<T>): T {
+  if (!result.success) {
+    const errors = result.error.issues.map((issue) => issue.message).join(', ')
+    throw new Error(`Validation failed: ${errors}`)
+  }
+  return result.data
+}
+
+/**
+ * Get the session client of a signed-in user and the city, or throw
+ */
+async function requireCity(citySlug: string) {
+  const supabase = await getServerSupabaseWithCookies(citySlug)
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('Authentication required')
+  }
+
+  const { data: city, error } = await supabase.from('cities').select('id').eq('slug', citySlug).maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch city: ${error.message}`)
+  }
+  if (!city) {
+    throw new Error('City not found')
+  }
+
+  return { supabase, city: city as { id: string } }
+}
+
+/**
+ * Count the translated, unreviewed and missing translations of a city
+ *
+ * @param citySlug - City identifier slug
+ * @returns Promise resolving to the enabled locales and the counts per kind of row and locale
+ * @throws Error if validation fails, the user is not signed in, the city
+ *   does not exist, or the fetch fails
+ */
+export async function getTranslationCoverage(citySlug: string): Promise<CityTranslationCoverage> {
+  assertValid(citySlugSchema.safeParse(citySlug))
+
+  try {
+    const { supabase, city } = await requireCity(citySlug)
+
+    const [localesResult, coverageResult] = await Promise.all([
+      supabase
+        .from('city_locales')
+        .select('locale_code')
+        .eq('city_id', city.id)
+        .eq('is_enabled', true)
+        .order('locale_code', { ascending: true }),
+      supabase.rpc('get_translation_coverage', { p_city_id: city.id }),
+    ])
+
+    if (localesResult.error) {
+      throw new Error(`Failed to fetch city locales: ${localesResult.error.message}`)
+    }
+    if (coverageResult.error) {
+      throw new Error(`Failed to fetch translation coverage: ${coverageResult.error.message}`)
+    }
+
+    return {
+      locales: ((localesResult.data ?? []) as Array<{ locale_code: string }>).map((row) => row.locale_code),
+      coverage: ((coverageResult.data ?? []) as CoverageRow[]).map((row) => ({
+        entityType: row.entity_type,
+        locale: row.locale,
+        total: Number(row.total),
+        translated: Number(row.translated),
+        unreviewed: Number(row.unreviewed),
+        missing: Number(row.missing),
+      })),
+    }
+  } catch (error) {
+    console.error('Error fetching translation coverage:', error)
+    throw error instanceof Error ? error : new Error('Failed to fetch translation coverage')
+  }
+}
+
+/**
+ * List the rows of one kind whose translation in a locale is missing or
+ * waiting for review
+ *
+ * @param citySlug - City identifier slug
+ * @param entityType - Kind of row
+ * @param locale - Locale of the translations
+ * @param displayLocale - Locale for the names of the rows
+ * @returns Promise resolving to the rows, missing ones first
+ * @throws Error if validation fails, the user is not signed in, the city
+ *   does not exist, or the fetch fails
+ */
+export async function getTranslationGaps(
+  citySlug: string,
+  entityType: TranslationEntityType,
+  locale: string,
+  displayLocale: string
+): Promise<TranslationGap[]> {
+  assertValid(gapsSchema.safeParse({ citySlug, entityType, locale }))
+
+  try {
+    const { supabase, city } = await requireCity(citySlug)
+
+    const { data, error } = await supabase.rpc('get_translation_gaps', {
+      p_city_id: city.id,
+      p_entity_type: entityType,
+      p_locale: locale,
+      p_display_locale: displayLocale,
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch translation gaps: ${error.message}`)
+    }
+
+    return ((data ?? []) as GapRow[]).map((row) => ({
+      entityId: row.entity_id,
+      parentId: row.parent_id,
+      label: row.label,
+      status: row.status,
+    }))
+  } catch (error) {
+    console.error('Error fetching translation gaps:', error)
+    throw error instanceof Error ? error : new Error('Failed to fetch translation gaps')
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Trash Server Actions Tests
+ *
+ * Tests for listing the trash of a city, restoring and purging items, and
+ * the retention period.
+ *
+ * @module app/actions/trash.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { revalidatePath } from 'next/cache'
+import { getTrash, restoreTrashItem, purgeTrashItem, getTrashRetention, updateTrashRetention } from './trash'
+import { getCityAdminAccess } from '@/lib/auth/city-admin'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { createQuery } from '@/__tests__/helpers/supabase'
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock('@/lib/database/client', () => ({
+  getDatabaseAdminClient: vi.fn(),
+}))
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/city-admin', () => ({
+  getCityAdminAccess: vi.fn(),
+}))
+
+const USER_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c01'
+const LANGUAGE_ID = '7f3c1a52-8d4e-4b1a-9c2d-1e5f6a7b8c02'
+
+const trashRow = {
+  entity_type: 'language',
+  entity_id: LANGUAGE_ID,
+  label: 'Türkçe',
+  parent_label: null,
+  deleted_at: '2025-03-01T10:00:00Z',
+  deleted_by: USER_ID,
+  purge_after: '2025-03-31T10:00:00Z',
+}
+
+describe('trash actions', () => {
+  let cities: ReturnType<typeof createQuery>
+  let session: {
+    auth: { getUser: ReturnType<typeof vi.fn> }
+    from: ReturnType<typeof vi.fn>
+    rpc: ReturnType<typeof vi.fn>
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCityAdminAccess).mockResolvedValue({ status: 'granted', userId: USER_ID, cityId: 'city-1' })
+
+    cities = createQuery({ data: { id: 'city-1', trash_retention_days: 30 }, error: null })
+    session = {
+      auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: USER_ID } } }) },
+      from: vi.fn(() => cities),
+      rpc: vi.fn().mockResolvedValue({ data: [trashRow], error: null }),
+    }
+    vi.mocked(getServerSupabaseWithCookies).mockResolvedValue(session as never)
+
+    const profiles = createQuery({ data: [{ id: USER_ID, full_name: null, email: 'alice@example.com' }], error: null })
+    vi.mocked(getDatabaseAdminClient).mockReturnValue({ from: vi.fn(() => profiles) } as never)
+  })
+
+  describe('getTrash', () => {
+    it('should return the items in the trash with who deleted them', async () => {
+      const trash = await getTrash('amsterdam', 'nl')
+
+      expect(cities.eq).toHaveBeenCalledWith('slug', 'amsterdam')
+      expect(session.rpc).toHaveBeenCalledWith('get_trash_items', { p_city_id: 'city-1', p_locale: 'nl' })
+      expect(trash).toEqual({
+        items: [
+          {
+            entityType: 'language',
+            entityId: LANGUAGE_ID,
+            label: 'Türkçe',
+            parentLabel: null,
+            deletedAt: '2025-03-01T10:00:00Z',
+            deletedByName: 'alice@example.com',
+            purgeAfter: '2025-03-31T10:00:00Z',
+          },
+        ],
+        retentionDays: 30,
+      })
+    })
+
+    it('should reject anonymous users and unknown cities', async () => {
+      session.auth.getUser.mockResolvedValueOnce({ data: { user: null } })
+      await expect(getTrash('amsterdam', 'en')).rejects.toThrow('Authentication required')
+
+      cities = createQuery({ data: null, error: null })
+      await expect(getTrash('amsterdam', 'en')).rejects.toThrow('City not found')
+    })
+  })
+
+  describe('restoreTrashItem', () => {
+    it('should restore the item and refresh its pages', async () => {
+      session.rpc.mockResolvedValue({ data: null, error: null })
+
+      await restoreTrashItem('amsterdam', 'language', LANGUAGE_ID)
+
+      expect(session.rpc).toHaveBeenCalledWith('restore_from_trash', {
+        p_entity_type: 'language',
+        p_entity_id: LANGUAGE_ID,
+      })
+      expect(revalidatePath).toHaveBeenCalledWith('/[locale]/operator/[citySlug]/trash', 'page')
+      expect(revalidatePath).toHaveBeenCalledWith('/[locale]/operator/[citySlug]/languages', 'layout')
+      expect(revalidatePath).toHaveBeenCalledWith('/[locale]/operator/[citySlug]/language-points', 'page')
+    })
+
+    it('should pass on why the database refused the restore', async () => {
+      session.rpc.mockResolvedValue({
+        data: null,
+        error: { code: 'P0001', message: 'Restore the language of this point first' },
+      })
+
+      await expect(restoreTrashItem('amsterdam', 'language_point', LANGUAGE_ID)).rejects.toThrow(
+        'Restore the language of this point first'
+      )
+      expect(revalidatePath).not.toHaveBeenCalled()
+    })
+
+    it('should reject unknown kinds of items', async () => {
+      await expect(restoreTrashItem('amsterdam', 'city' as never, LANGUAGE_ID)).rejects.toThrow('Validation failed')
+      expect(session.rpc).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('purgeTrashItem', () => {
+    it('should delete the item for good', async () => {
+      session.rpc.mockResolvedValue({ data: null, error: null })
+
+      await purgeTrashItem('amsterdam', 'district', LANGUAGE_ID)
+
+      expect(session.rpc).toHaveBeenCalledWith('purge_from_trash', {
+        p_entity_type: 'district',
+        p_entity_id: LANGUAGE_ID,
+      })
+      expect(revalidatePath).toHaveBeenCalledWith('/[locale]/operator/[citySlug]/districts', 'layout')
+    })
+
+    it('should hide unexpected database errors', async () => {
+      session.rpc.mockResolvedValue({ data: null, error: { code: '42501', message: 'permission denied' } })
+
+      await expect(purgeTrashItem('amsterdam', 'district', LANGUAGE_ID)).rejects.toThrow(
+        'Failed to delete item permanently'
+      )
+    })
+  })
+
+  describe('retention', () => {
+    it('should return the retention period of the city', async () => {
+      await expect(getTrashRetention('amsterdam')).resolves.toBe(30)
+    })
+
+    it('should save a new retention period', async () => {
+      session.rpc.mockResolvedValue({ data: null, error: null })
+
+      await updateTrashRetention('amsterdam', 90)
+
+      expect(session.rpc).toHaveBeenCalledWith('set_trash_retention', { p_city_id: 'city-1', p_days: 90 })
+      expect(revalidatePath).toHaveBeenCalledWith('/[locale]/admin/[citySlug]/settings', 'page')
+    })
+
+    it('should only let city admins change it', async () => {
+      vi.mocked(getCityAdminAccess).mockResolvedValue({ status: 'forbidden' })
+
+      await expect(updateTrashRetention('amsterdam', 90)).rejects.toThrow(
+        'Insufficient permissions to change the settings of this city'
+      )
+      expect(session.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should reject periods outside the allowed range', async () => {
+      await expect(updateTrashRetention('amsterdam', 0)).rejects.toThrow('at least 1 day')
+      await expect(updateTrashRetention('amsterdam', 400)).rejects.toThrow('at most 365 days')
+      await expect(updateTrashRetention('amsterdam', 7.5)).rejects.toThrow('whole number of days')
+    })
+  })
+})
@@ -0,0 +1,369 @@
+/**
+ * Trash Server Actions
+ *
+ * Server-side actions for the trash of a city: the languages, language
+ * points, descriptions, neighborhoods, districts and taxonomy values that
+ * operators deleted.
+ *
+ * This module provides:
+ * - getTrash: List the items in the trash of a city
+ * - restoreTrashItem: Take an item out of the trash
+ * - purgeTrashItem: Delete an item for good
+ * - getTrashRetention: Get how long items stay in the trash
+ * - updateTrashRetention: Change how long items stay in the trash (city admins)
+ *
+ * Items are moved to the trash by the delete actions of each entity, and
+ * purged automatically after the retention period by the database (see
+ * lib/trash/items).
+ *
+ * Security features:
+ * - The trash functions run with the user's session, so the same RLS
+ *   policies apply as to the deletes they replace
+ * - Retention changes are limited to city admins, checked again by
+ *   set_trash_retention in the database
+ * - Input validation with Zod
+ *
+ * @module app/actions/trash
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getCityAdminAccess } from '@/lib/auth/city-admin'
+import {
+  MAX_TRASH_RETENTION_DAYS,
+  MIN_TRASH_RETENTION_DAYS,
+  TRASH_ENTITY_SECTIONS,
+  TRASH_ENTITY_TYPES,
+  type TrashEntityType,
+} from '@/lib/trash/items'
+import { z } from 'zod'
+
+/**
+ * Postgres error code of RAISE EXCEPTION; its messages are meant for users
+ */
+const RAISE_EXCEPTION_CODE = 'P0001'
+
+const citySlugSchema = z.string().regex(/^[a-z0-9-]+$/, 'Invalid city slug')
+
+const itemSchema = z.object({
+  citySlug: citySlugSchema,
+  entityType: z.enum(TRASH_ENTITY_TYPES as [TrashEntityType, ...TrashEntityType[]]),
+  entityId: z.string().uuid('Invalid ID'),
+})
+
+const retentionSchema = z.object({
+  citySlug: citySlugSchema,
+  days: z
+    .number()
+    .int('The retention period must be a whole number of days')
+    .min(MIN_TRASH_RETENTION_DAYS, `The retention period must be at least ${MIN_TRASH_RETENTION_DAYS} day`)
+    .max(MAX_TRASH_RETENTION_DAYS, `The retention period must be at most ${MAX_TRASH_RETENTION_DAYS} days`),
+})
+
+/**
+ * Deleted item waiting in the trash
+ */
+export interface TrashItem {
+  entityType: TrashEntityType
+  entityId: string
+  /** Name of the item, in the requested locale where it has one */
+  label: string | null
+  /** Language of a point or description, district of a neighborhood, type of a taxonomy value */
+  parentLabel: string | null
+  deletedAt: string
+  /** Name or email of who deleted it; null for system changes or unknown users */
+  deletedByName: string | null
+  /** When the item will be purged automatically */
+  purgeAfter: string
+}
+
+/**
+ * Trash of a city
+ */
+export interface Trash {
+  items: TrashItem[]
+  retentionDays: number
+}
+
+interface TrashItemRow {
+  entity_type: TrashEntityType
+  entity_id: string
+  label: string | null
+  parent_label: string | null
+  deleted_at: string
+  deleted_by: string | null
+  purge_after: string
+}
+
+/**
+ * Throw a validation error for a failed Zod parse
+ */
+function assertValid<T>(result: z.ZodSafeParseResult<T>): T {
+  if (!result.success) {
+    const errors = result.error.issues.map((issue) => issue.message).join(', ')
+    throw new Error(`Validation failed: ${errors}`)
+  }
+  return result.data
+}
+
+/**
+ * Get the session client of a signed-in user and the city, or throw
+ */
+async function requireCity(citySlug: string) {
+  const supabase = await getServerSupabaseWithCookies(citySlug)
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('Authentication required')
+  }
+
+  const { data: city, error } = await supabase
+    .from('cities')
+    .select('id, trash_retention_days')
+    .eq('slug', citySlug)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch city: ${error.message}`)
+  }
+  if (!city) {
+    throw new Error('City not found')
+  }
+
+  return { supabase, city: city as { id: string; trash_retention_days: number } }
+}
+
+/**
+ * Get the names of the users who deleted items, by ID
+ *
+ * They need not be members of the city any more, so their profiles may be
+ * hidden from the user by RLS; they are read with the admin client.
+ */
+async function getDeleterNames(rows: TrashItemRow[]): Promise<Map<string, string>> {
+  const userIds = [...new Set(rows.map((row) => row.deleted_by).filter((id): id is string => Boolean(id)))]
+  const names = new Map<string, string>()
+
+  if (userIds.length === 0) {
+    return names
+  }
+
+  const { data: profiles, error } = await getDatabaseAdminClient('system')
+    .from('user_profiles')
+    .select('id, full_name, email')
+    .in('id', userIds)
+
+  if (error) {
+    throw new Error(`Failed to fetch user profiles: ${error.message}`)
+  }
+
+  for (const profile of profiles ?? []) {
+    names.set(profile.id, profile.full_name || profile.email)
+  }
+
+  return names
+}
+
+/**
+ * Revalidate the pages that list a kind of item
+ */
+function revalidateSection(entityType: TrashEntityType) {
+  revalidatePath('/[locale]/operator/[citySlug]/trash', 'page')
+  revalidatePath(`/[locale]/operator/[citySlug]/${TRASH_ENTITY_SECTIONS[entityType]}`, 'layout')
+
+  // Their points and descriptions come and go with languages and neighborhoods
+  if (entityType === 'language' || entityType === 'neighborhood' || entityType === 'district') {
+    revalidatePath('/[locale]/operator/[citySlug]/language-points', 'page')
+    revalidatePath('/[locale]/operator/[citySlug]/descriptions', 'page')
+  }
+}
+
+/**
+ * Get the items in the trash of a city
+ *
+ * Rows deleted together with their parent (the points of a deleted
+ * language, the neighborhoods of a deleted district) are not listed on
+ * their own: they are restored and purged with the parent.
+ *
+ * @param citySlug - City identifier slug
+ * @param locale - Locale for the names of the items
+ * @returns Promise resolving to the items, most recently deleted first, and the retention period
+ * @throws Error if validation fails, the user is not signed in, the city
+ *   does not exist, or the fetch fails
+ */
+export async function getTrash(citySlug: string, locale: string): Promise<Trash> {
+  assertValid(citySlugSchema.safeParse(citySlug))
+
+  try {
+    const { supabase, city } = await requireCity(citySlug)
+
+    const { data, error } = await supabase.rpc('get_trash_items', {
+      p_city_id: city.id,
+      p_locale: locale,
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch trash: ${error.message}`)
+    }
+
+    const rows = (data ?? []) as TrashItemRow[]
+    const deleterNames = await getDeleterNames(rows)
+
+    return {
+      items: rows.map((row) => ({
+        entityType: row.entity_type,
+        entityId: row.entity_id,
+        label: row.label,
+        parentLabel: row.parent_label,
+        deletedAt: row.deleted_at,
+        deletedByName: row.deleted_by ? deleterNames.get(row.deleted_by) ?? null : null,
+        purgeAfter: row.purge_after,
+      })),
+      retentionDays: city.trash_retention_days,
+    }
+  } catch (error) {
+    console.error('Error fetching trash:', error)
+    throw error instanceof Error ? error : new Error('Failed to fetch trash')
+  }
+}
+
+/**
+ * Take an item out of the trash, together with the rows deleted with it
+ *
+ * @param citySlug - City identifier slug
+ * @param entityType - Kind of item
+ * @param entityId - UUID of the item
+ * @returns Promise resolving when the item is restored
+ * @throws Error if validation fails, the item is not in the trash, its
+ *   parent is still in the trash, or the restore fails
+ */
+export async function restoreTrashItem(
+  citySlug: string,
+  entityType: TrashEntityType,
+  entityId: string
+): Promise<void> {
+  assertValid(itemSchema.safeParse({ citySlug, entityType, entityId }))
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+
+    const { error } = await supabase.rpc('restore_from_trash', {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+    })
+
+    if (error) {
+      throw new Error(error.code === RAISE_EXCEPTION_CODE ? error.message : 'Failed to restore item')
+    }
+
+    revalidateSection(entityType)
+  } catch (error) {
+    console.error('Error restoring trash item:', error)
+    throw error instanceof Error ? error : new Error('Failed to restore item')
+  }
+}
+
+/**
+ * Delete an item in the trash for good, together with the rows deleted with it
+ *
+ * Languages and descriptions can still be recovered from their history
+ * afterwards (see app/actions/revisions).
+ *
+ * @param citySlug - City identifier slug
+ * @param entityType - Kind of item
+ * @param entityId - UUID of the item
+ * @returns Promise resolving when the item is purged
+ * @throws Error if validation fails, the item is not in the trash, or the purge fails
+ */
+export async function purgeTrashItem(
+  citySlug: string,
+  entityType: TrashEntityType,
+  entityId: string
+): Promise<void> {
+  assertValid(itemSchema.safeParse({ citySlug, entityType, entityId }))
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+
+    const { error } = await supabase.rpc('purge_from_trash', {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+    })
+
+    if (error) {
+      throw new Error(error.code === RAISE_EXCEPTION_CODE ? error.message : 'Failed to delete item permanently')
+    }
+
+    revalidateSection(entityType)
+  } catch (error) {
+    console.error('Error purging trash item:', error)
+    throw error instanceof Error ? error : new Error('Failed to delete item permanently')
+  }
+}
+
+/**
+ * Get how many days deleted items of a city stay in the trash
+ *
+ * @param citySlug - City identifier slug
+ * @returns Promise resolving to the retention period in days
+ * @throws Error if validation fails, the user is not signed in, or the city does not exist
+ */
+export async function getTrashRetention(citySlug: string): Promise<number> {
+  assertValid(citySlugSchema.safeParse(citySlug))
+
+  try {
+    const { city } = await requireCity(citySlug)
+    return city.trash_retention_days
+  } catch (error) {
+    console.error('Error fetching trash retention:', error)
+    throw error instanceof Error ? error : new Error('Failed to fetch trash retention')
+  }
+}
+
+/**
+ * Change how many days deleted items of a city stay in the trash
+ *
+ * Applies to the items already in the trash too.
+ *
+ * @param citySlug - City identifier slug
+ * @param days - Retention period in days
+ * @returns Promise resolving when the setting is saved
+ * @throws Error if validation fails, the user does not administer the city, or the update fails
+ */
+export async function updateTrashRetention(citySlug: string, days: number): Promise<void> {
+  assertValid(retentionSchema.safeParse({ citySlug, days }))
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+    const access = await getCityAdminAccess(supabase, citySlug)
+
+    if (access.status !== 'granted') {
+      throw new Error(
+        access.status === 'unauthenticated'
+          ? 'Authentication required'
+          : access.status === 'notFound'
+            ? 'City not found'
+            : 'Insufficient permissions to change the settings of this city'
+      )
+    }
+
+    const { error } = await supabase.rpc('set_trash_retention', {
+      p_city_id: access.cityId,
+      p_days: days,
+    })
+
+    if (error) {
+      throw new Error(error.code === RAISE_EXCEPTION_CODE ? error.message : 'Failed to update trash retention')
+    }
+
+    revalidatePath('/[locale]/admin/[citySlug]/settings', 'page')
+    revalidatePath('/[locale]/operator/[citySlug]/trash', 'page')
+  } catch (error) {
+    console.error('Error updating trash retention:', error)
+    throw error instanceof Error ? error : new Error('Failed to update trash retention')
+  }
+}
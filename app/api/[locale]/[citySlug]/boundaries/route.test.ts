@@ -0,0 +1,93 @@
+/**
+ * @file route.test.ts
+ * @description Tests for the public boundaries API route
+ */
+
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from './route'
+
+vi.mock('@/lib/map/boundaries', () => ({
+  getPublicCityBoundaries: vi.fn(),
+}))
+
+import { getPublicCityBoundaries } from '@/lib/map/boundaries'
+
+/**
+ * Call the route handler for the given locale, city and query string
+ */
+function callRoute(locale: string, citySlug: string, query = '') {
+  const request = new NextRequest(
+    new URL(`http://localhost:3001/api/${locale}/${citySlug}/boundaries${query}`)
+  )
+  return GET(request, { params: Promise.resolve({ locale, citySlug }) })
+}
+
+const collection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [[[[4.88, 52.36], [4.92, 52.36], [4.92, 52.38], [4.88, 52.36]]]],
+      },
+      properties: {
+        id: 'n1',
+        areaType: 'neighborhood',
+        slug: 'jordaan',
+        districtSlug: 'centrum',
+        name: 'Jordaan',
+      },
+    },
+  ],
+}
+
+describe('GET /api/[locale]/[citySlug]/boundaries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return the boundaries as GeoJSON with cache headers', async () => {
+    ;(getPublicCityBoundaries as Mock).mockResolvedValue(collection)
+
+    const response = await callRoute('en', 'amsterdam')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual(collection)
+    expect(response.headers.get('Content-Type')).toBe('application/geo+json')
+    expect(response.headers.get('Cache-Control')).toContain('s-maxage=300')
+    expect(getPublicCityBoundaries).toHaveBeenCalledWith('amsterdam', 'en', undefined)
+  })
+
+  it('should pass the area type filter', async () => {
+    ;(getPublicCityBoundaries as Mock).mockResolvedValue(collection)
+
+    await callRoute('nl', 'amsterdam', '?type=neighborhood')
+
+    expect(getPublicCityBoundaries).toHaveBeenCalledWith('amsterdam', 'nl', 'neighborhood')
+  })
+
+  it('should return 404 when the city does not exist', async () => {
+    ;(getPublicCityBoundaries as Mock).mockResolvedValue(null)
+
+    const response = await callRoute('en', 'unknown')
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should reject invalid parameters', async () => {
+    expect((await callRoute('en', 'Amsterdam!')).status).toBe(400)
+    expect((await callRoute('english', 'amsterdam')).status).toBe(400)
+    expect((await callRoute('en', 'amsterdam', '?type=city')).status).toBe(400)
+    expect(getPublicCityBoundaries).not.toHaveBeenCalled()
+  })
+
+  it('should return 500 when loading fails', async () => {
+    ;(getPublicCityBoundaries as Mock).mockRejectedValue(new Error('Connection lost'))
+
+    const response = await callRoute('en', 'amsterdam')
+
+    expect(response.status).toBe(500)
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * @file route.ts
+ * @description Public API Route for district and neighborhood boundaries
+ *
+ * Provides the polygon boundaries of a city's districts and neighborhoods
+ * as a GeoJSON FeatureCollection, for drawing shaded areas on the map.
+ *
+ * Key features:
+ * - Locale-aware area names (falls back to English, then slug)
+ * - Optional `type` parameter to only return districts or neighborhoods
+ * - Optimized with HTTP caching (5min cache, 10min stale-while-revalidate)
+ *
+ * @module app/api/[locale]/[citySlug]/boundaries/route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPublicCityBoundaries, type BoundaryAreaType } from '@/lib/map/boundaries'
+
+const AREA_TYPES: BoundaryAreaType[] = ['district', 'neighborhood']
+
+/**
+ * GET /api/[locale]/[citySlug]/boundaries
+ *
+ * Returns the boundaries of all areas that have one. Areas without a
+ * boundary are omitted.
+ *
+ * @async
+ * @param request - Next.js request object containing the optional `type` parameter
+ * @param params - Async route parameters object
+ * @param params.params - Promise resolving to route parameters
+ * @param params.params.locale - Locale code (e.g., 'en', 'nl', 'fr')
+ * @param params.params.citySlug - City identifier slug (e.g., 'amsterdam')
+ * @returns Promise<NextResponse> - GeoJSON FeatureCollection or error response
+ * @throws {Error} Returns 400 if parameters are invalid
+ * @throws {Error} Returns 404 if city is not found
+ * @throws {Error} Returns 500 if database query fails
+ *
+ * @example
+ * // Get neighborhood areas of Amsterdam in Dutch
+ * GET /api/nl/amsterdam/boundaries?type=neighborhood
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ locale: string; citySlug: string }> }
+) {
+  const { locale, citySlug } = await params
+
+  // Validate citySlug parameter
+  if (!citySlug || citySlug.length > 100 || !/^[a-z0-9-]+$/.test(citySlug)) {
+    return NextResponse.json(
+      { error: 'Invalid city slug format (expected lowercase alphanumeric with hyphens)' },
+      { status: 400 }
+    )
+  }
+
+  // Validate locale parameter
+  if (!locale || locale.length > 10 || !/^[a-z]{2}(-[A-Z]{2})?$/.test(locale)) {
+    return NextResponse.json(
+      { error: 'Invalid locale format (expected: en, nl, fr, etc.)' },
+      { status: 400 }
+    )
+  }
+
+  // Validate type parameter
+  const typeParam = request.nextUrl.searchParams.get('type')
+  const areaType = typeParam === null
+    ? undefined
+    : AREA_TYPES.find((type) => type === typeParam)
+
+  if (typeParam !== null && !areaType) {
+    return NextResponse.json(
+      { error: 'Invalid type (expected: district or neighborhood)' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const collection = await getPublicCityBoundaries(citySlug, locale, areaType)
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'City not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(collection, {
+      headers: {
+        'Content-Type': 'application/geo+json',
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching boundaries:', {
+      citySlug,
+      locale,
+      areaType,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    })
+    return NextResponse.json(
+      { error: 'Failed to fetch boundaries' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * @file route.test.ts
+ * @description Tests for the admin data export API route
+ */
+
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from './route'
+
+vi.mock('@/lib/supabase/server-client', () => ({
+  getServerSupabaseWithCookies: vi.fn(),
+}))
+
+vi.mock('@/lib/database/client', () => ({
+  getDatabaseAdminClient: vi.fn(() => ({})),
+}))
+
+vi.mock('@/lib/auth/city-admin', () => ({
+  getCityAdminAccess: vi.fn(),
+}))
+
+vi.mock('@/lib/export/data', () => ({
+  loadCityExport: vi.fn(),
+}))
+
+import { getCityAdminAccess } from '@/lib/auth/city-admin'
+import { loadCityExport } from '@/lib/export/data'
+
+const cityData = {
+  city: { id: 'city-1', slug: 'amsterdam', names: { en: 'Amsterdam' } },
+  locales: ['en'],
+  languages: [
+    {
+      id: 'lang-1',
+      isoCode: 'nld',
+      endonym: 'Nederlands',
+      speakerCount: null,
+      names: { en: 'Dutch' },
+      family: null,
+      country: null,
+      taxonomies: [],
+    },
+  ],
+  points: [
+    {
+      id: 'point-1',
+      languageId: 'lang-1',
+      neighborhoodId: null,
+      latitude: 52.37,
+      longitude: 4.89,
+      postalCode: null,
+      communityName: null,
+      notes: 'Private note',
+    },
+  ],
+  descriptions: [],
+  districts: [],
+  neighborhoods: [],
+}
+
+/**
+ * Call the route handler for the given locale, city and query string
+ */
+function callRoute(locale: string, citySlug: string, query = '') {
+  const request = new NextRequest(
+    new URL(`http://localhost:3001/api/${locale}/${citySlug}/export${query}`)
+  )
+  return GET(request, { params: Promise.resolve({ locale, citySlug }) })
+}
+
+describe('GET /api/[locale]/[citySlug]/export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(getCityAdminAccess as Mock).mockResolvedValue({ status: 'granted', userId: 'user-1', cityId: 'city-1' })
+    ;(loadCityExport as Mock).mockResolvedValue(cityData)
+  })
+
+  it('should return a CSV table as a download', async () => {
+    const response = await callRoute('en', 'amsterdam', '?format=csv&table=language_points')
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8')
+    expect(response.headers.get('Content-Disposition')).toMatch(
+      /^attachment; filename="amsterdam-language_points-\d{4}-\d{2}-\d{2}\.csv"$/
+    )
+    expect(response.headers.get('Cache-Control')).toBe('private, no-store')
+    expect(await response.text()).toContain('Private note')
+  })
+
+  it('should return the points as GeoJSON', async () => {
+    const response = await callRoute('en', 'amsterdam', '?format=geojson')
+    const body = await response.json()
+
+    expect(response.headers.get('Content-Type')).toBe('application/geo+json')
+    expect(body.features[0].properties).toMatchObject({ endonym: 'Nederlands', notes: 'Private note' })
+  })
+
+  it('should return JSON-LD and XLSX', async () => {
+    const jsonld = await callRoute('en', 'amsterdam', '?format=jsonld')
+    expect(jsonld.headers.get('Content-Type')).toBe('application/ld+json')
+    expect((await jsonld.json())['@graph'][0]['@type']).toBe('Dataset')
+
+    const xlsx = await callRoute('en', 'amsterdam', '?format=xlsx')
+    expect(xlsx.headers.get('Content-Disposition')).toContain('.xlsx"')
+    expect(Buffer.from(await xlsx.arrayBuffer()).subarray(0, 2).toString()).toBe('PK')
+  })
+
+  it('should reject unknown formats and missing CSV tables', async () => {
+    expect((await callRoute('en', 'amsterdam', '?format=pdf')).status).toBe(400)
+    expect((await callRoute('en', 'amsterdam', '?format=csv')).status).toBe(400)
+    expect((await callRoute('en', 'amsterdam', '?format=csv&table=user_profiles')).status).toBe(400)
+    expect((await callRoute('en', 'Amsterdam!', '?format=xlsx')).status).toBe(400)
+    expect(getCityAdminAccess).not.toHaveBeenCalled()
+  })
+
+  it('should require an admin of the city', async () => {
+    ;(getCityAdminAccess as Mock).mockResolvedValue({ status: 'unauthenticated' })
+    expect((await callRoute('en', 'amsterdam', '?format=xlsx')).status).toBe(401)
+
+    ;(getCityAdminAccess as Mock).mockResolvedValue({ status: 'forbidden' })
+    expect((await callRoute('en', 'amsterdam', '?format=xlsx')).status).toBe(403)
+
+    expect(loadCityExport).not.toHaveBeenCalled()
+  })
+
+  it('should return 500 when loading fails', async () => {
+    ;(loadCityExport as Mock).mockRejectedValue(new Error('Failed to load languages: timeout'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect((await callRoute('en', 'amsterdam', '?format=geojson')).status).toBe(500)
+  })
+})
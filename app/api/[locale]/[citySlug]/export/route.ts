@@ -0,0 +1,163 @@
+/**
+ * @file route.ts
+ * @description Admin API Route for the full data export of a city
+ *
+ * Provides everything a city holds (languages with all translations and
+ * taxonomy assignments, language points, descriptions in every locale,
+ * districts and neighborhoods) as a file download, for researchers and
+ * partner organisations.
+ *
+ * Key features:
+ * - CSV (one table per request), XLSX (one sheet per table), GeoJSON
+ *   (language points) and JSON-LD (schema.org graph)
+ * - Restricted to superusers and admins of the city
+ * - Never cached; unpublished data is included
+ *
+ * @module app/api/[locale]/[citySlug]/export/route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSupabaseWithCookies } from '@/lib/supabase/server-client'
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { getCityAdminAccess } from '@/lib/auth/city-admin'
+import { loadCityExport } from '@/lib/export/data'
+import { isExportTableName, toExportTable, toExportTables } from '@/lib/export/tables'
+import {
+  EXPORT_FORMAT_FILES,
+  isExportFormat,
+  toExportCsv,
+  toExportGeoJson,
+  toExportJsonLd,
+  toExportXlsx,
+} from '@/lib/export/formats'
+
+const ACCESS_ERRORS = {
+  unauthenticated: { error: 'Authentication required', status: 401 },
+  forbidden: { error: 'Insufficient permissions to export this city', status: 403 },
+  notFound: { error: 'City not found', status: 404 },
+} as const
+
+/**
+ * GET /api/[locale]/[citySlug]/export
+ *
+ * Returns the city's data as a download. Query parameters:
+ * - `format` - `csv`, `xlsx`, `geojson` or `jsonld` (required)
+ * - `table` - table to export as CSV: `languages`, `language_points`,
+ *   `descriptions`, `districts` or `neighborhoods` (required for `csv`)
+ *
+ * @async
+ * @param request - Next.js request object containing the query parameters
+ * @param params - Async route parameters object
+ * @param params.params - Promise resolving to route parameters
+ * @param params.params.locale - Locale code (e.g., 'en', 'nl', 'fr')
+ * @param params.params.citySlug - City identifier slug (e.g., 'amsterdam')
+ * @returns Promise<NextResponse> - Export file or error response
+ * @throws {Error} Returns 400 if parameters are invalid
+ * @throws {Error} Returns 401 if the user is not signed in
+ * @throws {Error} Returns 403 if the user may not administer the city
+ * @throws {Error} Returns 404 if city is not found
+ * @throws {Error} Returns 500 if database query fails
+ *
+ * @example
+ * // All of Amsterdam as a workbook
+ * GET /api/en/amsterdam/export?format=xlsx
+ *
+ * @example
+ * // Language points of Amsterdam as CSV
+ * GET /api/en/amsterdam/export?format=csv&table=language_points
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ locale: string; citySlug: string }> }
+) {
+  const { locale, citySlug } = await params
+
+  // Validate citySlug parameter
+  if (!citySlug || citySlug.length > 100 || !/^[a-z0-9-]+$/.test(citySlug)) {
+    return NextResponse.json(
+      { error: 'Invalid city slug format (expected lowercase alphanumeric with hyphens)' },
+      { status: 400 }
+    )
+  }
+
+  // Validate locale parameter
+  if (!locale || locale.length > 10 || !/^[a-z]{2}(-[A-Z]{2})?$/.test(locale)) {
+    return NextResponse.json(
+      { error: 'Invalid locale format (expected: en, nl, fr, etc.)' },
+      { status: 400 }
+    )
+  }
+
+  // Validate format and table parameters
+  const format = request.nextUrl.searchParams.get('format') ?? ''
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: 'Invalid format (expected: csv, xlsx, geojson or jsonld)' },
+      { status: 400 }
+    )
+  }
+
+  const tableParam = request.nextUrl.searchParams.get('table') ?? ''
+  const table = isExportTableName(tableParam) ? tableParam : null
+  if (format === 'csv' && !table) {
+    return NextResponse.json(
+      { error: 'Invalid table (expected: languages, language_points, descriptions, districts or neighborhoods)' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await getServerSupabaseWithCookies(citySlug)
+    const access = await getCityAdminAccess(supabase, citySlug)
+
+    if (access.status !== 'granted') {
+      const { error, status } = ACCESS_ERRORS[access.status]
+      return NextResponse.json({ error }, { status })
+    }
+
+    // Access is checked; read with the service role so nothing is hidden by RLS
+    const data = await loadCityExport(getDatabaseAdminClient(citySlug), citySlug)
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'City not found' },
+        { status: 404 }
+      )
+    }
+
+    const exportedAt = new Date()
+    const date = exportedAt.toISOString().slice(0, 10)
+    const { contentType, extension } = EXPORT_FORMAT_FILES[format]
+    const fileName = [citySlug, format === 'csv' ? table : null, date].filter(Boolean).join('-')
+
+    let body: BodyInit
+    if (format === 'xlsx') {
+      body = new Uint8Array(await toExportXlsx(toExportTables(data))) as Uint8Array<ArrayBuffer>
+    } else if (format === 'geojson') {
+      body = JSON.stringify(toExportGeoJson(data))
+    } else if (format === 'jsonld') {
+      body = JSON.stringify(toExportJsonLd(data, { url: request.nextUrl.href, exportedAt }))
+    } else {
+      body = toExportCsv(toExportTable(data, table ?? 'languages'))
+    }
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}.${extension}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting city data:', {
+      citySlug,
+      format,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    })
+    return NextResponse.json(
+      { error: 'Failed to export city data' },
+      { status: 500 }
+    )
+  }
+}
@@ -321,6 +321,32 @@ describe('GeoJSON API Route', () => {
       expect(response).toBeDefined()
     })
 
+    it('should reject malformed taxonomy filters', async () => {
+      const request = new NextRequest(
+        new URL('http://localhost:3001/api/en/amsterdam/geojson?taxonomy=medium')
+      )
+
+      const response = await GET(request, {
+        params: Promise.resolve({ locale: 'en', citySlug: 'amsterdam' }),
+      })
+
+      expect(response.status).toBe(400)
+      const data = await response.json()
+      expect(data.error).toBe('Invalid taxonomy filter format (expected type:value)')
+    })
+
+    it('should reject invalid country codes', async () => {
+      const request = new NextRequest(
+        new URL('http://localhost:3001/api/en/amsterdam/geojson?country=NLD')
+      )
+
+      const response = await GET(request, {
+        params: Promise.resolve({ locale: 'en', citySlug: 'amsterdam' }),
+      })
+
+      expect(response.status).toBe(400)
+    })
+
     it('should validate citySlug parameter', async () => {
       const request = new NextRequest(
         new URL('http://localhost:3001/api/en/nonexistent-city/geojson')
@@ -7,7 +7,8 @@
  *
  * Key features:
  * - Locale-aware language name translations
- * - Optional taxonomy-based filtering via query parameter
+ * - Optional filtering by taxonomy (type:value pairs), language family,
+ *   country of origin, neighborhood and district (see lib/map/filters)
  * - Optimized with HTTP caching (5min cache, 10min stale-while-revalidate)
  * - Supports multiple cities via database abstraction layer
  * - Input validation for all parameters
@@ -21,85 +22,29 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getDatabaseAdminClient } from '@/lib/database/client'
-
-/**
- * GeoJSON Feature for a language point
- */
-interface LanguagePointFeature {
-  type: 'Feature'
-  geometry: {
-    type: 'Point'
-    coordinates: [number, number] // [longitude, latitude]
-  }
-  properties: {
-    id: string
-    languageId: string
-    languageName: string
-    endonym: string | null
-    postalCode: string | null
-    communityName: string | null
-    taxonomies: Array<{
-      typeSlug: string
-      valueSlug: string
-      color: string
-      iconName: string
-      iconSize: number
-    }>
-  }
-}
-
-/**
- * GeoJSON FeatureCollection
- */
-interface FeatureCollection {
-  type: 'FeatureCollection'
-  features: LanguagePointFeature[]
-}
-
-/**
- * Database types for query results
- */
-interface TaxonomyValue {
-  slug: string
-  color_hex: string
-  icon_name: string
-  icon_size_multiplier: number
-  taxonomy_type: {
-    slug: string
-  }
-}
-
-interface LanguageTaxonomy {
-  taxonomy_value: TaxonomyValue
-}
-
-interface LanguageTranslation {
-  locale_code: string
-  name: string
-}
-
-interface Language {
-  id: string
-  endonym: string | null
-  city_id: string
-  language_translations: LanguageTranslation[]
-  language_taxonomies: LanguageTaxonomy[]
-}
-
-interface LanguagePointRecord {
-  id: string
-  latitude: number
-  longitude: number
-  postal_code: string | null
-  community_name: string | null
-  language: Language
-}
+import type { LanguagePointFeatureCollection } from '@/types/map'
+import {
+  isValidLanguagePointRecord,
+  LANGUAGE_POINT_SELECT,
+  toLanguagePointFeature,
+} from '@/lib/map/points'
+import {
+  hasActiveFilters,
+  matchesLanguagePointFilters,
+  parseLanguagePointFilters,
+} from '@/lib/map/filters'
 
 /**
  * GET /api/[locale]/[citySlug]/geojson
  *
  * Returns language points as GeoJSON with taxonomy data for map rendering.
- * Supports optional filtering by taxonomy value via query parameter.
+ * Supports optional filtering via query parameters:
+ * - `taxonomy=type:value` (repeatable; OR within a type, AND across types)
+ * - `family`, `country`, `neighborhood`, `district` (repeatable; OR within a parameter)
+ * - `taxonomyValue` (legacy; matches the value slug in any taxonomy type)
+ *
+ * Different parameters are combined with AND. When filters are set and no
+ * point matches, an empty FeatureCollection is returned.
  *
  * @async
  * @param request - Next.js request object containing URL and query parameters
@@ -108,7 +53,7 @@ interface LanguagePointRecord {
  * @param params.params.locale - Locale code (e.g., 'en', 'nl', 'fr')
  * @param params.params.citySlug - City identifier slug (e.g., 'amsterdam', 'paris')
  * @returns Promise<NextResponse> - GeoJSON FeatureCollection with language points or error response
- * @throws {Error} Returns 400 if parameters are invalid
+ * @throws {Error} Returns 400 if parameters or filters are invalid
  * @throws {Error} Returns 404 if city is not found or no data available
  * @throws {Error} Returns 500 if database query fails
  * @throws {Error} Returns 503 if database connection fails
@@ -118,8 +63,12 @@ interface LanguagePointRecord {
  * GET /api/en/amsterdam/geojson
  *
  * @example
- * // Get language points filtered by taxonomy value
- * GET /api/en/amsterdam/geojson?taxonomyValue=medium
+ * // Large or medium communities that are liturgical languages
+ * GET /api/en/amsterdam/geojson?taxonomy=size:large&taxonomy=size:medium&taxonomy=status:liturgical
+ *
+ * @example
+ * // Romance languages from Morocco or Spain in the Centrum district
+ * GET /api/en/amsterdam/geojson?family=romance&country=MA&country=ES&district=centrum
  */
 export async function GET(
   request: NextRequest,
@@ -158,24 +107,16 @@ export async function GET(
       )
     }
 
-    const searchParams = request.nextUrl.searchParams
-    const taxonomyValueSlug = searchParams.get('taxonomyValue')
-
-    // Validate taxonomyValueSlug if provided
-    if (taxonomyValueSlug !== null) {
-      if (typeof taxonomyValueSlug !== 'string' || taxonomyValueSlug.length > 100) {
-        return NextResponse.json(
-          { error: 'Invalid taxonomy value slug length' },
-          { status: 400 }
-        )
-      }
+    // Parse and validate filters
+    const { filters, error: filterError } = parseLanguagePointFilters(
+      request.nextUrl.searchParams
+    )
 
-      if (!/^[a-z0-9-_]+$/.test(taxonomyValueSlug)) {
-        return NextResponse.json(
-          { error: 'Invalid taxonomy value slug format (expected lowercase alphanumeric with hyphens/underscores)' },
-          { status: 400 }
-        )
-      }
+    if (filterError !== null) {
+      return NextResponse.json(
+        { error: filterError },
+        { status: 400 }
+      )
     }
 
     // Get database client for the city (using admin client to bypass RLS for public API)
@@ -212,57 +153,24 @@ export async function GET(
       )
     }
 
-    // Build query for language points with taxonomy data
-    let query = supabase
+    // Fetch language points with taxonomy and filter data
+    // Filters are applied after mapping: PostgREST cannot express
+    // "AND across types, OR within a type" on an embedded one-to-many relation
+    const { data: points, error: pointsError } = await supabase
       .from('language_points')
-      .select(
-        `
-        id,
-        latitude,
-        longitude,
-        postal_code,
-        community_name,
-        language:languages!inner (
-          id,
-          endonym,
-          city_id,
-          language_translations!inner (
-            locale_code,
-            name
-          ),
-          language_taxonomies (
-            taxonomy_value:taxonomy_values (
-              slug,
-              color_hex,
-              icon_name,
-              icon_size_multiplier,
-              taxonomy_type:taxonomy_types (
-                slug
-              )
-            )
-          )
-        )
-      `
-      )
+      .select(LANGUAGE_POINT_SELECT)
       .eq('language.city_id', city.id)
-      .eq('language.language_translations.locale_code', locale)
-
-    // Apply taxonomy filter if provided
-    if (taxonomyValueSlug) {
-      query = query.eq(
-        'language.language_taxonomies.taxonomy_value.slug',
-        taxonomyValueSlug
-      )
-    }
-
-    const { data: points, error: pointsError } = await query
+      .is('deleted_at', null)
+      .is('language.deleted_at', null)
+      .is('neighborhood.deleted_at', null)
+      .is('language.language_taxonomies.taxonomy_value.deleted_at', null)
 
     if (pointsError) {
       console.error('Error fetching language points:', {
         error: pointsError,
         citySlug,
         locale,
-        taxonomyFilter: taxonomyValueSlug,
+        filters,
         timestamp: new Date().toISOString()
       })
       return NextResponse.json(
@@ -292,45 +200,9 @@ export async function GET(
     }
 
     // Validate and filter valid points only
-    const validPoints = points.filter((point: unknown): point is LanguagePointRecord => {
-      // First check if point is an object
-      if (!point || typeof point !== 'object') {
-        return false
-      }
-
-      // Cast to any for property access in type guard
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const p = point as any
-
-      // Check required fields exist and have correct types
-      if (typeof p.id !== 'string' ||
-          typeof p.latitude !== 'number' ||
-          typeof p.longitude !== 'number' ||
-          !p.language ||
-          typeof p.language !== 'object' ||
-          typeof p.language.id !== 'string') {
-        console.warn('Invalid language point record detected, skipping', {
-          pointId: p.id,
-          citySlug,
-          timestamp: new Date().toISOString()
-        })
-        return false
-      }
-
-      // Validate coordinate ranges
-      if (p.longitude < -180 || p.longitude > 180 ||
-          p.latitude < -90 || p.latitude > 90) {
-        console.warn('Invalid coordinates detected, skipping point', {
-          id: p.id,
-          longitude: p.longitude,
-          latitude: p.latitude,
-          timestamp: new Date().toISOString()
-        })
-        return false
-      }
-
-      return true
-    })
+    const validPoints = (points as unknown[]).filter((point) =>
+      isValidLanguagePointRecord(point, citySlug)
+    )
 
     if (validPoints.length === 0) {
       return NextResponse.json(
@@ -340,52 +212,16 @@ export async function GET(
     }
 
     // Convert to GeoJSON format
-    const geojson: FeatureCollection = {
+    const geojson: LanguagePointFeatureCollection = {
       type: 'FeatureCollection',
-      features: validPoints.map((point) => {
-        // Extract language data (cast to any for Supabase query result)
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const language = (point as any).language as Language
-
-        // Get the translated name (should be one result due to locale filter)
-        const languageName =
-          language.language_translations?.[0]?.name || language.endonym || 'Unknown'
-
-        // Extract taxonomy data with fallbacks
-        // Each language can have multiple taxonomy classifications (e.g., size, status)
-        // Fallback to safe defaults if taxonomy data is incomplete to prevent map rendering errors
-        const taxonomies =
-          language.language_taxonomies?.map((lt: LanguageTaxonomy) => ({
-            typeSlug: lt.taxonomy_value?.taxonomy_type?.slug || '',
-            valueSlug: lt.taxonomy_value?.slug || '',
-            // Default to neutral gray if no color defined
-            color: lt.taxonomy_value?.color_hex || '#CCCCCC',
-            // Default to 'circle' for consistent map markers
-            iconName: lt.taxonomy_value?.icon_name || 'circle',
-            // Default to 1.0 (normal size) for consistent rendering
-            iconSize: lt.taxonomy_value?.icon_size_multiplier || 1.0,
-          })) || []
-
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const p = point as any
+      features: validPoints.map((point) => toLanguagePointFeature(point, locale)),
+    }
 
-        return {
-          type: 'Feature',
-          geometry: {
-            type: 'Point',
-            coordinates: [p.longitude, p.latitude],
-          },
-          properties: {
-            id: p.id,
-            languageId: language.id,
-            languageName,
-            endonym: language.endonym,
-            postalCode: p.postal_code,
-            communityName: p.community_name,
-            taxonomies,
-          },
-        }
-      }),
+    // Apply filters (an empty result is valid when filtering)
+    if (hasActiveFilters(filters)) {
+      geojson.features = geojson.features.filter((feature) =>
+        matchesLanguagePointFilters(feature.properties, filters)
+      )
     }
 
     // Return GeoJSON with caching headers
@@ -0,0 +1,74 @@
+/**
+ * @file route.test.ts
+ * @description Tests for the public map taxonomies API route
+ */
+
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from './route'
+
+vi.mock('@/lib/map/taxonomies', () => ({
+  getPublicMapTaxonomies: vi.fn(),
+}))
+
+import { getPublicMapTaxonomies } from '@/lib/map/taxonomies'
+
+/**
+ * Call the route handler for the given locale and city
+ */
+function callRoute(locale: string, citySlug: string) {
+  const request = new NextRequest(
+    new URL(`http://localhost:3001/api/${locale}/${citySlug}/taxonomies`)
+  )
+  return GET(request, { params: Promise.resolve({ locale, citySlug }) })
+}
+
+describe('GET /api/[locale]/[citySlug]/taxonomies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return the taxonomy types with cache headers', async () => {
+    const types = [
+      {
+        slug: 'size',
+        name: 'Size',
+        description: null,
+        useForMapStyling: true,
+        useForFiltering: true,
+        displayOrder: 0,
+        values: [],
+      },
+    ]
+    ;(getPublicMapTaxonomies as Mock).mockResolvedValue(types)
+
+    const response = await callRoute('en', 'amsterdam')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ types })
+    expect(response.headers.get('Cache-Control')).toContain('s-maxage=300')
+    expect(getPublicMapTaxonomies).toHaveBeenCalledWith('amsterdam', 'en')
+  })
+
+  it('should return 404 when the city does not exist', async () => {
+    ;(getPublicMapTaxonomies as Mock).mockResolvedValue(null)
+
+    const response = await callRoute('en', 'unknown')
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should reject invalid parameters', async () => {
+    expect((await callRoute('en', 'Amsterdam!')).status).toBe(400)
+    expect((await callRoute('english', 'amsterdam')).status).toBe(400)
+    expect(getPublicMapTaxonomies).not.toHaveBeenCalled()
+  })
+
+  it('should return 500 when loading fails', async () => {
+    ;(getPublicMapTaxonomies as Mock).mockRejectedValue(new Error('Connection lost'))
+
+    const response = await callRoute('en', 'amsterdam')
+
+    expect(response.status).toBe(500)
+  })
+})
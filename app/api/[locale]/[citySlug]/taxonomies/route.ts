@@ -0,0 +1,93 @@
+/**
+ * @file route.ts
+ * @description Public API Route for map taxonomies
+ *
+ * Provides the taxonomy types and values a city uses on its public map,
+ * for rendering the map legend (`use_for_map_styling`) and filter panel
+ * (`use_for_filtering`).
+ *
+ * Key features:
+ * - Locale-aware type and value names (falls back to English, then slug)
+ * - Sorted by `display_order`
+ * - Optimized with HTTP caching (5min cache, 10min stale-while-revalidate)
+ *
+ * @module app/api/[locale]/[citySlug]/taxonomies/route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPublicMapTaxonomies } from '@/lib/map/taxonomies'
+
+/**
+ * GET /api/[locale]/[citySlug]/taxonomies
+ *
+ * Returns the taxonomy types used for map styling or filtering, with their
+ * translated values, colors and icons.
+ *
+ * @async
+ * @param _request - Next.js request object (unused)
+ * @param params - Async route parameters object
+ * @param params.params - Promise resolving to route parameters
+ * @param params.params.locale - Locale code (e.g., 'en', 'nl', 'fr')
+ * @param params.params.citySlug - City identifier slug (e.g., 'amsterdam')
+ * @returns Promise<NextResponse> - `{ types: MapTaxonomyType[] }` or error response
+ * @throws {Error} Returns 400 if parameters are invalid
+ * @throws {Error} Returns 404 if city is not found
+ * @throws {Error} Returns 500 if database query fails
+ *
+ * @example
+ * // Get legend and filter taxonomies for Amsterdam in Dutch
+ * GET /api/nl/amsterdam/taxonomies
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ locale: string; citySlug: string }> }
+) {
+  const { locale, citySlug } = await params
+
+  // Validate citySlug parameter
+  if (!citySlug || citySlug.length > 100 || !/^[a-z0-9-]+$/.test(citySlug)) {
+    return NextResponse.json(
+      { error: 'Invalid city slug format (expected lowercase alphanumeric with hyphens)' },
+      { status: 400 }
+    )
+  }
+
+  // Validate locale parameter
+  if (!locale || locale.length > 10 || !/^[a-z]{2}(-[A-Z]{2})?$/.test(locale)) {
+    return NextResponse.json(
+      { error: 'Invalid locale format (expected: en, nl, fr, etc.)' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const types = await getPublicMapTaxonomies(citySlug, locale)
+
+    if (!types) {
+      return NextResponse.json(
+        { error: 'City not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { types },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+        },
+      }
+    )
+  } catch (error) {
+    console.error('Error fetching map taxonomies:', {
+      citySlug,
+      locale,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    })
+    return NextResponse.json(
+      { error: 'Failed to fetch map taxonomies' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * @file route.test.ts
+ * @description Tests for the language point vector tile API route
+ */
+
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from './route'
+import { clearLanguagePointIndexCache } from '@/lib/map/tiles'
+import type { LanguagePointFeature } from '@/types/map'
+
+vi.mock('@/lib/map/points', () => ({
+  getLanguagePointFeatures: vi.fn(),
+}))
+
+import { getLanguagePointFeatures } from '@/lib/map/points'
+
+const feature: LanguagePointFeature = {
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [4.9041, 52.3676] },
+  properties: {
+    id: 'point-1',
+    languageId: 'lang-1',
+    languageName: 'Dutch',
+    endonym: 'Nederlands',
+    postalCode: null,
+    communityName: null,
+    taxonomies: [{ typeSlug: 'size', valueSlug: 'large', color: '#FF4500', iconName: 'users', iconSize: 1.5 }],
+    familySlug: null,
+    countryCode: null,
+    neighborhoodSlug: null,
+    districtSlug: null,
+  },
+}
+
+/**
+ * Call the route handler for a tile path like '16/33660/21538.mvt'
+ */
+function callRoute(tilePath: string, options: { query?: string; etag?: string } = {}) {
+  const [z, x, y] = tilePath.split('/')
+  const request = new NextRequest(
+    new URL(`http://localhost:3001/api/en/amsterdam/tiles/${tilePath}${options.query ?? ''}`),
+    { headers: options.etag ? { 'If-None-Match': options.etag } : {} }
+  )
+  return GET(request, { params: Promise.resolve({ locale: 'en', citySlug: 'amsterdam', z, x, y }) })
+}
+
+describe('GET /api/[locale]/[citySlug]/tiles/{z}/{x}/{y}.mvt', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearLanguagePointIndexCache()
+    ;(getLanguagePointFeatures as Mock).mockResolvedValue([feature])
+  })
+
+  it('should return a vector tile with ETag and cache headers', async () => {
+    const response = await callRoute('16/33660/21538.mvt')
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('application/vnd.mapbox-vector-tile')
+    expect(response.headers.get('ETag')).toMatch(/^"[0-9a-f]{40}"$/)
+    expect(response.headers.get('Cache-Control')).toContain('s-maxage=300')
+    expect((await response.arrayBuffer()).byteLength).toBeGreaterThan(0)
+  })
+
+  it('should return 304 when the ETag matches', async () => {
+    const etag = (await callRoute('16/33660/21538.mvt')).headers.get('ETag') ?? ''
+
+    const response = await callRoute('16/33660/21538.mvt', { etag })
+
+    expect(response.status).toBe(304)
+    // The cluster index is reused between requests
+    expect(getLanguagePointFeatures).toHaveBeenCalledTimes(1)
+  })
+
+  it('should return 204 for empty tiles', async () => {
+    const response = await callRoute('16/0/0.mvt')
+
+    expect(response.status).toBe(204)
+  })
+
+  it('should apply filters before building tiles', async () => {
+    const response = await callRoute('16/33660/21538.mvt', { query: '?taxonomy=size:small' })
+
+    expect(response.status).toBe(204)
+  })
+
+  it('should reject invalid tile paths and coordinates', async () => {
+    expect((await callRoute('16/33660/21538.png')).status).toBe(400)
+    expect((await callRoute('2/4/0.mvt')).status).toBe(400)
+    expect((await callRoute('23/0/0.mvt')).status).toBe(400)
+    expect((await callRoute('16/33660/21538.mvt', { query: '?taxonomy=large' })).status).toBe(400)
+    expect(getLanguagePointFeatures).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 when the city does not exist', async () => {
+    ;(getLanguagePointFeatures as Mock).mockResolvedValue(null)
+
+    expect((await callRoute('16/33660/21538.mvt')).status).toBe(404)
+  })
+
+  it('should return 500 when loading fails', async () => {
+    ;(getLanguagePointFeatures as Mock).mockRejectedValue(new Error('Connection lost'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect((await callRoute('16/33660/21538.mvt')).status).toBe(500)
+  })
+})
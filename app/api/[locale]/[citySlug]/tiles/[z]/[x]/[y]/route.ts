@@ -0,0 +1,172 @@
+/**
+ * @file route.ts
+ * @description Vector Tile API Route for language point data
+ *
+ * Serves language points as Mapbox Vector Tiles so the map only downloads
+ * the points of the visible area instead of the whole city dataset.
+ *
+ * Key features:
+ * - Same point properties as the GeoJSON route (`taxonomies` JSON-encoded)
+ * - Server-side clustering up to zoom 13
+ * - Same filter query parameters as the GeoJSON route
+ * - ETag validation (304 Not Modified) and HTTP caching
+ *
+ * @module app/api/[locale]/[citySlug]/tiles/[z]/[x]/[y]/route
+ */
+
+import { createHash } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getLanguagePointFeatures } from '@/lib/map/points'
+import {
+  hasActiveFilters,
+  matchesLanguagePointFilters,
+  parseLanguagePointFilters,
+} from '@/lib/map/filters'
+import {
+  encodeLanguagePointTile,
+  getCachedLanguagePointIndex,
+  isValidTileCoordinate,
+} from '@/lib/map/tiles'
+import { TILE_MAX_ZOOM } from '@/lib/map/constants'
+
+const CACHE_CONTROL = 'public, s-maxage=300, stale-while-revalidate=600'
+
+/**
+ * GET /api/[locale]/[citySlug]/tiles/{z}/{x}/{y}.mvt
+ *
+ * Returns one vector tile (layer `language-points`) of a city's language
+ * points. Empty tiles are returned as 204 No Content.
+ *
+ * @async
+ * @param request - Next.js request object containing filters and If-None-Match
+ * @param params - Async route parameters object
+ * @param params.params - Promise resolving to route parameters
+ * @param params.params.locale - Locale code (e.g., 'en', 'nl', 'fr')
+ * @param params.params.citySlug - City identifier slug (e.g., 'amsterdam')
+ * @param params.params.z - Zoom level
+ * @param params.params.x - Tile column
+ * @param params.params.y - Tile row with `.mvt` extension (e.g., '1345.mvt')
+ * @returns Promise<NextResponse> - Protobuf tile, 204/304 response, or error response
+ * @throws {Error} Returns 400 if parameters, tile coordinates or filters are invalid
+ * @throws {Error} Returns 404 if city is not found
+ * @throws {Error} Returns 500 if database query fails
+ *
+ * @example
+ * // Tile covering central Amsterdam at zoom 12
+ * GET /api/en/amsterdam/tiles/12/2104/1346.mvt
+ *
+ * @example
+ * // Same tile, only large communities
+ * GET /api/en/amsterdam/tiles/12/2104/1346.mvt?taxonomy=size:large
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ locale: string; citySlug: string; z: string; x: string; y: string }> }
+) {
+  const { locale, citySlug, z: zParam, x: xParam, y: yParam } = await params
+
+  // Validate citySlug parameter
+  if (!citySlug || citySlug.length > 100 || !/^[a-z0-9-]+$/.test(citySlug)) {
+    return NextResponse.json(
+      { error: 'Invalid city slug format (expected lowercase alphanumeric with hyphens)' },
+      { status: 400 }
+    )
+  }
+
+  // Validate locale parameter
+  if (!locale || locale.length > 10 || !/^[a-z]{2}(-[A-Z]{2})?$/.test(locale)) {
+    return NextResponse.json(
+      { error: 'Invalid locale format (expected: en, nl, fr, etc.)' },
+      { status: 400 }
+    )
+  }
+
+  // Validate tile coordinates ({y} carries the .mvt extension)
+  const yMatch = /^(\d{1,8})\.mvt$/.exec(yParam ?? '')
+  const isNumeric = (value: string | undefined) => /^\d{1,8}$/.test(value ?? '')
+
+  if (!yMatch || !isNumeric(zParam) || !isNumeric(xParam)) {
+    return NextResponse.json(
+      { error: 'Invalid tile path (expected /tiles/{z}/{x}/{y}.mvt)' },
+      { status: 400 }
+    )
+  }
+
+  const z = Number(zParam)
+  const x = Number(xParam)
+  const y = Number(yMatch[1])
+
+  if (!isValidTileCoordinate(z, x, y, TILE_MAX_ZOOM)) {
+    return NextResponse.json(
+      { error: `Invalid tile coordinates (zoom 0-${TILE_MAX_ZOOM}, x and y within 0..2^z-1)` },
+      { status: 400 }
+    )
+  }
+
+  // Parse and validate filters
+  const { filters, error: filterError } = parseLanguagePointFilters(request.nextUrl.searchParams)
+
+  if (filterError !== null) {
+    return NextResponse.json(
+      { error: filterError },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const cacheKey = `${citySlug}:${locale}:${JSON.stringify(filters)}`
+    const index = await getCachedLanguagePointIndex(cacheKey, async () => {
+      const features = await getLanguagePointFeatures(citySlug, locale)
+      if (!features || !hasActiveFilters(filters)) {
+        return features
+      }
+      return features.filter((feature) => matchesLanguagePointFilters(feature.properties, filters))
+    })
+
+    if (!index) {
+      return NextResponse.json(
+        { error: 'City not found' },
+        { status: 404 }
+      )
+    }
+
+    const tile = encodeLanguagePointTile(index, z, x, y)
+
+    if (!tile) {
+      return new NextResponse(null, {
+        status: 204,
+        headers: { 'Cache-Control': CACHE_CONTROL },
+      })
+    }
+
+    const etag = `"${createHash('sha1').update(tile).digest('hex')}"`
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, {
+        status: 304,
+        headers: { ETag: etag, 'Cache-Control': CACHE_CONTROL },
+      })
+    }
+
+    return new NextResponse(Buffer.from(tile), {
+      headers: {
+        'Content-Type': 'application/vnd.mapbox-vector-tile',
+        'Content-Length': String(tile.byteLength),
+        ETag: etag,
+        'Cache-Control': CACHE_CONTROL,
+      },
+    })
+  } catch (error) {
+    console.error('Error generating vector tile:', {
+      citySlug,
+      locale,
+      tile: { z, x, y },
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    })
+    return NextResponse.json(
+      { error: 'Failed to generate vector tile' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,7 +2,8 @@
  * Root Layout
  *
  * This is the root layout that wraps all pages.
- * Provides the HTML structure for all routes including auth callbacks.
+ * The HTML structure is rendered by the locale layout, which knows the
+ * language and writing direction of the page.
  */
 
 export default function RootLayout({
@@ -10,9 +11,5 @@ export default function RootLayout({
 }: {
   children: React.ReactNode
 }) {
-  return (
-    <html lang="en">
-      <body>{children}</body>
-    </html>
-  )
+  return children
 }
@@ -0,0 +1,21 @@
+/**
+ * Root Not Found Page
+ *
+ * Shown for requests that no locale route matches. The root layout renders
+ * no HTML structure of its own, so this page renders `<html>` and `<body>`.
+ */
+
+'use client'
+
+import NextError from 'next/error'
+import { defaultLocale } from '@/lib/i18n/config'
+
+export default function NotFound() {
+  return (
+    <html lang={defaultLocale}>
+      <body>
+        <NextError statusCode={404} />
+      </body>
+    </html>
+  )
+}
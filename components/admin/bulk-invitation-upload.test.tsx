@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for Bulk Invitation Upload Component
+ *
+ * Tests checking an uploaded CSV file and sending the invitations.
+ *
+ * @module components/admin/bulk-invitation-upload.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BulkInvitationUpload } from './bulk-invitation-upload'
+import { createBulkInvitations } from '@/app/actions/invitations'
+
+// Mock next-intl; keys are returned with their values appended
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key} ${Object.values(values).join(' ')}` : key,
+  useLocale: () => 'nl',
+}))
+
+vi.mock('@/app/actions/invitations', () => ({
+  createBulkInvitations: vi.fn(),
+}))
+
+const CSV = 'email,full_name,role\nana@example.com,Ana,admin\nben@example.com,Ben,\nnot-an-email,Cleo,\n'
+
+/**
+ * Upload CSV text through the file input; jsdom files have no `text()`
+ */
+async function uploadCsv(text: string) {
+  const user = userEvent.setup()
+  const file = new File([text], 'volunteers.csv', { type: 'text/csv' })
+  Object.defineProperty(file, 'text', { value: () => Promise.resolve(text) })
+  await user.upload(screen.getByLabelText('file'), file)
+  return user
+}
+
+describe('BulkInvitationUpload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should check the file before sending', async () => {
+    render(<BulkInvitationUpload citySlug="amsterdam" />)
+
+    await uploadCsv(CSV)
+
+    expect(await screen.findByText('summary 2 1')).toBeInTheDocument()
+    expect(screen.getByText(/^rowError 4 Invalid email address/)).toBeInTheDocument()
+    expect(createBulkInvitations).not.toHaveBeenCalled()
+  })
+
+  it('should send the valid rows in the interface locale and report the outcome', async () => {
+    const onInvited = vi.fn()
+    vi.mocked(createBulkInvitations).mockResolvedValue({
+      invited: 1,
+      failed: 1,
+      results: [
+        { email: 'ana@example.com', success: true, emailSent: false },
+        { email: 'ben@example.com', success: false, emailSent: false, error: 'A user with this email already exists' },
+      ],
+    })
+    render(<BulkInvitationUpload citySlug="amsterdam" onInvited={onInvited} />)
+
+    const user = await uploadCsv(CSV)
+    await user.click(await screen.findByRole('button', { name: 'button 2' }))
+
+    expect(createBulkInvitations).toHaveBeenCalledWith('amsterdam', [
+      { email: 'ana@example.com', fullName: 'Ana', role: 'admin', locale: 'nl' },
+      { email: 'ben@example.com', fullName: 'Ben', role: 'operator', locale: 'nl' },
+    ])
+    expect(await screen.findByText('result 1 1')).toBeInTheDocument()
+    expect(screen.getByText('failedRow ben@example.com A user with this email already exists')).toBeInTheDocument()
+    expect(screen.getByText('emailNotSent 1')).toBeInTheDocument()
+    expect(onInvited).toHaveBeenCalled()
+  })
+
+  it('should not offer to send a file without valid rows', async () => {
+    render(<BulkInvitationUpload citySlug="amsterdam" />)
+
+    await uploadCsv('address\nana@example.com\n')
+
+    expect(await screen.findByText('summary 0 1')).toBeInTheDocument()
+    expect(screen.queryByRole('button')).not.toBeInTheDocument()
+  })
+
+  it('should show an error when sending fails', async () => {
+    vi.mocked(createBulkInvitations).mockRejectedValue(new Error('Authentication required'))
+    render(<BulkInvitationUpload citySlug="amsterdam" />)
+
+    const user = await uploadCsv(CSV)
+    await user.click(await screen.findByRole('button', { name: 'button 2' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('error')
+  })
+})
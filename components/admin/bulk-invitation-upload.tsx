@@ -0,0 +1,154 @@
+/**
+ * Bulk Invitation Upload Component
+ *
+ * Invites a group of people to a city from a CSV file. The file is checked
+ * in the browser first, so problems are listed before anyone is emailed.
+ *
+ * @module components/admin/bulk-invitation-upload
+ */
+
+'use client'
+
+import { useState, type ChangeEvent } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import { Loader2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { createBulkInvitations } from '@/app/actions/invitations'
+import { parseBulkInvitations, type BulkInvitationFile } from '@/lib/invitations/bulk'
+import { defaultLocale, locales } from '@/lib/i18n/config'
+
+/**
+ * Number of row problems listed before the rest is summarized
+ */
+const MAX_LISTED_ROW_ERRORS = 5
+
+interface BulkInvitationUploadProps {
+  citySlug: string
+  /** Called after invitations were sent, to reload the list */
+  onInvited?: () => void
+}
+
+type BulkInvitationResult = Awaited<ReturnType<typeof createBulkInvitations>>
+
+/**
+ * BulkInvitationUpload component
+ *
+ * @param props - Component props
+ * @param props.citySlug - The slug of the city to invite to
+ * @param props.onInvited - Called after invitations were sent
+ * @returns Upload form JSX
+ */
+export function BulkInvitationUpload({ citySlug, onInvited }: BulkInvitationUploadProps) {
+  const t = useTranslations('admin.invitations.bulk')
+  const locale = useLocale()
+  const [checkedFile, setCheckedFile] = useState<BulkInvitationFile | null>(null)
+  const [isSending, setIsSending] = useState(false)
+  const [result, setResult] = useState<BulkInvitationResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    setCheckedFile(null)
+    setResult(null)
+    setError(null)
+
+    if (!file) {
+      return
+    }
+
+    const emailLocale = locales.find((candidate) => candidate === locale) ?? defaultLocale
+    setCheckedFile(parseBulkInvitations(await file.text(), emailLocale))
+  }
+
+  const handleSend = async () => {
+    if (!checkedFile || checkedFile.invitations.length === 0) {
+      return
+    }
+
+    setIsSending(true)
+    setError(null)
+
+    try {
+      const invitations = checkedFile.invitations.map(({ email, fullName, role, locale: emailLocale }) => ({
+        email,
+        fullName,
+        role,
+        locale: emailLocale,
+      }))
+      setResult(await createBulkInvitations(citySlug, invitations))
+      setCheckedFile(null)
+      onInvited?.()
+    } catch (err) {
+      console.error('Error sending bulk invitations:', err)
+      setError(t('error'))
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const failedResults = result?.results.filter((row) => !row.success) ?? []
+  const unsentEmails = result?.results.filter((row) => row.success && !row.emailSent).length ?? 0
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="bulk_invitation_file">{t('file')}</Label>
+        <Input
+          id="bulk_invitation_file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          disabled={isSending}
+        />
+        <p className="text-xs text-muted-foreground">{t('description')}</p>
+      </div>
+
+      {checkedFile && (
+        <div role="status" className="space-y-2 rounded-md border p-3 text-sm">
+          <p>{t('summary', { valid: checkedFile.invitations.length, skipped: checkedFile.issues.length })}</p>
+          {checkedFile.issues.length > 0 && (
+            <ul className="list-disc ps-5 text-yellow-800">
+              {checkedFile.issues.slice(0, MAX_LISTED_ROW_ERRORS).map(({ line, message }) => (
+                <li key={line}>{t('rowError', { line, message })}</li>
+              ))}
+              {checkedFile.issues.length > MAX_LISTED_ROW_ERRORS && (
+                <li>{t('moreRowErrors', { count: checkedFile.issues.length - MAX_LISTED_ROW_ERRORS })}</li>
+              )}
+            </ul>
+          )}
+          {checkedFile.invitations.length > 0 && (
+            <Button type="button" onClick={handleSend} disabled={isSending}>
+              {isSending ? (
+                <Loader2 className="me-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="me-2 h-4 w-4" />
+              )}
+              {isSending ? t('sending') : t('button', { count: checkedFile.invitations.length })}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {result && (
+        <div role="status" className="space-y-1 text-sm">
+          <p className="text-green-700">{t('result', { invited: result.invited, failed: result.failed })}</p>
+          {failedResults.length > 0 && (
+            <ul className="list-disc ps-5 text-red-600">
+              {failedResults.map((row) => (
+                <li key={row.email}>{t('failedRow', { email: row.email, error: row.error ?? '' })}</li>
+              ))}
+            </ul>
+          )}
+          {unsentEmails > 0 && <p className="text-yellow-800">{t('emailNotSent', { count: unsentEmails })}</p>}
+        </div>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for City Activity Component
+ *
+ * Tests listing the audit events of a city, opening their changes,
+ * filtering by date and paging.
+ *
+ * @module components/admin/city-activity.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { CityActivity } from './city-activity'
+import { getCityActivity, type AuditEvent } from '@/app/actions/audit'
+
+// Mock next-intl; keys are returned with their values appended
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key} ${Object.values(values).join(' ')}` : key,
+  useFormatter: () => ({ dateTime: (date: Date) => date.toISOString().slice(0, 10) }),
+}))
+
+vi.mock('@/app/actions/audit', () => ({
+  getCityActivity: vi.fn(),
+}))
+
+const updatedLanguage: AuditEvent = {
+  id: 'event-1',
+  occurredAt: '2025-03-02T10:00:00Z',
+  action: 'update',
+  entityType: 'languages',
+  entityId: 'language-1',
+  entityLabel: 'Türkçe',
+  actorId: 'user-1',
+  actorName: 'Alice',
+  before: { speaker_count: 100 },
+  after: { speaker_count: 120 },
+}
+
+const sweptInvitation: AuditEvent = {
+  id: 'event-2',
+  occurredAt: '2025-03-01T00:00:00Z',
+  action: 'delete',
+  entityType: 'invitations',
+  entityId: 'invitation-1',
+  entityLabel: 'bob@example.com',
+  actorId: null,
+  actorName: null,
+  before: { email: 'bob@example.com' },
+  after: null,
+}
+
+/**
+ * Table row of an event
+ */
+function getRow(label: string) {
+  return screen.getByText(label).closest('tr') as HTMLElement
+}
+
+describe('CityActivity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCityActivity).mockResolvedValue({
+      events: [updatedLanguage, sweptInvitation],
+      total: 120,
+      page: 1,
+      pageSize: 50,
+      actors: [{ id: 'user-1', name: 'Alice' }],
+    })
+  })
+
+  it('should list the events with their actor, action and entity', async () => {
+    render(<CityActivity citySlug="amsterdam" />)
+
+    expect(await screen.findByText('Türkçe')).toBeInTheDocument()
+    expect(getCityActivity).toHaveBeenCalledWith('amsterdam', { page: 1 })
+
+    const languageRow = within(getRow('Türkçe'))
+    expect(languageRow.getByText('Alice')).toBeInTheDocument()
+    expect(languageRow.getByText('actions.update')).toBeInTheDocument()
+    expect(languageRow.getByText('entities.languages')).toBeInTheDocument()
+
+    const invitationRow = within(getRow('bob@example.com'))
+    expect(invitationRow.getByText('system')).toBeInTheDocument()
+    expect(invitationRow.getByText('actions.delete')).toBeInTheDocument()
+    expect(screen.getByText('total 120')).toBeInTheDocument()
+  })
+
+  it('should show the values before and after a change', async () => {
+    const user = userEvent.setup()
+    render(<CityActivity citySlug="amsterdam" />)
+
+    await screen.findByText('Türkçe')
+
+    await user.click(within(getRow('Türkçe')).getByRole('button', { name: 'showChanges' }))
+
+    const changeRow = within(screen.getByText('speaker_count').closest('tr') as HTMLElement)
+    expect(changeRow.getByText('100')).toBeInTheDocument()
+    expect(changeRow.getByText('120')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'hideChanges' }))
+    expect(screen.queryByText('speaker_count')).not.toBeInTheDocument()
+  })
+
+  it('should filter by date from the first page', async () => {
+    const user = userEvent.setup()
+    render(<CityActivity citySlug="amsterdam" />)
+    await screen.findByText('Türkçe')
+
+    await user.type(screen.getByLabelText('filters.from'), '2025-03-01')
+
+    expect(getCityActivity).toHaveBeenLastCalledWith('amsterdam', { page: 1, from: '2025-03-01' })
+    expect(screen.getByRole('button', { name: 'filters.reset' })).toBeInTheDocument()
+  })
+
+  it('should page through the events', async () => {
+    const user = userEvent.setup()
+    render(<CityActivity citySlug="amsterdam" />)
+    await screen.findByText('page 1 3')
+
+    expect(screen.getByRole('button', { name: 'previous' })).toBeDisabled()
+    await user.click(screen.getByRole('button', { name: 'next' }))
+
+    expect(getCityActivity).toHaveBeenLastCalledWith('amsterdam', { page: 2 })
+  })
+
+  it('should show an error when the activity cannot be loaded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(getCityActivity).mockRejectedValue(new Error('Insufficient permissions'))
+
+    render(<CityActivity citySlug="amsterdam" />)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('errorLoad')
+  })
+})
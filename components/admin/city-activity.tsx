@@ -0,0 +1,316 @@
+/**
+ * City Activity Component
+ *
+ * Audit log of a city: who created, updated or deleted what, newest first,
+ * with filters by user, entity, action and date. Each event can be opened
+ * to compare the values before and after the change; deleted rows show
+ * everything they contained.
+ *
+ * @module components/admin/city-activity
+ */
+
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { useFormatter, useTranslations } from 'next-intl'
+import { Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  getCityActivity,
+  type AuditEvent,
+  type CityActivity as CityActivityPage,
+  type CityActivityFilters,
+} from '@/app/actions/audit'
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_GROUPS,
+  formatAuditValue,
+  getAuditChanges,
+  isAuditEntityGroup,
+  type AuditAction,
+} from '@/lib/audit/events'
+
+/**
+ * Select value for "no filter" (Radix Select needs a non-empty value)
+ */
+const ALL = '__all__'
+
+const ACTION_BADGE_CLASSES: Record<AuditAction, string> = {
+  create: 'border-transparent bg-green-100 text-green-800',
+  update: 'border-transparent bg-blue-100 text-blue-800',
+  delete: 'border-transparent bg-red-100 text-red-800',
+}
+
+interface CityActivityProps {
+  citySlug: string
+}
+
+/**
+ * CityActivity component
+ *
+ * @param props - Component props
+ * @param props.citySlug - The slug of the city
+ * @returns Activity log JSX
+ */
+export function CityActivity({ citySlug }: CityActivityProps) {
+  const t = useTranslations('admin.activity')
+  const format = useFormatter()
+
+  const [filters, setFilters] = useState<CityActivityFilters>({ page: 1 })
+  const [activity, setActivity] = useState<CityActivityPage | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadError, setLoadError] = useState(false)
+  const [openEventId, setOpenEventId] = useState<string | null>(null)
+
+  const loadActivity = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      setActivity(await getCityActivity(citySlug, filters))
+      setLoadError(false)
+    } catch (error) {
+      console.error('Error loading activity:', error)
+      setLoadError(true)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [citySlug, filters])
+
+  useEffect(() => {
+    loadActivity()
+  }, [loadActivity])
+
+  /**
+   * Change one filter and go back to the first page
+   */
+  const updateFilter = (changes: Partial<CityActivityFilters>) => {
+    setFilters((current) => ({ ...current, ...changes, page: 1 }))
+    setOpenEventId(null)
+  }
+
+  const goToPage = (page: number) => {
+    setFilters((current) => ({ ...current, page }))
+    setOpenEventId(null)
+  }
+
+  const getActorName = (event: AuditEvent) => {
+    if (!event.actorId) {
+      return t('system')
+    }
+    return event.actorName ?? t('unknownUser')
+  }
+
+  const pageCount = activity ? Math.max(1, Math.ceil(activity.total / activity.pageSize)) : 1
+  const hasFilters = Boolean(filters.actorId || filters.entityGroup || filters.action || filters.from || filters.to)
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-5">
+        <div className="space-y-1">
+          <Label htmlFor="activity_user">{t('filters.user')}</Label>
+          <Select
+            value={filters.actorId ?? ALL}
+            onValueChange={(value) => updateFilter({ actorId: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger id="activity_user">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t('filters.all')}</SelectItem>
+              {activity?.actors.map((actor) => (
+                <SelectItem key={actor.id} value={actor.id}>
+                  {actor.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="activity_entity">{t('filters.entity')}</Label>
+          <Select
+            value={filters.entityGroup ?? ALL}
+            onValueChange={(value) => updateFilter({ entityGroup: isAuditEntityGroup(value) ? value : undefined })}
+          >
+            <SelectTrigger id="activity_entity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t('filters.all')}</SelectItem>
+              {Object.keys(AUDIT_ENTITY_GROUPS).map((group) => (
+                <SelectItem key={group} value={group}>
+                  {t(`groups.${group}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="activity_action">{t('filters.action')}</Label>
+          <Select
+            value={filters.action ?? ALL}
+            onValueChange={(value) =>
+              updateFilter({ action: AUDIT_ACTIONS.find((action) => action === value) })
+            }
+          >
+            <SelectTrigger id="activity_action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t('filters.all')}</SelectItem>
+              {AUDIT_ACTIONS.map((action) => (
+                <SelectItem key={action} value={action}>
+                  {t(`actions.${action}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="activity_from">{t('filters.from')}</Label>
+          <Input
+            id="activity_from"
+            type="date"
+            value={filters.from ?? ''}
+            max={filters.to}
+            onChange={(event) => updateFilter({ from: event.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="activity_to">{t('filters.to')}</Label>
+          <Input
+            id="activity_to"
+            type="date"
+            value={filters.to ?? ''}
+            min={filters.from}
+            onChange={(event) => updateFilter({ to: event.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>{activity && t('total', { count: activity.total })}</span>
+        {hasFilters && (
+          <Button
+            type="button"
+            variant="link"
+            className="h-auto p-0"
+            onClick={() =>
+              updateFilter({ actorId: undefined, entityGroup: undefined, action: undefined, from: undefined, to: undefined })
+            }
+          >
+            {t('filters.reset')}
+          </Button>
+        )}
+      </div>
+
+      {loadError ? (
+        <p role="alert" className="text-sm text-red-600">
+          {t('errorLoad')}
+        </p>
+      ) : !activity ? (
+        <p className="flex items-center text-sm text-gray-600">
+          <Loader2 className="me-2 h-4 w-4 animate-spin" />
+          {t('loading')}
+        </p>
+      ) : activity.events.length === 0 ? (
+        <p className="text-sm text-gray-600">{t('empty')}</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="min-w-full divide-y divide-gray-200 text-sm" aria-busy={isLoading}>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {activity.events.map((event) => {
+                const isOpen = openEventId === event.id
+                const changes = isOpen ? getAuditChanges(event.before, event.after) : []
+
+                return (
+                  <Fragment key={event.id}>
+                    <tr>
+                      <td className="whitespace-nowrap px-4 py-3 text-gray-600">
+                        {format.dateTime(new Date(event.occurredAt), { dateStyle: 'medium', timeStyle: 'short' })}
+                      </td>
+                      <td className="px-4 py-3 text-gray-900">{getActorName(event)}</td>
+                      <td className="px-4 py-3">
+                        <Badge className={ACTION_BADGE_CLASSES[event.action]}>{t(`actions.${event.action}`)}</Badge>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="font-medium text-gray-900">{t(`entities.${event.entityType}`)}</div>
+                        {event.entityLabel && <div className="text-gray-500">{event.entityLabel}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-end">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          aria-expanded={isOpen}
+                          onClick={() => setOpenEventId(isOpen ? null : event.id)}
+                        >
+                          {isOpen ? t('hideChanges') : t('showChanges')}
+                        </Button>
+                      </td>
+                    </tr>
+                    {isOpen && (
+                      <tr>
+                        <td colSpan={5} className="bg-gray-50 px-4 py-3">
+                          {changes.length === 0 ? (
+                            <p className="text-gray-600">{t('noChanges')}</p>
+                          ) : (
+                            <table className="min-w-full text-xs">
+                              <thead className="text-start text-gray-500">
+                                <tr>
+                                  <th className="py-1 pe-4 font-medium">{t('columns.field')}</th>
+                                  <th className="py-1 pe-4 font-medium">{t('columns.before')}</th>
+                                  <th className="py-1 font-medium">{t('columns.after')}</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {changes.map((change) => (
+                                  <tr key={change.field} className="align-top">
+                                    <td className="py-1 pe-4 font-mono text-gray-700">{change.field}</td>
+                                    <td className="break-all py-1 pe-4 text-red-700">{formatAuditValue(change.before)}</td>
+                                    <td className="break-all py-1 text-green-700">{formatAuditValue(change.after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {activity && pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm text-gray-600">
+          <span>{t('page', { page: activity.page, pages: pageCount })}</span>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={isLoading || activity.page <= 1}
+            onClick={() => goToPage(activity.page - 1)}
+          >
+            {t('previous')}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={isLoading || activity.page >= pageCount}
+            onClick={() => goToPage(activity.page + 1)}
+          >
+            {t('next')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
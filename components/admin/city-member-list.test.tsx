@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for City Member List Component
+ *
+ * Tests listing the members of a city and the role, removal and
+ * deactivation actions.
+ *
+ * @module components/admin/city-member-list.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { CityMemberList } from './city-member-list'
+import {
+  getCityMembers,
+  removeCityMember,
+  setUserActive,
+  updateCityMemberRole,
+  type CityMember,
+} from '@/app/actions/city-users'
+
+// Mock next-intl; keys are returned with their values appended
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key} ${Object.values(values).join(' ')}` : key,
+  useFormatter: () => ({ dateTime: (date: Date) => date.toISOString().slice(0, 10) }),
+}))
+
+vi.mock('@/app/actions/city-users', () => ({
+  getCityMembers: vi.fn(),
+  updateCityMemberRole: vi.fn(),
+  removeCityMember: vi.fn(),
+  setUserActive: vi.fn(),
+}))
+
+const baseMember: CityMember = {
+  userId: 'user-1',
+  email: 'alice@example.com',
+  fullName: 'Alice',
+  cityRole: 'admin',
+  accountRole: 'admin',
+  isActive: true,
+  grantedAt: '2025-01-01T00:00:00Z',
+  grantedByName: null,
+  isSelf: true,
+  canManage: false,
+}
+
+const members: CityMember[] = [
+  baseMember,
+  { ...baseMember, userId: 'user-2', email: 'ana@example.com', fullName: 'Ana', cityRole: 'operator', accountRole: 'operator', isSelf: false, canManage: true },
+  { ...baseMember, userId: 'user-3', email: 'ben@example.com', fullName: null, cityRole: 'operator', accountRole: 'operator', isActive: false, isSelf: false, canManage: true },
+]
+
+/**
+ * Table row of a member
+ */
+function getRow(email: string) {
+  return screen.getByText(email).closest('tr') as HTMLElement
+}
+
+describe('CityMemberList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCityMembers).mockResolvedValue({ members, canDeactivate: false })
+  })
+
+  it('should list the members without actions on the admin themselves', async () => {
+    render(<CityMemberList citySlug="amsterdam" />)
+
+    expect(await screen.findByText('ana@example.com')).toBeInTheDocument()
+    expect(getCityMembers).toHaveBeenCalledWith('amsterdam')
+    expect(within(getRow('alice@example.com')).queryAllByRole('button')).toHaveLength(0)
+    expect(within(getRow('ben@example.com')).getByText('inactive')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'deactivate' })).not.toBeInTheDocument()
+  })
+
+  it('should filter by search', async () => {
+    const user = userEvent.setup()
+    render(<CityMemberList citySlug="amsterdam" />)
+    await screen.findByText('ana@example.com')
+
+    await user.type(screen.getByRole('searchbox'), 'ben')
+
+    expect(screen.getByText('ben@example.com')).toBeInTheDocument()
+    expect(screen.queryByText('ana@example.com')).not.toBeInTheDocument()
+  })
+
+  it('should promote an operator and reload the list', async () => {
+    const user = userEvent.setup()
+    vi.mocked(updateCityMemberRole).mockResolvedValue({ success: true, message: 'Role updated successfully' })
+    render(<CityMemberList citySlug="amsterdam" />)
+    await screen.findByText('ana@example.com')
+
+    await user.click(within(getRow('ana@example.com')).getByRole('button', { name: 'makeAdmin' }))
+
+    expect(updateCityMemberRole).toHaveBeenCalledWith('amsterdam', 'user-2', 'admin')
+    expect(await screen.findByText('roleChanged Ana admin')).toBeInTheDocument()
+    expect(getCityMembers).toHaveBeenCalledTimes(2)
+  })
+
+  it('should remove a member after confirmation', async () => {
+    const user = userEvent.setup()
+    vi.mocked(removeCityMember).mockResolvedValue({ success: true, message: 'City access revoked successfully' })
+    render(<CityMemberList citySlug="amsterdam" />)
+    await screen.findByText('ana@example.com')
+
+    await user.click(within(getRow('ana@example.com')).getByRole('button', { name: 'remove' }))
+    await user.click(within(await screen.findByRole('alertdialog')).getByRole('button', { name: 'remove' }))
+
+    expect(removeCityMember).toHaveBeenCalledWith('amsterdam', 'user-2')
+    expect(await screen.findByText('removed Ana')).toBeInTheDocument()
+  })
+
+  it('should let superusers deactivate and reactivate accounts', async () => {
+    const user = userEvent.setup()
+    vi.mocked(getCityMembers).mockResolvedValue({ members, canDeactivate: true })
+    vi.mocked(setUserActive).mockResolvedValue({ success: true, message: 'Account reactivated successfully' })
+    render(<CityMemberList citySlug="amsterdam" />)
+    await screen.findByText('ana@example.com')
+
+    expect(within(getRow('alice@example.com')).queryAllByRole('button')).toHaveLength(0)
+
+    await user.click(within(getRow('ben@example.com')).getByRole('button', { name: 'reactivate' }))
+    expect(setUserActive).toHaveBeenCalledWith('user-3', true)
+
+    await user.click(within(getRow('ana@example.com')).getByRole('button', { name: 'deactivate' }))
+    await user.click(within(await screen.findByRole('alertdialog')).getByRole('button', { name: 'deactivate' }))
+    expect(setUserActive).toHaveBeenCalledWith('user-2', false)
+  })
+
+  it('should show failed actions', async () => {
+    const user = userEvent.setup()
+    vi.mocked(updateCityMemberRole).mockRejectedValue(new Error('A city needs at least one admin'))
+    render(<CityMemberList citySlug="amsterdam" />)
+    await screen.findByText('ana@example.com')
+
+    await user.click(within(getRow('ana@example.com')).getByRole('button', { name: 'makeAdmin' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('errorAction A city needs at least one admin')
+  })
+
+  it('should show an error when the members cannot be loaded', async () => {
+    vi.mocked(getCityMembers).mockRejectedValue(new Error('Insufficient permissions'))
+
+    render(<CityMemberList citySlug="amsterdam" />)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('errorLoad')
+  })
+})
@@ -0,0 +1,307 @@
+/**
+ * City Member List Component
+ *
+ * Lists the members of a city with a search on email and name. Admins can
+ * promote operators, demote admins and remove members; superusers can also
+ * deactivate and reactivate accounts.
+ *
+ * @module components/admin/city-member-list
+ */
+
+'use client'
+
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react'
+import { useFormatter, useTranslations } from 'next-intl'
+import { ArrowDown, ArrowUp, Loader2, UserCheck, UserMinus, UserX } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import {
+  getCityMembers,
+  removeCityMember,
+  setUserActive,
+  updateCityMemberRole,
+  type CityMember,
+  type CityMembers,
+} from '@/app/actions/city-users'
+
+interface CityMemberListProps {
+  citySlug: string
+}
+
+interface ConfirmButtonProps {
+  label: ReactNode
+  title: string
+  message: string
+  confirmLabel: string
+  cancelLabel: string
+  disabled: boolean
+  onConfirm: () => void
+}
+
+/**
+ * Button that asks for confirmation before running its action
+ */
+function ConfirmButton({ label, title, message, confirmLabel, cancelLabel, disabled, onConfirm }: ConfirmButtonProps) {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={disabled}>
+          {label}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>{message}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>{cancelLabel}</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>{confirmLabel}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+/**
+ * CityMemberList component
+ *
+ * @param props - Component props
+ * @param props.citySlug - The slug of the city
+ * @returns Member list JSX
+ */
+export function CityMemberList({ citySlug }: CityMemberListProps) {
+  const t = useTranslations('admin.users')
+  const format = useFormatter()
+
+  const [data, setData] = useState<CityMembers | null>(null)
+  const [loadError, setLoadError] = useState(false)
+  const [search, setSearch] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setData(await getCityMembers(citySlug))
+      setLoadError(false)
+    } catch (error) {
+      console.error('Error loading city members:', error)
+      setLoadError(true)
+    }
+  }, [citySlug])
+
+  useEffect(() => {
+    loadMembers()
+  }, [loadMembers])
+
+  const visibleMembers = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return (data?.members ?? []).filter(
+      (member) =>
+        !query || member.email.toLowerCase().includes(query) || (member.fullName ?? '').toLowerCase().includes(query)
+    )
+  }, [data, search])
+
+  /**
+   * Run an action on one member, then show the outcome and reload
+   */
+  const runAction = async (member: CityMember, action: () => Promise<string>) => {
+    setBusyId(member.userId)
+    setNotice(null)
+
+    try {
+      setNotice({ type: 'success', text: await action() })
+      await loadMembers()
+    } catch (error) {
+      setNotice({
+        type: 'error',
+        text: t('errorAction', { message: error instanceof Error ? error.message : String(error) }),
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const getName = (member: CityMember) => member.fullName ?? member.email
+
+  const handleRoleChange = (member: CityMember) => {
+    const role = member.cityRole === 'admin' ? 'operator' : 'admin'
+    return runAction(member, async () => {
+      await updateCityMemberRole(citySlug, member.userId, role)
+      return t('roleChanged', { name: getName(member), role })
+    })
+  }
+
+  const handleRemove = (member: CityMember) =>
+    runAction(member, async () => {
+      await removeCityMember(citySlug, member.userId)
+      return t('removed', { name: getName(member) })
+    })
+
+  const handleSetActive = (member: CityMember, active: boolean) =>
+    runAction(member, async () => {
+      await setUserActive(member.userId, active)
+      return t(active ? 'reactivated' : 'deactivated', { name: getName(member) })
+    })
+
+  if (loadError) {
+    return (
+      <p role="alert" className="text-sm text-red-600">
+        {t('errorLoad')}
+      </p>
+    )
+  }
+
+  if (!data) {
+    return (
+      <p className="flex items-center text-sm text-gray-600">
+        <Loader2 className="me-2 h-4 w-4 animate-spin" />
+        {t('loading')}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Input
+        type="search"
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+        placeholder={t('searchPlaceholder')}
+        aria-label={t('searchPlaceholder')}
+        className="max-w-xs"
+      />
+
+      {notice && (
+        <p role={notice.type === 'error' ? 'alert' : 'status'} className={`text-sm ${notice.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>
+          {notice.text}
+        </p>
+      )}
+
+      {visibleMembers.length === 0 ? (
+        <p className="text-sm text-gray-600">{t('empty')}</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-start text-xs font-medium uppercase tracking-wider text-gray-500">
+              <tr>
+                <th className="px-4 py-3">{t('columns.member')}</th>
+                <th className="px-4 py-3">{t('columns.role')}</th>
+                <th className="px-4 py-3">{t('columns.status')}</th>
+                <th className="px-4 py-3">{t('columns.grantedAt')}</th>
+                <th className="px-4 py-3">{t('columns.grantedBy')}</th>
+                <th className="px-4 py-3 text-end">{t('columns.actions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {visibleMembers.map((member) => {
+                const isBusy = busyId === member.userId
+                const name = getName(member)
+                const canDeactivate = data.canDeactivate && !member.isSelf
+
+                return (
+                  <tr key={member.userId}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">
+                        {name}
+                        {member.isSelf && <span className="ms-2 text-xs text-gray-500">({t('you')})</span>}
+                      </div>
+                      {member.fullName && <div className="text-gray-500">{member.email}</div>}
+                    </td>
+                    <td className="px-4 py-3">
+                      {t(`roles.${member.cityRole}`)}
+                      {member.accountRole === 'superuser' && (
+                        <Badge variant="outline" className="ms-2">
+                          {t('superuser')}
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <Badge
+                        className={
+                          member.isActive
+                            ? 'border-transparent bg-green-100 text-green-800'
+                            : 'border-transparent bg-gray-100 text-gray-700'
+                        }
+                      >
+                        {member.isActive ? t('active') : t('inactive')}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {format.dateTime(new Date(member.grantedAt), { dateStyle: 'medium' })}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{member.grantedByName ?? '—'}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        {member.canManage && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => handleRoleChange(member)} disabled={isBusy}>
+                              {member.cityRole === 'admin' ? (
+                                <ArrowDown className="me-1 h-4 w-4" />
+                              ) : (
+                                <ArrowUp className="me-1 h-4 w-4" />
+                              )}
+                              {member.cityRole === 'admin' ? t('makeOperator') : t('makeAdmin')}
+                            </Button>
+                            <ConfirmButton
+                              label={
+                                <>
+                                  <UserMinus className="me-1 h-4 w-4" />
+                                  {t('remove')}
+                                </>
+                              }
+                              title={t('removeTitle')}
+                              message={t('removeMessage', { name })}
+                              confirmLabel={t('remove')}
+                              cancelLabel={t('cancel')}
+                              disabled={isBusy}
+                              onConfirm={() => handleRemove(member)}
+                            />
+                          </>
+                        )}
+                        {canDeactivate &&
+                          (member.isActive ? (
+                            <ConfirmButton
+                              label={
+                                <>
+                                  <UserX className="me-1 h-4 w-4" />
+                                  {t('deactivate')}
+                                </>
+                              }
+                              title={t('deactivateTitle')}
+                              message={t('deactivateMessage', { name })}
+                              confirmLabel={t('deactivate')}
+                              cancelLabel={t('cancel')}
+                              disabled={isBusy}
+                              onConfirm={() => handleSetActive(member, false)}
+                            />
+                          ) : (
+                            <Button size="sm" variant="outline" onClick={() => handleSetActive(member, true)} disabled={isBusy}>
+                              <UserCheck className="me-1 h-4 w-4" />
+                              {t('reactivate')}
+                            </Button>
+                          ))}
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
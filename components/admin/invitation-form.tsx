@@ -193,7 +193,7 @@ export function InvitationForm({ cities, onSuccess, onCancel }: InvitationFormPr
           <div className="space-y-2">
             <Label htmlFor="email">{t('emailLabel')}</Label>
             <div className="relative">
-              <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <Mail className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
               <Input
                 id="email"
                 type="email"
@@ -202,7 +202,7 @@ export function InvitationForm({ cities, onSuccess, onCancel }: InvitationFormPr
                 onChange={(e) =>
                   setFormData({ ...formData, email: e.target.value })
                 }
-                className="pl-10"
+                className="ps-10"
                 required
                 disabled={isLoading}
               />
@@ -213,7 +213,7 @@ export function InvitationForm({ cities, onSuccess, onCancel }: InvitationFormPr
           <div className="space-y-2">
             <Label htmlFor="fullName">{t('fullNameLabel')}</Label>
             <div className="relative">
-              <User className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <User className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
               <Input
                 id="fullName"
                 type="text"
@@ -222,7 +222,7 @@ export function InvitationForm({ cities, onSuccess, onCancel }: InvitationFormPr
                 onChange={(e) =>
                   setFormData({ ...formData, fullName: e.target.value })
                 }
-                className="pl-10"
+                className="ps-10"
                 required
                 disabled={isLoading}
               />
@@ -316,7 +316,7 @@ export function InvitationForm({ cities, onSuccess, onCancel }: InvitationFormPr
           <Button type="submit" disabled={isLoading}>
             {isLoading ? (
               <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                <Loader2 className="me-2 h-4 w-4 animate-spin" />
                 {t('submitting')}
               </>
             ) : (
@@ -0,0 +1,166 @@
+/**
+ * Unit Tests for Invitation List Component
+ *
+ * Tests filtering the invitations of a city and the resend, extend and
+ * revoke actions.
+ *
+ * @module components/admin/invitation-list.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { InvitationList } from './invitation-list'
+import {
+  extendInvitation,
+  getCityInvitations,
+  revokeInvitation,
+  sendInvitationReminder,
+  type CityInvitation,
+} from '@/app/actions/invitations'
+
+// Mock next-intl; keys are returned with their values appended
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key} ${Object.values(values).filter((value) => typeof value !== 'object').join(' ')}` : key,
+  useFormatter: () => ({ dateTime: (date: Date) => date.toISOString().slice(0, 10) }),
+  useLocale: () => 'en',
+}))
+
+vi.mock('@/app/actions/invitations', () => ({
+  getCityInvitations: vi.fn(),
+  sendInvitationReminder: vi.fn(),
+  extendInvitation: vi.fn(),
+  revokeInvitation: vi.fn(),
+}))
+
+const baseInvitation: CityInvitation = {
+  id: 'invitation-1',
+  email: 'ana@example.com',
+  fullName: 'Ana de Vries',
+  role: 'operator',
+  locale: 'nl',
+  status: 'pending',
+  inviterName: 'Alice Admin',
+  createdAt: '2025-01-01T00:00:00Z',
+  expiresAt: '2025-01-08T00:00:00Z',
+  acceptedAt: null,
+  revokedAt: null,
+  emailSentAt: '2025-01-01T00:00:00Z',
+  reminderSentAt: null,
+  cities: [{ slug: 'amsterdam', name: 'Amsterdam' }],
+}
+
+const invitations: CityInvitation[] = [
+  baseInvitation,
+  { ...baseInvitation, id: 'invitation-2', email: 'ben@example.com', fullName: 'Ben', status: 'accepted' },
+  { ...baseInvitation, id: 'invitation-3', email: 'cleo@example.com', fullName: null, status: 'expired', emailSentAt: null },
+]
+
+/**
+ * Table row of an invitation
+ */
+function getRow(email: string) {
+  return screen.getByText(email).closest('tr') as HTMLElement
+}
+
+describe('InvitationList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCityInvitations).mockResolvedValue(invitations)
+  })
+
+  it('should list the invitations of the city', async () => {
+    render(<InvitationList citySlug="amsterdam" />)
+
+    expect(await screen.findByText('ana@example.com')).toBeInTheDocument()
+    expect(getCityInvitations).toHaveBeenCalledWith('amsterdam', 'en')
+    expect(within(getRow('cleo@example.com')).getByText('neverSent')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'filters.all (3)' })).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('should filter by status and search', async () => {
+    const user = userEvent.setup()
+    render(<InvitationList citySlug="amsterdam" />)
+    await screen.findByText('ana@example.com')
+
+    await user.click(screen.getByRole('button', { name: 'filters.accepted (1)' }))
+    expect(screen.getByText('ben@example.com')).toBeInTheDocument()
+    expect(screen.queryByText('ana@example.com')).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'filters.all (3)' }))
+    await user.type(screen.getByRole('searchbox'), 'vries')
+    expect(screen.getByText('ana@example.com')).toBeInTheDocument()
+    expect(screen.queryByText('ben@example.com')).not.toBeInTheDocument()
+  })
+
+  it('should only offer actions that fit the status', async () => {
+    render(<InvitationList citySlug="amsterdam" />)
+    await screen.findByText('ana@example.com')
+
+    expect(within(getRow('ana@example.com')).getAllByRole('button').map((button) => button.textContent)).toEqual([
+      'resend',
+      'extend',
+      'revoke',
+    ])
+    expect(within(getRow('cleo@example.com')).getAllByRole('button').map((button) => button.textContent)).toEqual([
+      'extend',
+      'revoke',
+    ])
+    expect(within(getRow('ben@example.com')).queryAllByRole('button')).toHaveLength(0)
+  })
+
+  it('should resend and extend invitations and reload the list', async () => {
+    const user = userEvent.setup()
+    vi.mocked(sendInvitationReminder).mockResolvedValue({ success: true, message: 'Reminder sent successfully' })
+    vi.mocked(extendInvitation).mockResolvedValue({
+      success: true,
+      message: 'Invitation extended successfully',
+      expiresAt: '2025-02-01T00:00:00Z',
+    })
+    render(<InvitationList citySlug="amsterdam" />)
+    await screen.findByText('ana@example.com')
+
+    await user.click(within(getRow('ana@example.com')).getByRole('button', { name: 'resend' }))
+    expect(sendInvitationReminder).toHaveBeenCalledWith('invitation-1')
+    expect(await screen.findByText('resent ana@example.com')).toBeInTheDocument()
+
+    await user.click(within(getRow('cleo@example.com')).getByRole('button', { name: 'extend' }))
+    expect(extendInvitation).toHaveBeenCalledWith('invitation-3')
+    expect(await screen.findByText('extended cleo@example.com')).toBeInTheDocument()
+    expect(getCityInvitations).toHaveBeenCalledTimes(3)
+  })
+
+  it('should revoke after confirmation', async () => {
+    const user = userEvent.setup()
+    vi.mocked(revokeInvitation).mockResolvedValue({ success: true, message: 'Invitation revoked successfully' })
+    render(<InvitationList citySlug="amsterdam" />)
+    await screen.findByText('ana@example.com')
+
+    await user.click(within(getRow('ana@example.com')).getByRole('button', { name: 'revoke' }))
+    const dialog = await screen.findByRole('alertdialog')
+    await user.click(within(dialog).getByRole('button', { name: 'revoke' }))
+
+    expect(revokeInvitation).toHaveBeenCalledWith('invitation-1')
+    expect(await screen.findByText('revoked ana@example.com')).toBeInTheDocument()
+  })
+
+  it('should show failed actions', async () => {
+    const user = userEvent.setup()
+    vi.mocked(sendInvitationReminder).mockRejectedValue(new Error('Failed to send reminder email'))
+    render(<InvitationList citySlug="amsterdam" />)
+    await screen.findByText('ana@example.com')
+
+    await user.click(within(getRow('ana@example.com')).getByRole('button', { name: 'resend' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('errorAction Failed to send reminder email')
+  })
+
+  it('should show an error when the invitations cannot be loaded', async () => {
+    vi.mocked(getCityInvitations).mockRejectedValue(new Error('Insufficient permissions'))
+
+    render(<InvitationList citySlug="amsterdam" />)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('errorLoad')
+  })
+})
@@ -0,0 +1,276 @@
+/**
+ * Invitation List Component
+ *
+ * Lists the invitations to a city with filters by status and a search on
+ * email and name. Pending invitations can be resent, extended or revoked;
+ * expired ones extended or revoked.
+ *
+ * @module components/admin/invitation-list
+ */
+
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useFormatter, useLocale, useTranslations } from 'next-intl'
+import { CalendarPlus, Loader2, Send, XCircle } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import {
+  extendInvitation,
+  getCityInvitations,
+  revokeInvitation,
+  sendInvitationReminder,
+  type CityInvitation,
+  type InvitationStatus,
+} from '@/app/actions/invitations'
+
+const STATUS_FILTERS: Array<InvitationStatus | 'all'> = ['all', 'pending', 'accepted', 'expired', 'revoked']
+
+const STATUS_BADGE_CLASSES: Record<InvitationStatus, string> = {
+  pending: 'border-transparent bg-blue-100 text-blue-800',
+  accepted: 'border-transparent bg-green-100 text-green-800',
+  expired: 'border-transparent bg-yellow-100 text-yellow-800',
+  revoked: 'border-transparent bg-gray-100 text-gray-700',
+}
+
+interface InvitationListProps {
+  citySlug: string
+  /** Change to reload the list, e.g. after a bulk upload */
+  reloadKey?: number
+}
+
+/**
+ * InvitationList component
+ *
+ * @param props - Component props
+ * @param props.citySlug - The slug of the city
+ * @param props.reloadKey - Reloads the list when changed
+ * @returns Invitation list JSX
+ */
+export function InvitationList({ citySlug, reloadKey = 0 }: InvitationListProps) {
+  const t = useTranslations('admin.invitations.list')
+  const format = useFormatter()
+  const locale = useLocale()
+
+  const [invitations, setInvitations] = useState<CityInvitation[] | null>(null)
+  const [loadError, setLoadError] = useState(false)
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus | 'all'>('all')
+  const [search, setSearch] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      setInvitations(await getCityInvitations(citySlug, locale))
+      setLoadError(false)
+    } catch (error) {
+      console.error('Error loading invitations:', error)
+      setLoadError(true)
+    }
+  }, [citySlug, locale])
+
+  useEffect(() => {
+    loadInvitations()
+  }, [loadInvitations, reloadKey])
+
+  const counts = useMemo(() => {
+    const result: Record<InvitationStatus | 'all', number> = { all: 0, pending: 0, accepted: 0, expired: 0, revoked: 0 }
+    for (const invitation of invitations ?? []) {
+      result.all++
+      result[invitation.status]++
+    }
+    return result
+  }, [invitations])
+
+  const visibleInvitations = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return (invitations ?? []).filter(
+      (invitation) =>
+        (statusFilter === 'all' || invitation.status === statusFilter) &&
+        (!query ||
+          invitation.email.toLowerCase().includes(query) ||
+          (invitation.fullName ?? '').toLowerCase().includes(query))
+    )
+  }, [invitations, statusFilter, search])
+
+  /**
+   * Run an action on one invitation, then show the outcome and reload
+   */
+  const runAction = async (invitation: CityInvitation, action: () => Promise<string>) => {
+    setBusyId(invitation.id)
+    setNotice(null)
+
+    try {
+      setNotice({ type: 'success', text: await action() })
+      await loadInvitations()
+    } catch (error) {
+      setNotice({
+        type: 'error',
+        text: t('errorAction', { message: error instanceof Error ? error.message : String(error) }),
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleResend = (invitation: CityInvitation) =>
+    runAction(invitation, async () => {
+      await sendInvitationReminder(invitation.id)
+      return t('resent', { email: invitation.email })
+    })
+
+  const handleExtend = (invitation: CityInvitation) =>
+    runAction(invitation, async () => {
+      const { expiresAt } = await extendInvitation(invitation.id)
+      return t('extended', { email: invitation.email, expiresAt: new Date(expiresAt) })
+    })
+
+  const handleRevoke = (invitation: CityInvitation) =>
+    runAction(invitation, async () => {
+      await revokeInvitation(invitation.id)
+      return t('revoked', { email: invitation.email })
+    })
+
+  if (loadError) {
+    return (
+      <p role="alert" className="text-sm text-red-600">
+        {t('errorLoad')}
+      </p>
+    )
+  }
+
+  if (!invitations) {
+    return (
+      <p className="flex items-center text-sm text-gray-600">
+        <Loader2 className="me-2 h-4 w-4 animate-spin" />
+        {t('loading')}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {STATUS_FILTERS.map((status) => (
+          <Button
+            key={status}
+            type="button"
+            size="sm"
+            variant={statusFilter === status ? 'default' : 'outline'}
+            aria-pressed={statusFilter === status}
+            onClick={() => setStatusFilter(status)}
+          >
+            {t(`filters.${status}`)} ({counts[status]})
+          </Button>
+        ))}
+        <Input
+          type="search"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder={t('searchPlaceholder')}
+          aria-label={t('searchPlaceholder')}
+          className="ms-auto max-w-xs"
+        />
+      </div>
+
+      {notice && (
+        <p role={notice.type === 'error' ? 'alert' : 'status'} className={`text-sm ${notice.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>
+          {notice.text}
+        </p>
+      )}
+
+      {visibleInvitations.length === 0 ? (
+        <p className="text-sm text-gray-600">{t('empty')}</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-start text-xs font-medium uppercase tracking-wider text-gray-500">
+              <tr>
+                <th className="px-4 py-3">{t('columns.invitee')}</th>
+                <th className="px-4 py-3">{t('columns.role')}</th>
+                <th className="px-4 py-3">{t('columns.status')}</th>
+                <th className="px-4 py-3">{t('columns.lastEmail')}</th>
+                <th className="px-4 py-3">{t('columns.expires')}</th>
+                <th className="px-4 py-3">{t('columns.invitedBy')}</th>
+                <th className="px-4 py-3 text-end">{t('columns.actions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {visibleInvitations.map((invitation) => {
+                const lastEmail = invitation.reminderSentAt ?? invitation.emailSentAt
+                const isBusy = busyId === invitation.id
+                const canChange = invitation.status === 'pending' || invitation.status === 'expired'
+
+                return (
+                  <tr key={invitation.id}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{invitation.fullName ?? invitation.email}</div>
+                      {invitation.fullName && <div className="text-gray-500">{invitation.email}</div>}
+                    </td>
+                    <td className="px-4 py-3">{t(`roles.${invitation.role}`)}</td>
+                    <td className="px-4 py-3">
+                      <Badge className={STATUS_BADGE_CLASSES[invitation.status]}>{t(`filters.${invitation.status}`)}</Badge>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {lastEmail ? format.dateTime(new Date(lastEmail), { dateStyle: 'medium' }) : t('neverSent')}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {format.dateTime(new Date(invitation.expiresAt), { dateStyle: 'medium' })}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{invitation.inviterName ?? '—'}</td>
+                    <td className="px-4 py-3">
+                      {canChange && (
+                        <div className="flex justify-end gap-2">
+                          {invitation.status === 'pending' && (
+                            <Button size="sm" variant="outline" onClick={() => handleResend(invitation)} disabled={isBusy}>
+                              <Send className="me-1 h-4 w-4" />
+                              {t('resend')}
+                            </Button>
+                          )}
+                          <Button size="sm" variant="outline" onClick={() => handleExtend(invitation)} disabled={isBusy}>
+                            <CalendarPlus className="me-1 h-4 w-4" />
+                            {t('extend')}
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="outline" disabled={isBusy}>
+                                <XCircle className="me-1 h-4 w-4" />
+                                {t('revoke')}
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>{t('revokeTitle')}</AlertDialogTitle>
+                                <AlertDialogDescription>{t('revokeMessage', { email: invitation.email })}</AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleRevoke(invitation)}>{t('revoke')}</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+/**
+ * Trash Retention Form Component
+ *
+ * Setting for how many days deleted items of a city stay in the trash
+ * before they are purged automatically.
+ *
+ * @module components/admin/trash-retention-form
+ */
+
+'use client'
+
+import { useEffect, useState, type FormEvent } from 'react'
+import { useTranslations } from 'next-intl'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { getTrashRetention, updateTrashRetention } from '@/app/actions/trash'
+import { MAX_TRASH_RETENTION_DAYS, MIN_TRASH_RETENTION_DAYS } from '@/lib/trash/items'
+
+interface TrashRetentionFormProps {
+  citySlug: string
+}
+
+/**
+ * TrashRetentionForm component
+ *
+ * @param props - Component props
+ * @param props.citySlug - The slug of the city
+ * @returns Retention form JSX
+ */
+export function TrashRetentionForm({ citySlug }: TrashRetentionFormProps) {
+  const t = useTranslations('admin.settings.trash')
+
+  const [days, setDays] = useState('')
+  const [loadError, setLoadError] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    getTrashRetention(citySlug)
+      .then((value) => setDays(String(value)))
+      .catch((error) => {
+        console.error('Error loading trash retention:', error)
+        setLoadError(true)
+      })
+  }, [citySlug])
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setIsSaving(true)
+    setNotice(null)
+
+    try {
+      await updateTrashRetention(citySlug, Number(days))
+      setNotice({ type: 'success', text: t('saved') })
+    } catch (error) {
+      setNotice({
+        type: 'error',
+        text: t('saveError', { message: error instanceof Error ? error.message : String(error) }),
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (loadError) {
+    return <p className="text-sm text-red-600">{t('loadError')}</p>
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="trash-retention-days">{t('label')}</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="trash-retention-days"
+            type="number"
+            min={MIN_TRASH_RETENTION_DAYS}
+            max={MAX_TRASH_RETENTION_DAYS}
+            step={1}
+            required
+            className="w-32"
+            value={days}
+            disabled={days === '' || isSaving}
+            onChange={(event) => setDays(event.target.value)}
+          />
+          <span className="text-sm text-gray-600">{t('days')}</span>
+        </div>
+        <p className="text-sm text-gray-600">
+          {t('help', { min: MIN_TRASH_RETENTION_DAYS, max: MAX_TRASH_RETENTION_DAYS })}
+        </p>
+      </div>
+
+      {notice && (
+        <p role={notice.type === 'error' ? 'alert' : 'status'} className={notice.type === 'error' ? 'text-sm text-red-600' : 'text-sm text-green-700'}>
+          {notice.text}
+        </p>
+      )}
+
+      <Button type="submit" disabled={days === '' || isSaving}>
+        {isSaving && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+        {t('save')}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,181 @@
+/**
+ * Unit Tests for Invitation Acceptance Component
+ *
+ * Tests the invitation states, the magic link sign-in that returns to the
+ * invitation and accepting the invitation.
+ *
+ * @module components/auth/invitation-acceptance.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { InvitationAcceptance } from './invitation-acceptance'
+import { acceptInvitation, type InvitationDetails } from '@/app/actions/invitations'
+import { signInWithMagicLink, signOut } from '@/lib/auth/client'
+
+const refresh = vi.fn()
+
+// Mock next-intl; keys are returned with their values appended
+vi.mock('next-intl', () => ({
+  useTranslations: (namespace: string) => (key: string, values?: Record<string, unknown>) =>
+    values
+      ? `${namespace}.${key} ${Object.values(values).filter((value) => typeof value !== 'object').join(' ')}`
+      : `${namespace}.${key}`,
+  useLocale: () => 'nl',
+}))
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ refresh }),
+}))
+
+vi.mock('@/app/actions/invitations', () => ({
+  acceptInvitation: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/client', () => ({
+  signInWithMagicLink: vi.fn(),
+  signOut: vi.fn(),
+}))
+
+const pendingInvitation: InvitationDetails = {
+  status: 'pending',
+  email: 'invited@example.com',
+  fullName: 'Invited User',
+  role: 'operator',
+  inviterName: 'Alice Admin',
+  expiresAt: '2030-01-01T00:00:00Z',
+  cities: [
+    { slug: 'amsterdam', name: 'Amsterdam', role: 'operator' },
+    { slug: 'utrecht', name: 'Utrecht', role: 'operator' },
+  ],
+}
+
+describe('InvitationAcceptance', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('Pending invitation', () => {
+    it('should show the granted cities and roles', () => {
+      render(<InvitationAcceptance token="abc123" invitation={pendingInvitation} currentEmail={null} />)
+
+      expect(screen.getByText('Amsterdam')).toBeInTheDocument()
+      expect(screen.getByText('Utrecht')).toBeInTheDocument()
+      expect(screen.getAllByText('auth.invitation.roles.operator')).toHaveLength(2)
+      expect(screen.getByText('auth.invitation.invitedBy Alice Admin')).toBeInTheDocument()
+    })
+
+    it('should send a magic link to the invited address that returns to the invitation', async () => {
+      const user = userEvent.setup()
+      vi.mocked(signInWithMagicLink).mockResolvedValue({ success: true })
+
+      render(<InvitationAcceptance token="abc123" invitation={pendingInvitation} currentEmail={null} />)
+
+      expect(screen.getByLabelText('auth.invitation.emailLabel')).toHaveValue('invited@example.com')
+      await user.click(screen.getByRole('button', { name: 'auth.invitation.sendLinkButton' }))
+
+      expect(signInWithMagicLink).toHaveBeenCalledWith('invited@example.com', '/nl/invite/abc123')
+      expect(await screen.findByText('auth.invitation.linkSentTitle')).toBeInTheDocument()
+    })
+
+    it('should show an error when the magic link cannot be sent', async () => {
+      const user = userEvent.setup()
+      vi.mocked(signInWithMagicLink).mockResolvedValue({ success: false, error: 'Rate limit exceeded' })
+
+      render(<InvitationAcceptance token="abc123" invitation={pendingInvitation} currentEmail={null} />)
+      await user.click(screen.getByRole('button', { name: 'auth.invitation.sendLinkButton' }))
+
+      expect(await screen.findByText('Rate limit exceeded')).toBeInTheDocument()
+    })
+
+    it('should accept the invitation for the invited account', async () => {
+      const user = userEvent.setup()
+      vi.mocked(acceptInvitation).mockResolvedValue({ success: true, message: 'Invitation accepted' })
+
+      render(
+        <InvitationAcceptance token="abc123" invitation={pendingInvitation} currentEmail="Invited@Example.com" />
+      )
+
+      expect(screen.queryByRole('button', { name: 'auth.invitation.sendLinkButton' })).not.toBeInTheDocument()
+      await user.click(screen.getByRole('button', { name: 'auth.invitation.acceptButton' }))
+
+      expect(acceptInvitation).toHaveBeenCalledWith('abc123')
+      await waitFor(() => expect(refresh).toHaveBeenCalled())
+    })
+
+    it('should show an error when accepting fails', async () => {
+      const user = userEvent.setup()
+      vi.mocked(acceptInvitation).mockRejectedValue(new Error('Invitation has expired'))
+
+      render(
+        <InvitationAcceptance token="abc123" invitation={pendingInvitation} currentEmail="invited@example.com" />
+      )
+      await user.click(screen.getByRole('button', { name: 'auth.invitation.acceptButton' }))
+
+      expect(await screen.findByText('auth.invitation.errorGeneric')).toBeInTheDocument()
+    })
+
+    it('should ask users signed in with another account to sign out', async () => {
+      const user = userEvent.setup()
+      vi.mocked(signOut).mockResolvedValue({ success: true })
+
+      render(
+        <InvitationAcceptance token="abc123" invitation={pendingInvitation} currentEmail="someone@example.com" />
+      )
+
+      expect(screen.getByText('auth.invitation.wrongAccountTitle')).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: 'auth.invitation.acceptButton' })).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: 'auth.invitation.signOutButton' }))
+
+      expect(signOut).toHaveBeenCalled()
+      await waitFor(() => expect(refresh).toHaveBeenCalled())
+    })
+  })
+
+  describe('Closed invitations', () => {
+    it('should show an unknown token as invalid', () => {
+      render(<InvitationAcceptance token="abc123" invitation={null} currentEmail={null} />)
+
+      expect(screen.getByText('auth.invitation.invalidTitle')).toBeInTheDocument()
+    })
+
+    it.each([
+      ['expired', 'auth.invitation.expiredTitle'],
+      ['revoked', 'auth.invitation.revokedTitle'],
+    ] as const)('should show %s invitations without sign-in', (status, title) => {
+      render(
+        <InvitationAcceptance token="abc123" invitation={{ ...pendingInvitation, status }} currentEmail={null} />
+      )
+
+      expect(screen.getByText(title)).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: 'auth.invitation.sendLinkButton' })).not.toBeInTheDocument()
+    })
+
+    it('should link the invitee to their cities once accepted', () => {
+      render(
+        <InvitationAcceptance
+          token="abc123"
+          invitation={{ ...pendingInvitation, status: 'accepted' }}
+          currentEmail="invited@example.com"
+        />
+      )
+
+      expect(screen.getByText('auth.invitation.acceptedMessage')).toBeInTheDocument()
+      expect(screen.getByRole('link', { name: 'auth.invitation.openCity Amsterdam' })).toHaveAttribute(
+        'href',
+        '/nl/operator/amsterdam'
+      )
+    })
+
+    it('should ask others to log in when the invitation was already accepted', () => {
+      render(
+        <InvitationAcceptance token="abc123" invitation={{ ...pendingInvitation, status: 'accepted' }} currentEmail={null} />
+      )
+
+      expect(screen.getByText('auth.invitation.alreadyAcceptedMessage')).toBeInTheDocument()
+      expect(screen.getByRole('link', { name: 'auth.invitation.loginButton' })).toHaveAttribute('href', '/nl/login')
+    })
+  })
+})
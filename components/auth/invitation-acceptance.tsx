@@ -0,0 +1,265 @@
+/**
+ * Invitation Acceptance Component
+ *
+ * Shows an invitation to the invitee and walks them through accepting it:
+ * sign in with a magic link sent to the invited address, then accept to
+ * receive the invited city roles. Expired, revoked, accepted and unknown
+ * invitations get their own message.
+ *
+ * @module components/auth/invitation-acceptance
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { acceptInvitation, type InvitationDetails } from '@/app/actions/invitations'
+import { signInWithMagicLink, signOut } from '@/lib/auth/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { CheckCircle2, Mail, XCircle } from 'lucide-react'
+
+interface InvitationAcceptanceProps {
+  /** Invitation token from the URL */
+  token: string
+  /** Invitation, or null if the token matches none */
+  invitation: InvitationDetails | null
+  /** Email of the signed-in user, or null when signed out */
+  currentEmail: string | null
+}
+
+/**
+ * Invitation acceptance component
+ *
+ * @param props - Component props
+ * @param props.token - Invitation token
+ * @param props.invitation - Invitation details
+ * @param props.currentEmail - Email of the signed-in user
+ * @returns Invitation card JSX
+ */
+export function InvitationAcceptance({ token, invitation, currentEmail }: InvitationAcceptanceProps) {
+  const t = useTranslations('auth.invitation')
+  const tCommon = useTranslations('common')
+  const locale = useLocale()
+  const router = useRouter()
+
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [linkSent, setLinkSent] = useState(false)
+
+  const isInvitee = currentEmail !== null && invitation !== null &&
+    currentEmail.toLowerCase() === invitation.email.toLowerCase()
+
+  /**
+   * Email a magic link that signs the invitee in and returns to this page
+   */
+  const handleSendLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!invitation) return
+
+    setError(null)
+    setIsLoading(true)
+
+    try {
+      const result = await signInWithMagicLink(invitation.email, `/${locale}/invite/${token}`)
+
+      if (result.success) {
+        setLinkSent(true)
+      } else {
+        setError(result.error || t('errorGeneric'))
+      }
+    } catch {
+      setError(t('errorGeneric'))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Accept the invitation and show the granted cities
+   */
+  const handleAccept = async () => {
+    setError(null)
+    setIsLoading(true)
+
+    try {
+      await acceptInvitation(token)
+    } catch (err) {
+      console.error('[Invitation] Error accepting invitation:', err)
+      setError(t('errorGeneric'))
+    } finally {
+      setIsLoading(false)
+      // The page reloads the invitation, which is now accepted (or shows why not)
+      router.refresh()
+    }
+  }
+
+  /**
+   * Sign out of the wrong account so the invitee can sign in
+   */
+  const handleSignOut = async () => {
+    setIsLoading(true)
+    await signOut()
+    setIsLoading(false)
+    router.refresh()
+  }
+
+  const homeButton = (
+    <Link href={`/${locale}`} className="w-full">
+      <Button variant="outline" className="w-full">
+        {t('backToHome')}
+      </Button>
+    </Link>
+  )
+
+  if (!invitation || invitation.status !== 'pending') {
+    let title = t('invalidTitle')
+    let message = t('invalidMessage')
+
+    if (invitation?.status === 'expired') {
+      title = t('expiredTitle')
+      message = t('expiredMessage')
+    } else if (invitation?.status === 'revoked') {
+      title = t('revokedTitle')
+      message = t('revokedMessage')
+    } else if (invitation?.status === 'accepted') {
+      title = t('acceptedTitle')
+      message = isInvitee ? t('acceptedMessage') : t('alreadyAcceptedMessage')
+    }
+
+    const accepted = invitation?.status === 'accepted'
+
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div
+            className={`mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full ${accepted ? 'bg-green-100' : 'bg-red-100'}`}
+          >
+            {accepted ? (
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+            ) : (
+              <XCircle className="h-6 w-6 text-red-600" />
+            )}
+          </div>
+          <CardTitle className="text-2xl">{title}</CardTitle>
+          <CardDescription>{message}</CardDescription>
+        </CardHeader>
+        <CardFooter className="flex flex-col space-y-2">
+          {accepted && isInvitee && invitation.cities.map((city) => (
+            <Link
+              key={city.slug}
+              href={`/${locale}/${city.role === 'admin' ? 'admin' : 'operator'}/${city.slug}`}
+              className="w-full"
+            >
+              <Button className="w-full">{t('openCity', { city: city.name })}</Button>
+            </Link>
+          ))}
+          {accepted && !isInvitee && (
+            <Link href={`/${locale}/login`} className="w-full">
+              <Button className="w-full">{t('loginButton')}</Button>
+            </Link>
+          )}
+          {homeButton}
+        </CardFooter>
+      </Card>
+    )
+  }
+
+  if (linkSent) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-green-100">
+            <CheckCircle2 className="h-6 w-6 text-green-600" />
+          </div>
+          <CardTitle className="text-2xl">{t('linkSentTitle')}</CardTitle>
+          <CardDescription>{t('linkSentMessage', { email: invitation.email })}</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="text-2xl">{t('title')}</CardTitle>
+        <CardDescription>
+          {t('welcomeMessage', {
+            appName: tCommon('appName'),
+            role: t(`roles.${invitation.role}`),
+            cityCount: invitation.cities.length,
+          })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {invitation.inviterName && (
+          <p className="text-sm text-gray-600">{t('invitedBy', { name: invitation.inviterName })}</p>
+        )}
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">{t('citiesTitle')}</h3>
+          <ul className="mt-2 divide-y rounded-md border">
+            {invitation.cities.map((city) => (
+              <li key={city.slug} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span className="font-medium">{city.name}</span>
+                <span className="text-gray-600">{t(`roles.${city.role}`)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <p className="text-sm text-gray-600">{t('expiresAt', { expiresAt: new Date(invitation.expiresAt) })}</p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isInvitee && (
+          <Button className="w-full" onClick={handleAccept} disabled={isLoading}>
+            {isLoading ? t('accepting') : t('acceptButton')}
+          </Button>
+        )}
+
+        {currentEmail && !isInvitee && (
+          <Alert>
+            <AlertTitle>{t('wrongAccountTitle')}</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>{t('wrongAccountMessage', { currentEmail, email: invitation.email })}</p>
+              <Button variant="outline" onClick={handleSignOut} disabled={isLoading}>
+                {t('signOutButton')}
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!currentEmail && (
+          <form onSubmit={handleSendLink} className="space-y-4">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-900">{t('signInTitle')}</h3>
+              <p className="text-sm text-gray-600">{t('signInMessage', { email: invitation.email })}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invitation-email">{t('emailLabel')}</Label>
+              <div className="relative">
+                <Mail className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                <Input id="invitation-email" type="email" value={invitation.email} className="ps-10" readOnly />
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? t('sending') : t('sendLinkButton')}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+      <CardFooter>{homeButton}</CardFooter>
+    </Card>
+  )
+}
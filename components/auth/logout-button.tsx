@@ -74,7 +74,7 @@ export function LogoutButton({
     <AlertDialog>
       <AlertDialogTrigger asChild>
         <Button variant={variant} size={size} className={className} disabled={isLoading}>
-          {showIcon && <LogOut className="mr-2 h-4 w-4" />}
+          {showIcon && <LogOut className="me-2 h-4 w-4" />}
           {tNav('logout')}
         </Button>
       </AlertDialogTrigger>
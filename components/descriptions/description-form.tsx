@@ -16,6 +16,7 @@ import { useState } from 'react'
 const DESCRIPTION_TEXTAREA_ROWS = 8
 import { useRouter } from 'next/navigation'
 import { useTranslations } from 'next-intl'
+import { Loader2, Sparkles } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
@@ -29,6 +30,7 @@ import {
 } from '@/components/ui/select'
 import {
   createDescription,
+  generateDescriptionDraft,
   updateDescription,
   type DescriptionFormData,
   type DescriptionTranslationData,
@@ -81,6 +83,8 @@ interface DescriptionFormProps {
   neighborhoods: Neighborhood[]
   existingDescription?: ExistingDescription
   mode: 'create' | 'edit'
+  /** Whether an AI provider is configured for drafting descriptions */
+  aiEnabled?: boolean
 }
 
 /**
@@ -109,6 +113,7 @@ interface DescriptionFormProps {
  *   - ai_model: Model used for generation (if AI-generated)
  *   - translations: Array of translation objects with text, locale, and AI metadata
  * @param props.mode - Form mode: 'create' for new descriptions, 'edit' for updating existing metadata
+ * @param props.aiEnabled - Show "Generate with AI" in create mode; drafts are saved as AI-generated and unreviewed
  * @returns React functional component rendering the description form
  */
 export function DescriptionForm({
@@ -118,6 +123,7 @@ export function DescriptionForm({
   neighborhoods,
   existingDescription,
   mode,
+  aiEnabled = false,
 }: DescriptionFormProps) {
   // Input validation - validate props at component entry
   if (!citySlug || typeof citySlug !== 'string' || citySlug.trim() === '') {
@@ -166,6 +172,7 @@ export function DescriptionForm({
   )
 
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isGenerating, setIsGenerating] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
   /**
@@ -178,6 +185,35 @@ export function DescriptionForm({
     setFormData((prev) => ({ ...prev, [field]: value }))
   }
 
+  /**
+   * Drafts the description text with AI and marks the description as
+   * AI-generated, so it is saved unreviewed
+   */
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    setError(null)
+
+    try {
+      const draft = await generateDescriptionDraft(citySlug, {
+        language_id: formData.language_id,
+        neighborhood_id: formData.neighborhood_id,
+        locale,
+      })
+
+      setDescriptionText(draft.text)
+      setFormData((prev) => ({ ...prev, is_ai_generated: true, ai_model: draft.model }))
+    } catch (err) {
+      console.error('Error generating description draft:', {
+        citySlug,
+        languageId: formData.language_id,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      })
+      setError(t('form.errorGenerate'))
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
   /**
    * Handles form submission
    *
@@ -249,10 +285,10 @@ export function DescriptionForm({
           <SelectContent>
             {languages.map((language) => (
               <SelectItem key={language.id} value={language.id}>
-                {language.translations[0]?.name || language.endonym || 'Unknown'}
+                <bdi>{language.translations[0]?.name || language.endonym || 'Unknown'}</bdi>
                 {language.endonym && language.translations[0]?.name && (
-                  <span className="ml-2 text-muted-foreground">
-                    ({language.endonym})
+                  <span className="ms-2 text-muted-foreground">
+                    (<bdi>{language.endonym}</bdi>)
                   </span>
                 )}
               </SelectItem>
@@ -293,14 +329,32 @@ export function DescriptionForm({
 
       {/* Description Text */}
       <div className="space-y-2">
-        <Label htmlFor="text">
-          {t('form.description')}
-          {currentTranslation?.is_ai_translated && (
-            <Badge variant="secondary" className="ml-2">
-              {t('form.aiTranslated')}
-            </Badge>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="text">
+            {t('form.description')}
+            {currentTranslation?.is_ai_translated && (
+              <Badge variant="secondary" className="ms-2">
+                {t('form.aiTranslated')}
+              </Badge>
+            )}
+          </Label>
+          {mode === 'create' && aiEnabled && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleGenerate}
+              disabled={!formData.language_id || isGenerating || isSubmitting}
+            >
+              {isGenerating ? (
+                <Loader2 className="me-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Sparkles className="me-2 h-4 w-4" />
+              )}
+              {isGenerating ? t('form.generating') : t('form.generate')}
+            </Button>
           )}
-        </Label>
+        </div>
         <Textarea
           id="text"
           value={descriptionText}
@@ -320,6 +374,14 @@ export function DescriptionForm({
             {t('form.descriptionHint', { locale: locale.toUpperCase() })}
           </p>
         )}
+        {mode === 'create' && formData.is_ai_generated && (
+          <div role="status" className="flex items-center gap-2 rounded-md bg-blue-50 p-3 text-sm">
+            <Badge variant="secondary">{t('form.aiGenerated')}</Badge>
+            <span className="text-muted-foreground">
+              {t('form.aiDraftNotice', { model: formData.ai_model ?? '' })}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* AI Generation Badge (if applicable) */}
@@ -338,7 +400,7 @@ export function DescriptionForm({
 
       {/* Form Actions */}
       <div className="flex gap-4">
-        <Button type="submit" disabled={isSubmitting}>
+        <Button type="submit" disabled={isSubmitting || isGenerating}>
           {isSubmitting
             ? t('form.saving')
             : mode === 'create'
@@ -255,7 +255,7 @@ export function DescriptionTranslationForm({
                   disabled={isSubmitting || !text.trim()}
                   size="sm"
                 >
-                  <Save className="mr-2 h-4 w-4" />
+                  <Save className="me-2 h-4 w-4" />
                   {isSubmitting ? tCommon('actions.saving') : tCommon('actions.save')}
                 </Button>
                 {isExisting && (
@@ -265,7 +265,7 @@ export function DescriptionTranslationForm({
                     disabled={isSubmitting}
                     size="sm"
                   >
-                    <X className="mr-2 h-4 w-4" />
+                    <X className="me-2 h-4 w-4" />
                     {tCommon('actions.cancel')}
                   </Button>
                 )}
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Unit tests for ImportWizard component
+ * @description Tests reading the file, previewing with the guessed mapping
+ * and committing an import without problems
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ImportWizard } from './import-wizard'
+import { commitImport, previewImport } from '@/app/actions/import'
+
+// Mock next-intl
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string) => key,
+}))
+
+const refresh = vi.fn()
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ refresh }),
+}))
+
+vi.mock('@/app/actions/import', () => ({
+  previewImport: vi.fn(),
+  commitImport: vi.fn(),
+}))
+
+const csv = 'Endonym,Name,Lat,Lng,Size\nTürkçe,Turkish,52.37,4.89,Large\n'
+
+/**
+ * jsdom's File has no text(); provide one backed by the given contents
+ */
+const createFile = (contents: string, name: string) => {
+  const file = new File([contents], name, { type: 'text/csv' })
+  Object.defineProperty(file, 'text', { value: async () => contents })
+  return file
+}
+
+const renderWizard = () =>
+  render(
+    <ImportWizard
+      citySlug="amsterdam"
+      taxonomyTypes={[{ slug: 'size', name: 'Size' }]}
+      locales={[
+        { code: 'en', name: 'English', nativeName: 'English' },
+        { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+      ]}
+    />
+  )
+
+describe('ImportWizard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(window, 'confirm').mockReturnValue(true)
+  })
+
+  it('should preview with the guessed mapping and list row problems', async () => {
+    vi.mocked(previewImport).mockResolvedValue({
+      newLanguages: 0,
+      existingLanguages: 0,
+      points: 0,
+      geocodedPoints: 0,
+      issues: [{ line: 2, field: 'latitude', message: 'Coordinates are outside the city bounds' }],
+    })
+    renderWizard()
+
+    await userEvent.upload(screen.getByLabelText('upload.file'), createFile(csv, 'languages.csv'))
+    await userEvent.click(await screen.findByRole('button', { name: 'mapping.preview' }))
+
+    expect(previewImport).toHaveBeenCalledWith(
+      'amsterdam',
+      expect.objectContaining({ headers: ['Endonym', 'Name', 'Lat', 'Lng', 'Size'] }),
+      {
+        fields: { endonym: 'Endonym', name_en: 'Name', latitude: 'Lat', longitude: 'Lng' },
+        taxonomies: { size: 'Size' },
+      }
+    )
+    expect(await screen.findByText('Coordinates are outside the city bounds')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'preview.import' })).not.toBeInTheDocument()
+  })
+
+  it('should block the preview until required fields are mapped', async () => {
+    renderWizard()
+
+    await userEvent.upload(screen.getByLabelText('upload.file'), createFile('Lat,Lng\n52.37,4.89\n', 'points.csv'))
+
+    expect(await screen.findByRole('button', { name: 'mapping.preview' })).toBeDisabled()
+    expect(screen.getByRole('alert')).toHaveTextContent('mapping.missing')
+  })
+
+  it('should import after a clean preview', async () => {
+    vi.mocked(previewImport).mockResolvedValue({
+      newLanguages: 1,
+      existingLanguages: 0,
+      points: 1,
+      geocodedPoints: 0,
+      issues: [],
+    })
+    vi.mocked(commitImport).mockResolvedValue({ languagesCreated: 1, pointsCreated: 1 })
+    renderWizard()
+
+    await userEvent.upload(screen.getByLabelText('upload.file'), createFile(csv, 'languages.csv'))
+    await userEvent.click(await screen.findByRole('button', { name: 'mapping.preview' }))
+    await userEvent.click(await screen.findByRole('button', { name: 'preview.import' }))
+
+    await waitFor(() => expect(screen.getByText('result')).toBeInTheDocument())
+    expect(commitImport).toHaveBeenCalledTimes(1)
+    expect(refresh).toHaveBeenCalled()
+  })
+
+  it('should report files that cannot be imported', async () => {
+    renderWizard()
+
+    await userEvent.upload(screen.getByLabelText('upload.file'), createFile('x', 'languages.ods'), {
+      applyAccept: false,
+    })
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('upload.errors.unsupportedFormat')
+  })
+})
@@ -0,0 +1,362 @@
+/**
+ * Import Wizard Component
+ *
+ * Bulk import of languages and language points from a CSV or XLSX file:
+ * upload, map columns to fields, preview the problems per row, then import
+ * everything in one batch.
+ */
+
+'use client'
+
+import { useState, type ChangeEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { Loader2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  commitImport,
+  previewImport,
+  type ImportPreview,
+  type ImportResult,
+} from '@/app/actions/import'
+import {
+  getImportFields,
+  getMissingRequiredFields,
+  getNameFieldLocale,
+  guessColumnMapping,
+  MAX_IMPORT_ROWS,
+  REQUIRED_IMPORT_FIELDS,
+  type ImportColumnMapping,
+  type ImportField,
+  type ImportTable,
+} from '@/lib/import/fields'
+import { readImportFile, type SpreadsheetReadError } from '@/lib/import/spreadsheet'
+import type { LocaleOption } from '@/lib/i18n/config'
+
+/**
+ * Select value for a field without a column (Radix Select needs a non-empty value)
+ */
+const UNMAPPED = '__none__'
+
+/**
+ * Number of row problems listed before the rest is summarized
+ */
+const MAX_LISTED_ISSUES = 100
+
+/**
+ * Taxonomy type offered in the mapping step
+ */
+export interface ImportTaxonomyType {
+  slug: string
+  name: string
+}
+
+interface ImportWizardProps {
+  citySlug: string
+  taxonomyTypes: ImportTaxonomyType[]
+  locales: LocaleOption[]
+}
+
+/**
+ * ImportWizard component
+ *
+ * @param citySlug - The slug of the city
+ * @param taxonomyTypes - Taxonomy types of the city, for the mapping step
+ * @param locales - Locales of the city; each gets a name column
+ */
+export function ImportWizard({ citySlug, taxonomyTypes, locales }: ImportWizardProps) {
+  const t = useTranslations('import')
+  const router = useRouter()
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null)
+  const [fileError, setFileError] = useState<SpreadsheetReadError | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const missingFields = mapping ? getMissingRequiredFields(mapping) : []
+  const importFields = getImportFields(locales.map((locale) => locale.code))
+
+  const fieldLabel = (field: ImportField) => {
+    const localeCode = getNameFieldLocale(field)
+    if (localeCode === null) {
+      return t(`fields.${field}`)
+    }
+    const locale = locales.find((option) => option.code === localeCode)
+    return t('fields.name', { locale: locale?.nativeName ?? localeCode })
+  }
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    setTable(null)
+    setMapping(null)
+    setFileError(null)
+    setPreview(null)
+    setResult(null)
+    setError(null)
+
+    if (!file) {
+      return
+    }
+
+    const read = await readImportFile(file)
+    if (read.error !== null) {
+      setFileError(read.error)
+      return
+    }
+
+    setTable(read.table)
+    setMapping(guessColumnMapping(read.table.headers, taxonomyTypes.map((type) => type.slug), locales))
+  }
+
+  const updateMapping = (update: (current: ImportColumnMapping) => ImportColumnMapping) => {
+    setMapping((current) => (current ? update(current) : current))
+    setPreview(null)
+  }
+
+  const setFieldColumn = (field: ImportField, header: string) => {
+    updateMapping((current) => {
+      const fields = { ...current.fields }
+      if (header === UNMAPPED) {
+        delete fields[field]
+      } else {
+        fields[field] = header
+      }
+      return { ...current, fields }
+    })
+  }
+
+  const setTaxonomyColumn = (slug: string, header: string) => {
+    updateMapping((current) => {
+      const taxonomies = { ...current.taxonomies }
+      if (header === UNMAPPED) {
+        delete taxonomies[slug]
+      } else {
+        taxonomies[slug] = header
+      }
+      return { ...current, taxonomies }
+    })
+  }
+
+  const handlePreview = async () => {
+    if (!table || !mapping) {
+      return
+    }
+
+    setIsWorking(true)
+    setError(null)
+
+    try {
+      setPreview(await previewImport(citySlug, table, mapping))
+    } catch (err) {
+      console.error('Error previewing import:', err)
+      setError(t('errors.preview'))
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!table || !mapping || !window.confirm(t('confirm'))) {
+      return
+    }
+
+    setIsWorking(true)
+    setError(null)
+
+    try {
+      setResult(await commitImport(citySlug, table, mapping))
+      setTable(null)
+      setMapping(null)
+      setPreview(null)
+      router.refresh()
+    } catch (err) {
+      console.error('Error importing:', err)
+      setError(t('errors.commit'))
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const renderColumnSelect = (id: string, label: string, value: string | undefined, onChange: (header: string) => void) => (
+    <div key={id} className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value ?? UNMAPPED} onValueChange={onChange} disabled={isWorking}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNMAPPED}>{t('mapping.unmapped')}</SelectItem>
+          {table?.headers.map((header) => (
+            <SelectItem key={header} value={header}>
+              {header}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Step 1: File */}
+      <div className="space-y-2">
+        <Label htmlFor="import_file">{t('upload.file')}</Label>
+        <Input
+          id="import_file"
+          type="file"
+          accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={handleFileChange}
+          disabled={isWorking}
+        />
+        <p className="text-xs text-muted-foreground">{t('upload.help', { maxRows: MAX_IMPORT_ROWS })}</p>
+      </div>
+
+      {fileError && (
+        <p role="alert" className="text-sm text-red-600">
+          {t(`upload.errors.${fileError}`)}
+        </p>
+      )}
+
+      {/* Step 2: Column mapping */}
+      {table && mapping && (
+        <div className="space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold">{t('mapping.title')}</h2>
+            <p className="text-sm text-muted-foreground">
+              {t('mapping.description', { rows: table.rows.length })}
+            </p>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            {importFields.map((field) =>
+              renderColumnSelect(
+                `import_field_${field}`,
+                REQUIRED_IMPORT_FIELDS.includes(field) ? `${fieldLabel(field)} *` : fieldLabel(field),
+                mapping.fields[field],
+                (header) => setFieldColumn(field, header)
+              )
+            )}
+            {taxonomyTypes.map((type) =>
+              renderColumnSelect(
+                `import_taxonomy_${type.slug}`,
+                type.name,
+                mapping.taxonomies[type.slug],
+                (header) => setTaxonomyColumn(type.slug, header)
+              )
+            )}
+          </div>
+
+          {missingFields.length > 0 && (
+            <p role="alert" className="text-sm text-red-600">
+              {t('mapping.missing', {
+                fields: missingFields.map(fieldLabel).join(', '),
+              })}
+            </p>
+          )}
+
+          <Button type="button" onClick={handlePreview} disabled={isWorking || missingFields.length > 0}>
+            {isWorking && !preview && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+            {t('mapping.preview')}
+          </Button>
+        </div>
+      )}
+
+      {/* Step 3: Preview */}
+      {preview && (
+        <div className="space-y-4">
+          <div role="status" className="space-y-1 rounded-md border p-3 text-sm">
+            <p>
+              {t('preview.summary', {
+                newLanguages: preview.newLanguages,
+                existingLanguages: preview.existingLanguages,
+                points: preview.points,
+              })}
+            </p>
+            {preview.geocodedPoints > 0 && (
+              <p className="text-muted-foreground">
+                {t('preview.geocoded', { count: preview.geocodedPoints })}
+              </p>
+            )}
+          </div>
+
+          {preview.issues.length > 0 ? (
+            <div className="space-y-2">
+              <p role="alert" className="text-sm text-red-600">
+                {t('preview.issues', { count: preview.issues.length })}
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('preview.line')}</TableHead>
+                    <TableHead>{t('preview.field')}</TableHead>
+                    <TableHead>{t('preview.message')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                    <TableRow key={`${issue.line}-${index}`}>
+                      <TableCell>{issue.line}</TableCell>
+                      <TableCell>
+                        {issue.field === null
+                          ? '—'
+                          : issue.field.startsWith('taxonomy:')
+                            ? issue.field.slice('taxonomy:'.length)
+                            : fieldLabel(issue.field as ImportField)}
+                      </TableCell>
+                      <TableCell>{issue.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {preview.issues.length > MAX_LISTED_ISSUES && (
+                <p className="text-sm text-muted-foreground">
+                  {t('preview.moreIssues', { count: preview.issues.length - MAX_LISTED_ISSUES })}
+                </p>
+              )}
+            </div>
+          ) : (
+            <Button type="button" onClick={handleImport} disabled={isWorking}>
+              {isWorking ? (
+                <Loader2 className="me-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="me-2 h-4 w-4" />
+              )}
+              {isWorking ? t('preview.importing') : t('preview.import')}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Step 4: Done */}
+      {result && (
+        <p role="status" className="text-sm text-green-700">
+          {t('result', { languages: result.languagesCreated, points: result.pointsCreated })}
+        </p>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
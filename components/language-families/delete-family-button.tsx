@@ -150,9 +150,9 @@ export function DeleteFamilyButton({
       <AlertDialogTrigger asChild>
         <Button variant={variant} size={size} disabled={isDeleting}>
           {isDeleting ? (
-            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            <Loader2 className="h-4 w-4 me-1 animate-spin" />
           ) : (
-            <Trash2 className="h-4 w-4 mr-1" />
+            <Trash2 className="h-4 w-4 me-1" />
           )}
           {tCommon('delete')}
         </Button>
@@ -182,7 +182,7 @@ export function DeleteFamilyButton({
           >
             {isDeleting ? (
               <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                <Loader2 className="h-4 w-4 me-2 animate-spin" />
                 {t('deleting')}
               </>
             ) : (
@@ -22,34 +22,18 @@ const messages = {
             slugPlaceholder: 'e.g., indo-european',
             slugHelpText: 'URL-friendly identifier',
           },
-          english: {
-            title: 'English (Required)',
-            description: 'English name and description',
-            nameLabel: 'Name',
-            namePlaceholder: 'e.g., Indo-European',
-            descriptionLabel: 'Description',
-            descriptionPlaceholder: 'Brief description...',
-          },
-          dutch: {
-            title: 'Dutch (Optional)',
-            description: 'Nederlandse vertaling',
-            nameLabel: 'Naam',
-            namePlaceholder: 'bijv. Indo-Europees',
-            descriptionLabel: 'Beschrijving',
-            descriptionPlaceholder: 'Korte beschrijving...',
-          },
-          french: {
-            title: 'French (Optional)',
-            description: 'Traduction française',
-            nameLabel: 'Nom',
-            namePlaceholder: 'par ex. Indo-européen',
-            descriptionLabel: 'Description',
-            descriptionPlaceholder: 'Brève description...',
-          },
         },
       },
     },
   },
+  translationFields: {
+    requiredDescription: 'Required',
+    optionalDescription: 'Optional',
+    nameLabel: 'Name',
+    namePlaceholder: 'e.g., Indo-European',
+    descriptionLabel: 'Description',
+    descriptionPlaceholder: 'Brief description...',
+  },
   common: {
     save: 'Save',
     saving: 'Saving...',
@@ -64,6 +48,19 @@ const messages = {
   },
 }
 
+// Active locales offered by the form, default locale first
+const locales = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+]
+
+/**
+ * Name and description inputs, in the order of the locales
+ */
+const nameInputs = () => screen.getAllByLabelText(/^name/i)
+const descriptionInputs = () => screen.getAllByLabelText('Description')
+
 /**
  * Helper to render component with i18n provider
  */
@@ -84,22 +81,17 @@ describe('LanguageFamilyForm', () => {
 
   describe('Rendering', () => {
     it('should render all required form fields', () => {
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       // Basic info
       expect(screen.getByLabelText(/slug/i)).toBeInTheDocument()
 
-      // English fields (required)
-      expect(screen.getByPlaceholderText('e.g., Indo-European')).toBeInTheDocument()
-      expect(screen.getByPlaceholderText('Brief description...')).toBeInTheDocument()
-
-      // Dutch fields (optional)
-      expect(screen.getByPlaceholderText('bijv. Indo-Europees')).toBeInTheDocument()
-      expect(screen.getByPlaceholderText('Korte beschrijving...')).toBeInTheDocument()
-
-      // French fields (optional)
-      expect(screen.getByPlaceholderText('par ex. Indo-européen')).toBeInTheDocument()
-      expect(screen.getByPlaceholderText('Brève description...')).toBeInTheDocument()
+      // Name and description per locale, English first
+      expect(screen.getByText('English')).toBeInTheDocument()
+      expect(screen.getByText('Nederlands')).toBeInTheDocument()
+      expect(screen.getByText('Français')).toBeInTheDocument()
+      expect(nameInputs()).toHaveLength(3)
+      expect(descriptionInputs()).toHaveLength(3)
 
       // Submit button
       expect(screen.getByRole('button', { name: /save/i })).toBeInTheDocument()
@@ -116,7 +108,7 @@ describe('LanguageFamilyForm', () => {
         ],
       }
 
-      renderWithIntl(<LanguageFamilyForm initialData={initialData} onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} initialData={initialData} onSubmit={mockOnSubmit} />)
 
       // Check that fields are populated
       expect(screen.getByDisplayValue('indo-european')).toBeInTheDocument()
@@ -130,7 +122,7 @@ describe('LanguageFamilyForm', () => {
 
     it('should render custom submit label when provided', () => {
       renderWithIntl(
-        <LanguageFamilyForm onSubmit={mockOnSubmit} submitLabel="Create Family" />
+        <LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} submitLabel="Create Family" />
       )
 
       expect(screen.getByRole('button', { name: /create family/i })).toBeInTheDocument()
@@ -140,7 +132,7 @@ describe('LanguageFamilyForm', () => {
   describe('Validation', () => {
     it('should show error when slug is empty', async () => {
       const user = userEvent.setup()
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       const submitButton = screen.getByRole('button', { name: /save/i })
       await user.click(submitButton)
@@ -154,10 +146,10 @@ describe('LanguageFamilyForm', () => {
 
     it('should show error when slug has invalid format', async () => {
       const user = userEvent.setup()
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       const slugInput = screen.getByLabelText(/slug/i)
-      const englishNameInput = screen.getByPlaceholderText('e.g., Indo-European')
+      const englishNameInput = nameInputs()[0]
       const submitButton = screen.getByRole('button', { name: /save/i })
 
       await user.type(slugInput, 'Invalid Slug!')
@@ -175,7 +167,7 @@ describe('LanguageFamilyForm', () => {
 
     it('should show error when English name is empty', async () => {
       const user = userEvent.setup()
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       const slugInput = screen.getByLabelText(/slug/i)
       const submitButton = screen.getByRole('button', { name: /save/i })
@@ -192,10 +184,10 @@ describe('LanguageFamilyForm', () => {
 
     it('should accept valid slug formats', async () => {
       const user = userEvent.setup()
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       const slugInput = screen.getByLabelText(/slug/i)
-      const englishNameInput = screen.getByPlaceholderText('e.g., Indo-European')
+      const englishNameInput = nameInputs()[0]
 
       // Valid slugs
       await user.type(slugInput, 'indo-european-123')
@@ -215,18 +207,18 @@ describe('LanguageFamilyForm', () => {
       const user = userEvent.setup()
       mockOnSubmit.mockResolvedValueOnce(undefined)
 
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       // Fill in required fields
       await user.type(screen.getByLabelText(/slug/i), 'sino-tibetan')
-      await user.type(screen.getByPlaceholderText('e.g., Indo-European'), 'Sino-Tibetan')
+      await user.type(nameInputs()[0], 'Sino-Tibetan')
       await user.type(
-        screen.getAllByPlaceholderText(/brief description/i)[0],
+        descriptionInputs()[0],
         'A major language family'
       )
 
       // Fill in optional Dutch translation
-      await user.type(screen.getByPlaceholderText(/bijv. Indo-Europees/i), 'Sino-Tibetaans')
+      await user.type(nameInputs()[1], 'Sino-Tibetaans')
 
       const submitButton = screen.getByRole('button', { name: /save/i })
       await user.click(submitButton)
@@ -234,12 +226,11 @@ describe('LanguageFamilyForm', () => {
       await waitFor(() => {
         expect(mockOnSubmit).toHaveBeenCalledWith({
           slug: 'sino-tibetan',
-          name_en: 'Sino-Tibetan',
-          description_en: 'A major language family',
-          name_nl: 'Sino-Tibetaans',
-          description_nl: '',
-          name_fr: '',
-          description_fr: '',
+          translations: {
+            en: { name: 'Sino-Tibetan', description: 'A major language family' },
+            nl: { name: 'Sino-Tibetaans', description: '' },
+            fr: { name: '', description: '' },
+          },
         })
       })
     })
@@ -249,10 +240,10 @@ describe('LanguageFamilyForm', () => {
       // Mock a delayed submission
       mockOnSubmit.mockImplementation(() => new Promise((resolve) => setTimeout(resolve, 100)))
 
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       await user.type(screen.getByLabelText(/slug/i), 'test-family')
-      await user.type(screen.getByPlaceholderText('e.g., Indo-European'), 'Test Family')
+      await user.type(nameInputs()[0], 'Test Family')
 
       const submitButton = screen.getByRole('button', { name: /save/i })
       await user.click(submitButton)
@@ -276,15 +267,15 @@ describe('LanguageFamilyForm', () => {
       const user = userEvent.setup()
       mockOnSubmit.mockResolvedValueOnce(undefined)
 
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       await user.type(screen.getByLabelText(/slug/i), 'afro-asiatic')
-      await user.type(screen.getByPlaceholderText('e.g., Indo-European'), 'Afro-Asiatic')
-      await user.type(screen.getAllByPlaceholderText(/brief description/i)[0], 'EN description')
-      await user.type(screen.getByPlaceholderText(/bijv. Indo-Europees/i), 'Afro-Aziatisch')
-      await user.type(screen.getAllByPlaceholderText(/korte beschrijving/i)[0], 'NL beschrijving')
-      await user.type(screen.getByPlaceholderText(/par ex. Indo-européen/i), 'Afro-asiatique')
-      await user.type(screen.getAllByPlaceholderText(/brève description/i)[0], 'FR description')
+      await user.type(nameInputs()[0], 'Afro-Asiatic')
+      await user.type(descriptionInputs()[0], 'EN description')
+      await user.type(nameInputs()[1], 'Afro-Aziatisch')
+      await user.type(descriptionInputs()[1], 'NL beschrijving')
+      await user.type(nameInputs()[2], 'Afro-asiatique')
+      await user.type(descriptionInputs()[2], 'FR description')
 
       const submitButton = screen.getByRole('button', { name: /save/i })
       await user.click(submitButton)
@@ -293,12 +284,11 @@ describe('LanguageFamilyForm', () => {
         expect(mockOnSubmit).toHaveBeenCalledWith(
           expect.objectContaining({
             slug: 'afro-asiatic',
-            name_en: 'Afro-Asiatic',
-            description_en: 'EN description',
-            name_nl: 'Afro-Aziatisch',
-            description_nl: 'NL beschrijving',
-            name_fr: 'Afro-asiatique',
-            description_fr: 'FR description',
+            translations: {
+              en: { name: 'Afro-Asiatic', description: 'EN description' },
+              nl: { name: 'Afro-Aziatisch', description: 'NL beschrijving' },
+              fr: { name: 'Afro-asiatique', description: 'FR description' },
+            },
           })
         )
       })
@@ -310,10 +300,10 @@ describe('LanguageFamilyForm', () => {
       const user = userEvent.setup()
       mockOnSubmit.mockRejectedValueOnce(new Error('Database connection failed'))
 
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       await user.type(screen.getByLabelText(/slug/i), 'test-family')
-      await user.type(screen.getByPlaceholderText('e.g., Indo-European'), 'Test Family')
+      await user.type(nameInputs()[0], 'Test Family')
 
       const submitButton = screen.getByRole('button', { name: /save/i })
       await user.click(submitButton)
@@ -327,10 +317,10 @@ describe('LanguageFamilyForm', () => {
       const user = userEvent.setup()
       mockOnSubmit.mockRejectedValueOnce(new Error('Unauthorized access'))
 
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       await user.type(screen.getByLabelText(/slug/i), 'test-family')
-      await user.type(screen.getByPlaceholderText('e.g., Indo-European'), 'Test Family')
+      await user.type(nameInputs()[0], 'Test Family')
 
       const submitButton = screen.getByRole('button', { name: /save/i })
       await user.click(submitButton)
@@ -344,10 +334,10 @@ describe('LanguageFamilyForm', () => {
       const user = userEvent.setup()
       mockOnSubmit.mockRejectedValueOnce(new Error('Duplicate key value violates unique constraint'))
 
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       await user.type(screen.getByLabelText(/slug/i), 'indo-european')
-      await user.type(screen.getByPlaceholderText('e.g., Indo-European'), 'Indo-European')
+      await user.type(nameInputs()[0], 'Indo-European')
 
       const submitButton = screen.getByRole('button', { name: /save/i })
       await user.click(submitButton)
@@ -361,10 +351,10 @@ describe('LanguageFamilyForm', () => {
       const user = userEvent.setup()
       mockOnSubmit.mockRejectedValueOnce(new Error('Network request failed'))
 
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       await user.type(screen.getByLabelText(/slug/i), 'test-family')
-      await user.type(screen.getByPlaceholderText('e.g., Indo-European'), 'Test Family')
+      await user.type(nameInputs()[0], 'Test Family')
 
       const submitButton = screen.getByRole('button', { name: /save/i })
       await user.click(submitButton)
@@ -378,10 +368,10 @@ describe('LanguageFamilyForm', () => {
       const user = userEvent.setup()
       mockOnSubmit.mockRejectedValueOnce(new Error('First error'))
 
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       await user.type(screen.getByLabelText(/slug/i), 'test-family')
-      await user.type(screen.getByPlaceholderText('e.g., Indo-European'), 'Test Family')
+      await user.type(nameInputs()[0], 'Test Family')
 
       const submitButton = screen.getByRole('button', { name: /save/i })
       await user.click(submitButton)
@@ -405,7 +395,7 @@ describe('LanguageFamilyForm', () => {
   describe('Edge Cases', () => {
     it('should handle missing initial data gracefully', () => {
       renderWithIntl(
-        <LanguageFamilyForm initialData={undefined} onSubmit={mockOnSubmit} />
+        <LanguageFamilyForm locales={locales} initialData={undefined} onSubmit={mockOnSubmit} />
       )
 
       // Form should render with empty fields
@@ -419,21 +409,21 @@ describe('LanguageFamilyForm', () => {
         translations: [{ locale_code: 'en', name: 'Test Family', description: null }],
       }
 
-      renderWithIntl(<LanguageFamilyForm initialData={initialData} onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} initialData={initialData} onSubmit={mockOnSubmit} />)
 
       expect(screen.getByDisplayValue('Test Family')).toBeInTheDocument()
-      expect(screen.getByPlaceholderText(/bijv. Indo-Europees/i)).toHaveValue('')
-      expect(screen.getByPlaceholderText(/par ex. Indo-européen/i)).toHaveValue('')
+      expect(nameInputs()[1]).toHaveValue('')
+      expect(nameInputs()[2]).toHaveValue('')
     })
 
     it('should handle non-Error objects in catch block', async () => {
       const user = userEvent.setup()
       mockOnSubmit.mockRejectedValueOnce('String error')
 
-      renderWithIntl(<LanguageFamilyForm onSubmit={mockOnSubmit} />)
+      renderWithIntl(<LanguageFamilyForm locales={locales} onSubmit={mockOnSubmit} />)
 
       await user.type(screen.getByLabelText(/slug/i), 'test-family')
-      await user.type(screen.getByPlaceholderText('e.g., Indo-European'), 'Test Family')
+      await user.type(nameInputs()[0], 'Test Family')
 
       const submitButton = screen.getByRole('button', { name: /save/i })
       await user.click(submitButton)
@@ -18,7 +18,6 @@ import { z } from 'zod'
 import { useTranslations } from 'next-intl'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { Textarea } from '@/components/ui/textarea'
 import {
   Card,
   CardContent,
@@ -28,6 +27,9 @@ import {
 } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { LocaleTranslationFields } from '@/components/translations/locale-translation-fields'
+import type { LocaleOption } from '@/lib/i18n/config'
+import { toTranslationsInput, translationsSchema } from '@/lib/validations/translations'
 import { Loader2, Save } from 'lucide-react'
 
 /**
@@ -38,15 +40,8 @@ const languageFamilyFormSchema = z.object({
     .string()
     .min(1, 'Slug is required')
     .regex(/^[a-z0-9-]+$/, 'Slug must contain only lowercase letters, numbers, and hyphens'),
-  // English (required)
-  name_en: z.string().min(1, 'English name is required'),
-  description_en: z.string().optional(),
-  // Dutch (optional)
-  name_nl: z.string().optional(),
-  description_nl: z.string().optional(),
-  // French (optional)
-  name_fr: z.string().optional(),
-  description_fr: z.string().optional(),
+  // Name and description per active locale
+  translations: translationsSchema,
 })
 
 type LanguageFamilyFormValues = z.infer<typeof languageFamilyFormSchema>
@@ -55,6 +50,8 @@ type LanguageFamilyFormValues = z.infer<typeof languageFamilyFormSchema>
  * Props for LanguageFamilyForm component
  */
 interface LanguageFamilyFormProps {
+  /** Active locales of the platform, default locale first */
+  locales: LocaleOption[]
   /** Existing language family data for edit mode */
   initialData?: {
     id: string
@@ -78,6 +75,7 @@ interface LanguageFamilyFormProps {
  * @returns Form component for creating/editing language families
  */
 export default function LanguageFamilyForm({
+  locales,
   initialData,
   onSubmit,
   submitLabel,
@@ -97,18 +95,10 @@ export default function LanguageFamilyForm({
     resolver: zodResolver(languageFamilyFormSchema),
     defaultValues: {
       slug: initialData?.slug || '',
-      name_en:
-        initialData?.translations.find((t) => t.locale_code === 'en')?.name || '',
-      description_en:
-        initialData?.translations.find((t) => t.locale_code === 'en')?.description || '',
-      name_nl:
-        initialData?.translations.find((t) => t.locale_code === 'nl')?.name || '',
-      description_nl:
-        initialData?.translations.find((t) => t.locale_code === 'nl')?.description || '',
-      name_fr:
-        initialData?.translations.find((t) => t.locale_code === 'fr')?.name || '',
-      description_fr:
-        initialData?.translations.find((t) => t.locale_code === 'fr')?.description || '',
+      translations: toTranslationsInput(
+        locales.map((option) => option.code),
+        initialData?.translations
+      ),
     },
   })
 
@@ -181,121 +171,20 @@ export default function LanguageFamilyForm({
         </CardContent>
       </Card>
 
-      {/* English Translation (Required) */}
-      <Card>
-        <CardHeader>
-          <CardTitle>{t('english.title')}</CardTitle>
-          <CardDescription>{t('english.description')}</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name_en">
-              {t('english.nameLabel')} <span className="text-red-500">*</span>
-            </Label>
-            <Input
-              id="name_en"
-              {...register('name_en')}
-              placeholder={t('english.namePlaceholder')}
-            />
-            {errors.name_en && (
-              <p className="text-sm text-red-500">{errors.name_en.message}</p>
-            )}
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description_en">{t('english.descriptionLabel')}</Label>
-            <Textarea
-              id="description_en"
-              {...register('description_en')}
-              placeholder={t('english.descriptionPlaceholder')}
-              rows={3}
-            />
-            {errors.description_en && (
-              <p className="text-sm text-red-500">{errors.description_en.message}</p>
-            )}
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Dutch Translation (Optional) */}
-      <Card>
-        <CardHeader>
-          <CardTitle>{t('dutch.title')}</CardTitle>
-          <CardDescription>{t('dutch.description')}</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name_nl">{t('dutch.nameLabel')}</Label>
-            <Input
-              id="name_nl"
-              {...register('name_nl')}
-              placeholder={t('dutch.namePlaceholder')}
-            />
-            {errors.name_nl && (
-              <p className="text-sm text-red-500">{errors.name_nl.message}</p>
-            )}
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description_nl">{t('dutch.descriptionLabel')}</Label>
-            <Textarea
-              id="description_nl"
-              {...register('description_nl')}
-              placeholder={t('dutch.descriptionPlaceholder')}
-              rows={3}
-            />
-            {errors.description_nl && (
-              <p className="text-sm text-red-500">{errors.description_nl.message}</p>
-            )}
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* French Translation (Optional) */}
-      <Card>
-        <CardHeader>
-          <CardTitle>{t('french.title')}</CardTitle>
-          <CardDescription>{t('french.description')}</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name_fr">{t('french.nameLabel')}</Label>
-            <Input
-              id="name_fr"
-              {...register('name_fr')}
-              placeholder={t('french.namePlaceholder')}
-            />
-            {errors.name_fr && (
-              <p className="text-sm text-red-500">{errors.name_fr.message}</p>
-            )}
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description_fr">{t('french.descriptionLabel')}</Label>
-            <Textarea
-              id="description_fr"
-              {...register('description_fr')}
-              placeholder={t('french.descriptionPlaceholder')}
-              rows={3}
-            />
-            {errors.description_fr && (
-              <p className="text-sm text-red-500">{errors.description_fr.message}</p>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+      {/* Name and description per locale */}
+      <LocaleTranslationFields locales={locales} register={register} errors={errors.translations} />
 
       {/* Submit Button */}
       <div className="flex justify-end gap-2">
         <Button type="submit" disabled={isSubmitting}>
           {isSubmitting ? (
             <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              <Loader2 className="me-2 h-4 w-4 animate-spin" />
               {tCommon('saving')}
             </>
           ) : (
             <>
-              <Save className="mr-2 h-4 w-4" />
+              <Save className="me-2 h-4 w-4" />
               {submitLabel || tCommon('save')}
             </>
           )}
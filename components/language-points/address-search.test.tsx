@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Unit tests for AddressSearch component
+ * @description Tests geocoding on Enter, picking a match and error display
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { AddressSearch } from './address-search'
+import { geocodeAddress } from '@/app/actions/geocoding'
+
+// Mock next-intl
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string) => key,
+}))
+
+vi.mock('@/app/actions/geocoding', () => ({
+  geocodeAddress: vi.fn(),
+}))
+
+const damrak = {
+  latitude: 52.3763,
+  longitude: 4.8971,
+  label: 'Damrak 1, Amsterdam',
+  postalCode: '1012 LG',
+  source: 'nominatim' as const,
+}
+
+const dam = { ...damrak, latitude: 52.3731, longitude: 4.8926, label: 'Dam, Amsterdam', postalCode: null }
+
+describe('AddressSearch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should apply a single match right away without submitting the form', async () => {
+    vi.mocked(geocodeAddress).mockResolvedValue([damrak])
+    const onSelect = vi.fn()
+    const onSubmit = vi.fn((event: { preventDefault: () => void }) => event.preventDefault())
+    render(
+      <form onSubmit={onSubmit}>
+        <AddressSearch id="address" citySlug="amsterdam" locale="nl" onSelect={onSelect} />
+      </form>
+    )
+
+    await userEvent.type(screen.getByRole('searchbox'), 'Damrak 1{Enter}')
+
+    await waitFor(() => expect(onSelect).toHaveBeenCalledWith(damrak))
+    expect(geocodeAddress).toHaveBeenCalledWith('amsterdam', 'nl', 'Damrak 1')
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('should let the user pick one of several matches', async () => {
+    vi.mocked(geocodeAddress).mockResolvedValue([damrak, dam])
+    const onSelect = vi.fn()
+    render(<AddressSearch id="address" citySlug="amsterdam" locale="nl" onSelect={onSelect} />)
+
+    await userEvent.type(screen.getByRole('searchbox'), 'Dam')
+    await userEvent.click(screen.getByRole('button', { name: 'button' }))
+    await userEvent.click(await screen.findByRole('button', { name: 'Dam, Amsterdam' }))
+
+    expect(onSelect).toHaveBeenCalledTimes(1)
+    expect(onSelect).toHaveBeenCalledWith(dam)
+  })
+
+  it('should show an error when the lookup fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(geocodeAddress).mockRejectedValue(new Error('Failed to geocode address'))
+    render(<AddressSearch id="address" citySlug="amsterdam" locale="nl" onSelect={vi.fn()} />)
+
+    await userEvent.type(screen.getByRole('searchbox'), '1012 LG{Enter}')
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('error')
+  })
+})
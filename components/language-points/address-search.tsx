@@ -0,0 +1,135 @@
+/**
+ * Address Search Component
+ *
+ * Looks up an address or postal code with the configured geocoder and lets
+ * the operator pick one of the matches to fill in the coordinates. Only
+ * matches within the city bounds are offered.
+ */
+
+'use client'
+
+import { useState, type KeyboardEvent } from 'react'
+import { useTranslations } from 'next-intl'
+import { Loader2, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { geocodeAddress } from '@/app/actions/geocoding'
+import type { GeocodingResult } from '@/lib/geocoding/types'
+
+interface AddressSearchProps {
+  /** Input id, unique within the form */
+  id: string
+  citySlug: string
+  locale: string
+  /** Called with the match the operator picked */
+  onSelect: (result: GeocodingResult) => void
+}
+
+/**
+ * AddressSearch component
+ *
+ * @param id - Input id
+ * @param citySlug - The slug of the city
+ * @param locale - The current locale
+ * @param onSelect - Handler receiving the picked match
+ */
+export function AddressSearch({ id, citySlug, locale, onSelect }: AddressSearchProps) {
+  const t = useTranslations('languagePoints.form.addressSearch')
+  const [query, setQuery] = useState('')
+  const [isSearching, setIsSearching] = useState(false)
+  const [results, setResults] = useState<GeocodingResult[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSearch = async () => {
+    if (!query.trim()) {
+      return
+    }
+
+    setIsSearching(true)
+    setError(null)
+    setResults(null)
+
+    try {
+      const matches = await geocodeAddress(citySlug, locale, query.trim())
+      // A single match needs no choice
+      if (matches.length === 1) {
+        onSelect(matches[0])
+      }
+      setResults(matches)
+    } catch (err) {
+      console.error('Error geocoding address:', err)
+      setError(t('error'))
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  // The search sits inside the language point form; Enter must not submit it
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      handleSearch()
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t('placeholder')}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleSearch}
+          disabled={isSearching || !query.trim()}
+        >
+          {isSearching ? (
+            <Loader2 className="me-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Search className="me-2 h-4 w-4" />
+          )}
+          {t('button')}
+        </Button>
+      </div>
+      {results && results.length === 0 && (
+        <p role="status" className="text-sm text-muted-foreground">
+          {t('noResults')}
+        </p>
+      )}
+      {results && results.length === 1 && (
+        <p role="status" className="text-sm text-muted-foreground">
+          {t('applied', { label: results[0].label })}
+        </p>
+      )}
+      {results && results.length > 1 && (
+        <ul className="divide-y rounded-md border text-sm" aria-label={t('results')}>
+          {results.map((result) => (
+            <li key={`${result.source}-${result.latitude}-${result.longitude}`}>
+              <button
+                type="button"
+                className="w-full px-3 py-2 text-start hover:bg-muted"
+                onClick={() => {
+                  onSelect(result)
+                  setResults([result])
+                }}
+              >
+                {result.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -2,12 +2,16 @@
  * Language Point Form Component
  *
  * Provides a form for creating and editing language points with geographic
- * coordinates and neighborhood associations.
+ * coordinates and neighborhood associations. When neighborhoods have
+ * boundaries, the neighborhood containing the coordinates is looked up and
+ * a warning is shown if the selection disagrees (the server saves the
+ * boundary match). Coordinates can be picked on an embedded map or looked
+ * up from an address or postal code, and must lie within the city bounds.
  */
 
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useTranslations } from 'next-intl'
 import { Button } from '@/components/ui/button'
@@ -23,9 +27,16 @@ import {
 } from '@/components/ui/select'
 import {
   createLanguagePoint,
+  findNeighborhoodForCoordinates,
   updateLanguagePoint,
   type LanguagePointFormData,
 } from '@/app/actions/language-points'
+import { areCoordinatesSwapped, isWithinCityBounds } from '@/lib/map/bounds'
+import { PICKER_COORDINATE_DECIMALS } from '@/lib/map/constants'
+import type { GeocodingResult } from '@/lib/geocoding/types'
+import type { CityMapConfig } from '@/types/map'
+import { AddressSearch } from './address-search'
+import { LocationPicker } from './location-picker'
 
 /**
  * Language data structure
@@ -59,6 +70,11 @@ interface ExistingLanguagePoint {
   notes: string | null
 }
 
+/**
+ * Delay before looking up the neighborhood after the coordinates change
+ */
+const NEIGHBORHOOD_LOOKUP_DELAY_MS = 400
+
 interface LanguagePointFormProps {
   citySlug: string
   locale: string
@@ -66,6 +82,7 @@ interface LanguagePointFormProps {
   neighborhoods: Neighborhood[]
   existingPoint?: ExistingLanguagePoint
   mode: 'create' | 'edit'
+  cityMap?: CityMapConfig | null
 }
 
 /**
@@ -79,6 +96,7 @@ interface LanguagePointFormProps {
  * @param neighborhoods - Available neighborhoods for selection
  * @param existingPoint - Existing point data (for edit mode)
  * @param mode - Form mode ('create' or 'edit')
+ * @param cityMap - City map configuration for the location picker (omitted: no map)
  */
 export function LanguagePointForm({
   citySlug,
@@ -87,6 +105,7 @@ export function LanguagePointForm({
   neighborhoods,
   existingPoint,
   mode,
+  cityMap,
 }: LanguagePointFormProps) {
   const t = useTranslations('languagePoints')
   const router = useRouter()
@@ -104,6 +123,50 @@ export function LanguagePointForm({
 
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [derivedNeighborhoodId, setDerivedNeighborhoodId] = useState<string | null>(null)
+
+  const { latitude, longitude } = formData
+
+  // Look up the neighborhood containing the coordinates (debounced while typing)
+  useEffect(() => {
+    const isValid =
+      Number.isFinite(latitude) && Number.isFinite(longitude) &&
+      latitude >= -90 && latitude <= 90 && longitude >= -180 && longitude <= 180 &&
+      !(latitude === 0 && longitude === 0)
+
+    if (!isValid) {
+      setDerivedNeighborhoodId(null)
+      return
+    }
+
+    let cancelled = false
+    const timeout = setTimeout(() => {
+      findNeighborhoodForCoordinates(citySlug, latitude, longitude)
+        .then((neighborhoodId) => {
+          if (!cancelled) setDerivedNeighborhoodId(neighborhoodId)
+        })
+        .catch((err) => {
+          // The lookup is advisory; saving still works without it
+          console.warn('Neighborhood lookup failed:', err)
+          if (!cancelled) setDerivedNeighborhoodId(null)
+        })
+    }, NEIGHBORHOOD_LOOKUP_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [citySlug, latitude, longitude])
+
+  const cityBounds = cityMap?.bounds ?? null
+  const hasCoordinates = !(latitude === 0 && longitude === 0)
+  const isOutsideBounds = hasCoordinates && !isWithinCityBounds(cityBounds, latitude, longitude)
+  const isSwapped = hasCoordinates && areCoordinatesSwapped(cityBounds, latitude, longitude)
+
+  const derivedNeighborhood = neighborhoods.find((n) => n.id === derivedNeighborhoodId)
+  const derivedNeighborhoodName = derivedNeighborhood
+    ? derivedNeighborhood.translations[0]?.name || derivedNeighborhood.slug
+    : null
 
   /**
    * Handles form field changes
@@ -115,11 +178,29 @@ export function LanguagePointForm({
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  /**
+   * Fills in the coordinates (and an empty postal code) from a geocoding match
+   */
+  const handleGeocodingResult = (result: GeocodingResult) => {
+    setFormData(prev => ({
+      ...prev,
+      latitude: Number(result.latitude.toFixed(PICKER_COORDINATE_DECIMALS)),
+      longitude: Number(result.longitude.toFixed(PICKER_COORDINATE_DECIMALS)),
+      postal_code: prev.postal_code || result.postalCode || '',
+    }))
+  }
+
   /**
    * Handles form submission
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    if (isOutsideBounds) {
+      setError(isSwapped ? t('form.coordinatesSwapped') : t('form.outsideBounds'))
+      return
+    }
+
     setIsSubmitting(true)
     setError(null)
 
@@ -160,7 +241,7 @@ export function LanguagePointForm({
           <SelectContent>
             {languages.map((language) => (
               <SelectItem key={language.id} value={language.id}>
-                {language.translations[0]?.name || language.endonym || language.id}
+                <bdi>{language.translations[0]?.name || language.endonym || language.id}</bdi>
               </SelectItem>
             ))}
           </SelectContent>
@@ -188,8 +269,53 @@ export function LanguagePointForm({
             ))}
           </SelectContent>
         </Select>
+        {derivedNeighborhoodId && derivedNeighborhoodName &&
+          derivedNeighborhoodId !== formData.neighborhood_id && (
+          <div
+            role="status"
+            className="flex items-center justify-between gap-4 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800"
+          >
+            <span>
+              {formData.neighborhood_id
+                ? t('form.neighborhoodMismatch', { name: derivedNeighborhoodName })
+                : t('form.neighborhoodSuggestion', { name: derivedNeighborhoodName })}
+            </span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => handleChange('neighborhood_id', derivedNeighborhoodId)}
+            >
+              {t('form.useNeighborhood', { name: derivedNeighborhoodName })}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Address Search */}
+      <div className="space-y-2">
+        <Label htmlFor="address_search">{t('form.addressSearch.label')}</Label>
+        <AddressSearch
+          id="address_search"
+          citySlug={citySlug}
+          locale={locale}
+          onSelect={handleGeocodingResult}
+        />
       </div>
 
+      {/* Map Picker */}
+      {cityMap && (
+        <div className="space-y-2">
+          <Label>{t('form.mapPicker.label')}</Label>
+          <LocationPicker
+            city={cityMap}
+            latitude={latitude}
+            longitude={longitude}
+            onChange={(coordinates) => setFormData(prev => ({ ...prev, ...coordinates }))}
+          />
+        </div>
+      )}
+
       {/* Coordinates */}
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
@@ -226,6 +352,26 @@ export function LanguagePointForm({
           </p>
         </div>
       </div>
+      {isOutsideBounds && (
+        <div
+          role="alert"
+          className="flex items-center justify-between gap-4 rounded-md bg-red-50 p-3 text-sm text-red-800"
+        >
+          <span>{isSwapped ? t('form.coordinatesSwapped') : t('form.outsideBounds')}</span>
+          {isSwapped && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setFormData(prev => ({ ...prev, latitude: prev.longitude, longitude: prev.latitude }))
+              }
+            >
+              {t('form.swapCoordinates')}
+            </Button>
+          )}
+        </div>
+      )}
 
       {/* Postal Code (Optional) */}
       <div className="space-y-2">
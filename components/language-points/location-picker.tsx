@@ -0,0 +1,226 @@
+/**
+ * Location Picker Component
+ *
+ * Embedded Mapbox map for placing a language point: click the map or drag
+ * the marker to set the coordinates. The map starts at the city's center
+ * and zoom, outlines the city bounds and refuses positions outside them.
+ */
+
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import type { Map as MapboxMap, Marker } from 'mapbox-gl'
+import 'mapbox-gl/dist/mapbox-gl.css'
+import type { CityMapConfig } from '@/types/map'
+import { cityBoundsToFeature, isWithinCityBounds } from '@/lib/map/bounds'
+import {
+  DEFAULT_MAPBOX_STYLE,
+  MAP_IDS,
+  PICKER_COORDINATE_DECIMALS,
+  POINT_ZOOM_LEVEL,
+} from '@/lib/map/constants'
+
+interface LocationPickerProps {
+  /** Map configuration of the city (center, zoom, bounds, style) */
+  city: CityMapConfig
+  /** Current latitude (0 together with longitude 0 means "not set") */
+  latitude: number
+  /** Current longitude */
+  longitude: number
+  /** Called with the picked coordinates */
+  onChange: (coordinates: { latitude: number; longitude: number }) => void
+}
+
+/**
+ * Check whether form coordinates describe a placed point
+ */
+function hasPosition(latitude: number, longitude: number): boolean {
+  return (
+    Number.isFinite(latitude) && Number.isFinite(longitude) &&
+    latitude >= -90 && latitude <= 90 && longitude >= -180 && longitude <= 180 &&
+    !(latitude === 0 && longitude === 0)
+  )
+}
+
+/**
+ * Round a picked coordinate to the precision stored for language points
+ */
+function roundCoordinate(value: number): number {
+  return Number(value.toFixed(PICKER_COORDINATE_DECIMALS))
+}
+
+/**
+ * LocationPicker component
+ *
+ * @param city - City map configuration
+ * @param latitude - Current latitude
+ * @param longitude - Current longitude
+ * @param onChange - Handler receiving picked coordinates
+ */
+export function LocationPicker({ city, latitude, longitude, onChange }: LocationPickerProps) {
+  const t = useTranslations('languagePoints.form.mapPicker')
+  const containerRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<MapboxMap | null>(null)
+  const markerRef = useRef<Marker | null>(null)
+  const [outsideBounds, setOutsideBounds] = useState(false)
+  const [loadError, setLoadError] = useState(false)
+
+  // Map event handlers outlive renders; read the latest values through refs
+  const onChangeRef = useRef(onChange)
+  const positionRef = useRef({ latitude, longitude })
+  useEffect(() => {
+    onChangeRef.current = onChange
+    positionRef.current = { latitude, longitude }
+  })
+
+  const accessToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN
+
+  useEffect(() => {
+    if (!accessToken || !containerRef.current) {
+      return
+    }
+
+    let cancelled = false
+
+    async function initMap() {
+      try {
+        const { default: mapboxgl } = await import('mapbox-gl')
+        if (cancelled || !containerRef.current) return
+
+        mapboxgl.accessToken = accessToken as string
+        const initial = positionRef.current
+        const placed = hasPosition(initial.latitude, initial.longitude)
+
+        const map = new mapboxgl.Map({
+          container: containerRef.current,
+          style: city.mapboxStyle || DEFAULT_MAPBOX_STYLE,
+          center: placed
+            ? [initial.longitude, initial.latitude]
+            : [city.centerLng, city.centerLat],
+          zoom: placed ? POINT_ZOOM_LEVEL : city.defaultZoom,
+        })
+        mapRef.current = map
+        map.addControl(new mapboxgl.NavigationControl({ showCompass: false }), 'top-right')
+
+        const marker = new mapboxgl.Marker({ draggable: true })
+        markerRef.current = marker
+        if (placed) {
+          marker.setLngLat([initial.longitude, initial.latitude]).addTo(map)
+        }
+
+        /**
+         * Accept a picked position, or reject it (and restore the marker)
+         * when it lies outside the city bounds
+         */
+        const pick = (lng: number, lat: number) => {
+          if (!isWithinCityBounds(city.bounds, lat, lng)) {
+            setOutsideBounds(true)
+            const previous = positionRef.current
+            if (hasPosition(previous.latitude, previous.longitude)) {
+              marker.setLngLat([previous.longitude, previous.latitude])
+            } else {
+              marker.remove()
+            }
+            return
+          }
+
+          setOutsideBounds(false)
+          marker.setLngLat([lng, lat]).addTo(map)
+          onChangeRef.current({ latitude: roundCoordinate(lat), longitude: roundCoordinate(lng) })
+        }
+
+        map.on('click', (event) => pick(event.lngLat.lng, event.lngLat.lat))
+        marker.on('dragend', () => {
+          const { lng, lat } = marker.getLngLat()
+          pick(lng, lat)
+        })
+
+        map.once('load', () => {
+          if (cancelled || !city.bounds) return
+
+          map.addSource(MAP_IDS.CITY_BOUNDS_SOURCE, {
+            type: 'geojson',
+            data: cityBoundsToFeature(city.bounds),
+          })
+          map.addLayer({
+            id: MAP_IDS.CITY_BOUNDS_LINE_LAYER,
+            type: 'line',
+            source: MAP_IDS.CITY_BOUNDS_SOURCE,
+            paint: {
+              'line-color': city.primaryColor || '#EF4444',
+              'line-width': 2,
+              'line-dasharray': [2, 2],
+            },
+          })
+        })
+      } catch (error) {
+        console.error('Failed to initialize location picker:', {
+          citySlug: city.slug,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+        if (!cancelled) {
+          setLoadError(true)
+        }
+      }
+    }
+
+    initMap()
+
+    return () => {
+      cancelled = true
+      markerRef.current = null
+      mapRef.current?.remove()
+      mapRef.current = null
+    }
+  }, [accessToken, city])
+
+  // Follow coordinates typed into the form inputs
+  useEffect(() => {
+    const map = mapRef.current
+    const marker = markerRef.current
+    if (!map || !marker) return
+
+    if (!hasPosition(latitude, longitude)) {
+      marker.remove()
+      return
+    }
+
+    const current = marker.getLngLat()
+    if (current && current.lat === latitude && current.lng === longitude) return
+
+    marker.setLngLat([longitude, latitude]).addTo(map)
+    if (!map.getBounds()?.contains([longitude, latitude])) {
+      map.panTo([longitude, latitude])
+    }
+  }, [latitude, longitude])
+
+  if (!accessToken) {
+    return (
+      <p className="rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+        {t('missingToken')}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        className="h-72 w-full overflow-hidden rounded-md border"
+        data-testid="location-picker"
+      />
+      <p className="text-xs text-muted-foreground">{t('help')}</p>
+      {outsideBounds && (
+        <p role="alert" className="text-sm text-red-600">
+          {t('outsideBounds')}
+        </p>
+      )}
+      {loadError && (
+        <p role="alert" className="text-sm text-red-600">
+          {t('loadError')}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+/**
+ * Reassign Neighborhoods Button Component
+ *
+ * Runs the bulk job that assigns every language point of a city to the
+ * neighborhood whose boundary contains it, and reports the outcome.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { Loader2, MapPinned } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  reassignLanguagePointNeighborhoods,
+  type NeighborhoodReassignmentResult,
+} from '@/app/actions/language-points'
+
+interface ReassignNeighborhoodsButtonProps {
+  citySlug: string
+}
+
+/**
+ * ReassignNeighborhoodsButton component
+ *
+ * @param citySlug - The slug of the city
+ */
+export function ReassignNeighborhoodsButton({ citySlug }: ReassignNeighborhoodsButtonProps) {
+  const t = useTranslations('languagePoints.reassign')
+  const router = useRouter()
+  const [isRunning, setIsRunning] = useState(false)
+  const [result, setResult] = useState<NeighborhoodReassignmentResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleClick = async () => {
+    if (!window.confirm(t('confirm'))) {
+      return
+    }
+
+    setIsRunning(true)
+    setError(null)
+    setResult(null)
+
+    try {
+      setResult(await reassignLanguagePointNeighborhoods(citySlug))
+      router.refresh()
+    } catch (err) {
+      console.error('Error re-assigning neighborhoods:', err)
+      setError(t('error'))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <Button type="button" variant="outline" onClick={handleClick} disabled={isRunning}>
+        {isRunning ? (
+          <Loader2 className="me-2 h-4 w-4 animate-spin" />
+        ) : (
+          <MapPinned className="me-2 h-4 w-4" />
+        )}
+        {isRunning ? t('running') : t('button')}
+      </Button>
+      {result && (
+        <p role="status" className="text-sm text-muted-foreground">
+          {t('result', { total: result.total, updated: result.updated, unmatched: result.unmatched })}
+        </p>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
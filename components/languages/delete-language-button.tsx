@@ -31,6 +31,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
+import { isolateBidi } from '@/lib/i18n/config'
 
 /**
  * Props for DeleteLanguageButton component
@@ -150,9 +151,9 @@ export function DeleteLanguageButton({
       <AlertDialogTrigger asChild>
         <Button variant={variant} size={size} disabled={isDeleting}>
           {isDeleting ? (
-            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            <Loader2 className="h-4 w-4 me-1 animate-spin" />
           ) : (
-            <Trash2 className="h-4 w-4 mr-1" />
+            <Trash2 className="h-4 w-4 me-1" />
           )}
           {tCommon('delete')}
         </Button>
@@ -161,7 +162,7 @@ export function DeleteLanguageButton({
         <AlertDialogHeader>
           <AlertDialogTitle>{t('confirmTitle')}</AlertDialogTitle>
           <AlertDialogDescription>
-            {t('confirmMessage', { languageName })}
+            {t('confirmMessage', { languageName: isolateBidi(languageName) })}
           </AlertDialogDescription>
         </AlertDialogHeader>
 
@@ -182,7 +183,7 @@ export function DeleteLanguageButton({
           >
             {isDeleting ? (
               <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                <Loader2 className="h-4 w-4 me-2 animate-spin" />
                 {t('deleting')}
               </>
             ) : (
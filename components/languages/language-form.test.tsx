@@ -47,7 +47,7 @@ vi.mock('next/navigation', () => ({
 // Mock next-intl
 vi.mock('next-intl', () => ({
   useTranslations: vi.fn(() => {
-    return (key: string) => {
+    return (key: string, values?: Record<string, string>) => {
       const translations: Record<string, string> = {
         'form.create': 'Create Language',
         'form.update': 'Update Language',
@@ -68,9 +68,7 @@ vi.mock('next-intl', () => ({
         'form.none': 'None',
         'form.translations': 'Translations',
         'form.translationsDescription': 'Language names in different locales',
-        'form.englishName': 'English Name',
-        'form.dutchName': 'Dutch Name',
-        'form.frenchName': 'French Name',
+        'form.localeName': 'Name ({language})',
         'form.namePlaceholder': 'Enter name',
         'form.taxonomies': 'Classifications',
         'form.validation.required': 'This field is required',
@@ -80,7 +78,8 @@ vi.mock('next-intl', () => ({
         'error.network': 'Network error. Please try again.',
         'error.duplicate': 'This language already exists',
       }
-      return translations[key] || key
+      const message = translations[key] || key
+      return values ? message.replace(/\{(\w+)\}/g, (_, name: string) => values[name] ?? '') : message
     }
   }),
 }))
@@ -111,6 +110,11 @@ vi.mock('@/components/ui/label', () => ({
 const mockProps = {
   citySlug: 'amsterdam',
   locale: 'en',
+  locales: [
+    { code: 'en', name: 'English', nativeName: 'English' },
+    { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+    { code: 'fr', name: 'French', nativeName: 'Français' },
+  ],
   languageFamilies: [
     { id: '1', slug: 'indo-european', translations: [{ name: 'Indo-European' }] },
     { id: '2', slug: 'sino-tibetan', translations: [{ name: 'Sino-Tibetan' }] },
@@ -163,7 +167,7 @@ describe('LanguageForm', () => {
       expect(screen.getByLabelText(/speaker count/i)).toBeInTheDocument()
 
       // Check for English name (default active tab)
-      expect(screen.getByLabelText(/english name/i)).toBeInTheDocument()
+      expect(screen.getByLabelText(/name \(english\)/i)).toBeInTheDocument()
 
       // Check for taxonomy sections
       expect(screen.getByText(/language status/i)).toBeInTheDocument()
@@ -199,7 +203,7 @@ describe('LanguageForm', () => {
       const endonymInput = screen.getByLabelText(/endonym/i)
       fireEvent.change(endonymInput, { target: { value: 'English' } })
 
-      const nameEnInput = screen.getByLabelText(/english name/i)
+      const nameEnInput = screen.getByLabelText(/name \(english\)/i)
       fireEvent.change(nameEnInput, { target: { value: 'English' } })
 
       // Submit form
@@ -210,7 +214,7 @@ describe('LanguageForm', () => {
       await waitFor(() => {
         expect(createLanguage).toHaveBeenCalledWith('amsterdam', expect.objectContaining({
           endonym: 'English',
-          name_en: 'English',
+          names: expect.objectContaining({ en: 'English' }),
         }))
       })
     })
@@ -232,7 +236,7 @@ describe('LanguageForm', () => {
       const endonymInput = screen.getByLabelText(/endonym/i)
       fireEvent.change(endonymInput, { target: { value: 'English' } })
 
-      const nameEnInput = screen.getByLabelText(/english name/i)
+      const nameEnInput = screen.getByLabelText(/name \(english\)/i)
       fireEvent.change(nameEnInput, { target: { value: 'English' } })
 
       // Submit form
@@ -269,7 +273,7 @@ describe('LanguageForm', () => {
       expect(screen.getByLabelText(/endonym/i)).toHaveValue('English')
       expect(screen.getByLabelText(/iso 639-3 code/i)).toHaveValue('eng')
       // English name is in the default active tab
-      expect(screen.getByLabelText(/english name/i)).toHaveValue('English')
+      expect(screen.getByLabelText(/name \(english\)/i)).toHaveValue('English')
     })
 
     it('should update language successfully', async () => {
@@ -355,7 +359,7 @@ describe('LanguageForm', () => {
       const endonymInput = screen.getByLabelText(/endonym/i)
       fireEvent.change(endonymInput, { target: { value: 'Test Language' } })
 
-      const nameEnInput = screen.getByLabelText(/english name/i)
+      const nameEnInput = screen.getByLabelText(/name \(english\)/i)
       fireEvent.change(nameEnInput, { target: { value: 'Test Language' } })
 
       // Submit form
@@ -385,7 +389,7 @@ describe('LanguageForm', () => {
       const endonymInput = screen.getByLabelText(/endonym/i)
       fireEvent.change(endonymInput, { target: { value: 'Test Language' } })
 
-      const nameEnInput = screen.getByLabelText(/english name/i)
+      const nameEnInput = screen.getByLabelText(/name \(english\)/i)
       fireEvent.change(nameEnInput, { target: { value: 'Test Language' } })
 
       // Submit form
@@ -422,7 +426,7 @@ describe('LanguageForm', () => {
       const endonymInput = screen.getByLabelText(/endonym/i)
       fireEvent.change(endonymInput, { target: { value: 'Test Language' } })
 
-      const nameEnInput = screen.getByLabelText(/english name/i)
+      const nameEnInput = screen.getByLabelText(/name \(english\)/i)
       fireEvent.change(nameEnInput, { target: { value: 'Test Language' } })
 
       // Submit form
@@ -37,6 +37,7 @@ import { Badge } from '@/components/ui/badge'
 import { Checkbox } from '@/components/ui/checkbox'
 import { AlertCircle, Globe, Tag } from 'lucide-react'
 import { createLanguage, updateLanguage, type LanguageInput } from '@/app/actions/languages'
+import { defaultLocale, type LocaleOption } from '@/lib/i18n/config'
 
 /**
  * Type for language family data
@@ -107,6 +108,8 @@ interface LanguageFormProps {
   citySlug: string
   /** Locale code for internationalization */
   locale: string
+  /** Locales the city is translated into, default locale first */
+  locales: LocaleOption[]
   /** Available language families for selection */
   languageFamilies: LanguageFamily[]
   /** Available countries for selection */
@@ -128,6 +131,7 @@ interface LanguageFormProps {
 export function LanguageForm({
   citySlug,
   locale,
+  locales,
   languageFamilies,
   countries,
   taxonomyTypes,
@@ -164,9 +168,7 @@ export function LanguageForm({
     language_family_id: language?.language_family_id ?? '',
     country_of_origin_id: language?.country_of_origin_id ?? '',
     speaker_count: language?.speaker_count ?? undefined,
-    name_en: getTranslation('en'),
-    name_nl: getTranslation('nl'),
-    name_fr: getTranslation('fr'),
+    names: Object.fromEntries(locales.map(option => [option.code, getTranslation(option.code)])),
     taxonomy_value_ids: getSelectedTaxonomies(),
   })
 
@@ -182,9 +184,10 @@ export function LanguageForm({
       return t('form.endonymHelp') || 'Endonym is required'
     }
 
-    // Validate English name
-    if (!formData.name_en || formData.name_en.trim().length === 0) {
-      return t('form.englishName') + ' is required'
+    // Validate name in the default locale
+    if (!formData.names[defaultLocale]?.trim()) {
+      const defaultOption = locales.find(option => option.code === defaultLocale)
+      return t('form.localeName', { language: defaultOption?.nativeName ?? defaultLocale }) + ' is required'
     }
 
     // Validate ISO code format if provided
@@ -448,55 +451,40 @@ export function LanguageForm({
           <CardDescription>{t('form.translationsDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="en" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="en">English</TabsTrigger>
-              <TabsTrigger value="nl">Nederlands</TabsTrigger>
-              <TabsTrigger value="fr">Français</TabsTrigger>
+          <Tabs defaultValue={defaultLocale} className="w-full">
+            <TabsList className="flex w-full">
+              {locales.map(option => (
+                <TabsTrigger key={option.code} value={option.code} className="flex-1">
+                  {option.nativeName}
+                </TabsTrigger>
+              ))}
             </TabsList>
 
-            <TabsContent value="en" className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name_en">
-                  {t('form.englishName')} <span className="text-destructive" aria-hidden="true">*</span>
-                </Label>
-                <Input
-                  id="name_en"
-                  value={formData.name_en}
-                  onChange={e => setFormData({ ...formData, name_en: e.target.value })}
-                  required
-                  aria-required="true"
-                  placeholder={t('form.namePlaceholder')}
-                  disabled={isPending}
-                />
-              </div>
-            </TabsContent>
-
-            <TabsContent value="nl" className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name_nl">{t('form.dutchName')}</Label>
-                <Input
-                  id="name_nl"
-                  value={formData.name_nl}
-                  onChange={e => setFormData({ ...formData, name_nl: e.target.value })}
-                  placeholder={t('form.namePlaceholder')}
-                  disabled={isPending}
-                />
-              </div>
-            </TabsContent>
-
-            <TabsContent value="fr" className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name_fr">{t('form.frenchName')}</Label>
-                <Input
-                  id="name_fr"
-                  value={formData.name_fr}
-                  onChange={e => setFormData({ ...formData, name_fr: e.target.value })}
-                  placeholder={t('form.namePlaceholder')}
-                  disabled={isPending}
-                />
-              </div>
-            </TabsContent>
+            {locales.map(option => {
+              const isDefault = option.code === defaultLocale
+
+              return (
+                <TabsContent key={option.code} value={option.code} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`name_${option.code}`}>
+                      {t('form.localeName', { language: option.nativeName })}
+                      {isDefault && <> <span className="text-destructive" aria-hidden="true">*</span></>}
+                    </Label>
+                    <Input
+                      id={`name_${option.code}`}
+                      value={formData.names[option.code] ?? ''}
+                      onChange={e =>
+                        setFormData({ ...formData, names: { ...formData.names, [option.code]: e.target.value } })
+                      }
+                      required={isDefault}
+                      aria-required={isDefault ? 'true' : undefined}
+                      placeholder={t('form.namePlaceholder')}
+                      disabled={isPending}
+                    />
+                  </div>
+                </TabsContent>
+              )
+            })}
           </Tabs>
         </CardContent>
       </Card>
@@ -523,7 +511,7 @@ export function LanguageForm({
                   <Label className="text-base font-semibold">
                     {taxonomyType.translations[0]?.name || taxonomyType.slug}
                     {taxonomyType.is_required && (
-                      <span className="ml-1 text-destructive" aria-hidden="true">*</span>
+                      <span className="ms-1 text-destructive" aria-hidden="true">*</span>
                     )}
                   </Label>
                   <Badge variant="outline">
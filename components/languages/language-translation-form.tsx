@@ -230,7 +230,7 @@ export function LanguageTranslationForm({
                   disabled={isSubmitting || !name.trim()}
                   size="sm"
                 >
-                  <Save className="mr-2 h-4 w-4" />
+                  <Save className="me-2 h-4 w-4" />
                   {isSubmitting ? tCommon('actions.saving') : tCommon('actions.save')}
                 </Button>
                 {isExisting && (
@@ -240,7 +240,7 @@ export function LanguageTranslationForm({
                     disabled={isSubmitting}
                     size="sm"
                   >
-                    <X className="mr-2 h-4 w-4" />
+                    <X className="me-2 h-4 w-4" />
                     {tCommon('actions.cancel')}
                   </Button>
                 )}
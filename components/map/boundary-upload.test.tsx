@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Unit tests for BoundaryUpload component
+ * @description Tests file parsing, error display and remove/undo handling
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BoundaryUpload } from './boundary-upload'
+
+// Mock next-intl
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string) => key,
+}))
+
+/**
+ * Create a File with `text()`, which jsdom does not implement
+ */
+function createFile(contents: string, name: string): File {
+  const file = new File([contents], name, { type: 'application/geo+json' })
+  Object.defineProperty(file, 'text', { value: () => Promise.resolve(contents) })
+  return file
+}
+
+const square = [[4.88, 52.36], [4.92, 52.36], [4.92, 52.38], [4.88, 52.38], [4.88, 52.36]]
+
+describe('BoundaryUpload', () => {
+  it('should parse the selected file and report the boundary', async () => {
+    const onChange = vi.fn()
+    render(<BoundaryUpload id="boundary" hasExistingBoundary={false} value={undefined} onChange={onChange} />)
+
+    const file = createFile(JSON.stringify({ type: 'Polygon', coordinates: [square] }), 'centrum.geojson')
+    await userEvent.upload(screen.getByLabelText('fileLabel'), file)
+
+    await waitFor(() => {
+      expect(onChange).toHaveBeenCalledWith({ type: 'MultiPolygon', coordinates: [[square]] })
+    })
+  })
+
+  it('should show a translated error for invalid files', async () => {
+    const onChange = vi.fn()
+    render(<BoundaryUpload id="boundary" hasExistingBoundary={false} value={undefined} onChange={onChange} />)
+
+    const file = createFile('not json', 'centrum.geojson')
+    await userEvent.upload(screen.getByLabelText('fileLabel'), file)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('errors.invalidJson')
+    expect(onChange).toHaveBeenLastCalledWith(undefined)
+  })
+
+  it('should offer removing an existing boundary', async () => {
+    const onChange = vi.fn()
+    render(<BoundaryUpload id="boundary" hasExistingBoundary value={undefined} onChange={onChange} />)
+
+    expect(screen.getByText('existing')).toBeInTheDocument()
+    await userEvent.click(screen.getByRole('button', { name: 'remove' }))
+
+    expect(onChange).toHaveBeenCalledWith(null)
+  })
+
+  it('should undo a pending removal', async () => {
+    const onChange = vi.fn()
+    render(<BoundaryUpload id="boundary" hasExistingBoundary value={null} onChange={onChange} />)
+
+    expect(screen.getByText('willBeRemoved')).toBeInTheDocument()
+    await userEvent.click(screen.getByRole('button', { name: 'undo' }))
+
+    expect(onChange).toHaveBeenCalledWith(undefined)
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Boundary Upload Component
+ *
+ * Form card for attaching a polygon boundary to a district or neighborhood.
+ * The selected GeoJSON/TopoJSON file is parsed in the browser so problems
+ * are reported before the form is submitted.
+ */
+
+'use client'
+
+import { useState, type ChangeEvent } from 'react'
+import { useTranslations } from 'next-intl'
+import type { MultiPolygon } from 'geojson'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  countBoundaryVertices,
+  MAX_BOUNDARY_FILE_SIZE,
+  parseBoundaryFile,
+  type BoundaryParseError,
+} from '@/lib/map/boundary-files'
+
+interface BoundaryUploadProps {
+  /** Input id, unique within the form */
+  id: string
+  /** Whether the area already has a stored boundary */
+  hasExistingBoundary: boolean
+  /** Pending change: MultiPolygon to save, null to remove, undefined to keep */
+  value: MultiPolygon | null | undefined
+  /** Called with the pending change */
+  onChange: (value: MultiPolygon | null | undefined) => void
+}
+
+/**
+ * BoundaryUpload component
+ *
+ * @param id - Input id
+ * @param hasExistingBoundary - Whether a boundary is stored already
+ * @param value - Pending boundary change
+ * @param onChange - Change handler
+ */
+export function BoundaryUpload({ id, hasExistingBoundary, value, onChange }: BoundaryUploadProps) {
+  const t = useTranslations('map.boundaryUpload')
+  const [error, setError] = useState<BoundaryParseError | 'fileTooLarge' | null>(null)
+  // Changing the key resets the file input after "undo"
+  const [inputKey, setInputKey] = useState(0)
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    setError(null)
+
+    if (!file) {
+      onChange(undefined)
+      return
+    }
+
+    if (file.size > MAX_BOUNDARY_FILE_SIZE) {
+      setError('fileTooLarge')
+      onChange(undefined)
+      return
+    }
+
+    const result = parseBoundaryFile(await file.text())
+    if (result.error !== null) {
+      setError(result.error)
+      onChange(undefined)
+      return
+    }
+
+    onChange(result.boundary)
+  }
+
+  const handleUndo = () => {
+    setInputKey((key) => key + 1)
+    onChange(undefined)
+  }
+
+  let status: string
+  if (value) {
+    status = t('selected', {
+      polygons: value.coordinates.length,
+      vertices: countBoundaryVertices(value),
+    })
+  } else if (value === null) {
+    status = t('willBeRemoved')
+  } else {
+    status = hasExistingBoundary ? t('existing') : t('none')
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('title')}</CardTitle>
+        <CardDescription>{t('description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={id}>{t('fileLabel')}</Label>
+          <Input
+            key={inputKey}
+            id={id}
+            type="file"
+            accept=".geojson,.json,.topojson,application/geo+json,application/json"
+            onChange={handleFileChange}
+          />
+          {error && (
+            <p className="text-sm text-red-500" role="alert">
+              {t(`errors.${error}`)}
+            </p>
+          )}
+          <p className="text-xs text-gray-500">{t('helpText')}</p>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-700">{status}</p>
+          {hasExistingBoundary && value === undefined && (
+            <Button type="button" variant="outline" size="sm" onClick={() => onChange(null)}>
+              {t('remove')}
+            </Button>
+          )}
+          {value !== undefined && (
+            <Button type="button" variant="ghost" size="sm" onClick={handleUndo}>
+              {t('undo')}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,505 @@
+/**
+ * City Map Component
+ *
+ * Renders the public Mapbox GL map for a city with its language points.
+ * Points are loaded from the GeoJSON API and styled from their taxonomy
+ * colors, icons and size multipliers. Taxonomy types flagged for map styling
+ * drive the legend, types flagged for filtering drive the filter panel.
+ * Neighborhoods with a boundary are drawn as shaded areas below the points.
+ */
+
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import type { GeoJSONSource, Map as MapboxMap, MapMouseEvent } from 'mapbox-gl'
+import 'mapbox-gl/dist/mapbox-gl.css'
+import type {
+  BoundaryFeatureCollection,
+  CityMapConfig,
+  LanguagePointFeatureCollection,
+  MapTaxonomyType,
+} from '@/types/map'
+import {
+  getCircleRadiusExpression,
+  getCityMapView,
+  getIconSizeExpression,
+  getTextSizeExpression,
+  toStyledFeatureCollection,
+} from '@/lib/map/styling'
+import {
+  createEmptyFilters,
+  getTaxonomyValueCounts,
+  matchesLanguagePointFilters,
+  toggleTaxonomyFilter,
+} from '@/lib/map/filters'
+import {
+  BOUNDARY_FILL_COLOR,
+  BOUNDARY_FILL_OPACITY,
+  BOUNDARY_LINE_COLOR,
+  BOUNDARY_LINE_OPACITY,
+  DEFAULT_MAPBOX_STYLE,
+  DEFAULT_MARKER_ICON,
+  LABEL_MIN_ZOOM,
+  MAP_ICON_NAMES,
+  MAP_ICON_PIXEL_SIZE,
+  MAP_IDS,
+  POINT_ZOOM_LEVEL,
+  RTL_TEXT_PLUGIN_URL,
+} from '@/lib/map/constants'
+import { MapLegend } from './map-legend'
+import { MapFilterPanel } from './map-filter-panel'
+
+interface CityMapProps {
+  city: CityMapConfig
+  locale: string
+}
+
+type LoadState = 'loading' | 'ready' | 'empty' | 'error'
+
+/**
+ * Load an SVG icon from `public/map-icons/` and register it with the map
+ *
+ * @param map - Mapbox map instance
+ * @param name - Icon name (file name without extension)
+ */
+async function registerIcon(map: MapboxMap, name: string): Promise<void> {
+  if (map.hasImage(name)) {
+    return
+  }
+
+  // Rasterize at a higher resolution so the tuned icon-size steps give legible markers
+  const image = new Image(MAP_ICON_PIXEL_SIZE, MAP_ICON_PIXEL_SIZE)
+  image.src = `/map-icons/${name}.svg`
+  await image.decode()
+
+  if (!map.hasImage(name)) {
+    map.addImage(name, image)
+  }
+}
+
+/**
+ * Fetch language points for a city from the GeoJSON API
+ *
+ * A 404 response means the city has no (valid) points yet and yields an
+ * empty collection rather than an error.
+ *
+ * @param locale - Locale for translated language names
+ * @param citySlug - City identifier slug
+ * @returns FeatureCollection of language points
+ * @throws {Error} If the API returns another error status
+ */
+async function fetchLanguagePoints(
+  locale: string,
+  citySlug: string
+): Promise<LanguagePointFeatureCollection> {
+  const response = await fetch(`/api/${locale}/${citySlug}/geojson`)
+
+  if (response.status === 404) {
+    return { type: 'FeatureCollection', features: [] }
+  }
+
+  if (!response.ok) {
+    throw new Error(`GeoJSON request failed with status ${response.status}`)
+  }
+
+  return (await response.json()) as LanguagePointFeatureCollection
+}
+
+/**
+ * Fetch the taxonomy types used for the legend and filter panel
+ *
+ * The legend is optional: on failure the map still renders with default
+ * styling and no filters.
+ *
+ * @param locale - Locale for translated names
+ * @param citySlug - City identifier slug
+ * @returns Taxonomy types in display order
+ */
+async function fetchMapTaxonomies(locale: string, citySlug: string): Promise<MapTaxonomyType[]> {
+  try {
+    const response = await fetch(`/api/${locale}/${citySlug}/taxonomies`)
+    if (!response.ok) {
+      throw new Error(`Taxonomies request failed with status ${response.status}`)
+    }
+    const { types } = (await response.json()) as { types: MapTaxonomyType[] }
+    return types ?? []
+  } catch (error) {
+    console.warn('Failed to load map taxonomies:', {
+      citySlug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return []
+  }
+}
+
+/**
+ * Fetch the neighborhood boundaries drawn as shaded areas
+ *
+ * Boundaries are optional: on failure the map renders without them.
+ *
+ * @param locale - Locale for translated names
+ * @param citySlug - City identifier slug
+ * @returns FeatureCollection of neighborhood boundaries
+ */
+async function fetchNeighborhoodBoundaries(
+  locale: string,
+  citySlug: string
+): Promise<BoundaryFeatureCollection> {
+  try {
+    const response = await fetch(`/api/${locale}/${citySlug}/boundaries?type=neighborhood`)
+    if (!response.ok) {
+      throw new Error(`Boundaries request failed with status ${response.status}`)
+    }
+    return (await response.json()) as BoundaryFeatureCollection
+  } catch (error) {
+    console.warn('Failed to load neighborhood boundaries:', {
+      citySlug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return { type: 'FeatureCollection', features: [] }
+  }
+}
+
+/**
+ * Build the popup content for a clicked language point
+ *
+ * Uses DOM nodes with textContent so that user-entered values are never
+ * interpreted as HTML. Names are bidi-isolated, as endonyms may be written
+ * right-to-left.
+ */
+function buildPopupContent(
+  properties: Record<string, unknown>,
+  labels: { endonym: string; community: string; postalCode: string }
+): HTMLElement {
+  const container = document.createElement('div')
+  container.className = 'space-y-1 text-sm'
+
+  const title = document.createElement('p')
+  title.className = 'font-semibold'
+  title.dir = 'auto'
+  title.textContent = String(properties.languageName ?? '')
+  container.appendChild(title)
+
+  const rows: Array<[string, unknown]> = [
+    [labels.endonym, properties.endonym],
+    [labels.community, properties.communityName],
+    [labels.postalCode, properties.postalCode],
+  ]
+
+  for (const [label, value] of rows) {
+    if (typeof value !== 'string' || value === '' || value === 'null') {
+      continue
+    }
+    const row = document.createElement('p')
+    const labelNode = document.createElement('span')
+    labelNode.className = 'text-muted-foreground'
+    labelNode.textContent = `${label}: `
+    const valueNode = document.createElement('bdi')
+    valueNode.textContent = value
+    row.append(labelNode, valueNode)
+    container.appendChild(row)
+  }
+
+  return container
+}
+
+/**
+ * CityMap component
+ *
+ * @param city - Map configuration of the city (center, zoom, bounds, style)
+ * @param locale - Current locale used for language names
+ */
+export function CityMap({ city, locale }: CityMapProps) {
+  const t = useTranslations('map')
+  const containerRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<MapboxMap | null>(null)
+  const [state, setState] = useState<LoadState>('loading')
+  const [collection, setCollection] = useState<LanguagePointFeatureCollection | null>(null)
+  const [taxonomyTypes, setTaxonomyTypes] = useState<MapTaxonomyType[]>([])
+  const [filters, setFilters] = useState(createEmptyFilters)
+
+  const stylingTypes = useMemo(
+    () => taxonomyTypes.filter((type) => type.useForMapStyling),
+    [taxonomyTypes]
+  )
+  const filteringTypes = useMemo(
+    () => taxonomyTypes.filter((type) => type.useForFiltering),
+    [taxonomyTypes]
+  )
+
+  const filteredCollection = useMemo<LanguagePointFeatureCollection | null>(
+    () =>
+      collection && {
+        type: 'FeatureCollection',
+        features: collection.features.filter((feature) =>
+          matchesLanguagePointFilters(feature.properties, filters)
+        ),
+      },
+    [collection, filters]
+  )
+
+  const counts = useMemo(
+    () =>
+      getTaxonomyValueCounts(
+        (collection?.features ?? []).map((feature) => feature.properties),
+        filters
+      ),
+    [collection, filters]
+  )
+
+  const handleToggle = useCallback((typeSlug: string, valueSlug: string) => {
+    setFilters((current) => toggleTaxonomyFilter(current, typeSlug, valueSlug))
+  }, [])
+
+  const handleClear = useCallback(() => {
+    setFilters((current) => ({ ...current, taxonomies: {} }))
+  }, [])
+
+  const accessToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN
+
+  // Popup labels are read inside map event handlers, keep them in a ref
+  const labelsRef = useRef({
+    endonym: t('popup.endonym'),
+    community: t('popup.community'),
+    postalCode: t('popup.postalCode'),
+  })
+
+  useEffect(() => {
+    if (!accessToken || !containerRef.current) {
+      return
+    }
+
+    let cancelled = false
+
+    async function initMap() {
+      try {
+        const { default: mapboxgl } = await import('mapbox-gl')
+        if (cancelled || !containerRef.current) return
+
+        mapboxgl.accessToken = accessToken as string
+        // The plugin can only be set once per page; it loads when a label needs it
+        if (mapboxgl.getRTLTextPluginStatus() === 'unavailable') {
+          mapboxgl.setRTLTextPlugin(RTL_TEXT_PLUGIN_URL, null, true)
+        }
+        const view = getCityMapView(city)
+
+        const map = new mapboxgl.Map({
+          container: containerRef.current,
+          style: city.mapboxStyle || DEFAULT_MAPBOX_STYLE,
+          center: view.center,
+          zoom: view.zoom,
+          maxBounds: view.maxBounds,
+        })
+        mapRef.current = map
+        map.addControl(new mapboxgl.NavigationControl(), 'top-right')
+
+        // Load map style and data in parallel
+        const [points, types, boundaries] = await Promise.all([
+          fetchLanguagePoints(locale, city.slug),
+          fetchMapTaxonomies(locale, city.slug),
+          fetchNeighborhoodBoundaries(locale, city.slug),
+          new Promise<void>((resolve) => map.once('load', () => resolve())),
+        ])
+        if (cancelled) return
+
+        await Promise.all(
+          MAP_ICON_NAMES.filter((name) => name !== DEFAULT_MARKER_ICON).map((name) =>
+            registerIcon(map, name).catch((error) => {
+              console.warn('Failed to load map icon:', { name, error })
+            })
+          )
+        )
+        if (cancelled) return
+
+        // Neighborhood areas go first so that they render below the points
+        if (boundaries.features.length > 0) {
+          map.addSource(MAP_IDS.BOUNDARIES_SOURCE, {
+            type: 'geojson',
+            data: boundaries,
+          })
+
+          map.addLayer({
+            id: MAP_IDS.BOUNDARIES_FILL_LAYER,
+            type: 'fill',
+            source: MAP_IDS.BOUNDARIES_SOURCE,
+            paint: {
+              'fill-color': BOUNDARY_FILL_COLOR,
+              'fill-opacity': BOUNDARY_FILL_OPACITY,
+            },
+          })
+
+          map.addLayer({
+            id: MAP_IDS.BOUNDARIES_LINE_LAYER,
+            type: 'line',
+            source: MAP_IDS.BOUNDARIES_SOURCE,
+            paint: {
+              'line-color': BOUNDARY_LINE_COLOR,
+              'line-opacity': BOUNDARY_LINE_OPACITY,
+              'line-width': 1,
+            },
+          })
+        }
+
+        map.addSource(MAP_IDS.POINTS_SOURCE, {
+          type: 'geojson',
+          data: toStyledFeatureCollection(
+            points,
+            types.filter((type) => type.useForMapStyling).map((type) => type.slug)
+          ),
+        })
+
+        // Colored circles for every point
+        map.addLayer({
+          id: MAP_IDS.POINTS_CIRCLE_LAYER,
+          type: 'circle',
+          source: MAP_IDS.POINTS_SOURCE,
+          paint: {
+            'circle-color': ['get', 'markerColor'],
+            'circle-radius': getCircleRadiusExpression(),
+            'circle-stroke-width': 1,
+            'circle-stroke-color': '#FFFFFF',
+          },
+        })
+
+        // Icons on top for taxonomy values that define one
+        map.addLayer({
+          id: MAP_IDS.POINTS_ICON_LAYER,
+          type: 'symbol',
+          source: MAP_IDS.POINTS_SOURCE,
+          filter: ['!=', ['get', 'markerIcon'], DEFAULT_MARKER_ICON],
+          layout: {
+            'icon-image': ['get', 'markerIcon'],
+            'icon-size': getIconSizeExpression(),
+            'icon-allow-overlap': true,
+          },
+        })
+
+        // Language name labels at closer zoom levels
+        map.addLayer({
+          id: MAP_IDS.POINTS_LABEL_LAYER,
+          type: 'symbol',
+          source: MAP_IDS.POINTS_SOURCE,
+          minzoom: LABEL_MIN_ZOOM,
+          layout: {
+            'text-field': ['to-string', ['get', 'languageName']],
+            'text-size': getTextSizeExpression(),
+            'text-radial-offset': 0.5,
+            'text-variable-anchor': ['bottom-left', 'top-left', 'bottom-right', 'top-right'],
+            'text-justify': 'auto',
+          },
+          paint: {
+            'text-halo-color': '#FFFFFF',
+            'text-halo-width': 1,
+          },
+        })
+
+        const handleClick = (event: MapMouseEvent) => {
+          const feature = event.features?.[0]
+          if (!feature || feature.geometry.type !== 'Point') return
+
+          const coordinates = feature.geometry.coordinates as [number, number]
+          new mapboxgl.Popup({ offset: 8 })
+            .setLngLat(coordinates)
+            .setDOMContent(buildPopupContent(feature.properties ?? {}, labelsRef.current))
+            .addTo(map)
+
+          if (map.getZoom() < POINT_ZOOM_LEVEL) {
+            map.flyTo({ center: coordinates, zoom: POINT_ZOOM_LEVEL })
+          }
+        }
+
+        map.on('click', MAP_IDS.POINTS_CIRCLE_LAYER, handleClick)
+        map.on('mouseenter', MAP_IDS.POINTS_CIRCLE_LAYER, () => {
+          map.getCanvas().style.cursor = 'pointer'
+        })
+        map.on('mouseleave', MAP_IDS.POINTS_CIRCLE_LAYER, () => {
+          map.getCanvas().style.cursor = ''
+        })
+
+        setTaxonomyTypes(types)
+        setCollection(points)
+        setState(points.features.length === 0 ? 'empty' : 'ready')
+      } catch (error) {
+        console.error('Failed to initialize city map:', {
+          citySlug: city.slug,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+        if (!cancelled) {
+          setState('error')
+        }
+      }
+    }
+
+    initMap()
+
+    return () => {
+      cancelled = true
+      mapRef.current?.remove()
+      mapRef.current = null
+    }
+  }, [accessToken, city, locale])
+
+  // Push filtered points to the map whenever the filters change
+  useEffect(() => {
+    const source = mapRef.current?.getSource(MAP_IDS.POINTS_SOURCE) as GeoJSONSource | undefined
+    if (!source || !filteredCollection) return
+
+    source.setData(
+      toStyledFeatureCollection(
+        filteredCollection,
+        stylingTypes.map((type) => type.slug)
+      )
+    )
+  }, [filteredCollection, stylingTypes])
+
+  if (!accessToken) {
+    return (
+      <div className="rounded-md bg-yellow-50 p-4 text-sm text-yellow-800">
+        {t('missingToken')}
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative h-full w-full">
+      <div ref={containerRef} className="h-full w-full" data-testid="city-map" />
+
+      {state !== 'ready' && (
+        <div className="pointer-events-none absolute inset-x-0 top-4 flex justify-center">
+          <div
+            role="status"
+            className={
+              state === 'error'
+                ? 'rounded-md bg-red-50 px-4 py-2 text-sm text-red-800 shadow'
+                : 'rounded-md bg-white/90 px-4 py-2 text-sm text-gray-700 shadow'
+            }
+          >
+            {state === 'loading' && t('loading')}
+            {state === 'empty' && t('noPoints')}
+            {state === 'error' && t('loadError')}
+          </div>
+        </div>
+      )}
+
+      {state === 'ready' && (stylingTypes.length > 0 || filteringTypes.length > 0) && (
+        <aside className="absolute start-4 top-4 max-h-[calc(100%-6rem)] w-64 space-y-4 overflow-y-auto rounded-md bg-white/95 p-4 shadow">
+          <MapFilterPanel
+            types={filteringTypes}
+            filters={filters}
+            counts={counts}
+            onToggle={handleToggle}
+            onClear={handleClear}
+          />
+          <MapLegend types={stylingTypes} counts={counts} />
+        </aside>
+      )}
+
+      {state === 'ready' && (
+        <div className="absolute bottom-6 start-4 rounded-md bg-white/90 px-3 py-1 text-xs text-gray-700 shadow">
+          {t('pointCount', { count: filteredCollection?.features.length ?? 0 })}
+        </div>
+      )}
+    </div>
+  )
+}
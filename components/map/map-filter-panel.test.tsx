@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Unit tests for MapFilterPanel component
+ * @description Tests rendering of filter groups, counts and toggle handling
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MapFilterPanel } from './map-filter-panel'
+import { createEmptyFilters } from '@/lib/map/filters'
+import type { MapTaxonomyType } from '@/types/map'
+
+// Mock next-intl
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string) => key,
+}))
+
+const types: MapTaxonomyType[] = [
+  {
+    slug: 'size',
+    name: 'Community Size',
+    description: null,
+    useForMapStyling: true,
+    useForFiltering: true,
+    displayOrder: 0,
+    values: [
+      { slug: 'small', name: 'Small', description: null, color: '#FFA500', iconName: null, displayOrder: 0 },
+      { slug: 'large', name: 'Large', description: null, color: '#FF4500', iconName: null, displayOrder: 1 },
+    ],
+  },
+]
+
+describe('MapFilterPanel', () => {
+  it('should render values in order with their counts', () => {
+    render(
+      <MapFilterPanel
+        types={types}
+        filters={createEmptyFilters()}
+        counts={{ size: { small: 4 } }}
+        onToggle={vi.fn()}
+        onClear={vi.fn()}
+      />
+    )
+
+    expect(screen.getByText('Community Size')).toBeInTheDocument()
+    const labels = screen.getAllByRole('checkbox').map((box) => box.id)
+    expect(labels).toEqual(['map-filter-size-small', 'map-filter-size-large'])
+    expect(screen.getByText('4')).toBeInTheDocument()
+    expect(screen.getByText('0')).toBeInTheDocument()
+    expect(screen.queryByText('clear')).not.toBeInTheDocument()
+  })
+
+  it('should call onToggle with the type and value slugs', async () => {
+    const user = userEvent.setup()
+    const onToggle = vi.fn()
+
+    render(
+      <MapFilterPanel
+        types={types}
+        filters={createEmptyFilters()}
+        counts={{}}
+        onToggle={onToggle}
+        onClear={vi.fn()}
+      />
+    )
+
+    await user.click(screen.getByLabelText('Large'))
+
+    expect(onToggle).toHaveBeenCalledWith('size', 'large')
+  })
+
+  it('should show selected values and a clear button', async () => {
+    const user = userEvent.setup()
+    const onClear = vi.fn()
+
+    render(
+      <MapFilterPanel
+        types={types}
+        filters={{ ...createEmptyFilters(), taxonomies: { size: ['large'] } }}
+        counts={{}}
+        onToggle={vi.fn()}
+        onClear={onClear}
+      />
+    )
+
+    expect(screen.getByLabelText('Large')).toHaveAttribute('data-state', 'checked')
+    expect(screen.getByLabelText('Small')).toHaveAttribute('data-state', 'unchecked')
+
+    await user.click(screen.getByText('clear'))
+    expect(onClear).toHaveBeenCalled()
+  })
+
+  it('should render nothing without filtering types', () => {
+    const { container } = render(
+      <MapFilterPanel
+        types={[]}
+        filters={createEmptyFilters()}
+        counts={{}}
+        onToggle={vi.fn()}
+        onClear={vi.fn()}
+      />
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
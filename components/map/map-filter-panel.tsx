@@ -0,0 +1,89 @@
+/**
+ * Map Filter Panel Component
+ *
+ * Lists the taxonomy types a city uses for filtering as checkbox groups.
+ * Values of one type are combined with OR, different types with AND, and
+ * every value shows how many points would match if it were selected.
+ */
+
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import type { LanguagePointFilters } from '@/lib/map/filters'
+import type { MapTaxonomyType } from '@/types/map'
+
+interface MapFilterPanelProps {
+  /** Taxonomy types flagged `use_for_filtering`, in display order */
+  types: MapTaxonomyType[]
+  /** Currently active filters */
+  filters: LanguagePointFilters
+  /** Faceted point counts keyed by type slug, then value slug */
+  counts: Record<string, Record<string, number>>
+  /** Called when a value is checked or unchecked */
+  onToggle: (typeSlug: string, valueSlug: string) => void
+  /** Called to remove all taxonomy filters */
+  onClear: () => void
+}
+
+/**
+ * MapFilterPanel component
+ *
+ * @param types - Filtering taxonomy types with their values
+ * @param filters - Active filters
+ * @param counts - Live point counts per taxonomy value
+ * @param onToggle - Toggle handler for a taxonomy value
+ * @param onClear - Handler that clears all taxonomy filters
+ */
+export function MapFilterPanel({ types, filters, counts, onToggle, onClear }: MapFilterPanelProps) {
+  const t = useTranslations('map.filters')
+
+  if (types.length === 0) {
+    return null
+  }
+
+  const hasSelection = Object.keys(filters.taxonomies).length > 0
+
+  return (
+    <section aria-labelledby="map-filters-title" className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 id="map-filters-title" className="text-sm font-semibold">
+          {t('title')}
+        </h2>
+        {hasSelection && (
+          <Button type="button" variant="ghost" size="sm" onClick={onClear}>
+            {t('clear')}
+          </Button>
+        )}
+      </div>
+
+      {types.map((type) => (
+        <fieldset key={type.slug} className="space-y-1">
+          <legend className="text-xs font-medium uppercase text-muted-foreground">{type.name}</legend>
+          {type.values.map((value) => {
+            const id = `map-filter-${type.slug}-${value.slug}`
+            const checked = filters.taxonomies[type.slug]?.includes(value.slug) ?? false
+
+            return (
+              <div key={value.slug} className="flex items-center gap-2">
+                <Checkbox
+                  id={id}
+                  checked={checked}
+                  onCheckedChange={() => onToggle(type.slug, value.slug)}
+                />
+                <Label htmlFor={id} className="flex-1 text-sm font-normal">
+                  {value.name}
+                </Label>
+                <span className="text-xs tabular-nums text-muted-foreground">
+                  {counts[type.slug]?.[value.slug] ?? 0}
+                </span>
+              </div>
+            )
+          })}
+        </fieldset>
+      ))}
+    </section>
+  )
+}
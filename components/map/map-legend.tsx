@@ -0,0 +1,63 @@
+/**
+ * Map Legend Component
+ *
+ * Lists the taxonomy types a city uses for map styling, with the color of
+ * each value and the number of currently matching points.
+ */
+
+'use client'
+
+import { useTranslations } from 'next-intl'
+import type { MapTaxonomyType } from '@/types/map'
+
+interface MapLegendProps {
+  /** Taxonomy types flagged `use_for_map_styling`, in display order */
+  types: MapTaxonomyType[]
+  /** Matching point counts keyed by type slug, then value slug */
+  counts: Record<string, Record<string, number>>
+}
+
+/**
+ * MapLegend component
+ *
+ * @param types - Styling taxonomy types with their values
+ * @param counts - Live point counts per taxonomy value
+ */
+export function MapLegend({ types, counts }: MapLegendProps) {
+  const t = useTranslations('map.legend')
+
+  if (types.length === 0) {
+    return null
+  }
+
+  return (
+    <section aria-labelledby="map-legend-title" className="space-y-3">
+      <h2 id="map-legend-title" className="text-sm font-semibold">
+        {t('title')}
+      </h2>
+
+      {types.map((type) => (
+        <div key={type.slug} className="space-y-1">
+          <h3 className="text-xs font-medium uppercase text-muted-foreground">{type.name}</h3>
+          <ul className="space-y-1">
+            {type.values.map((value) => (
+              <li key={value.slug} className="flex items-center gap-2 text-sm">
+                <span
+                  aria-hidden="true"
+                  className="inline-block h-3 w-3 shrink-0 rounded-full border border-white shadow"
+                  style={{ backgroundColor: value.color }}
+                />
+                <span className="flex-1" title={value.description ?? undefined}>
+                  {value.name}
+                </span>
+                <span className="text-xs tabular-nums text-muted-foreground">
+                  {counts[type.slug]?.[value.slug] ?? 0}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </section>
+  )
+}
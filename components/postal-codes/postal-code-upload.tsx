@@ -0,0 +1,172 @@
+/**
+ * Postal Code Upload Component
+ *
+ * Uploads a CSV file of postal code centroids for the offline geocoder.
+ * The file is checked in the browser first so problems are reported before
+ * the stored table is replaced.
+ */
+
+'use client'
+
+import { useState, type ChangeEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { Loader2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  uploadPostalCodeCentroids,
+  type PostalCodeUploadResult,
+} from '@/app/actions/geocoding'
+import {
+  MAX_POSTAL_CODE_FILE_SIZE,
+  MAX_POSTAL_CODE_ROWS,
+  parsePostalCodeCsv,
+  type PostalCodeCsvError,
+  type PostalCodeCsvRowError,
+} from '@/lib/geocoding/postal-codes'
+
+/**
+ * Number of row problems listed before the rest is summarized
+ */
+const MAX_LISTED_ROW_ERRORS = 5
+
+interface PostalCodeUploadProps {
+  citySlug: string
+}
+
+/**
+ * A checked file, ready to upload
+ */
+interface CheckedFile {
+  text: string
+  validRows: number
+  rowErrors: PostalCodeCsvRowError[]
+}
+
+/**
+ * PostalCodeUpload component
+ *
+ * @param citySlug - The slug of the city
+ */
+export function PostalCodeUpload({ citySlug }: PostalCodeUploadProps) {
+  const t = useTranslations('postalCodes.upload')
+  const router = useRouter()
+  const [checkedFile, setCheckedFile] = useState<CheckedFile | null>(null)
+  const [fileError, setFileError] = useState<PostalCodeCsvError | 'fileTooLarge' | 'noValidRows' | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  const [result, setResult] = useState<PostalCodeUploadResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    setCheckedFile(null)
+    setFileError(null)
+    setResult(null)
+    setError(null)
+
+    if (!file) {
+      return
+    }
+
+    if (file.size > MAX_POSTAL_CODE_FILE_SIZE) {
+      setFileError('fileTooLarge')
+      return
+    }
+
+    const text = await file.text()
+    const parsed = parsePostalCodeCsv(text)
+
+    if (parsed.error !== null) {
+      setFileError(parsed.error)
+      return
+    }
+
+    if (parsed.centroids.length === 0) {
+      setFileError('noValidRows')
+      return
+    }
+
+    setCheckedFile({ text, validRows: parsed.centroids.length, rowErrors: parsed.rowErrors })
+  }
+
+  const handleUpload = async () => {
+    if (!checkedFile || !window.confirm(t('confirm'))) {
+      return
+    }
+
+    setIsUploading(true)
+    setError(null)
+
+    try {
+      setResult(await uploadPostalCodeCentroids(citySlug, checkedFile.text))
+      setCheckedFile(null)
+      router.refresh()
+    } catch (err) {
+      console.error('Error uploading postal codes:', err)
+      setError(t('error'))
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="postal_code_file">{t('file')}</Label>
+        <Input
+          id="postal_code_file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          disabled={isUploading}
+        />
+        <p className="text-xs text-muted-foreground">
+          {t('help', { maxRows: MAX_POSTAL_CODE_ROWS })}
+        </p>
+      </div>
+
+      {fileError && (
+        <p role="alert" className="text-sm text-red-600">
+          {t(`errors.${fileError}`)}
+        </p>
+      )}
+
+      {checkedFile && (
+        <div role="status" className="space-y-2 rounded-md border p-3 text-sm">
+          <p>{t('summary', { valid: checkedFile.validRows, skipped: checkedFile.rowErrors.length })}</p>
+          {checkedFile.rowErrors.length > 0 && (
+            <ul className="list-disc ps-5 text-yellow-800">
+              {checkedFile.rowErrors.slice(0, MAX_LISTED_ROW_ERRORS).map(({ line, error: rowError }) => (
+                <li key={line}>{t('rowError', { line, error: t(`errors.${rowError}`) })}</li>
+              ))}
+              {checkedFile.rowErrors.length > MAX_LISTED_ROW_ERRORS && (
+                <li>{t('moreRowErrors', { count: checkedFile.rowErrors.length - MAX_LISTED_ROW_ERRORS })}</li>
+              )}
+            </ul>
+          )}
+          <Button type="button" onClick={handleUpload} disabled={isUploading}>
+            {isUploading ? (
+              <Loader2 className="me-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="me-2 h-4 w-4" />
+            )}
+            {isUploading ? t('uploading') : t('button')}
+          </Button>
+        </div>
+      )}
+
+      {result && (
+        <p role="status" className="text-sm text-green-700">
+          {t('result', { stored: result.stored, skipped: result.skipped })}
+        </p>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+/**
+ * Deleted Entity List Component
+ *
+ * Card listing the languages or descriptions of a city that were deleted,
+ * linking to their history, where they can be restored.
+ *
+ * @module components/revisions/deleted-entity-list
+ */
+
+'use client'
+
+import Link from 'next/link'
+import { useFormatter, useTranslations } from 'next-intl'
+import { History } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+/**
+ * Deleted language or description, ready for display
+ */
+export interface DeletedEntityItem {
+  entityId: string
+  title: string
+  deletedAt: string
+  deletedByName: string | null
+}
+
+interface DeletedEntityListProps {
+  items: DeletedEntityItem[]
+  /** List page of the entities; history pages are below it */
+  basePath: string
+}
+
+/**
+ * DeletedEntityList component
+ *
+ * Renders nothing when nothing was deleted.
+ *
+ * @param props - Component props
+ * @returns Deleted entity card JSX
+ */
+export function DeletedEntityList({ items, basePath }: DeletedEntityListProps) {
+  const t = useTranslations('revisions.deleted')
+  const format = useFormatter()
+
+  if (items.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('title')}</CardTitle>
+        <CardDescription>{t('description', { count: items.length })}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {items.map((item) => (
+            <li key={item.entityId} className="flex items-center justify-between gap-4 py-3 text-sm">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{item.title}</div>
+                <div className="text-muted-foreground">
+                  {t('deletedAt', {
+                    date: format.dateTime(new Date(item.deletedAt), { dateStyle: 'medium', timeStyle: 'short' }),
+                    name: item.deletedByName ?? t('unknownUser'),
+                  })}
+                </div>
+              </div>
+              <Link href={`${basePath}/${item.entityId}/history`}>
+                <Button variant="outline" size="sm">
+                  <History className="me-2 h-4 w-4" />
+                  {t('history')}
+                </Button>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
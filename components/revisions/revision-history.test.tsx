@@ -0,0 +1,162 @@
+/**
+ * Unit Tests for Revision History Component
+ *
+ * Tests listing versions, comparing them and restoring one.
+ *
+ * @module components/revisions/revision-history.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { RevisionHistory } from './revision-history'
+import { restoreRevision, type Revision } from '@/app/actions/revisions'
+import type { DescriptionSnapshot } from '@/lib/revisions/snapshots'
+
+// Mock next-intl; keys are returned with their values appended
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key} ${Object.values(values).join(' ')}` : key,
+  useFormatter: () => ({ dateTime: (date: Date) => date.toISOString().slice(0, 10) }),
+}))
+
+const push = vi.fn()
+const refresh = vi.fn()
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push, refresh }),
+}))
+
+vi.mock('@/app/actions/revisions', () => ({
+  restoreRevision: vi.fn(),
+}))
+
+/**
+ * Description snapshot with an English text
+ */
+function snapshotWithText(text: string): DescriptionSnapshot {
+  return {
+    description: { id: 'description-1', city_id: 'city-1', language_id: 'language-1', neighborhood_id: null, is_ai_generated: false },
+    translations: [{ locale: 'en', text, is_ai_translated: false }],
+  }
+}
+
+const revisions: Revision[] = [
+  {
+    id: 'revision-3',
+    revision: 3,
+    reason: 'update',
+    createdAt: '2025-03-03T10:00:00Z',
+    authorName: 'Alice',
+    snapshot: snapshotWithText('Spoken in a few homes.'),
+  },
+  {
+    id: 'revision-2',
+    revision: 2,
+    reason: 'update',
+    createdAt: '2025-03-02T10:00:00Z',
+    authorName: null,
+    snapshot: snapshotWithText('Spoken in many homes.'),
+  },
+  {
+    id: 'revision-1',
+    revision: 1,
+    reason: 'create',
+    createdAt: '2025-03-01T10:00:00Z',
+    authorName: 'Ben',
+    snapshot: snapshotWithText('Spoken in many homes.'),
+  },
+]
+
+const labels = { 'language-1': 'Turkish' }
+
+describe('RevisionHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should list the versions and compare the newest with the one before it', () => {
+    render(
+      <RevisionHistory citySlug="amsterdam" revisions={revisions} labels={labels} exists editHref="/en/edit" />
+    )
+
+    const versions = within(screen.getByRole('list', { name: 'versions' })).getAllByRole('button')
+    expect(versions).toHaveLength(3)
+    expect(versions[0]).toHaveAttribute('aria-current', 'true')
+    expect(versions[1]).toHaveTextContent('unknownAuthor')
+
+    expect(screen.getByText('fields.text EN')).toBeInTheDocument()
+    expect(screen.getByText('many', { selector: 'del' })).toBeInTheDocument()
+    expect(screen.getByText('a few', { selector: 'ins' })).toBeInTheDocument()
+  })
+
+  it('should not offer to restore the current version of an existing entry', () => {
+    render(
+      <RevisionHistory citySlug="amsterdam" revisions={revisions} labels={labels} exists editHref="/en/edit" />
+    )
+
+    expect(screen.queryByRole('button', { name: 'restore' })).not.toBeInTheDocument()
+  })
+
+  it('should show a version without changes and its full first version', async () => {
+    const user = userEvent.setup()
+    render(
+      <RevisionHistory citySlug="amsterdam" revisions={revisions} labels={labels} exists editHref="/en/edit" />
+    )
+
+    await user.click(screen.getByRole('button', { name: /version 2/ }))
+    expect(screen.getByText('noChanges')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: /version 1/ }))
+    expect(screen.getByText('fields.language')).toBeInTheDocument()
+    expect(screen.getByText('Turkish')).toBeInTheDocument()
+  })
+
+  it('should restore an older version after confirmation', async () => {
+    vi.mocked(restoreRevision).mockResolvedValue({ entityType: 'description', entityId: 'description-1' })
+    const user = userEvent.setup()
+    render(
+      <RevisionHistory citySlug="amsterdam" revisions={revisions} labels={labels} exists editHref="/en/edit" />
+    )
+
+    await user.click(screen.getByRole('button', { name: /version 2/ }))
+    await user.click(screen.getByRole('button', { name: 'restore' }))
+
+    const dialog = await screen.findByRole('alertdialog')
+    expect(dialog).toHaveTextContent('restoreMessage')
+    await user.click(within(dialog).getByRole('button', { name: 'restore' }))
+
+    expect(restoreRevision).toHaveBeenCalledWith('amsterdam', 'revision-2')
+    expect(push).toHaveBeenCalledWith('/en/edit')
+  })
+
+  it('should restore a deleted entry from its last version and show failures', async () => {
+    vi.mocked(restoreRevision).mockRejectedValue(new Error('Restore the language of this description first'))
+    const user = userEvent.setup()
+    render(
+      <RevisionHistory
+        citySlug="amsterdam"
+        revisions={[{ ...revisions[0], reason: 'delete' }, ...revisions.slice(1)]}
+        labels={labels}
+        exists={false}
+        editHref="/en/edit"
+      />
+    )
+
+    await user.click(screen.getByRole('button', { name: 'restore' }))
+    const dialog = await screen.findByRole('alertdialog')
+    expect(dialog).toHaveTextContent('restoreDeletedMessage')
+    await user.click(within(dialog).getByRole('button', { name: 'restore' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'restoreError Restore the language of this description first'
+    )
+    expect(push).not.toHaveBeenCalled()
+  })
+
+  it('should explain an empty history', () => {
+    render(<RevisionHistory citySlug="amsterdam" revisions={[]} labels={labels} exists editHref="/en/edit" />)
+
+    expect(screen.getByText('empty')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,265 @@
+/**
+ * Revision History Component
+ *
+ * Lists the saved versions of a language or description. Selecting a
+ * version shows what it changed compared with the version before it (or
+ * any other version), with description texts compared word by word, and
+ * lets the operator restore it.
+ *
+ * @module components/revisions/revision-history
+ */
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useFormatter, useTranslations } from 'next-intl'
+import { Loader2, RotateCcw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { restoreRevision, type Revision } from '@/app/actions/revisions'
+import { getRevisionChanges, type RevisionChange, type RevisionLabels, type RevisionReason } from '@/lib/revisions/snapshots'
+import { diffWords } from '@/lib/revisions/diff'
+import { cn } from '@/lib/utils'
+
+/**
+ * Select value for comparing with nothing (Radix Select needs a non-empty value)
+ */
+const NONE = '__none__'
+
+const REASON_BADGE_CLASSES: Record<RevisionReason, string> = {
+  create: 'border-transparent bg-green-100 text-green-800',
+  update: 'border-transparent bg-blue-100 text-blue-800',
+  delete: 'border-transparent bg-red-100 text-red-800',
+  restore: 'border-transparent bg-amber-100 text-amber-800',
+}
+
+interface RevisionHistoryProps {
+  citySlug: string
+  /** Revisions, newest first */
+  revisions: Revision[]
+  /** Names for the IDs in the snapshots */
+  labels: RevisionLabels
+  /** Whether the language or description still exists */
+  exists: boolean
+  /** Page to open after a restore */
+  editHref: string
+}
+
+/**
+ * Value of a change; description texts as a word diff
+ */
+function ChangeValues({ change }: { change: RevisionChange }) {
+  if (change.field === 'text' && change.before && change.after) {
+    return (
+      <td colSpan={2} className="whitespace-pre-wrap break-words py-2">
+        {diffWords(change.before, change.after).map((part, index) =>
+          part.type === 'same' ? (
+            <span key={index}>{part.text}</span>
+          ) : part.type === 'removed' ? (
+            <del key={index} className="bg-red-100 text-red-800">
+              {part.text}
+            </del>
+          ) : (
+            <ins key={index} className="bg-green-100 text-green-800 no-underline">
+              {part.text}
+            </ins>
+          )
+        )}
+      </td>
+    )
+  }
+
+  return (
+    <>
+      <td className="whitespace-pre-wrap break-words py-2 pe-4 text-red-700">{change.before ?? '—'}</td>
+      <td className="whitespace-pre-wrap break-words py-2 text-green-700">{change.after ?? '—'}</td>
+    </>
+  )
+}
+
+/**
+ * RevisionHistory component
+ *
+ * @param props - Component props
+ * @returns Revision history JSX
+ */
+export function RevisionHistory({ citySlug, revisions, labels, exists, editHref }: RevisionHistoryProps) {
+  const t = useTranslations('revisions')
+  const format = useFormatter()
+  const router = useRouter()
+
+  const [selectedId, setSelectedId] = useState(revisions[0]?.id ?? null)
+  const [compareId, setCompareId] = useState<string | null>(revisions[1]?.id ?? null)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [restoreError, setRestoreError] = useState<string | null>(null)
+
+  const selected = revisions.find((revision) => revision.id === selectedId) ?? null
+  const compared = revisions.find((revision) => revision.id === compareId) ?? null
+
+  const changes = useMemo(
+    () => (selected ? getRevisionChanges(compared?.snapshot ?? null, selected.snapshot, labels) : []),
+    [selected, compared, labels]
+  )
+
+  /**
+   * Select a version and compare it with the one saved before it
+   */
+  const selectRevision = (index: number) => {
+    setSelectedId(revisions[index].id)
+    setCompareId(revisions[index + 1]?.id ?? null)
+    setRestoreError(null)
+  }
+
+  const handleRestore = async () => {
+    if (!selected) {
+      return
+    }
+
+    setIsRestoring(true)
+    setRestoreError(null)
+
+    try {
+      await restoreRevision(citySlug, selected.id)
+      router.push(editHref)
+      router.refresh()
+    } catch (error) {
+      setRestoreError(t('restoreError', { message: error instanceof Error ? error.message : String(error) }))
+      setIsRestoring(false)
+    }
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('empty')}</p>
+  }
+
+  // The newest version of an existing entity is its current state
+  const canRestore = selected !== null && (!exists || selected.id !== revisions[0].id)
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+      <ol className="space-y-2" aria-label={t('versions')}>
+        {revisions.map((revision, index) => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => selectRevision(index)}
+              aria-current={revision.id === selectedId ? 'true' : undefined}
+              className={cn(
+                'w-full rounded-md border p-3 text-start text-sm hover:bg-gray-50',
+                revision.id === selectedId && 'border-primary bg-gray-50'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{t('version', { number: revision.revision })}</span>
+                <Badge className={REASON_BADGE_CLASSES[revision.reason]}>{t(`reasons.${revision.reason}`)}</Badge>
+              </div>
+              <div className="mt-1 text-muted-foreground">
+                {format.dateTime(new Date(revision.createdAt), { dateStyle: 'medium', timeStyle: 'short' })}
+                {' · '}
+                {revision.authorName ?? t('unknownAuthor')}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {selected && (
+        <section className="space-y-4" aria-label={t('version', { number: selected.revision })}>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="revision_compare">{t('compareWith')}</Label>
+              <Select value={compareId ?? NONE} onValueChange={(value) => setCompareId(value === NONE ? null : value)}>
+                <SelectTrigger id="revision_compare" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>{t('compareWithNothing')}</SelectItem>
+                  {revisions
+                    .filter((revision) => revision.id !== selected.id)
+                    .map((revision) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        {t('version', { number: revision.revision })}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {canRestore && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button disabled={isRestoring}>
+                    {isRestoring ? (
+                      <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="me-2 h-4 w-4" />
+                    )}
+                    {t('restore')}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>{t('restoreTitle', { number: selected.revision })}</AlertDialogTitle>
+                    <AlertDialogDescription>{exists ? t('restoreMessage') : t('restoreDeletedMessage')}</AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleRestore}>{t('restore')}</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+
+          {restoreError && (
+            <p role="alert" className="text-sm text-red-600">
+              {restoreError}
+            </p>
+          )}
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('noChanges')}</p>
+          ) : (
+            <table className="w-full table-fixed text-sm">
+              <thead className="text-start text-muted-foreground">
+                <tr>
+                  <th className="w-1/4 py-2 pe-4 font-medium">{t('columns.field')}</th>
+                  <th className="py-2 pe-4 font-medium">
+                    {compared ? t('version', { number: compared.revision }) : t('columns.before')}
+                  </th>
+                  <th className="py-2 font-medium">{t('version', { number: selected.revision })}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y align-top">
+                {changes.map((change) => (
+                  <tr key={`${change.field}.${change.locale ?? ''}`}>
+                    <td className="py-2 pe-4 font-medium">
+                      {change.locale
+                        ? t(`fields.${change.field}`, { locale: change.locale.toUpperCase() })
+                        : t(`fields.${change.field}`)}
+                    </td>
+                    <ChangeValues change={change} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
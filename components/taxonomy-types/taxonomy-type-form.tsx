@@ -13,10 +13,16 @@ import { z } from 'zod'
 import { useTranslations } from 'next-intl'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { LocaleTranslationFields } from '@/components/translations/locale-translation-fields'
+import { defaultLocale, type LocaleOption } from '@/lib/i18n/config'
+import {
+  toTranslationsInput,
+  translationsSchema,
+  type TranslationsInput,
+} from '@/lib/validations/translations'
 import { Loader2, Save } from 'lucide-react'
 
 const taxonomyTypeFormSchema = z.object({
@@ -29,15 +35,8 @@ const taxonomyTypeFormSchema = z.object({
   useForMapStyling: z.boolean().default(false),
   useForFiltering: z.boolean().default(true),
   displayOrder: z.number().int().min(0).default(0),
-  // English (required)
-  name_en: z.string().min(1, 'English name is required'),
-  description_en: z.string().optional(),
-  // Dutch (optional)
-  name_nl: z.string().optional(),
-  description_nl: z.string().optional(),
-  // French (optional)
-  name_fr: z.string().optional(),
-  description_fr: z.string().optional(),
+  // Name and description per locale of the city
+  translations: translationsSchema,
 })
 
 type TaxonomyTypeFormValues = z.infer<typeof taxonomyTypeFormSchema>
@@ -46,6 +45,8 @@ interface TaxonomyTypeFormProps {
   cityId: string
   citySlug: string
   locale: string
+  /** Locales the city is translated into, default locale first */
+  locales: LocaleOption[]
   initialData?: {
     id: string
     slug: string
@@ -72,15 +73,11 @@ type FormValues = {
   useForMapStyling?: boolean
   useForFiltering?: boolean
   displayOrder?: number
-  name_en: string
-  description_en?: string
-  name_nl?: string
-  description_nl?: string
-  name_fr?: string
-  description_fr?: string
+  translations: TranslationsInput
 }
 
 export default function TaxonomyTypeForm({
+  locales,
   initialData,
   onSubmit,
   submitLabel,
@@ -106,22 +103,14 @@ export default function TaxonomyTypeForm({
       useForMapStyling: initialData?.use_for_map_styling ?? false,
       useForFiltering: initialData?.use_for_filtering ?? true,
       displayOrder: initialData?.display_order ?? 0,
-      name_en:
-        initialData?.translations.find((t) => t.locale_code === 'en')?.name || '',
-      description_en:
-        initialData?.translations.find((t) => t.locale_code === 'en')?.description || '',
-      name_nl:
-        initialData?.translations.find((t) => t.locale_code === 'nl')?.name || '',
-      description_nl:
-        initialData?.translations.find((t) => t.locale_code === 'nl')?.description || '',
-      name_fr:
-        initialData?.translations.find((t) => t.locale_code === 'fr')?.name || '',
-      description_fr:
-        initialData?.translations.find((t) => t.locale_code === 'fr')?.description || '',
+      translations: toTranslationsInput(
+        locales.map((option) => option.code),
+        initialData?.translations
+      ),
     },
   })
 
-  const englishName = watch('name_en')
+  const englishName = watch(`translations.${defaultLocale}.name`)
 
   // Auto-generate slug from English name
   useEffect(() => {
@@ -150,12 +139,7 @@ export default function TaxonomyTypeForm({
         useForMapStyling: data.useForMapStyling ?? false,
         useForFiltering: data.useForFiltering ?? true,
         displayOrder: data.displayOrder ?? 0,
-        name_en: data.name_en,
-        description_en: data.description_en,
-        name_nl: data.name_nl,
-        description_nl: data.description_nl,
-        name_fr: data.name_fr,
-        description_fr: data.description_fr,
+        translations: data.translations,
       }
       await onSubmit(transformedData)
     } catch (err) {
@@ -247,7 +231,7 @@ export default function TaxonomyTypeForm({
               />
               <Label htmlFor="isRequired">{t('basicInfo.isRequiredLabel')}</Label>
             </div>
-            <p className="text-xs text-gray-500 ml-6">
+            <p className="text-xs text-gray-500 ms-6">
               {t('basicInfo.isRequiredHelpText')}
             </p>
 
@@ -260,7 +244,7 @@ export default function TaxonomyTypeForm({
               />
               <Label htmlFor="allowMultiple">{t('basicInfo.allowMultipleLabel')}</Label>
             </div>
-            <p className="text-xs text-gray-500 ml-6">
+            <p className="text-xs text-gray-500 ms-6">
               {t('basicInfo.allowMultipleHelpText')}
             </p>
 
@@ -273,7 +257,7 @@ export default function TaxonomyTypeForm({
               />
               <Label htmlFor="useForMapStyling">{t('basicInfo.useForMapStylingLabel')}</Label>
             </div>
-            <p className="text-xs text-gray-500 ml-6">
+            <p className="text-xs text-gray-500 ms-6">
               {t('basicInfo.useForMapStylingHelpText')}
             </p>
 
@@ -286,134 +270,27 @@ export default function TaxonomyTypeForm({
               />
               <Label htmlFor="useForFiltering">{t('basicInfo.useForFilteringLabel')}</Label>
             </div>
-            <p className="text-xs text-gray-500 ml-6">
+            <p className="text-xs text-gray-500 ms-6">
               {t('basicInfo.useForFilteringHelpText')}
             </p>
           </div>
         </CardContent>
       </Card>
 
-      {/* English Translation (Required) */}
-      <Card>
-        <CardHeader>
-          <CardTitle>{t('translations.english.title')}</CardTitle>
-          <CardDescription>
-            {t('translations.english.description')}
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name_en">
-              {t('translations.english.nameLabel')} <span className="text-red-500">*</span>
-            </Label>
-            <Input
-              id="name_en"
-              {...register('name_en')}
-              placeholder={t('translations.english.namePlaceholder')}
-            />
-            {errors.name_en && (
-              <p className="text-sm text-red-500">{errors.name_en.message}</p>
-            )}
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description_en">{t('translations.english.descriptionLabel')}</Label>
-            <Textarea
-              id="description_en"
-              {...register('description_en')}
-              placeholder={t('translations.english.descriptionPlaceholder')}
-              rows={3}
-            />
-            {errors.description_en && (
-              <p className="text-sm text-red-500">{errors.description_en.message}</p>
-            )}
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Dutch Translation (Optional) */}
-      <Card>
-        <CardHeader>
-          <CardTitle>{t('translations.dutch.title')}</CardTitle>
-          <CardDescription>
-            {t('translations.dutch.description')}
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name_nl">{t('translations.dutch.nameLabel')}</Label>
-            <Input
-              id="name_nl"
-              {...register('name_nl')}
-              placeholder={t('translations.dutch.namePlaceholder')}
-            />
-            {errors.name_nl && (
-              <p className="text-sm text-red-500">{errors.name_nl.message}</p>
-            )}
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description_nl">{t('translations.dutch.descriptionLabel')}</Label>
-            <Textarea
-              id="description_nl"
-              {...register('description_nl')}
-              placeholder={t('translations.dutch.descriptionPlaceholder')}
-              rows={3}
-            />
-            {errors.description_nl && (
-              <p className="text-sm text-red-500">{errors.description_nl.message}</p>
-            )}
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* French Translation (Optional) */}
-      <Card>
-        <CardHeader>
-          <CardTitle>{t('translations.french.title')}</CardTitle>
-          <CardDescription>
-            {t('translations.french.description')}
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name_fr">{t('translations.french.nameLabel')}</Label>
-            <Input
-              id="name_fr"
-              {...register('name_fr')}
-              placeholder={t('translations.french.namePlaceholder')}
-            />
-            {errors.name_fr && (
-              <p className="text-sm text-red-500">{errors.name_fr.message}</p>
-            )}
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description_fr">{t('translations.french.descriptionLabel')}</Label>
-            <Textarea
-              id="description_fr"
-              {...register('description_fr')}
-              placeholder={t('translations.french.descriptionPlaceholder')}
-              rows={3}
-            />
-            {errors.description_fr && (
-              <p className="text-sm text-red-500">{errors.description_fr.message}</p>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+      {/* Name and description per locale */}
+      <LocaleTranslationFields locales={locales} register={register} errors={errors.translations} />
 
       {/* Submit Button */}
       <div className="flex justify-end gap-4">
         <Button type="submit" disabled={isSubmitting}>
           {isSubmitting ? (
             <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              <Loader2 className="me-2 h-4 w-4 animate-spin" />
               {t('submitting')}
             </>
           ) : (
             <>
-              <Save className="mr-2 h-4 w-4" />
+              <Save className="me-2 h-4 w-4" />
               {submitLabel || t('submitButton')}
             </>
           )}
@@ -137,6 +137,12 @@ vi.mock('next-intl', () => ({
   })
 }))
 
+const locales = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+]
+
 describe('TaxonomyValueForm', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -145,20 +151,20 @@ describe('TaxonomyValueForm', () => {
   describe('create mode', () => {
     it('should render create form', () => {
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       expect(screen.getByText('Basic Information')).toBeInTheDocument()
       expect(screen.getByLabelText('Slug *')).toBeInTheDocument()
       expect(screen.getByText('Visual Styling')).toBeInTheDocument()
-      expect(screen.getByText('Translations')).toBeInTheDocument()
+      expect(screen.getAllByLabelText(/nameLabel/)).toHaveLength(locales.length)
       expect(screen.getByText('Create Value')).toBeInTheDocument()
     })
 
     it('should handle input changes', async () => {
       const user = userEvent.setup()
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       const slugInput = screen.getByLabelText('Slug *')
@@ -173,7 +179,7 @@ describe('TaxonomyValueForm', () => {
     it.skip('should validate required translations', async () => {
       const user = userEvent.setup()
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       const submitButton = screen.getByText('Create Value')
@@ -191,15 +197,15 @@ describe('TaxonomyValueForm', () => {
 
       const user = userEvent.setup()
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       // Fill in required fields
       await user.type(screen.getByLabelText('Slug *'), 'small')
       // Fill in all locale translations (required)
-      await user.type(screen.getAllByLabelText('Value Name *')[0], 'Small') // English
-      await user.type(screen.getAllByLabelText('Value Name *')[1], 'Klein') // Dutch
-      await user.type(screen.getAllByLabelText('Value Name *')[2], 'Petit') // French
+      await user.type(screen.getAllByLabelText(/nameLabel/)[0], 'Small') // English
+      await user.type(screen.getAllByLabelText(/nameLabel/)[1], 'Klein') // Dutch
+      await user.type(screen.getAllByLabelText(/nameLabel/)[2], 'Petit') // French
 
       // Submit form
       await user.click(screen.getByText('Create Value'))
@@ -211,12 +217,24 @@ describe('TaxonomyValueForm', () => {
         },
         { timeout: 3000 }
       )
+
+      expect(createTaxonomyValue).toHaveBeenCalledWith(
+        'amsterdam',
+        expect.objectContaining({
+          slug: 'small',
+          translations: {
+            en: { name: 'Small', description: '' },
+            nl: { name: 'Klein', description: '' },
+            fr: { name: 'Petit', description: '' },
+          },
+        })
+      )
     })
 
     it('should handle color selection', async () => {
       const user = userEvent.setup()
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       // Find color buttons by their title attribute
@@ -234,7 +252,7 @@ describe('TaxonomyValueForm', () => {
     it('should handle icon selection', async () => {
       const user = userEvent.setup()
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       // Find icon button
@@ -266,7 +284,7 @@ describe('TaxonomyValueForm', () => {
           taxonomyTypeId="type-1"
           taxonomyValueId="value-1"
           locale="en"
-          citySlug="amsterdam"
+          citySlug="amsterdam" locales={locales}
           initialData={initialData}
         />
       )
@@ -281,7 +299,7 @@ describe('TaxonomyValueForm', () => {
           taxonomyTypeId="type-1"
           taxonomyValueId="value-1"
           locale="en"
-          citySlug="amsterdam"
+          citySlug="amsterdam" locales={locales}
           initialData={initialData}
         />
       )
@@ -297,7 +315,7 @@ describe('TaxonomyValueForm', () => {
           taxonomyTypeId="type-1"
           taxonomyValueId="value-1"
           locale="en"
-          citySlug="amsterdam"
+          citySlug="amsterdam" locales={locales}
           initialData={initialData}
         />
       )
@@ -317,7 +335,7 @@ describe('TaxonomyValueForm', () => {
           taxonomyTypeId="type-1"
           taxonomyValueId="value-1"
           locale="en"
-          citySlug="amsterdam"
+          citySlug="amsterdam" locales={locales}
           initialData={initialData}
         />
       )
@@ -338,13 +356,13 @@ describe('TaxonomyValueForm', () => {
 
       const user = userEvent.setup()
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       await user.type(screen.getByLabelText('Slug *'), 'small')
-      await user.type(screen.getAllByLabelText('Value Name *')[0], 'Small')
-      await user.type(screen.getAllByLabelText('Value Name *')[1], 'Klein')
-      await user.type(screen.getAllByLabelText('Value Name *')[2], 'Petit')
+      await user.type(screen.getAllByLabelText(/nameLabel/)[0], 'Small')
+      await user.type(screen.getAllByLabelText(/nameLabel/)[1], 'Klein')
+      await user.type(screen.getAllByLabelText(/nameLabel/)[2], 'Petit')
       await user.click(screen.getByText('Create Value'))
 
       await waitFor(
@@ -361,13 +379,13 @@ describe('TaxonomyValueForm', () => {
 
       const user = userEvent.setup()
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       await user.type(screen.getByLabelText('Slug *'), 'small')
-      await user.type(screen.getAllByLabelText('Value Name *')[0], 'Small')
-      await user.type(screen.getAllByLabelText('Value Name *')[1], 'Klein')
-      await user.type(screen.getAllByLabelText('Value Name *')[2], 'Petit')
+      await user.type(screen.getAllByLabelText(/nameLabel/)[0], 'Small')
+      await user.type(screen.getAllByLabelText(/nameLabel/)[1], 'Klein')
+      await user.type(screen.getAllByLabelText(/nameLabel/)[2], 'Petit')
       await user.click(screen.getByText('Create Value'))
 
       await waitFor(
@@ -386,13 +404,13 @@ describe('TaxonomyValueForm', () => {
 
       const user = userEvent.setup()
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       await user.type(screen.getByLabelText('Slug *'), 'small')
-      await user.type(screen.getAllByLabelText('Value Name *')[0], 'Small')
-      await user.type(screen.getAllByLabelText('Value Name *')[1], 'Klein')
-      await user.type(screen.getAllByLabelText('Value Name *')[2], 'Petit')
+      await user.type(screen.getAllByLabelText(/nameLabel/)[0], 'Small')
+      await user.type(screen.getAllByLabelText(/nameLabel/)[1], 'Klein')
+      await user.type(screen.getAllByLabelText(/nameLabel/)[2], 'Petit')
       await user.click(screen.getByText('Create Value'))
 
       expect(screen.getByText('Saving...')).toBeDisabled()
@@ -411,7 +429,7 @@ describe('TaxonomyValueForm', () => {
       })
 
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       const cancelButton = screen.getByText('Cancel')
@@ -428,7 +446,7 @@ describe('TaxonomyValueForm', () => {
     it.skip('should require English translation', async () => {
       const user = userEvent.setup()
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       // Don't fill in English name
@@ -447,14 +465,14 @@ describe('TaxonomyValueForm', () => {
       vi.mocked(createTaxonomyValue).mockResolvedValue({ id: 'value-1' })
 
       render(
-        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" />
+        <TaxonomyValueForm taxonomyTypeId="type-1" locale="en" citySlug="amsterdam" locales={locales} />
       )
 
       await user.type(screen.getByLabelText('Slug *'), 'small')
       // Fill in all locale translations
-      await user.type(screen.getAllByLabelText('Value Name *')[0], 'Small') // English
-      await user.type(screen.getAllByLabelText('Value Name *')[1], 'Klein') // Dutch
-      await user.type(screen.getAllByLabelText('Value Name *')[2], 'Petit') // French
+      await user.type(screen.getAllByLabelText(/nameLabel/)[0], 'Small') // English
+      await user.type(screen.getAllByLabelText(/nameLabel/)[1], 'Klein') // Dutch
+      await user.type(screen.getAllByLabelText(/nameLabel/)[2], 'Petit') // French
       // Don't fill in icon or description
       await user.click(screen.getByText('Create Value'))
 
@@ -2,7 +2,8 @@
  * Taxonomy Value Form Component
  * ============================
  * Form component for creating and editing taxonomy values with visual styling options.
- * Supports color selection, icon selection, and multi-language translations.
+ * Supports color selection, icon selection, and a name and description per
+ * locale the city is translated into.
  *
  * @component
  */
@@ -10,16 +11,25 @@
 'use client'
 
 import { useState, useTransition } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
 import { useTranslations } from 'next-intl'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { LocaleTranslationFields } from '@/components/translations/locale-translation-fields'
 import { createTaxonomyValue, updateTaxonomyValue } from '@/app/actions/taxonomy-values'
 import type { TaxonomyValueInput } from '@/app/actions/taxonomy-values'
+import type { LocaleOption } from '@/lib/i18n/config'
+import {
+  toTranslationsInput,
+  translationsSchema,
+  type TranslationsInput,
+} from '@/lib/validations/translations'
 
 // Color palette for quick selection
 const PRESET_COLORS = [
@@ -86,13 +96,18 @@ const PRESET_ICONS = [
   'Stop',
 ]
 
-const locales = ['en', 'nl', 'fr']
+// Name and description per locale of the city
+const translationsFormSchema = z.object({
+  translations: translationsSchema,
+})
 
 interface TaxonomyValueFormProps {
   taxonomyTypeId: string
   taxonomyValueId?: string
   locale: string
   citySlug: string
+  /** Locales the city is translated into, default locale first */
+  locales: LocaleOption[]
   initialData?: {
     slug?: string
     color_hex?: string
@@ -112,6 +127,7 @@ export default function TaxonomyValueForm({
   taxonomyValueId,
   locale,
   citySlug,
+  locales,
   initialData
 }: TaxonomyValueFormProps) {
   const t = useTranslations('TaxonomyValues')
@@ -130,31 +146,24 @@ export default function TaxonomyValueForm({
   })
 
   // Translation state
-  const [translations, setTranslations] = useState<Record<string, { name: string; description?: string }>>(() => {
-    const result: Record<string, { name: string; description?: string }> = {}
-    locales.forEach(locale => {
-      const existing = initialData?.translations?.find(t => t.locale_code === locale)
-      result[locale] = {
-        name: existing?.name || '',
-        description: existing?.description || '',
-      }
-    })
-    return result
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<{ translations: TranslationsInput }>({
+    resolver: zodResolver(translationsFormSchema),
+    defaultValues: {
+      translations: toTranslationsInput(
+        locales.map((option) => option.code),
+        initialData?.translations
+      ),
+    },
   })
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const onSubmit = async ({ translations }: { translations: TranslationsInput }) => {
     setError(null)
     setSuccess(null)
 
-    // Validate required translations
-    for (const locale of locales) {
-      if (!translations[locale].name.trim()) {
-        setError(t('validation.translationRequired', { locale }))
-        return
-      }
-    }
-
     const input: TaxonomyValueInput = {
       taxonomy_type_id: taxonomyTypeId,
       slug: formData.slug,
@@ -162,11 +171,7 @@ export default function TaxonomyValueForm({
       icon_name: formData.icon_name || undefined,
       icon_size_multiplier: formData.icon_size_multiplier,
       sort_order: formData.sort_order,
-      translations: locales.map(locale => ({
-        locale_code: locale,
-        name: translations[locale].name,
-        description: translations[locale].description || undefined,
-      })),
+      translations,
     }
 
     startTransition(async () => {
@@ -199,7 +204,7 @@ export default function TaxonomyValueForm({
   }
 
   return (
-    <form onSubmit={handleSubmit}>
+    <form onSubmit={handleSubmit(onSubmit)}>
       {error && (
         <Alert className="mb-6" variant="destructive">
           <AlertDescription>{error}</AlertDescription>
@@ -330,48 +335,8 @@ export default function TaxonomyValueForm({
           </CardContent>
         </Card>
 
-        {/* Translations */}
-        <Card>
-          <CardHeader>
-            <CardTitle>{t('form.translations.title')}</CardTitle>
-            <CardDescription>{t('form.translations.description')}</CardDescription>
-          </CardHeader>
-          <CardContent className="grid gap-6">
-            {locales.map(locale => (
-              <div key={locale} className="grid gap-4 border rounded-lg p-4">
-                <h3 className="font-semibold">{t(`locale.${locale}`)}</h3>
-
-                <div className="grid gap-2">
-                  <Label htmlFor={`name-${locale}`}>{t('form.translations.name.label')} *</Label>
-                  <Input
-                    id={`name-${locale}`}
-                    value={translations[locale].name}
-                    onChange={(e) => setTranslations(prev => ({
-                      ...prev,
-                      [locale]: { ...prev[locale], name: e.target.value }
-                    }))}
-                    placeholder={t('form.translations.name.placeholder')}
-                    required
-                  />
-                </div>
-
-                <div className="grid gap-2">
-                  <Label htmlFor={`description-${locale}`}>{t('form.translations.description.label')}</Label>
-                  <Textarea
-                    id={`description-${locale}`}
-                    value={translations[locale].description}
-                    onChange={(e) => setTranslations(prev => ({
-                      ...prev,
-                      [locale]: { ...prev[locale], description: e.target.value }
-                    }))}
-                    placeholder={t('form.translations.description.placeholder')}
-                    rows={3}
-                  />
-                </div>
-              </div>
-            ))}
-          </CardContent>
-        </Card>
+        {/* Name and description per locale */}
+        <LocaleTranslationFields locales={locales} register={register} errors={errors.translations} />
       </div>
 
       <div className="flex justify-end gap-4 mt-6">
@@ -0,0 +1,96 @@
+/**
+ * Locale Translation Fields Component
+ *
+ * One card per locale with the name and description of a row in that
+ * locale, for the react-hook-form forms of districts, neighborhoods,
+ * taxonomy types and language families. The fields are registered as
+ * `translations.<locale>.name` and `translations.<locale>.description`;
+ * the name in the default locale is required, the others may be left empty.
+ *
+ * @module components/translations/locale-translation-fields
+ */
+
+'use client'
+
+import { useTranslations } from 'next-intl'
+import type { FieldErrors, FieldValues, Path, UseFormRegister } from 'react-hook-form'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { defaultLocale, type LocaleOption } from '@/lib/i18n/config'
+import type { TranslationsInput } from '@/lib/validations/translations'
+
+interface LocaleTranslationFieldsProps<T extends FieldValues> {
+  /** Locales to offer, default locale first */
+  locales: LocaleOption[]
+  /** Register function of a form with a `translations` field */
+  register: UseFormRegister<T>
+  /** Errors of the `translations` field */
+  errors?: FieldErrors<{ translations: TranslationsInput }>['translations']
+}
+
+/**
+ * LocaleTranslationFields component
+ *
+ * @param props - Component props
+ * @returns One card of translation fields per locale
+ */
+export function LocaleTranslationFields<T extends FieldValues>({
+  locales,
+  register,
+  errors,
+}: LocaleTranslationFieldsProps<T>) {
+  const t = useTranslations('translationFields')
+
+  return (
+    <>
+      {locales.map((option) => {
+        const isDefault = option.code === defaultLocale
+        const fieldErrors = errors?.[option.code]
+
+        return (
+          <Card key={option.code}>
+            <CardHeader>
+              <CardTitle>
+                {option.nativeName}
+                {option.nativeName !== option.name && (
+                  <span className="ms-2 text-sm font-normal text-muted-foreground">{option.name}</span>
+                )}
+              </CardTitle>
+              <CardDescription>{isDefault ? t('requiredDescription') : t('optionalDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor={`name_${option.code}`}>
+                  {t('nameLabel')} {isDefault && <span className="text-red-500">*</span>}
+                </Label>
+                <Input
+                  id={`name_${option.code}`}
+                  {...register(`translations.${option.code}.name` as Path<T>)}
+                  placeholder={t('namePlaceholder')}
+                />
+                {fieldErrors?.name?.message && (
+                  <p className="text-sm text-red-500">{fieldErrors.name.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`description_${option.code}`}>{t('descriptionLabel')}</Label>
+                <Textarea
+                  id={`description_${option.code}`}
+                  {...register(`translations.${option.code}.description` as Path<T>)}
+                  placeholder={t('descriptionPlaceholder')}
+                  rows={3}
+                />
+                {fieldErrors?.description?.message && (
+                  <p className="text-sm text-red-500">{fieldErrors.description.message}</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,83 @@
+/**
+ * Translate Missing Button Component
+ *
+ * Runs the AI translation job for a city: each click translates the next
+ * batch of missing translations and adds them to the review queue.
+ *
+ * @module components/translations/translate-missing-button
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { Languages, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { translateMissingLocales, type AITranslationRun } from '@/app/actions/ai-translations'
+
+interface TranslateMissingButtonProps {
+  citySlug: string
+  /** Number of translations the city is missing */
+  missingCount: number
+  /** Whether an AI provider is configured */
+  aiEnabled: boolean
+}
+
+/**
+ * TranslateMissingButton component
+ *
+ * @param props - Component props
+ * @returns Button with the outcome of the last run
+ */
+export function TranslateMissingButton({ citySlug, missingCount, aiEnabled }: TranslateMissingButtonProps) {
+  const t = useTranslations('translationReview')
+  const router = useRouter()
+
+  const [isRunning, setIsRunning] = useState(false)
+  const [run, setRun] = useState<AITranslationRun | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Translate the next batch, then reload the queue
+   */
+  const handleClick = async () => {
+    setIsRunning(true)
+    setError(null)
+
+    try {
+      setRun(await translateMissingLocales(citySlug))
+      router.refresh()
+    } catch (err) {
+      setRun(null)
+      setError(t('translateError', { message: err instanceof Error ? err.message : String(err) }))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button onClick={handleClick} disabled={!aiEnabled || isRunning || missingCount === 0}>
+          {isRunning ? <Loader2 className="me-2 h-4 w-4 animate-spin" /> : <Languages className="me-2 h-4 w-4" />}
+          {isRunning ? t('translating') : t('translate')}
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {aiEnabled ? t('missing', { count: missingCount }) : t('notConfigured')}
+        </span>
+      </div>
+
+      {run && (
+        <p role="status" className="text-sm">
+          {t('runResult', { translated: run.translated, failed: run.failed, remaining: run.remaining })}
+        </p>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for Translation Coverage Table Component
+ *
+ * Tests the counts and percentages per kind of row and locale, the totals and the
+ * links to the rows that need work.
+ *
+ * @module components/translations/translation-coverage-table.test
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import { TranslationCoverageTable } from './translation-coverage-table'
+import type { TranslationCoverage } from '@/lib/translations/coverage'
+
+// Mock next-intl; keys are returned with their values appended
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key} ${Object.values(values).join(' ')}` : key,
+}))
+
+const coverage: TranslationCoverage[] = [
+  { entityType: 'language', locale: 'en', total: 4, translated: 4, unreviewed: 0, missing: 0 },
+  { entityType: 'language', locale: 'nl', total: 4, translated: 1, unreviewed: 1, missing: 2 },
+  { entityType: 'district', locale: 'en', total: 2, translated: 2, unreviewed: 0, missing: 0 },
+]
+
+describe('TranslationCoverageTable', () => {
+  it('should show the coverage per kind of row and locale, in the order of the kinds', () => {
+    render(
+      <TranslationCoverageTable
+        locales={['en', 'nl']}
+        coverage={coverage}
+        gapsHref="/en/operator/amsterdam/translations/coverage"
+      />
+    )
+
+    const rows = screen.getAllByRole('row')
+    expect(within(rows[0]).getAllByRole('columnheader').map((cell) => cell.textContent)).toEqual(['type', 'EN', 'NL'])
+    expect(within(rows[1]).getByText('types.district')).toBeInTheDocument()
+    expect(within(rows[1]).getAllByRole('cell')[2]).toHaveTextContent('—')
+
+    const languages = within(rows[2]).getAllByRole('cell')
+    expect(languages[0]).toHaveTextContent('types.language')
+    expect(languages[1]).toHaveTextContent('100%4/4')
+    expect(languages[2]).toHaveTextContent('25%1/4')
+    expect(languages[1]).toHaveTextContent('left 0 0 0 0')
+    expect(within(languages[2]).getByRole('link', { name: 'left 1 25 2 50' })).toHaveAttribute(
+      'href',
+      '/en/operator/amsterdam/translations/coverage?type=language&target=nl'
+    )
+    expect(within(languages[1]).queryByRole('link')).not.toBeInTheDocument()
+  })
+
+  it('should total every kind of row per locale', () => {
+    render(<TranslationCoverageTable locales={['en', 'nl']} coverage={coverage} gapsHref="/coverage" />)
+
+    const totals = within(screen.getAllByRole('row')[3]).getAllByRole('cell')
+    expect(totals[0]).toHaveTextContent('total')
+    expect(totals[1]).toHaveTextContent('100%6/6')
+    expect(totals[2]).toHaveTextContent('25%1/4')
+    expect(totals[2]).toHaveTextContent('left 1 25 2 50')
+    expect(within(totals[2]).queryByRole('link')).not.toBeInTheDocument()
+  })
+
+  it('should say when there is nothing to translate', () => {
+    render(<TranslationCoverageTable locales={['en']} coverage={[]} gapsHref="/coverage" />)
+
+    expect(screen.getByText('empty')).toBeInTheDocument()
+  })
+})
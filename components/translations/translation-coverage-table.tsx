@@ -0,0 +1,139 @@
+/**
+ * Translation Coverage Table Component
+ *
+ * Shows per kind of row (rows of the table) and enabled locale (columns)
+ * how much of a city is translated, with links to the rows still missing a
+ * translation or waiting for review.
+ *
+ * @module components/translations/translation-coverage-table
+ */
+
+'use client'
+
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  coveragePercentage,
+  sumCoverageByLocale,
+  type TranslationCoverage,
+} from '@/lib/translations/coverage'
+import { TRANSLATION_ENTITY_TYPES } from '@/lib/translations/entities'
+
+interface TranslationCoverageTableProps {
+  /** Enabled locales of the city */
+  locales: string[]
+  coverage: TranslationCoverage[]
+  /** Page listing the rows of a kind that need work in a locale, given `type` and `target` in the query */
+  gapsHref: string
+}
+
+/**
+ * Count and percentage translated, waiting for review and missing, with a
+ * bar and a link to what is left
+ */
+function CoverageCell({
+  counts,
+  href,
+}: {
+  counts: Pick<TranslationCoverage, 'total' | 'translated' | 'unreviewed' | 'missing'>
+  href?: string
+}) {
+  const t = useTranslations('translationCoverage')
+  const percentage = coveragePercentage(counts.translated, counts.total)
+  // Without rows nothing is waiting or missing (coveragePercentage counts that as complete)
+  const unreviewedPercentage = counts.total === 0 ? 0 : coveragePercentage(counts.unreviewed, counts.total)
+  const missingPercentage = counts.total === 0 ? 0 : coveragePercentage(counts.missing, counts.total)
+  const left = counts.unreviewed + counts.missing
+  const leftText = t('left', {
+    unreviewed: counts.unreviewed,
+    unreviewedPercentage,
+    missing: counts.missing,
+    missingPercentage,
+  })
+
+  return (
+    <div className="min-w-32 space-y-1">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="font-medium">{percentage}%</span>
+        <span className="text-xs text-muted-foreground">
+          {counts.translated}/{counts.total}
+        </span>
+      </div>
+      <div className="flex h-1.5 overflow-hidden rounded-full bg-muted" aria-hidden="true">
+        <div className="bg-green-600" style={{ width: `${percentage}%` }} />
+        <div className="bg-amber-400" style={{ width: `${unreviewedPercentage}%` }} />
+      </div>
+      <p className="text-xs">
+        {href && left > 0 ? (
+          <Link href={href} className="text-primary hover:underline">
+            {leftText}
+          </Link>
+        ) : (
+          <span className="text-muted-foreground">{leftText}</span>
+        )}
+      </p>
+    </div>
+  )
+}
+
+/**
+ * TranslationCoverageTable component
+ *
+ * @param props - Component props
+ * @returns Coverage table JSX
+ */
+export function TranslationCoverageTable({ locales, coverage, gapsHref }: TranslationCoverageTableProps) {
+  const t = useTranslations('translationCoverage')
+
+  const entityTypes = TRANSLATION_ENTITY_TYPES.filter((entityType) =>
+    coverage.some((row) => row.entityType === entityType)
+  )
+
+  if (locales.length === 0 || entityTypes.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">{t('empty')}</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('type')}</TableHead>
+          {locales.map((locale) => (
+            <TableHead key={locale}>{locale.toUpperCase()}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entityTypes.map((entityType) => (
+          <TableRow key={entityType}>
+            <TableCell className="font-medium">{t(`types.${entityType}`)}</TableCell>
+            {locales.map((locale) => {
+              const counts = coverage.find((row) => row.entityType === entityType && row.locale === locale)
+
+              return (
+                <TableCell key={locale}>
+                  {counts ? (
+                    <CoverageCell counts={counts} href={`${gapsHref}?type=${entityType}&target=${locale}`} />
+                  ) : (
+                    '—'
+                  )}
+                </TableCell>
+              )
+            })}
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell className="font-medium">{t('total')}</TableCell>
+          {sumCoverageByLocale(coverage, locales).map((counts) => (
+            <TableCell key={counts.locale}>
+              <CoverageCell counts={counts} />
+            </TableCell>
+          ))}
+        </TableRow>
+      </TableFooter>
+    </Table>
+  )
+}
@@ -0,0 +1,64 @@
+/**
+ * Translation Gap List Component
+ *
+ * Lists the rows of one kind whose translation in a locale is missing or
+ * waiting for review, each linking to the page where it is translated.
+ *
+ * @module components/translations/translation-gap-list
+ */
+
+'use client'
+
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { Badge } from '@/components/ui/badge'
+import type { TranslationGap } from '@/app/actions/translation-coverage'
+import { getTranslationEditPath, type TranslationEntityType } from '@/lib/translations/entities'
+
+interface TranslationGapListProps {
+  /** Operator pages of the city, /[locale]/operator/[citySlug] */
+  basePath: string
+  entityType: TranslationEntityType
+  /** Rows to work on, missing ones first */
+  gaps: TranslationGap[]
+}
+
+/**
+ * TranslationGapList component
+ *
+ * @param props - Component props
+ * @returns Gap list JSX
+ */
+export function TranslationGapList({ basePath, entityType, gaps }: TranslationGapListProps) {
+  const t = useTranslations('translationCoverage')
+
+  if (gaps.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">{t('noGaps')}</p>
+  }
+
+  return (
+    <ul className="divide-y">
+      {gaps.map((gap) => {
+        const editPath = getTranslationEditPath(entityType, gap.entityId, gap.parentId)
+        const label = gap.label ?? t('untitled')
+
+        return (
+          <li key={gap.entityId} className="flex items-center justify-between gap-4 py-2 text-sm">
+            <span className="truncate font-medium">
+              {editPath ? (
+                <Link href={`${basePath}/${editPath}`} className="text-primary hover:underline">
+                  {label}
+                </Link>
+              ) : (
+                label
+              )}
+            </span>
+            <Badge variant={gap.status === 'missing' ? 'destructive' : 'secondary'}>
+              {t(`status.${gap.status}`)}
+            </Badge>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for Translation Review Queue Component
+ *
+ * Tests listing AI translations with their source, and approving,
+ * correcting and rejecting them.
+ *
+ * @module components/translations/translation-review-queue.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { TranslationReviewQueue } from './translation-review-queue'
+import {
+  approveTranslation,
+  rejectTranslation,
+  type TranslationReviewItem,
+} from '@/app/actions/ai-translations'
+
+// Mock next-intl; keys are returned with their values appended
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key} ${Object.values(values).join(' ')}` : key,
+  useFormatter: () => ({ dateTime: (date: Date) => date.toISOString().slice(0, 10) }),
+}))
+
+const refresh = vi.fn()
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ refresh }),
+}))
+
+vi.mock('@/app/actions/ai-translations', () => ({
+  approveTranslation: vi.fn(),
+  rejectTranslation: vi.fn(),
+}))
+
+const items: TranslationReviewItem[] = [
+  {
+    entityType: 'district',
+    entityId: 'district-1',
+    locale: 'nl',
+    label: 'Centre',
+    fields: { name: 'Centrum', description: 'Oude stad' },
+    sourceLocale: 'en',
+    sourceFields: { name: 'Centre', description: 'Old town' },
+    aiModel: 'gpt-4o-mini',
+    aiTranslatedAt: '2025-03-01T10:00:00Z',
+  },
+  {
+    entityType: 'language',
+    entityId: 'language-1',
+    locale: 'fr',
+    label: null,
+    fields: { name: 'Turc' },
+    sourceLocale: null,
+    sourceFields: null,
+    aiModel: null,
+    aiTranslatedAt: null,
+  },
+]
+
+describe('TranslationReviewQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should list the translations next to their source', () => {
+    render(<TranslationReviewQueue citySlug="amsterdam" items={items} />)
+
+    const rows = screen.getAllByRole('listitem')
+    expect(rows).toHaveLength(2)
+    expect(within(rows[0]).getByText('types.district')).toBeInTheDocument()
+    expect(within(rows[0]).getByText('EN → NL')).toBeInTheDocument()
+    expect(within(rows[0]).getByText('translatedBy gpt-4o-mini 2025-03-01')).toBeInTheDocument()
+    expect(within(rows[0]).getByText('Old town')).toBeInTheDocument()
+    expect(within(rows[0]).getByLabelText('fields.description · NL')).toHaveValue('Oude stad')
+    expect(within(rows[1]).getByText('untitled')).toBeInTheDocument()
+    expect(within(rows[1]).getByText('translatedBy unknownModel —')).toBeInTheDocument()
+    expect(within(rows[1]).getByLabelText('fields.name · FR')).toHaveValue('Turc')
+    expect(within(rows[1]).queryByLabelText(/fields.description/)).not.toBeInTheDocument()
+  })
+
+  it('should show an empty queue', () => {
+    render(<TranslationReviewQueue citySlug="amsterdam" items={[]} />)
+
+    expect(screen.getByText('empty')).toBeInTheDocument()
+  })
+
+  it('should approve with the corrections only and reload the queue', async () => {
+    const user = userEvent.setup()
+    vi.mocked(approveTranslation).mockResolvedValue()
+    render(<TranslationReviewQueue citySlug="amsterdam" items={items} />)
+
+    const row = screen.getAllByRole('listitem')[0]
+    const name = within(row).getByLabelText('fields.name · NL')
+    await user.clear(name)
+    await user.type(name, 'Binnenstad')
+    await user.click(within(row).getByRole('button', { name: 'approve' }))
+
+    expect(approveTranslation).toHaveBeenCalledWith(
+      'amsterdam',
+      { entityType: 'district', entityId: 'district-1', locale: 'nl' },
+      { name: 'Binnenstad' }
+    )
+    expect(refresh).toHaveBeenCalled()
+  })
+
+  it('should reject a translation and show errors', async () => {
+    const user = userEvent.setup()
+    vi.mocked(rejectTranslation).mockRejectedValue(new Error('Translation not found or already reviewed'))
+    render(<TranslationReviewQueue citySlug="amsterdam" items={items} />)
+
+    await user.click(within(screen.getAllByRole('listitem')[1]).getByRole('button', { name: 'reject' }))
+
+    expect(rejectTranslation).toHaveBeenCalledWith('amsterdam', {
+      entityType: 'language',
+      entityId: 'language-1',
+      locale: 'fr',
+    })
+    expect(screen.getByRole('alert')).toHaveTextContent('rejectError Translation not found or already reviewed')
+    expect(refresh).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,203 @@
+/**
+ * Translation Review Queue Component
+ *
+ * Lists the AI translations of a city that no one has reviewed yet, next to
+ * the text they were translated from, and lets a translator correct and
+ * approve them or reject them.
+ *
+ * @module components/translations/translation-review-queue
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useFormatter, useTranslations } from 'next-intl'
+import { Check, Loader2, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  approveTranslation,
+  rejectTranslation,
+  type TranslationReviewItem,
+} from '@/app/actions/ai-translations'
+import { TRANSLATION_FIELDS, type TranslationFields } from '@/lib/translations/entities'
+
+interface TranslationReviewQueueProps {
+  citySlug: string
+  /** Translations waiting for review, oldest first */
+  items: TranslationReviewItem[]
+}
+
+interface ReviewItemProps {
+  citySlug: string
+  item: TranslationReviewItem
+  /** Whether another translation is being approved or rejected */
+  disabled: boolean
+  onPendingChange: (pending: boolean) => void
+  onError: (message: string | null) => void
+}
+
+/**
+ * One translation with its source and editable text
+ */
+function ReviewItem({ citySlug, item, disabled, onPendingChange, onError }: ReviewItemProps) {
+  const t = useTranslations('translationReview')
+  const format = useFormatter()
+  const router = useRouter()
+
+  const fieldNames = TRANSLATION_FIELDS[item.entityType]
+  const [values, setValues] = useState<TranslationFields>(() =>
+    Object.fromEntries(fieldNames.map((field) => [field, item.fields[field] ?? '']))
+  )
+  const [pending, setPending] = useState<'approve' | 'reject' | null>(null)
+
+  const key = { entityType: item.entityType, entityId: item.entityId, locale: item.locale }
+  const idPrefix = `${item.entityType}-${item.entityId}-${item.locale}`
+
+  /**
+   * Approve or reject the translation, then reload the queue
+   */
+  const handleAction = async (action: 'approve' | 'reject') => {
+    setPending(action)
+    onPendingChange(true)
+    onError(null)
+
+    try {
+      if (action === 'approve') {
+        const corrections = Object.fromEntries(
+          fieldNames
+            .filter((field) => (values[field] ?? '') !== (item.fields[field] ?? ''))
+            .map((field) => [field, values[field]])
+        )
+        await approveTranslation(citySlug, key, corrections)
+      } else {
+        await rejectTranslation(citySlug, key)
+      }
+      router.refresh()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      onError(t(action === 'approve' ? 'approveError' : 'rejectError', { message }))
+    } finally {
+      setPending(null)
+      onPendingChange(false)
+    }
+  }
+
+  return (
+    <li className="space-y-3 py-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">{t(`types.${item.entityType}`)}</Badge>
+        <span className="font-medium">{item.label ?? t('untitled')}</span>
+        <Badge variant="secondary">
+          {item.sourceLocale ? `${item.sourceLocale.toUpperCase()} → ` : ''}
+          {item.locale.toUpperCase()}
+        </Badge>
+        <span className="text-muted-foreground">
+          {t('translatedBy', {
+            model: item.aiModel ?? t('unknownModel'),
+            date: item.aiTranslatedAt
+              ? format.dateTime(new Date(item.aiTranslatedAt), { dateStyle: 'medium' })
+              : '—',
+          })}
+        </span>
+      </div>
+
+      {fieldNames.map((field) => {
+        const id = `${idPrefix}-${field}`
+        const source = item.sourceFields?.[field]
+        const multiline = field !== 'name'
+
+        return (
+          <div key={field} className="grid gap-2 md:grid-cols-2">
+            <div className="space-y-1">
+              <p className="text-xs font-medium uppercase text-muted-foreground">
+                {t(`fields.${field}`)} · {t('source')}
+              </p>
+              <p className="whitespace-pre-wrap rounded-md bg-muted p-2">{source || '—'}</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={id} className="text-xs font-medium uppercase text-muted-foreground">
+                {t(`fields.${field}`)} · {item.locale.toUpperCase()}
+              </Label>
+              {multiline ? (
+                <Textarea
+                  id={id}
+                  rows={field === 'text' ? 5 : 3}
+                  value={values[field] ?? ''}
+                  disabled={disabled}
+                  onChange={(event) => setValues((current) => ({ ...current, [field]: event.target.value }))}
+                />
+              ) : (
+                <Input
+                  id={id}
+                  value={values[field] ?? ''}
+                  disabled={disabled}
+                  onChange={(event) => setValues((current) => ({ ...current, [field]: event.target.value }))}
+                />
+              )}
+            </div>
+          </div>
+        )
+      })}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={disabled} onClick={() => handleAction('reject')}>
+          {pending === 'reject' ? <Loader2 className="me-2 h-4 w-4 animate-spin" /> : <X className="me-2 h-4 w-4" />}
+          {t('reject')}
+        </Button>
+        <Button size="sm" disabled={disabled} onClick={() => handleAction('approve')}>
+          {pending === 'approve' ? (
+            <Loader2 className="me-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Check className="me-2 h-4 w-4" />
+          )}
+          {t('approve')}
+        </Button>
+      </div>
+    </li>
+  )
+}
+
+/**
+ * TranslationReviewQueue component
+ *
+ * @param props - Component props
+ * @returns Review queue JSX
+ */
+export function TranslationReviewQueue({ citySlug, items }: TranslationReviewQueueProps) {
+  const t = useTranslations('translationReview')
+
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (items.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">{t('empty')}</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      <ul className="divide-y">
+        {items.map((item) => (
+          <ReviewItem
+            key={`${item.entityType}-${item.entityId}-${item.locale}`}
+            citySlug={citySlug}
+            item={item}
+            disabled={pending}
+            onPendingChange={setPending}
+            onError={setError}
+          />
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for Trash List Component
+ *
+ * Tests listing deleted items, restoring them and deleting them for good.
+ *
+ * @module components/trash/trash-list.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { TrashList } from './trash-list'
+import { purgeTrashItem, restoreTrashItem, type TrashItem } from '@/app/actions/trash'
+
+// Mock next-intl; keys are returned with their values appended
+vi.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key} ${Object.values(values).join(' ')}` : key,
+  useFormatter: () => ({ dateTime: (date: Date) => date.toISOString().slice(0, 10) }),
+}))
+
+const refresh = vi.fn()
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ refresh }),
+}))
+
+vi.mock('@/app/actions/trash', () => ({
+  restoreTrashItem: vi.fn(),
+  purgeTrashItem: vi.fn(),
+}))
+
+const items: TrashItem[] = [
+  {
+    entityType: 'language_point',
+    entityId: 'point-1',
+    label: 'Spaarndammerbuurt',
+    parentLabel: 'Turkish',
+    deletedAt: '2025-03-02T10:00:00Z',
+    deletedByName: 'Alice',
+    purgeAfter: '2025-04-01T10:00:00Z',
+  },
+  {
+    entityType: 'district',
+    entityId: 'district-1',
+    label: null,
+    parentLabel: null,
+    deletedAt: '2025-03-01T10:00:00Z',
+    deletedByName: null,
+    purgeAfter: '2025-03-31T10:00:00Z',
+  },
+]
+
+describe('TrashList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should list the items with when they were deleted and will be purged', () => {
+    render(<TrashList citySlug="amsterdam" items={items} />)
+
+    const rows = screen.getAllByRole('listitem')
+    expect(rows).toHaveLength(2)
+    expect(within(rows[0]).getByText('types.language_point')).toBeInTheDocument()
+    expect(within(rows[0]).getByText('Spaarndammerbuurt')).toBeInTheDocument()
+    expect(within(rows[0]).getByText('· Turkish')).toBeInTheDocument()
+    expect(within(rows[0]).getByText(/deletedAt 2025-03-02 Alice/)).toHaveTextContent('purgeAfter 2025-04-01')
+    expect(within(rows[1]).getByText('untitled')).toBeInTheDocument()
+    expect(within(rows[1]).getByText(/deletedAt 2025-03-01 unknownUser/)).toBeInTheDocument()
+  })
+
+  it('should show an empty trash', () => {
+    render(<TrashList citySlug="amsterdam" items={[]} />)
+
+    expect(screen.getByText('empty')).toBeInTheDocument()
+  })
+
+  it('should restore an item and reload the list', async () => {
+    const user = userEvent.setup()
+    vi.mocked(restoreTrashItem).mockResolvedValue()
+    render(<TrashList citySlug="amsterdam" items={items} />)
+
+    await user.click(within(screen.getAllByRole('listitem')[0]).getByRole('button', { name: 'restore' }))
+
+    expect(restoreTrashItem).toHaveBeenCalledWith('amsterdam', 'language_point', 'point-1')
+    expect(refresh).toHaveBeenCalled()
+  })
+
+  it('should ask before deleting an item for good', async () => {
+    const user = userEvent.setup()
+    vi.mocked(purgeTrashItem).mockResolvedValue()
+    render(<TrashList citySlug="amsterdam" items={items} />)
+
+    await user.click(within(screen.getAllByRole('listitem')[1]).getByRole('button', { name: 'purge' }))
+    expect(purgeTrashItem).not.toHaveBeenCalled()
+
+    const dialog = screen.getByRole('alertdialog')
+    expect(within(dialog).getByText('purgeTitle untitled')).toBeInTheDocument()
+    await user.click(within(dialog).getByRole('button', { name: 'purge' }))
+
+    expect(purgeTrashItem).toHaveBeenCalledWith('amsterdam', 'district', 'district-1')
+    expect(refresh).toHaveBeenCalled()
+  })
+
+  it('should show why an item could not be restored', async () => {
+    const user = userEvent.setup()
+    vi.mocked(restoreTrashItem).mockRejectedValue(new Error('Restore the language of this point first'))
+    render(<TrashList citySlug="amsterdam" items={items} />)
+
+    await user.click(within(screen.getAllByRole('listitem')[0]).getByRole('button', { name: 'restore' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('restoreError Restore the language of this point first')
+    expect(refresh).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Trash List Component
+ *
+ * Lists the deleted items of a city with when and by whom they were
+ * deleted and when they will be purged, and lets the operator restore them
+ * or delete them for good.
+ *
+ * @module components/trash/trash-list
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useFormatter, useTranslations } from 'next-intl'
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { purgeTrashItem, restoreTrashItem, type TrashItem } from '@/app/actions/trash'
+
+interface TrashListProps {
+  citySlug: string
+  /** Items, most recently deleted first */
+  items: TrashItem[]
+}
+
+/**
+ * TrashList component
+ *
+ * @param props - Component props
+ * @returns Trash list JSX
+ */
+export function TrashList({ citySlug, items }: TrashListProps) {
+  const t = useTranslations('trash')
+  const format = useFormatter()
+  const router = useRouter()
+
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const formatDate = (value: string) =>
+    format.dateTime(new Date(value), { dateStyle: 'medium', timeStyle: 'short' })
+
+  /**
+   * Restore or purge an item, then reload the list
+   */
+  const handleAction = async (item: TrashItem, action: 'restore' | 'purge') => {
+    setPendingId(item.entityId)
+    setError(null)
+
+    try {
+      if (action === 'restore') {
+        await restoreTrashItem(citySlug, item.entityType, item.entityId)
+      } else {
+        await purgeTrashItem(citySlug, item.entityType, item.entityId)
+      }
+      router.refresh()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      setError(t(action === 'restore' ? 'restoreError' : 'purgeError', { message }))
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  if (items.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">{t('empty')}</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      <ul className="divide-y">
+        {items.map((item) => {
+          const label = item.label ?? t('untitled')
+          const isPending = pendingId === item.entityId
+
+          return (
+            <li key={`${item.entityType}-${item.entityId}`} className="flex items-center justify-between gap-4 py-3 text-sm">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{t(`types.${item.entityType}`)}</Badge>
+                  <span className="truncate font-medium">{label}</span>
+                  {item.parentLabel && <span className="truncate text-muted-foreground">· {item.parentLabel}</span>}
+                </div>
+                <div className="text-muted-foreground">
+                  {t('deletedAt', {
+                    date: formatDate(item.deletedAt),
+                    name: item.deletedByName ?? t('unknownUser'),
+                  })}
+                  {' · '}
+                  {t('purgeAfter', { date: formatDate(item.purgeAfter) })}
+                </div>
+              </div>
+
+              <div className="flex shrink-0 gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pendingId !== null}
+                  onClick={() => handleAction(item, 'restore')}
+                >
+                  {isPending ? <Loader2 className="me-2 h-4 w-4 animate-spin" /> : <RotateCcw className="me-2 h-4 w-4" />}
+                  {t('restore')}
+                </Button>
+
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" size="sm" disabled={pendingId !== null}>
+                      <Trash2 className="me-2 h-4 w-4" />
+                      {t('purge')}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>{t('purgeTitle', { name: label })}</AlertDialogTitle>
+                      <AlertDialogDescription>{t('purgeMessage')}</AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleAction(item, 'purge')}>{t('purge')}</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
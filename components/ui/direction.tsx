@@ -0,0 +1,25 @@
+"use client"
+
+import * as React from "react"
+import * as DirectionPrimitive from "@radix-ui/react-direction"
+
+/**
+ * Provides the reading direction of the page to the Radix primitives, so
+ * that keyboard navigation and positioning of selects, tabs and dialogs
+ * follow right-to-left locales.
+ */
+function DirectionProvider({
+  dir,
+  children,
+}: {
+  dir: "ltr" | "rtl"
+  children: React.ReactNode
+}) {
+  return (
+    <DirectionPrimitive.DirectionProvider dir={dir}>
+      {children}
+    </DirectionPrimitive.DirectionProvider>
+  )
+}
+
+export { DirectionProvider }
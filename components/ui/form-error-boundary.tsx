@@ -167,7 +167,7 @@ export class FormErrorBoundary extends Component<FormErrorBoundaryProps, FormErr
 
             <div className="flex gap-2">
               <Button onClick={this.handleReset} variant="outline" size="sm">
-                <RefreshCcw className="mr-2 h-4 w-4" />
+                <RefreshCcw className="me-2 h-4 w-4" />
                 Try Again
               </Button>
             </div>
@@ -0,0 +1,70 @@
+/**
+ * @file description-prompt.test.ts
+ * @description Unit tests for the description draft prompt.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildDescriptionPrompt, DESCRIPTION_SYSTEM_PROMPT, type DescriptionPromptContext } from './description-prompt'
+
+const context: DescriptionPromptContext = {
+  cityName: 'Amsterdam',
+  languageName: 'Turks',
+  endonym: 'Türkçe',
+  isoCode: 'tur',
+  familyName: 'Turkse talen',
+  countryName: 'Turkije',
+  neighborhoodName: 'Spaarndammerbuurt',
+  taxonomies: [
+    { typeName: 'Grootte', valueName: 'Groot' },
+    { typeName: 'Status', valueName: 'Stabiel' },
+  ],
+}
+
+describe('buildDescriptionPrompt', () => {
+  it('lists every known fact and asks for the locale of the description', () => {
+    const request = buildDescriptionPrompt(context, 'nl')
+
+    expect(request.system).toBe(DESCRIPTION_SYSTEM_PROMPT)
+    expect(request.prompt).toBe(
+      [
+        'Write a description of the Turks language community in Spaarndammerbuurt, Amsterdam.',
+        'Write it in Nederlands (locale "nl").',
+        '',
+        'Facts:',
+        '- Language: Turks',
+        '- Name in the language itself: Türkçe',
+        '- ISO 639-3 code: tur',
+        '- Language family: Turkse talen',
+        '- Country of origin: Turkije',
+        '- Neighborhood: Spaarndammerbuurt',
+        '- Grootte: Groot',
+        '- Status: Stabiel',
+      ].join('\n')
+    )
+  })
+
+  it('leaves out what is not known', () => {
+    const request = buildDescriptionPrompt(
+      {
+        ...context,
+        languageName: null,
+        isoCode: null,
+        familyName: null,
+        countryName: null,
+        neighborhoodName: null,
+        taxonomies: [],
+      },
+      'xx'
+    )
+
+    expect(request.prompt).toBe(
+      [
+        'Write a description of the Türkçe language community in Amsterdam.',
+        'Write it in xx (locale "xx").',
+        '',
+        'Facts:',
+        '- Name in the language itself: Türkçe',
+      ].join('\n')
+    )
+  })
+})
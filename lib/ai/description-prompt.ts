@@ -0,0 +1,81 @@
+/**
+ * Description Prompt
+ * ==================
+ * Builds the request for a first draft of a language description from what
+ * the map knows about the language: its names, family, country of origin,
+ * neighborhood and taxonomy values. Drafts are saved as AI-generated and
+ * unreviewed, so an operator checks them before they are trusted.
+ *
+ * @module lib/ai/description-prompt
+ */
+
+import { localeNames, type Locale } from '@/lib/i18n/config'
+import type { TextGenerationRequest } from './types'
+
+/**
+ * Upper bound on the length of a draft, in tokens (descriptions run to a few sentences)
+ */
+const DESCRIPTION_MAX_TOKENS = 400
+
+/**
+ * Instructions shared by every description draft
+ */
+export const DESCRIPTION_SYSTEM_PROMPT = [
+  'You write short descriptions for a public map of the languages spoken in a city.',
+  'Each description introduces one language community: who speaks the language, where it comes from',
+  'and, when a neighborhood is given, its presence there.',
+  'Write two to four sentences of plain text, without headings, lists or markdown.',
+  'Use only the facts given and well-established general knowledge; do not invent numbers,',
+  'dates, names or quotes. Write respectfully and without stereotypes.',
+].join(' ')
+
+/**
+ * What is known about the language a description is for
+ *
+ * Names are in the description's locale where available.
+ */
+export interface DescriptionPromptContext {
+  cityName: string
+  languageName: string | null
+  endonym: string | null
+  isoCode: string | null
+  familyName: string | null
+  countryName: string | null
+  neighborhoodName: string | null
+  taxonomies: Array<{ typeName: string; valueName: string }>
+}
+
+/**
+ * Build the request for a description draft
+ *
+ * Facts are listed one per line, starting with `- `.
+ *
+ * @param context - What is known about the language
+ * @param locale - Locale the description is written in
+ * @returns Text generation request
+ */
+export function buildDescriptionPrompt(context: DescriptionPromptContext, locale: string): TextGenerationRequest {
+  const languageLabel = context.languageName || context.endonym || 'this language'
+  const place = context.neighborhoodName ? `${context.neighborhoodName}, ${context.cityName}` : context.cityName
+  const localeName = localeNames[locale as Locale] ?? locale
+
+  const facts = [
+    context.languageName && `Language: ${context.languageName}`,
+    context.endonym && `Name in the language itself: ${context.endonym}`,
+    context.isoCode && `ISO 639-3 code: ${context.isoCode}`,
+    context.familyName && `Language family: ${context.familyName}`,
+    context.countryName && `Country of origin: ${context.countryName}`,
+    context.neighborhoodName && `Neighborhood: ${context.neighborhoodName}`,
+    ...context.taxonomies.map((taxonomy) => `${taxonomy.typeName}: ${taxonomy.valueName}`),
+  ].filter((fact): fact is string => Boolean(fact))
+
+  const prompt = [
+    `Write a description of the ${languageLabel} language community in ${place}.`,
+    `Write it in ${localeName} (locale "${locale}").`,
+    '',
+    'Facts:',
+    ...facts.map((fact) => `- ${fact}`),
+  ].join('\n')
+
+  return { system: DESCRIPTION_SYSTEM_PROMPT, prompt, maxTokens: DESCRIPTION_MAX_TOKENS }
+}
@@ -0,0 +1,143 @@
+/**
+ * @file http.test.ts
+ * @description Unit tests for the Anthropic and OpenAI-compatible text generation adapter.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  ANTHROPIC_API_VERSION,
+  DEFAULT_MAX_TOKENS,
+  buildTextGenerationRequest,
+  createHttpTextGenerator,
+  parseTextGenerationResponse,
+} from './http'
+
+const request = { system: 'Be brief.', prompt: 'Describe Türkçe.' }
+
+/**
+ * Create a fetch mock answering with a JSON body
+ */
+function mockFetch(body: unknown, status = 200) {
+  return vi.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  }) as unknown as typeof fetch & ReturnType<typeof vi.fn>
+}
+
+describe('buildTextGenerationRequest', () => {
+  it('builds an Anthropic Messages request', () => {
+    const { url, init } = buildTextGenerationRequest(
+      { api: 'anthropic', baseUrl: 'https://api.anthropic.com', apiKey: 'key', model: 'model-a' },
+      request
+    )
+
+    expect(url).toBe('https://api.anthropic.com/v1/messages')
+    expect(init.headers).toMatchObject({ 'x-api-key': 'key', 'anthropic-version': ANTHROPIC_API_VERSION })
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'model-a',
+      max_tokens: DEFAULT_MAX_TOKENS,
+      system: 'Be brief.',
+      messages: [{ role: 'user', content: 'Describe Türkçe.' }],
+    })
+  })
+
+  it('builds an OpenAI-compatible request below the base path', () => {
+    const { url, init } = buildTextGenerationRequest(
+      { api: 'openai', baseUrl: 'http://localhost:11434/v1', apiKey: 'key', model: 'model-b' },
+      { ...request, maxTokens: 100 }
+    )
+
+    expect(url).toBe('http://localhost:11434/v1/chat/completions')
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer key' })
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'model-b',
+      max_tokens: 100,
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Describe Türkçe.' },
+      ],
+    })
+  })
+})
+
+describe('parseTextGenerationResponse', () => {
+  it('joins the text blocks of an Anthropic response', () => {
+    expect(
+      parseTextGenerationResponse('anthropic', {
+        model: 'model-a-2025',
+        content: [
+          { type: 'text', text: ' Turkish is ' },
+          { type: 'tool_use' },
+          { type: 'text', text: 'spoken here. ' },
+        ],
+      })
+    ).toEqual({ text: 'Turkish is spoken here.', model: 'model-a-2025' })
+  })
+
+  it('reads the first choice of an OpenAI response', () => {
+    expect(
+      parseTextGenerationResponse('openai', { choices: [{ message: { content: 'Turkish is spoken here.' } }] })
+    ).toEqual({ text: 'Turkish is spoken here.', model: null })
+  })
+})
+
+describe('createHttpTextGenerator', () => {
+  it('returns the text and the model the provider reports', async () => {
+    const fetch = mockFetch({ model: 'model-b-0125', choices: [{ message: { content: 'A draft.' } }] })
+    const generator = createHttpTextGenerator({
+      api: 'openai',
+      baseUrl: 'https://api.example.org/v1',
+      apiKey: 'key',
+      model: 'model-b',
+      fetch,
+    })
+
+    await expect(generator.generate(request)).resolves.toEqual({ text: 'A draft.', model: 'model-b-0125' })
+    expect(fetch).toHaveBeenCalledWith('https://api.example.org/v1/chat/completions', expect.objectContaining({ method: 'POST' }))
+  })
+
+  it('falls back to the configured model name', async () => {
+    const generator = createHttpTextGenerator({
+      api: 'anthropic',
+      baseUrl: 'https://api.anthropic.com',
+      apiKey: 'key',
+      model: 'model-a',
+      fetch: mockFetch({ content: [{ type: 'text', text: 'A draft.' }] }),
+    })
+
+    await expect(generator.generate(request)).resolves.toEqual({ text: 'A draft.', model: 'model-a' })
+  })
+
+  it('rejects failed requests and empty answers', async () => {
+    const options = { api: 'anthropic' as const, baseUrl: 'https://api.anthropic.com', apiKey: 'key', model: 'model-a' }
+
+    await expect(
+      createHttpTextGenerator({ ...options, fetch: mockFetch({ error: 'overloaded' }, 529) }).generate(request)
+    ).rejects.toThrow('AI request failed with status 529')
+    await expect(
+      createHttpTextGenerator({ ...options, fetch: mockFetch({ content: [] }) }).generate(request)
+    ).rejects.toThrow('AI provider returned no text')
+  })
+
+  it('gives up on providers that do not answer', async () => {
+    // Never answers; rejects the way fetch does once the signal aborts
+    const hangingFetch = vi.fn(
+      (_url: string | URL | Request, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+        })
+    )
+
+    await expect(
+      createHttpTextGenerator({
+        api: 'anthropic',
+        baseUrl: 'https://api.anthropic.com',
+        apiKey: 'key',
+        model: 'model-a',
+        timeoutMs: 10,
+        fetch: hangingFetch as unknown as typeof fetch,
+      }).generate(request)
+    ).rejects.toThrow('AI request failed: no answer within 10 ms')
+  })
+})
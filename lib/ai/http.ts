@@ -0,0 +1,189 @@
+/**
+ * HTTP Text Generator
+ * ===================
+ * Adapter for hosted language models. Speaks either the Anthropic Messages
+ * API or the OpenAI Chat Completions API; the latter is also offered by
+ * many other hosts and by self-hosted model servers, so `baseUrl` can point
+ * at any compatible service.
+ *
+ * @module lib/ai/http
+ */
+
+import type { TextGenerationRequest, TextGenerationResult, TextGenerator } from './types'
+
+/**
+ * Default upper bound on the length of an answer, in tokens
+ */
+export const DEFAULT_MAX_TOKENS = 600
+
+/**
+ * Default time to wait for an answer, in milliseconds
+ */
+export const DEFAULT_TIMEOUT_MS = 30_000
+
+/**
+ * Version header required by the Anthropic Messages API
+ */
+export const ANTHROPIC_API_VERSION = '2023-06-01'
+
+/**
+ * API spoken by the service
+ */
+export type HttpTextApi = 'anthropic' | 'openai'
+
+/**
+ * HTTP adapter configuration
+ */
+export interface HttpTextGeneratorOptions {
+  api: HttpTextApi
+  /** Base URL, e.g. `https://api.anthropic.com` or `https://api.openai.com/v1` */
+  baseUrl: string
+  apiKey: string
+  model: string
+  /** Time to wait for an answer, in milliseconds (defaults to DEFAULT_TIMEOUT_MS) */
+  timeoutMs?: number
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch
+}
+
+/**
+ * Response of `POST /v1/messages`
+ */
+interface AnthropicResponse {
+  model?: string
+  content?: Array<{ type: string; text?: string }>
+}
+
+/**
+ * Response of `POST /chat/completions`
+ */
+interface OpenAIResponse {
+  model?: string
+  choices?: Array<{ message?: { content?: string | null } }>
+}
+
+/**
+ * Join a path to a base URL, keeping any path the base URL has
+ */
+function joinUrl(baseUrl: string, path: string): string {
+  return new URL(path, baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`).toString()
+}
+
+/**
+ * Build the HTTP request for a generation request
+ *
+ * @param options - Adapter configuration
+ * @param request - Instructions and prompt
+ * @returns URL and fetch options
+ */
+export function buildTextGenerationRequest(
+  options: HttpTextGeneratorOptions,
+  request: TextGenerationRequest
+): { url: string; init: RequestInit } {
+  const maxTokens = request.maxTokens ?? DEFAULT_MAX_TOKENS
+
+  if (options.api === 'anthropic') {
+    return {
+      url: joinUrl(options.baseUrl, 'v1/messages'),
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': options.apiKey,
+          'anthropic-version': ANTHROPIC_API_VERSION,
+        },
+        body: JSON.stringify({
+          model: options.model,
+          max_tokens: maxTokens,
+          system: request.system,
+          messages: [{ role: 'user', content: request.prompt }],
+        }),
+      },
+    }
+  }
+
+  return {
+    url: joinUrl(options.baseUrl, 'chat/completions'),
+    init: {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${options.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: options.model,
+        max_tokens: maxTokens,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+      }),
+    },
+  }
+}
+
+/**
+ * Read the generated text from a response body
+ *
+ * @param api - API that produced the body
+ * @param body - Parsed JSON response
+ * @returns Generated text (trimmed; empty when there is none) and reported model
+ */
+export function parseTextGenerationResponse(
+  api: HttpTextApi,
+  body: unknown
+): { text: string; model: string | null } {
+  if (api === 'anthropic') {
+    const response = body as AnthropicResponse
+    const text = (response.content ?? [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('')
+    return { text: text.trim(), model: response.model ?? null }
+  }
+
+  const response = body as OpenAIResponse
+  return {
+    text: (response.choices?.[0]?.message?.content ?? '').trim(),
+    model: response.model ?? null,
+  }
+}
+
+/**
+ * Create a text generator backed by a hosted language model
+ *
+ * @param options - API, service URL, key, model, optional timeout and fetch implementation
+ * @returns Text generator
+ */
+export function createHttpTextGenerator(options: HttpTextGeneratorOptions): TextGenerator {
+  const fetchImpl = options.fetch ?? fetch
+
+  return {
+    async generate(request: TextGenerationRequest): Promise<TextGenerationResult> {
+      const { url, init } = buildTextGenerationRequest(options, request)
+      const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+
+      let response: Response
+      try {
+        response = await fetchImpl(url, { ...init, signal: AbortSignal.timeout(timeoutMs) })
+      } catch (error) {
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          throw new Error(`AI request failed: no answer within ${timeoutMs} ms`)
+        }
+        throw error
+      }
+
+      if (!response.ok) {
+        throw new Error(`AI request failed with status ${response.status}`)
+      }
+
+      const { text, model } = parseTextGenerationResponse(options.api, await response.json())
+
+      if (!text) {
+        throw new Error('AI provider returned no text')
+      }
+
+      return { text, model: model ?? options.model }
+    },
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * @file index.test.ts
+ * @description Unit tests for AI configuration, provider selection and the local generator.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createTextGenerator, getAIConfig, isAIEnabled, DEFAULT_AI_BASE_URLS, DEFAULT_AI_MODELS } from './index'
+import { LOCAL_MODEL } from './local'
+
+/**
+ * Read the AI configuration with the feature flag switched on
+ */
+function getEnabledAIConfig(env: Record<string, string>) {
+  return getAIConfig({ NEXT_PUBLIC_ENABLE_AI_FEATURES: 'true', ...env })
+}
+
+describe('getAIConfig', () => {
+  it('switches AI generation off without a provider or key', () => {
+    expect(getEnabledAIConfig({}).provider).toBeNull()
+    expect(isAIEnabled(getEnabledAIConfig({}))).toBe(false)
+  })
+
+  it('switches AI generation off unless the feature flag is on', () => {
+    expect(getAIConfig({ ANTHROPIC_API_KEY: 'a', AI_PROVIDER: 'local' }).provider).toBeNull()
+    expect(
+      isAIEnabled(getAIConfig({ NEXT_PUBLIC_ENABLE_AI_FEATURES: 'false', ANTHROPIC_API_KEY: 'a' }))
+    ).toBe(false)
+  })
+
+  it('picks the provider from the API keys', () => {
+    expect(getEnabledAIConfig({ ANTHROPIC_API_KEY: 'a', OPENAI_API_KEY: 'o' })).toEqual({
+      provider: 'anthropic',
+      model: DEFAULT_AI_MODELS.anthropic,
+      baseUrl: DEFAULT_AI_BASE_URLS.anthropic,
+      apiKey: 'a',
+    })
+    expect(getEnabledAIConfig({ OPENAI_API_KEY: 'o' })).toMatchObject({ provider: 'openai', apiKey: 'o' })
+  })
+
+  it('honours an explicit provider, model and URL and falls back for unknown providers', () => {
+    expect(
+      getEnabledAIConfig({
+        AI_PROVIDER: 'openai',
+        AI_MODEL: 'llama3',
+        AI_BASE_URL: 'http://localhost:11434/v1',
+        ANTHROPIC_API_KEY: 'a',
+        OPENAI_API_KEY: 'o',
+      })
+    ).toEqual({ provider: 'openai', model: 'llama3', baseUrl: 'http://localhost:11434/v1', apiKey: 'o' })
+    expect(getEnabledAIConfig({ AI_PROVIDER: 'oracle', OPENAI_API_KEY: 'o' }).provider).toBe('openai')
+    expect(getEnabledAIConfig({ AI_PROVIDER: 'local' })).toMatchObject({ provider: 'local', model: LOCAL_MODEL })
+  })
+})
+
+describe('createTextGenerator', () => {
+  it('creates a generator for every provider', () => {
+    for (const provider of ['anthropic', 'openai', 'local'] as const) {
+      expect(typeof createTextGenerator({ ...getEnabledAIConfig({ AI_PROVIDER: provider }) }).generate).toBe('function')
+    }
+  })
+
+  it('refuses to create one when AI generation is off', () => {
+    expect(() => createTextGenerator(getAIConfig({}))).toThrow('AI generation is not configured')
+  })
+
+  it('writes the same local draft for the same facts', async () => {
+    const generator = createTextGenerator(getEnabledAIConfig({ AI_PROVIDER: 'local' }))
+    const request = { system: 'Be brief.', prompt: 'Describe it.\n\nFacts:\n- Language: Turkish\n- Size: Large' }
+
+    const first = await generator.generate(request)
+
+    expect(first).toEqual({
+      text: 'Draft written without an AI model. Language: Turkish. Size: Large.',
+      model: LOCAL_MODEL,
+    })
+    await expect(generator.generate(request)).resolves.toEqual(first)
+  })
+
+  it('copies text to translate unchanged', async () => {
+    const generator = createTextGenerator(getEnabledAIConfig({ AI_PROVIDER: 'local' }))
+
+    await expect(
+      generator.generate({ system: 'Translate.', prompt: 'Translate it.\n\n<text>\nTurkish\n- spoken widely\n</text>' })
+    ).resolves.toEqual({ text: 'Turkish\n- spoken widely', model: LOCAL_MODEL })
+  })
+})
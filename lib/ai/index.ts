@@ -0,0 +1,123 @@
+/**
+ * AI
+ * ==
+ * Entry point for text generation. The provider is chosen with
+ * `AI_PROVIDER`:
+ *
+ * - `anthropic`: the Anthropic Messages API with `ANTHROPIC_API_KEY`
+ *   (default when that key is set)
+ * - `openai`: an OpenAI-compatible Chat Completions API with
+ *   `OPENAI_API_KEY` (default when only that key is set)
+ * - `local`: no model; fixed-form drafts for development and tests
+ *
+ * `AI_MODEL` overrides the provider's default model and `AI_BASE_URL` its
+ * URL, e.g. for a self-hosted OpenAI-compatible server. AI generation is
+ * switched off unless `NEXT_PUBLIC_ENABLE_AI_FEATURES` is `true` and a
+ * provider is configured.
+ *
+ * @module lib/ai
+ */
+
+import { createHttpTextGenerator } from './http'
+import { createLocalTextGenerator, LOCAL_MODEL } from './local'
+import type { TextGenerator } from './types'
+
+export type { TextGenerationRequest, TextGenerationResult, TextGenerator } from './types'
+
+/**
+ * Configured AI provider
+ */
+export type AIProvider = 'anthropic' | 'openai' | 'local'
+
+/**
+ * AI configuration read from the environment
+ */
+export interface AIConfig {
+  /** Null when AI generation is switched off */
+  provider: AIProvider | null
+  model: string
+  baseUrl: string
+  apiKey: string
+}
+
+/**
+ * Model used when `AI_MODEL` is not set
+ */
+export const DEFAULT_AI_MODELS: Record<AIProvider, string> = {
+  anthropic: 'claude-3-5-haiku-latest',
+  openai: 'gpt-4o-mini',
+  local: LOCAL_MODEL,
+}
+
+/**
+ * Service URL used when `AI_BASE_URL` is not set
+ */
+export const DEFAULT_AI_BASE_URLS: Record<AIProvider, string> = {
+  anthropic: 'https://api.anthropic.com',
+  openai: 'https://api.openai.com/v1',
+  local: '',
+}
+
+const PROVIDERS: AIProvider[] = ['anthropic', 'openai', 'local']
+
+/**
+ * Read the AI configuration
+ *
+ * @param env - Environment variables (defaults to `process.env`)
+ * @returns AI configuration; unknown providers fall back to the default
+ */
+export function getAIConfig(env: Record<string, string | undefined> = process.env): AIConfig {
+  if (env.NEXT_PUBLIC_ENABLE_AI_FEATURES !== 'true') {
+    return { provider: null, model: '', baseUrl: '', apiKey: '' }
+  }
+
+  const requested = PROVIDERS.find((provider) => provider === env.AI_PROVIDER)
+  const provider =
+    requested ?? (env.ANTHROPIC_API_KEY ? 'anthropic' : env.OPENAI_API_KEY ? 'openai' : null)
+
+  if (!provider) {
+    return { provider: null, model: '', baseUrl: '', apiKey: '' }
+  }
+
+  return {
+    provider,
+    model: env.AI_MODEL || DEFAULT_AI_MODELS[provider],
+    baseUrl: env.AI_BASE_URL || DEFAULT_AI_BASE_URLS[provider],
+    apiKey:
+      (provider === 'anthropic' ? env.ANTHROPIC_API_KEY : provider === 'openai' ? env.OPENAI_API_KEY : '') ?? '',
+  }
+}
+
+/**
+ * Whether AI generation is switched on
+ *
+ * @param config - AI configuration (defaults to the environment)
+ * @returns True when the feature flag is on and a provider is configured
+ */
+export function isAIEnabled(config: AIConfig = getAIConfig()): boolean {
+  return config.provider !== null
+}
+
+/**
+ * Create the configured text generator
+ *
+ * @param config - AI configuration (defaults to the environment)
+ * @returns Text generator
+ * @throws {Error} If no provider is configured
+ */
+export function createTextGenerator(config: AIConfig = getAIConfig()): TextGenerator {
+  switch (config.provider) {
+    case 'anthropic':
+    case 'openai':
+      return createHttpTextGenerator({
+        api: config.provider,
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        model: config.model,
+      })
+    case 'local':
+      return createLocalTextGenerator()
+    case null:
+      throw new Error('AI generation is not configured')
+  }
+}
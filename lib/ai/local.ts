@@ -0,0 +1,47 @@
+/**
+ * Local Text Generator
+ * ====================
+ * Generator that calls no model. Text to translate (between `<text>` and
+ * `</text>`) is returned unchanged; otherwise the facts listed in the
+ * prompt (lines starting with `- `) are turned into a fixed-form draft.
+ * Always returns the same text for the same prompt, so it suits tests and
+ * development without an API key.
+ *
+ * @module lib/ai/local
+ */
+
+import type { TextGenerationRequest, TextGenerationResult, TextGenerator } from './types'
+
+/**
+ * Model name recorded for drafts written by the local generator
+ */
+export const LOCAL_MODEL = 'local-stub'
+
+/**
+ * Create a generator that writes drafts and translations without a language model
+ *
+ * @returns Text generator
+ */
+export function createLocalTextGenerator(): TextGenerator {
+  return {
+    async generate(request: TextGenerationRequest): Promise<TextGenerationResult> {
+      const quoted = request.prompt.match(/<text>\n?([\s\S]*?)\n?<\/text>/)
+      if (quoted) {
+        return { text: quoted[1], model: LOCAL_MODEL }
+      }
+
+      const facts = request.prompt
+        .split('\n')
+        .filter((line) => line.startsWith('- '))
+        .map((line) => line.slice(2).trim())
+        .filter(Boolean)
+
+      const text =
+        facts.length > 0
+          ? `Draft written without an AI model. ${facts.join('. ')}.`
+          : 'Draft written without an AI model.'
+
+      return { text, model: LOCAL_MODEL }
+    },
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * @file translation-prompt.test.ts
+ * @description Unit tests for the translation prompt.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildTranslationPrompt, TRANSLATION_SYSTEM_PROMPT } from './translation-prompt'
+
+describe('buildTranslationPrompt', () => {
+  it('names the column, the kind of row and both locales, and quotes the text', () => {
+    const request = buildTranslationPrompt('Old town\nby the river', {
+      entityType: 'district',
+      field: 'description',
+      sourceLocale: 'en',
+      targetLocale: 'nl',
+    })
+
+    expect(request.system).toBe(TRANSLATION_SYSTEM_PROMPT)
+    expect(request.prompt).toBe(
+      [
+        'Translate the description of a district of a city from English (locale "en") into Nederlands (locale "nl").',
+        '',
+        '<text>',
+        'Old town',
+        'by the river',
+        '</text>',
+      ].join('\n')
+    )
+  })
+
+  it('allows longer answers for longer texts', () => {
+    const options = { entityType: 'description', field: 'text', sourceLocale: 'en', targetLocale: 'fr' } as const
+
+    expect(buildTranslationPrompt('Turkish', options).maxTokens).toBe(100)
+    expect(buildTranslationPrompt('x'.repeat(2000), options).maxTokens).toBe(2000)
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Translation Prompt
+ * ==================
+ * Builds the request for an AI translation of one text column of a
+ * translation row (a name, a description) from one locale into another.
+ * The text to translate is wrapped in `<text>` tags so that instructions
+ * inside it are not followed. Translations are saved as AI-translated and
+ * unreviewed, so a translator checks them in the review queue.
+ *
+ * @module lib/ai/translation-prompt
+ */
+
+import { localeNames, type Locale } from '@/lib/i18n/config'
+import type { TranslationEntityType, TranslationField } from '@/lib/translations/entities'
+import type { TextGenerationRequest } from './types'
+
+/**
+ * Lower bound on the length of a translation, in tokens; the upper bound
+ * grows with the length of the text
+ */
+const MIN_TRANSLATION_TOKENS = 100
+
+/**
+ * Instructions shared by every translation
+ */
+export const TRANSLATION_SYSTEM_PROMPT = [
+  'You translate the content of a public map of the languages spoken in a city.',
+  'Translate the text between <text> and </text> faithfully and naturally, keeping its meaning, tone and length.',
+  'Keep proper nouns, names of places and names written in their own language (endonyms) as they are,',
+  'and use the usual name in the target language for languages, countries and peoples.',
+  'Answer with the translation only: no quotes, tags, notes or explanations.',
+].join(' ')
+
+/**
+ * What is translated, for the prompt
+ */
+const SUBJECTS: Record<TranslationEntityType, string> = {
+  city: 'a city',
+  district: 'a district of a city',
+  neighborhood: 'a neighborhood of a city',
+  language: 'a language',
+  description: 'a language community',
+  taxonomy_type: 'a category used to classify languages on the map',
+  taxonomy_value: 'a value of a category used to classify languages on the map',
+}
+
+/**
+ * Name of a locale for the prompt, e.g. `Nederlands (locale "nl")`
+ */
+function describeLocale(locale: string): string {
+  return `${localeNames[locale as Locale] ?? locale} (locale "${locale}")`
+}
+
+/**
+ * Build the request for the translation of one text column
+ *
+ * @param text - Text to translate
+ * @param options - Kind of row, column, and the locales to translate from and into
+ * @returns Text generation request
+ */
+export function buildTranslationPrompt(
+  text: string,
+  options: {
+    entityType: TranslationEntityType
+    field: TranslationField
+    sourceLocale: string
+    targetLocale: string
+  }
+): TextGenerationRequest {
+  const prompt = [
+    `Translate the ${options.field} of ${SUBJECTS[options.entityType]} from ${describeLocale(options.sourceLocale)}` +
+      ` into ${describeLocale(options.targetLocale)}.`,
+    '',
+    '<text>',
+    text,
+    '</text>',
+  ].join('\n')
+
+  return {
+    system: TRANSLATION_SYSTEM_PROMPT,
+    prompt,
+    maxTokens: Math.max(MIN_TRANSLATION_TOKENS, text.length),
+  }
+}
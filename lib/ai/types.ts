@@ -0,0 +1,44 @@
+/**
+ * AI Types
+ * ========
+ * Provider-independent contract for generating text with a language model.
+ * Server actions build a `TextGenerationRequest` and hand it to a
+ * `TextGenerator`; which provider backs it is decided in `lib/ai`.
+ *
+ * @module lib/ai/types
+ */
+
+/**
+ * Text to generate
+ */
+export interface TextGenerationRequest {
+  /** Instructions that apply to every request of this kind */
+  system: string
+  /** The request itself */
+  prompt: string
+  /** Upper bound on the length of the answer, in tokens */
+  maxTokens?: number
+}
+
+/**
+ * Generated text
+ */
+export interface TextGenerationResult {
+  text: string
+  /** Model that wrote the text, as reported by the provider */
+  model: string
+}
+
+/**
+ * Language model provider
+ */
+export interface TextGenerator {
+  /**
+   * Generate text
+   *
+   * @param request - Instructions and prompt
+   * @returns Generated text and the model that wrote it
+   * @throws {Error} If the provider cannot be reached or returns no text
+   */
+  generate(request: TextGenerationRequest): Promise<TextGenerationResult>
+}
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for audit event helpers
+ */
+
+import { describe, it, expect } from 'vitest'
+import { formatAuditValue, getAuditChanges, isAuditEntityGroup } from './events'
+
+describe('getAuditChanges', () => {
+  it('lists the changed columns of an update', () => {
+    expect(getAuditChanges({ endonym: 'Türkçe', speaker_count: 100 }, { endonym: 'Türkçe', speaker_count: 120 })).toEqual([
+      { field: 'speaker_count', before: 100, after: 120 },
+    ])
+  })
+
+  it('lists every column of a deleted row without metadata', () => {
+    expect(
+      getAuditChanges({ id: 'language-1', endonym: 'Türkçe', created_at: '2025-01-01T00:00:00Z' }, null)
+    ).toEqual([
+      { field: 'endonym', before: 'Türkçe', after: null },
+      { field: 'id', before: 'language-1', after: null },
+    ])
+  })
+
+  it('compares nested values by content', () => {
+    expect(getAuditChanges({ bounds: [1, 2] }, { bounds: [1, 2] })).toEqual([])
+  })
+})
+
+describe('formatAuditValue', () => {
+  it('formats empty, text and structured values', () => {
+    expect(formatAuditValue(null)).toBe('—')
+    expect(formatAuditValue('')).toBe('—')
+    expect(formatAuditValue('Türkçe')).toBe('Türkçe')
+    expect(formatAuditValue(42)).toBe('42')
+    expect(formatAuditValue({ a: 1 })).toBe('{"a":1}')
+  })
+})
+
+describe('isAuditEntityGroup', () => {
+  it('accepts known groups only', () => {
+    expect(isAuditEntityGroup('languages')).toBe(true)
+    expect(isAuditEntityGroup('toString')).toBe(false)
+  })
+})
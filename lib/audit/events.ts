@@ -0,0 +1,108 @@
+/**
+ * Audit Events
+ * ============
+ * Shared definitions for the audit log written by the `record_audit_event`
+ * database trigger (see supabase/migrations/20251121000000_create_audit_events.sql)
+ * and shown on the city activity page.
+ *
+ * Safe to import from client components.
+ *
+ * @module lib/audit/events
+ */
+
+/**
+ * Request header naming the user behind a service role write
+ *
+ * The database only trusts it from the service role.
+ */
+export const AUDIT_ACTOR_HEADER = 'x-audit-actor'
+
+/**
+ * Tables whose changes are recorded, grouped for the activity filter
+ */
+export const AUDIT_ENTITY_GROUPS = {
+  languages: ['languages', 'language_translations', 'language_taxonomies'],
+  points: ['language_points'],
+  descriptions: ['descriptions', 'description_translations'],
+  taxonomies: ['taxonomy_types', 'taxonomy_type_translations', 'taxonomy_values', 'taxonomy_value_translations'],
+  districts: ['districts', 'district_translations'],
+  neighborhoods: ['neighborhoods', 'neighborhood_translations'],
+  invitations: ['invitations', 'invitation_city_grants'],
+  members: ['city_users'],
+  city: ['cities', 'city_translations'],
+} as const
+
+/**
+ * Group of audited tables
+ */
+export type AuditEntityGroup = keyof typeof AUDIT_ENTITY_GROUPS
+
+/**
+ * Audited table
+ */
+export type AuditEntityType = (typeof AUDIT_ENTITY_GROUPS)[AuditEntityGroup][number]
+
+/**
+ * Kind of change
+ */
+export type AuditAction = 'create' | 'update' | 'delete'
+
+export const AUDIT_ACTIONS: readonly AuditAction[] = ['create', 'update', 'delete']
+
+/**
+ * Check if a string is an entity group
+ */
+export function isAuditEntityGroup(value: string): value is AuditEntityGroup {
+  return Object.prototype.hasOwnProperty.call(AUDIT_ENTITY_GROUPS, value)
+}
+
+/**
+ * Columns that change on every write and say nothing about the change
+ */
+const METADATA_COLUMNS = new Set(['created_at', 'updated_at'])
+
+/**
+ * One changed column of an audit event
+ */
+export interface AuditChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+/**
+ * List the columns an event changed
+ *
+ * Creates list every column of the new row and deletes every column of the
+ * removed one, so a deleted row can be read back in full.
+ *
+ * @param before - Row (or changed columns) before the change
+ * @param after - Row (or changed columns) after the change
+ * @returns Changed columns in alphabetical order
+ */
+export function getAuditChanges(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+
+  return [...fields]
+    .filter((field) => !METADATA_COLUMNS.has(field))
+    .filter((field) => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after?.[field] ?? null))
+    .sort()
+    .map((field) => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null }))
+}
+
+/**
+ * Render a column value for display
+ *
+ * @param value - Value from an audit event
+ * @returns Text for the value; empty values as an em dash
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '—'
+  }
+
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
@@ -9,7 +9,7 @@
  * - superuser (3) → Can access superuser routes, create cities, manage all users
  */
 
-import { locales } from '@/lib/i18n/config'
+import { isLocaleCode } from '@/lib/i18n/config'
 
 /**
  * User roles in the system
@@ -177,7 +177,7 @@ export function canAccessRoute(role: string | null | undefined, pathname: string
   const segments = pathname.split('/')
 
   // Root path or direct locale path
-  if (pathname === '/' || pathname === '/en' || pathname === '/nl' || pathname === '/fr') {
+  if (pathname === '/' || (segments.length === 2 && isLocaleCode(segments[1]))) {
     return true
   }
 
@@ -189,7 +189,7 @@ export function canAccessRoute(role: string | null | undefined, pathname: string
   // City routes like /en/amsterdam
   if (segments.length >= 3 && segments[1]) {
     const locale = segments[1]
-    if (locales.includes(locale as typeof locales[number])) {
+    if (isLocaleCode(locale)) {
       const routeType = segments[2]
       // If it's a protected route, check permissions
       if (routeType === 'admin' || routeType === 'operator' || routeType === 'superuser') {
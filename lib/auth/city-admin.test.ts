@@ -0,0 +1,62 @@
+/**
+ * Unit tests for the city admin access check
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getCityAdminAccess } from './city-admin'
+import { createQuery } from '@/__tests__/helpers/supabase'
+
+/**
+ * Mock client for a user with the given profile role and city role
+ */
+const createClient = (options: { user?: boolean; role?: string; active?: boolean; cityRole?: string; city?: boolean }) => {
+  const { user = true, role = 'admin', active = true, cityRole, city = true } = options
+  const tables: Record<string, unknown> = {
+    user_profiles: { role, is_active: active },
+    cities: city ? { id: 'city-1' } : null,
+    city_users: cityRole ? { role: cityRole } : null,
+  }
+
+  return {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: user ? { id: 'user-1' } : null } }) },
+    from: vi.fn((table: string) => createQuery({ data: tables[table], error: null })),
+  } as unknown as SupabaseClient
+}
+
+describe('getCityAdminAccess', () => {
+  it('grants admins with the admin role in the city', async () => {
+    expect(await getCityAdminAccess(createClient({ cityRole: 'admin' }), 'amsterdam')).toEqual({
+      status: 'granted',
+      userId: 'user-1',
+      cityId: 'city-1',
+    })
+  })
+
+  it('grants superusers without a city role', async () => {
+    const access = await getCityAdminAccess(createClient({ role: 'superuser' }), 'amsterdam')
+    expect(access.status).toBe('granted')
+  })
+
+  it('refuses admins of other cities and operators', async () => {
+    expect((await getCityAdminAccess(createClient({}), 'amsterdam')).status).toBe('forbidden')
+    expect((await getCityAdminAccess(createClient({ cityRole: 'operator' }), 'amsterdam')).status).toBe('forbidden')
+    expect((await getCityAdminAccess(createClient({ role: 'operator', cityRole: 'admin' }), 'amsterdam')).status).toBe(
+      'forbidden'
+    )
+  })
+
+  it('refuses deactivated accounts', async () => {
+    expect((await getCityAdminAccess(createClient({ active: false, cityRole: 'admin' }), 'amsterdam')).status).toBe(
+      'forbidden'
+    )
+    expect((await getCityAdminAccess(createClient({ role: 'superuser', active: false }), 'amsterdam')).status).toBe(
+      'forbidden'
+    )
+  })
+
+  it('reports missing sessions and cities', async () => {
+    expect((await getCityAdminAccess(createClient({ user: false }), 'amsterdam')).status).toBe('unauthenticated')
+    expect((await getCityAdminAccess(createClient({ city: false }), 'unknown')).status).toBe('notFound')
+  })
+})
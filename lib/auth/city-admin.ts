@@ -0,0 +1,72 @@
+/**
+ * City Admin Access
+ * =================
+ * Server-side check that the signed-in user may administer a city:
+ * superusers administer every city, admins the cities where their
+ * `city_users` role is admin. Deactivated accounts administer none.
+ *
+ * @module lib/auth/city-admin
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isSuperuser } from './authorization'
+
+/**
+ * Outcome of a city admin check
+ */
+export type CityAdminAccess =
+  | { status: 'granted'; userId: string; cityId: string }
+  | { status: 'unauthenticated' | 'forbidden' | 'notFound' }
+
+/**
+ * Check whether the user of a session may administer a city
+ *
+ * @async
+ * @param supabase - Supabase client with the user's session
+ * @param citySlug - City identifier slug
+ * @returns Promise resolving to the access outcome, with the user and city IDs when granted
+ */
+export async function getCityAdminAccess(supabase: SupabaseClient, citySlug: string): Promise<CityAdminAccess> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { status: 'unauthenticated' }
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role, is_active')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || profile.is_active === false || (profile.role !== 'admin' && !isSuperuser(profile.role))) {
+    return { status: 'forbidden' }
+  }
+
+  const { data: city } = await supabase
+    .from('cities')
+    .select('id')
+    .eq('slug', citySlug)
+    .maybeSingle()
+
+  if (!city) {
+    return { status: 'notFound' }
+  }
+
+  if (!isSuperuser(profile.role)) {
+    const { data: cityAccess } = await supabase
+      .from('city_users')
+      .select('role')
+      .eq('city_id', city.id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (cityAccess?.role !== 'admin') {
+      return { status: 'forbidden' }
+    }
+  }
+
+  return { status: 'granted', userId: user.id, cityId: city.id }
+}
@@ -0,0 +1,61 @@
+/**
+ * @file csv.test.ts
+ * @description Unit tests for the CSV parser used by operator uploads.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { detectCsvDelimiter, formatCsv, parseCsv, parseCsvRows } from './csv'
+
+describe('detectCsvDelimiter', () => {
+  it('detects semicolons from spreadsheet exports', () => {
+    expect(detectCsvDelimiter('postcode;lat;lon\n1012AB;52,37;4,89')).toBe(';')
+  })
+
+  it('defaults to commas', () => {
+    expect(detectCsvDelimiter('postal_code')).toBe(',')
+  })
+})
+
+describe('parseCsvRows', () => {
+  it('handles quoted fields, escaped quotes and CRLF line endings', () => {
+    const text = 'name,notes\r\n"Café ""De Zon""","line one\nline two"\r\n'
+
+    expect(parseCsvRows(text)).toEqual([
+      ['name', 'notes'],
+      ['Café "De Zon"', 'line one\nline two'],
+    ])
+  })
+
+  it('skips blank lines and a byte order mark', () => {
+    expect(parseCsvRows('\uFEFFa,b\n\n1,2\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ])
+  })
+})
+
+describe('parseCsv', () => {
+  it('keys rows by trimmed header and fills missing cells', () => {
+    expect(parseCsv(' code , lat \n1012AB\n')).toEqual({
+      headers: ['code', 'lat'],
+      rows: [{ code: '1012AB', lat: '' }],
+    })
+  })
+})
+
+describe('formatCsv', () => {
+  it('quotes fields with delimiters, quotes and line breaks', () => {
+    const text = formatCsv(['name', 'notes', 'count'], [['Café "De Zon"', 'a,b\nc', 3], ['Plain', null, true]])
+
+    expect(text).toBe('name,notes,count\r\n"Café ""De Zon""","a,b\nc",3\r\nPlain,,true\r\n')
+  })
+
+  it('round-trips through the parser', () => {
+    const text = formatCsv(['a', 'b'], [['x;y', '"quoted"']], ';')
+
+    expect(parseCsvRows(text, ';')).toEqual([
+      ['a', 'b'],
+      ['x;y', '"quoted"'],
+    ])
+  })
+})
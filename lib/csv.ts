@@ -0,0 +1,143 @@
+/**
+ * CSV Parsing and Writing
+ * =======================
+ * Minimal RFC 4180 parser for operator uploads (quoted fields, escaped
+ * quotes, CRLF line endings). Spreadsheet exports in Dutch and French
+ * locales use `;` as separator, so the delimiter is detected from the
+ * header line when not given. The writer produces comma-separated files
+ * for data exports.
+ *
+ * @module lib/csv
+ */
+
+/**
+ * Parsed CSV file with a header row
+ */
+export interface CsvTable {
+  /** Column names from the first row, trimmed */
+  headers: string[]
+  /** Data rows keyed by header; missing cells are empty strings */
+  rows: Record<string, string>[]
+}
+
+/**
+ * Detect the field delimiter from the first line of a file
+ *
+ * @param text - CSV text
+ * @returns `;`, a tab, or `,` (default)
+ */
+export function detectCsvDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ''
+  const count = (char: string) => firstLine.split(char).length - 1
+
+  const candidates = [',', ';', '\t']
+  return candidates.reduce((best, char) => (count(char) > count(best) ? char : best), ',')
+}
+
+/**
+ * Split CSV text into rows of fields
+ *
+ * Blank lines are skipped. A leading byte order mark is removed.
+ *
+ * @param text - CSV text
+ * @param delimiter - Field delimiter (detected when omitted)
+ * @returns Rows of raw field values
+ */
+export function parseCsvRows(text: string, delimiter = detectCsvDelimiter(text)): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row)
+    }
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++
+      }
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
+
+/**
+ * Parse CSV text with a header row into records
+ *
+ * @param text - CSV text
+ * @param delimiter - Field delimiter (detected when omitted)
+ * @returns Headers and rows keyed by header
+ */
+export function parseCsv(text: string, delimiter?: string): CsvTable {
+  const [headerRow, ...dataRows] = parseCsvRows(text, delimiter)
+  const headers = (headerRow ?? []).map((header) => header.trim())
+
+  const rows = dataRows.map((cells) =>
+    Object.fromEntries(headers.map((header, index) => [header, (cells[index] ?? '').trim()]))
+  )
+
+  return { headers, rows }
+}
+
+/**
+ * Value written to a CSV cell; null and undefined become empty cells
+ */
+export type CsvValue = string | number | boolean | null | undefined
+
+/**
+ * Quote a field when it contains the delimiter, a quote or a line break
+ */
+function formatCsvField(value: CsvValue, delimiter: string): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * Write rows as CSV text with CRLF line endings
+ *
+ * @param headers - Column names
+ * @param rows - Data rows, in header order
+ * @param delimiter - Field delimiter (default `,`)
+ * @returns CSV text
+ */
+export function formatCsv(headers: string[], rows: CsvValue[][], delimiter = ','): string {
+  return [headers, ...rows]
+    .map((row) => row.map((value) => formatCsvField(value, delimiter)).join(delimiter))
+    .map((line) => `${line}\r\n`)
+    .join('')
+}
@@ -197,6 +197,24 @@ describe('Database Client Functions', () => {
       )
     })
 
+    it('should name the audit actor in an uncached admin client', async () => {
+      const { getDatabaseAdminClient } = await import('./client')
+
+      mockCreateClient.mockClear()
+
+      getDatabaseAdminClient('system', { actorId: 'user-1' })
+      getDatabaseAdminClient('system', { actorId: 'user-1' })
+
+      expect(mockCreateClient).toHaveBeenCalledTimes(2)
+      expect(mockCreateClient).toHaveBeenCalledWith(
+        'http://localhost:54331',
+        'test-service-role-key',
+        expect.objectContaining({
+          global: { headers: { 'x-city-slug': 'system', 'x-audit-actor': 'user-1' } },
+        })
+      )
+    })
+
     it('should validate city slug before creating admin client', async () => {
       const { getDatabaseAdminClient } = await import('./client')
       expect(() => getDatabaseAdminClient('invalid slug!')).toThrow(
@@ -9,6 +9,7 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { AUDIT_ACTOR_HEADER } from '@/lib/audit/events'
 
 /**
  * Database configuration for different environments
@@ -126,16 +127,38 @@ export function getDatabaseClient(citySlug: string): SupabaseClient {
  * ⚠️ WARNING: Service role has admin access to ALL cities.
  * Only use this in secure server-side contexts.
  *
+ * Writes are recorded in the audit log without an actor unless
+ * `options.actorId` names the signed-in user they are made for; such
+ * clients are not cached.
+ *
  * @param citySlug - The slug of the city (for consistency with getDatabaseClient)
+ * @param options - Optional settings
+ * @param options.actorId - ID of the user recorded as the actor of writes
  * @returns SupabaseClient with service role
  *
  * @example
  * const supabase = getDatabaseAdminClient('amsterdam')
  * await supabase.auth.admin.createUser({ email: '...' })
  */
-export function getDatabaseAdminClient(citySlug: string): SupabaseClient {
+export function getDatabaseAdminClient(citySlug: string, options: { actorId?: string } = {}): SupabaseClient {
   validateCitySlug(citySlug)
 
+  if (options.actorId) {
+    return createClient(DEFAULT_DATABASE_CONFIG.url, DEFAULT_DATABASE_CONFIG.serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+        detectSessionInUrl: false,
+      },
+      global: {
+        headers: {
+          'x-city-slug': citySlug,
+          [AUDIT_ACTOR_HEADER]: options.actorId,
+        },
+      },
+    })
+  }
+
   // Check cache first
   const cacheKey = `${citySlug}-${DEFAULT_DATABASE_CONFIG.url}-admin`
   if (adminClientCache.has(cacheKey)) {
@@ -0,0 +1,335 @@
+/**
+ * City Data Export
+ * ================
+ * Loads everything a city has published or drafted, in every locale, for
+ * the admin data export: languages with their translations and taxonomy
+ * assignments, language points, descriptions, districts and neighborhoods.
+ *
+ * Rows are reshaped into plain records with names keyed by locale code, so
+ * the CSV, XLSX, GeoJSON and JSON-LD formatters share one model.
+ *
+ * @module lib/export/data
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { toNumber } from '@/lib/map/bounds'
+
+/**
+ * Names or texts keyed by locale code
+ */
+export type LocalizedText = Record<string, string>
+
+/**
+ * Exported language
+ */
+export interface ExportLanguage {
+  id: string
+  isoCode: string | null
+  endonym: string | null
+  speakerCount: number | null
+  names: LocalizedText
+  family: { slug: string; names: LocalizedText } | null
+  country: { isoCode2: string; isoCode3: string; names: LocalizedText } | null
+  /** Taxonomy type slug and value slug of each assignment */
+  taxonomies: Array<{ type: string; value: string }>
+}
+
+/**
+ * Exported language point
+ */
+export interface ExportPoint {
+  id: string
+  languageId: string
+  neighborhoodId: string | null
+  latitude: number
+  longitude: number
+  postalCode: string | null
+  communityName: string | null
+  notes: string | null
+}
+
+/**
+ * Exported description with its text in every locale
+ */
+export interface ExportDescription {
+  id: string
+  languageId: string
+  neighborhoodId: string | null
+  isAiGenerated: boolean
+  texts: LocalizedText
+}
+
+/**
+ * Exported district
+ */
+export interface ExportDistrict {
+  id: string
+  slug: string
+  names: LocalizedText
+}
+
+/**
+ * Exported neighborhood
+ */
+export interface ExportNeighborhood {
+  id: string
+  districtId: string
+  slug: string
+  names: LocalizedText
+}
+
+/**
+ * All exported data of a city
+ */
+export interface CityExport {
+  city: { id: string; slug: string; names: LocalizedText }
+  /** Every locale that has at least one name or text, sorted */
+  locales: string[]
+  languages: ExportLanguage[]
+  points: ExportPoint[]
+  descriptions: ExportDescription[]
+  districts: ExportDistrict[]
+  neighborhoods: ExportNeighborhood[]
+}
+
+type TranslationRow = { locale_code: string; name: string }
+
+interface LanguageRow {
+  id: string
+  iso_639_3_code: string | null
+  endonym: string | null
+  speaker_count: number | null
+  translations: TranslationRow[] | null
+  language_family: { slug: string; translations: TranslationRow[] | null } | null
+  country_of_origin: { iso_code_2: string; iso_code_3: string; translations: TranslationRow[] | null } | null
+  language_taxonomies: Array<{
+    taxonomy_value: { slug: string; taxonomy_type: { slug: string } | null } | null
+  }> | null
+}
+
+interface PointRow {
+  id: string
+  language_id: string
+  neighborhood_id: string | null
+  latitude: number | string
+  longitude: number | string
+  postal_code: string | null
+  community_name: string | null
+  notes: string | null
+}
+
+interface DescriptionRow {
+  id: string
+  language_id: string
+  neighborhood_id: string | null
+  is_ai_generated: boolean
+  translations: Array<{ locale: string; text: string }> | null
+}
+
+/**
+ * Throw a descriptive error for a failed query
+ */
+function check(error: { message: string } | null, action: string): void {
+  if (error) {
+    throw new Error(`Failed to ${action}: ${error.message}`)
+  }
+}
+
+/**
+ * Key translation rows by locale code
+ */
+function toLocalizedText(rows: TranslationRow[] | null | undefined): LocalizedText {
+  return Object.fromEntries((rows ?? []).map((row) => [row.locale_code, row.name]))
+}
+
+/**
+ * Collect the locales used by any name or text, sorted
+ */
+function collectLocales(texts: LocalizedText[]): string[] {
+  return [...new Set(texts.flatMap((text) => Object.keys(text)))].sort()
+}
+
+/**
+ * Load all data of a city for export
+ *
+ * Use a client that can read unpublished rows (an admin's session or the
+ * service role); the export is meant to be complete.
+ *
+ * @async
+ * @param supabase - Supabase client
+ * @param citySlug - City identifier slug (e.g., 'amsterdam')
+ * @returns Promise resolving to the city's data, or null if the city does not exist
+ * @throws {Error} If a query fails
+ */
+export async function loadCityExport(supabase: SupabaseClient, citySlug: string): Promise<CityExport | null> {
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id, slug, translations:city_translations (locale_code, name)')
+    .eq('slug', citySlug)
+    .maybeSingle()
+  check(cityError, 'load city')
+
+  if (!city) {
+    return null
+  }
+
+  const [languages, points, descriptions, districts] = await Promise.all([
+    supabase
+      .from('languages')
+      .select(`
+        id,
+        iso_639_3_code,
+        endonym,
+        speaker_count,
+        translations:language_translations (locale_code, name),
+        language_family:language_families (
+          slug,
+          translations:language_family_translations (locale_code, name)
+        ),
+        country_of_origin:countries (
+          iso_code_2,
+          iso_code_3,
+          translations:country_translations (locale_code, name)
+        ),
+        language_taxonomies (
+          taxonomy_value:taxonomy_values!inner (
+            slug,
+            taxonomy_type:taxonomy_types (slug)
+          )
+        )
+      `)
+      .eq('city_id', city.id)
+      .is('deleted_at', null)
+      .is('language_taxonomies.taxonomy_value.deleted_at', null)
+      .order('endonym'),
+    supabase
+      .from('language_points')
+      .select(`
+        id,
+        language_id,
+        neighborhood_id,
+        latitude,
+        longitude,
+        postal_code,
+        community_name,
+        notes,
+        language:languages!inner (city_id)
+      `)
+      .eq('language.city_id', city.id)
+      .is('deleted_at', null)
+      .order('created_at'),
+    supabase
+      .from('descriptions')
+      .select('id, language_id, neighborhood_id, is_ai_generated, translations:description_translations (locale, text)')
+      .eq('city_id', city.id)
+      .is('deleted_at', null)
+      .order('created_at'),
+    supabase
+      .from('districts')
+      .select('id, slug, translations:district_translations (locale_code, name)')
+      .eq('city_id', city.id)
+      .is('deleted_at', null)
+      .order('slug'),
+  ])
+
+  check(languages.error, 'load languages')
+  check(points.error, 'load language points')
+  check(descriptions.error, 'load descriptions')
+  check(districts.error, 'load districts')
+
+  const districtRows = (districts.data ?? []) as Array<{ id: string; slug: string; translations: TranslationRow[] | null }>
+  let neighborhoodRows: Array<{ id: string; district_id: string; slug: string; translations: TranslationRow[] | null }> = []
+
+  if (districtRows.length > 0) {
+    const { data, error } = await supabase
+      .from('neighborhoods')
+      .select('id, district_id, slug, translations:neighborhood_translations (locale_code, name)')
+      .in('district_id', districtRows.map((district) => district.id))
+      .is('deleted_at', null)
+      .order('slug')
+    check(error, 'load neighborhoods')
+    neighborhoodRows = data ?? []
+  }
+
+  const exportedLanguages: ExportLanguage[] = ((languages.data ?? []) as unknown as LanguageRow[]).map((language) => ({
+    id: language.id,
+    isoCode: language.iso_639_3_code,
+    endonym: language.endonym,
+    speakerCount: language.speaker_count,
+    names: toLocalizedText(language.translations),
+    family: language.language_family
+      ? { slug: language.language_family.slug, names: toLocalizedText(language.language_family.translations) }
+      : null,
+    country: language.country_of_origin
+      ? {
+          isoCode2: language.country_of_origin.iso_code_2,
+          isoCode3: language.country_of_origin.iso_code_3,
+          names: toLocalizedText(language.country_of_origin.translations),
+        }
+      : null,
+    taxonomies: (language.language_taxonomies ?? []).flatMap(({ taxonomy_value: value }) =>
+      value?.taxonomy_type ? [{ type: value.taxonomy_type.slug, value: value.slug }] : []
+    ),
+  }))
+
+  // Points keep the ID of a trashed neighborhood, which is not exported
+  const neighborhoodIds = new Set(neighborhoodRows.map((neighborhood) => neighborhood.id))
+
+  const exportedPoints: ExportPoint[] = ((points.data ?? []) as unknown as PointRow[]).flatMap((point) => {
+    const latitude = toNumber(point.latitude)
+    const longitude = toNumber(point.longitude)
+    if (latitude === null || longitude === null) {
+      return []
+    }
+
+    return [{
+      id: point.id,
+      languageId: point.language_id,
+      neighborhoodId: point.neighborhood_id && neighborhoodIds.has(point.neighborhood_id) ? point.neighborhood_id : null,
+      latitude,
+      longitude,
+      postalCode: point.postal_code,
+      communityName: point.community_name,
+      notes: point.notes,
+    }]
+  })
+
+  const exportedDescriptions: ExportDescription[] = ((descriptions.data ?? []) as DescriptionRow[]).map((description) => ({
+    id: description.id,
+    languageId: description.language_id,
+    neighborhoodId: description.neighborhood_id,
+    isAiGenerated: description.is_ai_generated,
+    texts: Object.fromEntries((description.translations ?? []).map((row) => [row.locale, row.text])),
+  }))
+
+  const exportedDistricts: ExportDistrict[] = districtRows.map((district) => ({
+    id: district.id,
+    slug: district.slug,
+    names: toLocalizedText(district.translations),
+  }))
+
+  const exportedNeighborhoods: ExportNeighborhood[] = neighborhoodRows.map((neighborhood) => ({
+    id: neighborhood.id,
+    districtId: neighborhood.district_id,
+    slug: neighborhood.slug,
+    names: toLocalizedText(neighborhood.translations),
+  }))
+
+  const cityNames = toLocalizedText(city.translations as TranslationRow[] | null)
+
+  return {
+    city: { id: city.id, slug: city.slug, names: cityNames },
+    locales: collectLocales([
+      cityNames,
+      ...exportedLanguages.map((language) => language.names),
+      ...exportedDescriptions.map((description) => description.texts),
+      ...exportedDistricts.map((district) => district.names),
+      ...exportedNeighborhoods.map((neighborhood) => neighborhood.names),
+    ]),
+    languages: exportedLanguages,
+    points: exportedPoints,
+    descriptions: exportedDescriptions,
+    districts: exportedDistricts,
+    neighborhoods: exportedNeighborhoods,
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * @file formats.test.ts
+ * @description Unit tests for writing a city export as CSV, XLSX, GeoJSON and JSON-LD.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseCsv } from '@/lib/csv'
+import type { CityExport } from './data'
+import { toExportTable, toExportTables } from './tables'
+import { toExportCsv, toExportGeoJson, toExportJsonLd, toExportXlsx } from './formats'
+
+const CITY_DATA: CityExport = {
+  city: { id: 'city-1', slug: 'amsterdam', names: { en: 'Amsterdam', nl: 'Amsterdam' } },
+  locales: ['en', 'nl'],
+  languages: [
+    {
+      id: 'lang-1',
+      isoCode: 'ber',
+      endonym: 'Tamaziɣt',
+      speakerCount: 1200,
+      names: { en: 'Berber', nl: 'Berbers' },
+      family: { slug: 'afro-asiatic', names: { en: 'Afro-Asiatic' } },
+      country: { isoCode2: 'MA', isoCode3: 'MAR', names: { en: 'Morocco' } },
+      taxonomies: [
+        { type: 'size', value: 'large' },
+        { type: 'status', value: 'community' },
+        { type: 'status', value: 'reviving' },
+      ],
+    },
+    {
+      id: 'lang-2',
+      isoCode: null,
+      endonym: 'Sranantongo',
+      speakerCount: null,
+      names: { en: 'Sranan Tongo' },
+      family: null,
+      country: null,
+      taxonomies: [],
+    },
+  ],
+  points: [
+    {
+      id: 'point-1',
+      languageId: 'lang-1',
+      neighborhoodId: 'nb-1',
+      latitude: 52.37,
+      longitude: 4.89,
+      postalCode: '1012AB',
+      communityName: 'Community, "West"',
+      notes: 'Line one\nLine two',
+    },
+    {
+      id: 'point-2',
+      languageId: 'lang-2',
+      neighborhoodId: null,
+      latitude: 52.35,
+      longitude: 4.91,
+      postalCode: null,
+      communityName: null,
+      notes: null,
+    },
+  ],
+  descriptions: [
+    { id: 'desc-1', languageId: 'lang-1', neighborhoodId: 'nb-1', isAiGenerated: false, texts: { nl: 'Tekst' } },
+  ],
+  districts: [{ id: 'district-1', slug: 'centrum', names: { en: 'Centre', nl: 'Centrum' } }],
+  neighborhoods: [{ id: 'nb-1', districtId: 'district-1', slug: 'jordaan', names: { en: 'Jordaan' } }],
+}
+
+describe('toExportCsv', () => {
+  it('writes a table that parses back to the same values', () => {
+    const csv = toExportCsv(toExportTable(CITY_DATA, 'language_points'))
+    const { rows } = parseCsv(csv, ',')
+
+    expect(csv.startsWith('\uFEFFid,language_id,')).toBe(true)
+    expect(rows[0]).toMatchObject({
+      community_name: 'Community, "West"',
+      notes: 'Line one\nLine two',
+      latitude: '52.37',
+    })
+    expect(rows[1].notes).toBe('')
+  })
+})
+
+describe('toExportXlsx', () => {
+  it('writes a workbook', async () => {
+    const buffer = await toExportXlsx(toExportTables(CITY_DATA))
+
+    // XLSX files are ZIP archives
+    expect(buffer.subarray(0, 2).toString()).toBe('PK')
+  })
+})
+
+describe('toExportGeoJson', () => {
+  it('writes one feature per point with all properties', () => {
+    const geojson = toExportGeoJson(CITY_DATA)
+
+    expect(geojson.features).toHaveLength(2)
+    expect(geojson.features[0].geometry.coordinates).toEqual([4.89, 52.37])
+    expect(geojson.features[0].properties).toMatchObject({
+      languageId: 'lang-1',
+      names: { en: 'Berber', nl: 'Berbers' },
+      familySlug: 'afro-asiatic',
+      countryCode: 'MA',
+      speakerCount: 1200,
+      taxonomies: { size: ['large'], status: ['community', 'reviving'] },
+      neighborhoodSlug: 'jordaan',
+      districtSlug: 'centrum',
+      notes: 'Line one\nLine two',
+    })
+    expect(geojson.features[1].properties).toMatchObject({ neighborhoodSlug: null, districtSlug: null, taxonomies: {} })
+  })
+})
+
+describe('toExportJsonLd', () => {
+  const document = toExportJsonLd(CITY_DATA, {
+    url: 'https://example.org/api/en/amsterdam/export?format=jsonld',
+    exportedAt: new Date('2025-11-17T10:00:00Z'),
+  })
+  const graph = document['@graph'] as Array<Record<string, unknown>>
+  const node = (id: string) => graph.find((item) => item['@id'] === `urn:uuid:${id}`)
+
+  it('describes the dataset', () => {
+    expect(document['@context']).toBe('https://schema.org/')
+    expect(graph[0]).toMatchObject({
+      '@type': 'Dataset',
+      name: 'Language map of Amsterdam',
+      dateModified: '2025-11-17T10:00:00.000Z',
+      spatialCoverage: { '@id': 'urn:uuid:city-1' },
+    })
+  })
+
+  it('writes languages with language-tagged names and an ISO 639-3 link', () => {
+    expect(node('lang-1')).toMatchObject({
+      '@type': 'Language',
+      name: [
+        { '@value': 'Berber', '@language': 'en' },
+        { '@value': 'Berbers', '@language': 'nl' },
+      ],
+      alternateName: 'Tamaziɣt',
+      sameAs: 'https://iso639-3.sil.org/code/ber',
+    })
+    expect(node('lang-2')).not.toHaveProperty('sameAs')
+  })
+
+  it('links points to their language and place', () => {
+    expect(node('point-1')).toMatchObject({
+      geo: { '@type': 'GeoCoordinates', latitude: 52.37, longitude: 4.89 },
+      containedInPlace: { '@id': 'urn:uuid:nb-1' },
+      knowsLanguage: { '@id': 'urn:uuid:lang-1' },
+    })
+    expect(node('point-2')).toMatchObject({ containedInPlace: { '@id': 'urn:uuid:city-1' } })
+    expect(node('nb-1')).toMatchObject({ containedInPlace: { '@id': 'urn:uuid:district-1' } })
+    expect(node('desc-1')).toMatchObject({ about: { '@id': 'urn:uuid:lang-1' } })
+  })
+})
@@ -0,0 +1,271 @@
+/**
+ * Export Formats
+ * ==============
+ * Writes a city export as CSV (one table per file), XLSX (one sheet per
+ * table), GeoJSON (language points with all their properties) or JSON-LD
+ * (a schema.org graph linking languages, places and descriptions).
+ *
+ * @module lib/export/formats
+ */
+
+import writeXlsxFile from 'write-excel-file/node'
+import { formatCsv } from '@/lib/csv'
+import type { CityExport, LocalizedText } from './data'
+import type { ExportTable } from './tables'
+
+/**
+ * Supported export formats
+ */
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'geojson', 'jsonld'] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+/**
+ * Content type and file extension per format
+ */
+export const EXPORT_FORMAT_FILES: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  },
+  geojson: { contentType: 'application/geo+json', extension: 'geojson' },
+  jsonld: { contentType: 'application/ld+json', extension: 'jsonld' },
+}
+
+/**
+ * Language point feature of the GeoJSON export
+ */
+export interface ExportPointFeature {
+  type: 'Feature'
+  geometry: { type: 'Point'; coordinates: [number, number] }
+  properties: {
+    id: string
+    languageId: string
+    isoCode: string | null
+    endonym: string | null
+    names: LocalizedText
+    familySlug: string | null
+    familyNames: LocalizedText
+    countryCode: string | null
+    countryNames: LocalizedText
+    speakerCount: number | null
+    /** Value slugs per taxonomy type slug */
+    taxonomies: Record<string, string[]>
+    neighborhoodSlug: string | null
+    neighborhoodNames: LocalizedText
+    districtSlug: string | null
+    postalCode: string | null
+    communityName: string | null
+    notes: string | null
+  }
+}
+
+/**
+ * GeoJSON export
+ */
+export interface ExportFeatureCollection {
+  type: 'FeatureCollection'
+  features: ExportPointFeature[]
+}
+
+/**
+ * Check whether a string names an export format
+ *
+ * @param value - Candidate format
+ * @returns True if `value` is one of `EXPORT_FORMATS`
+ */
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
+/**
+ * Write a table as CSV
+ *
+ * Starts with a byte order mark so spreadsheet applications read UTF-8.
+ *
+ * @param table - Export table
+ * @returns CSV text
+ */
+export function toExportCsv(table: ExportTable): string {
+  return `\uFEFF${formatCsv(table.headers, table.rows)}`
+}
+
+/**
+ * Write tables as an XLSX workbook with one sheet per table
+ *
+ * @async
+ * @param tables - Export tables
+ * @returns Promise resolving to the workbook file contents
+ */
+export async function toExportXlsx(tables: ExportTable[]): Promise<Buffer> {
+  return writeXlsxFile(
+    tables.map((table) => ({
+      sheet: table.name,
+      stickyRowsCount: 1,
+      data: [
+        table.headers.map((header) => ({ value: header, fontWeight: 'bold' as const })),
+        ...table.rows,
+      ],
+    }))
+  ).toBuffer()
+}
+
+/**
+ * Write the language points as GeoJSON
+ *
+ * @param data - City export
+ * @returns FeatureCollection with one feature per point
+ */
+export function toExportGeoJson(data: CityExport): ExportFeatureCollection {
+  const languages = new Map(data.languages.map((language) => [language.id, language]))
+  const districts = new Map(data.districts.map((district) => [district.id, district]))
+  const neighborhoods = new Map(data.neighborhoods.map((neighborhood) => [neighborhood.id, neighborhood]))
+
+  return {
+    type: 'FeatureCollection',
+    features: data.points.map((point) => {
+      const language = languages.get(point.languageId)
+      const neighborhood = point.neighborhoodId ? neighborhoods.get(point.neighborhoodId) : undefined
+      const taxonomies: Record<string, string[]> = {}
+      for (const { type, value } of language?.taxonomies ?? []) {
+        taxonomies[type] = [...(taxonomies[type] ?? []), value]
+      }
+
+      return {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [point.longitude, point.latitude] },
+        properties: {
+          id: point.id,
+          languageId: point.languageId,
+          isoCode: language?.isoCode ?? null,
+          endonym: language?.endonym ?? null,
+          names: language?.names ?? {},
+          familySlug: language?.family?.slug ?? null,
+          familyNames: language?.family?.names ?? {},
+          countryCode: language?.country?.isoCode2 ?? null,
+          countryNames: language?.country?.names ?? {},
+          speakerCount: language?.speakerCount ?? null,
+          taxonomies,
+          neighborhoodSlug: neighborhood?.slug ?? null,
+          neighborhoodNames: neighborhood?.names ?? {},
+          districtSlug: (neighborhood && districts.get(neighborhood.districtId)?.slug) || null,
+          postalCode: point.postalCode,
+          communityName: point.communityName,
+          notes: point.notes,
+        },
+      }
+    }),
+  }
+}
+
+/**
+ * Node identifier of an exported row
+ */
+function nodeId(id: string): { '@id': string } {
+  return { '@id': `urn:uuid:${id}` }
+}
+
+/**
+ * Localized text as language-tagged JSON-LD values
+ */
+function languageTagged(text: LocalizedText): Array<{ '@value': string; '@language': string }> {
+  return Object.entries(text).map(([locale, value]) => ({ '@value': value, '@language': locale }))
+}
+
+/**
+ * schema.org PropertyValue
+ */
+function propertyValue(propertyID: string, value: string | number) {
+  return { '@type': 'PropertyValue', propertyID, value }
+}
+
+/**
+ * Write the export as a JSON-LD graph using schema.org terms
+ *
+ * Nodes are identified by `urn:uuid:` of their row ID. Languages link to
+ * their ISO 639-3 entry; language points are places that `knowsLanguage`
+ * their language and are `containedInPlace` of their neighborhood (or the
+ * city); districts and neighborhoods nest the same way. Descriptions are
+ * creative works `about` a language.
+ *
+ * @param data - City export
+ * @param options - Dataset URL and export time
+ * @returns JSON-LD document
+ */
+export function toExportJsonLd(data: CityExport, options: { url: string; exportedAt: Date }) {
+  const cityNode = nodeId(data.city.id)
+
+  const languages = data.languages.map((language) => ({
+    '@type': 'Language',
+    ...nodeId(language.id),
+    name: languageTagged(language.names),
+    ...(language.endonym && { alternateName: language.endonym }),
+    ...(language.isoCode && {
+      identifier: language.isoCode,
+      sameAs: `https://iso639-3.sil.org/code/${language.isoCode}`,
+    }),
+    additionalProperty: [
+      ...(language.family ? [propertyValue('languageFamily', language.family.slug)] : []),
+      ...(language.country ? [propertyValue('countryOfOrigin', language.country.isoCode2)] : []),
+      ...(language.speakerCount !== null ? [propertyValue('speakerCount', language.speakerCount)] : []),
+      ...language.taxonomies.map(({ type, value }) => propertyValue(type, value)),
+    ],
+  }))
+
+  const districts = data.districts.map((district) => ({
+    '@type': 'AdministrativeArea',
+    ...nodeId(district.id),
+    identifier: district.slug,
+    name: languageTagged(district.names),
+    containedInPlace: cityNode,
+  }))
+
+  const neighborhoods = data.neighborhoods.map((neighborhood) => ({
+    '@type': 'Place',
+    ...nodeId(neighborhood.id),
+    identifier: neighborhood.slug,
+    name: languageTagged(neighborhood.names),
+    containedInPlace: nodeId(neighborhood.districtId),
+  }))
+
+  const points = data.points.map((point) => ({
+    '@type': 'Place',
+    ...nodeId(point.id),
+    ...(point.communityName && { name: point.communityName }),
+    ...(point.notes && { description: point.notes }),
+    geo: { '@type': 'GeoCoordinates', latitude: point.latitude, longitude: point.longitude },
+    ...(point.postalCode && { address: { '@type': 'PostalAddress', postalCode: point.postalCode } }),
+    containedInPlace: point.neighborhoodId ? nodeId(point.neighborhoodId) : cityNode,
+    knowsLanguage: nodeId(point.languageId),
+  }))
+
+  const descriptions = data.descriptions.map((description) => ({
+    '@type': 'CreativeWork',
+    ...nodeId(description.id),
+    about: nodeId(description.languageId),
+    ...(description.neighborhoodId && { contentLocation: nodeId(description.neighborhoodId) }),
+    text: languageTagged(description.texts),
+  }))
+
+  return {
+    '@context': 'https://schema.org/',
+    '@graph': [
+      {
+        '@type': 'Dataset',
+        '@id': options.url,
+        name: `Language map of ${data.city.names.en ?? data.city.slug}`,
+        url: options.url,
+        dateModified: options.exportedAt.toISOString(),
+        spatialCoverage: cityNode,
+        inLanguage: data.locales,
+      },
+      { '@type': 'City', ...cityNode, identifier: data.city.slug, name: languageTagged(data.city.names) },
+      ...languages,
+      ...districts,
+      ...neighborhoods,
+      ...points,
+      ...descriptions,
+    ],
+  }
+}
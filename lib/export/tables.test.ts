@@ -0,0 +1,136 @@
+/**
+ * @file tables.test.ts
+ * @description Unit tests for flattening a city export into CSV/XLSX tables.
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { CityExport } from './data'
+import { EXPORT_TABLES, isExportTableName, toExportTable, toExportTables } from './tables'
+
+const CITY_DATA: CityExport = {
+  city: { id: 'city-1', slug: 'amsterdam', names: { en: 'Amsterdam', nl: 'Amsterdam' } },
+  locales: ['en', 'nl'],
+  languages: [
+    {
+      id: 'lang-1',
+      isoCode: 'ber',
+      endonym: 'Tamaziɣt',
+      speakerCount: 1200,
+      names: { en: 'Berber', nl: 'Berbers' },
+      family: { slug: 'afro-asiatic', names: { en: 'Afro-Asiatic' } },
+      country: { isoCode2: 'MA', isoCode3: 'MAR', names: { en: 'Morocco' } },
+      taxonomies: [
+        { type: 'size', value: 'large' },
+        { type: 'status', value: 'community' },
+        { type: 'status', value: 'reviving' },
+      ],
+    },
+    {
+      id: 'lang-2',
+      isoCode: null,
+      endonym: 'Sranantongo',
+      speakerCount: null,
+      names: { en: 'Sranan Tongo' },
+      family: null,
+      country: null,
+      taxonomies: [],
+    },
+  ],
+  points: [
+    {
+      id: 'point-1',
+      languageId: 'lang-1',
+      neighborhoodId: 'nb-1',
+      latitude: 52.37,
+      longitude: 4.89,
+      postalCode: '1012AB',
+      communityName: 'Community, "West"',
+      notes: 'Line one\nLine two',
+    },
+    {
+      id: 'point-2',
+      languageId: 'lang-2',
+      neighborhoodId: null,
+      latitude: 52.35,
+      longitude: 4.91,
+      postalCode: null,
+      communityName: null,
+      notes: null,
+    },
+  ],
+  descriptions: [
+    { id: 'desc-1', languageId: 'lang-1', neighborhoodId: 'nb-1', isAiGenerated: false, texts: { nl: 'Tekst' } },
+  ],
+  districts: [{ id: 'district-1', slug: 'centrum', names: { en: 'Centre', nl: 'Centrum' } }],
+  neighborhoods: [{ id: 'nb-1', districtId: 'district-1', slug: 'jordaan', names: { en: 'Jordaan' } }],
+}
+
+describe('toExportTable', () => {
+  it('writes language names per locale and taxonomy values per type', () => {
+    const table = toExportTable(CITY_DATA, 'languages')
+
+    expect(table.headers).toEqual([
+      'id',
+      'iso_639_3_code',
+      'endonym',
+      'name_en',
+      'name_nl',
+      'language_family',
+      'country_of_origin',
+      'speaker_count',
+      'taxonomy_size',
+      'taxonomy_status',
+    ])
+    expect(table.rows).toEqual([
+      ['lang-1', 'ber', 'Tamaziɣt', 'Berber', 'Berbers', 'afro-asiatic', 'MA', 1200, 'large', 'community|reviving'],
+      ['lang-2', null, 'Sranantongo', 'Sranan Tongo', null, null, null, null, null, null],
+    ])
+  })
+
+  it('writes points with their language, neighborhood, district and notes', () => {
+    const table = toExportTable(CITY_DATA, 'language_points')
+    const row = Object.fromEntries(table.headers.map((header, index) => [header, table.rows[0][index]]))
+
+    expect(row).toMatchObject({
+      id: 'point-1',
+      language_id: 'lang-1',
+      iso_639_3_code: 'ber',
+      language_name_nl: 'Berbers',
+      latitude: 52.37,
+      longitude: 4.89,
+      neighborhood: 'jordaan',
+      district: 'centrum',
+      language_family: 'afro-asiatic',
+      country_of_origin: 'MA',
+      speaker_count: 1200,
+      notes: 'Line one\nLine two',
+    })
+    expect(table.rows[1]).toContain('point-2')
+  })
+
+  it('writes description texts per locale', () => {
+    const table = toExportTable(CITY_DATA, 'descriptions')
+
+    expect(table.headers).toEqual(['id', 'language_id', 'endonym', 'neighborhood', 'is_ai_generated', 'text_en', 'text_nl'])
+    expect(table.rows).toEqual([['desc-1', 'lang-1', 'Tamaziɣt', 'jordaan', false, null, 'Tekst']])
+  })
+
+  it('writes neighborhoods with their district', () => {
+    expect(toExportTable(CITY_DATA, 'neighborhoods').rows).toEqual([
+      ['nb-1', 'district-1', 'centrum', 'jordaan', 'Jordaan', null],
+    ])
+  })
+})
+
+describe('toExportTables', () => {
+  it('builds every table in order', () => {
+    expect(toExportTables(CITY_DATA).map((table) => table.name)).toEqual([...EXPORT_TABLES])
+  })
+})
+
+describe('isExportTableName', () => {
+  it('accepts only known tables', () => {
+    expect(isExportTableName('language_points')).toBe(true)
+    expect(isExportTableName('user_profiles')).toBe(false)
+  })
+})
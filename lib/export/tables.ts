@@ -0,0 +1,209 @@
+/**
+ * Export Tables
+ * =============
+ * Flattens a city export into the tables written to CSV files and XLSX
+ * sheets. Names and texts get one column per locale (`name_en`,
+ * `text_nl`, ...); each taxonomy type gets a column with the slugs of the
+ * assigned values. Related rows are referenced by ID, with the slug or
+ * code next to it for readability.
+ *
+ * @module lib/export/tables
+ */
+
+import type { CityExport, LocalizedText } from './data'
+
+/**
+ * Tables in an export, in sheet order
+ */
+export const EXPORT_TABLES = ['languages', 'language_points', 'descriptions', 'districts', 'neighborhoods'] as const
+
+export type ExportTableName = (typeof EXPORT_TABLES)[number]
+
+/**
+ * Value of an exported cell
+ */
+export type ExportCell = string | number | boolean | null
+
+/**
+ * One exported table
+ */
+export interface ExportTable {
+  name: ExportTableName
+  headers: string[]
+  rows: ExportCell[][]
+}
+
+/**
+ * Separator between multiple taxonomy values in one cell
+ */
+const MULTI_VALUE_SEPARATOR = '|'
+
+/**
+ * Check whether a string names an export table
+ *
+ * @param value - Candidate table name
+ * @returns True if `value` is one of `EXPORT_TABLES`
+ */
+export function isExportTableName(value: string): value is ExportTableName {
+  return (EXPORT_TABLES as readonly string[]).includes(value)
+}
+
+/**
+ * Values of localized text in locale order, empty where missing
+ */
+function localized(text: LocalizedText | undefined, locales: string[]): ExportCell[] {
+  return locales.map((locale) => text?.[locale] ?? null)
+}
+
+/**
+ * Column names for localized text
+ */
+function localizedHeaders(prefix: string, locales: string[]): string[] {
+  return locales.map((locale) => `${prefix}_${locale}`)
+}
+
+/**
+ * Build one export table
+ *
+ * @param data - City export
+ * @param name - Table to build
+ * @returns Headers and rows of the table
+ */
+export function toExportTable(data: CityExport, name: ExportTableName): ExportTable {
+  const { locales } = data
+  const languages = new Map(data.languages.map((language) => [language.id, language]))
+  const districts = new Map(data.districts.map((district) => [district.id, district]))
+  const neighborhoods = new Map(data.neighborhoods.map((neighborhood) => [neighborhood.id, neighborhood]))
+
+  switch (name) {
+    case 'languages': {
+      const taxonomyTypes = [...new Set(data.languages.flatMap((language) => language.taxonomies.map(({ type }) => type)))].sort()
+
+      return {
+        name,
+        headers: [
+          'id',
+          'iso_639_3_code',
+          'endonym',
+          ...localizedHeaders('name', locales),
+          'language_family',
+          'country_of_origin',
+          'speaker_count',
+          ...taxonomyTypes.map((type) => `taxonomy_${type}`),
+        ],
+        rows: data.languages.map((language) => [
+          language.id,
+          language.isoCode,
+          language.endonym,
+          ...localized(language.names, locales),
+          language.family?.slug ?? null,
+          language.country?.isoCode2 ?? null,
+          language.speakerCount,
+          ...taxonomyTypes.map(
+            (type) =>
+              language.taxonomies
+                .filter((taxonomy) => taxonomy.type === type)
+                .map((taxonomy) => taxonomy.value)
+                .join(MULTI_VALUE_SEPARATOR) || null
+          ),
+        ]),
+      }
+    }
+
+    case 'language_points':
+      return {
+        name,
+        headers: [
+          'id',
+          'language_id',
+          'iso_639_3_code',
+          'endonym',
+          ...localizedHeaders('language_name', locales),
+          'latitude',
+          'longitude',
+          'postal_code',
+          'community_name',
+          'neighborhood',
+          'district',
+          'language_family',
+          'country_of_origin',
+          'speaker_count',
+          'notes',
+        ],
+        rows: data.points.map((point) => {
+          const language = languages.get(point.languageId)
+          const neighborhood = point.neighborhoodId ? neighborhoods.get(point.neighborhoodId) : undefined
+          const district = neighborhood ? districts.get(neighborhood.districtId) : undefined
+
+          return [
+            point.id,
+            point.languageId,
+            language?.isoCode ?? null,
+            language?.endonym ?? null,
+            ...localized(language?.names, locales),
+            point.latitude,
+            point.longitude,
+            point.postalCode,
+            point.communityName,
+            neighborhood?.slug ?? null,
+            district?.slug ?? null,
+            language?.family?.slug ?? null,
+            language?.country?.isoCode2 ?? null,
+            language?.speakerCount ?? null,
+            point.notes,
+          ]
+        }),
+      }
+
+    case 'descriptions':
+      return {
+        name,
+        headers: [
+          'id',
+          'language_id',
+          'endonym',
+          'neighborhood',
+          'is_ai_generated',
+          ...localizedHeaders('text', locales),
+        ],
+        rows: data.descriptions.map((description) => [
+          description.id,
+          description.languageId,
+          languages.get(description.languageId)?.endonym ?? null,
+          (description.neighborhoodId && neighborhoods.get(description.neighborhoodId)?.slug) || null,
+          description.isAiGenerated,
+          ...localized(description.texts, locales),
+        ]),
+      }
+
+    case 'districts':
+      return {
+        name,
+        headers: ['id', 'slug', ...localizedHeaders('name', locales)],
+        rows: data.districts.map((district) => [district.id, district.slug, ...localized(district.names, locales)]),
+      }
+
+    case 'neighborhoods':
+      return {
+        name,
+        headers: ['id', 'district_id', 'district', 'slug', ...localizedHeaders('name', locales)],
+        rows: data.neighborhoods.map((neighborhood) => [
+          neighborhood.id,
+          neighborhood.districtId,
+          districts.get(neighborhood.districtId)?.slug ?? null,
+          neighborhood.slug,
+          ...localized(neighborhood.names, locales),
+        ]),
+      }
+  }
+}
+
+/**
+ * Build all export tables
+ *
+ * @param data - City export
+ * @returns One table per entry of `EXPORT_TABLES`
+ */
+export function toExportTables(data: CityExport): ExportTable[] {
+  return EXPORT_TABLES.map((name) => toExportTable(data, name))
+}
@@ -0,0 +1,67 @@
+/**
+ * Postal Code Centroid Storage
+ * ============================
+ * Reads the `postal_code_centroids` table for the offline geocoder.
+ *
+ * @module lib/geocoding/centroids
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { toNumber } from '@/lib/map/bounds'
+import type { PostalCodeCentroid, PostalCodeLookup } from './postal-codes'
+
+/**
+ * Row of `postal_code_centroids` (NUMERIC columns may arrive as strings)
+ */
+interface CentroidRow {
+  postal_code: string
+  latitude: number | string
+  longitude: number | string
+}
+
+/**
+ * Convert a database row to a centroid
+ *
+ * @param row - Table row
+ * @returns Centroid, or null if the coordinates are not numeric
+ */
+function toCentroid(row: CentroidRow): PostalCodeCentroid | null {
+  const latitude = toNumber(row.latitude)
+  const longitude = toNumber(row.longitude)
+
+  if (latitude === null || longitude === null) {
+    return null
+  }
+
+  return { postalCode: row.postal_code, latitude, longitude }
+}
+
+/**
+ * Create a lookup that reads centroids of one city from the database
+ *
+ * @param supabase - Supabase client (RLS applies)
+ * @param cityId - UUID of the city
+ * @returns Lookup for `createPostalCodeGeocoder`
+ * @throws {Error} From the lookup, if the query fails
+ */
+export function createDatabasePostalCodeLookup(
+  supabase: SupabaseClient,
+  cityId: string
+): PostalCodeLookup {
+  return async (postalCodes) => {
+    const { data, error } = await supabase
+      .from('postal_code_centroids')
+      .select('postal_code, latitude, longitude')
+      .eq('city_id', cityId)
+      .in('postal_code', postalCodes)
+
+    if (error) {
+      console.error('Error looking up postal code centroids:', error)
+      throw new Error('Failed to look up postal codes')
+    }
+
+    return ((data ?? []) as CentroidRow[])
+      .map(toCentroid)
+      .filter((centroid): centroid is PostalCodeCentroid => centroid !== null)
+  }
+}
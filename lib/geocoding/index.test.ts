@@ -0,0 +1,80 @@
+/**
+ * @file index.test.ts
+ * @description Unit tests for geocoder configuration and chaining.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { createChainedGeocoder, getGeocodingConfig, DEFAULT_NOMINATIM_URL } from './index'
+import type { Geocoder, GeocodingResult } from './types'
+
+const match: GeocodingResult = {
+  latitude: 52.3763,
+  longitude: 4.8971,
+  label: '1012LG',
+  postalCode: '1012LG',
+  source: 'postal-code',
+}
+
+/**
+ * Create a geocoder stub
+ */
+function stubGeocoder(geocode: Geocoder['geocode']): Geocoder {
+  return { geocode: vi.fn(geocode) }
+}
+
+describe('getGeocodingConfig', () => {
+  it('defaults to the offline postal code provider', () => {
+    expect(getGeocodingConfig({})).toMatchObject({
+      provider: 'postal-code',
+      nominatimUrl: DEFAULT_NOMINATIM_URL,
+    })
+  })
+
+  it('reads the Nominatim settings', () => {
+    expect(
+      getGeocodingConfig({
+        GEOCODING_PROVIDER: 'nominatim',
+        NOMINATIM_URL: 'https://geo.example.org',
+        NOMINATIM_USER_AGENT: 'language-map (ops@example.org)',
+      })
+    ).toEqual({
+      provider: 'nominatim',
+      nominatimUrl: 'https://geo.example.org',
+      nominatimUserAgent: 'language-map (ops@example.org)',
+    })
+  })
+})
+
+describe('createChainedGeocoder', () => {
+  it('stops at the first adapter with results', async () => {
+    const second = stubGeocoder(async () => [])
+    const geocoder = createChainedGeocoder([stubGeocoder(async () => [match]), second])
+
+    await expect(geocoder.geocode({ query: '1012LG' })).resolves.toEqual([match])
+    expect(second.geocode).not.toHaveBeenCalled()
+  })
+
+  it('falls through a failing adapter', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const geocoder = createChainedGeocoder([
+      stubGeocoder(async () => {
+        throw new Error('offline')
+      }),
+      stubGeocoder(async () => [match]),
+    ])
+
+    await expect(geocoder.geocode({ query: '1012LG' })).resolves.toEqual([match])
+  })
+
+  it('rethrows when no adapter found anything', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const geocoder = createChainedGeocoder([
+      stubGeocoder(async () => []),
+      stubGeocoder(async () => {
+        throw new Error('status 503')
+      }),
+    ])
+
+    await expect(geocoder.geocode({ query: 'Damrak 1' })).rejects.toThrow('status 503')
+  })
+})
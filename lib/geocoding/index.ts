@@ -0,0 +1,119 @@
+/**
+ * Geocoding
+ * =========
+ * Entry point for address and postal-code geocoding. The provider is chosen
+ * with `GEOCODING_PROVIDER`:
+ *
+ * - `postal-code` (default): offline lookup in the city's uploaded
+ *   postal-code centroids only
+ * - `nominatim`: postal-code centroids first, then the Nominatim-compatible
+ *   service at `NOMINATIM_URL` for addresses the table cannot resolve
+ *
+ * @module lib/geocoding
+ */
+
+import { createNominatimGeocoder } from './nominatim'
+import { createPostalCodeGeocoder, type PostalCodeLookup } from './postal-codes'
+import type { Geocoder, GeocodingQuery, GeocodingResult } from './types'
+
+export type { Geocoder, GeocodingQuery, GeocodingResult, GeocodingSource } from './types'
+
+/**
+ * Configured geocoding provider
+ */
+export type GeocodingProvider = 'postal-code' | 'nominatim'
+
+/**
+ * Geocoding configuration read from the environment
+ */
+export interface GeocodingConfig {
+  provider: GeocodingProvider
+  nominatimUrl: string
+  nominatimUserAgent: string
+}
+
+/**
+ * Public OpenStreetMap instance, used when `NOMINATIM_URL` is not set
+ */
+export const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org'
+
+/**
+ * Read the geocoding configuration
+ *
+ * @param env - Environment variables (defaults to `process.env`)
+ * @returns Geocoding configuration; unknown providers fall back to `postal-code`
+ */
+export function getGeocodingConfig(
+  env: Record<string, string | undefined> = process.env
+): GeocodingConfig {
+  return {
+    provider: env.GEOCODING_PROVIDER === 'nominatim' ? 'nominatim' : 'postal-code',
+    nominatimUrl: env.NOMINATIM_URL || DEFAULT_NOMINATIM_URL,
+    nominatimUserAgent:
+      env.NOMINATIM_USER_AGENT || `language-map (${env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001'})`,
+  }
+}
+
+/**
+ * Combine geocoders: each is asked in turn until one returns results
+ *
+ * A failing adapter does not hide results from the others; the error is
+ * only rethrown when no adapter found anything.
+ *
+ * @param geocoders - Adapters in order of preference
+ * @returns Geocoder
+ */
+export function createChainedGeocoder(geocoders: Geocoder[]): Geocoder {
+  return {
+    async geocode(query: GeocodingQuery): Promise<GeocodingResult[]> {
+      let lastError: unknown = null
+
+      for (const geocoder of geocoders) {
+        try {
+          const results = await geocoder.geocode(query)
+          if (results.length > 0) {
+            return results
+          }
+        } catch (error) {
+          console.error('Geocoding adapter failed:', error)
+          lastError = error
+        }
+      }
+
+      if (lastError) {
+        throw lastError
+      }
+      return []
+    },
+  }
+}
+
+/**
+ * Create the geocoder for a city
+ *
+ * @param options.postalCodeLookup - Centroid lookup for the city
+ * @param options.language - Preferred result language (locale code)
+ * @param options.config - Geocoding configuration (defaults to the environment)
+ * @returns Geocoder for the configured provider
+ */
+export function createGeocoder(options: {
+  postalCodeLookup: PostalCodeLookup
+  language?: string
+  config?: GeocodingConfig
+}): Geocoder {
+  const config = options.config ?? getGeocodingConfig()
+  const postalCodes = createPostalCodeGeocoder(options.postalCodeLookup)
+
+  if (config.provider !== 'nominatim') {
+    return postalCodes
+  }
+
+  return createChainedGeocoder([
+    postalCodes,
+    createNominatimGeocoder({
+      baseUrl: config.nominatimUrl,
+      userAgent: config.nominatimUserAgent,
+      language: options.language,
+    }),
+  ])
+}
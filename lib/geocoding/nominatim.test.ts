@@ -0,0 +1,109 @@
+/**
+ * @file nominatim.test.ts
+ * @description Unit tests for the Nominatim-compatible geocoding adapter.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { buildNominatimSearchUrl, createNominatimGeocoder } from './nominatim'
+
+const amsterdam = { minLat: 52.27, maxLat: 52.43, minLng: 4.73, maxLng: 5.07 }
+
+/**
+ * Create a fetch mock answering with a JSON body
+ */
+function mockFetch(body: unknown, status = 200) {
+  return vi.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  }) as unknown as typeof fetch & ReturnType<typeof vi.fn>
+}
+
+describe('buildNominatimSearchUrl', () => {
+  it('restricts the search to the city bounds', () => {
+    const url = new URL(
+      buildNominatimSearchUrl('https://geo.example.org/nominatim', { query: ' Damrak 1 ', bounds: amsterdam })
+    )
+
+    expect(url.pathname).toBe('/nominatim/search')
+    expect(url.searchParams.get('q')).toBe('Damrak 1')
+    expect(url.searchParams.get('format')).toBe('jsonv2')
+    expect(url.searchParams.get('viewbox')).toBe('4.73,52.43,5.07,52.27')
+    expect(url.searchParams.get('bounded')).toBe('1')
+  })
+
+  it('searches everywhere without bounds', () => {
+    const url = new URL(buildNominatimSearchUrl('https://geo.example.org/', { query: 'Damrak 1', limit: 1 }))
+
+    expect(url.searchParams.get('limit')).toBe('1')
+    expect(url.searchParams.has('viewbox')).toBe(false)
+  })
+})
+
+describe('createNominatimGeocoder', () => {
+  it('maps places to results and sends the User-Agent', async () => {
+    const fetch = mockFetch([
+      { lat: '52.3763', lon: '4.8971', display_name: 'Damrak 1, Amsterdam', address: { postcode: '1012 LG' } },
+      { lat: 'n/a', lon: '4.8', display_name: 'Broken' },
+    ])
+    const geocoder = createNominatimGeocoder({
+      baseUrl: 'https://geo.example.org',
+      userAgent: 'language-map tests',
+      language: 'nl',
+      fetch,
+      minIntervalMs: 0,
+    })
+
+    const results = await geocoder.geocode({ query: 'Damrak 1' })
+
+    expect(results).toEqual([
+      { latitude: 52.3763, longitude: 4.8971, label: 'Damrak 1, Amsterdam', postalCode: '1012 LG', source: 'nominatim' },
+    ])
+    expect(fetch.mock.calls[0][1].headers).toMatchObject({
+      'User-Agent': 'language-map tests',
+      'Accept-Language': 'nl',
+    })
+  })
+
+  it('throws when the service responds with an error', async () => {
+    const geocoder = createNominatimGeocoder({
+      baseUrl: 'https://geo.example.org',
+      userAgent: 'language-map tests',
+      fetch: mockFetch({}, 503),
+      minIntervalMs: 0,
+    })
+
+    await expect(geocoder.geocode({ query: 'Damrak 1' })).rejects.toThrow('status 503')
+  })
+
+  it('spaces out requests to one service and refuses a long queue', async () => {
+    vi.useFakeTimers()
+    try {
+      const fetch = mockFetch([])
+      const geocoder = createNominatimGeocoder({
+        baseUrl: 'https://throttled.example.org',
+        userAgent: 'language-map tests',
+        fetch,
+        minIntervalMs: 4000,
+      })
+
+      const first = geocoder.geocode({ query: 'Damrak 1' })
+      const second = geocoder.geocode({ query: 'Damrak 2' })
+      await first
+      expect(fetch).toHaveBeenCalledTimes(1)
+
+      const third = geocoder.geocode({ query: 'Damrak 3' })
+      await expect(geocoder.geocode({ query: 'Damrak 4' })).rejects.toThrow('busy')
+
+      await vi.advanceTimersByTimeAsync(4000)
+      await second
+      expect(fetch).toHaveBeenCalledTimes(2)
+
+      await vi.advanceTimersByTimeAsync(4000)
+      await third
+      expect(fetch).toHaveBeenCalledTimes(3)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Nominatim Geocoder
+ * ==================
+ * HTTP adapter for Nominatim-compatible search APIs (OpenStreetMap's public
+ * instance, a self-hosted Nominatim, or compatible services such as
+ * LocationIQ). Searches are limited to the city's bounds when given.
+ *
+ * The public OpenStreetMap instance requires an identifying User-Agent and
+ * allows at most one request per second. Requests to one service are
+ * therefore spaced out across all geocoders of the process, and refused
+ * when the queue is too long; use a self-hosted instance for bulk imports.
+ *
+ * @module lib/geocoding/nominatim
+ */
+
+import type { Geocoder, GeocodingQuery, GeocodingResult } from './types'
+
+/**
+ * Default number of results requested per search
+ */
+export const NOMINATIM_DEFAULT_LIMIT = 5
+
+/**
+ * Default minimum time between two requests to one service
+ */
+export const NOMINATIM_MIN_INTERVAL_MS = 1000
+
+/**
+ * Longest a request waits for its turn before it is refused
+ */
+export const NOMINATIM_MAX_WAIT_MS = 10_000
+
+/**
+ * Earliest start of the next request, per service base URL
+ */
+const nextRequestAt = new Map<string, number>()
+
+/**
+ * Nominatim adapter configuration
+ */
+export interface NominatimGeocoderOptions {
+  /** Base URL of the service, e.g. `https://nominatim.openstreetmap.org` */
+  baseUrl: string
+  /** User-Agent sent with every request (required by the public instance) */
+  userAgent: string
+  /** Preferred result language (Accept-Language header) */
+  language?: string
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch
+  /** Minimum time between two requests to the service (defaults to one second) */
+  minIntervalMs?: number
+}
+
+/**
+ * Search result as returned by `/search?format=jsonv2`
+ */
+interface NominatimPlace {
+  lat: string
+  lon: string
+  display_name: string
+  address?: {
+    postcode?: string
+  }
+}
+
+/**
+ * Build the search URL for a query
+ *
+ * @param baseUrl - Base URL of the service
+ * @param query - Geocoding query
+ * @returns Search URL
+ */
+export function buildNominatimSearchUrl(baseUrl: string, query: GeocodingQuery): string {
+  const url = new URL('search', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`)
+
+  url.searchParams.set('format', 'jsonv2')
+  url.searchParams.set('addressdetails', '1')
+  url.searchParams.set('q', query.query.trim())
+  url.searchParams.set('limit', String(query.limit ?? NOMINATIM_DEFAULT_LIMIT))
+
+  if (query.bounds) {
+    const { minLat, maxLat, minLng, maxLng } = query.bounds
+    // viewbox is <left>,<top>,<right>,<bottom>
+    url.searchParams.set('viewbox', [minLng, maxLat, maxLng, minLat].join(','))
+    url.searchParams.set('bounded', '1')
+  }
+
+  return url.toString()
+}
+
+/**
+ * Wait for the turn of a request to a service and reserve the next slot
+ *
+ * @param baseUrl - Base URL of the service
+ * @param intervalMs - Minimum time between two requests
+ * @throws {Error} If the request would have to wait longer than `NOMINATIM_MAX_WAIT_MS`
+ */
+async function waitForTurn(baseUrl: string, intervalMs: number): Promise<void> {
+  const now = Date.now()
+  const start = Math.max(now, nextRequestAt.get(baseUrl) ?? 0)
+
+  if (start - now > NOMINATIM_MAX_WAIT_MS) {
+    throw new Error('Geocoding service is busy, try again later')
+  }
+
+  nextRequestAt.set(baseUrl, start + intervalMs)
+  if (start > now) {
+    await new Promise((resolve) => setTimeout(resolve, start - now))
+  }
+}
+
+/**
+ * Create a geocoder backed by a Nominatim-compatible search API
+ *
+ * @param options - Service URL, User-Agent, optional fetch implementation and request interval
+ * @returns Geocoder
+ */
+export function createNominatimGeocoder(options: NominatimGeocoderOptions): Geocoder {
+  const fetchImpl = options.fetch ?? fetch
+
+  return {
+    async geocode(query: GeocodingQuery): Promise<GeocodingResult[]> {
+      if (!query.query.trim()) {
+        return []
+      }
+
+      await waitForTurn(options.baseUrl, options.minIntervalMs ?? NOMINATIM_MIN_INTERVAL_MS)
+
+      const response = await fetchImpl(buildNominatimSearchUrl(options.baseUrl, query), {
+        headers: {
+          Accept: 'application/json',
+          'User-Agent': options.userAgent,
+          ...(options.language ? { 'Accept-Language': options.language } : {}),
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error(`Geocoding request failed with status ${response.status}`)
+      }
+
+      const places = (await response.json()) as NominatimPlace[]
+
+      return places
+        .map((place) => ({
+          latitude: Number(place.lat),
+          longitude: Number(place.lon),
+          label: place.display_name,
+          postalCode: place.address?.postcode ?? null,
+          source: 'nominatim' as const,
+        }))
+        .filter((result) => Number.isFinite(result.latitude) && Number.isFinite(result.longitude))
+    },
+  }
+}
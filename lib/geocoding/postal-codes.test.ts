@@ -0,0 +1,91 @@
+/**
+ * @file postal-codes.test.ts
+ * @description Unit tests for the offline postal code geocoder and the
+ * centroid CSV parser.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  MAX_POSTAL_CODE_ROWS,
+  createPostalCodeGeocoder,
+  findPostalCodeCandidates,
+  normalizePostalCode,
+  parsePostalCodeCsv,
+} from './postal-codes'
+
+describe('normalizePostalCode', () => {
+  it('removes whitespace and uppercases', () => {
+    expect(normalizePostalCode(' 1012 ab ')).toBe('1012AB')
+  })
+})
+
+describe('findPostalCodeCandidates', () => {
+  it('uses the whole query when it is a postal code', () => {
+    expect(findPostalCodeCandidates('1012 lg')).toEqual(['1012LG'])
+  })
+
+  it('picks postal codes out of an address, most specific first', () => {
+    expect(findPostalCodeCandidates('Damrak 1, 1012 LG Amsterdam')).toEqual(['1012LG', '1012'])
+  })
+
+  it('returns nothing for addresses without a postal code', () => {
+    expect(findPostalCodeCandidates('Damrak, Amsterdam')).toEqual([])
+  })
+})
+
+describe('parsePostalCodeCsv', () => {
+  it('parses centroids with alternative column names and decimal commas', () => {
+    const result = parsePostalCodeCsv('Postcode;Lat;Lon\n1012 ab;52,3731;4,8922\n1013;52.3889;4.8795\n')
+
+    expect(result.error).toBeNull()
+    expect(result.centroids).toEqual([
+      { postalCode: '1012AB', latitude: 52.3731, longitude: 4.8922 },
+      { postalCode: '1013', latitude: 52.3889, longitude: 4.8795 },
+    ])
+  })
+
+  it('reports invalid and duplicate rows with their line numbers', () => {
+    const result = parsePostalCodeCsv(
+      'postal_code,latitude,longitude\n1012AB,52.37,4.89\n??,52.37,4.89\n1013,95,4.89\n1012 AB,52.38,4.88\n'
+    )
+
+    expect(result.centroids).toHaveLength(1)
+    expect(result.rowErrors).toEqual([
+      { line: 3, error: 'invalidPostalCode' },
+      { line: 4, error: 'invalidCoordinates' },
+      { line: 5, error: 'duplicatePostalCode' },
+    ])
+  })
+
+  it('rejects files without the required columns', () => {
+    expect(parsePostalCodeCsv('postal_code,x,y\n1012AB,52.37,4.89').error).toBe('missingColumns')
+  })
+
+  it('rejects files with too many rows', () => {
+    const rows = Array.from({ length: MAX_POSTAL_CODE_ROWS + 1 }, (_, i) => `${1000 + i},52.3,4.9`)
+    expect(parsePostalCodeCsv(['zip,lat,lng', ...rows].join('\n')).error).toBe('tooManyRows')
+  })
+})
+
+describe('createPostalCodeGeocoder', () => {
+  it('resolves the most specific postal code found in the query', async () => {
+    const lookup = vi.fn().mockResolvedValue([
+      { postalCode: '1012', latitude: 52.374, longitude: 4.897 },
+      { postalCode: '1012LG', latitude: 52.3763, longitude: 4.8971 },
+    ])
+    const geocoder = createPostalCodeGeocoder(lookup)
+
+    const results = await geocoder.geocode({ query: 'Damrak 1, 1012 LG Amsterdam', limit: 1 })
+
+    expect(lookup).toHaveBeenCalledWith(['1012LG', '1012'])
+    expect(results).toEqual([
+      { latitude: 52.3763, longitude: 4.8971, label: '1012LG', postalCode: '1012LG', source: 'postal-code' },
+    ])
+  })
+
+  it('does not query the table without a postal code', async () => {
+    const lookup = vi.fn()
+    await expect(createPostalCodeGeocoder(lookup).geocode({ query: 'Damrak' })).resolves.toEqual([])
+    expect(lookup).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,236 @@
+/**
+ * Postal Code Geocoder
+ * ====================
+ * Offline adapter that resolves postal codes to the centroids operators
+ * uploaded for their city (`postal_code_centroids`). It needs no network
+ * access and no third-party account, which makes it the default provider
+ * and the fast path for bulk imports.
+ *
+ * The CSV parsing in this module has no server dependencies so the upload
+ * form can validate files before sending them; the server action parses
+ * the file again before storing it.
+ *
+ * @module lib/geocoding/postal-codes
+ */
+
+import { parseCsv } from '@/lib/csv'
+import type { Geocoder, GeocodingQuery, GeocodingResult } from './types'
+
+/**
+ * Maximum number of centroids in one upload
+ */
+export const MAX_POSTAL_CODE_ROWS = 20000
+
+/**
+ * Maximum size of an uploaded centroid file in bytes
+ */
+export const MAX_POSTAL_CODE_FILE_SIZE = 800 * 1024
+
+/**
+ * Accepted column names (lowercase) for each centroid field
+ */
+export const POSTAL_CODE_COLUMNS = {
+  postalCode: ['postal_code', 'postcode', 'zip', 'zip_code', 'code_postal'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng', 'long'],
+} as const
+
+/**
+ * Centroid of one postal code area
+ */
+export interface PostalCodeCentroid {
+  /** Normalized postal code (see `normalizePostalCode`) */
+  postalCode: string
+  latitude: number
+  longitude: number
+}
+
+/**
+ * Problem found in a centroid file
+ */
+export type PostalCodeCsvError =
+  | 'missingColumns'
+  | 'noRows'
+  | 'tooManyRows'
+  | 'invalidPostalCode'
+  | 'invalidCoordinates'
+  | 'duplicatePostalCode'
+
+/**
+ * Problem in one row of a centroid file
+ */
+export interface PostalCodeCsvRowError {
+  /** Line number in the file (the header is line 1) */
+  line: number
+  error: Extract<PostalCodeCsvError, 'invalidPostalCode' | 'invalidCoordinates' | 'duplicatePostalCode'>
+}
+
+/**
+ * Result of parsing a centroid file
+ */
+export type PostalCodeCsvResult =
+  | { centroids: PostalCodeCentroid[]; error: null; rowErrors: PostalCodeCsvRowError[] }
+  | { centroids: null; error: Exclude<PostalCodeCsvError, PostalCodeCsvRowError['error']>; rowErrors: [] }
+
+/**
+ * Looks up centroids by normalized postal code
+ */
+export type PostalCodeLookup = (postalCodes: string[]) => Promise<PostalCodeCentroid[]>
+
+const POSTAL_CODE_PATTERN = /^[A-Z0-9-]{3,10}$/
+
+/**
+ * Normalize a postal code for storage and lookup: uppercase, no whitespace
+ * ("1012 ab" and "1012AB" are the same code)
+ *
+ * @param value - Postal code as entered
+ * @returns Normalized postal code
+ */
+export function normalizePostalCode(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase()
+}
+
+/**
+ * Check whether a normalized value looks like a postal code
+ *
+ * @param value - Normalized postal code
+ * @returns True if the value has 3-10 letters, digits or hyphens and at least one digit
+ */
+export function isValidPostalCode(value: string): boolean {
+  return POSTAL_CODE_PATTERN.test(value) && /\d/.test(value)
+}
+
+/**
+ * Find the postal codes a free-form query may contain
+ *
+ * The whole query counts when it is a postal code by itself; otherwise
+ * Dutch (`1234 AB`) and numeric (4-5 digit) codes inside an address are
+ * picked out, most specific first.
+ *
+ * @param query - Address or postal code
+ * @returns Normalized candidate codes, without duplicates
+ */
+export function findPostalCodeCandidates(query: string): string[] {
+  const whole = normalizePostalCode(query)
+  if (isValidPostalCode(whole)) {
+    return [whole]
+  }
+
+  const matches = [
+    ...query.matchAll(/\b\d{4}\s?[A-Za-z]{2}\b/g),
+    ...query.matchAll(/\b\d{4,5}\b/g),
+  ].map((match) => normalizePostalCode(match[0]))
+
+  return [...new Set(matches)]
+}
+
+/**
+ * Find the header of a centroid field
+ */
+function findColumn(headers: string[], names: readonly string[]): string | undefined {
+  return headers.find((header) => names.includes(header.toLowerCase()))
+}
+
+/**
+ * Parse a coordinate cell, accepting a decimal comma
+ */
+function parseCoordinate(value: string): number {
+  return value.trim() === '' ? NaN : Number(value.replace(',', '.'))
+}
+
+/**
+ * Parse an uploaded centroid CSV file
+ *
+ * The file needs a header row with a postal code, latitude and longitude
+ * column (see `POSTAL_CODE_COLUMNS`); other columns are ignored. Invalid
+ * rows are reported and left out.
+ *
+ * @param text - CSV text
+ * @returns Valid centroids and row problems, or a file-level error
+ */
+export function parsePostalCodeCsv(text: string): PostalCodeCsvResult {
+  const { headers, rows } = parseCsv(text)
+
+  const postalCodeColumn = findColumn(headers, POSTAL_CODE_COLUMNS.postalCode)
+  const latitudeColumn = findColumn(headers, POSTAL_CODE_COLUMNS.latitude)
+  const longitudeColumn = findColumn(headers, POSTAL_CODE_COLUMNS.longitude)
+
+  if (!postalCodeColumn || !latitudeColumn || !longitudeColumn) {
+    return { centroids: null, error: 'missingColumns', rowErrors: [] }
+  }
+
+  if (rows.length === 0) {
+    return { centroids: null, error: 'noRows', rowErrors: [] }
+  }
+
+  if (rows.length > MAX_POSTAL_CODE_ROWS) {
+    return { centroids: null, error: 'tooManyRows', rowErrors: [] }
+  }
+
+  const centroids: PostalCodeCentroid[] = []
+  const rowErrors: PostalCodeCsvRowError[] = []
+  const seen = new Set<string>()
+
+  rows.forEach((row, index) => {
+    const line = index + 2
+    const postalCode = normalizePostalCode(row[postalCodeColumn])
+    const latitude = parseCoordinate(row[latitudeColumn])
+    const longitude = parseCoordinate(row[longitudeColumn])
+
+    if (!isValidPostalCode(postalCode)) {
+      rowErrors.push({ line, error: 'invalidPostalCode' })
+      return
+    }
+
+    if (
+      !Number.isFinite(latitude) || latitude < -90 || latitude > 90 ||
+      !Number.isFinite(longitude) || longitude < -180 || longitude > 180
+    ) {
+      rowErrors.push({ line, error: 'invalidCoordinates' })
+      return
+    }
+
+    if (seen.has(postalCode)) {
+      rowErrors.push({ line, error: 'duplicatePostalCode' })
+      return
+    }
+
+    seen.add(postalCode)
+    centroids.push({ postalCode, latitude, longitude })
+  })
+
+  return { centroids, error: null, rowErrors }
+}
+
+/**
+ * Create a geocoder that resolves postal codes from a centroid table
+ *
+ * @param lookup - Fetches centroids for normalized postal codes (e.g. from
+ *   the database, or from a map preloaded for a bulk import)
+ * @returns Geocoder
+ */
+export function createPostalCodeGeocoder(lookup: PostalCodeLookup): Geocoder {
+  return {
+    async geocode(query: GeocodingQuery): Promise<GeocodingResult[]> {
+      const candidates = findPostalCodeCandidates(query.query)
+      if (candidates.length === 0) {
+        return []
+      }
+
+      const centroids = await lookup(candidates)
+      const byCode = new Map(centroids.map((centroid) => [centroid.postalCode, centroid]))
+
+      return candidates
+        .map((code) => byCode.get(code))
+        .filter((centroid): centroid is PostalCodeCentroid => centroid !== undefined)
+        .slice(0, query.limit ?? candidates.length)
+        .map((centroid) => ({
+          latitude: centroid.latitude,
+          longitude: centroid.longitude,
+          label: centroid.postalCode,
+          postalCode: centroid.postalCode,
+          source: 'postal-code' as const,
+        }))
+    },
+  }
+}
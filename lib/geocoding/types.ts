@@ -0,0 +1,54 @@
+/**
+ * Geocoding Types
+ * ===============
+ * Provider-independent contract for turning an address or postal code into
+ * coordinates. The language point form and the bulk import both talk to a
+ * `Geocoder`; which adapters back it is decided in `lib/geocoding`.
+ *
+ * @module lib/geocoding/types
+ */
+
+import type { CityBounds } from '@/lib/map/bounds'
+
+/**
+ * Adapter that produced a result
+ */
+export type GeocodingSource = 'postal-code' | 'nominatim'
+
+/**
+ * Address or postal code to look up
+ */
+export interface GeocodingQuery {
+  /** Free-form address, or just a postal code */
+  query: string
+  /** Restrict results to the city's bounds, when configured */
+  bounds?: CityBounds | null
+  /** Maximum number of results (adapters may return fewer) */
+  limit?: number
+}
+
+/**
+ * A geocoded location
+ */
+export interface GeocodingResult {
+  latitude: number
+  longitude: number
+  /** Human-readable description of the match */
+  label: string
+  /** Postal code of the match, when known */
+  postalCode: string | null
+  source: GeocodingSource
+}
+
+/**
+ * Geocoding adapter
+ */
+export interface Geocoder {
+  /**
+   * Look up a query
+   *
+   * @returns Matches ordered by relevance; empty when nothing was found
+   * @throws {Error} If the provider cannot be reached
+   */
+  geocode(query: GeocodingQuery): Promise<GeocodingResult[]>
+}
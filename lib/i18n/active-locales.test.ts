@@ -0,0 +1,106 @@
+/**
+ * @file active-locales.test.ts
+ * @description Unit tests for the lookup of active and city locales.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getDatabaseClient } from '@/lib/database/client'
+import { z } from 'zod'
+import {
+  assertActiveLocales,
+  assertCityLocales,
+  clearActiveLocalesCache,
+  getActiveLocaleOptions,
+  getActiveLocales,
+  getCityLocaleOptions,
+} from './active-locales'
+import { createQuery } from '@/__tests__/helpers/supabase'
+
+vi.mock('@/lib/database/client', () => ({
+  getDatabaseClient: vi.fn(),
+}))
+
+describe('active locales', () => {
+  let from: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    clearActiveLocalesCache()
+
+    from = vi.fn(() =>
+      createQuery({
+        data: [
+          { code: 'nl', name: 'Dutch', native_name: 'Nederlands' },
+          { code: 'en', name: 'English', native_name: 'English' },
+          { code: 'de', name: 'German', native_name: 'Deutsch' },
+        ],
+        error: null,
+      })
+    )
+    vi.mocked(getDatabaseClient).mockReturnValue({ from } as never)
+  })
+
+  it('should list the active locales, default locale first', async () => {
+    expect(await getActiveLocales()).toEqual(['en', 'de', 'nl'])
+    expect(await getActiveLocaleOptions()).toContainEqual({ code: 'de', name: 'German', nativeName: 'Deutsch' })
+    expect(from).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fall back to the interface locales when they cannot be read', async () => {
+    from.mockReturnValue(createQuery({ data: null, error: { message: 'boom' } }))
+
+    expect(await getActiveLocales()).toEqual(['en', 'nl', 'fr'])
+  })
+
+  it('should fall back to the interface locales when the default locale is not active', async () => {
+    from.mockReturnValue(createQuery({ data: [{ code: 'de', name: 'German', native_name: 'Deutsch' }], error: null }))
+
+    expect(await getActiveLocales()).toEqual(['en', 'nl', 'fr'])
+  })
+
+  it('should list the enabled locales of a city', async () => {
+    const query = createQuery({
+      data: [
+        { locale_code: 'fr', locale: { name: 'French', native_name: 'Français' } },
+        { locale_code: 'en', locale: { name: 'English', native_name: 'English' } },
+      ],
+      error: null,
+    })
+    const supabase = { from: vi.fn(() => query) }
+
+    const options = await getCityLocaleOptions(supabase as never, 'city-1')
+
+    expect(supabase.from).toHaveBeenCalledWith('city_locales')
+    expect(query.eq).toHaveBeenCalledWith('city_id', 'city-1')
+    expect(query.eq).toHaveBeenCalledWith('is_enabled', true)
+    expect(options).toEqual([
+      { code: 'en', name: 'English', nativeName: 'English' },
+      { code: 'fr', name: 'French', nativeName: 'Français' },
+    ])
+  })
+
+  it('should reject translations in locales a city has not enabled, per locale', async () => {
+    const query = createQuery({
+      data: [{ locale_code: 'en', locale: { name: 'English', native_name: 'English' } }],
+      error: null,
+    })
+    const supabase = { from: vi.fn(() => query) }
+
+    await expect(assertCityLocales(supabase as never, 'city-1', 'translations', ['en'])).resolves.toBeUndefined()
+
+    const error = await assertCityLocales(supabase as never, 'city-1', 'translations', ['en', 'de', 'ar']).catch(
+      (caught: unknown) => caught
+    )
+    expect(error).toBeInstanceOf(z.ZodError)
+    expect((error as z.ZodError).issues).toEqual([
+      expect.objectContaining({ path: ['translations', 'de'], message: "Locale 'de' is not enabled for this city" }),
+      expect.objectContaining({ path: ['translations', 'ar'], message: "Locale 'ar' is not enabled for this city" }),
+    ])
+  })
+
+  it('should reject translations in locales that are not active', async () => {
+    await expect(assertActiveLocales('translations', ['en', 'de'])).resolves.toBeUndefined()
+    await expect(assertActiveLocales('translations', ['tr'])).rejects.toThrow("Locale 'tr' is not active")
+  })
+})
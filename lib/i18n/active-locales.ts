@@ -0,0 +1,198 @@
+/**
+ * Active Locales
+ *
+ * Server-side lookup of the locales the site is routed in (active rows of
+ * the `locales` table) and of the locales each city is translated into
+ * (enabled rows of `city_locales`). The active locales are kept for a
+ * minute per server instance, as the middleware asks for them on every
+ * request; when they cannot be read, the interface locales are used.
+ * Server actions check the locales of submitted translations against them.
+ *
+ * @module lib/i18n/active-locales
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { getDatabaseClient } from '@/lib/database/client'
+import { defaultLocale, isLocaleCode, localeNames, locales, type LocaleOption } from './config'
+
+/**
+ * How long the active locales are kept, in milliseconds
+ */
+const ACTIVE_LOCALES_TTL_MS = 60_000
+
+/**
+ * Active locales read last, and when to read them again
+ */
+let cachedLocales: { options: LocaleOption[]; expiresAt: number } | null = null
+
+/**
+ * Row of the `locales` table
+ */
+interface LocaleRow {
+  code: string
+  name: string
+  native_name: string
+}
+
+/**
+ * Convert locale rows to options, default locale first and then by code
+ *
+ * @param rows - Rows of the `locales` table
+ * @returns Locale options with a well-formed code
+ */
+function toLocaleOptions(rows: LocaleRow[]): LocaleOption[] {
+  return rows
+    .filter((row) => isLocaleCode(row.code))
+    .map((row) => ({ code: row.code, name: row.name, nativeName: row.native_name }))
+    .sort((a, b) =>
+      a.code === defaultLocale ? -1 : b.code === defaultLocale ? 1 : a.code.localeCompare(b.code)
+    )
+}
+
+/**
+ * Get the active locales with their names
+ *
+ * @async
+ * @returns Active locales, default locale first; the interface locales if they cannot be read
+ */
+export async function getActiveLocaleOptions(): Promise<LocaleOption[]> {
+  if (cachedLocales && cachedLocales.expiresAt > Date.now()) {
+    return cachedLocales.options
+  }
+
+  try {
+    const { data, error } = await getDatabaseClient('system')
+      .from('locales')
+      .select('code, name, native_name')
+      .eq('is_active', true)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const options = toLocaleOptions(data ?? [])
+    if (!options.some((option) => option.code === defaultLocale)) {
+      throw new Error(`Default locale '${defaultLocale}' is not active`)
+    }
+
+    cachedLocales = { options, expiresAt: Date.now() + ACTIVE_LOCALES_TTL_MS }
+    return options
+  } catch (error) {
+    console.error('Error fetching active locales:', error)
+    return locales.map((code) => ({ code, name: localeNames[code], nativeName: localeNames[code] }))
+  }
+}
+
+/**
+ * Get the codes of the active locales, for routing
+ *
+ * @async
+ * @returns Active locale codes, default locale first
+ */
+export async function getActiveLocales(): Promise<string[]> {
+  return (await getActiveLocaleOptions()).map((option) => option.code)
+}
+
+/**
+ * Get the locales a city is translated into
+ *
+ * @async
+ * @param supabase - Supabase client with the user's session
+ * @param cityId - UUID of the city
+ * @returns Enabled locales of the city, default locale first
+ * @throws {Error} If the locales cannot be fetched
+ */
+export async function getCityLocaleOptions(
+  supabase: SupabaseClient,
+  cityId: string
+): Promise<LocaleOption[]> {
+  const { data, error } = await supabase
+    .from('city_locales')
+    .select('locale_code, locale:locales(name, native_name)')
+    .eq('city_id', cityId)
+    .eq('is_enabled', true)
+
+  if (error) {
+    console.error('Error fetching city locales:', error)
+    throw new Error(`Failed to fetch city locales: ${error.message}`)
+  }
+
+  return toLocaleOptions(
+    (data ?? []).map((row) => {
+      const locale = (Array.isArray(row.locale) ? row.locale[0] : row.locale) as Omit<LocaleRow, 'code'> | null
+      return {
+        code: row.locale_code,
+        name: locale?.name ?? row.locale_code,
+        native_name: locale?.native_name ?? row.locale_code,
+      }
+    })
+  )
+}
+
+/**
+ * Throw a validation error naming each locale that is not allowed
+ *
+ * @param allowed - Allowed locale codes
+ * @param field - Field of the submitted translations, used as the error path
+ * @param localeCodes - Locale codes of the submitted translations
+ * @param reason - What the locales should be, e.g. 'enabled for this city'
+ * @throws {z.ZodError} With one issue per locale that is not allowed
+ */
+function assertAllowedLocales(allowed: string[], field: string, localeCodes: string[], reason: string): void {
+  const issues: z.core.$ZodIssue[] = localeCodes
+    .filter((code) => !allowed.includes(code))
+    .map((code) => ({
+      code: 'custom',
+      path: [field, code],
+      message: `Locale '${code}' is not ${reason}`,
+      input: code,
+    }))
+
+  if (issues.length > 0) {
+    throw new z.ZodError(issues)
+  }
+}
+
+/**
+ * Check that translations are only submitted in locales a city has enabled
+ *
+ * @async
+ * @param supabase - Supabase client with the user's session
+ * @param cityId - UUID of the city
+ * @param field - Field of the submitted translations, e.g. 'translations'
+ * @param localeCodes - Locale codes of the submitted translations
+ * @throws {z.ZodError} With one issue per locale the city has not enabled
+ * @throws {Error} If the locales cannot be fetched
+ */
+export async function assertCityLocales(
+  supabase: SupabaseClient,
+  cityId: string,
+  field: string,
+  localeCodes: string[]
+): Promise<void> {
+  const enabled = (await getCityLocaleOptions(supabase, cityId)).map((option) => option.code)
+  assertAllowedLocales(enabled, field, localeCodes, 'enabled for this city')
+}
+
+/**
+ * Check that translations of rows shared by all cities are only submitted
+ * in active locales
+ *
+ * @async
+ * @param field - Field of the submitted translations, e.g. 'translations'
+ * @param localeCodes - Locale codes of the submitted translations
+ * @throws {z.ZodError} With one issue per locale that is not active
+ */
+export async function assertActiveLocales(field: string, localeCodes: string[]): Promise<void> {
+  assertAllowedLocales(await getActiveLocales(), field, localeCodes, 'active')
+}
+
+/**
+ * Forget the active locales read last
+ *
+ * Useful for testing, or after the `locales` table has changed
+ */
+export function clearActiveLocalesCache(): void {
+  cachedLocales = null
+}
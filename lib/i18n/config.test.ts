@@ -4,7 +4,18 @@
  */
 
 import { describe, it, expect } from 'vitest'
-import { locales, defaultLocale, localeNames, type Locale } from './config'
+import {
+  locales,
+  defaultLocale,
+  localeNames,
+  isLocaleCode,
+  getMessagesLocale,
+  findTranslation,
+  pickTranslations,
+  getLocaleDirection,
+  isolateBidi,
+  type Locale,
+} from './config'
 
 describe('i18n Configuration', () => {
   describe('locales', () => {
@@ -63,6 +74,66 @@ describe('i18n Configuration', () => {
     })
   })
 
+  describe('isLocaleCode', () => {
+    it('should accept language codes with an optional region', () => {
+      expect(isLocaleCode('de')).toBe(true)
+      expect(isLocaleCode('pt-BR')).toBe(true)
+    })
+
+    it('should reject anything else', () => {
+      expect(isLocaleCode('dutch')).toBe(false)
+      expect(isLocaleCode('pt-br')).toBe(false)
+      expect(isLocaleCode('')).toBe(false)
+    })
+  })
+
+  describe('getMessagesLocale', () => {
+    it('should keep locales that have messages', () => {
+      expect(getMessagesLocale('nl')).toBe('nl')
+    })
+
+    it('should fall back to the default locale', () => {
+      expect(getMessagesLocale('de')).toBe(defaultLocale)
+    })
+  })
+
+  describe('findTranslation', () => {
+    const translations = [
+      { locale_code: 'nl', name: 'Centrum' },
+      { locale_code: 'en', name: 'Centre' },
+    ]
+
+    it('should pick the translation in the locale', () => {
+      expect(findTranslation(translations, 'nl')?.name).toBe('Centrum')
+    })
+
+    it('should fall back to the default locale', () => {
+      expect(findTranslation(translations, 'de')?.name).toBe('Centre')
+      expect(findTranslation([{ locale_code: 'nl', name: 'Centrum' }], 'de')).toBeUndefined()
+      expect(pickTranslations(null, 'de')).toEqual([])
+    })
+  })
+
+  describe('getLocaleDirection', () => {
+    it('should be right-to-left for languages written right-to-left', () => {
+      expect(getLocaleDirection('ar')).toBe('rtl')
+      expect(getLocaleDirection('he')).toBe('rtl')
+      expect(getLocaleDirection('fa-IR')).toBe('rtl')
+      expect(getLocaleDirection('ur')).toBe('rtl')
+    })
+
+    it('should be left-to-right otherwise', () => {
+      expect(getLocaleDirection('en')).toBe('ltr')
+      expect(getLocaleDirection('pt-BR')).toBe('ltr')
+    })
+  })
+
+  describe('isolateBidi', () => {
+    it('should wrap the text in directional isolates', () => {
+      expect(isolateBidi('العربية')).toBe('\u2068العربية\u2069')
+    })
+  })
+
   describe('Type safety', () => {
     it('should allow only valid locales for Locale type', () => {
       const validLocales: Locale[] = ['en', 'nl', 'fr']
@@ -1,7 +1,11 @@
 /**
  * Internationalization Configuration
  *
- * Defines supported locales and default locale for the application.
+ * Defines the interface locales (those with a message catalog in /messages)
+ * and the default locale for the application. Which locales are routed and
+ * which a city is translated into is data: the `locales` and `city_locales`
+ * tables. Routed locales without a catalog show the default locale's
+ * messages.
  * Uses next-intl for routing and translations.
  */
 
@@ -15,3 +19,110 @@ export const localeNames: Record<Locale, string> = {
   nl: 'Nederlands',
   fr: 'Français',
 }
+
+/**
+ * A locale content can be translated into, as listed in the `locales` table
+ */
+export interface LocaleOption {
+  code: string
+  /** English name, e.g. "Dutch" */
+  name: string
+  /** Name in the language itself, e.g. "Nederlands" */
+  nativeName: string
+}
+
+/**
+ * Format of a locale code: a language, optionally with a region (`en`, `pt-BR`)
+ */
+export const LOCALE_CODE_PATTERN = /^[a-z]{2}(-[A-Z]{2})?$/
+
+/**
+ * Check whether a string is formatted as a locale code
+ *
+ * @param value - String to check
+ * @returns True for codes such as `en` and `pt-BR`
+ */
+export function isLocaleCode(value: string): boolean {
+  return LOCALE_CODE_PATTERN.test(value)
+}
+
+/**
+ * Get the interface locale whose messages are shown for a routed locale
+ *
+ * @param locale - Routed locale code
+ * @returns The locale itself when it has a message catalog, the default locale otherwise
+ */
+export function getMessagesLocale(locale: string): Locale {
+  return locales.find((candidate) => candidate === locale) ?? defaultLocale
+}
+
+/**
+ * Find the translation of a row in a locale, falling back to the default locale
+ *
+ * Rows are loaded with all their translations rather than filtered on the
+ * routed locale, so a row without a name in that locale is still shown.
+ *
+ * @param translations - Translations of the row
+ * @param locale - Requested locale code
+ * @returns The translation, or undefined if neither locale has one (callers fall back to the slug)
+ */
+export function findTranslation<T extends { locale_code: string }>(
+  translations: readonly T[] | null | undefined,
+  locale: string
+): T | undefined {
+  return (
+    translations?.find((translation) => translation.locale_code === locale) ??
+    translations?.find((translation) => translation.locale_code === defaultLocale)
+  )
+}
+
+/**
+ * Reduce the translations of a row to the one `findTranslation` picks
+ *
+ * For loaders whose callers show `translations[0]?.name || slug`.
+ *
+ * @param translations - Translations of the row
+ * @param locale - Requested locale code
+ * @returns The picked translation, or an empty list
+ */
+export function pickTranslations<T extends { locale_code: string }>(
+  translations: readonly T[] | null | undefined,
+  locale: string
+): T[] {
+  const translation = findTranslation(translations, locale)
+  return translation ? [translation] : []
+}
+
+/**
+ * Writing direction of a locale
+ */
+export type TextDirection = 'ltr' | 'rtl'
+
+/**
+ * Languages written right-to-left (Arabic, Divehi, Persian, Hebrew, Pashto,
+ * Sindhi, Uyghur, Urdu, Yiddish)
+ */
+const RTL_LANGUAGES = ['ar', 'dv', 'fa', 'he', 'ps', 'sd', 'ug', 'ur', 'yi']
+
+/**
+ * Get the writing direction of a locale
+ *
+ * @param locale - Locale code such as `ar` or `pt-BR`
+ * @returns `rtl` when the language of the locale is written right-to-left, `ltr` otherwise
+ */
+export function getLocaleDirection(locale: string): TextDirection {
+  const language = locale.split('-')[0].toLowerCase()
+  return RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr'
+}
+
+/**
+ * Isolate text of unknown direction, such as an endonym, that is
+ * interpolated into a message, so that a right-to-left name does not
+ * reorder the text around it. In JSX, wrap the text in `<bdi>` instead.
+ *
+ * @param text - Text to isolate
+ * @returns The text between first-strong-isolate and pop-directional-isolate marks
+ */
+export function isolateBidi(text: string): string {
+  return `\u2068${text}\u2069`
+}
@@ -1,24 +1,27 @@
 /**
  * Server-side i18n utilities
  *
- * Provides functions to get translations on the server side.
+ * Provides functions to get translations on the server side. Any active
+ * locale is accepted; those without a message catalog get the default
+ * locale's messages.
  */
 
 import { getRequestConfig } from 'next-intl/server'
 import { notFound } from 'next/navigation'
-import { locales } from './config'
+import { getMessagesLocale } from './config'
+import { getActiveLocales } from './active-locales'
 
 export default getRequestConfig(async ({ requestLocale }) => {
   // This typically corresponds to the `[locale]` segment
   const locale = await requestLocale
 
   // Validate that the incoming `locale` parameter is valid
-  if (!locale || !locales.includes(locale as (typeof locales)[number])) {
+  if (!locale || !(await getActiveLocales()).includes(locale)) {
     notFound()
   }
 
   return {
     locale,
-    messages: (await import(`@/messages/${locale}.json`)).default,
+    messages: (await import(`@/messages/${getMessagesLocale(locale)}.json`)).default,
   }
 })
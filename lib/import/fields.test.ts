@@ -0,0 +1,68 @@
+/**
+ * @file fields.test.ts
+ * @description Unit tests for guessing the import column mapping.
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { LocaleOption } from '@/lib/i18n/config'
+import { getImportFields, getMissingRequiredFields, guessColumnMapping } from './fields'
+
+const locales: LocaleOption[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+]
+
+describe('getImportFields', () => {
+  it('adds a name field per locale after the language code', () => {
+    expect(getImportFields(['en', 'de']).slice(0, 5)).toEqual([
+      'endonym',
+      'iso_639_3_code',
+      'name_en',
+      'name_de',
+      'language_family',
+    ])
+  })
+})
+
+describe('guessColumnMapping', () => {
+  it('recognizes field aliases regardless of case and separators', () => {
+    const mapping = guessColumnMapping(
+      ['Endonym', 'ISO 639-3', 'Name_EN', 'Nederlands', 'Lat', 'Lng', 'Postcode', 'Size', 'Comments'],
+      ['size', 'status'],
+      locales
+    )
+
+    expect(mapping).toEqual({
+      fields: {
+        endonym: 'Endonym',
+        iso_639_3_code: 'ISO 639-3',
+        name_en: 'Name_EN',
+        name_nl: 'Nederlands',
+        latitude: 'Lat',
+        longitude: 'Lng',
+        postal_code: 'Postcode',
+      },
+      taxonomies: { size: 'Size' },
+    })
+  })
+
+  it('recognizes name columns of any locale of the city', () => {
+    const mapping = guessColumnMapping(['Endonym', 'name (ar)', 'Arabic', 'Name_FR'], [], locales)
+
+    expect(mapping.fields).toEqual({ endonym: 'Endonym', name_ar: 'name (ar)' })
+  })
+
+  it('uses each column once', () => {
+    const mapping = guessColumnMapping(['Language'], ['language'], locales)
+
+    expect(mapping.fields.name_en).toBe('Language')
+    expect(mapping.taxonomies).toEqual({})
+  })
+})
+
+describe('getMissingRequiredFields', () => {
+  it('lists unmapped required fields', () => {
+    expect(getMissingRequiredFields({ fields: { endonym: 'Endonym' }, taxonomies: {} })).toEqual(['name_en'])
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * Import Fields
+ * =============
+ * Target fields of the bulk import and the mapping from spreadsheet
+ * columns to those fields. Client-safe: the import wizard uses it to build
+ * the mapping step, the server actions to read the rows.
+ *
+ * Language names get one field per locale of the city (`name_en`,
+ * `name_de`, ...), like the columns of the export.
+ *
+ * @module lib/import/fields
+ */
+
+import { defaultLocale, type LocaleOption } from '@/lib/i18n/config'
+
+/**
+ * Maximum number of data rows in one import
+ */
+export const MAX_IMPORT_ROWS = 2000
+
+/**
+ * Fields a spreadsheet column can be mapped to, besides the names
+ *
+ * Language fields are read from the first row of each language; point
+ * fields from every row.
+ */
+export const IMPORT_FIELDS = [
+  'endonym',
+  'iso_639_3_code',
+  'language_family',
+  'country_of_origin',
+  'speaker_count',
+  'latitude',
+  'longitude',
+  'neighborhood',
+  'postal_code',
+  'community_name',
+  'notes',
+] as const
+
+/**
+ * Field of the language name in one locale
+ */
+export type NameImportField = `name_${string}`
+
+export type ImportField = (typeof IMPORT_FIELDS)[number] | NameImportField
+
+/**
+ * Fields that must be mapped before the preview can run
+ */
+export const REQUIRED_IMPORT_FIELDS: readonly ImportField[] = ['endonym', `name_${defaultLocale}`]
+
+/**
+ * Get the field of the language name in a locale
+ *
+ * @param locale - Locale code
+ * @returns Name field, e.g. `name_de`
+ */
+export function getNameField(locale: string): NameImportField {
+  return `name_${locale}`
+}
+
+/**
+ * Get the locale of a name field
+ *
+ * @param field - Import field
+ * @returns Locale code, or null if the field is not a name field
+ */
+export function getNameFieldLocale(field: string): string | null {
+  return field.startsWith('name_') ? field.slice('name_'.length) : null
+}
+
+/**
+ * List the fields a column can be mapped to for a city
+ *
+ * @param locales - Locale codes of the city, default locale first
+ * @returns Fields in the order of the mapping step, with a name field per locale
+ */
+export function getImportFields(locales: string[]): ImportField[] {
+  const [endonym, isoCode, ...rest] = IMPORT_FIELDS
+  return [endonym, isoCode, ...locales.map(getNameField), ...rest]
+}
+
+/**
+ * Several taxonomy values in one cell are separated by `|` or `;`
+ */
+export const TAXONOMY_VALUE_SEPARATOR = /[|;]/
+
+/**
+ * Spreadsheet contents: headers and rows keyed by header
+ */
+export interface ImportTable {
+  headers: string[]
+  rows: Record<string, string>[]
+}
+
+/**
+ * Column chosen for each import field and taxonomy type
+ */
+export interface ImportColumnMapping {
+  /** Import field → column header */
+  fields: Partial<Record<ImportField, string>>
+  /** Taxonomy type slug → column header */
+  taxonomies: Record<string, string>
+}
+
+/**
+ * Alternative header names recognized when guessing the mapping
+ */
+const FIELD_ALIASES: Record<(typeof IMPORT_FIELDS)[number], string[]> = {
+  endonym: ['endonym', 'native name', 'autonym'],
+  iso_639_3_code: ['iso_639_3_code', 'iso 639-3', 'iso639-3', 'iso', 'iso code', 'language code'],
+  language_family: ['language_family', 'family', 'language family'],
+  country_of_origin: ['country_of_origin', 'country', 'country of origin'],
+  speaker_count: ['speaker_count', 'speakers', 'number of speakers'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng', 'long'],
+  neighborhood: ['neighborhood', 'neighbourhood', 'buurt', 'quartier'],
+  postal_code: ['postal_code', 'postcode', 'zip', 'zip code', 'code postal'],
+  community_name: ['community_name', 'community', 'community name'],
+  notes: ['notes', 'note', 'remarks'],
+}
+
+/**
+ * Header names recognized for the name field of a locale: the field, the
+ * locale code in brackets and the names of the locale; a plain "name" is
+ * the name in the default locale
+ */
+function getNameAliases(locale: LocaleOption): string[] {
+  const aliases = [getNameField(locale.code), `name (${locale.code})`, locale.name, locale.nativeName]
+  return locale.code === defaultLocale ? [...aliases, 'name', 'language'] : aliases
+}
+
+/**
+ * Normalize a header for comparison: lowercase, `_`/`-` as spaces
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ')
+}
+
+/**
+ * Guess the column mapping from the spreadsheet headers
+ *
+ * @param headers - Spreadsheet headers
+ * @param taxonomyTypeSlugs - Slugs of the city's taxonomy types
+ * @param locales - Locales of the city, default locale first
+ * @returns Mapping with every recognized column; each column is used once
+ */
+export function guessColumnMapping(
+  headers: string[],
+  taxonomyTypeSlugs: string[],
+  locales: LocaleOption[]
+): ImportColumnMapping {
+  const used = new Set<string>()
+  const find = (names: string[]) => {
+    const normalized = names.map(normalizeHeader)
+    const header = headers.find(
+      (candidate) => !used.has(candidate) && normalized.includes(normalizeHeader(candidate))
+    )
+    if (header) used.add(header)
+    return header
+  }
+
+  const fields: ImportColumnMapping['fields'] = {}
+  for (const field of getImportFields(locales.map((locale) => locale.code))) {
+    const locale = locales.find((option) => getNameField(option.code) === field)
+    const header = find(locale ? getNameAliases(locale) : FIELD_ALIASES[field as keyof typeof FIELD_ALIASES])
+    if (header) fields[field] = header
+  }
+
+  const taxonomies: ImportColumnMapping['taxonomies'] = {}
+  for (const slug of taxonomyTypeSlugs) {
+    const header = find([slug])
+    if (header) taxonomies[slug] = header
+  }
+
+  return { fields, taxonomies }
+}
+
+/**
+ * List the required fields the mapping leaves out
+ *
+ * @param mapping - Column mapping
+ * @returns Unmapped required fields
+ */
+export function getMissingRequiredFields(mapping: ImportColumnMapping): ImportField[] {
+  return REQUIRED_IMPORT_FIELDS.filter((field) => !mapping.fields[field])
+}
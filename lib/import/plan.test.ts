@@ -0,0 +1,256 @@
+/**
+ * @file plan.test.ts
+ * @description Unit tests for import planning: grouping rows into
+ * languages, validation issues per row and point locations.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { Geocoder } from '@/lib/geocoding/types'
+import type { ImportColumnMapping, ImportTable } from './fields'
+import { planImport, toLanguageKeys, toLookupKey, type ImportReference } from './plan'
+
+const FAMILY_ID = '123e4567-e89b-12d3-a456-426614174010'
+const COUNTRY_ID = '123e4567-e89b-12d3-a456-426614174020'
+const SIZE_LARGE_ID = '123e4567-e89b-12d3-a456-426614174030'
+const SIZE_SMALL_ID = '123e4567-e89b-12d3-a456-426614174031'
+const NEIGHBORHOOD_ID = '123e4567-e89b-12d3-a456-426614174040'
+const EXISTING_ID = '123e4567-e89b-12d3-a456-426614174050'
+
+const reference: ImportReference = {
+  bounds: { minLat: 52.27, maxLat: 52.43, minLng: 4.73, maxLng: 5.07 },
+  locales: ['en', 'nl', 'de'],
+  families: new Map([['turkic', FAMILY_ID]]),
+  countries: new Map([['tr', COUNTRY_ID], ['turkey', COUNTRY_ID]]),
+  taxonomyValues: new Map([['size', new Map([['large', SIZE_LARGE_ID]])]]),
+  taxonomyRules: [],
+  neighborhoods: new Map([['de pijp', NEIGHBORHOOD_ID]]),
+  existingLanguages: new Map([['iso:nld', EXISTING_ID], ['endonym:nederlands', EXISTING_ID]]),
+}
+
+const mapping: ImportColumnMapping = {
+  fields: {
+    endonym: 'Endonym',
+    iso_639_3_code: 'ISO',
+    name_en: 'Name',
+    language_family: 'Family',
+    country_of_origin: 'Country',
+    speaker_count: 'Speakers',
+    latitude: 'Lat',
+    longitude: 'Lng',
+    neighborhood: 'Neighborhood',
+    postal_code: 'Postcode',
+  },
+  taxonomies: { size: 'Size' },
+}
+
+const headers = ['Endonym', 'ISO', 'Name', 'Family', 'Country', 'Speakers', 'Lat', 'Lng', 'Neighborhood', 'Postcode', 'Size']
+
+/**
+ * Build a table from partial rows (missing cells are empty)
+ */
+const table = (...rows: Array<Record<string, string>>): ImportTable => ({
+  headers,
+  rows: rows.map((row) => Object.fromEntries(headers.map((header) => [header, row[header] ?? '']))),
+})
+
+const turkish = {
+  Endonym: 'Türkçe',
+  ISO: 'TUR',
+  Name: 'Turkish',
+  Family: 'Turkic',
+  Country: 'TR',
+  Speakers: '40.000',
+  Size: 'Large',
+}
+
+describe('toLookupKey', () => {
+  it('trims, lowercases and collapses spaces', () => {
+    expect(toLookupKey('  De   Pijp ')).toBe('de pijp')
+  })
+})
+
+describe('toLanguageKeys', () => {
+  it('lists the ISO code before the endonym', () => {
+    expect(toLanguageKeys('TUR', 'Türkçe')).toEqual(['iso:tur', 'endonym:türkçe'])
+    expect(toLanguageKeys(null, 'Türkçe')).toEqual(['endonym:türkçe'])
+  })
+})
+
+describe('planImport', () => {
+  it('groups rows of one language and plans a point per located row', async () => {
+    const plan = await planImport(
+      table(
+        { ...turkish, Lat: '52,3731', Lng: '4,8926' },
+        { Endonym: 'Türkçe', ISO: 'tur', Name: 'Turkish', Lat: '52.355', Lng: '4.892', Neighborhood: 'De Pijp' },
+        { Endonym: 'Türkçe', Name: 'Turkish' }
+      ),
+      mapping,
+      reference,
+      null
+    )
+
+    expect(plan.issues).toEqual([])
+    expect(plan.languages).toEqual([
+      {
+        key: 'iso:tur',
+        existingId: null,
+        line: 2,
+        endonym: 'Türkçe',
+        iso_639_3_code: 'tur',
+        language_family_id: FAMILY_ID,
+        country_of_origin_id: COUNTRY_ID,
+        speaker_count: 40000,
+        translations: [{ locale_code: 'en', name: 'Turkish' }],
+        taxonomy_value_ids: [SIZE_LARGE_ID],
+      },
+    ])
+    expect(plan.points).toHaveLength(2)
+    expect(plan.points[0]).toMatchObject({ language_key: 'iso:tur', line: 2, latitude: 52.3731, longitude: 4.8926 })
+    expect(plan.points[1]).toMatchObject({ line: 3, neighborhood_id: NEIGHBORHOOD_ID })
+  })
+
+  it('reads a name for each locale of the city', async () => {
+    const plan = await planImport(
+      {
+        headers: ['Endonym', 'Name', 'Name (de)', 'Name (fr)'],
+        rows: [{ Endonym: 'Türkçe', Name: 'Turkish', 'Name (de)': 'Türkisch', 'Name (fr)': 'Turc' }],
+      },
+      { fields: { endonym: 'Endonym', name_en: 'Name', name_de: 'Name (de)', name_fr: 'Name (fr)' }, taxonomies: {} },
+      reference,
+      null
+    )
+
+    expect(plan.issues).toEqual([])
+    expect(plan.languages[0].translations).toEqual([
+      { locale_code: 'en', name: 'Turkish' },
+      { locale_code: 'de', name: 'Türkisch' },
+    ])
+  })
+
+  it('attaches points to an existing language without changing it', async () => {
+    const plan = await planImport(
+      table({ Endonym: 'Nederlands', Name: 'Dutch', Family: 'Unknown family', Lat: '52.37', Lng: '4.89' }),
+      mapping,
+      reference,
+      null
+    )
+
+    expect(plan.issues).toEqual([])
+    expect(plan.languages[0]).toMatchObject({ existingId: EXISTING_ID, key: 'endonym:nederlands' })
+    expect(plan.points).toHaveLength(1)
+  })
+
+  it('reports every problem of an invalid language row and skips its other rows', async () => {
+    const plan = await planImport(
+      table(
+        { Endonym: 'Xyz', ISO: 'xyz', Name: '', Family: 'Bantu', Speakers: 'many', Size: 'Huge' },
+        { Endonym: 'Xyz', ISO: 'xyz', Name: 'Xyz', Lat: '52.37', Lng: '4.89' }
+      ),
+      mapping,
+      reference,
+      null
+    )
+
+    expect(plan.issues.map(({ line, field }) => ({ line, field }))).toEqual([
+      { line: 2, field: 'language_family' },
+      { line: 2, field: 'speaker_count' },
+      { line: 2, field: 'taxonomy:size' },
+      { line: 2, field: 'iso_639_3_code' },
+      { line: 2, field: 'name_en' },
+    ])
+    expect(plan.issues[0].message).toBe('Unknown language family "Bantu"')
+    expect(plan.languages).toEqual([])
+    expect(plan.points).toEqual([])
+  })
+
+  it('checks the taxonomy rules of new languages', async () => {
+    const plan = await planImport(
+      table(
+        { Endonym: 'Türkçe', Name: 'Turkish' },
+        { Endonym: 'Polski', Name: 'Polish', Size: 'Large; Small' },
+        { Endonym: 'Xyz', Name: 'Xyz', Size: 'Huge' }
+      ),
+      mapping,
+      {
+        ...reference,
+        taxonomyValues: new Map([['size', new Map([['large', SIZE_LARGE_ID], ['small', SIZE_SMALL_ID]])]]),
+        taxonomyRules: [
+          {
+            id: 'size-type',
+            slug: 'size',
+            name: 'Size',
+            is_required: true,
+            allow_multiple: false,
+            valueIds: [SIZE_LARGE_ID, SIZE_SMALL_ID],
+          },
+        ],
+      },
+      null
+    )
+
+    expect(plan.issues).toEqual([
+      { line: 2, field: 'taxonomy:size', message: '"Size" is required' },
+      { line: 3, field: 'taxonomy:size', message: 'Only one "Size" value is allowed' },
+      { line: 4, field: 'taxonomy:size', message: 'Unknown size value "Huge"' },
+    ])
+    expect(plan.languages).toEqual([])
+  })
+
+  it('requires an endonym on every row', async () => {
+    const plan = await planImport(table({ Name: 'Turkish' }), mapping, reference, null)
+
+    expect(plan.issues).toEqual([{ line: 2, field: 'endonym', message: 'Endonym is required' }])
+  })
+
+  it('rejects coordinates outside the city and hints at swapped columns', async () => {
+    const plan = await planImport(
+      table({ ...turkish, Lat: '4.89', Lng: '52.37' }, { ...turkish, Lat: '48.85', Lng: '2.35' }),
+      mapping,
+      reference,
+      null
+    )
+
+    expect(plan.issues.map((issue) => issue.message)).toEqual([
+      'Coordinates are outside the city bounds. Latitude and longitude appear to be swapped.',
+      'Coordinates are outside the city bounds',
+    ])
+    expect(plan.points).toEqual([])
+  })
+
+  it('places rows without coordinates at their postal code', async () => {
+    const geocoder: Geocoder = {
+      geocode: vi.fn(async ({ query }) =>
+        query === '1012 LG'
+          ? [{ latitude: 52.3763, longitude: 4.8971, label: '1012LG', postalCode: '1012LG', source: 'postal-code' as const }]
+          : []
+      ),
+    }
+
+    const plan = await planImport(
+      table({ ...turkish, Postcode: '1012 LG' }, { ...turkish, Postcode: '9999 ZZ' }),
+      mapping,
+      reference,
+      geocoder
+    )
+
+    expect(plan.points).toEqual([
+      expect.objectContaining({ latitude: 52.3763, longitude: 4.8971, postal_code: '1012 LG', geocoded: true }),
+    ])
+    expect(plan.issues).toEqual([
+      { line: 3, field: 'postal_code', message: 'Postal code "9999 ZZ" could not be geocoded' },
+    ])
+  })
+
+  it('reports unknown neighborhoods', async () => {
+    const plan = await planImport(
+      table({ ...turkish, Lat: '52.37', Lng: '4.89', Neighborhood: 'Jordaan' }),
+      mapping,
+      reference,
+      null
+    )
+
+    expect(plan.issues).toEqual([
+      { line: 2, field: 'neighborhood', message: 'Unknown neighborhood "Jordaan"' },
+    ])
+  })
+})
@@ -0,0 +1,484 @@
+/**
+ * Import Planning
+ * ===============
+ * Turns mapped spreadsheet rows into the languages and language points to
+ * create, collecting validation problems per row. Language rows are checked
+ * with the same `languageSchema` as the language form; text is sanitized
+ * like the server actions do.
+ *
+ * Rows are grouped into languages by ISO 639-3 code, or by endonym when a
+ * row has no code. The first row of a language provides its names, family,
+ * country and taxonomy values; every row with coordinates (or a postal code
+ * the geocoder can resolve) becomes a language point. Languages that
+ * already exist in the city are reused and left unchanged.
+ *
+ * @module lib/import/plan
+ */
+
+import {
+  sanitizeISOCode,
+  sanitizeText,
+  VALIDATION_LIMITS,
+} from '@/lib/sanitization'
+import { languageSchema } from '@/lib/validations/language'
+import {
+  areCoordinatesSwapped,
+  isWithinCityBounds,
+  type CityBounds,
+} from '@/lib/map/bounds'
+import type { Geocoder } from '@/lib/geocoding/types'
+import { checkTaxonomyRules, type TaxonomyRuleType } from '@/lib/taxonomies/rules'
+import {
+  IMPORT_FIELDS,
+  TAXONOMY_VALUE_SEPARATOR,
+  getNameField,
+  type ImportColumnMapping,
+  type ImportField,
+  type ImportTable,
+} from './fields'
+
+/**
+ * Maximum length of an imported postal code
+ */
+const POSTAL_CODE_MAX_LENGTH = 20
+
+/**
+ * Existing city data that imported names are matched against
+ *
+ * All maps are keyed by `toLookupKey` of a slug, code or translated name.
+ */
+export interface ImportReference {
+  bounds: CityBounds | null
+  /** Locale codes of the city; a name is read from `name_<locale>` for each */
+  locales: string[]
+  families: Map<string, string>
+  countries: Map<string, string>
+  /** Taxonomy type slug → value lookup */
+  taxonomyValues: Map<string, Map<string, string>>
+  /** Rules of the city's taxonomy types, checked for each new language */
+  taxonomyRules: Array<TaxonomyRuleType & { slug: string }>
+  neighborhoods: Map<string, string>
+  /** `toLanguageKeys` of the city's languages → language ID */
+  existingLanguages: Map<string, string>
+}
+
+/**
+ * Problem in one spreadsheet row
+ */
+export interface ImportIssue {
+  /** Line number in the file (the header is line 1) */
+  line: number
+  /** Import field or `taxonomy:<slug>`, or null for the whole row */
+  field: ImportField | `taxonomy:${string}` | null
+  message: string
+}
+
+/**
+ * Language to create, or an existing language the points attach to
+ */
+export interface PlannedLanguage {
+  key: string
+  existingId: string | null
+  line: number
+  endonym: string
+  iso_639_3_code: string | null
+  language_family_id: string | null
+  country_of_origin_id: string | null
+  speaker_count: number | null
+  translations: Array<{ locale_code: string; name: string }>
+  taxonomy_value_ids: string[]
+}
+
+/**
+ * Language point to create
+ */
+export interface PlannedPoint {
+  language_key: string
+  line: number
+  latitude: number
+  longitude: number
+  neighborhood_id: string | null
+  postal_code: string | null
+  community_name: string | null
+  notes: string | null
+  /** Coordinates were looked up from the postal code */
+  geocoded: boolean
+}
+
+/**
+ * Everything an import would create, plus the problems that block it
+ */
+export interface ImportPlan {
+  languages: PlannedLanguage[]
+  points: PlannedPoint[]
+  issues: ImportIssue[]
+}
+
+/**
+ * Normalize a name, slug or code for matching: trimmed, lowercase,
+ * single spaces
+ *
+ * @param value - Raw value
+ * @returns Lookup key
+ */
+export function toLookupKey(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Row with an ID, a slug and translated names, as returned by reference queries
+ */
+export interface NamedRow {
+  id: string
+  slug?: string | null
+  translations?: Array<{ name: string }> | null
+}
+
+/**
+ * Build a lookup from rows with a slug and translated names
+ *
+ * The first row claims a key; later rows with the same name do not replace it.
+ *
+ * @param rows - Rows to index
+ * @param extraNames - Other names a row is known by (e.g. country codes)
+ * @returns Lookup key → row ID
+ */
+export function buildNameLookup<T extends NamedRow>(
+  rows: T[] | null,
+  extraNames?: (row: T) => Array<string | null>
+): Map<string, string> {
+  const lookup = new Map<string, string>()
+  for (const row of rows ?? []) {
+    const names = [
+      row.slug,
+      ...(extraNames ? extraNames(row) : []),
+      ...(row.translations ?? []).map((translation) => translation.name),
+    ]
+    for (const name of names) {
+      if (!name) continue
+      const key = toLookupKey(name)
+      if (!lookup.has(key)) {
+        lookup.set(key, row.id)
+      }
+    }
+  }
+  return lookup
+}
+
+/**
+ * Keys a language can be recognized by: its ISO code and its endonym
+ *
+ * @param isoCode - ISO 639-3 code, if any
+ * @param endonym - Endonym
+ * @returns Keys, most specific first
+ */
+export function toLanguageKeys(isoCode: string | null, endonym: string): string[] {
+  const keys = [`endonym:${toLookupKey(endonym)}`]
+  return isoCode ? [`iso:${isoCode.toLowerCase()}`, ...keys] : keys
+}
+
+/**
+ * Parse a decimal cell, accepting a decimal comma
+ *
+ * @param value - Cell text
+ * @returns Number, or NaN if the cell is not numeric
+ */
+function parseDecimal(value: string): number {
+  return value === '' ? NaN : Number(value.replace(',', '.'))
+}
+
+/**
+ * Plan an import
+ *
+ * @param table - Spreadsheet contents
+ * @param mapping - Column mapping
+ * @param reference - Existing city data
+ * @param geocoder - Resolves postal codes of rows without coordinates (optional)
+ * @returns Languages and points to create, and the problems found
+ */
+export async function planImport(
+  table: ImportTable,
+  mapping: ImportColumnMapping,
+  reference: ImportReference,
+  geocoder: Geocoder | null
+): Promise<ImportPlan> {
+  const languages: PlannedLanguage[] = []
+  const points: PlannedPoint[] = []
+  const issues: ImportIssue[] = []
+
+  // Language key aliases (ISO code and endonym) → planned language
+  const languagesByKey = new Map<string, PlannedLanguage>()
+  // Keys of languages whose first row failed validation
+  const failedKeys = new Set<string>()
+
+  for (const [index, row] of table.rows.entries()) {
+    const line = index + 2
+    const get = (field: ImportField) => {
+      const header = mapping.fields[field]
+      return header ? (row[header] ?? '').trim() : ''
+    }
+    const issue = (field: ImportIssue['field'], message: string) => {
+      issues.push({ line, field, message })
+    }
+
+    const endonym = sanitizeText(get('endonym'), VALIDATION_LIMITS.ENDONYM_MAX_LENGTH)
+    if (!endonym) {
+      issue('endonym', 'Endonym is required')
+      continue
+    }
+
+    const rawIsoCode = get('iso_639_3_code').toLowerCase()
+    const keys = toLanguageKeys(sanitizeISOCode(rawIsoCode), endonym)
+
+    if (keys.some((key) => failedKeys.has(key))) {
+      continue
+    }
+
+    let language = keys.map((key) => languagesByKey.get(key)).find(Boolean)
+
+    if (!language) {
+      const existingId = keys.map((key) => reference.existingLanguages.get(key)).find(Boolean)
+      const planned = existingId
+        ? planExistingLanguage(keys[0], existingId, endonym, line)
+        : planNewLanguage(keys[0], endonym, rawIsoCode, line, get, row, mapping, reference, issue)
+
+      if (!planned) {
+        keys.forEach((key) => failedKeys.add(key))
+        continue
+      }
+
+      language = planned
+      languages.push(language)
+      keys.forEach((key) => languagesByKey.set(key, planned))
+    }
+
+    const point = await planPoint(language.key, line, get, reference, geocoder, issue)
+    if (point) {
+      points.push(point)
+    }
+  }
+
+  return { languages, points, issues }
+}
+
+/**
+ * Reference an existing language of the city
+ */
+function planExistingLanguage(
+  key: string,
+  existingId: string,
+  endonym: string,
+  line: number
+): PlannedLanguage {
+  return {
+    key,
+    existingId,
+    line,
+    endonym,
+    iso_639_3_code: null,
+    language_family_id: null,
+    country_of_origin_id: null,
+    speaker_count: null,
+    translations: [],
+    taxonomy_value_ids: [],
+  }
+}
+
+/**
+ * Validate the language columns of a row and plan a new language
+ *
+ * @returns Planned language, or null if the row has language errors
+ */
+function planNewLanguage(
+  key: string,
+  endonym: string,
+  rawIsoCode: string,
+  line: number,
+  get: (field: ImportField) => string,
+  row: Record<string, string>,
+  mapping: ImportColumnMapping,
+  reference: ImportReference,
+  issue: (field: ImportIssue['field'], message: string) => void
+): PlannedLanguage | null {
+  let valid = true
+  const fail = (field: ImportIssue['field'], message: string) => {
+    valid = false
+    issue(field, message)
+  }
+
+  const resolve = (field: ImportField, lookup: Map<string, string>, label: string) => {
+    const value = get(field)
+    if (!value) return ''
+    const id = lookup.get(toLookupKey(value))
+    if (!id) fail(field, `Unknown ${label} "${value}"`)
+    return id ?? ''
+  }
+
+  const familyId = resolve('language_family', reference.families, 'language family')
+  const countryId = resolve('country_of_origin', reference.countries, 'country')
+
+  const rawSpeakerCount = get('speaker_count').replace(/[\s.,_']/g, '')
+  const speakerCount = rawSpeakerCount === '' ? undefined : Number(rawSpeakerCount)
+  if (speakerCount !== undefined && !Number.isInteger(speakerCount)) {
+    fail('speaker_count', `Speaker count "${get('speaker_count')}" is not a whole number`)
+  }
+
+  const taxonomyValueIds: string[] = []
+  // Types with an unknown value; their rules are not checked on top
+  const unknownValueTypes = new Set<string>()
+  for (const [typeSlug, header] of Object.entries(mapping.taxonomies)) {
+    const values = (row[header] ?? '')
+      .split(TAXONOMY_VALUE_SEPARATOR)
+      .map((value) => value.trim())
+      .filter(Boolean)
+    const lookup = reference.taxonomyValues.get(typeSlug) ?? new Map<string, string>()
+
+    for (const value of values) {
+      const id = lookup.get(toLookupKey(value))
+      if (id) {
+        taxonomyValueIds.push(id)
+      } else {
+        fail(`taxonomy:${typeSlug}`, `Unknown ${typeSlug} value "${value}"`)
+        unknownValueTypes.add(typeSlug)
+      }
+    }
+  }
+
+  // The database rejects the whole batch for one language that breaks a rule
+  for (const type of reference.taxonomyRules.filter((rule) => !unknownValueTypes.has(rule.slug))) {
+    for (const message of checkTaxonomyRules([type], taxonomyValueIds)) {
+      fail(`taxonomy:${type.slug}`, message)
+    }
+  }
+
+  const result = languageSchema.safeParse({
+    iso_639_3_code: rawIsoCode,
+    endonym,
+    language_family_id: familyId,
+    country_of_origin_id: countryId,
+    speaker_count: Number.isInteger(speakerCount) ? speakerCount : undefined,
+    names: Object.fromEntries(
+      reference.locales.map((locale) => [
+        locale,
+        sanitizeText(get(getNameField(locale)), VALIDATION_LIMITS.NAME_MAX_LENGTH),
+      ])
+    ),
+    taxonomy_value_ids: taxonomyValueIds,
+  })
+
+  if (!result.success) {
+    for (const zodIssue of result.error.issues) {
+      // Names are keyed by locale; their columns are name_<locale>
+      if (zodIssue.path[0] === 'names') {
+        fail(getNameField(String(zodIssue.path[1])), zodIssue.message)
+        continue
+      }
+      const path = String(zodIssue.path[0] ?? '')
+      const field = (IMPORT_FIELDS as readonly string[]).includes(path) ? (path as ImportField) : null
+      fail(field, zodIssue.message)
+    }
+  }
+
+  if (!valid || !result.success) {
+    return null
+  }
+
+  const data = result.data
+  const translations: PlannedLanguage['translations'] = Object.entries(data.names)
+    .filter(([, name]) => name)
+    .map(([locale_code, name]) => ({ locale_code, name }))
+
+  return {
+    key,
+    existingId: null,
+    line,
+    endonym: data.endonym,
+    iso_639_3_code: sanitizeISOCode(data.iso_639_3_code),
+    language_family_id: data.language_family_id || null,
+    country_of_origin_id: data.country_of_origin_id || null,
+    speaker_count: data.speaker_count ?? null,
+    translations,
+    taxonomy_value_ids: [...new Set(taxonomyValueIds)],
+  }
+}
+
+/**
+ * Read the point columns of a row
+ *
+ * @returns Planned point, or null if the row has no location or the location is invalid
+ */
+async function planPoint(
+  languageKey: string,
+  line: number,
+  get: (field: ImportField) => string,
+  reference: ImportReference,
+  geocoder: Geocoder | null,
+  issue: (field: ImportIssue['field'], message: string) => void
+): Promise<PlannedPoint | null> {
+  const rawLatitude = get('latitude')
+  const rawLongitude = get('longitude')
+  const postalCode = sanitizeText(get('postal_code'), POSTAL_CODE_MAX_LENGTH) || null
+
+  let latitude: number
+  let longitude: number
+  let geocoded = false
+
+  if (rawLatitude || rawLongitude) {
+    latitude = parseDecimal(rawLatitude)
+    longitude = parseDecimal(rawLongitude)
+
+    if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+      issue('latitude', `Latitude "${rawLatitude}" must be a number between -90 and 90`)
+      return null
+    }
+    if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+      issue('longitude', `Longitude "${rawLongitude}" must be a number between -180 and 180`)
+      return null
+    }
+  } else if (postalCode) {
+    const [match] = geocoder
+      ? await geocoder.geocode({ query: postalCode, bounds: reference.bounds, limit: 1 })
+      : []
+
+    if (!match) {
+      issue('postal_code', `Postal code "${postalCode}" could not be geocoded`)
+      return null
+    }
+
+    latitude = match.latitude
+    longitude = match.longitude
+    geocoded = true
+  } else {
+    // Language-only row
+    return null
+  }
+
+  if (!isWithinCityBounds(reference.bounds, latitude, longitude)) {
+    issue(
+      'latitude',
+      areCoordinatesSwapped(reference.bounds, latitude, longitude)
+        ? 'Coordinates are outside the city bounds. Latitude and longitude appear to be swapped.'
+        : 'Coordinates are outside the city bounds'
+    )
+    return null
+  }
+
+  const neighborhood = get('neighborhood')
+  const neighborhoodId = neighborhood ? reference.neighborhoods.get(toLookupKey(neighborhood)) : null
+  if (neighborhood && !neighborhoodId) {
+    issue('neighborhood', `Unknown neighborhood "${neighborhood}"`)
+    return null
+  }
+
+  return {
+    language_key: languageKey,
+    line,
+    latitude,
+    longitude,
+    neighborhood_id: neighborhoodId ?? null,
+    postal_code: postalCode,
+    community_name: sanitizeText(get('community_name'), VALIDATION_LIMITS.NAME_MAX_LENGTH) || null,
+    notes: sanitizeText(get('notes'), VALIDATION_LIMITS.DESCRIPTION_MAX_LENGTH) || null,
+    geocoded,
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * @file spreadsheet.test.ts
+ * @description Unit tests for reading uploaded import files.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MAX_IMPORT_FILE_SIZE, readImportFile, sheetToImportTable } from './spreadsheet'
+
+/**
+ * jsdom's File has no text(); provide one backed by the given contents
+ */
+const createFile = (contents: string, name: string, size = contents.length) => {
+  const file = new File([contents], name)
+  Object.defineProperty(file, 'text', { value: async () => contents })
+  Object.defineProperty(file, 'size', { value: size })
+  return file
+}
+
+describe('sheetToImportTable', () => {
+  it('keys rows by header and converts cells to text', () => {
+    const table = sheetToImportTable([
+      ['Endonym', null, 'Since'],
+      ['Türkçe', 40000, new Date('2020-05-01T00:00:00Z')],
+      [null, null, null],
+    ])
+
+    expect(table).toEqual({
+      headers: ['Endonym', 'Column 2', 'Since'],
+      rows: [{ Endonym: 'Türkçe', 'Column 2': '40000', Since: '2020-05-01' }],
+    })
+  })
+})
+
+describe('readImportFile', () => {
+  it('reads a CSV file', async () => {
+    const result = await readImportFile(createFile('endonym;name_en\nTürkçe;Turkish\n', 'languages.csv'))
+
+    expect(result).toEqual({
+      table: { headers: ['endonym', 'name_en'], rows: [{ endonym: 'Türkçe', name_en: 'Turkish' }] },
+      error: null,
+    })
+  })
+
+  it('rejects unsupported, oversized, empty and ambiguous files', async () => {
+    expect((await readImportFile(createFile('x', 'languages.ods'))).error).toBe('unsupportedFormat')
+    expect((await readImportFile(createFile('x', 'languages.csv', MAX_IMPORT_FILE_SIZE + 1))).error).toBe('fileTooLarge')
+    expect((await readImportFile(createFile('endonym\n', 'languages.csv'))).error).toBe('noRows')
+    expect((await readImportFile(createFile('name,name\na,b\n', 'languages.csv'))).error).toBe('duplicateHeaders')
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Spreadsheet Reading
+ * ===================
+ * Reads an uploaded CSV or XLSX file into an import table in the browser.
+ * Only the first worksheet of an XLSX file is imported.
+ *
+ * @module lib/import/spreadsheet
+ */
+
+import { readSheet } from 'read-excel-file/browser'
+import { parseCsv } from '@/lib/csv'
+import { MAX_IMPORT_ROWS, type ImportTable } from './fields'
+
+/**
+ * Maximum size of an uploaded spreadsheet in bytes. Keep it below the
+ * server action body limit in next.config.ts.
+ */
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024
+
+/**
+ * Problem reading a spreadsheet
+ */
+export type SpreadsheetReadError =
+  | 'unsupportedFormat'
+  | 'fileTooLarge'
+  | 'unreadable'
+  | 'noRows'
+  | 'tooManyRows'
+  | 'duplicateHeaders'
+
+/**
+ * Result of reading a spreadsheet
+ */
+export type SpreadsheetReadResult =
+  | { table: ImportTable; error: null }
+  | { table: null; error: SpreadsheetReadError }
+
+/**
+ * Convert a worksheet cell to the text a CSV file would contain
+ */
+function cellToString(cell: unknown): string {
+  if (cell === null || cell === undefined) return ''
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10)
+  return String(cell).trim()
+}
+
+/**
+ * Build an import table from worksheet rows (first row is the header)
+ *
+ * @param sheet - Worksheet rows
+ * @returns Import table; empty header cells become `Column N`
+ */
+export function sheetToImportTable(sheet: unknown[][]): ImportTable {
+  const [headerRow = [], ...dataRows] = sheet
+  const headers = headerRow.map((cell, index) => cellToString(cell) || `Column ${index + 1}`)
+
+  const rows = dataRows
+    .map((cells) => Object.fromEntries(headers.map((header, index) => [header, cellToString(cells[index])])))
+    .filter((row) => Object.values(row).some((value) => value !== ''))
+
+  return { headers, rows }
+}
+
+/**
+ * Check the size limits and header uniqueness of a table
+ */
+function checkTable(table: ImportTable): SpreadsheetReadResult {
+  if (table.rows.length === 0) {
+    return { table: null, error: 'noRows' }
+  }
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    return { table: null, error: 'tooManyRows' }
+  }
+  if (new Set(table.headers).size !== table.headers.length) {
+    return { table: null, error: 'duplicateHeaders' }
+  }
+  return { table, error: null }
+}
+
+/**
+ * Read an uploaded CSV or XLSX file
+ *
+ * @param file - Selected file
+ * @returns Import table, or the reason it could not be read
+ */
+export async function readImportFile(file: File): Promise<SpreadsheetReadResult> {
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    return { table: null, error: 'fileTooLarge' }
+  }
+
+  const name = file.name.toLowerCase()
+
+  try {
+    if (name.endsWith('.csv') || name.endsWith('.txt')) {
+      return checkTable(parseCsv(await file.text()))
+    }
+
+    if (name.endsWith('.xlsx')) {
+      return checkTable(sheetToImportTable(await readSheet(file)))
+    }
+  } catch (error) {
+    console.error('Error reading import file:', error)
+    return { table: null, error: 'unreadable' }
+  }
+
+  return { table: null, error: 'unsupportedFormat' }
+}
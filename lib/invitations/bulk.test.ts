@@ -0,0 +1,73 @@
+/**
+ * @file bulk.test.ts
+ * @description Tests for reading bulk invitation uploads
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MAX_BULK_INVITATIONS, parseBulkInvitations } from './bulk'
+
+describe('parseBulkInvitations', () => {
+  it('reads email, name, role and locale columns', () => {
+    const result = parseBulkInvitations(
+      'Email,Full Name,Role,Locale\r\nAna@Example.com, Ana de Vries ,admin,nl\r\nben@example.com,Ben,,\r\n',
+      'fr'
+    )
+
+    expect(result.issues).toEqual([])
+    expect(result.invitations).toEqual([
+      { line: 2, email: 'ana@example.com', fullName: 'Ana de Vries', role: 'admin', locale: 'nl' },
+      { line: 3, email: 'ben@example.com', fullName: 'Ben', role: 'operator', locale: 'fr' },
+    ])
+  })
+
+  it('accepts semicolon-separated files with a name column and no optional columns', () => {
+    const result = parseBulkInvitations('name;email\nCleo;cleo@example.com', 'en')
+
+    expect(result.invitations).toEqual([
+      { line: 2, email: 'cleo@example.com', fullName: 'Cleo', role: 'operator', locale: 'en' },
+    ])
+  })
+
+  it('reports invalid rows and keeps the valid ones', () => {
+    const result = parseBulkInvitations(
+      'email,full_name,role,locale\nnot-an-email,Ana,operator,en\nben@example.com,,operator,en\ncleo@example.com,Cleo,owner,en\ndan@example.com,Dan,operator,de\neve@example.com,Eve,operator,en',
+      'en'
+    )
+
+    expect(result.invitations.map((invitation) => invitation.email)).toEqual(['eve@example.com'])
+    expect(result.issues.map((issue) => issue.line)).toEqual([2, 3, 4, 5])
+    expect(result.issues[0].message).toContain('Invalid email address')
+    expect(result.issues[1].message).toContain('Full name is required')
+  })
+
+  it('invites an address listed twice only once', () => {
+    const result = parseBulkInvitations('email,full_name\nana@example.com,Ana\nANA@example.com,Ana again', 'en')
+
+    expect(result.invitations).toHaveLength(1)
+    expect(result.issues).toEqual([{ line: 3, message: 'ana@example.com is listed more than once' }])
+  })
+
+  it('skips blank lines', () => {
+    const result = parseBulkInvitations('email,full_name\n\nana@example.com,Ana\n,\n', 'en')
+
+    expect(result.invitations).toHaveLength(1)
+    expect(result.issues).toEqual([])
+  })
+
+  it('requires email and name columns', () => {
+    const result = parseBulkInvitations('address,role\nana@example.com,admin', 'en')
+
+    expect(result.invitations).toEqual([])
+    expect(result.issues).toEqual([{ line: 1, message: 'The file needs an "email" and a "full_name" column' }])
+  })
+
+  it('rejects empty and oversized files', () => {
+    expect(parseBulkInvitations('email,full_name\n', 'en').issues[0].message).toBe('The file has no rows')
+
+    const rows = Array.from({ length: MAX_BULK_INVITATIONS + 1 }, (_, index) => `user${index}@example.com,User ${index}`)
+    const result = parseBulkInvitations(['email,full_name', ...rows].join('\n'), 'en')
+
+    expect(result.invitations).toEqual([])
+    expect(result.issues[0].message).toBe(`At most ${MAX_BULK_INVITATIONS} invitations can be sent at once`)
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Bulk Invitations
+ * ================
+ * Reads a CSV file of people to invite to a city, one per row. Columns are
+ * matched by header, case-insensitively:
+ *
+ * - `email` (required)
+ * - `full_name` or `name` (required)
+ * - `role`: `admin` or `operator` (default `operator`)
+ * - `locale`: language of the invitation email (default: the given locale)
+ *
+ * Client-safe: the invitation page previews the rows before sending, the
+ * server action validates them again.
+ *
+ * @module lib/invitations/bulk
+ */
+
+import { z } from 'zod'
+import { parseCsv } from '@/lib/csv'
+import { locales, type Locale } from '@/lib/i18n/config'
+
+/**
+ * Maximum number of invitations in one upload
+ */
+export const MAX_BULK_INVITATIONS = 200
+
+/**
+ * One person to invite
+ */
+export const bulkInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  fullName: z.string().trim().min(1, 'Full name is required').max(255, 'Name too long'),
+  role: z.enum(['admin', 'operator'] as const),
+  locale: z.enum(locales),
+})
+
+export type BulkInvitation = z.infer<typeof bulkInvitationSchema>
+
+/**
+ * Problem with a row of the upload
+ */
+export interface BulkInvitationIssue {
+  /** Line in the file (the header is line 1) */
+  line: number
+  message: string
+}
+
+/**
+ * Rows read from an upload
+ */
+export interface BulkInvitationFile {
+  invitations: Array<BulkInvitation & { line: number }>
+  issues: BulkInvitationIssue[]
+}
+
+const COLUMN_ALIASES: Record<'email' | 'fullName' | 'role' | 'locale', string[]> = {
+  email: ['email', 'e-mail', 'email_address'],
+  fullName: ['full_name', 'fullname', 'name'],
+  role: ['role'],
+  locale: ['locale', 'language'],
+}
+
+/**
+ * Find the header used for a column, if any
+ */
+function findHeader(headers: string[], aliases: string[]): string | null {
+  return headers.find((header) => aliases.includes(header.toLowerCase().replace(/\s+/g, '_'))) ?? null
+}
+
+/**
+ * Read the invitations in a CSV file
+ *
+ * Rows are checked independently; a file with some invalid rows still
+ * yields the valid ones. An email address listed twice is only invited once.
+ *
+ * @param text - CSV text with a header row
+ * @param defaultLocale - Locale for rows without a `locale` column or value
+ * @returns Valid invitations and the problems found
+ */
+export function parseBulkInvitations(text: string, defaultLocale: Locale): BulkInvitationFile {
+  const { headers, rows } = parseCsv(text)
+  const emailHeader = findHeader(headers, COLUMN_ALIASES.email)
+  const nameHeader = findHeader(headers, COLUMN_ALIASES.fullName)
+  const roleHeader = findHeader(headers, COLUMN_ALIASES.role)
+  const localeHeader = findHeader(headers, COLUMN_ALIASES.locale)
+
+  if (!emailHeader || !nameHeader) {
+    return { invitations: [], issues: [{ line: 1, message: 'The file needs an "email" and a "full_name" column' }] }
+  }
+
+  const dataRows = rows
+    .map((row, index) => ({ row, line: index + 2 }))
+    .filter(({ row }) => Object.values(row).some((value) => value !== ''))
+
+  if (dataRows.length === 0) {
+    return { invitations: [], issues: [{ line: 1, message: 'The file has no rows' }] }
+  }
+
+  if (dataRows.length > MAX_BULK_INVITATIONS) {
+    return {
+      invitations: [],
+      issues: [{ line: 1, message: `At most ${MAX_BULK_INVITATIONS} invitations can be sent at once` }],
+    }
+  }
+
+  const invitations: BulkInvitationFile['invitations'] = []
+  const issues: BulkInvitationIssue[] = []
+  const seen = new Set<string>()
+
+  for (const { row, line } of dataRows) {
+    const validation = bulkInvitationSchema.safeParse({
+      email: row[emailHeader],
+      fullName: row[nameHeader],
+      role: (roleHeader && row[roleHeader].toLowerCase()) || 'operator',
+      locale: (localeHeader && row[localeHeader].toLowerCase()) || defaultLocale,
+    })
+
+    if (!validation.success) {
+      issues.push({ line, message: validation.error.issues.map((issue) => issue.message).join(', ') })
+      continue
+    }
+
+    if (seen.has(validation.data.email)) {
+      issues.push({ line, message: `${validation.data.email} is listed more than once` })
+      continue
+    }
+
+    seen.add(validation.data.email)
+    invitations.push({ ...validation.data, line })
+  }
+
+  return { invitations, issues }
+}
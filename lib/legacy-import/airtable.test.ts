@@ -0,0 +1,97 @@
+/**
+ * @file airtable.test.ts
+ * @description Unit tests for reading Airtable exports of the legacy
+ * Amsterdam dataset.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseAirtableExport } from './airtable'
+
+const turkishFields = {
+  Language: 'Turkish',
+  Endonym: 'Türkçe',
+  'ISO 639-3': 'TUR',
+  Glottocode: 'nucl1301',
+  'Language Family': 'Turkic',
+  Country: ['Turkey'],
+  Size: 'Large',
+  sizeColor: '#f26b1d',
+  Status: 'Community',
+  Latitude: 52.3584,
+  Longitude: 4.8119,
+  'Primary Location': 'Bos en Lommer',
+  'Additional Neighborhoods': ['De Baarsjes', 'Geuzenveld'],
+}
+
+describe('parseAirtableExport', () => {
+  it('reads Airtable API JSON', () => {
+    const result = parseAirtableExport(JSON.stringify({ records: [{ id: 'rec1', fields: turkishFields }] }), 'json')
+
+    expect(result.issues).toEqual([])
+    expect(result.instances).toEqual([
+      {
+        recordId: 'rec1',
+        language: 'Turkish',
+        endonym: 'Türkçe',
+        isoCode: 'tur',
+        glottocode: 'nucl1301',
+        languageFamily: 'Turkic',
+        countries: ['Turkey'],
+        size: 'Large',
+        sizeColor: '#F26B1D',
+        status: 'Community',
+        latitude: 52.3584,
+        longitude: 4.8119,
+        neighborhood: 'Bos en Lommer',
+        additionalNeighborhoods: ['De Baarsjes', 'Geuzenveld'],
+        description: null,
+        audio: null,
+        video: null,
+      },
+    ])
+  })
+
+  it('reads a CSV grid export with comma-joined lists', () => {
+    const csv = [
+      'id,Language,Endonym,Size,Status,Latitude,Longitude,Neighborhood,Additional Neighborhoods',
+      'rec2,Tarifit,https://example.org/tarifit.png,small,Residential,52.37,4.85,Slotervaart,"Osdorp, Geuzenveld"',
+    ].join('\n')
+
+    const [instance] = parseAirtableExport(csv, 'csv').instances
+
+    expect(instance).toMatchObject({
+      recordId: 'rec2',
+      endonym: 'Tarifit',
+      size: 'Small',
+      status: 'Residential',
+      latitude: 52.37,
+      neighborhood: 'Slotervaart',
+      additionalNeighborhoods: ['Osdorp', 'Geuzenveld'],
+    })
+  })
+
+  it('skips records without a language or coordinates and flags unknown options', () => {
+    const result = parseAirtableExport(
+      JSON.stringify([
+        { Endonym: 'Nameless', Latitude: 52.3, Longitude: 4.9 },
+        { Language: 'Papiamento', Latitude: '', Longitude: 4.9 },
+        { Language: 'Sranan', Latitude: '52.31', Longitude: '4.97', Size: 'Huge', Status: 'Thriving' },
+      ]),
+      'json'
+    )
+
+    expect(result.instances.map((instance) => [instance.language, instance.size, instance.status])).toEqual([
+      ['Sranan', null, null],
+    ])
+    expect(result.issues).toEqual([
+      { recordId: 'row 1', message: 'Language is missing' },
+      { recordId: 'row 2', message: 'Papiamento: Latitude and Longitude are required' },
+      { recordId: 'row 3', message: 'Sranan: unknown Size "Huge"' },
+      { recordId: 'row 3', message: 'Sranan: unknown Status "Thriving"' },
+    ])
+  })
+
+  it('rejects JSON without records', () => {
+    expect(() => parseAirtableExport('{"data": []}', 'json')).toThrow('"records" array')
+  })
+})
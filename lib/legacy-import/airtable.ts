@@ -0,0 +1,232 @@
+/**
+ * Legacy Airtable Export
+ * ======================
+ * Reads an Airtable export of the old Amsterdam language map. Each record
+ * is one language instance in the shape of `InstanceLevelSchema` in
+ * `reusable-code/types-reference.ts`: a point with the language name,
+ * endonym, Size, Status, Primary Location, Neighborhood and so on.
+ *
+ * Both the Airtable API JSON (`{ records: [{ id, fields }] }`), a plain
+ * array of field objects and the CSV download of a grid view are accepted.
+ * In CSV exports, multi-value fields are joined with commas.
+ *
+ * @module lib/legacy-import/airtable
+ */
+
+import { parseCsv } from '@/lib/csv'
+
+/**
+ * Size values of the legacy dataset, smallest first
+ */
+export const LEGACY_SIZES = ['Smallest', 'Small', 'Medium', 'Large', 'Largest'] as const
+
+export type LegacySize = (typeof LEGACY_SIZES)[number]
+
+/**
+ * Status values of the legacy dataset (`Statuses` in the types reference)
+ */
+export const LEGACY_STATUSES = ['Historical', 'Community', 'Liturgical', 'Residential', 'Reviving'] as const
+
+export type LegacyStatus = (typeof LEGACY_STATUSES)[number]
+
+/**
+ * One legacy record, normalized
+ */
+export interface LegacyInstance {
+  /** Airtable record ID, or `row N` for exports without IDs */
+  recordId: string
+  /** English language name (`Language`) */
+  language: string
+  /** Endonym; falls back to the English name when the export has an image link */
+  endonym: string
+  isoCode: string | null
+  glottocode: string | null
+  languageFamily: string | null
+  /** Countries of origin, first is the primary one */
+  countries: string[]
+  size: LegacySize | null
+  /** Hex color the old map used for the size */
+  sizeColor: string | null
+  status: LegacyStatus | null
+  latitude: number
+  longitude: number
+  /** `Neighborhood`, or `Primary Location` when there is none */
+  neighborhood: string | null
+  additionalNeighborhoods: string[]
+  description: string | null
+  audio: string | null
+  video: string | null
+}
+
+/**
+ * Problem with one legacy record
+ */
+export interface LegacyRecordIssue {
+  recordId: string
+  message: string
+}
+
+/**
+ * Result of reading an export
+ */
+export interface LegacyExport {
+  instances: LegacyInstance[]
+  issues: LegacyRecordIssue[]
+}
+
+/**
+ * Export file format
+ */
+export type LegacyExportFormat = 'json' | 'csv'
+
+type LegacyFields = Record<string, unknown>
+
+/**
+ * Read a text field; arrays (linked records, lookups) give their first entry
+ */
+function readText(fields: LegacyFields, name: string): string | null {
+  const value = fields[name]
+  const first = Array.isArray(value) ? value[0] : value
+  if (first === null || first === undefined) return null
+  const text = String(first).trim()
+  return text === '' ? null : text
+}
+
+/**
+ * Read a multi-value field; CSV cells are split on commas
+ */
+function readList(fields: LegacyFields, name: string): string[] {
+  const value = fields[name]
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+  return items.map((item) => String(item).trim()).filter(Boolean)
+}
+
+/**
+ * Read a numeric field
+ */
+function readNumber(fields: LegacyFields, name: string): number | null {
+  const value = fields[name]
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string' || value.trim() === '') return null
+  const number = Number(value.trim())
+  return Number.isFinite(number) ? number : null
+}
+
+/**
+ * Read a value that must be one of the allowed options (case-insensitive)
+ */
+function readOption<T extends string>(fields: LegacyFields, name: string, options: readonly T[]): T | null | undefined {
+  const text = readText(fields, name)
+  if (text === null) return null
+  return options.find((option) => option.toLowerCase() === text.toLowerCase())
+}
+
+/**
+ * Convert the fields of one record
+ *
+ * @param recordId - Record ID for reports
+ * @param fields - Airtable fields
+ * @param issues - Collects problems
+ * @returns Normalized instance, or null if the record cannot be imported
+ */
+function toInstance(recordId: string, fields: LegacyFields, issues: LegacyRecordIssue[]): LegacyInstance | null {
+  const issue = (message: string) => issues.push({ recordId, message })
+
+  const language = readText(fields, 'Language') ?? readText(fields, 'name')
+  if (!language) {
+    issue('Language is missing')
+    return null
+  }
+
+  const latitude = readNumber(fields, 'Latitude')
+  const longitude = readNumber(fields, 'Longitude')
+  if (latitude === null || longitude === null) {
+    issue(`${language}: Latitude and Longitude are required`)
+    return null
+  }
+
+  // The old map stored images of some scripts as links instead of text
+  const rawEndonym = readText(fields, 'Endonym')
+  const endonym = rawEndonym && !/^https?:\/\//i.test(rawEndonym) ? rawEndonym : language
+
+  const size = readOption(fields, 'Size', LEGACY_SIZES)
+  if (size === undefined) {
+    issue(`${language}: unknown Size "${readText(fields, 'Size')}"`)
+  }
+
+  const status = readOption(fields, 'Status', LEGACY_STATUSES)
+  if (status === undefined) {
+    issue(`${language}: unknown Status "${readText(fields, 'Status')}"`)
+  }
+
+  const sizeColor = readText(fields, 'sizeColor')
+
+  return {
+    recordId,
+    language,
+    endonym,
+    isoCode: readText(fields, 'ISO 639-3')?.toLowerCase() ?? null,
+    glottocode: readText(fields, 'Glottocode'),
+    languageFamily: readText(fields, 'Language Family'),
+    countries: readList(fields, 'Country'),
+    size: size ?? null,
+    sizeColor: sizeColor && /^#[0-9a-f]{6}$/i.test(sizeColor) ? sizeColor.toUpperCase() : null,
+    status: status ?? null,
+    latitude,
+    longitude,
+    neighborhood: readText(fields, 'Neighborhood') ?? readText(fields, 'Primary Location'),
+    additionalNeighborhoods: readList(fields, 'Additional Neighborhoods'),
+    description: readText(fields, 'Description'),
+    audio: readText(fields, 'Audio'),
+    video: readText(fields, 'Video'),
+  }
+}
+
+/**
+ * Get the records of a JSON export as `[id, fields]` pairs
+ */
+function readJsonRecords(text: string): Array<[string | null, LegacyFields]> {
+  const parsed: unknown = JSON.parse(text)
+  const records = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' && Array.isArray((parsed as { records?: unknown }).records)
+      ? (parsed as { records: unknown[] }).records
+      : null
+
+  if (!records) {
+    throw new Error('Expected an array of records or an object with a "records" array')
+  }
+
+  return records.map((record) => {
+    const value = (record ?? {}) as { id?: unknown; fields?: unknown }
+    if (value.fields && typeof value.fields === 'object') {
+      return [typeof value.id === 'string' ? value.id : null, value.fields as LegacyFields]
+    }
+    return [typeof value.id === 'string' ? value.id : null, value as LegacyFields]
+  })
+}
+
+/**
+ * Read an Airtable export of the legacy dataset
+ *
+ * @param text - File contents
+ * @param format - `json` (API or array of records) or `csv` (grid view download)
+ * @returns Importable instances and the records that were skipped or changed
+ * @throws {Error} If the file is not valid JSON or has no records array
+ */
+export function parseAirtableExport(text: string, format: LegacyExportFormat): LegacyExport {
+  const records: Array<[string | null, LegacyFields]> =
+    format === 'json' ? readJsonRecords(text) : parseCsv(text).rows.map((row) => [row.id || null, row])
+
+  const instances: LegacyInstance[] = []
+  const issues: LegacyRecordIssue[] = []
+
+  records.forEach(([id, fields], index) => {
+    const instance = toInstance(id ?? `row ${index + 1}`, fields, issues)
+    if (instance) {
+      instances.push(instance)
+    }
+  })
+
+  return { instances, issues }
+}
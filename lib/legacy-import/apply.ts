@@ -0,0 +1,301 @@
+/**
+ * Legacy Import Storage
+ * =====================
+ * Reads what a city already has and writes a legacy import plan. Meant for
+ * the command-line importer, which uses the service role client.
+ *
+ * Taxonomies and neighborhoods are created first; languages and points are
+ * then written in one transaction by `import_languages_and_points`.
+ *
+ * @module lib/legacy-import/apply
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseCityBounds, toNumber } from '@/lib/map/bounds'
+import { buildNameLookup, toLanguageKeys, type NamedRow } from '@/lib/import/plan'
+import type { LegacyNames } from './taxonomies'
+import {
+  findNeighborhood,
+  toNeighborhoodSlug,
+  toPointKey,
+  type LegacyImportPlan,
+  type LegacySnapshot,
+} from './plan'
+
+/**
+ * Number of language IDs per point query
+ */
+const LANGUAGE_QUERY_CHUNK_SIZE = 200
+
+/**
+ * Counts of created rows
+ */
+export interface LegacyImportResult {
+  taxonomyTypes: number
+  taxonomyValues: number
+  neighborhoods: number
+  languages: number
+  points: number
+}
+
+/**
+ * Throw a descriptive error for a failed query
+ */
+function check(error: { message: string } | null, action: string): void {
+  if (error) {
+    throw new Error(`Failed to ${action}: ${error.message}`)
+  }
+}
+
+/**
+ * Turn names per locale into translation rows
+ */
+function toTranslations(idColumn: string, id: string, names: LegacyNames): Array<Record<string, string>> {
+  return Object.entries(names).map(([locale_code, name]) => ({ [idColumn]: id, locale_code, name }))
+}
+
+/**
+ * Load what a city already has
+ *
+ * @param supabase - Supabase client
+ * @param cityId - UUID of the city
+ * @returns Snapshot for `planLegacyImport`
+ * @throws {Error} If a query fails
+ */
+export async function loadLegacySnapshot(supabase: SupabaseClient, cityId: string): Promise<LegacySnapshot> {
+  const [city, taxonomyTypes, families, countries, districts, languages] = await Promise.all([
+    supabase
+      .from('cities')
+      .select('bounds_min_lat, bounds_max_lat, bounds_min_lng, bounds_max_lng')
+      .eq('id', cityId)
+      .single(),
+    supabase
+      .from('taxonomy_types')
+      .select('id, slug, is_required, values:taxonomy_values (id, slug, deleted_at)')
+      .eq('city_id', cityId),
+    supabase.from('language_families').select('id, slug, translations:language_family_translations (name)'),
+    supabase.from('countries').select('id, iso_code_2, iso_code_3, translations:country_translations (name)'),
+    supabase.from('districts').select('id').eq('city_id', cityId).is('deleted_at', null),
+    supabase.from('languages').select('id, iso_639_3_code, endonym').eq('city_id', cityId).is('deleted_at', null),
+  ])
+
+  check(city.error, 'load city')
+  check(taxonomyTypes.error, 'load taxonomy types')
+  check(families.error, 'load language families')
+  check(countries.error, 'load countries')
+  check(districts.error, 'load districts')
+  check(languages.error, 'load languages')
+
+  let neighborhoodRows: NamedRow[] = []
+  const districtIds = (districts.data ?? []).map((district) => district.id as string)
+  if (districtIds.length > 0) {
+    const { data, error } = await supabase
+      .from('neighborhoods')
+      .select('id, slug, translations:neighborhood_translations (name)')
+      .in('district_id', districtIds)
+      .is('deleted_at', null)
+    check(error, 'load neighborhoods')
+    neighborhoodRows = (data ?? []) as NamedRow[]
+  }
+
+  const languageRows = (languages.data ?? []) as Array<{ id: string; iso_639_3_code: string | null; endonym: string }>
+  const languageLookup = new Map<string, string>()
+  for (const language of languageRows) {
+    for (const key of toLanguageKeys(language.iso_639_3_code, language.endonym)) {
+      if (!languageLookup.has(key)) {
+        languageLookup.set(key, language.id)
+      }
+    }
+  }
+
+  const points = new Set<string>()
+  for (let start = 0; start < languageRows.length; start += LANGUAGE_QUERY_CHUNK_SIZE) {
+    const ids = languageRows.slice(start, start + LANGUAGE_QUERY_CHUNK_SIZE).map((language) => language.id)
+    const { data, error } = await supabase
+      .from('language_points')
+      .select('language_id, latitude, longitude')
+      .in('language_id', ids)
+      .is('deleted_at', null)
+    check(error, 'load language points')
+
+    for (const point of (data ?? []) as Array<{ language_id: string; latitude: number | string; longitude: number | string }>) {
+      const latitude = toNumber(point.latitude)
+      const longitude = toNumber(point.longitude)
+      if (latitude !== null && longitude !== null) {
+        points.add(toPointKey(point.language_id, latitude, longitude))
+      }
+    }
+  }
+
+  const taxonomyTypeMap: LegacySnapshot['taxonomyTypes'] = new Map()
+  for (const type of (taxonomyTypes.data ?? []) as Array<{
+    id: string
+    slug: string
+    is_required: boolean
+    values: Array<{ id: string; slug: string; deleted_at: string | null }> | null
+  }>) {
+    const values = type.values ?? []
+    taxonomyTypeMap.set(type.slug, {
+      id: type.id,
+      isRequired: type.is_required,
+      values: new Map(values.filter((value) => !value.deleted_at).map((value) => [value.slug, value.id])),
+      trashedValues: new Set(values.filter((value) => value.deleted_at).map((value) => value.slug)),
+    })
+  }
+
+  return {
+    bounds: city.data ? parseCityBounds(city.data) : null,
+    taxonomyTypes: taxonomyTypeMap,
+    families: buildNameLookup(families.data as NamedRow[] | null),
+    countries: buildNameLookup(
+      countries.data as Array<NamedRow & { iso_code_2: string | null; iso_code_3: string | null }> | null,
+      (country) => [country.iso_code_2, country.iso_code_3]
+    ),
+    neighborhoods: buildNameLookup(neighborhoodRows),
+    languages: languageLookup,
+    points,
+  }
+}
+
+/**
+ * Write a legacy import plan
+ *
+ * @param supabase - Supabase client allowed to write the city's data
+ * @param cityId - UUID of the city
+ * @param plan - Plan from `planLegacyImport` against `snapshot`
+ * @param snapshot - Snapshot the plan was made from (updated with created IDs)
+ * @param districtId - District for new neighborhoods (required if the plan creates any)
+ * @returns Counts of created rows
+ * @throws {Error} If a write fails; rerunning the import picks up where it stopped
+ */
+export async function applyLegacyImport(
+  supabase: SupabaseClient,
+  cityId: string,
+  plan: LegacyImportPlan,
+  snapshot: LegacySnapshot,
+  districtId: string | null
+): Promise<LegacyImportResult> {
+  const result: LegacyImportResult = { taxonomyTypes: 0, taxonomyValues: 0, neighborhoods: 0, languages: 0, points: 0 }
+
+  // 1. Taxonomy types and values
+  for (const { taxonomy, typeId, values } of plan.taxonomies) {
+    let id = typeId
+
+    if (!id) {
+      const { data, error } = await supabase
+        .from('taxonomy_types')
+        .insert({
+          city_id: cityId,
+          slug: taxonomy.slug,
+          is_required: taxonomy.isRequired,
+          allow_multiple: false,
+          use_for_map_styling: taxonomy.useForMapStyling,
+          use_for_filtering: true,
+          display_order: taxonomy.displayOrder,
+        })
+        .select('id')
+        .single()
+      check(error, `create taxonomy type "${taxonomy.slug}"`)
+      id = (data as { id: string }).id
+
+      const { error: translationError } = await supabase
+        .from('taxonomy_type_translations')
+        .insert(toTranslations('taxonomy_type_id', id, taxonomy.names))
+      check(translationError, `translate taxonomy type "${taxonomy.slug}"`)
+
+      snapshot.taxonomyTypes.set(taxonomy.slug, {
+        id,
+        isRequired: taxonomy.isRequired,
+        values: new Map(),
+        trashedValues: new Set(),
+      })
+      result.taxonomyTypes++
+    }
+
+    const type = snapshot.taxonomyTypes.get(taxonomy.slug)!
+    for (const value of values) {
+      const { data, error } = await supabase
+        .from('taxonomy_values')
+        .insert({
+          taxonomy_type_id: id,
+          slug: value.slug,
+          color_hex: value.color,
+          display_order: taxonomy.values.findIndex((candidate) => candidate.slug === value.slug),
+        })
+        .select('id')
+        .single()
+      check(error, `create ${taxonomy.slug} value "${value.slug}"`)
+      const valueId = (data as { id: string }).id
+
+      const { error: translationError } = await supabase
+        .from('taxonomy_value_translations')
+        .insert(toTranslations('taxonomy_value_id', valueId, value.names))
+      check(translationError, `translate ${taxonomy.slug} value "${value.slug}"`)
+
+      type.values.set(value.slug, valueId)
+      result.taxonomyValues++
+    }
+  }
+
+  // 2. Neighborhoods
+  if (plan.neighborhoods.length > 0 && !districtId) {
+    throw new Error('A district is required to create neighborhoods')
+  }
+
+  for (const name of plan.neighborhoods) {
+    const slug = toNeighborhoodSlug(name)
+    const { data, error } = await supabase
+      .from('neighborhoods')
+      .insert({ district_id: districtId, slug })
+      .select('id')
+      .single()
+    check(error, `create neighborhood "${name}"`)
+    const id = (data as { id: string }).id
+
+    const { error: translationError } = await supabase
+      .from('neighborhood_translations')
+      .insert(toTranslations('neighborhood_id', id, { en: name, nl: name, fr: name }))
+    check(translationError, `translate neighborhood "${name}"`)
+
+    snapshot.neighborhoods.set(slug, id)
+    result.neighborhoods++
+  }
+
+  // 3. Languages and points, in one transaction
+  if (plan.points.length === 0 && plan.languages.every((language) => language.existingId)) {
+    return result
+  }
+
+  const { data, error } = await supabase.rpc('import_languages_and_points', {
+    p_city_id: cityId,
+    p_languages: plan.languages.map((language) => ({
+      key: language.key,
+      existing_id: language.existingId,
+      endonym: language.endonym,
+      iso_639_3_code: language.isoCode,
+      language_family_id: language.familyId,
+      country_of_origin_id: language.countryId,
+      speaker_count: null,
+      translations: [{ locale_code: 'en', name: language.name }],
+      taxonomy_value_ids: language.taxonomyValues
+        .map(({ type, value }) => snapshot.taxonomyTypes.get(type)?.values.get(value))
+        .filter(Boolean),
+    })),
+    p_points: plan.points.map((point) => ({
+      language_key: point.languageKey,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      neighborhood_id: point.neighborhood ? (findNeighborhood(snapshot, point.neighborhood) ?? null) : null,
+      postal_code: null,
+      community_name: null,
+      notes: point.notes,
+    })),
+  })
+  check(error, 'import languages and points')
+
+  const [counts] = (data ?? []) as Array<{ languages_created: number; points_created: number }>
+  result.languages = counts?.languages_created ?? 0
+  result.points = counts?.points_created ?? 0
+
+  return result
+}
@@ -0,0 +1,191 @@
+/**
+ * @file plan.test.ts
+ * @description Unit tests for planning the legacy import: reuse of existing
+ * rows (idempotency), taxonomy colors and neighborhood handling.
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { LegacyInstance } from './airtable'
+import { planLegacyImport, toNeighborhoodSlug, toPointKey, type LegacySnapshot } from './plan'
+
+const instance = (overrides: Partial<LegacyInstance>): LegacyInstance => ({
+  recordId: 'rec1',
+  language: 'Turkish',
+  endonym: 'Türkçe',
+  isoCode: 'tur',
+  glottocode: null,
+  languageFamily: null,
+  countries: [],
+  size: 'Large',
+  sizeColor: null,
+  status: 'Community',
+  latitude: 52.3584,
+  longitude: 4.8119,
+  neighborhood: null,
+  additionalNeighborhoods: [],
+  description: null,
+  audio: null,
+  video: null,
+  ...overrides,
+})
+
+const emptySnapshot = (): LegacySnapshot => ({
+  bounds: { minLat: 52.27, maxLat: 52.43, minLng: 4.73, maxLng: 5.07 },
+  taxonomyTypes: new Map(),
+  families: new Map([['turkic', 'family-turkic']]),
+  countries: new Map([['turkey', 'country-tr']]),
+  neighborhoods: new Map([['bos en lommer', 'nb-bel'], ['bos-en-lommer', 'nb-bel']]),
+  languages: new Map(),
+  points: new Set(),
+})
+
+describe('toNeighborhoodSlug', () => {
+  it('strips accents and joins words with hyphens', () => {
+    expect(toNeighborhoodSlug('Oud-Zuid / Museumkwartier')).toBe('oud-zuid-museumkwartier')
+    expect(toNeighborhoodSlug('Buitenveldert Café')).toBe('buitenveldert-cafe')
+  })
+})
+
+describe('planLegacyImport', () => {
+  it('plans taxonomies, languages and points for an empty city', () => {
+    const plan = planLegacyImport(
+      [
+        instance({ languageFamily: 'Turkic', countries: ['Turkey'], sizeColor: '#AA0000', neighborhood: 'Bos en Lommer', audio: 'https://a.example/tr.mp3' }),
+        instance({ recordId: 'rec2', latitude: 52.37, longitude: 4.85 }),
+      ],
+      emptySnapshot(),
+      { createNeighborhoods: false }
+    )
+
+    expect(plan.taxonomies.map(({ taxonomy, typeId, values }) => [taxonomy.slug, typeId, values.length])).toEqual([
+      ['size', null, 5],
+      ['status', null, 5],
+    ])
+    expect(plan.taxonomies[0].values.find((value) => value.slug === 'large')?.color).toBe('#AA0000')
+    expect(plan.languages).toEqual([
+      {
+        key: 'iso:tur',
+        existingId: null,
+        endonym: 'Türkçe',
+        isoCode: 'tur',
+        name: 'Turkish',
+        familyId: 'family-turkic',
+        countryId: 'country-tr',
+        taxonomyValues: [
+          { type: 'size', value: 'large' },
+          { type: 'status', value: 'community' },
+        ],
+      },
+    ])
+    expect(plan.points).toEqual([
+      {
+        languageKey: 'iso:tur',
+        recordId: 'rec1',
+        latitude: 52.3584,
+        longitude: 4.8119,
+        neighborhood: 'Bos en Lommer',
+        notes: 'Audio: https://a.example/tr.mp3',
+      },
+      expect.objectContaining({ recordId: 'rec2', neighborhood: null }),
+    ])
+    expect(plan.warnings).toEqual([])
+  })
+
+  it('creates nothing when everything already exists', () => {
+    const snapshot = emptySnapshot()
+    for (const slug of ['size', 'status']) {
+      const values = slug === 'size'
+        ? ['smallest', 'small', 'medium', 'large', 'largest']
+        : ['historical', 'community', 'liturgical', 'residential', 'reviving']
+      snapshot.taxonomyTypes.set(slug, {
+        id: `type-${slug}`,
+        isRequired: slug === 'size',
+        values: new Map(values.map((value) => [value, `value-${value}`])),
+        trashedValues: new Set(),
+      })
+    }
+    snapshot.languages.set('iso:tur', 'language-tur')
+    snapshot.points.add(toPointKey('language-tur', 52.3584, 4.8119))
+
+    const plan = planLegacyImport([instance({}), instance({ recordId: 'rec2' })], snapshot, { createNeighborhoods: false })
+
+    expect(plan.taxonomies).toEqual([])
+    expect(plan.languages).toEqual([expect.objectContaining({ existingId: 'language-tur', taxonomyValues: [] })])
+    expect(plan.points).toEqual([])
+    expect(plan.existingPoints).toBe(2)
+  })
+
+  it('only creates unknown neighborhoods when allowed', () => {
+    const records = [instance({ neighborhood: 'De Baarsjes', additionalNeighborhoods: ['Geuzenveld', 'Bos en Lommer'] })]
+
+    const withoutDistrict = planLegacyImport(records, emptySnapshot(), { createNeighborhoods: false })
+    expect(withoutDistrict.neighborhoods).toEqual([])
+    expect(withoutDistrict.points[0].neighborhood).toBeNull()
+    expect(withoutDistrict.warnings.map((warning) => warning.message)).toEqual([
+      'Unknown neighborhood "Geuzenveld" (pass a district to create it)',
+      'Unknown neighborhood "De Baarsjes" (pass a district to create it)',
+    ])
+
+    const withDistrict = planLegacyImport(records, emptySnapshot(), { createNeighborhoods: true })
+    expect(withDistrict.neighborhoods).toEqual(['Geuzenveld', 'De Baarsjes'])
+    expect(withDistrict.points[0].neighborhood).toBe('De Baarsjes')
+  })
+
+  it('skips records of new languages without a value for a required type', () => {
+    const snapshot = emptySnapshot()
+    snapshot.taxonomyTypes.set('region', { id: 'type-region', isRequired: true, values: new Map(), trashedValues: new Set() })
+
+    const plan = planLegacyImport(
+      [instance({ size: null }), instance({ recordId: 'rec2', language: 'Polish', endonym: 'Polski', isoCode: 'pol' })],
+      snapshot,
+      { createNeighborhoods: false }
+    )
+
+    expect(plan.languages).toEqual([])
+    expect(plan.points).toEqual([])
+    expect(plan.warnings).toEqual([
+      { recordId: 'rec1', message: 'Turkish: "region" is required, record skipped' },
+      { recordId: 'rec2', message: 'Polish: "region" is required, record skipped' },
+    ])
+    expect(
+      planLegacyImport([instance({ size: null })], emptySnapshot(), { createNeighborhoods: false }).warnings
+    ).toEqual([{ recordId: 'rec1', message: 'Turkish: "size" is required, record skipped' }])
+  })
+
+  it('leaves out taxonomy values that are in the trash', () => {
+    const snapshot = emptySnapshot()
+    snapshot.taxonomyTypes.set('status', {
+      id: 'type-status',
+      isRequired: false,
+      values: new Map(),
+      trashedValues: new Set(['community']),
+    })
+
+    const plan = planLegacyImport([instance({})], snapshot, { createNeighborhoods: false })
+
+    expect(plan.taxonomies.find((taxonomy) => taxonomy.taxonomy.slug === 'status')?.values).not.toContainEqual(
+      expect.objectContaining({ slug: 'community' })
+    )
+    expect(plan.languages[0].taxonomyValues).toEqual([{ type: 'size', value: 'large' }])
+    expect(plan.warnings).toEqual([
+      { recordId: 'rec1', message: 'Trashed status value "community" left out (restore or purge it)' },
+    ])
+  })
+
+  it('warns about unknown references and points outside the city', () => {
+    const plan = planLegacyImport(
+      [instance({ languageFamily: 'Altaic', countries: ['Ottoman Empire'], isoCode: 'tr', latitude: 41.0, longitude: 28.9 })],
+      emptySnapshot(),
+      { createNeighborhoods: false }
+    )
+
+    expect(plan.languages[0]).toMatchObject({ key: 'endonym:türkçe', isoCode: null, familyId: null, countryId: null })
+    expect(plan.points).toEqual([])
+    expect(plan.warnings.map((warning) => warning.message)).toEqual([
+      'Invalid ISO 639-3 code "tr" ignored',
+      'Unknown language family "Altaic" left empty',
+      'Unknown country "Ottoman Empire" left empty',
+      'Turkish: point outside the city bounds skipped',
+    ])
+  })
+})
@@ -0,0 +1,353 @@
+/**
+ * Legacy Import Planning
+ * ======================
+ * Works out what the legacy Airtable records add to a city, given what the
+ * city already has. Anything that already exists (taxonomy types and
+ * values, neighborhoods, languages, points at the same coordinates) is
+ * reused, so running the import twice creates nothing the second time.
+ *
+ * Records are grouped into languages by ISO 639-3 code, or by endonym when
+ * there is no code; the first record of a language provides its names,
+ * family, country, Size and Status. Existing languages are not modified.
+ * A record of a new language without a value for a required taxonomy type
+ * (the legacy Size, or a required type the city already has) is skipped:
+ * the database would reject the whole import for it.
+ *
+ * @module lib/legacy-import/plan
+ */
+
+import { sanitizeISOCode, sanitizeSlug, sanitizeText, VALIDATION_LIMITS } from '@/lib/sanitization'
+import { isWithinCityBounds, type CityBounds } from '@/lib/map/bounds'
+import { toLanguageKeys, toLookupKey } from '@/lib/import/plan'
+import type { LegacyInstance, LegacyRecordIssue } from './airtable'
+import { describeTaxonomyRuleViolation } from '@/lib/taxonomies/rules'
+import { LEGACY_TAXONOMIES, type LegacyTaxonomy, type LegacyTaxonomyValue } from './taxonomies'
+
+/**
+ * Decimals compared when deciding whether a point already exists
+ */
+const POINT_COORDINATE_DECIMALS = 6
+
+/**
+ * What the city already has
+ *
+ * Name lookups are keyed by `toLookupKey`; see `buildNameLookup`.
+ */
+export interface LegacySnapshot {
+  bounds: CityBounds | null
+  /**
+   * Taxonomy type slug → type ID, required rule, value slug → value ID, and
+   * the slugs of values in the trash (their slugs cannot be reused)
+   */
+  taxonomyTypes: Map<string, { id: string; isRequired: boolean; values: Map<string, string>; trashedValues: Set<string> }>
+  families: Map<string, string>
+  countries: Map<string, string>
+  neighborhoods: Map<string, string>
+  /** `toLanguageKeys` of the city's languages → language ID */
+  languages: Map<string, string>
+  /** `toPointKey` of the points of existing languages */
+  points: Set<string>
+}
+
+/**
+ * Taxonomy type to create (typeId null) or extend with missing values
+ */
+export interface LegacyTaxonomyPlan {
+  taxonomy: LegacyTaxonomy
+  typeId: string | null
+  /** Values to create, with the color from the export when there is one */
+  values: LegacyTaxonomyValue[]
+}
+
+/**
+ * Language to create, or an existing language that receives points
+ */
+export interface LegacyLanguagePlan {
+  key: string
+  existingId: string | null
+  endonym: string
+  isoCode: string | null
+  name: string
+  familyId: string | null
+  countryId: string | null
+  /** Taxonomy type slug and value slug of the legacy Size and Status */
+  taxonomyValues: Array<{ type: string; value: string }>
+}
+
+/**
+ * Language point to create
+ */
+export interface LegacyPointPlan {
+  languageKey: string
+  recordId: string
+  latitude: number
+  longitude: number
+  /** Neighborhood name; resolved to an ID when the import is applied */
+  neighborhood: string | null
+  notes: string | null
+}
+
+/**
+ * Everything the legacy import would add
+ */
+export interface LegacyImportPlan {
+  taxonomies: LegacyTaxonomyPlan[]
+  /** Names of neighborhoods to create */
+  neighborhoods: string[]
+  languages: LegacyLanguagePlan[]
+  points: LegacyPointPlan[]
+  /** Points left out because they already exist */
+  existingPoints: number
+  /** Records or values that were skipped or imported incompletely */
+  warnings: LegacyRecordIssue[]
+}
+
+/**
+ * Options for planning
+ */
+export interface LegacyPlanOptions {
+  /** Create neighborhoods the city does not have (needs a district to put them in) */
+  createNeighborhoods: boolean
+}
+
+/**
+ * Key identifying a point of a language at given coordinates
+ *
+ * @param languageId - Language ID (or plan key)
+ * @param latitude - Latitude
+ * @param longitude - Longitude
+ * @returns Point key
+ */
+export function toPointKey(languageId: string, latitude: number, longitude: number): string {
+  return [
+    languageId,
+    latitude.toFixed(POINT_COORDINATE_DECIMALS),
+    longitude.toFixed(POINT_COORDINATE_DECIMALS),
+  ].join(':')
+}
+
+/**
+ * Slug for a neighborhood name: ASCII, lowercase, words joined by hyphens
+ *
+ * @param name - Neighborhood name
+ * @returns Slug
+ */
+export function toNeighborhoodSlug(name: string): string {
+  return sanitizeSlug(
+    name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[\s_/]+/g, '-')
+  )
+}
+
+/**
+ * Find an existing neighborhood by name or by the slug the name would get
+ *
+ * @param snapshot - What the city has
+ * @param name - Neighborhood name
+ * @returns Neighborhood ID, if found
+ */
+export function findNeighborhood(snapshot: LegacySnapshot, name: string): string | undefined {
+  return snapshot.neighborhoods.get(toLookupKey(name)) ?? snapshot.neighborhoods.get(toNeighborhoodSlug(name))
+}
+
+/**
+ * Combine the instance fields without a column of their own into point notes
+ */
+function toNotes(instance: LegacyInstance): string | null {
+  const lines = [
+    instance.description,
+    instance.audio && `Audio: ${instance.audio}`,
+    instance.video && `Video: ${instance.video}`,
+    instance.glottocode && `Glottocode: ${instance.glottocode}`,
+  ].filter(Boolean)
+
+  return lines.length > 0 ? sanitizeText(lines.join('\n'), VALIDATION_LIMITS.DESCRIPTION_MAX_LENGTH) : null
+}
+
+/**
+ * Plan the taxonomy types and values to create
+ *
+ * The first `sizeColor` seen for a Size replaces the default color.
+ */
+function planTaxonomies(instances: LegacyInstance[], snapshot: LegacySnapshot): LegacyTaxonomyPlan[] {
+  const sizeColors = new Map<string, string>()
+  for (const instance of instances) {
+    if (instance.size && instance.sizeColor && !sizeColors.has(instance.size)) {
+      sizeColors.set(instance.size, instance.sizeColor)
+    }
+  }
+
+  return LEGACY_TAXONOMIES.flatMap((taxonomy) => {
+    const existing = snapshot.taxonomyTypes.get(taxonomy.slug)
+    const values = taxonomy.values
+      .filter((value) => !existing?.values.has(value.slug) && !existing?.trashedValues.has(value.slug))
+      .map((value) =>
+        taxonomy.slug === 'size' ? { ...value, color: sizeColors.get(value.legacyValue) ?? value.color } : value
+      )
+
+    if (existing && values.length === 0) {
+      return []
+    }
+
+    return [{ taxonomy, typeId: existing?.id ?? null, values }]
+  })
+}
+
+/**
+ * Plan the legacy import
+ *
+ * @param instances - Records read from the export
+ * @param snapshot - What the city already has
+ * @param options - Planning options
+ * @returns Items to create, and warnings about skipped or incomplete records
+ */
+export function planLegacyImport(
+  instances: LegacyInstance[],
+  snapshot: LegacySnapshot,
+  options: LegacyPlanOptions
+): LegacyImportPlan {
+  const warnings: LegacyRecordIssue[] = []
+  const languages: LegacyLanguagePlan[] = []
+  const points: LegacyPointPlan[] = []
+  const languagesByKey = new Map<string, LegacyLanguagePlan>()
+  const neighborhoods = new Map<string, string>()
+  const plannedPoints = new Set<string>()
+  let existingPoints = 0
+
+  // Types a new language needs a value of: the city's required types, and
+  // the required legacy types the import creates
+  const requiredTypes = [
+    ...[...snapshot.taxonomyTypes].filter(([, type]) => type.isRequired).map(([slug]) => slug),
+    ...LEGACY_TAXONOMIES.filter((taxonomy) => taxonomy.isRequired && !snapshot.taxonomyTypes.has(taxonomy.slug))
+      .map((taxonomy) => taxonomy.slug),
+  ]
+
+  // Resolve a neighborhood name; unknown names are created or dropped
+  const resolveNeighborhood = (recordId: string, name: string | null): string | null => {
+    if (!name) return null
+    const existing = findNeighborhood(snapshot, name)
+    if (existing) return name
+
+    if (!options.createNeighborhoods) {
+      warnings.push({ recordId, message: `Unknown neighborhood "${name}" (pass a district to create it)` })
+      return null
+    }
+
+    const slug = toNeighborhoodSlug(name)
+    if (!slug) {
+      warnings.push({ recordId, message: `Neighborhood "${name}" has no usable slug` })
+      return null
+    }
+    if (!neighborhoods.has(slug)) {
+      neighborhoods.set(slug, name)
+    }
+    return neighborhoods.get(slug) ?? name
+  }
+
+  for (const instance of instances) {
+    const { recordId } = instance
+    const endonym = sanitizeText(instance.endonym, VALIDATION_LIMITS.ENDONYM_MAX_LENGTH)
+    const isoCode = sanitizeISOCode(instance.isoCode)
+
+    if (instance.isoCode && !isoCode) {
+      warnings.push({ recordId, message: `Invalid ISO 639-3 code "${instance.isoCode}" ignored` })
+    }
+
+    const keys = toLanguageKeys(isoCode, endonym)
+    let language = keys.map((key) => languagesByKey.get(key)).find(Boolean)
+
+    if (!language) {
+      const existingId = keys.map((key) => snapshot.languages.get(key)).find(Boolean) ?? null
+
+      let familyId: string | null = null
+      let countryId: string | null = null
+      const taxonomyValues: LegacyLanguagePlan['taxonomyValues'] = []
+
+      if (!existingId) {
+        if (instance.languageFamily) {
+          familyId = snapshot.families.get(toLookupKey(instance.languageFamily)) ?? null
+          if (!familyId) {
+            warnings.push({ recordId, message: `Unknown language family "${instance.languageFamily}" left empty` })
+          }
+        }
+
+        const [country] = instance.countries
+        if (country) {
+          countryId = snapshot.countries.get(toLookupKey(country)) ?? null
+          if (!countryId) {
+            warnings.push({ recordId, message: `Unknown country "${country}" left empty` })
+          }
+        }
+
+        for (const [type, legacyValue] of [['size', instance.size], ['status', instance.status]] as const) {
+          if (!legacyValue) continue
+          const value = legacyValue.toLowerCase()
+          if (snapshot.taxonomyTypes.get(type)?.trashedValues.has(value)) {
+            warnings.push({ recordId, message: `Trashed ${type} value "${value}" left out (restore or purge it)` })
+          } else {
+            taxonomyValues.push({ type, value })
+          }
+        }
+
+        const missingType = requiredTypes.find((slug) => !taxonomyValues.some((value) => value.type === slug))
+        if (missingType) {
+          warnings.push({
+            recordId,
+            message: `${instance.language}: ${describeTaxonomyRuleViolation(missingType, 'missing')}, record skipped`,
+          })
+          continue
+        }
+      }
+
+      const planned: LegacyLanguagePlan = {
+        key: keys[0],
+        existingId,
+        endonym,
+        isoCode,
+        name: sanitizeText(instance.language, VALIDATION_LIMITS.NAME_MAX_LENGTH),
+        familyId,
+        countryId,
+        taxonomyValues,
+      }
+      language = planned
+      languages.push(planned)
+      keys.forEach((key) => languagesByKey.set(key, planned))
+    }
+
+    for (const name of instance.additionalNeighborhoods) {
+      resolveNeighborhood(recordId, name)
+    }
+
+    if (!isWithinCityBounds(snapshot.bounds, instance.latitude, instance.longitude)) {
+      warnings.push({ recordId, message: `${instance.language}: point outside the city bounds skipped` })
+      continue
+    }
+
+    const pointKey = toPointKey(language.existingId ?? language.key, instance.latitude, instance.longitude)
+    if (snapshot.points.has(pointKey) || plannedPoints.has(pointKey)) {
+      existingPoints++
+      continue
+    }
+    plannedPoints.add(pointKey)
+
+    points.push({
+      languageKey: language.key,
+      recordId,
+      latitude: instance.latitude,
+      longitude: instance.longitude,
+      neighborhood: resolveNeighborhood(recordId, instance.neighborhood),
+      notes: toNotes(instance),
+    })
+  }
+
+  return {
+    taxonomies: planTaxonomies(instances, snapshot),
+    neighborhoods: [...neighborhoods.values()],
+    languages,
+    points,
+    existingPoints,
+    warnings,
+  }
+}
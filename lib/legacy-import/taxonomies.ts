@@ -0,0 +1,82 @@
+/**
+ * Legacy Taxonomies
+ * =================
+ * The Size and Status classifications of the old map, expressed as
+ * taxonomy types and values of the new schema.
+ *
+ * @module lib/legacy-import/taxonomies
+ */
+
+import {
+  LEGACY_SIZES,
+  LEGACY_STATUSES,
+  type LegacySize,
+  type LegacyStatus,
+} from './airtable'
+
+/**
+ * Names of a type or value in the seeded locales
+ */
+export type LegacyNames = Record<'en' | 'nl' | 'fr', string>
+
+/**
+ * Taxonomy value created for a legacy Size or Status
+ */
+export interface LegacyTaxonomyValue {
+  slug: string
+  /** Value in the legacy dataset */
+  legacyValue: string
+  /** Default color; sizes take the `sizeColor` of the export when present */
+  color: string
+  names: LegacyNames
+}
+
+/**
+ * Taxonomy type created for a legacy classification
+ */
+export interface LegacyTaxonomy {
+  slug: 'size' | 'status'
+  isRequired: boolean
+  useForMapStyling: boolean
+  displayOrder: number
+  names: LegacyNames
+  values: LegacyTaxonomyValue[]
+}
+
+const SIZE_VALUES: Record<LegacySize, Omit<LegacyTaxonomyValue, 'legacyValue'>> = {
+  Smallest: { slug: 'smallest', color: '#FFE08A', names: { en: 'Smallest', nl: 'Kleinst', fr: 'Très petite' } },
+  Small: { slug: 'small', color: '#FFC04D', names: { en: 'Small', nl: 'Klein', fr: 'Petite' } },
+  Medium: { slug: 'medium', color: '#FF9A2E', names: { en: 'Medium', nl: 'Middelgroot', fr: 'Moyenne' } },
+  Large: { slug: 'large', color: '#F26B1D', names: { en: 'Large', nl: 'Groot', fr: 'Grande' } },
+  Largest: { slug: 'largest', color: '#D93A12', names: { en: 'Largest', nl: 'Grootst', fr: 'Très grande' } },
+}
+
+const STATUS_VALUES: Record<LegacyStatus, Omit<LegacyTaxonomyValue, 'legacyValue'>> = {
+  Historical: { slug: 'historical', color: '#8C7B6B', names: { en: 'Historical', nl: 'Historisch', fr: 'Historique' } },
+  Community: { slug: 'community', color: '#2E86DE', names: { en: 'Community', nl: 'Gemeenschap', fr: 'Communauté' } },
+  Liturgical: { slug: 'liturgical', color: '#8E44AD', names: { en: 'Liturgical', nl: 'Liturgisch', fr: 'Liturgique' } },
+  Residential: { slug: 'residential', color: '#27AE60', names: { en: 'Residential', nl: 'Residentieel', fr: 'Résidentielle' } },
+  Reviving: { slug: 'reviving', color: '#F1C40F', names: { en: 'Reviving', nl: 'Herlevend', fr: 'En renouveau' } },
+}
+
+/**
+ * Size (styles the map) and Status (used for filtering)
+ */
+export const LEGACY_TAXONOMIES: LegacyTaxonomy[] = [
+  {
+    slug: 'size',
+    isRequired: true,
+    useForMapStyling: true,
+    displayOrder: 0,
+    names: { en: 'Size', nl: 'Omvang', fr: 'Taille' },
+    values: LEGACY_SIZES.map((size) => ({ legacyValue: size, ...SIZE_VALUES[size] })),
+  },
+  {
+    slug: 'status',
+    isRequired: false,
+    useForMapStyling: false,
+    displayOrder: 1,
+    names: { en: 'Status', nl: 'Status', fr: 'Statut' },
+    values: LEGACY_STATUSES.map((status) => ({ legacyValue: status, ...STATUS_VALUES[status] })),
+  },
+]
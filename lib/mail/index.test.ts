@@ -0,0 +1,65 @@
+/**
+ * @file index.test.ts
+ * @description Unit tests for mail configuration and transport selection.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createMailTransport, getMailConfig, DEFAULT_MAIL_FROM } from './index'
+
+describe('getMailConfig', () => {
+  it('logs to the console when no SMTP server is configured', () => {
+    expect(getMailConfig({})).toMatchObject({
+      transport: 'console',
+      from: DEFAULT_MAIL_FROM,
+      fileDirectory: '.mail',
+    })
+  })
+
+  it('uses SMTP when a host is set', () => {
+    expect(
+      getMailConfig({
+        SMTP_HOST: 'smtp.example.org',
+        SMTP_PORT: '465',
+        SMTP_USER: 'mailer',
+        SMTP_PASS: 'secret',
+        MAIL_FROM: 'Language Map <maps@example.org>',
+      })
+    ).toEqual({
+      transport: 'smtp',
+      from: 'Language Map <maps@example.org>',
+      smtp: { host: 'smtp.example.org', port: 465, secure: true, user: 'mailer', pass: 'secret' },
+      fileDirectory: '.mail',
+    })
+  })
+
+  it('honours an explicit transport and falls back for unknown ones', () => {
+    expect(getMailConfig({ MAIL_TRANSPORT: 'file', SMTP_HOST: 'smtp.example.org', MAIL_FILE_DIRECTORY: '/tmp/mail' }))
+      .toMatchObject({ transport: 'file', fileDirectory: '/tmp/mail' })
+    expect(getMailConfig({ MAIL_TRANSPORT: 'pigeon' }).transport).toBe('console')
+  })
+
+  it('requires a transport in production instead of logging invitation links', () => {
+    expect(() => getMailConfig({ NODE_ENV: 'production' })).toThrow(
+      'Mail is not configured: set SMTP_HOST or MAIL_TRANSPORT'
+    )
+    expect(() => getMailConfig({ NODE_ENV: 'production', MAIL_TRANSPORT: 'pigeon' })).toThrow()
+    expect(getMailConfig({ NODE_ENV: 'production', MAIL_TRANSPORT: 'console' }).transport).toBe('console')
+    expect(getMailConfig({ NODE_ENV: 'production', SMTP_HOST: 'smtp.example.org' }).transport).toBe('smtp')
+  })
+
+  it('reads the local Inbucket settings without TLS', () => {
+    expect(getMailConfig({ SMTP_HOST: 'localhost', SMTP_PORT: '54335' }).smtp).toMatchObject({
+      port: 54335,
+      secure: false,
+      user: undefined,
+    })
+  })
+})
+
+describe('createMailTransport', () => {
+  it('creates a transport for every configured type', () => {
+    for (const transport of ['smtp', 'file', 'console'] as const) {
+      expect(typeof createMailTransport({ ...getMailConfig({}), transport }).send).toBe('function')
+    }
+  })
+})
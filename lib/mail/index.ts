@@ -0,0 +1,110 @@
+/**
+ * Mail
+ * ====
+ * Entry point for sending email. The transport is chosen with
+ * `MAIL_TRANSPORT`:
+ *
+ * - `smtp`: the server at `SMTP_HOST`/`SMTP_PORT`, with `SMTP_USER` and
+ *   `SMTP_PASS` when set (default when `SMTP_HOST` is set)
+ * - `file`: `.eml` files in `MAIL_FILE_DIRECTORY` (default `.mail`)
+ * - `console`: logged only (default otherwise, outside production)
+ *
+ * The console transport logs invitation links, tokens included, so in
+ * production a transport must be configured explicitly.
+ *
+ * Messages are sent from `MAIL_FROM`.
+ *
+ * @module lib/mail
+ */
+
+import { createConsoleTransport, createFileTransport } from './local'
+import { createSmtpTransport } from './smtp'
+import type { MailMessage, MailTransport } from './types'
+
+export type { MailMessage, MailTransport } from './types'
+export { renderInvitationEmail, type InvitationEmailData, type InvitationEmailKind } from './templates'
+
+/**
+ * Configured mail transport
+ */
+export type MailTransportType = 'smtp' | 'file' | 'console'
+
+/**
+ * Mail configuration read from the environment
+ */
+export interface MailConfig {
+  transport: MailTransportType
+  from: string
+  smtp: {
+    host: string
+    port: number
+    secure: boolean
+    user?: string
+    pass?: string
+  }
+  fileDirectory: string
+}
+
+/**
+ * Sender used when `MAIL_FROM` is not set
+ */
+export const DEFAULT_MAIL_FROM = 'Language Map <no-reply@localhost>'
+
+const TRANSPORT_TYPES: MailTransportType[] = ['smtp', 'file', 'console']
+
+/**
+ * Read the mail configuration
+ *
+ * @param env - Environment variables (defaults to `process.env`)
+ * @returns Mail configuration; unknown transports fall back to the default
+ * @throws {Error} In production, if neither `MAIL_TRANSPORT` nor `SMTP_HOST` is set
+ */
+export function getMailConfig(env: Record<string, string | undefined> = process.env): MailConfig {
+  const requested = TRANSPORT_TYPES.find((type) => type === env.MAIL_TRANSPORT)
+  const port = Number(env.SMTP_PORT) || 587
+
+  if (!requested && !env.SMTP_HOST && env.NODE_ENV === 'production') {
+    throw new Error('Mail is not configured: set SMTP_HOST or MAIL_TRANSPORT')
+  }
+
+  return {
+    transport: requested ?? (env.SMTP_HOST ? 'smtp' : 'console'),
+    from: env.MAIL_FROM || DEFAULT_MAIL_FROM,
+    smtp: {
+      host: env.SMTP_HOST || 'localhost',
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS || undefined,
+    },
+    fileDirectory: env.MAIL_FILE_DIRECTORY || '.mail',
+  }
+}
+
+/**
+ * Create the configured mail transport
+ *
+ * @param config - Mail configuration (defaults to the environment)
+ * @returns Mail transport
+ */
+export function createMailTransport(config: MailConfig = getMailConfig()): MailTransport {
+  switch (config.transport) {
+    case 'smtp':
+      return createSmtpTransport({ ...config.smtp, from: config.from })
+    case 'file':
+      return createFileTransport({ directory: config.fileDirectory, from: config.from })
+    case 'console':
+      return createConsoleTransport()
+  }
+}
+
+/**
+ * Send an email with the configured transport
+ *
+ * @async
+ * @param message - Message to send
+ * @throws {Error} If the transport fails
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await createMailTransport().send(message)
+}
@@ -0,0 +1,58 @@
+/**
+ * @file local.test.ts
+ * @description Unit tests for the file and console mail transports.
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createConsoleTransport, createFileTransport } from './local'
+
+const message = {
+  to: 'invitee@example.org',
+  subject: 'You are invited',
+  text: 'Hello,\n\nAccept: http://localhost:3001/en/invite/abc',
+  html: '<p>Hello,</p>',
+}
+
+describe('createFileTransport', () => {
+  let directory: string | null = null
+
+  afterEach(async () => {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true })
+      directory = null
+    }
+  })
+
+  it('writes each message as an .eml file', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mail-'))
+    const transport = createFileTransport({ directory: join(directory, 'outbox'), from: 'Maps <maps@example.org>' })
+
+    await transport.send(message)
+    await transport.send({ ...message, subject: 'Reminder' })
+
+    const files = (await readdir(join(directory, 'outbox'))).sort()
+    expect(files).toHaveLength(2)
+    expect(files[0]).toMatch(/-1-invitee@example\.org\.eml$/)
+
+    const eml = await readFile(join(directory, 'outbox', files[0]), 'utf8')
+    expect(eml).toContain('To: invitee@example.org')
+    expect(eml).toContain('From: Maps <maps@example.org>')
+    expect(eml).toContain('Subject: You are invited')
+    expect(eml).toContain('Content-Type: text/html')
+  })
+})
+
+describe('createConsoleTransport', () => {
+  it('logs the recipient, subject and text', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    await createConsoleTransport().send(message)
+
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('Email to invitee@example.org: You are invited'))
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('/en/invite/abc'))
+    log.mockRestore()
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Local Mail Transports
+ * =====================
+ * Transports that deliver nothing: the file transport writes each message
+ * as an `.eml` file (open it in any mail client), the console transport
+ * logs it. Meant for development without an SMTP server and for tests.
+ *
+ * @module lib/mail/local
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import nodemailer from 'nodemailer'
+import type { MailMessage, MailTransport } from './types'
+
+/**
+ * Builds MIME messages without sending them
+ */
+const mimeBuilder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' })
+
+/**
+ * Create a transport that writes messages to a directory
+ *
+ * File names start with the time of sending, so a directory listing shows
+ * messages in order.
+ *
+ * @param options.directory - Directory for the `.eml` files (created if missing)
+ * @param options.from - Sender address
+ * @returns Mail transport
+ */
+export function createFileTransport(options: { directory: string; from: string }): MailTransport {
+  let sequence = 0
+
+  return {
+    async send(message: MailMessage): Promise<void> {
+      const info = await mimeBuilder.sendMail({ from: options.from, ...message })
+      const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${++sequence}-${recipient}.eml`
+
+      await mkdir(options.directory, { recursive: true })
+      await writeFile(join(options.directory, fileName), info.message as Buffer)
+    },
+  }
+}
+
+/**
+ * Create a transport that logs messages to the console
+ *
+ * @returns Mail transport
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message: MailMessage): Promise<void> {
+      console.log(`Email to ${message.to}: ${message.subject}\n\n${message.text}`)
+    },
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * @file smtp.test.ts
+ * @description Tests for the SMTP mail transport against an in-process SMTP server.
+ */
+
+import { afterAll, beforeAll, describe, it, expect } from 'vitest'
+import type { AddressInfo } from 'node:net'
+import { SMTPServer } from 'smtp-server'
+import { createSmtpTransport } from './smtp'
+
+interface ReceivedMessage {
+  from: string
+  to: string[]
+  data: string
+}
+
+const received: ReceivedMessage[] = []
+
+const server = new SMTPServer({
+  authOptional: true,
+  disabledCommands: ['STARTTLS'],
+  logger: false,
+  onData(stream, session, callback) {
+    let data = ''
+    stream.on('data', (chunk: Buffer) => {
+      data += chunk.toString()
+    })
+    stream.on('end', () => {
+      received.push({
+        from: session.envelope.mailFrom ? session.envelope.mailFrom.address : '',
+        to: session.envelope.rcptTo.map((recipient) => recipient.address),
+        data,
+      })
+      callback()
+    })
+  },
+})
+
+let port = 0
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  port = (server.server.address() as AddressInfo).port
+})
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()))
+})
+
+describe('createSmtpTransport', () => {
+  it('delivers the message to the SMTP server', async () => {
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      from: 'Language Map <maps@example.org>',
+    })
+
+    await transport.send({
+      to: 'invitee@example.org',
+      subject: 'Uitnodiging',
+      text: 'Hallo Ana,',
+      html: '<p>Hallo Ana,</p>',
+    })
+
+    expect(received).toHaveLength(1)
+    expect(received[0].from).toBe('maps@example.org')
+    expect(received[0].to).toEqual(['invitee@example.org'])
+    expect(received[0].data).toContain('Subject: Uitnodiging')
+    expect(received[0].data).toContain('Hallo Ana,')
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * SMTP Mail Transport
+ * ===================
+ * Sends email through an SMTP server. In local development this is the
+ * Supabase Inbucket server (`localhost:54335`, no authentication), whose
+ * web interface at `http://localhost:54334` shows every message sent.
+ *
+ * @module lib/mail/smtp
+ */
+
+import nodemailer from 'nodemailer'
+import type { MailMessage, MailTransport } from './types'
+
+/**
+ * SMTP connection settings
+ */
+export interface SmtpTransportOptions {
+  host: string
+  port: number
+  /** Use TLS from the start (port 465); otherwise STARTTLS is used when offered */
+  secure: boolean
+  /** Credentials; omitted for servers without authentication */
+  user?: string
+  pass?: string
+  /** Sender address, e.g. `Language Map <no-reply@example.org>` */
+  from: string
+}
+
+/**
+ * Create a transport that sends through an SMTP server
+ *
+ * @param options - SMTP connection settings
+ * @returns Mail transport
+ */
+export function createSmtpTransport(options: SmtpTransportOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass ?? '' } : undefined,
+  })
+
+  return {
+    async send(message: MailMessage): Promise<void> {
+      await transporter.sendMail({ from: options.from, ...message })
+    },
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * @file templates.test.ts
+ * @description Unit tests for the localized invitation email templates.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { renderInvitationEmail, type InvitationEmailData } from './templates'
+
+const data: InvitationEmailData = {
+  locale: 'en',
+  fullName: 'Ana Silva',
+  role: 'operator',
+  cities: ['Amsterdam', 'Paris'],
+  inviterName: 'Jan de Vries',
+  url: 'http://localhost:3001/en/invite/abc123',
+  expiresAt: '2025-11-24T12:00:00Z',
+}
+
+describe('renderInvitationEmail', () => {
+  it('renders the invitation with the link, role, cities and expiry', () => {
+    const email = renderInvitationEmail('invitation', data)
+
+    expect(email.subject).toBe('You are invited to the Language Map')
+    expect(email.text).toContain('Hello Ana Silva,')
+    expect(email.text).toContain('Jan de Vries has invited you to join the Language Map as operator for Amsterdam and Paris.')
+    expect(email.text).toContain('Accept invitation: http://localhost:3001/en/invite/abc123')
+    expect(email.text).toContain('This invitation expires on November 24, 2025.')
+    expect(email.html).toContain('<a href="http://localhost:3001/en/invite/abc123"')
+  })
+
+  it('renders in the invitee locale', () => {
+    const email = renderInvitationEmail('reminder', { ...data, locale: 'nl', url: 'http://localhost:3001/nl/invite/abc123' })
+
+    expect(email.subject).toBe('Herinnering: je uitnodiging voor de Language Map')
+    expect(email.text).toContain('als redacteur mee te werken aan de Language Map voor Amsterdam en Paris')
+    expect(email.html).toContain('<html lang="nl">')
+
+    const french = renderInvitationEmail('invitation', { ...data, locale: 'fr', role: 'admin', inviterName: null })
+    expect(french.text).toContain('en tant qu’administrateur pour Amsterdam et Paris')
+  })
+
+  it('leaves the link out of revocation emails', () => {
+    const email = renderInvitationEmail('revocation', data)
+
+    expect(email.subject).toBe('Your invitation to the Language Map was withdrawn')
+    expect(email.text).not.toContain(data.url)
+    expect(email.html).not.toContain('<a ')
+  })
+
+  it('escapes names in the HTML body and falls back to the default locale', () => {
+    const email = renderInvitationEmail('invitation', { ...data, locale: 'xx', fullName: '<b>Ana</b>' })
+
+    expect(email.subject).toBe('You are invited to the Language Map')
+    expect(email.html).toContain('Hello &lt;b&gt;Ana&lt;/b&gt;,')
+    expect(email.text).toContain('Hello <b>Ana</b>,')
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Mail Templates
+ * ==============
+ * Localized invitation, reminder and revocation emails. Texts live in the
+ * `emails` namespace of `messages/*.json`, like the rest of the interface;
+ * each template renders a plain-text and an HTML body from the same
+ * strings. Unknown locales fall back to the default locale.
+ *
+ * @module lib/mail/templates
+ */
+
+import { createTranslator } from 'next-intl'
+import { defaultLocale, locales, type Locale } from '@/lib/i18n/config'
+import en from '@/messages/en.json'
+import nl from '@/messages/nl.json'
+import fr from '@/messages/fr.json'
+import type { MailMessage } from './types'
+
+const MESSAGES: Record<Locale, Pick<typeof en, 'emails'>> = { en, nl, fr }
+
+/**
+ * Emails sent about an invitation
+ */
+export type InvitationEmailKind = 'invitation' | 'reminder' | 'revocation'
+
+/**
+ * Data shown in an invitation email
+ */
+export interface InvitationEmailData {
+  /** Locale of the invitee */
+  locale: string
+  fullName: string | null
+  role: 'admin' | 'operator'
+  /** Names of the cities the invitation grants access to */
+  cities: string[]
+  /** Name of the person who sent the invitation, when known */
+  inviterName: string | null
+  /** Link to accept the invitation (not shown in revocation emails) */
+  url: string
+  expiresAt: string
+}
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Resolve a locale code to a supported locale
+ */
+function toLocale(locale: string): Locale {
+  return locales.find((candidate) => candidate === locale) ?? defaultLocale
+}
+
+/**
+ * Render an invitation email
+ *
+ * @param kind - Which email to render
+ * @param data - Invitation details
+ * @returns Subject and bodies; the caller adds the recipient
+ */
+export function renderInvitationEmail(kind: InvitationEmailKind, data: InvitationEmailData): Omit<MailMessage, 'to'> {
+  const locale = toLocale(data.locale)
+  const t = createTranslator({ locale, messages: { emails: MESSAGES[locale].emails }, namespace: 'emails' })
+
+  const values = {
+    role: t(`roles.${data.role}`),
+    cities: new Intl.ListFormat(locale, { type: 'conjunction' }).format(data.cities),
+    inviter: data.inviterName ?? '',
+    expiresAt: new Date(data.expiresAt),
+  }
+
+  const greeting = data.fullName ? t('greeting', { name: data.fullName }) : t('greetingAnonymous')
+  let paragraphs: string[]
+  let action: string | null = null
+
+  switch (kind) {
+    case 'invitation':
+      paragraphs = [
+        data.inviterName ? t('invitation.intro', values) : t('invitation.introAnonymous', values),
+        t('expires', values),
+        t('invitation.ignore'),
+      ]
+      action = t('invitation.action')
+      break
+    case 'reminder':
+      paragraphs = [t('reminder.intro', values), t('expires', values)]
+      action = t('invitation.action')
+      break
+    case 'revocation':
+      paragraphs = [t('revocation.intro', values), t('revocation.contact')]
+      break
+  }
+
+  const subject = t(`${kind}.subject`)
+  const signature = t('signature')
+
+  const text = [
+    greeting,
+    paragraphs[0],
+    ...(action ? [`${action}: ${data.url}`] : []),
+    ...paragraphs.slice(1),
+    signature,
+  ].join('\n\n')
+
+  const button = action
+    ? `<p><a href="${escapeHtml(data.url)}" style="display:inline-block;padding:10px 16px;background:#1976d2;color:#ffffff;text-decoration:none;border-radius:4px">${escapeHtml(action)}</a></p>`
+    : ''
+
+  const html = [
+    `<!DOCTYPE html><html lang="${locale}"><body style="font-family:sans-serif;line-height:1.5;color:#111827">`,
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(paragraphs[0])}</p>`,
+    button,
+    ...paragraphs.slice(1).map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    `<p>${escapeHtml(signature)}</p>`,
+    '</body></html>',
+  ].join('\n')
+
+  return { subject, text, html }
+}
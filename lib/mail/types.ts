@@ -0,0 +1,35 @@
+/**
+ * Mail Types
+ * ==========
+ * Transport-independent contract for sending email. Server actions build a
+ * `MailMessage` from a template and hand it to a `MailTransport`; which
+ * transport is used is decided in `lib/mail`.
+ *
+ * @module lib/mail/types
+ */
+
+/**
+ * Email to send
+ */
+export interface MailMessage {
+  /** Recipient address */
+  to: string
+  subject: string
+  /** Plain-text body */
+  text: string
+  /** HTML body */
+  html: string
+}
+
+/**
+ * Delivers messages
+ */
+export interface MailTransport {
+  /**
+   * Send a message
+   *
+   * @param message - Message to send
+   * @throws {Error} If the message could not be delivered to the transport
+   */
+  send(message: MailMessage): Promise<void>
+}
@@ -0,0 +1,128 @@
+/**
+ * @file boundaries.test.ts
+ * @description Unit tests for loading the public area boundaries.
+ */
+
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest'
+import { getPublicCityBoundaries } from './boundaries'
+
+vi.mock('@/lib/database/client', () => ({
+  getDatabaseAdminClient: vi.fn(),
+}))
+
+import { getDatabaseAdminClient } from '@/lib/database/client'
+
+/**
+ * Create a chainable Supabase mock: `single()` resolves to the city lookup,
+ * `rpc()` to the boundary rows
+ */
+function createMockClient(
+  cityResult: { data: unknown; error: unknown },
+  boundariesResult: { data: unknown; error: unknown } = { data: [], error: null }
+) {
+  const client = {
+    from: vi.fn(),
+    select: vi.fn(),
+    eq: vi.fn(),
+    single: vi.fn().mockResolvedValue(cityResult),
+    rpc: vi.fn().mockResolvedValue(boundariesResult),
+  }
+  client.from.mockReturnValue(client)
+  client.select.mockReturnValue(client)
+  client.eq.mockReturnValue(client)
+  return client
+}
+
+const geometry = {
+  type: 'MultiPolygon',
+  coordinates: [[[[4.88, 52.36], [4.92, 52.36], [4.92, 52.38], [4.88, 52.36]]]],
+}
+
+const boundaryRows = [
+  {
+    area_id: 'd1',
+    area_type: 'district',
+    slug: 'centrum',
+    district_slug: 'centrum',
+    translations: [
+      { locale_code: 'en', name: 'Centre' },
+      { locale_code: 'nl', name: 'Centrum' },
+    ],
+    geometry,
+  },
+  {
+    area_id: 'n1',
+    area_type: 'neighborhood',
+    slug: 'jordaan',
+    district_slug: 'centrum',
+    translations: [{ locale_code: 'en', name: 'Jordaan' }],
+    geometry,
+  },
+  {
+    area_id: 'n2',
+    area_type: 'neighborhood',
+    slug: 'de-pijp',
+    district_slug: 'zuid',
+    translations: [],
+    geometry,
+  },
+]
+
+describe('getPublicCityBoundaries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should build features with translated names and fallbacks', async () => {
+    const client = createMockClient({ data: { id: 'city-1' }, error: null }, { data: boundaryRows, error: null })
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(client)
+
+    const result = await getPublicCityBoundaries('amsterdam', 'nl')
+
+    expect(client.rpc).toHaveBeenCalledWith('get_city_boundaries', { p_city_id: 'city-1' })
+    expect(result?.type).toBe('FeatureCollection')
+    expect(result?.features.map((feature) => feature.properties.name)).toEqual([
+      'Centrum',
+      'Jordaan',
+      'de-pijp',
+    ])
+    expect(result?.features[1]).toEqual({
+      type: 'Feature',
+      geometry,
+      properties: {
+        id: 'n1',
+        areaType: 'neighborhood',
+        slug: 'jordaan',
+        districtSlug: 'centrum',
+        name: 'Jordaan',
+      },
+    })
+  })
+
+  it('should only return the requested area type', async () => {
+    const client = createMockClient({ data: { id: 'city-1' }, error: null }, { data: boundaryRows, error: null })
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(client)
+
+    const result = await getPublicCityBoundaries('amsterdam', 'en', 'neighborhood')
+
+    expect(result?.features.map((feature) => feature.properties.slug)).toEqual(['jordaan', 'de-pijp'])
+  })
+
+  it('should return null when the city does not exist', async () => {
+    const client = createMockClient({ data: null, error: { code: 'PGRST116', message: 'No rows' } })
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(client)
+
+    expect(await getPublicCityBoundaries('unknown', 'en')).toBeNull()
+    expect(client.rpc).not.toHaveBeenCalled()
+  })
+
+  it('should throw when the boundary query fails', async () => {
+    const client = createMockClient(
+      { data: { id: 'city-1' }, error: null },
+      { data: null, error: { message: 'function get_city_boundaries does not exist' } }
+    )
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(client)
+
+    await expect(getPublicCityBoundaries('amsterdam', 'en')).rejects.toThrow('Failed to fetch boundaries')
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Public Area Boundaries
+ * ======================
+ * Loads district and neighborhood boundaries for the public map as a GeoJSON
+ * FeatureCollection.
+ *
+ * Geometries are converted to GeoJSON by the `get_city_boundaries` database
+ * function, so this module only picks translated names and builds features.
+ *
+ * @module lib/map/boundaries
+ */
+
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import type { BoundaryFeature, BoundaryFeatureCollection } from '@/types/map'
+
+/**
+ * Area types that can have a boundary
+ */
+export type BoundaryAreaType = BoundaryFeature['properties']['areaType']
+
+/**
+ * Row returned by `get_city_boundaries`
+ */
+interface BoundaryRecord {
+  area_id: string
+  area_type: BoundaryAreaType
+  slug: string
+  district_slug: string
+  translations: { locale_code: string; name: string }[] | null
+  geometry: BoundaryFeature['geometry'] | null
+}
+
+/**
+ * Get the boundaries of a city's districts and/or neighborhoods
+ *
+ * Areas without a boundary are not included. Names fall back to English,
+ * then to the slug.
+ *
+ * @async
+ * @param citySlug - City identifier slug (e.g., 'amsterdam')
+ * @param locale - Locale code for area names
+ * @param areaType - Only return boundaries of this area type (default: both)
+ * @returns Promise resolving to the boundaries, or null if the city does not exist
+ * @throws {Error} If a database query fails for a reason other than "not found"
+ */
+export async function getPublicCityBoundaries(
+  citySlug: string,
+  locale: string,
+  areaType?: BoundaryAreaType
+): Promise<BoundaryFeatureCollection | null> {
+  const supabase = getDatabaseAdminClient(citySlug)
+
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id')
+    .eq('slug', citySlug)
+    .single()
+
+  if (cityError) {
+    // PGRST116: no rows returned
+    if (cityError.code === 'PGRST116') {
+      return null
+    }
+    throw new Error(`Failed to fetch city: ${cityError.message}`)
+  }
+
+  if (!city) {
+    return null
+  }
+
+  const { data, error } = await supabase.rpc('get_city_boundaries', { p_city_id: city.id })
+
+  if (error) {
+    throw new Error(`Failed to fetch boundaries: ${error.message}`)
+  }
+
+  const rows = (data ?? []) as BoundaryRecord[]
+
+  const features: BoundaryFeature[] = rows
+    .filter((row) => row.geometry && (!areaType || row.area_type === areaType))
+    .map((row) => {
+      const translation =
+        row.translations?.find((t) => t.locale_code === locale) ||
+        row.translations?.find((t) => t.locale_code === 'en')
+
+      return {
+        type: 'Feature',
+        geometry: row.geometry as BoundaryFeature['geometry'],
+        properties: {
+          id: row.area_id,
+          areaType: row.area_type,
+          slug: row.slug,
+          districtSlug: row.district_slug,
+          name: translation?.name || row.slug,
+        },
+      }
+    })
+
+  return { type: 'FeatureCollection', features }
+}
@@ -0,0 +1,141 @@
+/**
+ * @file boundary-files.test.ts
+ * @description Unit tests for boundary file parsing and validation.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  boundarySchema,
+  countBoundaryVertices,
+  MAX_BOUNDARY_VERTICES,
+  parseBoundaryFile,
+} from './boundary-files'
+
+const square = [[4.88, 52.36], [4.92, 52.36], [4.92, 52.38], [4.88, 52.38], [4.88, 52.36]]
+const otherSquare = [[4.93, 52.36], [4.95, 52.36], [4.95, 52.38], [4.93, 52.38], [4.93, 52.36]]
+
+describe('parseBoundaryFile', () => {
+  it('converts a Polygon geometry to a MultiPolygon', () => {
+    const result = parseBoundaryFile(JSON.stringify({ type: 'Polygon', coordinates: [square] }))
+
+    expect(result).toEqual({
+      boundary: { type: 'MultiPolygon', coordinates: [[square]] },
+      error: null,
+    })
+  })
+
+  it('merges the polygons of a FeatureCollection and ignores other geometries', () => {
+    const result = parseBoundaryFile(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [square] } },
+        { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [4.9, 52.37] } },
+        { type: 'Feature', properties: {}, geometry: { type: 'MultiPolygon', coordinates: [[otherSquare]] } },
+      ],
+    }))
+
+    expect(result.boundary?.coordinates).toEqual([[square], [otherSquare]])
+  })
+
+  it('reads TopoJSON files', () => {
+    const topology = {
+      type: 'Topology',
+      arcs: [square],
+      objects: {
+        areas: {
+          type: 'GeometryCollection',
+          geometries: [{ type: 'Polygon', arcs: [[0]] }],
+        },
+      },
+    }
+
+    const result = parseBoundaryFile(JSON.stringify(topology))
+
+    expect(result).toEqual({
+      boundary: { type: 'MultiPolygon', coordinates: [[square]] },
+      error: null,
+    })
+  })
+
+  it('closes open rings and drops altitudes', () => {
+    const openRing = square.slice(0, 4).map(([lng, lat]) => [lng, lat, 10])
+
+    const result = parseBoundaryFile(JSON.stringify({ type: 'Polygon', coordinates: [openRing] }))
+
+    expect(result.boundary?.coordinates).toEqual([[square]])
+  })
+
+  it('rejects invalid JSON', () => {
+    expect(parseBoundaryFile('{ not json').error).toBe('invalidJson')
+  })
+
+  it('rejects documents that are not GeoJSON or TopoJSON', () => {
+    expect(parseBoundaryFile(JSON.stringify({ name: 'Centrum' })).error).toBe('unsupportedFormat')
+  })
+
+  it('rejects files without polygons', () => {
+    const result = parseBoundaryFile(JSON.stringify({ type: 'Point', coordinates: [4.9, 52.37] }))
+
+    expect(result.error).toBe('noPolygons')
+  })
+
+  it('rejects out-of-range coordinates', () => {
+    const projected = square.map(([lng, lat]) => [lng * 100000, lat * 100000])
+
+    const result = parseBoundaryFile(JSON.stringify({ type: 'Polygon', coordinates: [projected] }))
+
+    expect(result.error).toBe('invalidCoordinates')
+  })
+
+  it('rejects rings with too few positions', () => {
+    const result = parseBoundaryFile(JSON.stringify({ type: 'Polygon', coordinates: [square.slice(0, 2)] }))
+
+    expect(result.error).toBe('invalidCoordinates')
+  })
+
+  it('rejects boundaries with too many vertices', () => {
+    const ring = Array.from({ length: MAX_BOUNDARY_VERTICES + 1 }, (_, i) => {
+      const angle = (2 * Math.PI * i) / (MAX_BOUNDARY_VERTICES + 1)
+      return [4.9 + 0.01 * Math.cos(angle), 52.37 + 0.01 * Math.sin(angle)]
+    })
+
+    const result = parseBoundaryFile(JSON.stringify({ type: 'Polygon', coordinates: [ring] }))
+
+    expect(result.error).toBe('tooManyVertices')
+  })
+})
+
+describe('countBoundaryVertices', () => {
+  it('counts the positions of all rings', () => {
+    expect(countBoundaryVertices({ type: 'MultiPolygon', coordinates: [[square], [otherSquare, square]] })).toBe(15)
+  })
+})
+
+describe('boundarySchema', () => {
+  it('accepts parsed boundaries', () => {
+    const { boundary } = parseBoundaryFile(JSON.stringify({ type: 'Polygon', coordinates: [square] }))
+
+    expect(boundarySchema.safeParse(boundary).success).toBe(true)
+  })
+
+  it('rejects open rings', () => {
+    const result = boundarySchema.safeParse({ type: 'MultiPolygon', coordinates: [[square.slice(0, 4)]] })
+
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects coordinates outside WGS 84 ranges', () => {
+    const result = boundarySchema.safeParse({
+      type: 'MultiPolygon',
+      coordinates: [[square.map(([lng, lat]) => [lng * 100000, lat * 100000])]],
+    })
+
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects other geometry types', () => {
+    const result = boundarySchema.safeParse({ type: 'Polygon', coordinates: [square] })
+
+    expect(result.success).toBe(false)
+  })
+})
@@ -0,0 +1,231 @@
+/**
+ * Boundary Files
+ * ==============
+ * Parsing and validation of uploaded district/neighborhood boundaries.
+ *
+ * Operators upload GeoJSON (geometry, Feature, FeatureCollection or
+ * GeometryCollection) or TopoJSON files. All polygonal parts are merged into
+ * one MultiPolygon, which is what the database stores. Other geometry types
+ * (points, lines) in the file are ignored.
+ *
+ * This module has no server dependencies so the forms can validate files
+ * before submitting them; the server actions validate again with
+ * `boundarySchema`.
+ *
+ * @module lib/map/boundary-files
+ */
+
+import { feature } from 'topojson-client'
+import type { Topology } from 'topojson-specification'
+import type { Geometry, MultiPolygon, Position } from 'geojson'
+import { z } from 'zod'
+
+/**
+ * Maximum number of vertices in one boundary. Keeps uploads and the
+ * public boundaries endpoint reasonably small; simplify larger files first.
+ */
+export const MAX_BOUNDARY_VERTICES = 50000
+
+/**
+ * Maximum size of an uploaded boundary file in bytes. Keep it below the
+ * server action body limit in next.config.ts.
+ */
+export const MAX_BOUNDARY_FILE_SIZE = 5 * 1024 * 1024
+
+/**
+ * Reasons a boundary file is rejected (used as translation keys)
+ */
+export type BoundaryParseError =
+  | 'invalidJson'
+  | 'unsupportedFormat'
+  | 'noPolygons'
+  | 'invalidCoordinates'
+  | 'tooManyVertices'
+
+/**
+ * Result of parsing a boundary file
+ */
+export type BoundaryParseResult =
+  | { boundary: MultiPolygon; error: null }
+  | { boundary: null; error: BoundaryParseError }
+
+const positionSchema = z
+  .array(z.number())
+  .length(2, 'Positions must be [longitude, latitude]')
+  .refine(
+    ([lng, lat]) => lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90,
+    'Coordinates must be longitude/latitude (WGS 84)'
+  )
+
+const ringSchema = z
+  .array(positionSchema)
+  .min(4, 'A polygon ring needs at least 4 positions')
+  .refine(
+    (ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+    'Polygon rings must be closed'
+  )
+
+/**
+ * Validation schema for a boundary as submitted to the server actions
+ */
+export const boundarySchema = z
+  .object({
+    type: z.literal('MultiPolygon'),
+    coordinates: z.array(z.array(ringSchema).min(1)).min(1),
+  })
+  .refine(
+    (boundary) => countBoundaryVertices(boundary as MultiPolygon) <= MAX_BOUNDARY_VERTICES,
+    `Boundary has more than ${MAX_BOUNDARY_VERTICES} vertices`
+  )
+
+/**
+ * Count the vertices of a MultiPolygon
+ *
+ * @param boundary - MultiPolygon geometry
+ * @returns Total number of positions in all rings
+ */
+export function countBoundaryVertices(boundary: MultiPolygon): number {
+  return boundary.coordinates.reduce(
+    (total, polygon) => total + polygon.reduce((sum, ring) => sum + ring.length, 0),
+    0
+  )
+}
+
+/**
+ * Collect the geometries of a parsed GeoJSON or TopoJSON document
+ *
+ * @param document - Parsed JSON
+ * @returns Geometries, or null if the document is not GeoJSON/TopoJSON
+ */
+function collectGeometries(document: unknown): Geometry[] | null {
+  if (!document || typeof document !== 'object' || !('type' in document)) {
+    return null
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const doc = document as any
+
+  switch (doc.type) {
+    case 'Topology': {
+      if (!doc.objects || typeof doc.objects !== 'object') {
+        return null
+      }
+      const topology = doc as Topology
+      return Object.keys(topology.objects).flatMap((name) => {
+        const converted = feature(topology, topology.objects[name]) as unknown
+        return collectGeometries(converted) ?? []
+      })
+    }
+    case 'FeatureCollection':
+      return Array.isArray(doc.features)
+        ? doc.features.flatMap((item: unknown) => collectGeometries(item) ?? [])
+        : null
+    case 'Feature':
+      return doc.geometry ? collectGeometries(doc.geometry) : []
+    case 'GeometryCollection':
+      return Array.isArray(doc.geometries)
+        ? doc.geometries.flatMap((item: unknown) => collectGeometries(item) ?? [])
+        : null
+    case 'Point':
+    case 'MultiPoint':
+    case 'LineString':
+    case 'MultiLineString':
+    case 'Polygon':
+    case 'MultiPolygon':
+      return [doc as Geometry]
+    default:
+      return null
+  }
+}
+
+/**
+ * Normalize a polygon ring: drop altitudes, validate ranges and close it
+ *
+ * @param ring - Raw ring positions
+ * @returns Normalized ring, or null if it is invalid
+ */
+function normalizeRing(ring: unknown): Position[] | null {
+  if (!Array.isArray(ring)) {
+    return null
+  }
+
+  const positions: Position[] = []
+  for (const position of ring) {
+    if (!Array.isArray(position) || position.length < 2) {
+      return null
+    }
+    const [lng, lat] = position
+    if (
+      typeof lng !== 'number' || typeof lat !== 'number' ||
+      !Number.isFinite(lng) || !Number.isFinite(lat) ||
+      lng < -180 || lng > 180 || lat < -90 || lat > 90
+    ) {
+      return null
+    }
+    positions.push([lng, lat])
+  }
+
+  const first = positions[0]
+  const last = positions[positions.length - 1]
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+    positions.push([first[0], first[1]])
+  }
+
+  return positions.length >= 4 ? positions : null
+}
+
+/**
+ * Parse an uploaded GeoJSON or TopoJSON boundary file
+ *
+ * @param text - File contents
+ * @returns MultiPolygon boundary, or the reason the file was rejected
+ *
+ * @example
+ * const { boundary, error } = parseBoundaryFile(await file.text())
+ */
+export function parseBoundaryFile(text: string): BoundaryParseResult {
+  let document: unknown
+  try {
+    document = JSON.parse(text)
+  } catch {
+    return { boundary: null, error: 'invalidJson' }
+  }
+
+  const geometries = collectGeometries(document)
+  if (!geometries) {
+    return { boundary: null, error: 'unsupportedFormat' }
+  }
+
+  const rawPolygons: unknown[][] = []
+  for (const geometry of geometries) {
+    if (geometry.type === 'Polygon') {
+      rawPolygons.push(geometry.coordinates)
+    } else if (geometry.type === 'MultiPolygon') {
+      rawPolygons.push(...geometry.coordinates)
+    }
+  }
+
+  if (rawPolygons.length === 0) {
+    return { boundary: null, error: 'noPolygons' }
+  }
+
+  const coordinates: Position[][][] = []
+  for (const rawPolygon of rawPolygons) {
+    if (!Array.isArray(rawPolygon) || rawPolygon.length === 0) {
+      return { boundary: null, error: 'invalidCoordinates' }
+    }
+    const rings = rawPolygon.map(normalizeRing)
+    if (rings.some((ring) => ring === null)) {
+      return { boundary: null, error: 'invalidCoordinates' }
+    }
+    coordinates.push(rings as Position[][])
+  }
+
+  const boundary: MultiPolygon = { type: 'MultiPolygon', coordinates }
+
+  if (countBoundaryVertices(boundary) > MAX_BOUNDARY_VERTICES) {
+    return { boundary: null, error: 'tooManyVertices' }
+  }
+
+  return { boundary, error: null }
+}
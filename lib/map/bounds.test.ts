@@ -0,0 +1,78 @@
+/**
+ * @file bounds.test.ts
+ * @description Unit tests for city bounds helpers.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  areCoordinatesSwapped,
+  cityBoundsToFeature,
+  isWithinCityBounds,
+  parseCityBounds,
+  type CityBounds,
+} from './bounds'
+
+const amsterdam: CityBounds = { minLat: 52.27, maxLat: 52.43, minLng: 4.73, maxLng: 5.07 }
+
+describe('parseCityBounds', () => {
+  it('parses DECIMAL columns returned as strings', () => {
+    expect(
+      parseCityBounds({
+        bounds_min_lat: '52.27',
+        bounds_max_lat: 52.43,
+        bounds_min_lng: '4.73',
+        bounds_max_lng: '5.07',
+      })
+    ).toEqual(amsterdam)
+  })
+
+  it('returns null when a column is missing', () => {
+    expect(
+      parseCityBounds({
+        bounds_min_lat: '52.27',
+        bounds_max_lat: null,
+        bounds_min_lng: '4.73',
+        bounds_max_lng: '5.07',
+      })
+    ).toBeNull()
+  })
+})
+
+describe('isWithinCityBounds', () => {
+  it('accepts points inside the bounds and on the edges', () => {
+    expect(isWithinCityBounds(amsterdam, 52.3676, 4.9041)).toBe(true)
+    expect(isWithinCityBounds(amsterdam, 52.27, 4.73)).toBe(true)
+  })
+
+  it('rejects points outside the bounds', () => {
+    // Rotterdam
+    expect(isWithinCityBounds(amsterdam, 51.9225, 4.4792)).toBe(false)
+  })
+
+  it('accepts everything when no bounds are configured', () => {
+    expect(isWithinCityBounds(null, -33.8688, 151.2093)).toBe(true)
+  })
+})
+
+describe('areCoordinatesSwapped', () => {
+  it('detects latitude and longitude entered the wrong way round', () => {
+    expect(areCoordinatesSwapped(amsterdam, 4.9041, 52.3676)).toBe(true)
+  })
+
+  it('does not flag correct or unrelated coordinates', () => {
+    expect(areCoordinatesSwapped(amsterdam, 52.3676, 4.9041)).toBe(false)
+    expect(areCoordinatesSwapped(amsterdam, 51.9225, 4.4792)).toBe(false)
+    expect(areCoordinatesSwapped(null, 4.9041, 52.3676)).toBe(false)
+  })
+})
+
+describe('cityBoundsToFeature', () => {
+  it('builds a closed rectangle in [lng, lat] order', () => {
+    const ring = cityBoundsToFeature(amsterdam).geometry.coordinates[0]
+
+    expect(ring).toHaveLength(5)
+    expect(ring[0]).toEqual([4.73, 52.27])
+    expect(ring[2]).toEqual([5.07, 52.43])
+    expect(ring[4]).toEqual(ring[0])
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * City Bounds
+ * ===========
+ * Helpers for the rectangular `bounds_*` area configured per city: parsing
+ * the database columns, checking whether coordinates fall inside, and
+ * spotting swapped latitude/longitude values.
+ *
+ * @module lib/map/bounds
+ */
+
+import type { CityMapConfig } from '@/types/map'
+
+/**
+ * Rectangular city bounds in WGS 84
+ */
+export type CityBounds = NonNullable<CityMapConfig['bounds']>
+
+/**
+ * The `bounds_*` columns of a city row (DECIMAL columns may arrive as strings)
+ */
+export interface CityBoundsColumns {
+  bounds_min_lat: number | string | null
+  bounds_max_lat: number | string | null
+  bounds_min_lng: number | string | null
+  bounds_max_lng: number | string | null
+}
+
+/**
+ * Convert a DECIMAL column (returned as string or number) to a number
+ *
+ * @param value - Raw column value
+ * @returns Parsed number, or null if missing or not numeric
+ */
+export function toNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null
+  }
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * Read the bounds of a city row
+ *
+ * @param row - City row with `bounds_*` columns
+ * @returns Bounds, or null if any of the four columns is missing
+ */
+export function parseCityBounds(row: CityBoundsColumns): CityBounds | null {
+  const minLat = toNumber(row.bounds_min_lat)
+  const maxLat = toNumber(row.bounds_max_lat)
+  const minLng = toNumber(row.bounds_min_lng)
+  const maxLng = toNumber(row.bounds_max_lng)
+
+  if (minLat === null || maxLat === null || minLng === null || maxLng === null) {
+    return null
+  }
+
+  return { minLat, maxLat, minLng, maxLng }
+}
+
+/**
+ * Check whether coordinates lie inside the city bounds (edges included)
+ *
+ * @param bounds - City bounds, or null when the city has none configured
+ * @param latitude - Latitude
+ * @param longitude - Longitude
+ * @returns True if inside, or if no bounds are configured
+ */
+export function isWithinCityBounds(
+  bounds: CityBounds | null,
+  latitude: number,
+  longitude: number
+): boolean {
+  if (!bounds) {
+    return true
+  }
+
+  return (
+    latitude >= bounds.minLat &&
+    latitude <= bounds.maxLat &&
+    longitude >= bounds.minLng &&
+    longitude <= bounds.maxLng
+  )
+}
+
+/**
+ * Detect coordinates that are outside the bounds only because latitude and
+ * longitude were entered the wrong way round
+ *
+ * @param bounds - City bounds
+ * @param latitude - Latitude as entered
+ * @param longitude - Longitude as entered
+ * @returns True if swapping the values would put the point inside the bounds
+ */
+export function areCoordinatesSwapped(
+  bounds: CityBounds | null,
+  latitude: number,
+  longitude: number
+): boolean {
+  if (!bounds) {
+    return false
+  }
+
+  return (
+    !isWithinCityBounds(bounds, latitude, longitude) &&
+    isWithinCityBounds(bounds, longitude, latitude)
+  )
+}
+
+/**
+ * Build the outline of the city bounds as a GeoJSON polygon
+ *
+ * @param bounds - City bounds
+ * @returns GeoJSON Feature with a closed rectangle ring
+ */
+export function cityBoundsToFeature(bounds: CityBounds): GeoJSON.Feature<GeoJSON.Polygon> {
+  const { minLat, maxLat, minLng, maxLng } = bounds
+
+  return {
+    type: 'Feature',
+    properties: {},
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[
+        [minLng, minLat],
+        [maxLng, minLat],
+        [maxLng, maxLat],
+        [minLng, maxLat],
+        [minLng, minLat],
+      ]],
+    },
+  }
+}
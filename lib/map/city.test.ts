@@ -0,0 +1,121 @@
+/**
+ * @file city.test.ts
+ * @description Unit tests for loading the public city map configuration.
+ */
+
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest'
+import { getPublicCityMapConfig } from './city'
+
+vi.mock('@/lib/database/client', () => ({
+  getDatabaseAdminClient: vi.fn(),
+}))
+
+import { getDatabaseAdminClient } from '@/lib/database/client'
+
+/**
+ * Create a chainable Supabase mock whose `single()` resolves to the given result
+ */
+function createMockClient(result: { data: unknown; error: unknown }) {
+  const client = {
+    from: vi.fn(),
+    select: vi.fn(),
+    eq: vi.fn(),
+    single: vi.fn().mockResolvedValue(result),
+  }
+  client.from.mockReturnValue(client)
+  client.select.mockReturnValue(client)
+  client.eq.mockReturnValue(client)
+  return client
+}
+
+const cityRow = {
+  id: 'city-1',
+  slug: 'amsterdam',
+  center_lat: '52.3676000',
+  center_lng: '4.9041000',
+  default_zoom: 12,
+  mapbox_style: 'mapbox://styles/mapbox/light-v11',
+  primary_color: '#1976d2',
+  bounds_min_lat: '52.2780000',
+  bounds_max_lat: '52.4310000',
+  bounds_min_lng: '4.7280000',
+  bounds_max_lng: '5.0790000',
+  translations: [
+    { locale_code: 'en', name: 'Amsterdam' },
+    { locale_code: 'fr', name: 'Amsterdam (FR)' },
+  ],
+}
+
+describe('getPublicCityMapConfig', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should map the city row to a map configuration', async () => {
+    const client = createMockClient({ data: cityRow, error: null })
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(client)
+
+    const config = await getPublicCityMapConfig('amsterdam', 'fr')
+
+    expect(client.from).toHaveBeenCalledWith('cities')
+    expect(client.eq).toHaveBeenCalledWith('slug', 'amsterdam')
+    expect(config).toEqual({
+      id: 'city-1',
+      slug: 'amsterdam',
+      name: 'Amsterdam (FR)',
+      centerLat: 52.3676,
+      centerLng: 4.9041,
+      defaultZoom: 12,
+      mapboxStyle: 'mapbox://styles/mapbox/light-v11',
+      primaryColor: '#1976d2',
+      bounds: { minLat: 52.278, maxLat: 52.431, minLng: 4.728, maxLng: 5.079 },
+    })
+  })
+
+  it('should fall back to the English name and then the slug', async () => {
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(
+      createMockClient({ data: cityRow, error: null })
+    )
+    expect((await getPublicCityMapConfig('amsterdam', 'nl'))?.name).toBe('Amsterdam')
+
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(
+      createMockClient({ data: { ...cityRow, translations: [] }, error: null })
+    )
+    expect((await getPublicCityMapConfig('amsterdam', 'nl'))?.name).toBe('amsterdam')
+  })
+
+  it('should return null bounds when any bound is missing', async () => {
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(
+      createMockClient({ data: { ...cityRow, bounds_max_lng: null }, error: null })
+    )
+
+    const config = await getPublicCityMapConfig('amsterdam', 'en')
+    expect(config?.bounds).toBeNull()
+  })
+
+  it('should return null when the city has no center configured', async () => {
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(
+      createMockClient({ data: { ...cityRow, center_lat: null }, error: null })
+    )
+
+    expect(await getPublicCityMapConfig('amsterdam', 'en')).toBeNull()
+  })
+
+  it('should return null when the city does not exist', async () => {
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(
+      createMockClient({ data: null, error: { code: 'PGRST116', message: 'No rows' } })
+    )
+
+    expect(await getPublicCityMapConfig('unknown', 'en')).toBeNull()
+  })
+
+  it('should throw on other database errors', async () => {
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(
+      createMockClient({ data: null, error: { code: '500', message: 'Connection lost' } })
+    )
+
+    await expect(getPublicCityMapConfig('amsterdam', 'en')).rejects.toThrow(
+      'Failed to fetch city map configuration: Connection lost'
+    )
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Public City Map Configuration
+ * =============================
+ * Loads the map settings of a city for the public map page.
+ *
+ * Uses the admin database client (like the public GeoJSON route) because the
+ * page is served to anonymous visitors.
+ *
+ * @module lib/map/city
+ */
+
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { parseCityBounds, toNumber, type CityBoundsColumns } from '@/lib/map/bounds'
+import type { CityMapConfig } from '@/types/map'
+
+/**
+ * City row as returned by the configuration query
+ */
+interface CityRecord extends CityBoundsColumns {
+  id: string
+  slug: string
+  center_lat: number | string | null
+  center_lng: number | string | null
+  default_zoom: number | null
+  mapbox_style: string | null
+  primary_color: string | null
+  translations: Array<{ locale_code: string; name: string }> | null
+}
+
+/**
+ * Get the public map configuration for a city
+ *
+ * @async
+ * @param citySlug - City identifier slug (e.g., 'amsterdam')
+ * @param locale - Locale code used for the city name (falls back to English, then slug)
+ * @returns Promise resolving to the city map configuration, or null if the city does not exist
+ *          or has no map center configured
+ * @throws {Error} If the database query fails for a reason other than "not found"
+ */
+export async function getPublicCityMapConfig(
+  citySlug: string,
+  locale: string
+): Promise<CityMapConfig | null> {
+  const supabase = getDatabaseAdminClient(citySlug)
+
+  const { data, error } = await supabase
+    .from('cities')
+    .select(`
+      id,
+      slug,
+      center_lat,
+      center_lng,
+      default_zoom,
+      mapbox_style,
+      primary_color,
+      bounds_min_lat,
+      bounds_max_lat,
+      bounds_min_lng,
+      bounds_max_lng,
+      translations:city_translations (
+        locale_code,
+        name
+      )
+    `)
+    .eq('slug', citySlug)
+    .single()
+
+  if (error) {
+    // PGRST116: no rows returned
+    if (error.code === 'PGRST116') {
+      return null
+    }
+    throw new Error(`Failed to fetch city map configuration: ${error.message}`)
+  }
+
+  const city = data as unknown as CityRecord | null
+  if (!city) {
+    return null
+  }
+
+  const centerLat = toNumber(city.center_lat)
+  const centerLng = toNumber(city.center_lng)
+  if (centerLat === null || centerLng === null) {
+    return null
+  }
+
+  const translations = city.translations ?? []
+  const name =
+    translations.find((t) => t.locale_code === locale)?.name ||
+    translations.find((t) => t.locale_code === 'en')?.name ||
+    city.slug
+
+  return {
+    id: city.id,
+    slug: city.slug,
+    name,
+    centerLat,
+    centerLng,
+    defaultZoom: city.default_zoom ?? 11,
+    mapboxStyle: city.mapbox_style,
+    primaryColor: city.primary_color,
+    bounds: parseCityBounds(city),
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Map Constants
+ * =============
+ * Shared Mapbox configuration for the public city map.
+ *
+ * Icon and label settings are carried over from the original Amsterdam
+ * Language Map (see reusable-code/config.points.ts), where they were tuned
+ * against real data density.
+ *
+ * @module lib/map/constants
+ */
+
+/**
+ * Fallback Mapbox style when a city has no `mapbox_style` configured
+ */
+export const DEFAULT_MAPBOX_STYLE = 'mapbox://styles/mapbox/streets-v12'
+
+/**
+ * Mapbox plugin that shapes Arabic and Hebrew script in map labels, so
+ * that endonyms in right-to-left scripts render in the right order
+ */
+export const RTL_TEXT_PLUGIN_URL =
+  'https://api.mapbox.com/mapbox-gl-js/plugins/mapbox-gl-rtl-text/v0.3.0/mapbox-gl-rtl-text.js'
+
+/**
+ * Zoom level used when flying to a clicked language point
+ */
+export const POINT_ZOOM_LEVEL = 13
+
+/**
+ * Decimal places kept for coordinates picked on the map (~0.1 m)
+ */
+export const PICKER_COORDINATE_DECIMALS = 6
+
+/**
+ * Fallback marker styling, matching the defaults applied by the GeoJSON route
+ */
+export const DEFAULT_MARKER_COLOR = '#CCCCCC'
+export const DEFAULT_MARKER_ICON = 'circle'
+export const DEFAULT_MARKER_SIZE = 1.0
+
+/**
+ * Icons shipped in `public/map-icons/` (file name without `.svg`).
+ * Taxonomy values whose `icon_name` is not listed here render as plain circles.
+ */
+export const MAP_ICON_NAMES = ['book', 'circle', 'home', 'museum', 'tree', 'users'] as const
+
+/**
+ * Pixel size at which the SVG map icons are rasterized before being added to the map
+ */
+export const MAP_ICON_PIXEL_SIZE = 96
+
+/**
+ * Source and layer identifiers used by the city map
+ */
+export const MAP_IDS = {
+  POINTS_SOURCE: 'language-points',
+  POINTS_CIRCLE_LAYER: 'language-points-circles',
+  POINTS_ICON_LAYER: 'language-points-icons',
+  POINTS_LABEL_LAYER: 'language-points-labels',
+  BOUNDARIES_SOURCE: 'neighborhood-boundaries',
+  BOUNDARIES_FILL_LAYER: 'neighborhood-boundaries-fill',
+  BOUNDARIES_LINE_LAYER: 'neighborhood-boundaries-line',
+  CITY_BOUNDS_SOURCE: 'city-bounds',
+  CITY_BOUNDS_LINE_LAYER: 'city-bounds-line',
+} as const
+
+/**
+ * Neighborhood area styling: a light fill so points stay readable on top
+ */
+export const BOUNDARY_FILL_COLOR = '#3B82F6'
+export const BOUNDARY_FILL_OPACITY = 0.08
+export const BOUNDARY_LINE_COLOR = '#3B82F6'
+export const BOUNDARY_LINE_OPACITY = 0.5
+
+/**
+ * Base circle radius (in pixels) per zoom level, before the taxonomy size
+ * multiplier is applied
+ */
+export const CIRCLE_RADIUS_STEPS = [10, 4, 11, 5, 13, 6, 15, 7, 17, 8] as const
+export const CIRCLE_RADIUS_BASE = 3
+
+/**
+ * Icon scale per zoom level for non-circle icons, before the taxonomy size
+ * multiplier is applied
+ */
+export const ICON_SIZE_STEPS = [10, 0.28, 11, 0.3, 12, 0.32, 14, 0.35, 17, 0.4] as const
+export const ICON_SIZE_BASE = 0.25
+
+/**
+ * Text label size per zoom level
+ */
+export const TEXT_SIZE_STEPS = [10, 9, 11, 10, 14, 11] as const
+export const TEXT_SIZE_BASE = 8
+
+/**
+ * Minimum zoom at which language name labels are shown
+ */
+export const LABEL_MIN_ZOOM = 12
+
+/**
+ * Vector tile settings for `/api/[locale]/[citySlug]/tiles/{z}/{x}/{y}.mvt`
+ */
+export const TILE_LAYER_NAME = 'language-points'
+export const TILE_EXTENT = 4096
+export const TILE_MAX_ZOOM = 22
+
+/**
+ * Points are clustered server-side up to (and including) this zoom level
+ */
+export const CLUSTER_MAX_ZOOM = 13
+
+/**
+ * Cluster radius in pixels (at a 512px tile size)
+ */
+export const CLUSTER_RADIUS = 50
@@ -0,0 +1,220 @@
+/**
+ * @file filters.test.ts
+ * @description Unit tests for GeoJSON query-parameter filters.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createEmptyFilters,
+  getTaxonomyValueCounts,
+  hasActiveFilters,
+  matchesLanguagePointFilters,
+  MAX_FILTER_VALUES,
+  parseLanguagePointFilters,
+  toggleTaxonomyFilter,
+  type FilterableLanguagePoint,
+  type LanguagePointFilters,
+} from './filters'
+
+/**
+ * Parse a query string and fail the test on validation errors
+ */
+function parse(query: string): LanguagePointFilters {
+  const result = parseLanguagePointFilters(new URLSearchParams(query))
+  if (result.error !== null) {
+    throw new Error(result.error)
+  }
+  return result.filters
+}
+
+const point: FilterableLanguagePoint = {
+  taxonomies: [
+    { typeSlug: 'size', valueSlug: 'large', color: '#FF4500', iconName: 'circle', iconSize: 1.5 },
+    { typeSlug: 'status', valueSlug: 'liturgical', color: '#00FF00', iconName: 'book', iconSize: 1 },
+  ],
+  familySlug: 'semitic',
+  countryCode: 'MA',
+  neighborhoodSlug: 'jordaan',
+  districtSlug: 'centrum',
+}
+
+describe('Map Filters', () => {
+  describe('parseLanguagePointFilters', () => {
+    it('should return empty filters when no parameters are set', () => {
+      const filters = parse('')
+
+      expect(filters).toEqual({
+        taxonomies: {},
+        taxonomyValues: [],
+        families: [],
+        countries: [],
+        neighborhoods: [],
+        districts: [],
+      })
+      expect(hasActiveFilters(filters)).toBe(false)
+    })
+
+    it('should group taxonomy values by type', () => {
+      const filters = parse(
+        'taxonomy=size:large&taxonomy=size:medium&taxonomy=status:liturgical&taxonomy=size:large'
+      )
+
+      expect(filters.taxonomies).toEqual({
+        size: ['large', 'medium'],
+        status: ['liturgical'],
+      })
+      expect(hasActiveFilters(filters)).toBe(true)
+    })
+
+    it('should treat type slugs named like object properties as plain slugs', () => {
+      const filters = parse('taxonomy=constructor:x&taxonomy=__proto__:y&taxonomy=to_string:z')
+
+      expect(Object.keys(filters.taxonomies)).toEqual(['constructor', '__proto__', 'to_string'])
+      expect(filters.taxonomies.constructor).toEqual(['x'])
+      expect(matchesLanguagePointFilters(point, filters)).toBe(false)
+      expect(toggleTaxonomyFilter(createEmptyFilters(), 'constructor', 'x').taxonomies.constructor).toEqual(['x'])
+    })
+
+    it('should parse family, country, neighborhood and district filters', () => {
+      const filters = parse(
+        'family=semitic&country=ma&country=ES&neighborhood=jordaan&district=centrum&district=zuid'
+      )
+
+      expect(filters.families).toEqual(['semitic'])
+      expect(filters.countries).toEqual(['MA', 'ES'])
+      expect(filters.neighborhoods).toEqual(['jordaan'])
+      expect(filters.districts).toEqual(['centrum', 'zuid'])
+    })
+
+    it('should keep the legacy taxonomyValue parameter', () => {
+      expect(parse('taxonomyValue=medium').taxonomyValues).toEqual(['medium'])
+    })
+
+    it('should reject taxonomy filters without a type', () => {
+      const result = parseLanguagePointFilters(new URLSearchParams('taxonomy=large'))
+      expect(result.error).toBe('Invalid taxonomy filter format (expected type:value)')
+    })
+
+    it('should reject invalid slugs', () => {
+      expect(parseLanguagePointFilters(new URLSearchParams('taxonomy=Size:large')).error).toContain(
+        'Invalid taxonomy type slug format'
+      )
+      expect(parseLanguagePointFilters(new URLSearchParams('taxonomy=size:')).error).toBe(
+        'Invalid taxonomy value slug length'
+      )
+      expect(parseLanguagePointFilters(new URLSearchParams('family=INVALID@VALUE')).error).toContain(
+        'Invalid language family slug format'
+      )
+      expect(parseLanguagePointFilters(new URLSearchParams('district=' + 'a'.repeat(101))).error).toBe(
+        'Invalid district slug length'
+      )
+    })
+
+    it('should reject invalid country codes', () => {
+      const result = parseLanguagePointFilters(new URLSearchParams('country=NLD'))
+      expect(result.error).toContain('Invalid country code format')
+    })
+
+    it('should reject too many values for one parameter', () => {
+      const query = Array.from({ length: MAX_FILTER_VALUES + 1 }, (_, i) => `family=f${i}`).join('&')
+      expect(parseLanguagePointFilters(new URLSearchParams(query)).error).toBe(
+        `Too many family filters (maximum ${MAX_FILTER_VALUES})`
+      )
+    })
+  })
+
+  describe('matchesLanguagePointFilters', () => {
+    it('should match everything without filters', () => {
+      expect(matchesLanguagePointFilters(point, parse(''))).toBe(true)
+    })
+
+    it('should AND across taxonomy types and OR within a type', () => {
+      expect(
+        matchesLanguagePointFilters(point, parse('taxonomy=size:large&taxonomy=status:liturgical'))
+      ).toBe(true)
+      expect(
+        matchesLanguagePointFilters(point, parse('taxonomy=size:small&taxonomy=size:large'))
+      ).toBe(true)
+      expect(
+        matchesLanguagePointFilters(point, parse('taxonomy=size:large&taxonomy=status:secular'))
+      ).toBe(false)
+    })
+
+    it('should distinguish identical value slugs in different types', () => {
+      const mediumSize: FilterableLanguagePoint = {
+        ...point,
+        taxonomies: [{ typeSlug: 'size', valueSlug: 'medium', color: '#FFD700', iconName: 'circle', iconSize: 1 }],
+      }
+
+      expect(matchesLanguagePointFilters(mediumSize, parse('taxonomy=size:medium'))).toBe(true)
+      expect(matchesLanguagePointFilters(mediumSize, parse('taxonomy=vitality:medium'))).toBe(false)
+      expect(matchesLanguagePointFilters(mediumSize, parse('taxonomyValue=medium'))).toBe(true)
+    })
+
+    it('should filter by family, country, neighborhood and district', () => {
+      expect(matchesLanguagePointFilters(point, parse('family=semitic&country=ma'))).toBe(true)
+      expect(matchesLanguagePointFilters(point, parse('family=romance'))).toBe(false)
+      expect(matchesLanguagePointFilters(point, parse('country=ES&country=MA'))).toBe(true)
+      expect(matchesLanguagePointFilters(point, parse('district=centrum&neighborhood=jordaan'))).toBe(true)
+      expect(matchesLanguagePointFilters(point, parse('district=zuid'))).toBe(false)
+    })
+
+    it('should not match points missing a filtered attribute', () => {
+      const unassigned: FilterableLanguagePoint = {
+        ...point,
+        familySlug: null,
+        neighborhoodSlug: null,
+        districtSlug: null,
+      }
+
+      expect(matchesLanguagePointFilters(unassigned, parse('family=semitic'))).toBe(false)
+      expect(matchesLanguagePointFilters(unassigned, parse('district=centrum'))).toBe(false)
+    })
+  })
+
+  describe('toggleTaxonomyFilter', () => {
+    it('should add and remove values without mutating the input', () => {
+      const empty = createEmptyFilters()
+      const withLarge = toggleTaxonomyFilter(empty, 'size', 'large')
+      const withBoth = toggleTaxonomyFilter(withLarge, 'size', 'small')
+
+      expect(empty.taxonomies).toEqual({})
+      expect(withBoth.taxonomies).toEqual({ size: ['large', 'small'] })
+      expect(toggleTaxonomyFilter(withLarge, 'size', 'large').taxonomies).toEqual({})
+    })
+  })
+
+  describe('getTaxonomyValueCounts', () => {
+    const points: FilterableLanguagePoint[] = [
+      point,
+      {
+        ...point,
+        taxonomies: [
+          { typeSlug: 'size', valueSlug: 'small', color: '#FFA500', iconName: 'circle', iconSize: 1 },
+          { typeSlug: 'status', valueSlug: 'liturgical', color: '#00FF00', iconName: 'book', iconSize: 1 },
+        ],
+      },
+      {
+        ...point,
+        districtSlug: 'zuid',
+        taxonomies: [{ typeSlug: 'size', valueSlug: 'small', color: '#FFA500', iconName: 'circle', iconSize: 1 }],
+      },
+    ]
+
+    it('should count points per value without filters', () => {
+      expect(getTaxonomyValueCounts(points, createEmptyFilters())).toEqual({
+        size: { large: 1, small: 2 },
+        status: { liturgical: 2 },
+      })
+    })
+
+    it('should ignore the filter of the counted type but honor the others', () => {
+      const counts = getTaxonomyValueCounts(points, parse('taxonomy=size:large&district=centrum'))
+
+      // Other size values stay selectable (OR within a type)
+      expect(counts.size).toEqual({ large: 1, small: 1 })
+      // Status counts are restricted by the size filter
+      expect(counts.status).toEqual({ liturgical: 1 })
+    })
+  })
+})
@@ -0,0 +1,367 @@
+/**
+ * Map Filters
+ * ===========
+ * Query-parameter filters for the public GeoJSON API.
+ *
+ * Supported parameters (all repeatable):
+ * - `taxonomy=<typeSlug>:<valueSlug>` - taxonomy classification. Values of the
+ *   same type are OR-ed, different types are AND-ed, so
+ *   `taxonomy=size:large&taxonomy=size:medium&taxonomy=status:liturgical`
+ *   means "(size is large OR medium) AND status is liturgical".
+ * - `family=<slug>` - language family slug
+ * - `country=<code>` - ISO 3166-1 alpha-2 code of the country of origin
+ * - `neighborhood=<slug>` - neighborhood slug
+ * - `district=<slug>` - district slug
+ * - `taxonomyValue=<valueSlug>` - legacy single-value filter matching the
+ *   value slug in any taxonomy type. Prefer `taxonomy=type:value`.
+ *
+ * Multiple values of one parameter are OR-ed; different parameters are AND-ed.
+ *
+ * @module lib/map/filters
+ */
+
+import type { LanguagePointFeature } from '@/types/map'
+
+/**
+ * Maximum length of a single slug in a filter
+ */
+const MAX_SLUG_LENGTH = 100
+
+/**
+ * Maximum number of values accepted per filter parameter
+ */
+export const MAX_FILTER_VALUES = 50
+
+const SLUG_PATTERN = /^[a-z0-9-_]+$/
+const COUNTRY_CODE_PATTERN = /^[A-Za-z]{2}$/
+
+/**
+ * Parsed GeoJSON filters. Empty arrays/objects mean "no filter".
+ */
+export interface LanguagePointFilters {
+  /** Taxonomy value slugs keyed by taxonomy type slug */
+  taxonomies: Record<string, string[]>
+  /** Legacy `taxonomyValue` slugs, matched against any taxonomy type */
+  taxonomyValues: string[]
+  families: string[]
+  /** Upper-case ISO 3166-1 alpha-2 codes */
+  countries: string[]
+  neighborhoods: string[]
+  districts: string[]
+}
+
+/**
+ * Result of parsing filter query parameters
+ */
+export type ParseFiltersResult =
+  | { filters: LanguagePointFilters; error: null }
+  | { filters: null; error: string }
+
+/**
+ * Properties of a language point that filters are evaluated against
+ */
+export type FilterableLanguagePoint = Pick<
+  LanguagePointFeature['properties'],
+  'taxonomies' | 'familySlug' | 'countryCode' | 'neighborhoodSlug' | 'districtSlug'
+>
+
+/**
+ * Copy taxonomy filters into an object without a prototype
+ *
+ * Type slugs come from the query string, and `SLUG_PATTERN` allows names
+ * such as `constructor` and `__proto__` that an object literal inherits.
+ *
+ * @param taxonomies - Filters to copy
+ * @returns Copy keyed by taxonomy type slug
+ */
+function copyTaxonomyFilters(taxonomies: Record<string, string[]> = {}): Record<string, string[]> {
+  return Object.assign(Object.create(null) as Record<string, string[]>, taxonomies)
+}
+
+/**
+ * Get the selected values of a taxonomy type
+ *
+ * @param taxonomies - Taxonomy filters
+ * @param typeSlug - Taxonomy type slug
+ * @returns Selected value slugs, empty when the type is not filtered
+ */
+function getTaxonomyFilterValues(taxonomies: Record<string, string[]>, typeSlug: string): string[] {
+  return Object.prototype.hasOwnProperty.call(taxonomies, typeSlug) ? taxonomies[typeSlug] : []
+}
+
+/**
+ * Create a filter set without any active filter
+ *
+ * @returns Empty filters
+ */
+export function createEmptyFilters(): LanguagePointFilters {
+  return {
+    taxonomies: copyTaxonomyFilters(),
+    taxonomyValues: [],
+    families: [],
+    countries: [],
+    neighborhoods: [],
+    districts: [],
+  }
+}
+
+/**
+ * Validate a slug used in a filter
+ *
+ * @param value - Slug to validate
+ * @param label - Human-readable name used in the error message
+ * @returns Error message, or null if the slug is valid
+ */
+function validateSlug(value: string, label: string): string | null {
+  if (value.length === 0 || value.length > MAX_SLUG_LENGTH) {
+    return `Invalid ${label} slug length`
+  }
+
+  if (!SLUG_PATTERN.test(value)) {
+    return `Invalid ${label} slug format (expected lowercase alphanumeric with hyphens/underscores)`
+  }
+
+  return null
+}
+
+/**
+ * Read all values of a repeatable parameter, de-duplicated
+ *
+ * @param searchParams - URL search parameters
+ * @param name - Parameter name
+ * @returns Unique values, or an error message if there are too many
+ */
+function getUniqueValues(
+  searchParams: URLSearchParams,
+  name: string
+): { values: string[]; error: string | null } {
+  const values = Array.from(new Set(searchParams.getAll(name)))
+
+  if (values.length > MAX_FILTER_VALUES) {
+    return { values: [], error: `Too many ${name} filters (maximum ${MAX_FILTER_VALUES})` }
+  }
+
+  return { values, error: null }
+}
+
+/**
+ * Parse and validate GeoJSON filter query parameters
+ *
+ * @param searchParams - URL search parameters of the request
+ * @returns Parsed filters, or an error message suitable for a 400 response
+ *
+ * @example
+ * parseLanguagePointFilters(new URLSearchParams('taxonomy=size:large&family=romance'))
+ * // => { filters: { taxonomies: { size: ['large'] }, families: ['romance'], ... }, error: null }
+ */
+export function parseLanguagePointFilters(searchParams: URLSearchParams): ParseFiltersResult {
+  const filters = createEmptyFilters()
+
+  // Taxonomy type:value pairs
+  const taxonomyParams = getUniqueValues(searchParams, 'taxonomy')
+  if (taxonomyParams.error) {
+    return { filters: null, error: taxonomyParams.error }
+  }
+
+  for (const pair of taxonomyParams.values) {
+    const separatorIndex = pair.indexOf(':')
+    if (separatorIndex === -1) {
+      return {
+        filters: null,
+        error: 'Invalid taxonomy filter format (expected type:value)',
+      }
+    }
+
+    const typeSlug = pair.slice(0, separatorIndex)
+    const valueSlug = pair.slice(separatorIndex + 1)
+
+    const error = validateSlug(typeSlug, 'taxonomy type') ?? validateSlug(valueSlug, 'taxonomy value')
+    if (error) {
+      return { filters: null, error }
+    }
+
+    filters.taxonomies[typeSlug] = [...getTaxonomyFilterValues(filters.taxonomies, typeSlug), valueSlug]
+  }
+
+  // Slug-based filters
+  const slugFilters = [
+    ['taxonomyValue', 'taxonomy value', 'taxonomyValues'],
+    ['family', 'language family', 'families'],
+    ['neighborhood', 'neighborhood', 'neighborhoods'],
+    ['district', 'district', 'districts'],
+  ] as const
+
+  for (const [param, label, key] of slugFilters) {
+    const { values, error } = getUniqueValues(searchParams, param)
+    if (error) {
+      return { filters: null, error }
+    }
+
+    for (const value of values) {
+      const slugError = validateSlug(value, label)
+      if (slugError) {
+        return { filters: null, error: slugError }
+      }
+    }
+
+    filters[key] = values
+  }
+
+  // Country codes
+  const countryParams = getUniqueValues(searchParams, 'country')
+  if (countryParams.error) {
+    return { filters: null, error: countryParams.error }
+  }
+
+  for (const code of countryParams.values) {
+    if (!COUNTRY_CODE_PATTERN.test(code)) {
+      return {
+        filters: null,
+        error: 'Invalid country code format (expected ISO 3166-1 alpha-2, e.g. NL)',
+      }
+    }
+  }
+
+  filters.countries = Array.from(new Set(countryParams.values.map((code) => code.toUpperCase())))
+
+  return { filters, error: null }
+}
+
+/**
+ * Check whether any filter is set
+ *
+ * @param filters - Parsed filters
+ * @returns True if at least one filter restricts the result
+ */
+export function hasActiveFilters(filters: LanguagePointFilters): boolean {
+  return (
+    Object.keys(filters.taxonomies).length > 0 ||
+    filters.taxonomyValues.length > 0 ||
+    filters.families.length > 0 ||
+    filters.countries.length > 0 ||
+    filters.neighborhoods.length > 0 ||
+    filters.districts.length > 0
+  )
+}
+
+/**
+ * Check a nullable attribute against an OR-list of allowed values
+ */
+function matchesAny(value: string | null, allowed: string[]): boolean {
+  return allowed.length === 0 || (value !== null && allowed.includes(value))
+}
+
+/**
+ * Check whether a language point matches the filters
+ *
+ * @param point - Language point properties
+ * @param filters - Parsed filters
+ * @returns True if the point passes every active filter
+ */
+export function matchesLanguagePointFilters(
+  point: FilterableLanguagePoint,
+  filters: LanguagePointFilters
+): boolean {
+  // AND across taxonomy types, OR within a type
+  for (const [typeSlug, valueSlugs] of Object.entries(filters.taxonomies)) {
+    const matchesType = point.taxonomies.some(
+      (taxonomy) => taxonomy.typeSlug === typeSlug && valueSlugs.includes(taxonomy.valueSlug)
+    )
+    if (!matchesType) {
+      return false
+    }
+  }
+
+  if (
+    filters.taxonomyValues.length > 0 &&
+    !point.taxonomies.some((taxonomy) => filters.taxonomyValues.includes(taxonomy.valueSlug))
+  ) {
+    return false
+  }
+
+  return (
+    matchesAny(point.familySlug, filters.families) &&
+    matchesAny(point.countryCode, filters.countries) &&
+    matchesAny(point.neighborhoodSlug, filters.neighborhoods) &&
+    matchesAny(point.districtSlug, filters.districts)
+  )
+}
+
+/**
+ * Add or remove a taxonomy value from the filters
+ *
+ * @param filters - Current filters (not mutated)
+ * @param typeSlug - Taxonomy type slug
+ * @param valueSlug - Taxonomy value slug to toggle
+ * @returns New filters with the value toggled
+ */
+export function toggleTaxonomyFilter(
+  filters: LanguagePointFilters,
+  typeSlug: string,
+  valueSlug: string
+): LanguagePointFilters {
+  const current = getTaxonomyFilterValues(filters.taxonomies, typeSlug)
+  const next = current.includes(valueSlug)
+    ? current.filter((slug) => slug !== valueSlug)
+    : [...current, valueSlug]
+
+  const taxonomies = copyTaxonomyFilters(filters.taxonomies)
+  if (next.length > 0) {
+    taxonomies[typeSlug] = next
+  } else {
+    delete taxonomies[typeSlug]
+  }
+
+  return { ...filters, taxonomies }
+}
+
+/**
+ * Count matching points per taxonomy value (faceted counts)
+ *
+ * The count for a value ignores the filter on its own type, so it shows how
+ * many points would match if that value were selected (OR within a type)
+ * while still honoring every other active filter.
+ *
+ * @param points - Language point properties
+ * @param filters - Parsed filters
+ * @returns Counts keyed by taxonomy type slug, then value slug
+ */
+export function getTaxonomyValueCounts(
+  points: FilterableLanguagePoint[],
+  filters: LanguagePointFilters
+): Record<string, Record<string, number>> {
+  const counts = Object.create(null) as Record<string, Record<string, number>>
+  const facetFilters = new Map<string, LanguagePointFilters>()
+
+  // Filters without the counted type's own selection, built once per type
+  const getFacetFilters = (typeSlug: string): LanguagePointFilters => {
+    let facet = facetFilters.get(typeSlug)
+    if (!facet) {
+      const taxonomies = copyTaxonomyFilters(filters.taxonomies)
+      delete taxonomies[typeSlug]
+      facet = { ...filters, taxonomies }
+      facetFilters.set(typeSlug, facet)
+    }
+    return facet
+  }
+
+  for (const point of points) {
+    // Deduplicate so a point is counted once per value
+    const pairs = new Set(point.taxonomies.map((t) => `${t.typeSlug}:${t.valueSlug}`))
+
+    for (const pair of pairs) {
+      const separatorIndex = pair.indexOf(':')
+      const typeSlug = pair.slice(0, separatorIndex)
+      const valueSlug = pair.slice(separatorIndex + 1)
+
+      if (!matchesLanguagePointFilters(point, getFacetFilters(typeSlug))) {
+        continue
+      }
+
+      counts[typeSlug] = counts[typeSlug] ?? (Object.create(null) as Record<string, number>)
+      counts[typeSlug][valueSlug] = (counts[typeSlug][valueSlug] ?? 0) + 1
+    }
+  }
+
+  return counts
+}
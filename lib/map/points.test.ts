@@ -0,0 +1,116 @@
+/**
+ * @file points.test.ts
+ * @description Unit tests for language point validation and GeoJSON mapping.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { isValidLanguagePointRecord, toLanguagePointFeature } from './points'
+
+vi.mock('@/lib/database/client', () => ({
+  getDatabaseAdminClient: vi.fn(),
+}))
+
+const record = {
+  id: 'point-1',
+  latitude: 52.3676,
+  longitude: 4.9041,
+  postal_code: '1012JS',
+  community_name: 'Centrum community',
+  neighborhood: { slug: 'jordaan', district: { slug: 'centrum' } },
+  language: {
+    id: 'lang-1',
+    endonym: 'Nederlands',
+    city_id: 'city-1',
+    language_family: { slug: 'germanic' },
+    country_of_origin: { iso_code_2: 'NL' },
+    language_translations: [{ locale_code: 'en', name: 'Dutch' }],
+    language_taxonomies: [
+      {
+        taxonomy_value: {
+          slug: 'large',
+          color_hex: '#FF4500',
+          icon_name: 'users',
+          icon_size_multiplier: 1.5,
+          taxonomy_type: { slug: 'size' },
+        },
+      },
+    ],
+  },
+}
+
+describe('Language Points', () => {
+  describe('isValidLanguagePointRecord', () => {
+    it('should accept complete records', () => {
+      expect(isValidLanguagePointRecord(record, 'amsterdam')).toBe(true)
+    })
+
+    it('should reject records with missing fields or invalid coordinates', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(isValidLanguagePointRecord(null, 'amsterdam')).toBe(false)
+      expect(isValidLanguagePointRecord({ ...record, language: null }, 'amsterdam')).toBe(false)
+      expect(isValidLanguagePointRecord({ ...record, latitude: '52.3' }, 'amsterdam')).toBe(false)
+      expect(isValidLanguagePointRecord({ ...record, longitude: 181 }, 'amsterdam')).toBe(false)
+
+      warn.mockRestore()
+    })
+  })
+
+  describe('toLanguagePointFeature', () => {
+    it('should map a record to a GeoJSON feature', () => {
+      expect(toLanguagePointFeature(record, 'en')).toEqual({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [4.9041, 52.3676] },
+        properties: {
+          id: 'point-1',
+          languageId: 'lang-1',
+          languageName: 'Dutch',
+          endonym: 'Nederlands',
+          postalCode: '1012JS',
+          communityName: 'Centrum community',
+          taxonomies: [
+            { typeSlug: 'size', valueSlug: 'large', color: '#FF4500', iconName: 'users', iconSize: 1.5 },
+          ],
+          familySlug: 'germanic',
+          countryCode: 'NL',
+          neighborhoodSlug: 'jordaan',
+          districtSlug: 'centrum',
+        },
+      })
+    })
+
+    it('should pick the name in the locale, then in English', () => {
+      const language = {
+        ...record.language,
+        language_translations: [
+          { locale_code: 'en', name: 'Dutch' },
+          { locale_code: 'de', name: 'Niederländisch' },
+        ],
+      }
+
+      expect(toLanguagePointFeature({ ...record, language }, 'de').properties.languageName).toBe('Niederländisch')
+      expect(toLanguagePointFeature({ ...record, language }, 'ar').properties.languageName).toBe('Dutch')
+    })
+
+    it('should fall back to the endonym and null relations', () => {
+      const feature = toLanguagePointFeature({
+        ...record,
+        neighborhood: null,
+        language: {
+          ...record.language,
+          language_family: null,
+          country_of_origin: null,
+          language_translations: [],
+          language_taxonomies: [],
+        },
+      }, 'en')
+
+      expect(feature.properties.languageName).toBe('Nederlands')
+      expect(feature.properties.taxonomies).toEqual([])
+      expect(feature.properties.familySlug).toBeNull()
+      expect(feature.properties.countryCode).toBeNull()
+      expect(feature.properties.neighborhoodSlug).toBeNull()
+      expect(feature.properties.districtSlug).toBeNull()
+    })
+  })
+})
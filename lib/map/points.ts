@@ -0,0 +1,261 @@
+/**
+ * Public Language Points
+ * ======================
+ * Query and mapping of language points shared by the public GeoJSON and
+ * vector tile routes, so both serve identical `LanguagePointFeature`
+ * properties.
+ *
+ * @module lib/map/points
+ */
+
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { findTranslation } from '@/lib/i18n/config'
+import type { LanguagePointFeature } from '@/types/map'
+
+/**
+ * Database types for query results
+ */
+interface TaxonomyValue {
+  slug: string
+  color_hex: string
+  icon_name: string
+  icon_size_multiplier: number
+  taxonomy_type: {
+    slug: string
+  }
+}
+
+interface LanguageTaxonomy {
+  taxonomy_value: TaxonomyValue
+}
+
+interface LanguageTranslation {
+  locale_code: string
+  name: string
+}
+
+interface Language {
+  id: string
+  endonym: string | null
+  city_id: string
+  language_translations: LanguageTranslation[]
+  language_taxonomies: LanguageTaxonomy[]
+  language_family: { slug: string } | null
+  country_of_origin: { iso_code_2: string } | null
+}
+
+interface Neighborhood {
+  slug: string
+  district: { slug: string } | null
+}
+
+export interface LanguagePointRecord {
+  id: string
+  latitude: number
+  longitude: number
+  postal_code: string | null
+  community_name: string | null
+  language: Language
+  neighborhood: Neighborhood | null
+}
+
+/**
+ * PostgREST select for language points with translation, taxonomy and
+ * filter data. Filter on `language.city_id`, and skip trashed rows with
+ * `deleted_at`, `language.deleted_at`, `neighborhood.deleted_at` and
+ * `language.language_taxonomies.taxonomy_value.deleted_at` (a trashed
+ * neighborhood becomes null, a trashed taxonomy value is left out).
+ * All translations are loaded; `toLanguagePointFeature` picks the name.
+ */
+export const LANGUAGE_POINT_SELECT = `
+  id,
+  latitude,
+  longitude,
+  postal_code,
+  community_name,
+  neighborhood:neighborhoods (
+    slug,
+    district:districts (
+      slug
+    )
+  ),
+  language:languages!inner (
+    id,
+    endonym,
+    city_id,
+    language_family:language_families (
+      slug
+    ),
+    country_of_origin:countries (
+      iso_code_2
+    ),
+    language_translations (
+      locale_code,
+      name
+    ),
+    language_taxonomies (
+      taxonomy_value:taxonomy_values!inner (
+        slug,
+        color_hex,
+        icon_name,
+        icon_size_multiplier,
+        taxonomy_type:taxonomy_types (
+          slug
+        )
+      )
+    )
+  )
+`
+
+/**
+ * Check that a query result row is a usable language point
+ *
+ * Rows with missing fields or out-of-range coordinates are logged and skipped.
+ *
+ * @param point - Raw query result row
+ * @param citySlug - City slug (for logging)
+ * @returns True if the row can be rendered on the map
+ */
+export function isValidLanguagePointRecord(
+  point: unknown,
+  citySlug: string
+): point is LanguagePointRecord {
+  // First check if point is an object
+  if (!point || typeof point !== 'object') {
+    return false
+  }
+
+  // Cast to any for property access in type guard
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const p = point as any
+
+  // Check required fields exist and have correct types
+  if (typeof p.id !== 'string' ||
+      typeof p.latitude !== 'number' ||
+      typeof p.longitude !== 'number' ||
+      !p.language ||
+      typeof p.language !== 'object' ||
+      typeof p.language.id !== 'string') {
+    console.warn('Invalid language point record detected, skipping', {
+      pointId: p.id,
+      citySlug,
+      timestamp: new Date().toISOString()
+    })
+    return false
+  }
+
+  // Validate coordinate ranges
+  if (p.longitude < -180 || p.longitude > 180 ||
+      p.latitude < -90 || p.latitude > 90) {
+    console.warn('Invalid coordinates detected, skipping point', {
+      id: p.id,
+      longitude: p.longitude,
+      latitude: p.latitude,
+      timestamp: new Date().toISOString()
+    })
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Convert a language point row to a GeoJSON feature
+ *
+ * @param point - Validated language point row
+ * @param locale - Locale code for the language name (falls back to English, then the endonym)
+ * @returns GeoJSON Feature with taxonomy and filter properties
+ */
+export function toLanguagePointFeature(point: LanguagePointRecord, locale: string): LanguagePointFeature {
+  const language = point.language
+
+  const languageName =
+    findTranslation(language.language_translations, locale)?.name || language.endonym || 'Unknown'
+
+  // Extract taxonomy data with fallbacks
+  // Each language can have multiple taxonomy classifications (e.g., size, status)
+  // Fallback to safe defaults if taxonomy data is incomplete to prevent map rendering errors
+  const taxonomies =
+    language.language_taxonomies?.map((lt: LanguageTaxonomy) => ({
+      typeSlug: lt.taxonomy_value?.taxonomy_type?.slug || '',
+      valueSlug: lt.taxonomy_value?.slug || '',
+      // Default to neutral gray if no color defined
+      color: lt.taxonomy_value?.color_hex || '#CCCCCC',
+      // Default to 'circle' for consistent map markers
+      iconName: lt.taxonomy_value?.icon_name || 'circle',
+      // Default to 1.0 (normal size) for consistent rendering
+      iconSize: lt.taxonomy_value?.icon_size_multiplier || 1.0,
+    })) || []
+
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: [point.longitude, point.latitude],
+    },
+    properties: {
+      id: point.id,
+      languageId: language.id,
+      languageName,
+      endonym: language.endonym,
+      postalCode: point.postal_code,
+      communityName: point.community_name,
+      taxonomies,
+      familySlug: language.language_family?.slug ?? null,
+      countryCode: language.country_of_origin?.iso_code_2 ?? null,
+      neighborhoodSlug: point.neighborhood?.slug ?? null,
+      districtSlug: point.neighborhood?.district?.slug ?? null,
+    },
+  }
+}
+
+/**
+ * Get all valid language point features of a city
+ *
+ * @async
+ * @param citySlug - City identifier slug (e.g., 'amsterdam')
+ * @param locale - Locale code for language names
+ * @returns Promise resolving to the features, or null if the city does not exist
+ * @throws {Error} If a database query fails for a reason other than "not found"
+ */
+export async function getLanguagePointFeatures(
+  citySlug: string,
+  locale: string
+): Promise<LanguagePointFeature[] | null> {
+  const supabase = getDatabaseAdminClient(citySlug)
+
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id')
+    .eq('slug', citySlug)
+    .single()
+
+  if (cityError) {
+    // PGRST116: no rows returned
+    if (cityError.code === 'PGRST116') {
+      return null
+    }
+    throw new Error(`Failed to fetch city: ${cityError.message}`)
+  }
+
+  if (!city) {
+    return null
+  }
+
+  const { data: points, error } = await supabase
+    .from('language_points')
+    .select(LANGUAGE_POINT_SELECT)
+    .eq('language.city_id', city.id)
+    .is('deleted_at', null)
+    .is('language.deleted_at', null)
+    .is('neighborhood.deleted_at', null)
+    .is('language.language_taxonomies.taxonomy_value.deleted_at', null)
+
+  if (error) {
+    throw new Error(`Failed to fetch language points: ${error.message}`)
+  }
+
+  return ((points ?? []) as unknown[])
+    .filter((point) => isValidLanguagePointRecord(point, citySlug))
+    .map((point) => toLanguagePointFeature(point, locale))
+}
@@ -0,0 +1,177 @@
+/**
+ * @file styling.test.ts
+ * @description Unit tests for map styling utilities.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getCityMapView,
+  getMarkerStyle,
+  isKnownMapIcon,
+  toStyledFeatureCollection,
+} from './styling'
+import type { CityMapConfig, LanguagePointFeatureCollection } from '@/types/map'
+
+const baseCity: CityMapConfig = {
+  id: 'city-1',
+  slug: 'amsterdam',
+  name: 'Amsterdam',
+  centerLat: 52.3676,
+  centerLng: 4.9041,
+  defaultZoom: 11,
+  mapboxStyle: null,
+  primaryColor: null,
+  bounds: null,
+}
+
+describe('Map Styling', () => {
+  describe('isKnownMapIcon', () => {
+    it('should accept icons shipped with the map', () => {
+      expect(isKnownMapIcon('book')).toBe(true)
+      expect(isKnownMapIcon('circle')).toBe(true)
+    })
+
+    it('should reject unknown icon names', () => {
+      expect(isKnownMapIcon('rocket')).toBe(false)
+      expect(isKnownMapIcon('')).toBe(false)
+    })
+  })
+
+  describe('getMarkerStyle', () => {
+    it('should return defaults when there are no taxonomies', () => {
+      expect(getMarkerStyle([])).toEqual({
+        markerColor: '#CCCCCC',
+        markerIcon: 'circle',
+        markerSize: 1,
+      })
+      expect(getMarkerStyle(undefined)).toEqual({
+        markerColor: '#CCCCCC',
+        markerIcon: 'circle',
+        markerSize: 1,
+      })
+    })
+
+    it('should use the first taxonomy with a color', () => {
+      const style = getMarkerStyle([
+        { typeSlug: 'size', valueSlug: 'large', color: '#FF4500', iconName: 'book', iconSize: 1.5 },
+        { typeSlug: 'status', valueSlug: 'liturgical', color: '#00FF00', iconName: 'museum', iconSize: 1 },
+      ])
+
+      expect(style).toEqual({ markerColor: '#FF4500', markerIcon: 'book', markerSize: 1.5 })
+    })
+
+    it('should prefer the first styling taxonomy type when given', () => {
+      const taxonomies = [
+        { typeSlug: 'size', valueSlug: 'large', color: '#FF4500', iconName: 'book', iconSize: 1.5 },
+        { typeSlug: 'status', valueSlug: 'liturgical', color: '#00FF00', iconName: 'museum', iconSize: 1 },
+      ]
+
+      expect(getMarkerStyle(taxonomies, ['status', 'size']).markerColor).toBe('#00FF00')
+      expect(getMarkerStyle(taxonomies, ['script', 'size']).markerColor).toBe('#FF4500')
+      expect(getMarkerStyle(taxonomies, ['script']).markerColor).toBe('#CCCCCC')
+    })
+
+    it('should fall back to a circle for unknown icons', () => {
+      const style = getMarkerStyle([
+        { typeSlug: 'size', valueSlug: 'small', color: '#FFA500', iconName: 'rocket', iconSize: 0.8 },
+      ])
+
+      expect(style.markerIcon).toBe('circle')
+      expect(style.markerSize).toBe(0.8)
+    })
+
+    it('should fall back to the default size for non-positive multipliers', () => {
+      const style = getMarkerStyle([
+        { typeSlug: 'size', valueSlug: 'small', color: '#FFA500', iconName: 'circle', iconSize: 0 },
+      ])
+
+      expect(style.markerSize).toBe(1)
+    })
+  })
+
+  describe('toStyledFeatureCollection', () => {
+    it('should flatten taxonomy styling onto feature properties', () => {
+      const collection: LanguagePointFeatureCollection = {
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [4.9041, 52.3676] },
+            properties: {
+              id: 'point-1',
+              languageId: 'lang-1',
+              languageName: 'Dutch',
+              endonym: 'Nederlands',
+              postalCode: '1012JS',
+              communityName: null,
+              familySlug: 'germanic',
+              countryCode: 'NL',
+              neighborhoodSlug: 'jordaan',
+              districtSlug: 'centrum',
+              taxonomies: [
+                { typeSlug: 'size', valueSlug: 'medium', color: '#FFD700', iconName: 'home', iconSize: 1.2 },
+              ],
+            },
+          },
+        ],
+      }
+
+      const result = toStyledFeatureCollection(collection)
+
+      expect(result.features).toHaveLength(1)
+      expect(result.features[0].geometry.coordinates).toEqual([4.9041, 52.3676])
+      expect(result.features[0].properties).toEqual({
+        id: 'point-1',
+        languageId: 'lang-1',
+        languageName: 'Dutch',
+        endonym: 'Nederlands',
+        postalCode: '1012JS',
+        communityName: null,
+        familySlug: 'germanic',
+        countryCode: 'NL',
+        neighborhoodSlug: 'jordaan',
+        districtSlug: 'centrum',
+        markerColor: '#FFD700',
+        markerIcon: 'home',
+        markerSize: 1.2,
+      })
+      expect(result.features[0].properties).not.toHaveProperty('taxonomies')
+    })
+
+    it('should handle an empty collection', () => {
+      const result = toStyledFeatureCollection({ type: 'FeatureCollection', features: [] })
+      expect(result).toEqual({ type: 'FeatureCollection', features: [] })
+    })
+  })
+
+  describe('getCityMapView', () => {
+    it('should center on the city in [lng, lat] order', () => {
+      const view = getCityMapView(baseCity)
+
+      expect(view.center).toEqual([4.9041, 52.3676])
+      expect(view.zoom).toBe(11)
+      expect(view.maxBounds).toBeUndefined()
+    })
+
+    it('should constrain the map to the city bounds', () => {
+      const view = getCityMapView({
+        ...baseCity,
+        bounds: { minLat: 52.278, maxLat: 52.431, minLng: 4.728, maxLng: 5.079 },
+      })
+
+      expect(view.maxBounds).toEqual([
+        [4.728, 52.278],
+        [5.079, 52.431],
+      ])
+    })
+
+    it('should ignore inverted bounds', () => {
+      const view = getCityMapView({
+        ...baseCity,
+        bounds: { minLat: 52.431, maxLat: 52.278, minLng: 4.728, maxLng: 5.079 },
+      })
+
+      expect(view.maxBounds).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * Map Styling Utilities
+ * =====================
+ * Converts GeoJSON from the language points API into a shape Mapbox GL can
+ * style directly, and builds the data-driven expressions used by the map layers.
+ *
+ * Mapbox GL serializes nested feature properties (such as the `taxonomies`
+ * array) to strings, so the marker color, icon and size are flattened onto
+ * each feature before the data is handed to the map.
+ *
+ * @module lib/map/styling
+ */
+
+import type { ExpressionSpecification, LngLatBoundsLike } from 'mapbox-gl'
+import type {
+  CityMapConfig,
+  LanguagePointFeature,
+  LanguagePointFeatureCollection,
+  LanguagePointTaxonomy,
+} from '@/types/map'
+import {
+  CIRCLE_RADIUS_BASE,
+  CIRCLE_RADIUS_STEPS,
+  DEFAULT_MARKER_COLOR,
+  DEFAULT_MARKER_ICON,
+  DEFAULT_MARKER_SIZE,
+  ICON_SIZE_BASE,
+  ICON_SIZE_STEPS,
+  MAP_ICON_NAMES,
+  TEXT_SIZE_BASE,
+  TEXT_SIZE_STEPS,
+} from './constants'
+
+/**
+ * Flattened marker styling for a single language point
+ */
+export interface MarkerStyle {
+  markerColor: string
+  markerIcon: string
+  markerSize: number
+}
+
+/**
+ * Properties of a feature after styling has been flattened
+ */
+export interface StyledLanguagePointProperties
+  extends MarkerStyle,
+    Omit<LanguagePointFeature['properties'], 'taxonomies'> {}
+
+/**
+ * GeoJSON FeatureCollection ready to be used as a Mapbox source
+ */
+export interface StyledFeatureCollection {
+  type: 'FeatureCollection'
+  features: Array<{
+    type: 'Feature'
+    geometry: {
+      type: 'Point'
+      coordinates: [number, number]
+    }
+    properties: StyledLanguagePointProperties
+  }>
+}
+
+/**
+ * Initial camera settings for a city map
+ */
+export interface CityMapView {
+  center: [number, number]
+  zoom: number
+  maxBounds?: LngLatBoundsLike
+}
+
+/**
+ * Check whether an icon name refers to an icon shipped with the map
+ *
+ * @param iconName - Icon name from a taxonomy value
+ * @returns true if the icon exists in `public/map-icons/`
+ */
+export function isKnownMapIcon(iconName: string): boolean {
+  return (MAP_ICON_NAMES as readonly string[]).includes(iconName)
+}
+
+/**
+ * Derive the marker style for a language point from its taxonomies
+ *
+ * When the city marks taxonomy types with `use_for_map_styling`, the value
+ * of the first styling type (in display order) wins. Otherwise the first
+ * taxonomy with styling data wins. Points without a match get the same
+ * neutral defaults as the GeoJSON route.
+ *
+ * @param taxonomies - Taxonomy styling entries from the feature properties
+ * @param stylingTypeSlugs - Slugs of the styling taxonomy types, in display order
+ * @returns Marker color, icon and size multiplier
+ */
+export function getMarkerStyle(
+  taxonomies: LanguagePointTaxonomy[] | null | undefined,
+  stylingTypeSlugs: string[] = []
+): MarkerStyle {
+  const candidates = (taxonomies ?? []).filter((taxonomy) => Boolean(taxonomy?.color))
+  const styled = stylingTypeSlugs.length > 0
+    ? stylingTypeSlugs
+        .map((typeSlug) => candidates.find((taxonomy) => taxonomy.typeSlug === typeSlug))
+        .find(Boolean)
+    : candidates[0]
+
+  if (!styled) {
+    return {
+      markerColor: DEFAULT_MARKER_COLOR,
+      markerIcon: DEFAULT_MARKER_ICON,
+      markerSize: DEFAULT_MARKER_SIZE,
+    }
+  }
+
+  const iconName = styled.iconName && isKnownMapIcon(styled.iconName)
+    ? styled.iconName
+    : DEFAULT_MARKER_ICON
+
+  const iconSize = typeof styled.iconSize === 'number' && styled.iconSize > 0
+    ? styled.iconSize
+    : DEFAULT_MARKER_SIZE
+
+  return {
+    markerColor: styled.color,
+    markerIcon: iconName,
+    markerSize: iconSize,
+  }
+}
+
+/**
+ * Flatten taxonomy styling onto each feature of a language point collection
+ *
+ * @param collection - FeatureCollection returned by the GeoJSON route
+ * @param stylingTypeSlugs - Slugs of the styling taxonomy types, in display order
+ * @returns FeatureCollection with marker style properties on every feature
+ */
+export function toStyledFeatureCollection(
+  collection: LanguagePointFeatureCollection,
+  stylingTypeSlugs: string[] = []
+): StyledFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: (collection.features ?? []).map((feature) => {
+      const { taxonomies, ...properties } = feature.properties
+
+      return {
+        type: 'Feature',
+        geometry: feature.geometry,
+        properties: {
+          ...properties,
+          ...getMarkerStyle(taxonomies, stylingTypeSlugs),
+        },
+      }
+    }),
+  }
+}
+
+/**
+ * Build a zoom step expression scaled by each feature's `markerSize`
+ *
+ * @param base - Value below the first zoom stop
+ * @param steps - Alternating zoom stops and values
+ * @returns Mapbox expression
+ */
+function scaledZoomStep(base: number, steps: readonly number[]): ExpressionSpecification {
+  return [
+    '*',
+    ['step', ['zoom'], base, ...steps],
+    ['coalesce', ['get', 'markerSize'], DEFAULT_MARKER_SIZE],
+  ] as ExpressionSpecification
+}
+
+/**
+ * Circle radius expression, scaled by the taxonomy size multiplier
+ */
+export function getCircleRadiusExpression(): ExpressionSpecification {
+  return scaledZoomStep(CIRCLE_RADIUS_BASE, CIRCLE_RADIUS_STEPS)
+}
+
+/**
+ * Icon size expression, scaled by the taxonomy size multiplier
+ */
+export function getIconSizeExpression(): ExpressionSpecification {
+  return scaledZoomStep(ICON_SIZE_BASE, ICON_SIZE_STEPS)
+}
+
+/**
+ * Text size expression for language name labels
+ */
+export function getTextSizeExpression(): ExpressionSpecification {
+  return ['step', ['zoom'], TEXT_SIZE_BASE, ...TEXT_SIZE_STEPS] as ExpressionSpecification
+}
+
+/**
+ * Compute the initial camera and panning limits for a city
+ *
+ * Bounds are only applied when all four `bounds_*` columns are set and
+ * describe a non-empty rectangle.
+ *
+ * @param config - City map configuration
+ * @returns Center ([lng, lat]), zoom and optional max bounds
+ */
+export function getCityMapView(config: CityMapConfig): CityMapView {
+  const view: CityMapView = {
+    center: [config.centerLng, config.centerLat],
+    zoom: config.defaultZoom,
+  }
+
+  const bounds = config.bounds
+  if (bounds && bounds.minLat < bounds.maxLat && bounds.minLng < bounds.maxLng) {
+    view.maxBounds = [
+      [bounds.minLng, bounds.minLat],
+      [bounds.maxLng, bounds.maxLat],
+    ]
+  }
+
+  return view
+}
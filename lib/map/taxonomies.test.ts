@@ -0,0 +1,133 @@
+/**
+ * @file taxonomies.test.ts
+ * @description Unit tests for loading the public map taxonomies.
+ */
+
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest'
+import { getPublicMapTaxonomies } from './taxonomies'
+
+vi.mock('@/lib/database/client', () => ({
+  getDatabaseAdminClient: vi.fn(),
+}))
+
+import { getDatabaseAdminClient } from '@/lib/database/client'
+
+/**
+ * Create a chainable Supabase mock: `single()` resolves to the city lookup,
+ * `is()` ends the taxonomy query
+ */
+function createMockClient(
+  cityResult: { data: unknown; error: unknown },
+  typesResult: { data: unknown; error: unknown } = { data: [], error: null }
+) {
+  const client = {
+    from: vi.fn(),
+    select: vi.fn(),
+    eq: vi.fn(),
+    single: vi.fn().mockResolvedValue(cityResult),
+    or: vi.fn(),
+    is: vi.fn().mockResolvedValue(typesResult),
+  }
+  client.from.mockReturnValue(client)
+  client.select.mockReturnValue(client)
+  client.eq.mockReturnValue(client)
+  client.or.mockReturnValue(client)
+  return client
+}
+
+const typeRows = [
+  {
+    slug: 'status',
+    use_for_map_styling: false,
+    use_for_filtering: true,
+    display_order: 2,
+    translations: [{ locale_code: 'en', name: 'Status', description: null }],
+    values: [],
+  },
+  {
+    slug: 'size',
+    use_for_map_styling: true,
+    use_for_filtering: true,
+    display_order: 1,
+    translations: [
+      { locale_code: 'en', name: 'Community Size', description: 'Number of speakers' },
+      { locale_code: 'nl', name: 'Gemeenschapsgrootte', description: null },
+    ],
+    values: [
+      {
+        slug: 'large',
+        color_hex: '#FF4500',
+        icon_name: 'users',
+        display_order: 3,
+        translations: [{ locale_code: 'nl', name: 'Groot', description: null }],
+      },
+      {
+        slug: 'small',
+        color_hex: null,
+        icon_name: null,
+        display_order: 1,
+        translations: [],
+      },
+    ],
+  },
+]
+
+describe('getPublicMapTaxonomies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should only query styling or filtering types of the city', async () => {
+    const client = createMockClient({ data: { id: 'city-1' }, error: null })
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(client)
+
+    await getPublicMapTaxonomies('amsterdam', 'en')
+
+    expect(client.from).toHaveBeenCalledWith('taxonomy_types')
+    expect(client.eq).toHaveBeenCalledWith('city_id', 'city-1')
+    expect(client.or).toHaveBeenCalledWith('use_for_map_styling.eq.true,use_for_filtering.eq.true')
+    expect(client.is).toHaveBeenCalledWith('values.deleted_at', null)
+  })
+
+  it('should translate and sort types and values by display order', async () => {
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(
+      createMockClient({ data: { id: 'city-1' }, error: null }, { data: typeRows, error: null })
+    )
+
+    const types = await getPublicMapTaxonomies('amsterdam', 'nl')
+
+    expect(types?.map((type) => type.slug)).toEqual(['size', 'status'])
+    expect(types?.[0]).toEqual({
+      slug: 'size',
+      name: 'Gemeenschapsgrootte',
+      description: null,
+      useForMapStyling: true,
+      useForFiltering: true,
+      displayOrder: 1,
+      values: [
+        { slug: 'small', name: 'small', description: null, color: '#CCCCCC', iconName: null, displayOrder: 1 },
+        { slug: 'large', name: 'Groot', description: null, color: '#FF4500', iconName: 'users', displayOrder: 3 },
+      ],
+    })
+    // Falls back to English
+    expect(types?.[1].name).toBe('Status')
+  })
+
+  it('should return null when the city does not exist', async () => {
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(
+      createMockClient({ data: null, error: { code: 'PGRST116', message: 'No rows' } })
+    )
+
+    expect(await getPublicMapTaxonomies('unknown', 'en')).toBeNull()
+  })
+
+  it('should throw when the taxonomy query fails', async () => {
+    ;(getDatabaseAdminClient as Mock).mockReturnValue(
+      createMockClient({ data: { id: 'city-1' }, error: null }, { data: null, error: { message: 'Timeout' } })
+    )
+
+    await expect(getPublicMapTaxonomies('amsterdam', 'en')).rejects.toThrow(
+      'Failed to fetch map taxonomies: Timeout'
+    )
+  })
+})
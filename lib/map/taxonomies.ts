@@ -0,0 +1,168 @@
+/**
+ * Public Map Taxonomies
+ * =====================
+ * Loads the taxonomy types a city uses on its public map: types flagged
+ * `use_for_map_styling` feed the legend, types flagged `use_for_filtering`
+ * feed the filter panel.
+ *
+ * Uses the admin database client (like the public GeoJSON route) because the
+ * data is served to anonymous visitors.
+ *
+ * @module lib/map/taxonomies
+ */
+
+import { getDatabaseAdminClient } from '@/lib/database/client'
+import { DEFAULT_MARKER_COLOR } from '@/lib/map/constants'
+import { findTranslation } from '@/lib/i18n/config'
+import type { MapTaxonomyType, MapTaxonomyValue } from '@/types/map'
+
+/**
+ * Translation row shared by taxonomy types and values
+ */
+interface TranslationRecord {
+  locale_code: string
+  name: string
+  description: string | null
+}
+
+interface TaxonomyValueRecord {
+  slug: string
+  color_hex: string | null
+  icon_name: string | null
+  display_order: number | null
+  translations: TranslationRecord[] | null
+}
+
+interface TaxonomyTypeRecord {
+  slug: string
+  use_for_map_styling: boolean
+  use_for_filtering: boolean
+  display_order: number | null
+  translations: TranslationRecord[] | null
+  values: TaxonomyValueRecord[] | null
+}
+
+/**
+ * Pick the translation for a locale, falling back to English and then the slug
+ *
+ * @param translations - Available translations
+ * @param locale - Requested locale code
+ * @param slug - Slug used when no translation exists
+ * @returns Translated name and description
+ */
+function pickTranslation(
+  translations: TranslationRecord[] | null,
+  locale: string,
+  slug: string
+): { name: string; description: string | null } {
+  const translation = findTranslation(translations, locale)
+
+  return {
+    name: translation?.name || slug,
+    description: translation?.description ?? null,
+  }
+}
+
+/**
+ * Sort by display order, then by translated name
+ */
+function byDisplayOrder(
+  a: { displayOrder: number; name: string },
+  b: { displayOrder: number; name: string }
+): number {
+  return a.displayOrder - b.displayOrder || a.name.localeCompare(b.name)
+}
+
+/**
+ * Get the taxonomy types shown on a city's public map
+ *
+ * Only types used for map styling or filtering are returned. Types and
+ * values are sorted by `display_order`, then by translated name.
+ *
+ * @async
+ * @param citySlug - City identifier slug (e.g., 'amsterdam')
+ * @param locale - Locale code for names (falls back to English, then slug)
+ * @returns Promise resolving to the taxonomy types, or null if the city does not exist
+ * @throws {Error} If a database query fails for a reason other than "not found"
+ */
+export async function getPublicMapTaxonomies(
+  citySlug: string,
+  locale: string
+): Promise<MapTaxonomyType[] | null> {
+  const supabase = getDatabaseAdminClient(citySlug)
+
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id')
+    .eq('slug', citySlug)
+    .single()
+
+  if (cityError) {
+    // PGRST116: no rows returned
+    if (cityError.code === 'PGRST116') {
+      return null
+    }
+    throw new Error(`Failed to fetch city: ${cityError.message}`)
+  }
+
+  if (!city) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('taxonomy_types')
+    .select(`
+      slug,
+      use_for_map_styling,
+      use_for_filtering,
+      display_order,
+      translations:taxonomy_type_translations (
+        locale_code,
+        name,
+        description
+      ),
+      values:taxonomy_values (
+        slug,
+        color_hex,
+        icon_name,
+        display_order,
+        translations:taxonomy_value_translations (
+          locale_code,
+          name,
+          description
+        )
+      )
+    `)
+    .eq('city_id', city.id)
+    .or('use_for_map_styling.eq.true,use_for_filtering.eq.true')
+    .is('values.deleted_at', null)
+
+  if (error) {
+    throw new Error(`Failed to fetch map taxonomies: ${error.message}`)
+  }
+
+  const types = (data ?? []) as unknown as TaxonomyTypeRecord[]
+
+  return types
+    .map((type) => {
+      const values: MapTaxonomyValue[] = (type.values ?? [])
+        .map((value) => ({
+          slug: value.slug,
+          ...pickTranslation(value.translations, locale, value.slug),
+          color: value.color_hex || DEFAULT_MARKER_COLOR,
+          iconName: value.icon_name,
+          displayOrder: value.display_order ?? 0,
+        }))
+        .sort(byDisplayOrder)
+
+      return {
+        slug: type.slug,
+        ...pickTranslation(type.translations, locale, type.slug),
+        useForMapStyling: type.use_for_map_styling,
+        useForFiltering: type.use_for_filtering,
+        displayOrder: type.display_order ?? 0,
+        values,
+      }
+    })
+    .sort(byDisplayOrder)
+}
@@ -0,0 +1,119 @@
+/**
+ * @file tiles.test.ts
+ * @description Unit tests for language point vector tiles.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  clearLanguagePointIndexCache,
+  createLanguagePointIndex,
+  encodeLanguagePointTile,
+  getCachedLanguagePointIndex,
+  isValidTileCoordinate,
+} from './tiles'
+import type { LanguagePointFeature } from '@/types/map'
+
+/**
+ * Create a language point feature at the given position
+ */
+function createFeature(id: string, lng: number, lat: number): LanguagePointFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [lng, lat] },
+    properties: {
+      id,
+      languageId: 'lang-1',
+      languageName: 'Dutch',
+      endonym: 'Nederlands',
+      postalCode: null,
+      communityName: null,
+      taxonomies: [{ typeSlug: 'size', valueSlug: 'large', color: '#FF4500', iconName: 'users', iconSize: 1.5 }],
+      familySlug: 'germanic',
+      countryCode: 'NL',
+      neighborhoodSlug: null,
+      districtSlug: null,
+    },
+  }
+}
+
+// Two points a few meters apart in central Amsterdam
+const features = [createFeature('point-1', 4.9041, 52.3676), createFeature('point-2', 4.9042, 52.3677)]
+
+// Tile containing central Amsterdam at zoom 10 and zoom 16
+const lowZoomTile = { z: 10, x: 525, y: 336 }
+const highZoomTile = { z: 16, x: 33660, y: 21538 }
+
+describe('Vector Tiles', () => {
+  beforeEach(() => {
+    clearLanguagePointIndexCache()
+  })
+
+  describe('isValidTileCoordinate', () => {
+    it('should accept coordinates inside the tile grid', () => {
+      expect(isValidTileCoordinate(0, 0, 0, 22)).toBe(true)
+      expect(isValidTileCoordinate(3, 7, 7, 22)).toBe(true)
+    })
+
+    it('should reject coordinates outside the grid or zoom range', () => {
+      expect(isValidTileCoordinate(3, 8, 0, 22)).toBe(false)
+      expect(isValidTileCoordinate(-1, 0, 0, 22)).toBe(false)
+      expect(isValidTileCoordinate(23, 0, 0, 22)).toBe(false)
+      expect(isValidTileCoordinate(1.5, 0, 0, 22)).toBe(false)
+    })
+  })
+
+  describe('createLanguagePointIndex', () => {
+    it('should cluster nearby points at low zoom', () => {
+      const index = createLanguagePointIndex(features)
+      const tile = index.getTile(lowZoomTile.z, lowZoomTile.x, lowZoomTile.y)
+
+      expect(tile?.features).toHaveLength(1)
+      expect(tile?.features[0].tags).toMatchObject({ cluster: true, point_count: 2 })
+    })
+
+    it('should keep individual points with JSON-encoded taxonomies at high zoom', () => {
+      const index = createLanguagePointIndex(features)
+      const tile = index.getTile(highZoomTile.z, highZoomTile.x, highZoomTile.y)
+
+      expect(tile?.features).toHaveLength(2)
+      const tags = tile?.features[0].tags as Record<string, unknown>
+      expect(tags.languageName).toBe('Dutch')
+      expect(JSON.parse(tags.taxonomies as string)).toEqual(features[0].properties.taxonomies)
+    })
+  })
+
+  describe('encodeLanguagePointTile', () => {
+    it('should encode tiles with features as protobuf', () => {
+      const index = createLanguagePointIndex(features)
+      const tile = encodeLanguagePointTile(index, highZoomTile.z, highZoomTile.x, highZoomTile.y)
+
+      expect(tile).toBeInstanceOf(Uint8Array)
+      expect(tile!.byteLength).toBeGreaterThan(0)
+    })
+
+    it('should return null for empty tiles', () => {
+      const index = createLanguagePointIndex(features)
+      expect(encodeLanguagePointTile(index, 10, 0, 0)).toBeNull()
+    })
+  })
+
+  describe('getCachedLanguagePointIndex', () => {
+    it('should load features once per key', async () => {
+      const load = vi.fn().mockResolvedValue(features)
+
+      const first = await getCachedLanguagePointIndex('amsterdam:en', load)
+      const second = await getCachedLanguagePointIndex('amsterdam:en', load)
+
+      expect(first).toBe(second)
+      expect(load).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not cache missing cities', async () => {
+      const load = vi.fn().mockResolvedValue(null)
+
+      expect(await getCachedLanguagePointIndex('unknown:en', load)).toBeNull()
+      expect(await getCachedLanguagePointIndex('unknown:en', load)).toBeNull()
+      expect(load).toHaveBeenCalledTimes(2)
+    })
+  })
+})
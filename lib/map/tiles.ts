@@ -0,0 +1,166 @@
+/**
+ * Language Point Vector Tiles
+ * ===========================
+ * Builds Mapbox Vector Tiles (MVT) from language point features, with
+ * server-side clustering at low zoom levels.
+ *
+ * Unclustered points carry the same properties as `LanguagePointFeature`.
+ * MVT only supports scalar values, so `taxonomies` is encoded as a JSON
+ * string and null values are omitted. Clusters carry the Supercluster
+ * properties `cluster`, `cluster_id`, `point_count` and
+ * `point_count_abbreviated`.
+ *
+ * Cluster indexes are kept in a small in-memory cache so that the tiles of
+ * one map view do not each reload and re-cluster the whole city.
+ *
+ * @module lib/map/tiles
+ */
+
+import Supercluster from 'supercluster'
+import { fromGeojsonVt } from 'vt-pbf'
+import type { LanguagePointFeature } from '@/types/map'
+import {
+  CLUSTER_MAX_ZOOM,
+  CLUSTER_RADIUS,
+  TILE_EXTENT,
+  TILE_LAYER_NAME,
+} from '@/lib/map/constants'
+
+/**
+ * Properties of a language point as stored in a vector tile
+ */
+type TilePointProperties = Omit<LanguagePointFeature['properties'], 'taxonomies'> & {
+  taxonomies: string
+}
+
+export type LanguagePointIndex = Supercluster<TilePointProperties>
+
+/**
+ * How long a cluster index is reused (matches the route's s-maxage)
+ */
+const INDEX_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Maximum number of cached cluster indexes (one per city, locale and filter set)
+ */
+const MAX_CACHED_INDEXES = 50
+
+const indexCache = new Map<string, { index: LanguagePointIndex; expiresAt: number }>()
+
+/**
+ * Build a cluster index for language point features
+ *
+ * @param features - Language point features
+ * @returns Supercluster index
+ */
+export function createLanguagePointIndex(features: LanguagePointFeature[]): LanguagePointIndex {
+  const index = new Supercluster<TilePointProperties>({
+    maxZoom: CLUSTER_MAX_ZOOM,
+    radius: CLUSTER_RADIUS,
+    extent: TILE_EXTENT,
+  })
+
+  index.load(
+    features.map((feature) => ({
+      type: 'Feature',
+      geometry: feature.geometry,
+      properties: {
+        ...feature.properties,
+        taxonomies: JSON.stringify(feature.properties.taxonomies),
+      },
+    }))
+  )
+
+  return index
+}
+
+/**
+ * Get a cached cluster index, building it on a cache miss or expiry
+ *
+ * @async
+ * @param key - Cache key (city, locale and filters)
+ * @param loadFeatures - Loads the features when the index must be (re)built;
+ *                       a null result is passed through and not cached
+ * @returns Promise resolving to the index, or null if loadFeatures returned null
+ */
+export async function getCachedLanguagePointIndex(
+  key: string,
+  loadFeatures: () => Promise<LanguagePointFeature[] | null>
+): Promise<LanguagePointIndex | null> {
+  const cached = indexCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.index
+  }
+
+  const features = await loadFeatures()
+  if (!features) {
+    return null
+  }
+
+  const index = createLanguagePointIndex(features)
+
+  // Evict the oldest entry (Map preserves insertion order)
+  indexCache.delete(key)
+  if (indexCache.size >= MAX_CACHED_INDEXES) {
+    const oldestKey = indexCache.keys().next().value
+    if (oldestKey !== undefined) {
+      indexCache.delete(oldestKey)
+    }
+  }
+  indexCache.set(key, { index, expiresAt: Date.now() + INDEX_TTL_MS })
+
+  return index
+}
+
+/**
+ * Clear the cluster index cache
+ */
+export function clearLanguagePointIndexCache(): void {
+  indexCache.clear()
+}
+
+/**
+ * Check that tile coordinates are within the tile grid of their zoom level
+ *
+ * @param z - Zoom level
+ * @param x - Tile column
+ * @param y - Tile row
+ * @param maxZoom - Highest supported zoom level
+ * @returns True if the coordinates address an existing tile
+ */
+export function isValidTileCoordinate(z: number, x: number, y: number, maxZoom: number): boolean {
+  if (![z, x, y].every(Number.isInteger) || z < 0 || z > maxZoom) {
+    return false
+  }
+
+  const tileCount = 2 ** z
+  return x >= 0 && x < tileCount && y >= 0 && y < tileCount
+}
+
+/**
+ * Encode one tile of the index as a Mapbox Vector Tile
+ *
+ * @param index - Cluster index
+ * @param z - Zoom level
+ * @param x - Tile column
+ * @param y - Tile row
+ * @returns Protobuf-encoded tile, or null if the tile contains no features
+ */
+export function encodeLanguagePointTile(
+  index: LanguagePointIndex,
+  z: number,
+  x: number,
+  y: number
+): Uint8Array | null {
+  const tile = index.getTile(z, x, y)
+
+  if (!tile || tile.features.length === 0) {
+    return null
+  }
+
+  // Supercluster tiles use the geojson-vt tile layout that vt-pbf expects
+  return fromGeojsonVt(
+    { [TILE_LAYER_NAME]: tile } as unknown as Parameters<typeof fromGeojsonVt>[0],
+    { version: 2, extent: TILE_EXTENT }
+  )
+}
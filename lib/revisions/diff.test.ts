@@ -0,0 +1,31 @@
+/**
+ * Unit tests for the word diff
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffWords } from './diff'
+
+describe('diffWords', () => {
+  it('marks replaced words and keeps the rest', () => {
+    expect(diffWords('Spoken by many families', 'Spoken by a few families')).toEqual([
+      { type: 'same', text: 'Spoken by ' },
+      { type: 'removed', text: 'many ' },
+      { type: 'added', text: 'a few ' },
+      { type: 'same', text: 'families' },
+    ])
+  })
+
+  it('handles added and removed text at either end', () => {
+    expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }])
+    expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }])
+    expect(diffWords('First paragraph', 'First paragraph\n\nSecond')).toEqual([
+      { type: 'same', text: 'First ' },
+      { type: 'removed', text: 'paragraph' },
+      { type: 'added', text: 'paragraph\n\nSecond' },
+    ])
+  })
+
+  it('returns one unchanged part for equal texts', () => {
+    expect(diffWords('Same text', 'Same text')).toEqual([{ type: 'same', text: 'Same text' }])
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Text Diff
+ * =========
+ * Word-level comparison of two texts, for showing what changed in a
+ * description between two revisions.
+ *
+ * Safe to import from client components.
+ *
+ * @module lib/revisions/diff
+ */
+
+/**
+ * Part of a compared text
+ */
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Above this many word pairs the texts are shown as replaced rather than
+ * compared word by word, to keep the comparison table small
+ */
+const MAX_COMPARED_PAIRS = 4_000_000
+
+/**
+ * Split a text into words, each with the whitespace that follows it
+ */
+function tokenize(text: string): string[] {
+  return text.match(/^\s+|\S+\s*/g) ?? []
+}
+
+/**
+ * Append a token to the parts, merging it with the last part of its type
+ */
+function push(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1]
+
+  if (last?.type === type) {
+    last.text += text
+  } else {
+    parts.push({ type, text })
+  }
+}
+
+/**
+ * Compare two texts word by word
+ *
+ * Uses the longest common subsequence of the words. Words carry their
+ * trailing whitespace, so a word followed by a new line break counts as
+ * changed.
+ *
+ * @param before - Older text
+ * @param after - Newer text
+ * @returns The parts of both texts in reading order: unchanged, removed
+ *   from the older text, or added in the newer one
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const parts: DiffPart[] = []
+
+  if (a.length * b.length > MAX_COMPARED_PAIRS) {
+    if (before) push(parts, 'removed', before)
+    if (after) push(parts, 'added', after)
+    return parts
+  }
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1))
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, 'same', a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(parts, 'removed', a[i++])
+    } else {
+      push(parts, 'added', b[j++])
+    }
+  }
+
+  while (i < a.length) push(parts, 'removed', a[i++])
+  while (j < b.length) push(parts, 'added', b[j++])
+
+  return parts
+}
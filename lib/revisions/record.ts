@@ -0,0 +1,45 @@
+/**
+ * Recording Revisions
+ * ===================
+ * Server-side helper for the actions that save languages, descriptions and
+ * their translations: after a successful save they record the new state as
+ * a revision. Deletes are recorded by the database itself.
+ *
+ * @module lib/revisions/record
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { RevisionEntityType } from './snapshots'
+
+/**
+ * Record the current state of a language or description as a revision
+ *
+ * Never throws: the save itself has already succeeded, so a failure to
+ * record its revision is logged rather than reported to the user.
+ *
+ * @async
+ * @param supabase - Supabase client with the user's session
+ * @param entityType - 'language' or 'description'
+ * @param entityId - UUID of the language or description
+ * @param reason - 'create' right after creating the entity, 'update' after any other save
+ */
+export async function recordRevision(
+  supabase: SupabaseClient,
+  entityType: RevisionEntityType,
+  entityId: string,
+  reason: 'create' | 'update' = 'update'
+): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('record_revision', {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+      p_reason: reason,
+    })
+
+    if (error) {
+      console.error('Error recording revision:', { entityType, entityId, error })
+    }
+  } catch (error) {
+    console.error('Error recording revision:', { entityType, entityId, error })
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for revision snapshot helpers
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildRevisionLabels,
+  getRevisionChanges,
+  getSnapshotTitle,
+  type DescriptionSnapshot,
+  type LanguageSnapshot,
+} from './snapshots'
+
+const language: LanguageSnapshot = {
+  language: {
+    id: 'language-1',
+    city_id: 'city-1',
+    iso_639_3_code: 'tur',
+    endonym: 'Türkçe',
+    language_family_id: 'family-1',
+    country_of_origin_id: null,
+    speaker_count: 100,
+  },
+  translations: [{ locale_code: 'en', name: 'Turkish', is_ai_translated: false }],
+  taxonomy_value_ids: ['value-2', 'value-1'],
+  points: [{ id: 'point-1', latitude: 52.37, longitude: 4.89, community_name: null }],
+}
+
+const description: DescriptionSnapshot = {
+  description: { id: 'description-1', city_id: 'city-1', language_id: 'language-1', neighborhood_id: null, is_ai_generated: false },
+  translations: [{ locale: 'en', text: 'Spoken in many homes.', is_ai_translated: false }],
+}
+
+const labels = { 'family-1': 'Turkic', 'value-1': 'Large', 'value-2': 'Community', 'language-1': 'Turkish' }
+
+describe('getRevisionChanges', () => {
+  it('lists the changed language fields with their names', () => {
+    const edited: LanguageSnapshot = {
+      ...language,
+      language: { ...language.language, speaker_count: 120, language_family_id: null },
+      translations: [
+        { locale_code: 'en', name: 'Turkish', is_ai_translated: false },
+        { locale_code: 'nl', name: 'Turks', is_ai_translated: false },
+      ],
+      taxonomy_value_ids: ['value-1'],
+      points: [],
+    }
+
+    expect(getRevisionChanges(language, edited, labels)).toEqual([
+      { field: 'speakerCount', before: '100', after: '120' },
+      { field: 'family', before: 'Turkic', after: null },
+      { field: 'name', locale: 'nl', before: null, after: 'Turks' },
+      { field: 'taxonomies', before: 'Community, Large', after: 'Large' },
+      { field: 'points', before: '1', after: '0' },
+    ])
+  })
+
+  it('lists everything set in a first revision', () => {
+    expect(getRevisionChanges(null, description, labels)).toEqual([
+      { field: 'language', before: null, after: 'Turkish' },
+      { field: 'aiGenerated', before: null, after: 'false' },
+      { field: 'text', locale: 'en', before: null, after: 'Spoken in many homes.' },
+    ])
+  })
+
+  it('lists removed description texts and nothing for equal snapshots', () => {
+    expect(getRevisionChanges(description, { ...description, translations: [] })).toEqual([
+      { field: 'text', locale: 'en', before: 'Spoken in many homes.', after: null },
+    ])
+    expect(getRevisionChanges(language, structuredClone(language), labels)).toEqual([])
+  })
+})
+
+describe('getSnapshotTitle', () => {
+  it('names languages by endonym and descriptions by language and text', () => {
+    expect(getSnapshotTitle(language)).toBe('Türkçe')
+    expect(getSnapshotTitle(description, labels)).toBe('Turkish: Spoken in many homes.')
+  })
+})
+
+describe('buildRevisionLabels', () => {
+  it('uses the translated name, then the endonym', () => {
+    expect(
+      buildRevisionLabels([
+        { id: 'a', translations: [{ name: 'Turkish' }] },
+        { id: 'b', endonym: 'Tamaziɣt', translations: [] },
+        { id: 'c' },
+      ])
+    ).toEqual({ a: 'Turkish', b: 'Tamaziɣt' })
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * Revision Snapshots
+ * ==================
+ * Shapes of the language and description snapshots saved by the
+ * `save_revision` database function (see
+ * supabase/migrations/20251122000000_create_revisions.sql), and the
+ * comparison of two snapshots shown on the history pages.
+ *
+ * Safe to import from client components.
+ *
+ * @module lib/revisions/snapshots
+ */
+
+/**
+ * Entity with a revision history
+ */
+export type RevisionEntityType = 'language' | 'description'
+
+export const REVISION_ENTITY_TYPES: readonly RevisionEntityType[] = ['language', 'description']
+
+/**
+ * Why a revision was saved
+ */
+export type RevisionReason = 'create' | 'update' | 'delete' | 'restore'
+
+/**
+ * Saved state of a language
+ */
+export interface LanguageSnapshot {
+  language: {
+    id: string
+    city_id: string
+    iso_639_3_code: string | null
+    endonym: string | null
+    language_family_id: string | null
+    country_of_origin_id: string | null
+    speaker_count: number | null
+  }
+  translations: Array<{ locale_code: string; name: string; is_ai_translated: boolean }>
+  taxonomy_value_ids: string[]
+  points: Array<{ id: string; latitude: number; longitude: number; community_name: string | null }>
+}
+
+/**
+ * Saved state of a description
+ */
+export interface DescriptionSnapshot {
+  description: {
+    id: string
+    city_id: string
+    language_id: string
+    neighborhood_id: string | null
+    is_ai_generated: boolean
+  }
+  translations: Array<{ locale: string; text: string; is_ai_translated: boolean }>
+}
+
+export type RevisionSnapshot = LanguageSnapshot | DescriptionSnapshot
+
+/**
+ * Compared property of a snapshot
+ *
+ * `name` and `text` are compared per locale.
+ */
+export type RevisionField =
+  | 'endonym'
+  | 'isoCode'
+  | 'speakerCount'
+  | 'family'
+  | 'country'
+  | 'name'
+  | 'taxonomies'
+  | 'points'
+  | 'language'
+  | 'neighborhood'
+  | 'aiGenerated'
+  | 'text'
+
+/**
+ * One property that differs between two snapshots
+ */
+export interface RevisionChange {
+  field: RevisionField
+  locale?: string
+  before: string | null
+  after: string | null
+}
+
+/**
+ * Names of the languages, families, countries, taxonomy values and
+ * neighborhoods a snapshot refers to, by ID
+ */
+export type RevisionLabels = Record<string, string>
+
+type FlatSnapshot = Map<string, { field: RevisionField; locale?: string; value: string | null }>
+
+/**
+ * Check if a snapshot is of a language
+ */
+export function isLanguageSnapshot(snapshot: RevisionSnapshot): snapshot is LanguageSnapshot {
+  return 'language' in snapshot
+}
+
+/**
+ * Name for an ID; the ID itself when the entity is unknown (e.g. deleted)
+ */
+function label(id: string | null, labels: RevisionLabels): string | null {
+  return id ? labels[id] ?? id : null
+}
+
+function flattenLanguage(snapshot: LanguageSnapshot, labels: RevisionLabels): FlatSnapshot {
+  const { language } = snapshot
+  const flat: FlatSnapshot = new Map()
+
+  flat.set('endonym', { field: 'endonym', value: language.endonym || null })
+  flat.set('isoCode', { field: 'isoCode', value: language.iso_639_3_code || null })
+  flat.set('speakerCount', {
+    field: 'speakerCount',
+    value: language.speaker_count === null ? null : String(language.speaker_count),
+  })
+  flat.set('family', { field: 'family', value: label(language.language_family_id, labels) })
+  flat.set('country', { field: 'country', value: label(language.country_of_origin_id, labels) })
+
+  for (const translation of snapshot.translations) {
+    flat.set(`name.${translation.locale_code}`, {
+      field: 'name',
+      locale: translation.locale_code,
+      value: translation.name,
+    })
+  }
+
+  const taxonomies = snapshot.taxonomy_value_ids.map((id) => label(id, labels) as string).sort()
+  flat.set('taxonomies', { field: 'taxonomies', value: taxonomies.length > 0 ? taxonomies.join(', ') : null })
+  flat.set('points', { field: 'points', value: String(snapshot.points.length) })
+
+  return flat
+}
+
+function flattenDescription(snapshot: DescriptionSnapshot, labels: RevisionLabels): FlatSnapshot {
+  const { description } = snapshot
+  const flat: FlatSnapshot = new Map()
+
+  flat.set('language', { field: 'language', value: label(description.language_id, labels) })
+  flat.set('neighborhood', { field: 'neighborhood', value: label(description.neighborhood_id, labels) })
+  flat.set('aiGenerated', { field: 'aiGenerated', value: String(description.is_ai_generated) })
+
+  for (const translation of snapshot.translations) {
+    flat.set(`text.${translation.locale}`, { field: 'text', locale: translation.locale, value: translation.text })
+  }
+
+  return flat
+}
+
+function flatten(snapshot: RevisionSnapshot, labels: RevisionLabels): FlatSnapshot {
+  return isLanguageSnapshot(snapshot) ? flattenLanguage(snapshot, labels) : flattenDescription(snapshot, labels)
+}
+
+/**
+ * List what differs between two snapshots of the same entity
+ *
+ * @param before - Older snapshot; null for the first revision, which is
+ *   then listed in full
+ * @param after - Newer snapshot
+ * @param labels - Names for the IDs in the snapshots
+ * @returns Changed properties, in snapshot order
+ */
+export function getRevisionChanges(
+  before: RevisionSnapshot | null,
+  after: RevisionSnapshot,
+  labels: RevisionLabels = {}
+): RevisionChange[] {
+  const previous: FlatSnapshot = before ? flatten(before, labels) : new Map()
+  const next = flatten(after, labels)
+  const changes: RevisionChange[] = []
+
+  for (const key of new Set([...next.keys(), ...previous.keys()])) {
+    const { field, locale } = next.get(key) ?? previous.get(key)!
+    const beforeValue = previous.get(key)?.value ?? null
+    const afterValue = next.get(key)?.value ?? null
+
+    if (beforeValue !== afterValue) {
+      changes.push({ field, ...(locale && { locale }), before: beforeValue, after: afterValue })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Short name of the entity in a snapshot, for lists of revisions
+ *
+ * @param snapshot - Language or description snapshot
+ * @param labels - Names for the IDs in the snapshot
+ * @returns Endonym of a language; language name and start of the text of
+ *   a description
+ */
+export function getSnapshotTitle(snapshot: RevisionSnapshot, labels: RevisionLabels = {}): string {
+  if (isLanguageSnapshot(snapshot)) {
+    return snapshot.language.endonym || snapshot.translations[0]?.name || snapshot.language.id
+  }
+
+  const { description, translations } = snapshot
+  const text = translations[0]?.text ?? ''
+  const excerpt = text.length > 60 ? `${text.slice(0, 60).trimEnd()}…` : text
+  const language = label(description.language_id, labels)
+
+  return excerpt ? `${language}: ${excerpt}` : (language as string)
+}
+
+/**
+ * Build the labels for snapshots from select options
+ *
+ * @param items - Languages, families, countries, taxonomy values or
+ *   neighborhoods, with their names in the current locale
+ * @returns Translated name (or endonym) by ID
+ */
+export function buildRevisionLabels(
+  items: Array<{ id: string; endonym?: string | null; translations?: Array<{ name: string }> | null }>
+): RevisionLabels {
+  const labels: RevisionLabels = {}
+
+  for (const item of items) {
+    const name = item.translations?.[0]?.name || item.endonym
+    if (name) {
+      labels[item.id] = name
+    }
+  }
+
+  return labels
+}
@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for Taxonomy Rules
+ *
+ * @module lib/taxonomies/rules.test
+ */
+
+import { describe, it, expect } from 'vitest'
+import { checkTaxonomyRules, describeTaxonomyRuleViolation, type TaxonomyRuleType } from './rules'
+
+const size: TaxonomyRuleType = {
+  id: 'type-size',
+  name: 'Size',
+  is_required: false,
+  allow_multiple: false,
+  valueIds: ['size-small', 'size-large'],
+}
+
+const status: TaxonomyRuleType = {
+  id: 'type-status',
+  name: 'Status',
+  is_required: true,
+  allow_multiple: false,
+  valueIds: ['status-endangered', 'status-stable'],
+}
+
+const script: TaxonomyRuleType = {
+  id: 'type-script',
+  name: 'Script',
+  is_required: true,
+  allow_multiple: true,
+  valueIds: ['script-latin', 'script-arabic'],
+}
+
+describe('checkTaxonomyRules', () => {
+  it('should accept values that follow every rule', () => {
+    expect(
+      checkTaxonomyRules([size, status, script], ['status-stable', 'script-latin', 'script-arabic'])
+    ).toEqual([])
+  })
+
+  it('should name each required type without a value', () => {
+    expect(checkTaxonomyRules([size, status, script], ['size-small'])).toEqual([
+      '"Status" is required',
+      '"Script" is required',
+    ])
+  })
+
+  it('should name each single-value type with several values', () => {
+    expect(
+      checkTaxonomyRules([size, status], ['size-small', 'size-large', 'status-stable', 'status-endangered'])
+    ).toEqual(['Only one "Size" value is allowed', 'Only one "Status" value is allowed'])
+  })
+
+  it('should ignore values that belong to no type, such as values in the trash', () => {
+    expect(checkTaxonomyRules([status], ['status-stable', 'deleted-value'])).toEqual([])
+    expect(checkTaxonomyRules([status], ['deleted-value'])).toEqual(['"Status" is required'])
+  })
+
+  it('should accept anything when the city has no taxonomy types', () => {
+    expect(checkTaxonomyRules([], ['size-small'])).toEqual([])
+  })
+})
+
+describe('describeTaxonomyRuleViolation', () => {
+  it('should describe both kinds of violation', () => {
+    expect(describeTaxonomyRuleViolation('Status', 'missing')).toBe('"Status" is required')
+    expect(describeTaxonomyRuleViolation('Size', 'multiple')).toBe('Only one "Size" value is allowed')
+  })
+})
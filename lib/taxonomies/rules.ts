@@ -0,0 +1,76 @@
+/**
+ * Taxonomy Rules
+ * ==============
+ * The rules a taxonomy type sets for the languages of its city: a required
+ * type needs at least one value, a single-value type at most one. Checked
+ * by the language actions before saving and, with the same messages, by the
+ * database (see supabase/migrations/20251125000000_enforce_taxonomy_rules.sql).
+ *
+ * Safe to import from client components.
+ *
+ * @module lib/taxonomies/rules
+ */
+
+/**
+ * Taxonomy type with the IDs of its values (values in the trash left out)
+ */
+export interface TaxonomyRuleType {
+  id: string
+  name: string
+  is_required: boolean
+  allow_multiple: boolean
+  valueIds: string[]
+}
+
+/**
+ * How a language breaks the rule of a taxonomy type
+ */
+export type TaxonomyRuleViolationKind = 'missing' | 'multiple'
+
+/**
+ * Language of a city that breaks the rule of one of its taxonomy types
+ */
+export interface TaxonomyRuleViolation {
+  languageId: string
+  endonym: string | null
+  taxonomyTypeId: string
+  taxonomyTypeName: string
+  violation: TaxonomyRuleViolationKind
+  /** Number of values of the type the language has */
+  valueCount: number
+}
+
+/**
+ * Check the taxonomy values chosen for a language against the rules of the
+ * city's taxonomy types
+ *
+ * @param types - Taxonomy types of the city
+ * @param valueIds - Taxonomy value IDs chosen for the language
+ * @returns One message per broken rule, in the order of `types`
+ */
+export function checkTaxonomyRules(types: TaxonomyRuleType[], valueIds: string[]): string[] {
+  const chosen = new Set(valueIds)
+
+  return types.flatMap((type) => {
+    const count = type.valueIds.filter((id) => chosen.has(id)).length
+
+    if (type.is_required && count === 0) {
+      return [describeTaxonomyRuleViolation(type.name, 'missing')]
+    }
+    if (!type.allow_multiple && count > 1) {
+      return [describeTaxonomyRuleViolation(type.name, 'multiple')]
+    }
+    return []
+  })
+}
+
+/**
+ * Message for a broken taxonomy rule
+ *
+ * @param typeName - Name of the taxonomy type
+ * @param violation - How the rule is broken
+ * @returns Message naming the taxonomy type
+ */
+export function describeTaxonomyRuleViolation(typeName: string, violation: TaxonomyRuleViolationKind): string {
+  return violation === 'missing' ? `"${typeName}" is required` : `Only one "${typeName}" value is allowed`
+}
@@ -0,0 +1,36 @@
+/**
+ * @file coverage.test.ts
+ * @description Unit tests for translation coverage percentages and totals.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { coveragePercentage, sumCoverageByLocale, type TranslationCoverage } from './coverage'
+
+describe('coveragePercentage', () => {
+  it('rounds down so that only complete coverage shows 100%', () => {
+    expect(coveragePercentage(199, 200)).toBe(99)
+    expect(coveragePercentage(200, 200)).toBe(100)
+    expect(coveragePercentage(1, 3)).toBe(33)
+    expect(coveragePercentage(0, 5)).toBe(0)
+  })
+
+  it('counts nothing to translate as complete', () => {
+    expect(coveragePercentage(0, 0)).toBe(100)
+  })
+})
+
+describe('sumCoverageByLocale', () => {
+  it('adds up every kind of row per locale, in the order of the locales', () => {
+    const coverage: TranslationCoverage[] = [
+      { entityType: 'language', locale: 'nl', total: 10, translated: 6, unreviewed: 1, missing: 3 },
+      { entityType: 'district', locale: 'nl', total: 4, translated: 4, unreviewed: 0, missing: 0 },
+      { entityType: 'language', locale: 'en', total: 10, translated: 10, unreviewed: 0, missing: 0 },
+    ]
+
+    expect(sumCoverageByLocale(coverage, ['en', 'nl', 'fr'])).toEqual([
+      { locale: 'en', total: 10, translated: 10, unreviewed: 0, missing: 0 },
+      { locale: 'nl', total: 14, translated: 10, unreviewed: 1, missing: 3 },
+      { locale: 'fr', total: 0, translated: 0, unreviewed: 0, missing: 0 },
+    ])
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * Translation Coverage
+ * ====================
+ * Shared definitions for the translation coverage dashboard, which counts
+ * per kind of row and enabled locale how many translations are done,
+ * waiting for review or missing (see the `get_translation_coverage`
+ * database function).
+ *
+ * Safe to import from client components.
+ *
+ * @module lib/translations/coverage
+ */
+
+import type { TranslationEntityType } from './entities'
+
+/**
+ * State of the translation of a row in a locale that still needs work
+ */
+export type TranslationGapStatus = 'missing' | 'unreviewed'
+
+/**
+ * Translation counts of one kind of row in one locale
+ */
+export interface TranslationCoverage {
+  entityType: TranslationEntityType
+  locale: string
+  total: number
+  /** Written by a person, or by AI and reviewed */
+  translated: number
+  /** Written by AI and not reviewed yet */
+  unreviewed: number
+  missing: number
+}
+
+/**
+ * Share of the rows in a count, as a whole percentage
+ *
+ * Rounded down, so that 100% means nothing is left; 100% when there are
+ * no rows at all.
+ *
+ * @param count - Number of rows in a state
+ * @param total - Number of rows
+ * @returns Percentage from 0 to 100
+ */
+export function coveragePercentage(count: number, total: number): number {
+  if (total === 0) {
+    return 100
+  }
+  return Math.floor((count / total) * 100)
+}
+
+/**
+ * Add up the coverage of all kinds of row per locale
+ *
+ * @param coverage - Counts per kind of row and locale
+ * @param locales - Locales to sum, in order; locales without rows get zeros
+ * @returns Counts per locale
+ */
+export function sumCoverageByLocale(
+  coverage: TranslationCoverage[],
+  locales: string[]
+): Array<Omit<TranslationCoverage, 'entityType'>> {
+  return locales.map((locale) =>
+    coverage
+      .filter((row) => row.locale === locale)
+      .reduce(
+        (sum, row) => ({
+          locale,
+          total: sum.total + row.total,
+          translated: sum.translated + row.translated,
+          unreviewed: sum.unreviewed + row.unreviewed,
+          missing: sum.missing + row.missing,
+        }),
+        { locale, total: 0, translated: 0, unreviewed: 0, missing: 0 }
+      )
+  )
+}
@@ -0,0 +1,29 @@
+/**
+ * @file entities.test.ts
+ * @description Unit tests for the pages where translations are edited.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getTranslationEditPath, TRANSLATION_ENTITY_TYPES } from './entities'
+
+describe('getTranslationEditPath', () => {
+  it('links to the edit or translations page of each kind of row', () => {
+    expect(getTranslationEditPath('district', 'd1')).toBe('districts/d1')
+    expect(getTranslationEditPath('neighborhood', 'n1')).toBe('neighborhoods/n1')
+    expect(getTranslationEditPath('language', 'l1')).toBe('languages/l1/translations')
+    expect(getTranslationEditPath('description', 'de1')).toBe('descriptions/de1/translations')
+    expect(getTranslationEditPath('taxonomy_type', 't1')).toBe('taxonomy-types/t1')
+    expect(getTranslationEditPath('taxonomy_value', 'v1', 't1')).toBe('taxonomy-types/t1/values/v1/edit')
+  })
+
+  it('has no link without a page or a parent', () => {
+    expect(getTranslationEditPath('city', 'c1')).toBeNull()
+    expect(getTranslationEditPath('taxonomy_value', 'v1')).toBeNull()
+  })
+
+  it('covers every kind of row', () => {
+    for (const entityType of TRANSLATION_ENTITY_TYPES) {
+      expect(() => getTranslationEditPath(entityType, 'x', 'y')).not.toThrow()
+    }
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * Translatable Entities
+ * =====================
+ * Shared definitions for AI translation and its review queue: the kinds of
+ * rows whose translations the `get_missing_translations` and
+ * `save_ai_translation` database functions handle (see
+ * supabase/migrations/20251126000000_create_translation_review.sql), and
+ * which text columns their translation tables have.
+ *
+ * Safe to import from client components.
+ *
+ * @module lib/translations/entities
+ */
+
+/**
+ * Kind of row with a translation table
+ */
+export type TranslationEntityType =
+  | 'city'
+  | 'district'
+  | 'neighborhood'
+  | 'language'
+  | 'description'
+  | 'taxonomy_type'
+  | 'taxonomy_value'
+
+export const TRANSLATION_ENTITY_TYPES: readonly TranslationEntityType[] = [
+  'city',
+  'district',
+  'neighborhood',
+  'language',
+  'description',
+  'taxonomy_type',
+  'taxonomy_value',
+]
+
+/**
+ * Translated text column
+ */
+export type TranslationField = 'name' | 'description' | 'text'
+
+/**
+ * Text columns of each translation table; the first one is required
+ */
+export const TRANSLATION_FIELDS: Record<TranslationEntityType, readonly TranslationField[]> = {
+  city: ['name', 'description'],
+  district: ['name', 'description'],
+  neighborhood: ['name', 'description'],
+  language: ['name'],
+  description: ['text'],
+  taxonomy_type: ['name', 'description'],
+  taxonomy_value: ['name', 'description'],
+}
+
+/**
+ * Text of a translation by column; columns without text are null
+ */
+export type TranslationFields = Partial<Record<TranslationField, string | null>>
+
+/**
+ * Number of translations written per run of the AI translation job, so that
+ * a run stays well within the time limit of a server action
+ */
+export const AI_TRANSLATION_BATCH_SIZE = 25
+
+/**
+ * Get the operator page where the translations of a row are edited
+ *
+ * @param entityType - Kind of row
+ * @param entityId - UUID of the row
+ * @param parentId - UUID of the taxonomy type of a taxonomy value
+ * @returns Path below /[locale]/operator/[citySlug]/, or null when operators
+ *   have no page for it (the city itself)
+ */
+export function getTranslationEditPath(
+  entityType: TranslationEntityType,
+  entityId: string,
+  parentId: string | null = null
+): string | null {
+  switch (entityType) {
+    case 'district':
+      return `districts/${entityId}`
+    case 'neighborhood':
+      return `neighborhoods/${entityId}`
+    case 'language':
+      return `languages/${entityId}/translations`
+    case 'description':
+      return `descriptions/${entityId}/translations`
+    case 'taxonomy_type':
+      return `taxonomy-types/${entityId}`
+    case 'taxonomy_value':
+      return parentId ? `taxonomy-types/${parentId}/values/${entityId}/edit` : null
+    case 'city':
+      return null
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Trash Items
+ * ===========
+ * Shared definitions for the trash of a city: the soft-deleted rows kept by
+ * the `move_to_trash` database function (see
+ * supabase/migrations/20251123000000_add_soft_delete_and_trash.sql) until
+ * they are restored or purged.
+ *
+ * Safe to import from client components.
+ *
+ * @module lib/trash/items
+ */
+
+/**
+ * Kind of row that goes to the trash when deleted
+ */
+export type TrashEntityType =
+  | 'language'
+  | 'language_point'
+  | 'description'
+  | 'neighborhood'
+  | 'district'
+  | 'taxonomy_value'
+
+export const TRASH_ENTITY_TYPES: readonly TrashEntityType[] = [
+  'language',
+  'language_point',
+  'description',
+  'neighborhood',
+  'district',
+  'taxonomy_value',
+]
+
+/**
+ * Operator section listing each kind of row, below /[locale]/operator/[citySlug]/
+ */
+export const TRASH_ENTITY_SECTIONS: Record<TrashEntityType, string> = {
+  language: 'languages',
+  language_point: 'language-points',
+  description: 'descriptions',
+  neighborhood: 'neighborhoods',
+  district: 'districts',
+  taxonomy_value: 'taxonomy-types',
+}
+
+/**
+ * Default number of days items stay in the trash (cities.trash_retention_days)
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+export const MIN_TRASH_RETENTION_DAYS = 1
+
+export const MAX_TRASH_RETENTION_DAYS = 365
@@ -6,12 +6,23 @@
  */
 
 import { z } from 'zod'
+import { defaultLocale } from '@/lib/i18n/config'
+import { localeCodeSchema } from '@/lib/validations/translations'
+
+/**
+ * Zod schema for the name and description of a city in one locale.
+ * Both are required for every locale the city is enabled for.
+ */
+const cityLocaleTranslationSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name too long'),
+  description: z.string().min(1, 'Description is required').max(2000, 'Description too long'),
+})
 
 /**
  * Zod schema for validating city creation form data with translations.
  *
  * Validates all required fields including geographic coordinates, slug format,
- * and localized names/descriptions for English, Dutch, and French.
+ * and localized names/descriptions for each locale the city is enabled for.
  * Ensures data integrity before database insertion.
  *
  * @returns Zod schema object for form validation
@@ -24,12 +35,10 @@ import { z } from 'zod'
  *   center_lat: 52.3676,
  *   center_lng: 4.9041,
  *   default_zoom: 12,
- *   name_en: 'Amsterdam',
- *   description_en: 'Capital city of Netherlands',
- *   name_nl: 'Amsterdam',
- *   description_nl: 'Hoofdstad van Nederland',
- *   name_fr: 'Amsterdam',
- *   description_fr: 'Capitale des Pays-Bas'
+ *   translations: {
+ *     en: { name: 'Amsterdam', description: 'Capital city of Netherlands' },
+ *     nl: { name: 'Amsterdam', description: 'Hoofdstad van Nederland' },
+ *   }
  * }
  * const result = createCityFormSchema.parse(formData)
  * ```
@@ -73,42 +82,16 @@ export const createCityFormSchema = z.object({
    */
   default_zoom: z.coerce.number().int().min(1, 'Zoom must be between 1 and 20').max(20, 'Zoom must be between 1 and 20'),
 
-  // ===== TRANSLATION FIELDS =====
-  // Each locale requires both name and description fields
-
-  /**
-   * English translation: City display name
-   * Required for English locale ('en')
-   */
-  name_en: z.string().min(1, 'English name is required').max(255, 'Name too long'),
-
-  /**
-   * English translation: City description/metadata
-   * Displayed on city pages and in search results
-   */
-  description_en: z.string().min(1, 'English description is required').max(2000, 'Description too long'),
-
-  /**
-   * Dutch translation: City display name
-   * Required for Dutch locale ('nl')
-   */
-  name_nl: z.string().min(1, 'Dutch name is required').max(255, 'Name too long'),
-
-  /**
-   * Dutch translation: City description/metadata
-   */
-  description_nl: z.string().min(1, 'Dutch description is required').max(2000, 'Description too long'),
-
-  /**
-   * French translation: City display name
-   * Required for French locale ('fr')
-   */
-  name_fr: z.string().min(1, 'French name is required').max(255, 'Name too long'),
-
   /**
-   * French translation: City description/metadata
+   * Name and description per locale, keyed by locale code
+   * The keys are the locales the city is enabled for; English is required
    */
-  description_fr: z.string().min(1, 'French description is required').max(2000, 'Description too long'),
+  translations: z
+    .record(localeCodeSchema, cityLocaleTranslationSchema)
+    .refine((translations) => defaultLocale in translations, {
+      message: 'English name is required',
+      path: [defaultLocale, 'name'],
+    }),
 })
 
 /**
@@ -130,8 +113,8 @@ export type CreateCityFormData = z.infer<typeof createCityFormSchema>
  * @example
  * ```typescript
  * const updateData = {
- *   name_en: 'Updated Name',
- *   description_en: 'Updated description'
+ *   slug: 'amsterdam-noord',
+ *   default_zoom: 13
  * }
  * const result = updateCityFormSchema.parse(updateData)
  * ```
@@ -0,0 +1,45 @@
+/**
+ * @file lib/validations/language.ts
+ * @description Zod schema for validating language creation and updates,
+ * shared by the language form actions and the bulk import.
+ */
+
+import { z } from 'zod'
+import { VALIDATION_LIMITS } from '@/lib/sanitization'
+import { isValidISO639_3, getISOCodeErrorMessage } from '@/lib/iso-639-3-codes'
+import { defaultLocale } from '@/lib/i18n/config'
+import { localeCodeSchema } from './translations'
+
+/**
+ * Validation schema for language creation/update
+ */
+export const languageSchema = z.object({
+  // Core fields
+  iso_639_3_code: z.string()
+    .optional()
+    .or(z.literal(''))
+    .superRefine((code, ctx) => {
+      if (code && code.length > 0 && !isValidISO639_3(code)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: getISOCodeErrorMessage(code),
+        })
+      }
+    }),
+  endonym: z.string()
+    .min(1, 'Endonym is required')
+    .max(VALIDATION_LIMITS.ENDONYM_MAX_LENGTH, `Endonym must not exceed ${VALIDATION_LIMITS.ENDONYM_MAX_LENGTH} characters`),
+  language_family_id: z.string().uuid('Invalid language family ID').optional().or(z.literal('')),
+  country_of_origin_id: z.string().uuid('Invalid country ID').optional().or(z.literal('')),
+  speaker_count: z.number().int().min(0, 'Speaker count must be non-negative').optional(),
+
+  // Name per locale of the city, keyed by locale code; empty for no name
+  names: z.record(localeCodeSchema, z.string().max(VALIDATION_LIMITS.NAME_MAX_LENGTH))
+    .refine((names) => Boolean(names[defaultLocale]?.trim()), {
+      message: 'English name is required',
+      path: [defaultLocale],
+    }),
+
+  // Taxonomy assignments (array of taxonomy value IDs)
+  taxonomy_value_ids: z.array(z.string().uuid()).optional(),
+})
@@ -0,0 +1,58 @@
+/**
+ * @file translations.test.ts
+ * @description Unit tests for the locale-keyed translations schema and helpers.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getTranslationRows, toTranslationsInput, translationsSchema } from './translations'
+
+describe('translationsSchema', () => {
+  it('should accept translations into any locale', () => {
+    const result = translationsSchema.safeParse({
+      en: { name: 'Centre', description: '' },
+      'pt-BR': { name: 'Centro' },
+    })
+
+    expect(result.success).toBe(true)
+  })
+
+  it('should require the English name', () => {
+    const result = translationsSchema.safeParse({ en: { name: ' ' }, nl: { name: 'Centrum' } })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0]).toMatchObject({ message: 'English name is required', path: ['en', 'name'] })
+  })
+
+  it('should reject malformed locale codes', () => {
+    const result = translationsSchema.safeParse({ en: { name: 'Centre' }, dutch: { name: 'Centrum' } })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues).toEqual([expect.objectContaining({ code: 'invalid_key', path: ['dutch'] })])
+  })
+})
+
+describe('getTranslationRows', () => {
+  it('should keep the locales with a name', () => {
+    expect(
+      getTranslationRows({
+        en: { name: ' Centre ', description: ' The old town ' },
+        nl: { name: 'Centrum', description: '' },
+        fr: { name: '', description: 'Ignored without a name' },
+      })
+    ).toEqual([
+      { locale_code: 'en', name: 'Centre', description: 'The old town' },
+      { locale_code: 'nl', name: 'Centrum', description: null },
+    ])
+  })
+})
+
+describe('toTranslationsInput', () => {
+  it('should offer every locale, filled from the stored rows', () => {
+    expect(
+      toTranslationsInput(['en', 'nl'], [{ locale_code: 'en', name: 'Centre', description: null }])
+    ).toEqual({
+      en: { name: 'Centre', description: '' },
+      nl: { name: '', description: '' },
+    })
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * @file lib/validations/translations.ts
+ * @description Zod schema for the translated names and descriptions of a
+ * row, keyed by locale code, shared by the forms and actions of districts,
+ * neighborhoods, taxonomy types and language families. Which locales a form
+ * offers comes from the city's enabled locales, not from a fixed list.
+ */
+
+import { z } from 'zod'
+import { VALIDATION_LIMITS } from '@/lib/sanitization'
+import { defaultLocale, LOCALE_CODE_PATTERN } from '@/lib/i18n/config'
+
+/**
+ * Validation schema for a locale code
+ */
+export const localeCodeSchema = z.string().regex(LOCALE_CODE_PATTERN, 'Invalid locale code')
+
+/**
+ * Validation schema for the translation of a row into one locale
+ *
+ * An empty name means the row has no translation into the locale.
+ */
+export const translationSchema = z.object({
+  name: z.string().max(VALIDATION_LIMITS.NAME_MAX_LENGTH).optional(),
+  description: z.string().max(VALIDATION_LIMITS.DESCRIPTION_MAX_LENGTH).optional(),
+})
+
+/**
+ * Validation schema for the translations of a row, keyed by locale code;
+ * the name in the default locale is required
+ */
+export const translationsSchema = z
+  .record(localeCodeSchema, translationSchema)
+  .refine((translations) => Boolean(translations[defaultLocale]?.name?.trim()), {
+    message: 'English name is required',
+    path: [defaultLocale, 'name'],
+  })
+
+/**
+ * Type for the translation of a row into one locale
+ */
+export type TranslationInput = z.infer<typeof translationSchema>
+
+/**
+ * Type for the translations of a row, keyed by locale code
+ */
+export type TranslationsInput = z.infer<typeof translationsSchema>
+
+/**
+ * Translation row as stored in a *_translations table
+ */
+export interface TranslationRow {
+  locale_code: string
+  name: string
+  description: string | null
+}
+
+/**
+ * Build the translation rows to store for the locales that have a name
+ *
+ * @param translations - Validated translations keyed by locale code
+ * @returns Rows with a trimmed name, and a description or null
+ */
+export function getTranslationRows(translations: TranslationsInput): TranslationRow[] {
+  return Object.entries(translations).flatMap(([locale_code, translation]) => {
+    const name = translation.name?.trim()
+    return name ? [{ locale_code, name, description: translation.description?.trim() || null }] : []
+  })
+}
+
+/**
+ * Build the translations map of a form from stored translation rows
+ *
+ * @param locales - Locale codes the form offers
+ * @param rows - Stored translation rows, if the row exists
+ * @returns Name and description per locale, empty where there is no translation
+ */
+export function toTranslationsInput(
+  locales: string[],
+  rows: Array<{ locale_code: string; name: string; description?: string | null }> = []
+): TranslationsInput {
+  return Object.fromEntries(
+    locales.map((locale) => {
+      const row = rows.find((candidate) => candidate.locale_code === locale)
+      return [locale, { name: row?.name ?? '', description: row?.description ?? '' }]
+    })
+  )
+}
@@ -5,12 +5,13 @@
  * This middleware:
  * - Handles locale-based routing using next-intl
  * - Ensures all URLs include a locale prefix (e.g., /en/, /nl/, /fr/)
+ * - Routes every active locale of the `locales` table, not a fixed list
  * - Redirects to default locale when needed
  * - Refreshes Supabase sessions to prevent expiry during navigation
  * - Applies to all routes except static assets
  *
  * Configuration:
- * - Supports English (en), Dutch (nl), and French (fr)
+ * - Supports the active locales (see lib/i18n/active-locales)
  * - Default locale is English (en)
  * - localePrefix: 'always' forces locale in URL for SEO and consistency
  * - Session refresh: Automatically updates Supabase sessions on each request
@@ -21,23 +22,42 @@
 import { type NextRequest } from 'next/server'
 import createIntlMiddleware from 'next-intl/middleware'
 import { createServerClient, type CookieOptions } from '@supabase/ssr'
+import { defaultLocale } from '@/lib/i18n/config'
+import { getActiveLocales } from '@/lib/i18n/active-locales'
 
-const locales = ['en', 'nl', 'fr'] as const
-const defaultLocale = 'en'
+// i18n middleware for the active locales it was created for
+let intlMiddleware: { locales: string; handle: ReturnType<typeof createIntlMiddleware> } | null = null
 
-// Create the i18n middleware
-const intlMiddleware = createIntlMiddleware({
-  locales,                    // Supported languages: English, Dutch, French
-  defaultLocale,              // Default to English if no locale specified
-  localePrefix: 'always',     // Force locale in URL for SEO and consistency
-})
+/**
+ * Get the i18n middleware, recreated when the active locales change
+ *
+ * @returns i18n middleware routing the active locales
+ */
+async function getIntlMiddleware() {
+  const locales = await getActiveLocales()
+  const key = locales.join(',')
+
+  if (intlMiddleware?.locales !== key) {
+    intlMiddleware = {
+      locales: key,
+      handle: createIntlMiddleware({
+        locales,                    // Active locales of the locales table
+        defaultLocale,              // Default to English if no locale specified
+        localePrefix: 'always',     // Force locale in URL for SEO and consistency
+      }),
+    }
+  }
+
+  return intlMiddleware.handle
+}
 
 /**
  * Main middleware that combines i18n and session management
  */
 export async function middleware(request: NextRequest) {
   // First, handle i18n
-  const response = intlMiddleware(request)
+  const handleIntl = await getIntlMiddleware()
+  const response = handleIntl(request)
 
   // Then, handle session refresh using Supabase SSR
   const supabase = createServerClient(
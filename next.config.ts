@@ -16,6 +16,14 @@ const nextConfig: NextConfig = {
     // This is safe - Edge runtime is server-side, not exposed to client
     SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
   },
+  experimental: {
+    serverActions: {
+      // Boundaries (MAX_BOUNDARY_FILE_SIZE in lib/map/boundary-files.ts) and
+      // import rows (MAX_IMPORT_FILE_SIZE in lib/import/spreadsheet.ts) are
+      // sent through server actions; the default limit is 1 MB
+      bodySizeLimit: '6mb',
+    },
+  },
 }
 
 export default withNextIntl(nextConfig)
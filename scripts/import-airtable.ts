@@ -0,0 +1,130 @@
+/**
+ * Legacy Airtable Importer
+ * ========================
+ * Imports an Airtable export of the old Amsterdam language map into a city:
+ * Size and Status taxonomies, neighborhoods, languages with English names,
+ * and language points. Safe to run repeatedly; existing rows are reused.
+ *
+ * Usage:
+ *   npx tsx scripts/import-airtable.ts --file export.json [--city amsterdam]
+ *     [--format json|csv] [--district centrum] [--dry-run]
+ *
+ * Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (read from
+ * .env.local).
+ */
+
+import { readFileSync } from 'node:fs'
+import { extname } from 'node:path'
+import { parseArgs } from 'node:util'
+import dotenv from 'dotenv'
+import { parseAirtableExport, type LegacyExportFormat } from '@/lib/legacy-import/airtable'
+import { planLegacyImport, type LegacyImportPlan } from '@/lib/legacy-import/plan'
+
+const USAGE =
+  'Usage: npx tsx scripts/import-airtable.ts --file <export.json|export.csv> [--city <slug>] ' +
+  '[--format json|csv] [--district <slug>] [--dry-run]'
+
+/**
+ * Print what the plan creates
+ */
+function printPlan(plan: LegacyImportPlan, dryRun: boolean): void {
+  const verb = dryRun ? 'Would create' : 'Creating'
+  const newLanguages = plan.languages.filter((language) => !language.existingId)
+
+  console.log(`\n${verb}:`)
+  for (const { taxonomy, typeId, values } of plan.taxonomies) {
+    const type = typeId ? `existing taxonomy type "${taxonomy.slug}"` : `taxonomy type "${taxonomy.slug}"`
+    console.log(`  ${type} with values: ${values.map((value) => `${value.slug} (${value.color})`).join(', ') || '-'}`)
+  }
+  console.log(`  ${plan.neighborhoods.length} neighborhoods${plan.neighborhoods.length ? `: ${plan.neighborhoods.join(', ')}` : ''}`)
+  console.log(`  ${newLanguages.length} languages (${plan.languages.length - newLanguages.length} already exist)`)
+  console.log(`  ${plan.points.length} language points (${plan.existingPoints} already exist)`)
+
+  if (plan.warnings.length > 0) {
+    console.log(`\n${plan.warnings.length} warnings:`)
+    for (const warning of plan.warnings) {
+      console.log(`  [${warning.recordId}] ${warning.message}`)
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      file: { type: 'string' },
+      city: { type: 'string', default: 'amsterdam' },
+      format: { type: 'string' },
+      district: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  })
+
+  if (!values.file) {
+    throw new Error(USAGE)
+  }
+
+  const format = (values.format ?? extname(values.file).slice(1).toLowerCase()) as LegacyExportFormat
+  if (format !== 'json' && format !== 'csv') {
+    throw new Error(`Unsupported format "${format}". ${USAGE}`)
+  }
+
+  const citySlug = values.city ?? 'amsterdam'
+  const dryRun = values['dry-run'] ?? false
+
+  // Load the environment before the database module reads it
+  dotenv.config({ path: '.env.local' })
+  const { getDatabaseAdminClient } = await import('@/lib/database/client')
+  const { applyLegacyImport, loadLegacySnapshot } = await import('@/lib/legacy-import/apply')
+  const supabase = getDatabaseAdminClient(citySlug)
+
+  const exported = parseAirtableExport(readFileSync(values.file, 'utf8'), format)
+  console.log(`Read ${exported.instances.length} records from ${values.file}`)
+  for (const issue of exported.issues) {
+    console.log(`  [${issue.recordId}] ${issue.message}`)
+  }
+
+  const { data: city, error: cityError } = await supabase
+    .from('cities')
+    .select('id')
+    .eq('slug', citySlug)
+    .single()
+
+  if (cityError || !city) {
+    throw new Error(`City not found: ${citySlug}`)
+  }
+
+  let districtId: string | null = null
+  if (values.district) {
+    const { data: district, error } = await supabase
+      .from('districts')
+      .select('id')
+      .eq('city_id', city.id)
+      .eq('slug', values.district)
+      .single()
+
+    if (error || !district) {
+      throw new Error(`District not found in ${citySlug}: ${values.district}`)
+    }
+    districtId = district.id
+  }
+
+  const snapshot = await loadLegacySnapshot(supabase, city.id)
+  const plan = planLegacyImport(exported.instances, snapshot, { createNeighborhoods: districtId !== null })
+  printPlan(plan, dryRun)
+
+  if (dryRun) {
+    console.log('\nDry run: nothing was written.')
+    return
+  }
+
+  const result = await applyLegacyImport(supabase, city.id, plan, snapshot, districtId)
+  console.log(
+    `\nCreated ${result.taxonomyTypes} taxonomy types, ${result.taxonomyValues} taxonomy values, ` +
+      `${result.neighborhoods} neighborhoods, ${result.languages} languages and ${result.points} language points.`
+  )
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
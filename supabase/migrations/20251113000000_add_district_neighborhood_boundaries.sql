@@ -0,0 +1,222 @@
+-- ============================================
+-- DISTRICT AND NEIGHBORHOOD BOUNDARIES
+-- ============================================
+-- Adds PostGIS polygon boundaries to districts and neighborhoods so the
+-- public map can draw them as shaded areas and language points can be
+-- located within a neighborhood.
+--
+-- Boundaries are stored as MultiPolygon in WGS 84 (SRID 4326) and written
+-- through set_*_boundary() so that GeoJSON input is validated and repaired
+-- in one place.
+
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+-- 1. BOUNDARY COLUMNS
+-- ===================
+
+ALTER TABLE districts
+  ADD COLUMN IF NOT EXISTS boundary geometry(MultiPolygon, 4326);
+
+ALTER TABLE neighborhoods
+  ADD COLUMN IF NOT EXISTS boundary geometry(MultiPolygon, 4326);
+
+CREATE INDEX IF NOT EXISTS idx_districts_boundary ON districts USING GIST (boundary);
+CREATE INDEX IF NOT EXISTS idx_neighborhoods_boundary ON neighborhoods USING GIST (boundary);
+
+COMMENT ON COLUMN districts.boundary IS 'District area as MultiPolygon (WGS 84)';
+COMMENT ON COLUMN neighborhoods.boundary IS 'Neighborhood area as MultiPolygon (WGS 84)';
+
+-- 2. GEOJSON CONVERSION
+-- =====================
+
+/**
+ * Convert a GeoJSON Polygon/MultiPolygon geometry to a valid MultiPolygon
+ *
+ * Self-intersections and other invalid rings are repaired with ST_MakeValid;
+ * only the polygonal parts of the result are kept.
+ *
+ * @param p_geojson - GeoJSON geometry object (NULL returns NULL)
+ * @returns MultiPolygon with SRID 4326
+ * @throws If the geometry is not polygonal or empty after repair
+ */
+CREATE OR REPLACE FUNCTION boundary_from_geojson(p_geojson JSONB)
+RETURNS geometry(MultiPolygon, 4326)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_geometry geometry;
+BEGIN
+  IF p_geojson IS NULL OR p_geojson = 'null'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_geojson->>'type' NOT IN ('Polygon', 'MultiPolygon') THEN
+    RAISE EXCEPTION 'Boundary must be a GeoJSON Polygon or MultiPolygon';
+  END IF;
+
+  v_geometry := ST_SetSRID(ST_GeomFromGeoJSON(p_geojson::text), 4326);
+  v_geometry := ST_CollectionExtract(ST_MakeValid(v_geometry), 3);
+
+  IF v_geometry IS NULL OR ST_IsEmpty(v_geometry) THEN
+    RAISE EXCEPTION 'Boundary does not contain a valid polygon';
+  END IF;
+
+  RETURN ST_Multi(v_geometry)::geometry(MultiPolygon, 4326);
+END;
+$$;
+
+-- 3. WRITE FUNCTIONS
+-- ==================
+-- SECURITY INVOKER: the RLS policies on districts/neighborhoods decide who
+-- may change a boundary, exactly as for a regular UPDATE.
+
+/**
+ * Set or clear the boundary of a district
+ *
+ * @param p_district_id - UUID of the district
+ * @param p_boundary - GeoJSON Polygon/MultiPolygon, or NULL to remove the boundary
+ * @throws If the district does not exist (or is not visible to the caller)
+ */
+CREATE OR REPLACE FUNCTION set_district_boundary(
+  p_district_id UUID,
+  p_boundary JSONB
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+  UPDATE districts
+  SET
+    boundary = boundary_from_geojson(p_boundary),
+    updated_at = NOW()
+  WHERE id = p_district_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'District not found';
+  END IF;
+END;
+$$;
+
+/**
+ * Set or clear the boundary of a neighborhood
+ *
+ * @param p_neighborhood_id - UUID of the neighborhood
+ * @param p_boundary - GeoJSON Polygon/MultiPolygon, or NULL to remove the boundary
+ * @throws If the neighborhood does not exist (or is not visible to the caller)
+ */
+CREATE OR REPLACE FUNCTION set_neighborhood_boundary(
+  p_neighborhood_id UUID,
+  p_boundary JSONB
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+  UPDATE neighborhoods
+  SET
+    boundary = boundary_from_geojson(p_boundary),
+    updated_at = NOW()
+  WHERE id = p_neighborhood_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Neighborhood not found';
+  END IF;
+END;
+$$;
+
+-- 4. COMPUTED COLUMNS
+-- ===================
+-- Exposed by PostgREST as `has_boundary` on districts and neighborhoods, so
+-- forms can show whether a boundary exists without downloading it.
+
+CREATE OR REPLACE FUNCTION has_boundary(districts)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT $1.boundary IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION has_boundary(neighborhoods)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT $1.boundary IS NOT NULL;
+$$;
+
+-- 5. READ FUNCTION
+-- ================
+
+/**
+ * Get all district and neighborhood boundaries of a city as GeoJSON
+ *
+ * @param p_city_id - UUID of the city
+ * @returns One row per area with a boundary, including translations as JSONB
+ *   (array of {"locale_code", "name"} objects)
+ */
+CREATE OR REPLACE FUNCTION get_city_boundaries(p_city_id UUID)
+RETURNS TABLE (
+  area_id UUID,
+  area_type TEXT,
+  slug TEXT,
+  district_slug TEXT,
+  translations JSONB,
+  geometry JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    d.id,
+    'district'::TEXT,
+    d.slug::TEXT,
+    d.slug::TEXT,
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('locale_code', t.locale_code, 'name', t.name))
+       FROM district_translations t WHERE t.district_id = d.id),
+      '[]'::jsonb
+    ),
+    ST_AsGeoJSON(d.boundary, 6)::jsonb
+  FROM districts d
+  WHERE d.city_id = p_city_id AND d.boundary IS NOT NULL
+
+  UNION ALL
+
+  SELECT
+    n.id,
+    'neighborhood'::TEXT,
+    n.slug::TEXT,
+    d.slug::TEXT,
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('locale_code', t.locale_code, 'name', t.name))
+       FROM neighborhood_translations t WHERE t.neighborhood_id = n.id),
+      '[]'::jsonb
+    ),
+    ST_AsGeoJSON(n.boundary, 6)::jsonb
+  FROM neighborhoods n
+  JOIN districts d ON d.id = n.district_id
+  WHERE d.city_id = p_city_id AND n.boundary IS NOT NULL;
+$$;
+
+-- Grant execute permissions
+-- RLS policies still apply to the underlying tables
+GRANT EXECUTE ON FUNCTION boundary_from_geojson(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_district_boundary(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_neighborhood_boundary(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_city_boundaries(UUID) TO anon, authenticated;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION boundary_from_geojson IS
+  'Converts a GeoJSON Polygon/MultiPolygon to a repaired MultiPolygon (SRID 4326).';
+
+COMMENT ON FUNCTION set_district_boundary IS
+  'Sets or clears (NULL) the boundary of a district from GeoJSON.';
+
+COMMENT ON FUNCTION set_neighborhood_boundary IS
+  'Sets or clears (NULL) the boundary of a neighborhood from GeoJSON.';
+
+COMMENT ON FUNCTION get_city_boundaries IS
+  'Returns district and neighborhood boundaries of a city as GeoJSON with translations.';
@@ -0,0 +1,108 @@
+-- ============================================
+-- LANGUAGE POINT NEIGHBORHOOD LOOKUP
+-- ============================================
+-- Derives the neighborhood of a language point from its coordinates using
+-- the neighborhood boundaries (point-in-polygon), and re-assigns all points
+-- of a city in one statement.
+--
+-- Neighborhoods without a boundary never match, so cities that have not
+-- uploaded boundaries keep their manually selected neighborhoods.
+--
+-- The lookup is driven by the point, so it uses the GIST index on
+-- neighborhoods.boundary (idx_neighborhoods_boundary); the points themselves
+-- need no spatial index.
+
+-- 1. LOOKUP FUNCTION
+-- ==================
+
+/**
+ * Find the neighborhood containing a location
+ *
+ * Points on a shared border match both neighborhoods; the smallest area
+ * wins so that nested or overlapping boundaries resolve deterministically.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_latitude - Latitude (WGS 84)
+ * @param p_longitude - Longitude (WGS 84)
+ * @returns UUID of the neighborhood, or NULL if no boundary contains the location
+ */
+CREATE OR REPLACE FUNCTION find_neighborhood_for_point(
+  p_city_id UUID,
+  p_latitude NUMERIC,
+  p_longitude NUMERIC
+) RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT n.id
+  FROM neighborhoods n
+  JOIN districts d ON d.id = n.district_id
+  WHERE d.city_id = p_city_id
+    AND n.boundary IS NOT NULL
+    AND ST_Covers(
+      n.boundary,
+      ST_SetSRID(ST_MakePoint(p_longitude::float8, p_latitude::float8), 4326)
+    )
+  ORDER BY ST_Area(n.boundary), n.slug
+  LIMIT 1;
+$$;
+
+-- 2. BULK RE-ASSIGNMENT
+-- =====================
+
+/**
+ * Re-assign the neighborhood of every language point of a city from its coordinates
+ *
+ * Points outside all neighborhood boundaries keep their current neighborhood.
+ * SECURITY INVOKER: the language_points RLS policies limit the update to
+ * cities the caller manages.
+ *
+ * @param p_city_id - UUID of the city
+ * @returns One row: total points, points whose neighborhood changed, and
+ *   points outside every boundary
+ */
+CREATE OR REPLACE FUNCTION reassign_language_point_neighborhoods(p_city_id UUID)
+RETURNS TABLE (
+  total_count INTEGER,
+  updated_count INTEGER,
+  unmatched_count INTEGER
+)
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+  WITH derived AS (
+    SELECT
+      lp.id,
+      lp.neighborhood_id AS current_neighborhood_id,
+      find_neighborhood_for_point(p_city_id, lp.latitude, lp.longitude) AS derived_neighborhood_id
+    FROM language_points lp
+    JOIN languages l ON l.id = lp.language_id
+    WHERE l.city_id = p_city_id
+  ),
+  updated AS (
+    UPDATE language_points lp
+    SET neighborhood_id = d.derived_neighborhood_id
+    FROM derived d
+    WHERE lp.id = d.id
+      AND d.derived_neighborhood_id IS NOT NULL
+      AND d.derived_neighborhood_id IS DISTINCT FROM d.current_neighborhood_id
+    RETURNING lp.id
+  )
+  SELECT
+    (SELECT COUNT(*) FROM derived)::INTEGER,
+    (SELECT COUNT(*) FROM updated)::INTEGER,
+    (SELECT COUNT(*) FROM derived WHERE derived_neighborhood_id IS NULL)::INTEGER;
+$$;
+
+-- Grant execute permissions
+-- RLS policies still apply to the underlying tables
+GRANT EXECUTE ON FUNCTION find_neighborhood_for_point(UUID, NUMERIC, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION reassign_language_point_neighborhoods(UUID) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION find_neighborhood_for_point IS
+  'Returns the neighborhood whose boundary contains the given coordinates (smallest area first).';
+
+COMMENT ON FUNCTION reassign_language_point_neighborhoods IS
+  'Re-assigns all language points of a city to the neighborhood containing them; returns counts.';
@@ -0,0 +1,88 @@
+-- ============================================
+-- POSTAL CODE CENTROIDS
+-- ============================================
+-- Per-city table of postal code centroids, uploaded by operators as CSV.
+-- Backs the offline geocoder used by the language point form and the bulk
+-- import, so postal codes resolve to coordinates without calling an
+-- external geocoding service.
+--
+-- Postal codes are stored normalized (uppercase, no whitespace), e.g.
+-- '1012 ab' is stored as '1012AB'.
+
+-- 1. POSTAL CODE CENTROIDS TABLE
+-- ==============================
+
+CREATE TABLE postal_code_centroids (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  city_id UUID NOT NULL REFERENCES cities(id) ON DELETE CASCADE,
+  postal_code VARCHAR(10) NOT NULL CHECK (postal_code = UPPER(REGEXP_REPLACE(postal_code, '\s', '', 'g'))),
+  latitude NUMERIC(10, 8) NOT NULL CHECK (latitude >= -90 AND latitude <= 90),
+  longitude NUMERIC(11, 8) NOT NULL CHECK (longitude >= -180 AND longitude <= 180),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(city_id, postal_code)
+);
+
+-- Lookups are always by city and code (covered by the unique constraint)
+CREATE INDEX idx_postal_code_centroids_city_id ON postal_code_centroids(city_id);
+
+CREATE TRIGGER update_postal_code_centroids_updated_at BEFORE UPDATE ON postal_code_centroids
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. ROW LEVEL SECURITY
+-- =====================
+
+ALTER TABLE postal_code_centroids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view postal code centroids for accessible cities"
+  ON postal_code_centroids
+  FOR SELECT
+  USING (has_city_access(auth.uid(), city_id));
+
+CREATE POLICY "City users can manage postal code centroids"
+  ON postal_code_centroids
+  FOR ALL
+  USING (has_city_access(auth.uid(), city_id))
+  WITH CHECK (has_city_access(auth.uid(), city_id));
+
+-- 3. REPLACE FUNCTION
+-- ===================
+
+/**
+ * Replace all postal code centroids of a city in one transaction
+ *
+ * SECURITY INVOKER: the RLS policies above limit the change to cities the
+ * caller has access to.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_centroids - JSON array of {postal_code, latitude, longitude}
+ * @returns Number of centroids stored
+ */
+CREATE OR REPLACE FUNCTION replace_postal_code_centroids(
+  p_city_id UUID,
+  p_centroids JSONB
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM postal_code_centroids WHERE city_id = p_city_id;
+
+  INSERT INTO postal_code_centroids (city_id, postal_code, latitude, longitude)
+  SELECT p_city_id, c.postal_code, c.latitude, c.longitude
+  FROM jsonb_to_recordset(p_centroids) AS c(postal_code VARCHAR(10), latitude NUMERIC, longitude NUMERIC);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION replace_postal_code_centroids(UUID, JSONB) TO authenticated;
+
+COMMENT ON TABLE postal_code_centroids IS
+  'Centroid coordinates per postal code and city, used for offline geocoding';
+
+COMMENT ON FUNCTION replace_postal_code_centroids IS
+  'Replaces all postal code centroids of a city; returns the number stored.';
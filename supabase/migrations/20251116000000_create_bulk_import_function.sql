@@ -0,0 +1,138 @@
+-- ============================================
+-- BULK IMPORT
+-- ============================================
+-- Creates the languages (with translations and taxonomy assignments) and
+-- language points of a validated import in a single transaction, so a
+-- failing row never leaves a half-imported city behind.
+--
+-- Validation and name matching happen in the application (lib/import);
+-- this function only writes.
+
+-- 1. IMPORT FUNCTION
+-- ==================
+
+/**
+ * Import languages and language points for a city atomically
+ *
+ * Languages with an `existing_id` are not modified; their points are
+ * attached to the existing language. As in the language point form, the
+ * neighborhood whose boundary contains a point wins over the given
+ * `neighborhood_id`, which is only kept when no boundary matches.
+ * SECURITY INVOKER: the RLS policies of the written tables apply.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_languages - JSONB array of languages:
+ *   [{"key": "iso:tur", "existing_id": null, "endonym": "Türkçe",
+ *     "iso_639_3_code": "tur", "language_family_id": null,
+ *     "country_of_origin_id": null, "speaker_count": 40000,
+ *     "translations": [{"locale_code": "en", "name": "Turkish"}],
+ *     "taxonomy_value_ids": ["..."]}]
+ * @param p_points - JSONB array of points referencing languages by key:
+ *   [{"language_key": "iso:tur", "latitude": 52.37, "longitude": 4.89,
+ *     "neighborhood_id": null, "postal_code": "1012AB",
+ *     "community_name": null, "notes": null}]
+ * @returns One row: languages created and points created
+ * @throws Will rollback entire transaction if any step fails
+ */
+CREATE OR REPLACE FUNCTION import_languages_and_points(
+  p_city_id UUID,
+  p_languages JSONB,
+  p_points JSONB
+) RETURNS TABLE (
+  languages_created INTEGER,
+  points_created INTEGER
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_language JSONB;
+  v_language_id UUID;
+  v_language_ids JSONB := '{}'::JSONB;
+  v_languages_created INTEGER := 0;
+  v_points_created INTEGER := 0;
+BEGIN
+  -- Create languages (or look up existing ones) and remember their IDs by key
+  FOR v_language IN SELECT value FROM jsonb_array_elements(COALESCE(p_languages, '[]'::JSONB))
+  LOOP
+    IF v_language->>'existing_id' IS NOT NULL THEN
+      SELECT id INTO v_language_id
+      FROM languages
+      WHERE id = (v_language->>'existing_id')::UUID
+        AND city_id = p_city_id;
+
+      IF v_language_id IS NULL THEN
+        RAISE EXCEPTION 'Language % not found in city', v_language->>'existing_id';
+      END IF;
+    ELSE
+      INSERT INTO languages (
+        city_id,
+        iso_639_3_code,
+        endonym,
+        language_family_id,
+        country_of_origin_id,
+        speaker_count,
+        created_by
+      ) VALUES (
+        p_city_id,
+        NULLIF(v_language->>'iso_639_3_code', ''),
+        v_language->>'endonym',
+        (v_language->>'language_family_id')::UUID,
+        (v_language->>'country_of_origin_id')::UUID,
+        (v_language->>'speaker_count')::INTEGER,
+        auth.uid()
+      )
+      RETURNING id INTO v_language_id;
+
+      INSERT INTO language_translations (language_id, locale_code, name)
+      SELECT v_language_id, t->>'locale_code', t->>'name'
+      FROM jsonb_array_elements(COALESCE(v_language->'translations', '[]'::JSONB)) AS t
+      WHERE COALESCE(t->>'name', '') != '';
+
+      INSERT INTO language_taxonomies (language_id, taxonomy_value_id)
+      SELECT v_language_id, (value_id #>> '{}')::UUID
+      FROM jsonb_array_elements(COALESCE(v_language->'taxonomy_value_ids', '[]'::JSONB)) AS value_id;
+
+      v_languages_created := v_languages_created + 1;
+    END IF;
+
+    v_language_ids := v_language_ids || jsonb_build_object(v_language->>'key', v_language_id);
+  END LOOP;
+
+  -- Create points
+  INSERT INTO language_points (
+    language_id,
+    neighborhood_id,
+    latitude,
+    longitude,
+    postal_code,
+    community_name,
+    notes,
+    created_by
+  )
+  SELECT
+    (v_language_ids->>(p->>'language_key'))::UUID,
+    COALESCE(
+      find_neighborhood_for_point(p_city_id, (p->>'latitude')::NUMERIC, (p->>'longitude')::NUMERIC),
+      (p->>'neighborhood_id')::UUID
+    ),
+    (p->>'latitude')::NUMERIC,
+    (p->>'longitude')::NUMERIC,
+    NULLIF(p->>'postal_code', ''),
+    NULLIF(p->>'community_name', ''),
+    NULLIF(p->>'notes', ''),
+    auth.uid()
+  FROM jsonb_array_elements(COALESCE(p_points, '[]'::JSONB)) AS p;
+
+  GET DIAGNOSTICS v_points_created = ROW_COUNT;
+
+  RETURN QUERY SELECT v_languages_created, v_points_created;
+END;
+$$;
+
+-- Grant execute permissions
+-- RLS policies still apply to the underlying tables
+GRANT EXECUTE ON FUNCTION import_languages_and_points(UUID, JSONB, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION import_languages_and_points IS
+  'Creates the languages and language points of a bulk import in one transaction; returns counts.';
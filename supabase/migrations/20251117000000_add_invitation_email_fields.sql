@@ -0,0 +1,18 @@
+-- ============================================
+-- INVITATION EMAIL FIELDS
+-- ============================================
+-- Invitations are emailed to the invitee. The locale decides the language
+-- of the invitation, reminder and revocation emails; the send times let
+-- admins see when the invitee was last contacted.
+
+-- 1. INVITATION COLUMNS
+-- =====================
+
+ALTER TABLE invitations
+  ADD COLUMN locale VARCHAR(5) NOT NULL DEFAULT 'en' REFERENCES locales(code),
+  ADD COLUMN email_sent_at TIMESTAMPTZ,
+  ADD COLUMN reminder_sent_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN invitations.locale IS 'Language of the emails sent to the invitee';
+COMMENT ON COLUMN invitations.email_sent_at IS 'When the invitation email was last delivered to the mail transport';
+COMMENT ON COLUMN invitations.reminder_sent_at IS 'When the last reminder email was delivered to the mail transport';
@@ -0,0 +1,110 @@
+-- ============================================
+-- HARDEN INVITATION ACCEPTANCE
+-- ============================================
+-- The invitation page signs the invitee in with a magic link and then calls
+-- accept_invitation. This version:
+-- - only accepts for the account whose email the invitation was sent to
+-- - locks the invitation so two tabs cannot accept it twice
+-- - reports revoked and accepted invitations as such, even once expired
+-- - fills in the profile name and raises an operator to admin when the
+--   invitation grants the admin role (superusers are never changed)
+-- - never lowers a role: accepting an operator invitation to a city the
+--   user already administers keeps them admin there
+-- - can only be called by the service role (the server action), so a
+--   signed-in user cannot pass someone else's user id
+
+-- 1. ACCEPT INVITATION FUNCTION
+-- =============================
+
+CREATE OR REPLACE FUNCTION accept_invitation(
+  p_token VARCHAR,
+  p_user_id UUID
+)
+RETURNS JSON AS $$
+DECLARE
+  v_invitation invitations;
+  v_user_email TEXT;
+BEGIN
+  -- Get and lock the invitation
+  SELECT * INTO v_invitation
+  FROM invitations
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Invitation not found'
+    );
+  END IF;
+
+  IF v_invitation.revoked_at IS NOT NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Invitation has been revoked'
+    );
+  END IF;
+
+  IF v_invitation.accepted_at IS NOT NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Invitation has already been accepted'
+    );
+  END IF;
+
+  IF v_invitation.expires_at < NOW() THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Invitation has expired'
+    );
+  END IF;
+
+  -- The invitation is personal: the account must use the invited address
+  SELECT email INTO v_user_email
+  FROM auth.users
+  WHERE id = p_user_id;
+
+  IF v_user_email IS NULL OR LOWER(v_user_email) <> LOWER(v_invitation.email) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Invitation was sent to a different email address'
+    );
+  END IF;
+
+  -- Mark invitation as accepted
+  UPDATE invitations
+  SET accepted_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_invitation.id;
+
+  -- Grant city access to the user; an admin invited as operator to the
+  -- same city stays admin
+  INSERT INTO city_users (city_id, user_id, role, granted_by)
+  SELECT g.city_id, p_user_id, g.role, v_invitation.invited_by
+  FROM invitation_city_grants g
+  WHERE g.invitation_id = v_invitation.id
+  ON CONFLICT (city_id, user_id) DO UPDATE
+  SET role = EXCLUDED.role,
+      granted_by = EXCLUDED.granted_by,
+      granted_at = NOW()
+  WHERE city_users.role <> 'admin';
+
+  -- Complete the profile created on signup
+  UPDATE user_profiles
+  SET full_name = COALESCE(full_name, v_invitation.full_name),
+      role = CASE
+        WHEN role = 'operator' AND v_invitation.role = 'admin' THEN 'admin'::user_role
+        ELSE role
+      END,
+      updated_at = NOW()
+  WHERE id = p_user_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'message', 'Invitation accepted successfully'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION accept_invitation(VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_invitation(VARCHAR, UUID) TO service_role;
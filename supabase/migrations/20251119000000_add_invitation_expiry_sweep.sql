@@ -0,0 +1,62 @@
+-- ============================================
+-- INVITATION EXPIRY SWEEP
+-- ============================================
+-- Invitations stop working at expires_at. A scheduled sweep records when an
+-- unused invitation lapsed, so the invitation list can tell expired
+-- invitations apart without comparing dates, and extending an invitation
+-- clears the mark again.
+
+-- 1. INVITATION COLUMN
+-- ====================
+
+ALTER TABLE invitations
+  ADD COLUMN expired_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN invitations.expired_at IS 'When the expiry sweep marked the unused invitation as expired; cleared when it is extended';
+
+-- Pending invitations the sweep has to look at
+CREATE INDEX idx_invitations_pending_expiry ON invitations(expires_at)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL AND expired_at IS NULL;
+
+-- 2. SWEEP FUNCTION
+-- =================
+
+CREATE OR REPLACE FUNCTION expire_invitations()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE invitations
+  SET expired_at = NOW(),
+      updated_at = NOW()
+  WHERE expires_at < NOW()
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expired_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION expire_invitations() IS 'Mark unused invitations past expires_at as expired; returns the number marked';
+
+REVOKE EXECUTE ON FUNCTION expire_invitations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_invitations() TO service_role;
+
+-- 3. SCHEDULE
+-- ===========
+-- Runs hourly with pg_cron (enabled on Supabase projects and the local
+-- stack). Where pg_cron is not available the sweep can be run by hand:
+--   SELECT expire_invitations();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('expire-invitations', '5 * * * *', 'SELECT public.expire_invitations()');
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; run SELECT expire_invitations() on a schedule';
+  END IF;
+END;
+$$;
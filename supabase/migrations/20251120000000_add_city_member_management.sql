@@ -0,0 +1,212 @@
+-- ============================================
+-- CITY MEMBER MANAGEMENT
+-- ============================================
+-- Lets city admins see the members of their cities, change a member's role
+-- between operator and admin and remove a member's access, without direct
+-- database access. Deactivating accounts (user_profiles.is_active) stays a
+-- superuser update under the existing "Superusers can manage all profiles"
+-- policy.
+--
+-- The functions are SECURITY DEFINER, so they bypass RLS and check the
+-- signed-in user themselves: they take the caller from auth.uid() (never from
+-- a parameter), check is_city_admin(auth.uid(), ...) like the city_users RLS
+-- policies do, and keep every city with at least one admin.
+
+-- 1. MEMBER PROFILES FOR CITY ADMINS
+-- ==================================
+
+DROP POLICY IF EXISTS "Admins can view profiles of their city members" ON user_profiles;
+DROP FUNCTION IF EXISTS is_admin_of_city_member(UUID, UUID);
+
+/**
+ * Check if the signed-in user is an admin of any city the other user belongs to
+ *
+ * SECURITY DEFINER so the city_users lookup does not go through the
+ * user_profiles policies again (see 20251103000000_fix_admin_rls_policies).
+ * The admin is always auth.uid(), so callers cannot probe other users' roles.
+ *
+ * @param p_user_id - UUID of the member
+ * @returns true when the signed-in user administers one of the member's cities
+ */
+CREATE OR REPLACE FUNCTION is_admin_of_city_member(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM city_users cu
+    WHERE cu.user_id = p_user_id
+      AND is_city_admin(auth.uid(), cu.city_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_admin_of_city_member(UUID) TO authenticated;
+
+CREATE POLICY "Admins can view profiles of their city members"
+  ON user_profiles
+  FOR SELECT
+  USING (is_admin_of_city_member(id));
+
+-- 2. PROFILE ROLE SYNC
+-- ====================
+
+/**
+ * Align a profile role with the user's city roles
+ *
+ * The admin pages require an admin profile role, so an operator who becomes
+ * admin of a city is raised to admin, and an admin without any admin city
+ * role left is lowered to operator. Superusers are never changed.
+ *
+ * @param p_user_id - UUID of the user
+ */
+CREATE OR REPLACE FUNCTION sync_profile_role_with_city_roles(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_city_admin BOOLEAN;
+BEGIN
+  SELECT EXISTS (
+    SELECT 1 FROM city_users
+    WHERE user_id = p_user_id AND role = 'admin'
+  ) INTO v_is_city_admin;
+
+  UPDATE user_profiles
+  SET role = CASE WHEN v_is_city_admin THEN 'admin'::user_role ELSE 'operator'::user_role END
+  WHERE id = p_user_id
+    AND role <> 'superuser'
+    AND role <> CASE WHEN v_is_city_admin THEN 'admin'::user_role ELSE 'operator'::user_role END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sync_profile_role_with_city_roles(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 3. CHANGE A MEMBER'S CITY ROLE
+-- ==============================
+
+/**
+ * Change the role of a city member
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_user_id - UUID of the member
+ * @param p_role - New role: 'admin' or 'operator'
+ * @throws If the caller does not administer the city, the member is a
+ *   superuser managed by a non-superuser, or the city would lose its last admin
+ */
+CREATE OR REPLACE FUNCTION set_city_user_role(
+  p_city_id UUID,
+  p_user_id UUID,
+  p_role TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_role TEXT;
+BEGIN
+  IF NOT is_city_admin(auth.uid(), p_city_id) THEN
+    RAISE EXCEPTION 'Insufficient permissions to manage users of this city';
+  END IF;
+
+  IF p_role NOT IN ('admin', 'operator') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+
+  IF is_superuser(p_user_id) AND NOT is_superuser(auth.uid()) THEN
+    RAISE EXCEPTION 'Only superusers can manage superusers';
+  END IF;
+
+  -- Lock the city's members so two admins cannot demote each other at once
+  PERFORM 1 FROM city_users WHERE city_id = p_city_id FOR UPDATE;
+
+  SELECT role INTO v_current_role
+  FROM city_users
+  WHERE city_id = p_city_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User is not a member of this city';
+  END IF;
+
+  IF v_current_role = 'admin' AND p_role = 'operator' AND NOT EXISTS (
+    SELECT 1 FROM city_users
+    WHERE city_id = p_city_id AND role = 'admin' AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'A city needs at least one admin';
+  END IF;
+
+  UPDATE city_users
+  SET role = p_role, granted_by = auth.uid(), granted_at = NOW()
+  WHERE city_id = p_city_id AND user_id = p_user_id;
+
+  PERFORM sync_profile_role_with_city_roles(p_user_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_city_user_role(UUID, UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION set_city_user_role IS
+  'Changes the role of a city member for admins of the city; keeps at least one admin per city.';
+
+-- 4. REMOVE A MEMBER FROM A CITY
+-- ==============================
+
+/**
+ * Revoke a member's access to a city
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_user_id - UUID of the member
+ * @throws If the caller does not administer the city, the member is a
+ *   superuser managed by a non-superuser, or the member is the last admin
+ */
+CREATE OR REPLACE FUNCTION remove_city_user(
+  p_city_id UUID,
+  p_user_id UUID
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_role TEXT;
+BEGIN
+  IF NOT is_city_admin(auth.uid(), p_city_id) THEN
+    RAISE EXCEPTION 'Insufficient permissions to manage users of this city';
+  END IF;
+
+  IF is_superuser(p_user_id) AND NOT is_superuser(auth.uid()) THEN
+    RAISE EXCEPTION 'Only superusers can manage superusers';
+  END IF;
+
+  PERFORM 1 FROM city_users WHERE city_id = p_city_id FOR UPDATE;
+
+  SELECT role INTO v_current_role
+  FROM city_users
+  WHERE city_id = p_city_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User is not a member of this city';
+  END IF;
+
+  IF v_current_role = 'admin' AND NOT EXISTS (
+    SELECT 1 FROM city_users
+    WHERE city_id = p_city_id AND role = 'admin' AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'A city needs at least one admin';
+  END IF;
+
+  DELETE FROM city_users
+  WHERE city_id = p_city_id AND user_id = p_user_id;
+
+  PERFORM sync_profile_role_with_city_roles(p_user_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION remove_city_user(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION remove_city_user IS
+  'Revokes a member''s access to a city for admins of the city; keeps at least one admin per city.';
@@ -0,0 +1,281 @@
+-- ============================================
+-- AUDIT EVENTS
+-- ============================================
+-- Records every create, update and delete on the city data, invitations
+-- and memberships: who did it, in which city, on which row, and the row
+-- before and after. Deleted rows are kept whole, so a language that
+-- disappears from the map can be looked up and recreated.
+--
+-- Rows are written by triggers, so changes made through RPCs (bulk import,
+-- language families) are recorded too. The actor is the signed-in user;
+-- server actions that write with the service role name the user in the
+-- x-audit-actor request header (see getDatabaseAdminClient). Changes
+-- without either, such as the invitation expiry sweep, have no actor.
+
+-- 1. AUDIT EVENTS TABLE
+-- =====================
+
+CREATE TABLE audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- No foreign keys: events outlive the users and cities they mention
+  actor_id UUID,
+  city_id UUID,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  -- Name, endonym, slug or email of the row, so updates can be read without it
+  entity_label TEXT,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  -- Whole rows for create and delete, only the changed columns for update
+  before JSONB,
+  after JSONB
+);
+
+CREATE INDEX idx_audit_events_city_occurred ON audit_events(city_id, occurred_at DESC);
+CREATE INDEX idx_audit_events_actor ON audit_events(actor_id, occurred_at DESC);
+CREATE INDEX idx_audit_events_entity ON audit_events(entity_type, entity_id);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+-- City admins read the events of their cities; events without a city
+-- (e.g. a language deleted together with its city) only superusers.
+-- There are no write policies: only the trigger below writes.
+CREATE POLICY "Admins can view audit events of their cities"
+  ON audit_events
+  FOR SELECT
+  USING (is_city_admin(auth.uid(), city_id) OR is_superuser(auth.uid()));
+
+COMMENT ON TABLE audit_events IS
+  'Who created, updated or deleted which row, with the row before and after. Written by record_audit_event().';
+
+-- 2. HELPERS
+-- ==========
+
+/**
+ * Get the user responsible for the current change
+ *
+ * The x-audit-actor header is only trusted from the service role; signed-in
+ * users are always recorded as themselves.
+ *
+ * @returns UUID of the actor, or NULL for system changes
+ */
+CREATE OR REPLACE FUNCTION audit_actor_id()
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_header TEXT;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RETURN auth.uid();
+  END IF;
+
+  IF auth.role() = 'service_role' THEN
+    v_header := current_setting('request.headers', true)::JSON ->> 'x-audit-actor';
+
+    IF v_header ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+      RETURN v_header::UUID;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+/**
+ * Get the city a row belongs to
+ *
+ * Rows without a city_id column are looked up through their parent. When a
+ * parent is deleted together with its children (ON DELETE CASCADE) the
+ * parent is already gone and the children's events have no city; the
+ * parent's own event has it.
+ *
+ * @param p_table - Name of the table
+ * @param p_row - The row as JSONB
+ * @returns UUID of the city, or NULL when it cannot be determined
+ */
+CREATE OR REPLACE FUNCTION audit_city_id(p_table TEXT, p_row JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_table = 'cities' THEN
+    RETURN (p_row ->> 'id')::UUID;
+  END IF;
+
+  IF p_row ? 'city_id' THEN
+    RETURN (p_row ->> 'city_id')::UUID;
+  END IF;
+
+  RETURN CASE p_table
+    WHEN 'language_translations' THEN
+      (SELECT city_id FROM languages WHERE id = (p_row ->> 'language_id')::UUID)
+    WHEN 'language_points' THEN
+      (SELECT city_id FROM languages WHERE id = (p_row ->> 'language_id')::UUID)
+    WHEN 'language_taxonomies' THEN
+      (SELECT city_id FROM languages WHERE id = (p_row ->> 'language_id')::UUID)
+    WHEN 'description_translations' THEN
+      (SELECT city_id FROM descriptions WHERE id = (p_row ->> 'description_id')::UUID)
+    WHEN 'taxonomy_type_translations' THEN
+      (SELECT city_id FROM taxonomy_types WHERE id = (p_row ->> 'taxonomy_type_id')::UUID)
+    WHEN 'taxonomy_values' THEN
+      (SELECT city_id FROM taxonomy_types WHERE id = (p_row ->> 'taxonomy_type_id')::UUID)
+    WHEN 'taxonomy_value_translations' THEN
+      (SELECT tt.city_id FROM taxonomy_values tv
+       JOIN taxonomy_types tt ON tt.id = tv.taxonomy_type_id
+       WHERE tv.id = (p_row ->> 'taxonomy_value_id')::UUID)
+    WHEN 'district_translations' THEN
+      (SELECT city_id FROM districts WHERE id = (p_row ->> 'district_id')::UUID)
+    WHEN 'neighborhoods' THEN
+      (SELECT city_id FROM districts WHERE id = (p_row ->> 'district_id')::UUID)
+    WHEN 'neighborhood_translations' THEN
+      (SELECT d.city_id FROM neighborhoods n
+       JOIN districts d ON d.id = n.district_id
+       WHERE n.id = (p_row ->> 'neighborhood_id')::UUID)
+    WHEN 'invitations' THEN
+      -- The grants are inserted after the invitation; later events find them
+      (SELECT city_id FROM invitation_city_grants
+       WHERE invitation_id = (p_row ->> 'id')::UUID
+       ORDER BY created_at
+       LIMIT 1)
+    ELSE NULL
+  END;
+END;
+$$;
+
+-- 3. TRIGGER FUNCTION
+-- ===================
+
+/**
+ * Record an audit event for a row change
+ *
+ * Updates that only touch updated_at are not recorded. Invitation tokens
+ * are never stored.
+ */
+CREATE OR REPLACE FUNCTION record_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) - 'token' END;
+  v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) - 'token' END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_before JSONB := v_old;
+  v_after JSONB := v_new;
+  v_key TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_before := '{}'::JSONB;
+    v_after := '{}'::JSONB;
+
+    FOR v_key IN SELECT jsonb_object_keys(v_new)
+    LOOP
+      IF v_key <> 'updated_at' AND v_new -> v_key IS DISTINCT FROM v_old -> v_key THEN
+        v_before := v_before || jsonb_build_object(v_key, v_old -> v_key);
+        v_after := v_after || jsonb_build_object(v_key, v_new -> v_key);
+      END IF;
+    END LOOP;
+
+    IF v_after = '{}'::JSONB THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_events (actor_id, city_id, entity_type, entity_id, entity_label, action, before, after)
+  VALUES (
+    audit_actor_id(),
+    audit_city_id(TG_TABLE_NAME, v_row),
+    TG_TABLE_NAME,
+    COALESCE(
+      v_row ->> 'id',
+      CASE TG_TABLE_NAME
+        WHEN 'description_translations' THEN (v_row ->> 'description_id') || ':' || (v_row ->> 'locale')
+        WHEN 'city_users' THEN v_row ->> 'user_id'
+      END
+    ),
+    LEFT(COALESCE(
+      v_row ->> 'name',
+      v_row ->> 'endonym',
+      v_row ->> 'email',
+      v_row ->> 'slug',
+      v_row ->> 'community_name',
+      v_row ->> 'iso_639_3_code'
+    ), 200),
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- 4. TRIGGERS
+-- ===========
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'cities',
+    'city_translations',
+    'city_users',
+    'districts',
+    'district_translations',
+    'neighborhoods',
+    'neighborhood_translations',
+    'languages',
+    'language_translations',
+    'language_points',
+    'language_taxonomies',
+    'descriptions',
+    'description_translations',
+    'taxonomy_types',
+    'taxonomy_type_translations',
+    'taxonomy_values',
+    'taxonomy_value_translations',
+    'invitations',
+    'invitation_city_grants'
+  ]
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s ON %1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s AFTER INSERT OR UPDATE OR DELETE ON %1$I
+       FOR EACH ROW EXECUTE FUNCTION record_audit_event()',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- 5. ACTORS OF A CITY
+-- ===================
+
+/**
+ * List the users who changed something in a city, for the activity filter
+ *
+ * SECURITY INVOKER: the audit_events policy applies.
+ *
+ * @param p_city_id - UUID of the city
+ * @returns One row per actor
+ */
+CREATE OR REPLACE FUNCTION get_audit_actors(p_city_id UUID)
+RETURNS TABLE (actor_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT DISTINCT ae.actor_id
+  FROM audit_events ae
+  WHERE ae.city_id = p_city_id
+    AND ae.actor_id IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_audit_actors(UUID) TO authenticated;
@@ -0,0 +1,546 @@
+-- ============================================
+-- REVISIONS OF LANGUAGES AND DESCRIPTIONS
+-- ============================================
+-- Keeps every saved version of a language (with its name translations,
+-- taxonomy assignments and points) and of a description (with its texts),
+-- so operators can compare versions and restore an earlier one, including
+-- a language or description that has been deleted.
+--
+-- A revision is a whole snapshot of the entity, not a row change like the
+-- audit log: the server actions save several rows per edit (updateLanguage
+-- recreates all translations), and only the state after the edit is a
+-- version worth restoring. Server actions record a revision after each save
+-- with record_revision(); deletes are recorded by a trigger, so languages
+-- and descriptions removed by cascade are kept too. Rows written by the
+-- bulk import have no revision until they are first edited or deleted.
+
+-- 1. REVISIONS TABLE
+-- ==================
+
+CREATE TABLE revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign keys: revisions are what is left of deleted entities, and a
+  -- city cascading its languages away must not be blocked by them
+  city_id UUID NOT NULL,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('language', 'description')),
+  entity_id UUID NOT NULL,
+  revision INTEGER NOT NULL CHECK (revision > 0),
+  reason TEXT NOT NULL CHECK (reason IN ('create', 'update', 'delete', 'restore')),
+  snapshot JSONB NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Descriptions deleted together with their language share its transaction
+  transaction_id BIGINT NOT NULL DEFAULT txid_current(),
+
+  UNIQUE(entity_type, entity_id, revision)
+);
+
+CREATE INDEX idx_revisions_city_entity_type ON revisions(city_id, entity_type);
+CREATE INDEX idx_revisions_transaction ON revisions(transaction_id);
+
+ALTER TABLE revisions ENABLE ROW LEVEL SECURITY;
+
+-- Everyone who edits a city can read its history. There are no write
+-- policies: revisions are written by the functions below.
+CREATE POLICY "City users can view revisions of their cities"
+  ON revisions
+  FOR SELECT
+  USING (has_city_access(auth.uid(), city_id));
+
+COMMENT ON TABLE revisions IS
+  'Saved versions of languages and descriptions. Written by save_revision(), restored by restore_revision().';
+
+-- 2. SNAPSHOTS
+-- ============
+
+/**
+ * Build the snapshot of a language
+ *
+ * Translations and points are sorted and stripped of generated ids and
+ * updated_at, so saving an unchanged language gives an equal snapshot.
+ *
+ * @param p_language_id - UUID of the language
+ * @returns The snapshot, or NULL when the language does not exist
+ */
+CREATE OR REPLACE FUNCTION language_snapshot(p_language_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'language', jsonb_build_object(
+      'id', l.id,
+      'city_id', l.city_id,
+      'iso_639_3_code', l.iso_639_3_code,
+      'endonym', l.endonym,
+      'language_family_id', l.language_family_id,
+      'country_of_origin_id', l.country_of_origin_id,
+      'speaker_count', l.speaker_count,
+      'created_at', l.created_at,
+      'created_by', l.created_by
+    ),
+    'translations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'locale_code', lt.locale_code,
+        'name', lt.name,
+        'is_ai_translated', lt.is_ai_translated,
+        'ai_model', lt.ai_model,
+        'ai_translated_at', lt.ai_translated_at,
+        'reviewed_by', lt.reviewed_by,
+        'reviewed_at', lt.reviewed_at
+      ) ORDER BY lt.locale_code)
+      FROM language_translations lt
+      WHERE lt.language_id = l.id
+    ), '[]'::JSONB),
+    'taxonomy_value_ids', COALESCE((
+      SELECT jsonb_agg(lx.taxonomy_value_id ORDER BY lx.taxonomy_value_id)
+      FROM language_taxonomies lx
+      WHERE lx.language_id = l.id
+    ), '[]'::JSONB),
+    'points', COALESCE((
+      SELECT jsonb_agg(to_jsonb(lp) - 'language_id' - 'updated_at' ORDER BY lp.id)
+      FROM language_points lp
+      WHERE lp.language_id = l.id
+    ), '[]'::JSONB)
+  )
+  FROM languages l
+  WHERE l.id = p_language_id;
+$$;
+
+/**
+ * Build the snapshot of a description
+ *
+ * @param p_description_id - UUID of the description
+ * @returns The snapshot, or NULL when the description does not exist
+ */
+CREATE OR REPLACE FUNCTION description_snapshot(p_description_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'description', to_jsonb(d) - 'updated_at',
+    'translations', COALESCE((
+      SELECT jsonb_agg(to_jsonb(dt) - 'description_id' ORDER BY dt.locale)
+      FROM description_translations dt
+      WHERE dt.description_id = d.id
+    ), '[]'::JSONB)
+  )
+  FROM descriptions d
+  WHERE d.id = p_description_id;
+$$;
+
+-- 3. SAVING REVISIONS
+-- ===================
+
+/**
+ * Save the current state of a language or description as a new revision
+ *
+ * An update that changed nothing since the last revision is not saved.
+ * Not granted to clients: see record_revision() and the delete trigger.
+ *
+ * @param p_entity_type - 'language' or 'description'
+ * @param p_entity_id - UUID of the entity
+ * @param p_reason - 'create', 'update', 'delete' or 'restore'
+ * @returns UUID of the revision, or NULL when the entity does not exist
+ */
+CREATE OR REPLACE FUNCTION save_revision(p_entity_type TEXT, p_entity_id UUID, p_reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot JSONB;
+  v_latest revisions%ROWTYPE;
+  v_revision_id UUID;
+BEGIN
+  v_snapshot := CASE p_entity_type
+    WHEN 'language' THEN language_snapshot(p_entity_id)
+    WHEN 'description' THEN description_snapshot(p_entity_id)
+  END;
+
+  IF v_snapshot IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Concurrent saves of the same entity must not get the same number
+  PERFORM pg_advisory_xact_lock(hashtext('revisions:' || p_entity_id::TEXT));
+
+  SELECT * INTO v_latest
+  FROM revisions
+  WHERE entity_type = p_entity_type
+    AND entity_id = p_entity_id
+  ORDER BY revision DESC
+  LIMIT 1;
+
+  IF p_reason = 'update' AND v_latest.snapshot = v_snapshot THEN
+    RETURN v_latest.id;
+  END IF;
+
+  INSERT INTO revisions (city_id, entity_type, entity_id, revision, reason, snapshot, created_by)
+  VALUES (
+    (v_snapshot -> p_entity_type ->> 'city_id')::UUID,
+    p_entity_type,
+    p_entity_id,
+    COALESCE(v_latest.revision, 0) + 1,
+    p_reason,
+    v_snapshot,
+    audit_actor_id()
+  )
+  RETURNING id INTO v_revision_id;
+
+  RETURN v_revision_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_revision(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+/**
+ * Record a revision after saving a language or description
+ *
+ * @param p_entity_type - 'language' or 'description'
+ * @param p_entity_id - UUID of the entity
+ * @param p_reason - 'create' or 'update'
+ * @returns UUID of the revision, or NULL when the entity does not exist
+ */
+CREATE OR REPLACE FUNCTION record_revision(p_entity_type TEXT, p_entity_id UUID, p_reason TEXT DEFAULT 'update')
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_city_id UUID;
+BEGIN
+  IF p_reason NOT IN ('create', 'update') THEN
+    RAISE EXCEPTION 'Invalid revision reason: %', p_reason;
+  END IF;
+
+  v_city_id := CASE p_entity_type
+    WHEN 'language' THEN (SELECT city_id FROM languages WHERE id = p_entity_id)
+    WHEN 'description' THEN (SELECT city_id FROM descriptions WHERE id = p_entity_id)
+  END;
+
+  IF v_city_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT has_city_access(auth.uid(), v_city_id) THEN
+    RAISE EXCEPTION 'Insufficient permissions to record revisions in this city';
+  END IF;
+
+  RETURN save_revision(p_entity_type, p_entity_id, p_reason);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_revision(TEXT, UUID, TEXT) TO authenticated;
+
+/**
+ * Save a revision of a language or description before it is deleted
+ *
+ * BEFORE DELETE: the translations and points of the row still exist, also
+ * when the row is removed by a cascade.
+ */
+CREATE OR REPLACE FUNCTION save_revision_before_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM save_revision(
+    CASE TG_TABLE_NAME WHEN 'languages' THEN 'language' ELSE 'description' END,
+    OLD.id,
+    'delete'
+  );
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS save_language_revision_before_delete ON languages;
+CREATE TRIGGER save_language_revision_before_delete
+  BEFORE DELETE ON languages
+  FOR EACH ROW
+  EXECUTE FUNCTION save_revision_before_delete();
+
+DROP TRIGGER IF EXISTS save_description_revision_before_delete ON descriptions;
+CREATE TRIGGER save_description_revision_before_delete
+  BEFORE DELETE ON descriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION save_revision_before_delete();
+
+-- 4. RESTORING REVISIONS
+-- ======================
+
+/**
+ * Put a description back in the state of a snapshot
+ *
+ * References to users and neighborhoods that no longer exist are cleared.
+ *
+ * @param p_snapshot - Description snapshot
+ */
+CREATE OR REPLACE FUNCTION restore_description_snapshot(p_snapshot JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_description JSONB := p_snapshot -> 'description';
+  v_id UUID := (v_description ->> 'id')::UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM languages WHERE id = (v_description ->> 'language_id')::UUID) THEN
+    RAISE EXCEPTION 'Restore the language of this description first';
+  END IF;
+
+  BEGIN
+    IF EXISTS (SELECT 1 FROM descriptions WHERE id = v_id) THEN
+      UPDATE descriptions SET
+        language_id = (v_description ->> 'language_id')::UUID,
+        neighborhood_id = (SELECT id FROM neighborhoods WHERE id = (v_description ->> 'neighborhood_id')::UUID),
+        is_ai_generated = (v_description ->> 'is_ai_generated')::BOOLEAN,
+        ai_model = v_description ->> 'ai_model',
+        ai_generated_at = (v_description ->> 'ai_generated_at')::TIMESTAMPTZ,
+        reviewed_by = (SELECT id FROM user_profiles WHERE id = (v_description ->> 'reviewed_by')::UUID),
+        reviewed_at = (v_description ->> 'reviewed_at')::TIMESTAMPTZ
+      WHERE id = v_id;
+    ELSE
+      INSERT INTO descriptions (
+        id, city_id, language_id, neighborhood_id, is_ai_generated, ai_model, ai_generated_at,
+        reviewed_by, reviewed_at, created_at, created_by
+      )
+      VALUES (
+        v_id,
+        (v_description ->> 'city_id')::UUID,
+        (v_description ->> 'language_id')::UUID,
+        (SELECT id FROM neighborhoods WHERE id = (v_description ->> 'neighborhood_id')::UUID),
+        (v_description ->> 'is_ai_generated')::BOOLEAN,
+        v_description ->> 'ai_model',
+        (v_description ->> 'ai_generated_at')::TIMESTAMPTZ,
+        (SELECT id FROM user_profiles WHERE id = (v_description ->> 'reviewed_by')::UUID),
+        (v_description ->> 'reviewed_at')::TIMESTAMPTZ,
+        (v_description ->> 'created_at')::TIMESTAMPTZ,
+        (SELECT id FROM user_profiles WHERE id = (v_description ->> 'created_by')::UUID)
+      );
+    END IF;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'Another description already exists for this language and neighborhood';
+  END;
+
+  DELETE FROM description_translations WHERE description_id = v_id;
+
+  INSERT INTO description_translations (
+    description_id, locale, text, is_ai_translated, ai_model, ai_translated_at, reviewed_by, reviewed_at
+  )
+  SELECT
+    v_id,
+    t ->> 'locale',
+    t ->> 'text',
+    COALESCE((t ->> 'is_ai_translated')::BOOLEAN, false),
+    t ->> 'ai_model',
+    (t ->> 'ai_translated_at')::TIMESTAMPTZ,
+    (SELECT id FROM user_profiles WHERE id = (t ->> 'reviewed_by')::UUID),
+    (t ->> 'reviewed_at')::TIMESTAMPTZ
+  FROM jsonb_array_elements(p_snapshot -> 'translations') t
+  WHERE EXISTS (SELECT 1 FROM locales WHERE code = t ->> 'locale');
+END;
+$$;
+
+/**
+ * Put a language back in the state of a snapshot
+ *
+ * A deleted language comes back with the points of the snapshot and the
+ * descriptions that were deleted together with it. The points of a
+ * language that still exists are left alone: they are edited one by one
+ * on the points pages. Taxonomy values, families and countries that no
+ * longer exist are skipped.
+ *
+ * @param p_snapshot - Language snapshot
+ */
+CREATE OR REPLACE FUNCTION restore_language_snapshot(p_snapshot JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_language JSONB := p_snapshot -> 'language';
+  v_id UUID := (v_language ->> 'id')::UUID;
+  v_deleted_in BIGINT;
+  v_description revisions%ROWTYPE;
+BEGIN
+  IF EXISTS (SELECT 1 FROM languages WHERE id = v_id) THEN
+    UPDATE languages SET
+      iso_639_3_code = v_language ->> 'iso_639_3_code',
+      endonym = v_language ->> 'endonym',
+      language_family_id = (SELECT id FROM language_families WHERE id = (v_language ->> 'language_family_id')::UUID),
+      country_of_origin_id = (SELECT id FROM countries WHERE id = (v_language ->> 'country_of_origin_id')::UUID),
+      speaker_count = (v_language ->> 'speaker_count')::INTEGER
+    WHERE id = v_id;
+  ELSE
+    INSERT INTO languages (
+      id, city_id, iso_639_3_code, endonym, language_family_id, country_of_origin_id,
+      speaker_count, created_at, created_by
+    )
+    VALUES (
+      v_id,
+      (v_language ->> 'city_id')::UUID,
+      v_language ->> 'iso_639_3_code',
+      v_language ->> 'endonym',
+      (SELECT id FROM language_families WHERE id = (v_language ->> 'language_family_id')::UUID),
+      (SELECT id FROM countries WHERE id = (v_language ->> 'country_of_origin_id')::UUID),
+      (v_language ->> 'speaker_count')::INTEGER,
+      (v_language ->> 'created_at')::TIMESTAMPTZ,
+      (SELECT id FROM user_profiles WHERE id = (v_language ->> 'created_by')::UUID)
+    );
+
+    INSERT INTO language_points (
+      id, language_id, neighborhood_id, latitude, longitude, postal_code, community_name,
+      notes, created_at, created_by
+    )
+    SELECT
+      (p ->> 'id')::UUID,
+      v_id,
+      (SELECT id FROM neighborhoods WHERE id = (p ->> 'neighborhood_id')::UUID),
+      (p ->> 'latitude')::NUMERIC,
+      (p ->> 'longitude')::NUMERIC,
+      p ->> 'postal_code',
+      p ->> 'community_name',
+      p ->> 'notes',
+      (p ->> 'created_at')::TIMESTAMPTZ,
+      (SELECT id FROM user_profiles WHERE id = (p ->> 'created_by')::UUID)
+    FROM jsonb_array_elements(p_snapshot -> 'points') p
+    ON CONFLICT (id) DO NOTHING;
+
+    SELECT transaction_id INTO v_deleted_in
+    FROM revisions
+    WHERE entity_type = 'language'
+      AND entity_id = v_id
+      AND reason = 'delete'
+    ORDER BY revision DESC
+    LIMIT 1;
+
+    FOR v_description IN
+      SELECT DISTINCT ON (r.entity_id) r.*
+      FROM revisions r
+      WHERE r.entity_type = 'description'
+        AND r.reason = 'delete'
+        AND r.transaction_id = v_deleted_in
+        AND r.snapshot -> 'description' ->> 'language_id' = v_id::TEXT
+        AND NOT EXISTS (SELECT 1 FROM descriptions d WHERE d.id = r.entity_id)
+      ORDER BY r.entity_id, r.revision DESC
+    LOOP
+      PERFORM restore_description_snapshot(v_description.snapshot);
+      PERFORM save_revision('description', v_description.entity_id, 'restore');
+    END LOOP;
+  END IF;
+
+  DELETE FROM language_translations WHERE language_id = v_id;
+
+  INSERT INTO language_translations (
+    language_id, locale_code, name, is_ai_translated, ai_model, ai_translated_at, reviewed_by, reviewed_at
+  )
+  SELECT
+    v_id,
+    t ->> 'locale_code',
+    t ->> 'name',
+    COALESCE((t ->> 'is_ai_translated')::BOOLEAN, false),
+    t ->> 'ai_model',
+    (t ->> 'ai_translated_at')::TIMESTAMPTZ,
+    (SELECT id FROM user_profiles WHERE id = (t ->> 'reviewed_by')::UUID),
+    (t ->> 'reviewed_at')::TIMESTAMPTZ
+  FROM jsonb_array_elements(p_snapshot -> 'translations') t
+  WHERE EXISTS (SELECT 1 FROM locales WHERE code = t ->> 'locale_code');
+
+  DELETE FROM language_taxonomies WHERE language_id = v_id;
+
+  INSERT INTO language_taxonomies (language_id, taxonomy_value_id)
+  SELECT v_id, tv.id
+  FROM taxonomy_values tv
+  WHERE tv.id IN (
+    SELECT value::UUID FROM jsonb_array_elements_text(p_snapshot -> 'taxonomy_value_ids')
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION restore_description_snapshot(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_language_snapshot(JSONB) FROM PUBLIC, anon, authenticated;
+
+/**
+ * Restore a language or description to a revision
+ *
+ * The restored state is saved as a new revision, so a restore can itself
+ * be undone. All changes happen in one transaction.
+ *
+ * @param p_revision_id - UUID of the revision to restore
+ * @returns UUID of the restored language or description
+ */
+CREATE OR REPLACE FUNCTION restore_revision(p_revision_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_revision FROM revisions WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  IF NOT has_city_access(auth.uid(), v_revision.city_id) THEN
+    RAISE EXCEPTION 'Insufficient permissions to restore revisions in this city';
+  END IF;
+
+  IF v_revision.entity_type = 'language' THEN
+    PERFORM restore_language_snapshot(v_revision.snapshot);
+  ELSE
+    PERFORM restore_description_snapshot(v_revision.snapshot);
+  END IF;
+
+  PERFORM save_revision(v_revision.entity_type, v_revision.entity_id, 'restore');
+
+  RETURN v_revision.entity_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_revision(UUID) TO authenticated;
+
+-- 5. DELETED ENTITIES
+-- ===================
+
+/**
+ * List the deleted languages or descriptions of a city, newest first
+ *
+ * SECURITY INVOKER: the revisions policy applies.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_entity_type - 'language' or 'description'
+ * @returns The delete revision of each entity that no longer exists
+ */
+CREATE OR REPLACE FUNCTION get_deleted_revisions(p_city_id UUID, p_entity_type TEXT)
+RETURNS SETOF revisions
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT DISTINCT ON (r.entity_id) r.*
+    FROM revisions r
+    WHERE r.city_id = p_city_id
+      AND r.entity_type = p_entity_type
+    ORDER BY r.entity_id, r.revision DESC
+  ) latest
+  WHERE latest.reason = 'delete'
+    AND NOT EXISTS (SELECT 1 FROM languages WHERE id = latest.entity_id)
+    AND NOT EXISTS (SELECT 1 FROM descriptions WHERE id = latest.entity_id)
+  ORDER BY latest.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_deleted_revisions(UUID, TEXT) TO authenticated;
@@ -0,0 +1,744 @@
+-- ============================================
+-- SOFT DELETE AND TRASH
+-- ============================================
+-- Deleting a language, language point, description, neighborhood, district
+-- or taxonomy value moves it to the trash of its city instead of removing
+-- it: the row gets deleted_at and deleted_by, and the server actions, the
+-- public map routes and the functions below skip it. Operators restore an
+-- item from the trash or purge it; a scheduled job purges items that have
+-- been in the trash longer than the city's retention period.
+--
+-- The cascades of a hard delete are mirrored: trashing a language also
+-- trashes its points and descriptions, a district its neighborhoods, and a
+-- neighborhood its descriptions, all with the same deleted_at. Restoring
+-- the item restores them too; purging it removes them for good. Rows that
+-- only refer to a trashed row (points in a trashed neighborhood, languages
+-- with a trashed taxonomy value) keep the reference, and readers treat it
+-- as absent.
+--
+-- Unique slugs and the one-description-per-neighborhood rule still count
+-- trashed rows: restore or purge the trashed row to reuse them.
+--
+-- The trash functions run as the signed-in user, so the same RLS policies
+-- decide who may trash, restore and purge as decided who could delete.
+
+-- 1. COLUMNS
+-- ==========
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'languages',
+    'language_points',
+    'descriptions',
+    'neighborhoods',
+    'districts',
+    'taxonomy_values'
+  ]
+  LOOP
+    EXECUTE format(
+      'ALTER TABLE %1$I
+         ADD COLUMN deleted_at TIMESTAMPTZ,
+         ADD COLUMN deleted_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL',
+      v_table
+    );
+    EXECUTE format('CREATE INDEX idx_%1$s_deleted_at ON %1$I(deleted_at) WHERE deleted_at IS NOT NULL', v_table);
+    EXECUTE format('COMMENT ON COLUMN %I.deleted_at IS %L', v_table, 'When the row was moved to the trash; NULL for live rows');
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE cities
+  ADD COLUMN trash_retention_days INTEGER NOT NULL DEFAULT 30
+    CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+COMMENT ON COLUMN cities.trash_retention_days IS 'Days deleted items stay in the trash before they are purged';
+
+-- 2. HELPERS
+-- ==========
+
+/**
+ * Get the table of a trash entity type
+ *
+ * @param p_entity_type - 'language', 'language_point', 'description',
+ *   'neighborhood', 'district' or 'taxonomy_value'
+ * @returns Name of the table
+ */
+CREATE OR REPLACE FUNCTION trash_table(p_entity_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN CASE p_entity_type
+    WHEN 'language' THEN 'languages'
+    WHEN 'language_point' THEN 'language_points'
+    WHEN 'description' THEN 'descriptions'
+    WHEN 'neighborhood' THEN 'neighborhoods'
+    WHEN 'district' THEN 'districts'
+    WHEN 'taxonomy_value' THEN 'taxonomy_values'
+    ELSE NULL
+  END;
+END;
+$$;
+
+/**
+ * List the items in the trash of every city
+ *
+ * Rows trashed together with their parent are left out: they are restored
+ * and purged with it.
+ *
+ * @returns One row per item
+ */
+CREATE OR REPLACE FUNCTION trash_roots()
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id UUID,
+  city_id UUID,
+  deleted_at TIMESTAMPTZ,
+  deleted_by UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT 'language', l.id, l.city_id, l.deleted_at, l.deleted_by
+  FROM languages l
+  WHERE l.deleted_at IS NOT NULL
+
+  UNION ALL
+
+  SELECT 'language_point', lp.id, l.city_id, lp.deleted_at, lp.deleted_by
+  FROM language_points lp
+  JOIN languages l ON l.id = lp.language_id
+  WHERE lp.deleted_at IS NOT NULL
+    AND l.deleted_at IS DISTINCT FROM lp.deleted_at
+
+  UNION ALL
+
+  SELECT 'description', d.id, d.city_id, d.deleted_at, d.deleted_by
+  FROM descriptions d
+  JOIN languages l ON l.id = d.language_id
+  LEFT JOIN neighborhoods n ON n.id = d.neighborhood_id
+  WHERE d.deleted_at IS NOT NULL
+    AND l.deleted_at IS DISTINCT FROM d.deleted_at
+    AND n.deleted_at IS DISTINCT FROM d.deleted_at
+
+  UNION ALL
+
+  SELECT 'neighborhood', n.id, di.city_id, n.deleted_at, n.deleted_by
+  FROM neighborhoods n
+  JOIN districts di ON di.id = n.district_id
+  WHERE n.deleted_at IS NOT NULL
+    AND di.deleted_at IS DISTINCT FROM n.deleted_at
+
+  UNION ALL
+
+  SELECT 'district', di.id, di.city_id, di.deleted_at, di.deleted_by
+  FROM districts di
+  WHERE di.deleted_at IS NOT NULL
+
+  UNION ALL
+
+  SELECT 'taxonomy_value', tv.id, tt.city_id, tv.deleted_at, tv.deleted_by
+  FROM taxonomy_values tv
+  JOIN taxonomy_types tt ON tt.id = tv.taxonomy_type_id
+  WHERE tv.deleted_at IS NOT NULL;
+$$;
+
+-- 3. MOVING TO THE TRASH
+-- ======================
+
+/**
+ * Move a row and the rows a hard delete would cascade to into the trash
+ *
+ * @param p_entity_type - Entity type (see trash_table)
+ * @param p_entity_id - UUID of the row
+ */
+CREATE OR REPLACE FUNCTION move_to_trash(p_entity_type TEXT, p_entity_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := trash_table(p_entity_type);
+  v_deleted_at TIMESTAMPTZ := NOW();
+  v_deleted_by UUID := audit_actor_id();
+  v_count INTEGER;
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Invalid entity type: %', p_entity_type;
+  END IF;
+
+  EXECUTE format('UPDATE %I SET deleted_at = $1, deleted_by = $2 WHERE id = $3 AND deleted_at IS NULL', v_table)
+  USING v_deleted_at, v_deleted_by, p_entity_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Item not found or you do not have permission to delete it';
+  END IF;
+
+  IF p_entity_type = 'language' THEN
+    UPDATE language_points SET deleted_at = v_deleted_at, deleted_by = v_deleted_by
+    WHERE language_id = p_entity_id AND deleted_at IS NULL;
+
+    UPDATE descriptions SET deleted_at = v_deleted_at, deleted_by = v_deleted_by
+    WHERE language_id = p_entity_id AND deleted_at IS NULL;
+  ELSIF p_entity_type = 'neighborhood' THEN
+    UPDATE descriptions SET deleted_at = v_deleted_at, deleted_by = v_deleted_by
+    WHERE neighborhood_id = p_entity_id AND deleted_at IS NULL;
+  ELSIF p_entity_type = 'district' THEN
+    UPDATE descriptions SET deleted_at = v_deleted_at, deleted_by = v_deleted_by
+    WHERE neighborhood_id IN (
+      SELECT id FROM neighborhoods WHERE district_id = p_entity_id AND deleted_at IS NULL
+    )
+      AND deleted_at IS NULL;
+
+    UPDATE neighborhoods SET deleted_at = v_deleted_at, deleted_by = v_deleted_by
+    WHERE district_id = p_entity_id AND deleted_at IS NULL;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION move_to_trash(TEXT, UUID) TO authenticated;
+
+-- 4. RESTORING AND PURGING
+-- ========================
+
+/**
+ * Take an item out of the trash, with the rows trashed together with it
+ *
+ * An item whose parent is still in the trash cannot be restored on its
+ * own, and rows trashed with the item are left in the trash while their
+ * other parent still is.
+ *
+ * @param p_entity_type - Entity type (see trash_table)
+ * @param p_entity_id - UUID of the item
+ */
+CREATE OR REPLACE FUNCTION restore_from_trash(p_entity_type TEXT, p_entity_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := trash_table(p_entity_type);
+  v_deleted_at TIMESTAMPTZ;
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Invalid entity type: %', p_entity_type;
+  END IF;
+
+  EXECUTE format('SELECT deleted_at FROM %I WHERE id = $1', v_table)
+  INTO v_deleted_at
+  USING p_entity_id;
+
+  IF v_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Item not found in the trash';
+  END IF;
+
+  IF p_entity_type = 'language_point' AND EXISTS (
+    SELECT 1 FROM language_points lp
+    JOIN languages l ON l.id = lp.language_id
+    WHERE lp.id = p_entity_id AND l.deleted_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Restore the language of this point first';
+  END IF;
+
+  IF p_entity_type = 'description' THEN
+    IF EXISTS (
+      SELECT 1 FROM descriptions d
+      JOIN languages l ON l.id = d.language_id
+      WHERE d.id = p_entity_id AND l.deleted_at IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Restore the language of this description first';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM descriptions d
+      JOIN neighborhoods n ON n.id = d.neighborhood_id
+      WHERE d.id = p_entity_id AND n.deleted_at IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Restore the neighborhood of this description first';
+    END IF;
+  END IF;
+
+  IF p_entity_type = 'neighborhood' AND EXISTS (
+    SELECT 1 FROM neighborhoods n
+    JOIN districts di ON di.id = n.district_id
+    WHERE n.id = p_entity_id AND di.deleted_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Restore the district of this neighborhood first';
+  END IF;
+
+  EXECUTE format('UPDATE %I SET deleted_at = NULL, deleted_by = NULL WHERE id = $1', v_table)
+  USING p_entity_id;
+
+  IF p_entity_type = 'language' THEN
+    UPDATE language_points SET deleted_at = NULL, deleted_by = NULL
+    WHERE language_id = p_entity_id AND deleted_at = v_deleted_at;
+
+    UPDATE descriptions d SET deleted_at = NULL, deleted_by = NULL
+    WHERE d.language_id = p_entity_id
+      AND d.deleted_at = v_deleted_at
+      AND NOT EXISTS (SELECT 1 FROM neighborhoods n WHERE n.id = d.neighborhood_id AND n.deleted_at IS NOT NULL);
+  ELSIF p_entity_type = 'neighborhood' THEN
+    UPDATE descriptions d SET deleted_at = NULL, deleted_by = NULL
+    WHERE d.neighborhood_id = p_entity_id
+      AND d.deleted_at = v_deleted_at
+      AND NOT EXISTS (SELECT 1 FROM languages l WHERE l.id = d.language_id AND l.deleted_at IS NOT NULL);
+  ELSIF p_entity_type = 'district' THEN
+    UPDATE neighborhoods SET deleted_at = NULL, deleted_by = NULL
+    WHERE district_id = p_entity_id AND deleted_at = v_deleted_at;
+
+    UPDATE descriptions d SET deleted_at = NULL, deleted_by = NULL
+    WHERE d.neighborhood_id IN (SELECT id FROM neighborhoods WHERE district_id = p_entity_id AND deleted_at IS NULL)
+      AND d.deleted_at = v_deleted_at
+      AND NOT EXISTS (SELECT 1 FROM languages l WHERE l.id = d.language_id AND l.deleted_at IS NOT NULL);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_from_trash(TEXT, UUID) TO authenticated;
+
+/**
+ * Delete a trashed row for good
+ *
+ * Descriptions of a purged neighborhood (or of the neighborhoods of a
+ * purged district) are in the trash with it and are purged first: their
+ * foreign key does not cascade. Languages and descriptions keep a 'delete'
+ * revision (see 20251122000000_create_revisions).
+ *
+ * @param p_entity_type - Entity type (see trash_table)
+ * @param p_entity_id - UUID of the item
+ */
+CREATE OR REPLACE FUNCTION purge_from_trash(p_entity_type TEXT, p_entity_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT := trash_table(p_entity_type);
+  v_deleted_at TIMESTAMPTZ;
+  v_count INTEGER;
+BEGIN
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Invalid entity type: %', p_entity_type;
+  END IF;
+
+  EXECUTE format('SELECT deleted_at FROM %I WHERE id = $1', v_table)
+  INTO v_deleted_at
+  USING p_entity_id;
+
+  IF v_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Item not found in the trash';
+  END IF;
+
+  IF p_entity_type = 'neighborhood' THEN
+    DELETE FROM descriptions WHERE neighborhood_id = p_entity_id;
+  ELSIF p_entity_type = 'district' THEN
+    DELETE FROM descriptions
+    WHERE neighborhood_id IN (SELECT id FROM neighborhoods WHERE district_id = p_entity_id);
+  END IF;
+
+  EXECUTE format('DELETE FROM %I WHERE id = $1', v_table)
+  USING p_entity_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'You do not have permission to delete this item';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION purge_from_trash(TEXT, UUID) TO authenticated;
+
+-- 5. TRASH OF A CITY
+-- ==================
+
+/**
+ * List the trash of a city, newest first
+ *
+ * SECURITY INVOKER: the RLS policies of the tables apply.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_locale - Locale for names; slugs and endonyms are the fallback
+ * @returns One row per item, with a name, the name of its parent (language
+ *   of a point or description, district of a neighborhood, type of a
+ *   taxonomy value) and when it will be purged
+ */
+CREATE OR REPLACE FUNCTION get_trash_items(p_city_id UUID, p_locale TEXT)
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id UUID,
+  label TEXT,
+  parent_label TEXT,
+  deleted_at TIMESTAMPTZ,
+  deleted_by UUID,
+  purge_after TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH language_names AS (
+    SELECT l.id, COALESCE(lt.name, l.endonym, l.iso_639_3_code) AS name
+    FROM languages l
+    LEFT JOIN language_translations lt ON lt.language_id = l.id AND lt.locale_code = p_locale
+    WHERE l.city_id = p_city_id
+  ),
+  neighborhood_names AS (
+    SELECT n.id, COALESCE(nt.name, n.slug) AS name
+    FROM neighborhoods n
+    JOIN districts di ON di.id = n.district_id
+    LEFT JOIN neighborhood_translations nt ON nt.neighborhood_id = n.id AND nt.locale_code = p_locale
+    WHERE di.city_id = p_city_id
+  ),
+  district_names AS (
+    SELECT di.id, COALESCE(dt.name, di.slug) AS name
+    FROM districts di
+    LEFT JOIN district_translations dt ON dt.district_id = di.id AND dt.locale_code = p_locale
+    WHERE di.city_id = p_city_id
+  )
+  SELECT
+    r.entity_type,
+    r.entity_id,
+    CASE r.entity_type
+      WHEN 'language' THEN (SELECT name FROM language_names WHERE id = r.entity_id)
+      WHEN 'language_point' THEN (
+        SELECT COALESCE(lp.community_name, lp.postal_code, lp.latitude || ', ' || lp.longitude)
+        FROM language_points lp WHERE lp.id = r.entity_id
+      )
+      WHEN 'description' THEN (
+        SELECT ln.name FROM descriptions d JOIN language_names ln ON ln.id = d.language_id WHERE d.id = r.entity_id
+      )
+      WHEN 'neighborhood' THEN (SELECT name FROM neighborhood_names WHERE id = r.entity_id)
+      WHEN 'district' THEN (SELECT name FROM district_names WHERE id = r.entity_id)
+      WHEN 'taxonomy_value' THEN (
+        SELECT COALESCE(tvt.name, tv.slug)
+        FROM taxonomy_values tv
+        LEFT JOIN taxonomy_value_translations tvt ON tvt.taxonomy_value_id = tv.id AND tvt.locale_code = p_locale
+        WHERE tv.id = r.entity_id
+      )
+    END,
+    CASE r.entity_type
+      WHEN 'language_point' THEN (
+        SELECT ln.name FROM language_points lp JOIN language_names ln ON ln.id = lp.language_id WHERE lp.id = r.entity_id
+      )
+      WHEN 'description' THEN (
+        SELECT nn.name FROM descriptions d JOIN neighborhood_names nn ON nn.id = d.neighborhood_id WHERE d.id = r.entity_id
+      )
+      WHEN 'neighborhood' THEN (
+        SELECT dn.name FROM neighborhoods n JOIN district_names dn ON dn.id = n.district_id WHERE n.id = r.entity_id
+      )
+      WHEN 'taxonomy_value' THEN (
+        SELECT COALESCE(ttt.name, tt.slug)
+        FROM taxonomy_values tv
+        JOIN taxonomy_types tt ON tt.id = tv.taxonomy_type_id
+        LEFT JOIN taxonomy_type_translations ttt ON ttt.taxonomy_type_id = tt.id AND ttt.locale_code = p_locale
+        WHERE tv.id = r.entity_id
+      )
+    END,
+    r.deleted_at,
+    r.deleted_by,
+    r.deleted_at + make_interval(days => c.trash_retention_days)
+  FROM trash_roots() r
+  JOIN cities c ON c.id = r.city_id
+  WHERE r.city_id = p_city_id
+  ORDER BY r.deleted_at DESC, r.entity_type;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_trash_items(UUID, TEXT) TO authenticated;
+
+/**
+ * Set how long deleted items of a city stay in the trash
+ *
+ * cities has no update policy for city admins, so this checks
+ * is_city_admin itself.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_days - Days, 1 to 365
+ */
+CREATE OR REPLACE FUNCTION set_trash_retention(p_city_id UUID, p_days INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (is_city_admin(auth.uid(), p_city_id) OR is_superuser(auth.uid())) THEN
+    RAISE EXCEPTION 'Insufficient permissions to change the settings of this city';
+  END IF;
+
+  IF p_days IS NULL OR p_days NOT BETWEEN 1 AND 365 THEN
+    RAISE EXCEPTION 'The retention period must be between 1 and 365 days';
+  END IF;
+
+  UPDATE cities SET trash_retention_days = p_days WHERE id = p_city_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_trash_retention(UUID, INTEGER) TO authenticated;
+
+-- 6. AUTOMATIC PURGE
+-- ==================
+
+/**
+ * Purge the items that have been in the trash longer than their city's
+ * retention period
+ *
+ * @returns The number of items purged
+ */
+CREATE OR REPLACE FUNCTION purge_expired_trash()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_item IN
+    SELECT r.entity_type, r.entity_id
+    FROM trash_roots() r
+    JOIN cities c ON c.id = r.city_id
+    WHERE r.deleted_at < NOW() - make_interval(days => c.trash_retention_days)
+  LOOP
+    -- An item purged with its parent earlier in the loop is already gone
+    IF v_item.entity_type = 'neighborhood' THEN
+      DELETE FROM descriptions WHERE neighborhood_id = v_item.entity_id;
+    ELSIF v_item.entity_type = 'district' THEN
+      DELETE FROM descriptions
+      WHERE neighborhood_id IN (SELECT id FROM neighborhoods WHERE district_id = v_item.entity_id);
+    END IF;
+
+    EXECUTE format('DELETE FROM %I WHERE id = $1', trash_table(v_item.entity_type))
+    USING v_item.entity_id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION purge_expired_trash() IS 'Delete trashed items past their city''s retention period; returns the number purged';
+
+REVOKE EXECUTE ON FUNCTION purge_expired_trash() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_expired_trash() TO service_role;
+
+-- Runs daily with pg_cron where available, like the invitation expiry
+-- sweep. Otherwise run by hand:
+--   SELECT purge_expired_trash();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('purge-expired-trash', '30 3 * * *', 'SELECT public.purge_expired_trash()');
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; run SELECT purge_expired_trash() on a schedule';
+  END IF;
+END;
+$$;
+
+-- 7. FUNCTIONS THAT SKIP TRASHED ROWS
+-- ===================================
+
+/**
+ * Boundaries of the districts and neighborhoods of a city that are not in
+ * the trash (see 20251113000000_add_district_neighborhood_boundaries)
+ */
+CREATE OR REPLACE FUNCTION get_city_boundaries(p_city_id UUID)
+RETURNS TABLE (
+  area_id UUID,
+  area_type TEXT,
+  slug TEXT,
+  district_slug TEXT,
+  translations JSONB,
+  geometry JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    d.id,
+    'district'::TEXT,
+    d.slug::TEXT,
+    d.slug::TEXT,
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('locale_code', t.locale_code, 'name', t.name))
+       FROM district_translations t WHERE t.district_id = d.id),
+      '[]'::jsonb
+    ),
+    ST_AsGeoJSON(d.boundary, 6)::jsonb
+  FROM districts d
+  WHERE d.city_id = p_city_id AND d.boundary IS NOT NULL AND d.deleted_at IS NULL
+
+  UNION ALL
+
+  SELECT
+    n.id,
+    'neighborhood'::TEXT,
+    n.slug::TEXT,
+    d.slug::TEXT,
+    COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('locale_code', t.locale_code, 'name', t.name))
+       FROM neighborhood_translations t WHERE t.neighborhood_id = n.id),
+      '[]'::jsonb
+    ),
+    ST_AsGeoJSON(n.boundary, 6)::jsonb
+  FROM neighborhoods n
+  JOIN districts d ON d.id = n.district_id
+  WHERE d.city_id = p_city_id AND n.boundary IS NOT NULL AND n.deleted_at IS NULL;
+$$;
+
+/**
+ * Find the neighborhood containing a location, among the neighborhoods
+ * not in the trash (see 20251114000000_add_language_point_neighborhood_lookup)
+ */
+CREATE OR REPLACE FUNCTION find_neighborhood_for_point(
+  p_city_id UUID,
+  p_latitude NUMERIC,
+  p_longitude NUMERIC
+) RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT n.id
+  FROM neighborhoods n
+  JOIN districts d ON d.id = n.district_id
+  WHERE d.city_id = p_city_id
+    AND n.deleted_at IS NULL
+    AND n.boundary IS NOT NULL
+    AND ST_Covers(
+      n.boundary,
+      ST_SetSRID(ST_MakePoint(p_longitude::float8, p_latitude::float8), 4326)
+    )
+  ORDER BY ST_Area(n.boundary), n.slug
+  LIMIT 1;
+$$;
+
+/**
+ * Re-assign the neighborhood of every language point of a city that is not
+ * in the trash (see 20251114000000_add_language_point_neighborhood_lookup)
+ */
+CREATE OR REPLACE FUNCTION reassign_language_point_neighborhoods(p_city_id UUID)
+RETURNS TABLE (
+  total_count INTEGER,
+  updated_count INTEGER,
+  unmatched_count INTEGER
+)
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+  WITH derived AS (
+    SELECT
+      lp.id,
+      lp.neighborhood_id AS current_neighborhood_id,
+      find_neighborhood_for_point(p_city_id, lp.latitude, lp.longitude) AS derived_neighborhood_id
+    FROM language_points lp
+    JOIN languages l ON l.id = lp.language_id
+    WHERE l.city_id = p_city_id
+      AND l.deleted_at IS NULL
+      AND lp.deleted_at IS NULL
+  ),
+  updated AS (
+    UPDATE language_points lp
+    SET neighborhood_id = d.derived_neighborhood_id
+    FROM derived d
+    WHERE lp.id = d.id
+      AND d.derived_neighborhood_id IS NOT NULL
+      AND d.derived_neighborhood_id IS DISTINCT FROM d.current_neighborhood_id
+    RETURNING lp.id
+  )
+  SELECT
+    (SELECT COUNT(*) FROM derived)::INTEGER,
+    (SELECT COUNT(*) FROM updated)::INTEGER,
+    (SELECT COUNT(*) FROM derived WHERE derived_neighborhood_id IS NULL)::INTEGER;
+$$;
+
+-- 8. REVISION SNAPSHOTS
+-- =====================
+-- The trash columns are not part of a version: trashing a row must not
+-- change its snapshot. A language purged from the trash keeps the points
+-- that were trashed with it.
+
+CREATE OR REPLACE FUNCTION language_snapshot(p_language_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'language', jsonb_build_object(
+      'id', l.id,
+      'city_id', l.city_id,
+      'iso_639_3_code', l.iso_639_3_code,
+      'endonym', l.endonym,
+      'language_family_id', l.language_family_id,
+      'country_of_origin_id', l.country_of_origin_id,
+      'speaker_count', l.speaker_count,
+      'created_at', l.created_at,
+      'created_by', l.created_by
+    ),
+    'translations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'locale_code', lt.locale_code,
+        'name', lt.name,
+        'is_ai_translated', lt.is_ai_translated,
+        'ai_model', lt.ai_model,
+        'ai_translated_at', lt.ai_translated_at,
+        'reviewed_by', lt.reviewed_by,
+        'reviewed_at', lt.reviewed_at
+      ) ORDER BY lt.locale_code)
+      FROM language_translations lt
+      WHERE lt.language_id = l.id
+    ), '[]'::JSONB),
+    'taxonomy_value_ids', COALESCE((
+      SELECT jsonb_agg(lx.taxonomy_value_id ORDER BY lx.taxonomy_value_id)
+      FROM language_taxonomies lx
+      WHERE lx.language_id = l.id
+    ), '[]'::JSONB),
+    'points', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(lp) - 'language_id' - 'updated_at' - 'deleted_at' - 'deleted_by'
+        ORDER BY lp.id
+      )
+      FROM language_points lp
+      WHERE lp.language_id = l.id
+        AND lp.deleted_at IS NOT DISTINCT FROM l.deleted_at
+    ), '[]'::JSONB)
+  )
+  FROM languages l
+  WHERE l.id = p_language_id;
+$$;
+
+CREATE OR REPLACE FUNCTION description_snapshot(p_description_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'description', to_jsonb(d) - 'updated_at' - 'deleted_at' - 'deleted_by',
+    'translations', COALESCE((
+      SELECT jsonb_agg(to_jsonb(dt) - 'description_id' ORDER BY dt.locale)
+      FROM description_translations dt
+      WHERE dt.description_id = d.id
+    ), '[]'::JSONB)
+  )
+  FROM descriptions d
+  WHERE d.id = p_description_id;
+$$;
@@ -0,0 +1,274 @@
+-- ============================================
+-- TRANSACTIONAL WRITE FUNCTIONS
+-- ============================================
+-- Creating or updating a language, creating a city and creating a
+-- description each write several tables. The Supabase client cannot run
+-- them in one transaction, so a failure halfway used to leave partial
+-- data behind (languages without names, translations of a language whose
+-- taxonomy links failed). These functions do all the writes of one save in
+-- a single transaction: either everything is saved or nothing is.
+--
+-- Validation and sanitization happen in the application (app/actions);
+-- these functions only write.
+
+-- 1. LANGUAGES
+-- ============
+
+/**
+ * Create a language with its translations and taxonomy assignments atomically
+ *
+ * SECURITY INVOKER: the RLS policies of the written tables apply.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_language - JSONB object with the language columns:
+ *   {"endonym": "Türkçe", "iso_639_3_code": "tur", "language_family_id": null,
+ *    "country_of_origin_id": null, "speaker_count": 40000}
+ * @param p_translations - JSONB array of names: [{"locale_code": "en", "name": "Turkish"}]
+ * @param p_taxonomy_value_ids - UUIDs of the taxonomy values to assign
+ * @returns The created language row
+ * @throws Will rollback entire transaction if any step fails
+ */
+CREATE OR REPLACE FUNCTION create_language(
+  p_city_id UUID,
+  p_language JSONB,
+  p_translations JSONB,
+  p_taxonomy_value_ids UUID[]
+) RETURNS languages
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_language languages%ROWTYPE;
+BEGIN
+  INSERT INTO languages (
+    city_id,
+    iso_639_3_code,
+    endonym,
+    language_family_id,
+    country_of_origin_id,
+    speaker_count,
+    created_by
+  ) VALUES (
+    p_city_id,
+    NULLIF(p_language->>'iso_639_3_code', ''),
+    p_language->>'endonym',
+    (p_language->>'language_family_id')::UUID,
+    (p_language->>'country_of_origin_id')::UUID,
+    (p_language->>'speaker_count')::INTEGER,
+    auth.uid()
+  )
+  RETURNING * INTO v_language;
+
+  INSERT INTO language_translations (language_id, locale_code, name)
+  SELECT v_language.id, t->>'locale_code', t->>'name'
+  FROM jsonb_array_elements(COALESCE(p_translations, '[]'::JSONB)) AS t
+  WHERE COALESCE(t->>'name', '') != '';
+
+  INSERT INTO language_taxonomies (language_id, taxonomy_value_id)
+  SELECT v_language.id, value_id
+  FROM unnest(COALESCE(p_taxonomy_value_ids, '{}'::UUID[])) AS value_id;
+
+  RETURN v_language;
+END;
+$$;
+
+/**
+ * Update a language and replace its translations and taxonomy assignments atomically
+ *
+ * SECURITY INVOKER: the RLS policies of the written tables apply.
+ *
+ * @param p_language_id - UUID of the language
+ * @param p_language - JSONB object with the language columns, as for create_language
+ * @param p_translations - JSONB array of names; names left out are removed
+ * @param p_taxonomy_value_ids - UUIDs of the taxonomy values; values left out are unassigned
+ * @returns The updated language row
+ * @throws 'Language not found' if the language does not exist, is in the
+ *   trash or may not be edited by the user; rolls back on any failure
+ */
+CREATE OR REPLACE FUNCTION update_language(
+  p_language_id UUID,
+  p_language JSONB,
+  p_translations JSONB,
+  p_taxonomy_value_ids UUID[]
+) RETURNS languages
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_language languages%ROWTYPE;
+BEGIN
+  UPDATE languages
+  SET
+    iso_639_3_code = NULLIF(p_language->>'iso_639_3_code', ''),
+    endonym = p_language->>'endonym',
+    language_family_id = (p_language->>'language_family_id')::UUID,
+    country_of_origin_id = (p_language->>'country_of_origin_id')::UUID,
+    speaker_count = (p_language->>'speaker_count')::INTEGER
+  WHERE id = p_language_id
+    AND deleted_at IS NULL
+  RETURNING * INTO v_language;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Language not found';
+  END IF;
+
+  DELETE FROM language_translations WHERE language_id = p_language_id;
+
+  INSERT INTO language_translations (language_id, locale_code, name)
+  SELECT p_language_id, t->>'locale_code', t->>'name'
+  FROM jsonb_array_elements(COALESCE(p_translations, '[]'::JSONB)) AS t
+  WHERE COALESCE(t->>'name', '') != '';
+
+  DELETE FROM language_taxonomies WHERE language_id = p_language_id;
+
+  INSERT INTO language_taxonomies (language_id, taxonomy_value_id)
+  SELECT p_language_id, value_id
+  FROM unnest(COALESCE(p_taxonomy_value_ids, '{}'::UUID[])) AS value_id;
+
+  RETURN v_language;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_language(UUID, JSONB, JSONB, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_language(UUID, JSONB, JSONB, UUID[]) TO authenticated;
+
+COMMENT ON FUNCTION create_language IS
+  'Creates a language with its translations and taxonomy assignments in one transaction.';
+COMMENT ON FUNCTION update_language IS
+  'Updates a language and replaces its translations and taxonomy assignments in one transaction.';
+
+-- 2. DESCRIPTIONS
+-- ===============
+
+/**
+ * Create a description with its first translation atomically
+ *
+ * SECURITY INVOKER: the RLS policies of the written tables apply.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_description - JSONB object with the description columns:
+ *   {"language_id": "...", "neighborhood_id": null, "is_ai_generated": false,
+ *    "ai_model": null}
+ * @param p_translation - JSONB object with the first text:
+ *   {"locale": "en", "text": "...", "is_ai_translated": false, "ai_model": null}
+ * @returns The created description row
+ * @throws Will rollback entire transaction if any step fails
+ */
+CREATE OR REPLACE FUNCTION create_description(
+  p_city_id UUID,
+  p_description JSONB,
+  p_translation JSONB
+) RETURNS descriptions
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_description descriptions%ROWTYPE;
+  v_is_ai_generated BOOLEAN := COALESCE((p_description->>'is_ai_generated')::BOOLEAN, false);
+  v_is_ai_translated BOOLEAN := COALESCE((p_translation->>'is_ai_translated')::BOOLEAN, false);
+BEGIN
+  INSERT INTO descriptions (
+    city_id,
+    language_id,
+    neighborhood_id,
+    is_ai_generated,
+    ai_model,
+    ai_generated_at,
+    created_by
+  ) VALUES (
+    p_city_id,
+    (p_description->>'language_id')::UUID,
+    (p_description->>'neighborhood_id')::UUID,
+    v_is_ai_generated,
+    NULLIF(p_description->>'ai_model', ''),
+    CASE WHEN v_is_ai_generated THEN NOW() END,
+    auth.uid()
+  )
+  RETURNING * INTO v_description;
+
+  INSERT INTO description_translations (
+    description_id,
+    locale,
+    text,
+    is_ai_translated,
+    ai_model,
+    ai_translated_at
+  ) VALUES (
+    v_description.id,
+    p_translation->>'locale',
+    p_translation->>'text',
+    v_is_ai_translated,
+    NULLIF(p_translation->>'ai_model', ''),
+    CASE WHEN v_is_ai_translated THEN NOW() END
+  );
+
+  RETURN v_description;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_description(UUID, JSONB, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION create_description IS
+  'Creates a description with its first translation in one transaction.';
+
+-- 3. CITIES
+-- =========
+
+/**
+ * Create a city with its translations and enabled locales atomically
+ *
+ * Called by superusers through the service role (see app/actions/cities),
+ * which checks the role before calling; not executable by other users.
+ *
+ * @param p_city - JSONB object with the city columns:
+ *   {"slug": "amsterdam", "country_id": "...", "center_lat": 52.37,
+ *    "center_lng": 4.89, "default_zoom": 12}
+ * @param p_translations - JSONB array of names and descriptions:
+ *   [{"locale_code": "en", "name": "Amsterdam", "description": "..."}]
+ * @param p_locale_codes - Locales to enable for the city
+ * @returns The created city row
+ * @throws Will rollback entire transaction if any step fails
+ */
+CREATE OR REPLACE FUNCTION create_city(
+  p_city JSONB,
+  p_translations JSONB,
+  p_locale_codes TEXT[]
+) RETURNS cities
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_city cities%ROWTYPE;
+BEGIN
+  INSERT INTO cities (
+    slug,
+    country_id,
+    center_lat,
+    center_lng,
+    default_zoom
+  ) VALUES (
+    p_city->>'slug',
+    (p_city->>'country_id')::UUID,
+    (p_city->>'center_lat')::DECIMAL,
+    (p_city->>'center_lng')::DECIMAL,
+    COALESCE((p_city->>'default_zoom')::INTEGER, 11)
+  )
+  RETURNING * INTO v_city;
+
+  INSERT INTO city_translations (city_id, locale_code, name, description)
+  SELECT v_city.id, t->>'locale_code', t->>'name', NULLIF(t->>'description', '')
+  FROM jsonb_array_elements(COALESCE(p_translations, '[]'::JSONB)) AS t;
+
+  INSERT INTO city_locales (city_id, locale_code, is_enabled)
+  SELECT v_city.id, locale_code, true
+  FROM unnest(COALESCE(p_locale_codes, '{}'::TEXT[])) AS locale_code;
+
+  RETURN v_city;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_city(JSONB, JSONB, TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_city(JSONB, JSONB, TEXT[]) TO service_role;
+
+COMMENT ON FUNCTION create_city IS
+  'Creates a city with its translations and enabled locales in one transaction; service role only.';
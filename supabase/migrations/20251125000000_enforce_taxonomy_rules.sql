@@ -0,0 +1,163 @@
+-- ============================================
+-- TAXONOMY RULES
+-- ============================================
+-- taxonomy_types.is_required and allow_multiple were only honoured by the
+-- language form. The server actions now check them before saving; this
+-- migration adds the same check in the database, so imports, revision
+-- restores and direct API writes cannot give a language two "size" values
+-- or leave out a required "status" either.
+--
+-- The check runs when a language is created or its taxonomy assignments
+-- change, at the end of the transaction, so functions that replace all
+-- assignments (update_language) are checked on the final state. Changing
+-- a rule does not touch existing languages; get_taxonomy_rule_violations
+-- lists the ones that break the new rule so they can be fixed.
+
+-- 1. VIOLATIONS
+-- =============
+
+/**
+ * List languages of a city that break the rules of its taxonomy types
+ *
+ * A language breaks a required type when it has no value of it, and a
+ * single-value type when it has more than one. Languages and values in the
+ * trash are left out.
+ *
+ * SECURITY INVOKER: only languages the user may read are listed.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_locale - Locale of the taxonomy type names (falls back to English, then the slug)
+ * @param p_language_id - Only check this language (optional)
+ * @returns One row per language and broken type
+ */
+CREATE OR REPLACE FUNCTION get_taxonomy_rule_violations(
+  p_city_id UUID,
+  p_locale TEXT DEFAULT 'en',
+  p_language_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  language_id UUID,
+  endonym TEXT,
+  taxonomy_type_id UUID,
+  taxonomy_type_name TEXT,
+  violation TEXT,
+  value_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    l.id,
+    l.endonym,
+    tt.id,
+    COALESCE(
+      (SELECT ttt.name FROM taxonomy_type_translations ttt
+       WHERE ttt.taxonomy_type_id = tt.id AND ttt.locale_code = p_locale),
+      (SELECT ttt.name FROM taxonomy_type_translations ttt
+       WHERE ttt.taxonomy_type_id = tt.id AND ttt.locale_code = 'en'),
+      tt.slug
+    )::TEXT,
+    CASE WHEN COUNT(tv.id) = 0 THEN 'missing' ELSE 'multiple' END,
+    COUNT(tv.id)::INTEGER
+  FROM languages l
+  JOIN taxonomy_types tt ON tt.city_id = l.city_id
+  LEFT JOIN language_taxonomies lt ON lt.language_id = l.id
+  LEFT JOIN taxonomy_values tv
+    ON tv.id = lt.taxonomy_value_id
+   AND tv.taxonomy_type_id = tt.id
+   AND tv.deleted_at IS NULL
+  WHERE l.city_id = p_city_id
+    AND l.deleted_at IS NULL
+    AND (p_language_id IS NULL OR l.id = p_language_id)
+    AND (tt.is_required OR NOT tt.allow_multiple)
+  GROUP BY l.id, l.endonym, tt.id, tt.slug, tt.is_required, tt.allow_multiple, tt.display_order
+  HAVING (tt.is_required AND COUNT(tv.id) = 0)
+      OR (NOT tt.allow_multiple AND COUNT(tv.id) > 1)
+  ORDER BY l.endonym, tt.display_order, tt.slug;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_taxonomy_rule_violations(UUID, TEXT, UUID) TO authenticated;
+
+COMMENT ON FUNCTION get_taxonomy_rule_violations IS
+  'Lists languages of a city with no value of a required taxonomy type or several values of a single-value type.';
+
+-- 2. ENFORCEMENT
+-- ==============
+
+/**
+ * Trigger function: reject a language write that breaks a taxonomy rule
+ *
+ * Runs deferred, at commit. Removing an assignment because its value is
+ * being purged or was moved to the trash is not checked: the language
+ * already lost that value, and the report lists it. The type is named in
+ * English when the city has it enabled, otherwise in the city's first
+ * enabled locale.
+ *
+ * @throws '"<type>" is required' or 'Only one "<type>" value is allowed'
+ */
+CREATE OR REPLACE FUNCTION enforce_language_taxonomy_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_language_id UUID;
+  v_city_id UUID;
+  v_locale TEXT;
+  v_violation RECORD;
+BEGIN
+  IF TG_TABLE_NAME = 'languages' THEN
+    v_language_id := NEW.id;
+  ELSIF TG_OP = 'INSERT' THEN
+    v_language_id := NEW.language_id;
+  ELSE
+    v_language_id := OLD.language_id;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM taxonomy_values
+      WHERE id = OLD.taxonomy_value_id AND deleted_at IS NULL
+    ) THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  SELECT city_id INTO v_city_id FROM languages WHERE id = v_language_id;
+
+  -- The language was deleted later in the same transaction
+  IF v_city_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT locale_code INTO v_locale
+  FROM city_locales
+  WHERE city_id = v_city_id AND is_enabled
+  ORDER BY locale_code = 'en' DESC, locale_code
+  LIMIT 1;
+
+  SELECT * INTO v_violation
+  FROM get_taxonomy_rule_violations(v_city_id, COALESCE(v_locale, 'en'), v_language_id)
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF v_violation.violation = 'missing' THEN
+      RAISE EXCEPTION '"%" is required', v_violation.taxonomy_type_name;
+    ELSE
+      RAISE EXCEPTION 'Only one "%" value is allowed', v_violation.taxonomy_type_name;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER enforce_taxonomy_rules_on_language
+  AFTER INSERT ON languages
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION enforce_language_taxonomy_rules();
+
+CREATE CONSTRAINT TRIGGER enforce_taxonomy_rules_on_assignment
+  AFTER INSERT OR DELETE ON language_taxonomies
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION enforce_language_taxonomy_rules();
+
+COMMENT ON FUNCTION enforce_language_taxonomy_rules IS
+  'Rejects, at commit, languages that break the is_required or allow_multiple rule of a taxonomy type.';
@@ -0,0 +1,813 @@
+-- ============================================
+-- AI TRANSLATION AND REVIEW QUEUE
+-- ============================================
+-- Every translation table has is_ai_translated, ai_model, ai_translated_at,
+-- reviewed_by and reviewed_at. The functions below let the server fill the
+-- locales a city has enabled but a row is missing with AI translations,
+-- and let translators review them:
+--
+-- - get_missing_translations lists what to translate, with the text to
+--   translate from (the source locale where there is one)
+-- - save_ai_translation stores a translation, marked AI-translated and
+--   unreviewed, unless someone entered that locale in the meantime
+-- - get_translation_review_queue lists the unreviewed AI translations
+-- - approve_translation stamps reviewed_by/reviewed_at, optionally with
+--   corrected text; reject_translation deletes the translation
+-- - ai_translation_skips records rejected translations, which are not
+--   translated again until their source text changes, and failed ones,
+--   which are left alone for a day (record_ai_translation_failure)
+-- - save_translations saves the translations entered in an edit form,
+--   keeping the AI and review columns of the ones left unchanged, so that
+--   saving a form does not pass unreviewed AI translations off as a
+--   person's
+--
+-- Covered: the city itself, districts, neighborhoods, languages,
+-- descriptions, taxonomy types and taxonomy values, skipping rows in the
+-- trash. Unreviewed AI translations are never used as a source.
+--
+-- All functions run as the signed-in user, so the RLS policies of the
+-- translation tables decide who may translate and review.
+
+-- 1. HELPERS
+-- ==========
+
+/**
+ * Get where the translations of an entity type are stored
+ *
+ * @param p_entity_type - 'city', 'district', 'neighborhood', 'language',
+ *   'description', 'taxonomy_type', 'taxonomy_value' or 'language_family'
+ *   (language families are shared by all cities, so only save_translations
+ *   handles them)
+ * @returns Translation table, the column referring to the entity, the
+ *   locale column and the translated text columns
+ */
+CREATE OR REPLACE FUNCTION translation_target(
+  p_entity_type TEXT,
+  OUT table_name TEXT,
+  OUT key_column TEXT,
+  OUT locale_column TEXT,
+  OUT fields TEXT[]
+)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  CASE p_entity_type
+    WHEN 'city' THEN table_name := 'city_translations'; key_column := 'city_id';
+    WHEN 'district' THEN table_name := 'district_translations'; key_column := 'district_id';
+    WHEN 'neighborhood' THEN table_name := 'neighborhood_translations'; key_column := 'neighborhood_id';
+    WHEN 'language' THEN table_name := 'language_translations'; key_column := 'language_id';
+    WHEN 'description' THEN table_name := 'description_translations'; key_column := 'description_id';
+    WHEN 'taxonomy_type' THEN table_name := 'taxonomy_type_translations'; key_column := 'taxonomy_type_id';
+    WHEN 'taxonomy_value' THEN table_name := 'taxonomy_value_translations'; key_column := 'taxonomy_value_id';
+    WHEN 'language_family' THEN table_name := 'language_family_translations'; key_column := 'family_id';
+    ELSE RAISE EXCEPTION 'Unknown translation type: %', p_entity_type;
+  END CASE;
+
+  locale_column := CASE WHEN p_entity_type = 'description' THEN 'locale' ELSE 'locale_code' END;
+  fields := CASE p_entity_type
+    WHEN 'description' THEN ARRAY['text']
+    WHEN 'language' THEN ARRAY['name']
+    ELSE ARRAY['name', 'description']
+  END;
+END;
+$$;
+
+/**
+ * List the translatable rows of a city that are not in the trash
+ *
+ * @param p_city_id - UUID of the city
+ * @returns One row per entity
+ */
+CREATE OR REPLACE FUNCTION translatable_entities(p_city_id UUID)
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT 'city', c.id FROM cities c WHERE c.id = p_city_id
+
+  UNION ALL
+
+  SELECT 'district', di.id
+  FROM districts di
+  WHERE di.city_id = p_city_id AND di.deleted_at IS NULL
+
+  UNION ALL
+
+  SELECT 'neighborhood', n.id
+  FROM neighborhoods n
+  JOIN districts di ON di.id = n.district_id
+  WHERE di.city_id = p_city_id AND n.deleted_at IS NULL AND di.deleted_at IS NULL
+
+  UNION ALL
+
+  SELECT 'language', l.id
+  FROM languages l
+  WHERE l.city_id = p_city_id AND l.deleted_at IS NULL
+
+  UNION ALL
+
+  SELECT 'description', d.id
+  FROM descriptions d
+  WHERE d.city_id = p_city_id AND d.deleted_at IS NULL
+
+  UNION ALL
+
+  SELECT 'taxonomy_type', tt.id
+  FROM taxonomy_types tt
+  WHERE tt.city_id = p_city_id
+
+  UNION ALL
+
+  SELECT 'taxonomy_value', tv.id
+  FROM taxonomy_values tv
+  JOIN taxonomy_types tt ON tt.id = tv.taxonomy_type_id
+  WHERE tt.city_id = p_city_id AND tv.deleted_at IS NULL;
+$$;
+
+/**
+ * List the translations of the translatable rows of a city
+ *
+ * @param p_city_id - UUID of the city
+ * @returns One row per translation, with its text columns as a JSON object
+ *   (see translation_target)
+ */
+CREATE OR REPLACE FUNCTION city_translation_rows(p_city_id UUID)
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id UUID,
+  locale TEXT,
+  fields JSONB,
+  is_ai_translated BOOLEAN,
+  ai_model TEXT,
+  ai_translated_at TIMESTAMPTZ,
+  reviewed_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH entities AS (
+    SELECT * FROM translatable_entities(p_city_id)
+  )
+  SELECT e.entity_type, e.entity_id, t.locale_code::TEXT,
+    jsonb_build_object('name', t.name, 'description', t.description),
+    t.is_ai_translated, t.ai_model, t.ai_translated_at, t.reviewed_at
+  FROM entities e
+  JOIN city_translations t ON e.entity_type = 'city' AND t.city_id = e.entity_id
+
+  UNION ALL
+
+  SELECT e.entity_type, e.entity_id, t.locale_code::TEXT,
+    jsonb_build_object('name', t.name, 'description', t.description),
+    t.is_ai_translated, t.ai_model, t.ai_translated_at, t.reviewed_at
+  FROM entities e
+  JOIN district_translations t ON e.entity_type = 'district' AND t.district_id = e.entity_id
+
+  UNION ALL
+
+  SELECT e.entity_type, e.entity_id, t.locale_code::TEXT,
+    jsonb_build_object('name', t.name, 'description', t.description),
+    t.is_ai_translated, t.ai_model, t.ai_translated_at, t.reviewed_at
+  FROM entities e
+  JOIN neighborhood_translations t ON e.entity_type = 'neighborhood' AND t.neighborhood_id = e.entity_id
+
+  UNION ALL
+
+  SELECT e.entity_type, e.entity_id, t.locale_code::TEXT,
+    jsonb_build_object('name', t.name),
+    t.is_ai_translated, t.ai_model, t.ai_translated_at, t.reviewed_at
+  FROM entities e
+  JOIN language_translations t ON e.entity_type = 'language' AND t.language_id = e.entity_id
+
+  UNION ALL
+
+  SELECT e.entity_type, e.entity_id, t.locale,
+    jsonb_build_object('text', t.text),
+    t.is_ai_translated, t.ai_model, t.ai_translated_at, t.reviewed_at
+  FROM entities e
+  JOIN description_translations t ON e.entity_type = 'description' AND t.description_id = e.entity_id
+
+  UNION ALL
+
+  SELECT e.entity_type, e.entity_id, t.locale_code::TEXT,
+    jsonb_build_object('name', t.name, 'description', t.description),
+    t.is_ai_translated, t.ai_model, t.ai_translated_at, t.reviewed_at
+  FROM entities e
+  JOIN taxonomy_type_translations t ON e.entity_type = 'taxonomy_type' AND t.taxonomy_type_id = e.entity_id
+
+  UNION ALL
+
+  SELECT e.entity_type, e.entity_id, t.locale_code::TEXT,
+    jsonb_build_object('name', t.name, 'description', t.description),
+    t.is_ai_translated, t.ai_model, t.ai_translated_at, t.reviewed_at
+  FROM entities e
+  JOIN taxonomy_value_translations t ON e.entity_type = 'taxonomy_value' AND t.taxonomy_value_id = e.entity_id;
+$$;
+
+-- 2. FILLING MISSING LOCALES
+-- ==========================
+
+-- Translations the AI translation job leaves alone while the text they are
+-- made from is unchanged: ones a translator rejected, and ones that failed
+-- (for a day, so that a row the provider cannot translate does not take up
+-- every run). Editing the source text makes them eligible again.
+CREATE TABLE ai_translation_skips (
+  city_id UUID NOT NULL REFERENCES cities(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  locale TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('rejected', 'failed')),
+  -- Text of the source translation when the translation was skipped
+  source_fields JSONB NOT NULL,
+  recorded_by UUID DEFAULT auth.uid(),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (entity_type, entity_id, locale)
+);
+
+CREATE INDEX idx_ai_translation_skips_city ON ai_translation_skips(city_id);
+
+ALTER TABLE ai_translation_skips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "City users can manage AI translation skips of their cities"
+  ON ai_translation_skips
+  FOR ALL
+  USING (has_city_access(auth.uid(), city_id))
+  WITH CHECK (has_city_access(auth.uid(), city_id));
+
+COMMENT ON TABLE ai_translation_skips IS
+  'Translations get_missing_translations leaves out. Written by reject_translation() and record_ai_translation_failure().';
+
+/**
+ * List the translations a city is missing in its enabled locales
+ *
+ * Each comes with the translation to work from: the one in the source
+ * locale, otherwise the first other locale. Rows with no translation
+ * written or reviewed by a person are left out: there is nothing to
+ * translate from. So are translations of the city itself unless the user
+ * is a superuser (only superusers may write them), and translations in
+ * ai_translation_skips whose source text is unchanged.
+ *
+ * SECURITY INVOKER: the RLS policies of the tables apply.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_source_locale - Preferred locale to translate from
+ * @param p_limit - Maximum number of rows
+ * @returns Up to p_limit rows, and in total_missing how many there are in all
+ */
+CREATE OR REPLACE FUNCTION get_missing_translations(
+  p_city_id UUID,
+  p_source_locale TEXT DEFAULT 'en',
+  p_limit INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id UUID,
+  locale TEXT,
+  source_locale TEXT,
+  source_fields JSONB,
+  total_missing BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH existing AS (
+    SELECT * FROM city_translation_rows(p_city_id)
+  ),
+  missing AS (
+    SELECT e.entity_type, e.entity_id, cl.locale_code::TEXT AS locale, s.locale AS source_locale, s.fields AS source_fields
+    FROM translatable_entities(p_city_id) e
+    JOIN city_locales cl ON cl.city_id = p_city_id AND cl.is_enabled
+    CROSS JOIN LATERAL (
+      SELECT x.locale, x.fields
+      FROM existing x
+      WHERE x.entity_type = e.entity_type
+        AND x.entity_id = e.entity_id
+        AND (NOT x.is_ai_translated OR x.reviewed_at IS NOT NULL)
+      ORDER BY x.locale = p_source_locale DESC, x.locale
+      LIMIT 1
+    ) s
+    WHERE NOT EXISTS (
+      SELECT 1 FROM existing x
+      WHERE x.entity_type = e.entity_type AND x.entity_id = e.entity_id AND x.locale = cl.locale_code
+    )
+      -- Only superusers may write the translations of the city itself
+      AND (e.entity_type <> 'city' OR is_superuser(auth.uid()))
+      AND NOT EXISTS (
+        SELECT 1 FROM ai_translation_skips k
+        WHERE k.entity_type = e.entity_type
+          AND k.entity_id = e.entity_id
+          AND k.locale = cl.locale_code
+          AND k.source_fields = s.fields
+          AND (k.reason = 'rejected' OR k.recorded_at > NOW() - INTERVAL '1 day')
+      )
+  )
+  SELECT m.entity_type, m.entity_id, m.locale, m.source_locale, m.source_fields, COUNT(*) OVER ()
+  FROM missing m
+  ORDER BY
+    array_position(
+      ARRAY['city', 'district', 'neighborhood', 'taxonomy_type', 'taxonomy_value', 'language', 'description'],
+      m.entity_type
+    ),
+    m.entity_id,
+    m.locale
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_missing_translations(UUID, TEXT, INTEGER) TO authenticated;
+
+/**
+ * Store an AI translation, unreviewed
+ *
+ * Does nothing when the entity already has a translation in the locale,
+ * e.g. because someone entered it while the translation was generated.
+ *
+ * SECURITY INVOKER: the RLS policies of the translation table apply.
+ *
+ * @param p_entity_type - Kind of row translated (see translation_target)
+ * @param p_entity_id - UUID of the row
+ * @param p_locale - Locale of the translation
+ * @param p_fields - Translated text columns, e.g. {"name": ..., "description": ...}
+ * @param p_model - Model that wrote the translation
+ * @returns True when the translation was stored
+ */
+CREATE OR REPLACE FUNCTION save_ai_translation(
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_locale TEXT,
+  p_fields JSONB,
+  p_model TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_target RECORD;
+  v_count INTEGER;
+BEGIN
+  v_target := translation_target(p_entity_type);
+
+  EXECUTE format(
+    'INSERT INTO %I (%I, %I, %s, is_ai_translated, ai_model, ai_translated_at)
+     VALUES ($1, $2, %s, true, $4, NOW())
+     ON CONFLICT DO NOTHING',
+    v_target.table_name,
+    v_target.key_column,
+    v_target.locale_column,
+    (SELECT string_agg(format('%I', f), ', ') FROM unnest(v_target.fields) f),
+    (SELECT string_agg(format('$3 ->> %L', f), ', ') FROM unnest(v_target.fields) f)
+  )
+  USING p_entity_id, p_locale, p_fields, p_model;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count > 0;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_ai_translation(TEXT, UUID, TEXT, JSONB, TEXT) TO authenticated;
+
+/**
+ * Record that an AI translation could not be written or saved
+ *
+ * get_missing_translations leaves the translation out for a day, or until
+ * its source text changes.
+ *
+ * SECURITY INVOKER: the RLS policies of ai_translation_skips apply.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_entity_type - Kind of row translated (see translation_target)
+ * @param p_entity_id - UUID of the row
+ * @param p_locale - Locale of the translation
+ * @param p_source_fields - Text it was translated from, as returned by
+ *   get_missing_translations
+ */
+CREATE OR REPLACE FUNCTION record_ai_translation_failure(
+  p_city_id UUID,
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_locale TEXT,
+  p_source_fields JSONB
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  INSERT INTO ai_translation_skips (city_id, entity_type, entity_id, locale, reason, source_fields)
+  VALUES (p_city_id, p_entity_type, p_entity_id, p_locale, 'failed', p_source_fields)
+  ON CONFLICT (entity_type, entity_id, locale) DO UPDATE
+  SET city_id = EXCLUDED.city_id,
+      reason = EXCLUDED.reason,
+      source_fields = EXCLUDED.source_fields,
+      recorded_by = auth.uid(),
+      recorded_at = NOW();
+$$;
+
+GRANT EXECUTE ON FUNCTION record_ai_translation_failure(UUID, TEXT, UUID, TEXT, JSONB) TO authenticated;
+
+-- 3. REVIEW QUEUE
+-- ===============
+
+/**
+ * List the AI translations of a city waiting for review, oldest first
+ *
+ * SECURITY INVOKER: the RLS policies of the tables apply.
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_locale - Locale for the names of the translated rows
+ * @returns One row per translation, with its text, the text it was most
+ *   likely translated from (as in get_missing_translations) and a name for
+ *   the row: its own name, or the name of the language of a description
+ */
+CREATE OR REPLACE FUNCTION get_translation_review_queue(p_city_id UUID, p_locale TEXT)
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id UUID,
+  locale TEXT,
+  label TEXT,
+  fields JSONB,
+  source_locale TEXT,
+  source_fields JSONB,
+  ai_model TEXT,
+  ai_translated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH existing AS (
+    SELECT * FROM city_translation_rows(p_city_id)
+  )
+  SELECT
+    q.entity_type,
+    q.entity_id,
+    q.locale,
+    CASE q.entity_type
+      WHEN 'description' THEN (
+        SELECT COALESCE(x.fields ->> 'name', l.endonym)
+        FROM descriptions d
+        JOIN languages l ON l.id = d.language_id
+        LEFT JOIN existing x ON x.entity_type = 'language' AND x.entity_id = l.id AND x.locale = p_locale
+        WHERE d.id = q.entity_id
+      )
+      ELSE (
+        SELECT x.fields ->> 'name'
+        FROM existing x
+        WHERE x.entity_type = q.entity_type AND x.entity_id = q.entity_id
+        ORDER BY x.locale = p_locale DESC, x.locale = q.locale DESC
+        LIMIT 1
+      )
+    END,
+    q.fields,
+    s.locale,
+    s.fields,
+    q.ai_model,
+    q.ai_translated_at
+  FROM existing q
+  LEFT JOIN LATERAL (
+    SELECT x.locale, x.fields
+    FROM existing x
+    WHERE x.entity_type = q.entity_type
+      AND x.entity_id = q.entity_id
+      AND x.locale <> q.locale
+      AND (NOT x.is_ai_translated OR x.reviewed_at IS NOT NULL)
+    ORDER BY x.locale = 'en' DESC, x.locale
+    LIMIT 1
+  ) s ON true
+  WHERE q.is_ai_translated AND q.reviewed_at IS NULL
+  ORDER BY q.ai_translated_at NULLS FIRST, q.entity_type, q.entity_id, q.locale;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_translation_review_queue(UUID, TEXT) TO authenticated;
+
+/**
+ * Approve an unreviewed AI translation, stamping reviewed_by and reviewed_at
+ *
+ * The translation stays marked as AI-translated: is_ai_translated records
+ * who wrote it, reviewed_at that a person checked it.
+ *
+ * SECURITY INVOKER: the RLS policies of the translation table apply.
+ *
+ * @param p_entity_type - Kind of row translated (see translation_target)
+ * @param p_entity_id - UUID of the row
+ * @param p_locale - Locale of the translation
+ * @param p_fields - Corrected text columns; columns left out keep their text
+ */
+CREATE OR REPLACE FUNCTION approve_translation(
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_locale TEXT,
+  p_fields JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_target RECORD;
+  v_count INTEGER;
+BEGIN
+  v_target := translation_target(p_entity_type);
+
+  EXECUTE format(
+    'UPDATE %I SET %s reviewed_by = auth.uid(), reviewed_at = NOW()
+     WHERE %I = $1 AND %I = $2 AND is_ai_translated AND reviewed_at IS NULL',
+    v_target.table_name,
+    (
+      SELECT string_agg(format('%1$I = CASE WHEN $3 ? %1$L THEN $3 ->> %1$L ELSE %1$I END, ', f), '')
+      FROM unnest(v_target.fields) f
+    ),
+    v_target.key_column,
+    v_target.locale_column
+  )
+  USING p_entity_id, p_locale, COALESCE(p_fields, '{}'::JSONB);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Translation not found or already reviewed';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION approve_translation(TEXT, UUID, TEXT, JSONB) TO authenticated;
+
+/**
+ * Reject an unreviewed AI translation by deleting it
+ *
+ * The rejection is recorded in ai_translation_skips, so the locale is not
+ * translated again until a person edits the text it was translated from.
+ *
+ * SECURITY INVOKER: the RLS policies of the translation table apply.
+ *
+ * @param p_city_id - UUID of the city the row belongs to
+ * @param p_entity_type - Kind of row translated (see translation_target)
+ * @param p_entity_id - UUID of the row
+ * @param p_locale - Locale of the translation
+ */
+CREATE OR REPLACE FUNCTION reject_translation(p_city_id UUID, p_entity_type TEXT, p_entity_id UUID, p_locale TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_target RECORD;
+  v_count INTEGER;
+  v_source JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM translatable_entities(p_city_id) e
+    WHERE e.entity_type = p_entity_type AND e.entity_id = p_entity_id
+  ) THEN
+    RAISE EXCEPTION 'Translation not found or already reviewed';
+  END IF;
+
+  v_target := translation_target(p_entity_type);
+
+  EXECUTE format(
+    'DELETE FROM %I WHERE %I = $1 AND %I = $2 AND is_ai_translated AND reviewed_at IS NULL',
+    v_target.table_name,
+    v_target.key_column,
+    v_target.locale_column
+  )
+  USING p_entity_id, p_locale;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Translation not found or already reviewed';
+  END IF;
+
+  -- The text get_missing_translations would translate from again
+  SELECT x.fields INTO v_source
+  FROM city_translation_rows(p_city_id) x
+  WHERE x.entity_type = p_entity_type
+    AND x.entity_id = p_entity_id
+    AND (NOT x.is_ai_translated OR x.reviewed_at IS NOT NULL)
+  ORDER BY x.locale = 'en' DESC, x.locale
+  LIMIT 1;
+
+  INSERT INTO ai_translation_skips (city_id, entity_type, entity_id, locale, reason, source_fields)
+  VALUES (p_city_id, p_entity_type, p_entity_id, p_locale, 'rejected', COALESCE(v_source, '{}'::JSONB))
+  ON CONFLICT (entity_type, entity_id, locale) DO UPDATE
+  SET city_id = EXCLUDED.city_id,
+      reason = EXCLUDED.reason,
+      source_fields = EXCLUDED.source_fields,
+      recorded_by = auth.uid(),
+      recorded_at = NOW();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reject_translation(UUID, TEXT, UUID, TEXT) TO authenticated;
+
+-- 4. EDITING TRANSLATIONS
+-- =======================
+
+/**
+ * Save the translations of a row entered in its edit form
+ *
+ * A translation whose text is unchanged keeps is_ai_translated, ai_model
+ * and its review stamps; one whose text a person changed becomes theirs
+ * and loses them. Locales in p_locales without text are removed; other
+ * locales are not touched.
+ *
+ * SECURITY INVOKER: the RLS policies of the translation table apply.
+ *
+ * @param p_entity_type - Kind of row (see translation_target)
+ * @param p_entity_id - UUID of the row
+ * @param p_translations - JSONB array of texts per locale:
+ *   [{"locale_code": "en", "name": "...", "description": "..."}]; a
+ *   translation without its first text column (the name) is left out
+ * @param p_locales - Locales the form offered; NULL for every locale
+ */
+CREATE OR REPLACE FUNCTION save_translations(
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_translations JSONB,
+  p_locales TEXT[] DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_target RECORD;
+  v_translations JSONB;
+BEGIN
+  v_target := translation_target(p_entity_type);
+
+  SELECT COALESCE(jsonb_agg(x), '[]'::JSONB) INTO v_translations
+  FROM jsonb_array_elements(COALESCE(p_translations, '[]'::JSONB)) x
+  WHERE COALESCE(x ->> v_target.fields[1], '') <> '';
+
+  -- Remove the offered locales that were left empty
+  EXECUTE format(
+    'DELETE FROM %1$I
+     WHERE %2$I = $1
+       AND ($2 IS NULL OR %3$I = ANY($2))
+       AND %3$I NOT IN (SELECT x ->> ''locale_code'' FROM jsonb_array_elements($3) x)',
+    v_target.table_name,
+    v_target.key_column,
+    v_target.locale_column
+  )
+  USING p_entity_id, p_locales, v_translations;
+
+  -- Insert new translations and update changed ones; unchanged rows are left alone
+  EXECUTE format(
+    'INSERT INTO %1$I AS t (%2$I, %3$I, %4$s)
+     SELECT $1, x ->> ''locale_code'', %5$s
+     FROM jsonb_array_elements($2) x
+     ON CONFLICT (%2$I, %3$I) DO UPDATE
+     SET %6$s,
+       is_ai_translated = false,
+       ai_model = NULL,
+       ai_translated_at = NULL,
+       reviewed_by = NULL,
+       reviewed_at = NULL
+     WHERE (%7$s) IS DISTINCT FROM (%8$s)',
+    v_target.table_name,
+    v_target.key_column,
+    v_target.locale_column,
+    (SELECT string_agg(format('%I', f), ', ') FROM unnest(v_target.fields) f),
+    (SELECT string_agg(format('NULLIF(x ->> %L, '''')', f), ', ') FROM unnest(v_target.fields) f),
+    (SELECT string_agg(format('%1$I = EXCLUDED.%1$I', f), ', ') FROM unnest(v_target.fields) f),
+    (SELECT string_agg(format('t.%I', f), ', ') FROM unnest(v_target.fields) f),
+    (SELECT string_agg(format('EXCLUDED.%I', f), ', ') FROM unnest(v_target.fields) f)
+  )
+  USING p_entity_id, v_translations;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_translations(TEXT, UUID, JSONB, TEXT[]) TO authenticated;
+
+-- Replaced by the version below, which takes the locales the form offered
+DROP FUNCTION IF EXISTS update_language(UUID, JSONB, JSONB, UUID[]);
+
+/**
+ * Update a language and its translations and taxonomy assignments atomically
+ *
+ * As in 20251124000000_create_transactional_write_functions.sql, but the
+ * translations are saved with save_translations, so unchanged AI
+ * translations stay in the review queue, and only the names of the
+ * offered locales are replaced.
+ *
+ * SECURITY INVOKER: the RLS policies of the written tables apply.
+ *
+ * @param p_language_id - UUID of the language
+ * @param p_language - JSONB object with the language columns, as for create_language
+ * @param p_translations - JSONB array of names; names of offered locales left out are removed
+ * @param p_taxonomy_value_ids - UUIDs of the taxonomy values; values left out are unassigned
+ * @param p_locales - Locales the names were entered for; NULL for all
+ * @returns The updated language row
+ * @throws 'Language not found' if the language does not exist, is in the
+ *   trash or may not be edited by the user; rolls back on any failure
+ */
+CREATE OR REPLACE FUNCTION update_language(
+  p_language_id UUID,
+  p_language JSONB,
+  p_translations JSONB,
+  p_taxonomy_value_ids UUID[],
+  p_locales TEXT[] DEFAULT NULL
+) RETURNS languages
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_language languages%ROWTYPE;
+BEGIN
+  UPDATE languages
+  SET
+    iso_639_3_code = NULLIF(p_language->>'iso_639_3_code', ''),
+    endonym = p_language->>'endonym',
+    language_family_id = (p_language->>'language_family_id')::UUID,
+    country_of_origin_id = (p_language->>'country_of_origin_id')::UUID,
+    speaker_count = (p_language->>'speaker_count')::INTEGER
+  WHERE id = p_language_id
+    AND deleted_at IS NULL
+  RETURNING * INTO v_language;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Language not found';
+  END IF;
+
+  PERFORM save_translations('language', p_language_id, p_translations, p_locales);
+
+  DELETE FROM language_taxonomies WHERE language_id = p_language_id;
+
+  INSERT INTO language_taxonomies (language_id, taxonomy_value_id)
+  SELECT p_language_id, value_id
+  FROM unnest(COALESCE(p_taxonomy_value_ids, '{}'::UUID[])) AS value_id;
+
+  RETURN v_language;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_language(UUID, JSONB, JSONB, UUID[], TEXT[]) TO authenticated;
+
+COMMENT ON FUNCTION update_language IS
+  'Updates a language and its translations in the given locales and replaces its taxonomy assignments in one transaction.';
+
+/**
+ * Update a language family and its translations atomically
+ *
+ * As in 20251105000001_create_language_family_functions.sql, but the
+ * translations are saved with save_translations.
+ *
+ * @param p_family_id - UUID of the family
+ * @param p_slug - New slug
+ * @param p_translations - JSONB array of names and descriptions; locales left out are removed
+ * @returns The family ID and slug
+ */
+CREATE OR REPLACE FUNCTION update_language_family_with_translations(
+  p_family_id UUID,
+  p_slug TEXT,
+  p_translations JSONB
+) RETURNS TABLE (
+  family_id UUID,
+  family_slug TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_family_id IS NULL THEN
+    RAISE EXCEPTION 'Family ID is required';
+  END IF;
+
+  IF p_slug IS NULL OR p_slug = '' THEN
+    RAISE EXCEPTION 'Slug is required';
+  END IF;
+
+  IF p_translations IS NULL OR jsonb_array_length(p_translations) = 0 THEN
+    RAISE EXCEPTION 'At least one translation is required';
+  END IF;
+
+  UPDATE language_families
+  SET
+    slug = p_slug,
+    updated_at = NOW()
+  WHERE id = p_family_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Language family not found';
+  END IF;
+
+  PERFORM save_translations('language_family', p_family_id, p_translations);
+
+  RETURN QUERY
+  SELECT p_family_id, p_slug;
+END;
+$$;
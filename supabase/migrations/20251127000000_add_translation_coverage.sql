@@ -0,0 +1,154 @@
+-- ============================================
+-- TRANSLATION COVERAGE
+-- ============================================
+-- Shows translators how complete the translations of a city are: per kind
+-- of row and per enabled locale of the city, how many rows are translated
+-- (by a person, or by AI and reviewed), translated by AI but not yet
+-- reviewed, or missing a translation; and which rows those are.
+--
+-- Builds on translatable_entities and city_translation_rows (see
+-- 20251126000000_create_translation_review.sql), so rows in the trash are
+-- not counted.
+--
+-- Both functions run as the signed-in user: the RLS policies of the tables
+-- apply.
+
+-- 1. COVERAGE PER TYPE AND LOCALE
+-- ===============================
+
+/**
+ * Count the translated, unreviewed and missing translations of a city
+ *
+ * @param p_city_id - UUID of the city
+ * @returns One row per kind of row and enabled locale that has rows;
+ *   translated + unreviewed + missing = total
+ */
+CREATE OR REPLACE FUNCTION get_translation_coverage(p_city_id UUID)
+RETURNS TABLE (
+  entity_type TEXT,
+  locale TEXT,
+  total BIGINT,
+  translated BIGINT,
+  unreviewed BIGINT,
+  missing BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH existing AS (
+    SELECT * FROM city_translation_rows(p_city_id)
+  )
+  SELECT
+    e.entity_type,
+    cl.locale_code::TEXT,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE x.entity_id IS NOT NULL AND (NOT x.is_ai_translated OR x.reviewed_at IS NOT NULL)),
+    COUNT(*) FILTER (WHERE x.is_ai_translated AND x.reviewed_at IS NULL),
+    COUNT(*) FILTER (WHERE x.entity_id IS NULL)
+  FROM translatable_entities(p_city_id) e
+  JOIN city_locales cl ON cl.city_id = p_city_id AND cl.is_enabled
+  LEFT JOIN existing x
+    ON x.entity_type = e.entity_type AND x.entity_id = e.entity_id AND x.locale = cl.locale_code
+  GROUP BY e.entity_type, cl.locale_code
+  ORDER BY e.entity_type, cl.locale_code;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_translation_coverage(UUID) TO authenticated;
+
+-- 2. ROWS TO TRANSLATE OR REVIEW
+-- ==============================
+
+/**
+ * List the rows of one kind whose translation in a locale is missing or
+ * waiting for review
+ *
+ * @param p_city_id - UUID of the city
+ * @param p_entity_type - Kind of row (see translation_target)
+ * @param p_locale - Locale of the translations
+ * @param p_display_locale - Locale for the names of the rows
+ * @returns One row per row to work on, missing ones first, with a name
+ *   (its own, or the name of the language of a description; the slug or
+ *   endonym when it has no name yet) and the parent needed to link to it
+ *   (the type of a taxonomy value)
+ */
+CREATE OR REPLACE FUNCTION get_translation_gaps(
+  p_city_id UUID,
+  p_entity_type TEXT,
+  p_locale TEXT,
+  p_display_locale TEXT
+)
+RETURNS TABLE (
+  entity_id UUID,
+  parent_id UUID,
+  label TEXT,
+  status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH existing AS (
+    SELECT * FROM city_translation_rows(p_city_id)
+  ),
+  gaps AS (
+    SELECT
+      e.entity_id,
+      CASE WHEN x.entity_id IS NULL THEN 'missing' ELSE 'unreviewed' END AS status
+    FROM translatable_entities(p_city_id) e
+    LEFT JOIN existing x
+      ON x.entity_type = e.entity_type AND x.entity_id = e.entity_id AND x.locale = p_locale
+    WHERE e.entity_type = p_entity_type
+      AND (x.entity_id IS NULL OR (x.is_ai_translated AND x.reviewed_at IS NULL))
+  ),
+  labelled AS (
+    SELECT
+      g.entity_id,
+      CASE WHEN p_entity_type = 'taxonomy_value' THEN (
+        SELECT tv.taxonomy_type_id FROM taxonomy_values tv WHERE tv.id = g.entity_id
+      ) END AS parent_id,
+      CASE p_entity_type
+        WHEN 'description' THEN (
+          SELECT COALESCE(
+            (
+              SELECT x.fields ->> 'name'
+              FROM existing x
+              WHERE x.entity_type = 'language' AND x.entity_id = d.language_id
+              ORDER BY x.locale = p_display_locale DESC, x.locale = 'en' DESC, x.locale
+              LIMIT 1
+            ),
+            l.endonym
+          )
+          FROM descriptions d
+          JOIN languages l ON l.id = d.language_id
+          WHERE d.id = g.entity_id
+        )
+        ELSE COALESCE(
+          (
+            SELECT x.fields ->> 'name'
+            FROM existing x
+            WHERE x.entity_type = p_entity_type AND x.entity_id = g.entity_id
+            ORDER BY x.locale = p_display_locale DESC, x.locale = 'en' DESC, x.locale
+            LIMIT 1
+          ),
+          CASE p_entity_type
+            WHEN 'city' THEN (SELECT c.slug FROM cities c WHERE c.id = g.entity_id)
+            WHEN 'district' THEN (SELECT di.slug FROM districts di WHERE di.id = g.entity_id)
+            WHEN 'neighborhood' THEN (SELECT n.slug FROM neighborhoods n WHERE n.id = g.entity_id)
+            WHEN 'language' THEN (SELECT l.endonym FROM languages l WHERE l.id = g.entity_id)
+            WHEN 'taxonomy_type' THEN (SELECT tt.slug FROM taxonomy_types tt WHERE tt.id = g.entity_id)
+            WHEN 'taxonomy_value' THEN (SELECT tv.slug FROM taxonomy_values tv WHERE tv.id = g.entity_id)
+          END
+        )
+      END AS label,
+      g.status
+    FROM gaps g
+  )
+  SELECT l.entity_id, l.parent_id, l.label, l.status
+  FROM labelled l
+  ORDER BY l.status = 'missing' DESC, lower(l.label), l.entity_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_translation_gaps(UUID, TEXT, TEXT, TEXT) TO authenticated;
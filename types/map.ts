@@ -0,0 +1,123 @@
+/**
+ * Map Type Definitions
+ * ====================
+ * TypeScript interfaces for the public map: GeoJSON payloads served by
+ * `/api/[locale]/[citySlug]/geojson`, area boundaries and the city map
+ * configuration.
+ */
+
+/**
+ * Taxonomy styling attached to a language point feature
+ */
+export interface LanguagePointTaxonomy {
+  typeSlug: string
+  valueSlug: string
+  color: string
+  iconName: string
+  iconSize: number
+}
+
+/**
+ * GeoJSON Feature for a language point
+ */
+export interface LanguagePointFeature {
+  type: 'Feature'
+  geometry: {
+    type: 'Point'
+    coordinates: [number, number] // [longitude, latitude]
+  }
+  properties: {
+    id: string
+    languageId: string
+    languageName: string
+    endonym: string | null
+    postalCode: string | null
+    communityName: string | null
+    taxonomies: LanguagePointTaxonomy[]
+    familySlug: string | null
+    countryCode: string | null // ISO 3166-1 alpha-2
+    neighborhoodSlug: string | null
+    districtSlug: string | null
+  }
+}
+
+/**
+ * GeoJSON FeatureCollection of language points
+ */
+export interface LanguagePointFeatureCollection {
+  type: 'FeatureCollection'
+  features: LanguagePointFeature[]
+}
+
+/**
+ * Public map configuration for a city (from the cities table)
+ */
+export interface CityMapConfig {
+  id: string
+  slug: string
+  name: string
+  centerLat: number
+  centerLng: number
+  defaultZoom: number
+  mapboxStyle: string | null
+  primaryColor: string | null
+  bounds: {
+    minLat: number
+    maxLat: number
+    minLng: number
+    maxLng: number
+  } | null
+}
+
+/**
+ * Taxonomy value shown in the map legend and filter panel
+ */
+export interface MapTaxonomyValue {
+  slug: string
+  name: string
+  description: string | null
+  color: string
+  iconName: string | null
+  displayOrder: number
+}
+
+/**
+ * Taxonomy type used by the public map for styling and/or filtering,
+ * served by `/api/[locale]/[citySlug]/taxonomies`
+ */
+export interface MapTaxonomyType {
+  slug: string
+  name: string
+  description: string | null
+  useForMapStyling: boolean
+  useForFiltering: boolean
+  displayOrder: number
+  values: MapTaxonomyValue[]
+}
+
+/**
+ * GeoJSON Feature for a district or neighborhood boundary
+ */
+export interface BoundaryFeature {
+  type: 'Feature'
+  geometry: {
+    type: 'MultiPolygon'
+    coordinates: number[][][][] // [polygon][ring][position][lng, lat]
+  }
+  properties: {
+    id: string
+    areaType: 'district' | 'neighborhood'
+    slug: string
+    districtSlug: string
+    name: string
+  }
+}
+
+/**
+ * GeoJSON FeatureCollection of boundaries, served by
+ * `/api/[locale]/[citySlug]/boundaries`
+ */
+export interface BoundaryFeatureCollection {
+  type: 'FeatureCollection'
+  features: BoundaryFeature[]
+}